@@ -21,6 +21,7 @@ import { initNotificationListeners, setNavigationCallback } from "@/lib/notifica
 import { reconcileReminderNotifications } from "@/lib/reminderNotifications";
 import { isOnboarded } from "@/lib/onboarding";
 import { initUsageTracker, trackPageVisit } from "@/lib/usageTracker";
+import { startAutoBackup } from "@/lib/autoBackup";
 import { trackNavigation } from "@/lib/crashReporter";
 import { lazyWithRetry, clearChunkReloadFlag } from "@/lib/lazyWithRetry";
 
@@ -38,10 +39,15 @@ const ReceiptScanPage = lazyWithRetry(() => import("./pages/ReceiptScanPage"));
 const ReceiptReviewPage = lazyWithRetry(() => import("./pages/ReceiptReviewPage"));
 const ReceiptDetailPage = lazyWithRetry(() => import("./pages/ReceiptDetailPage"));
 const ReceiptAnalyticsPage = lazyWithRetry(() => import("./pages/ReceiptAnalyticsPage"));
+const MoodAnalyticsPage = lazyWithRetry(() => import("./pages/MoodAnalyticsPage"));
 const ReminderDetailPage = lazyWithRetry(() => import("./pages/ReminderDetailPage"));
+const SyncConflictsPage = lazyWithRetry(() => import("./pages/SyncConflictsPage"));
+const AIUsagePage = lazyWithRetry(() => import("./pages/AIUsagePage"));
 const OnboardingPage = lazyWithRetry(() => import("./pages/OnboardingPage"));
 const DiscussionsListPage = lazyWithRetry(() => import("./pages/DiscussionsListPage"));
 const DiscussionChatPage = lazyWithRetry(() => import("./pages/DiscussionChatPage"));
+const DocumentsPage = lazyWithRetry(() => import("./pages/DocumentsPage"));
+const DocumentViewerPage = lazyWithRetry(() => import("./pages/DocumentViewerPage"));
 const AdminLoginPage = lazyWithRetry(() => import("./pages/AdminLoginPage"));
 const AdminDashboardPage = lazyWithRetry(() => import("./pages/AdminDashboardPage"));
 const AdminFeedbackPage = lazyWithRetry(() => import("./pages/AdminFeedbackPage"));
@@ -103,6 +109,9 @@ function AppContent() {
     // Initialize usage tracker
     initUsageTracker();
     
+    // Scheduled local backups (no-op until enabled in settings)
+    startAutoBackup();
+    
     // Reconcile reminder notifications on app start
     // Get language from localStorage or default to 'ru'
     const storedLang = localStorage.getItem('daybook-language') || 'ru';
@@ -131,11 +140,15 @@ function AppContent() {
               {/* All other routes wrapped in onboarding guard */}
               <Route path="/" element={<OnboardingGuard><Today /></OnboardingGuard>} />
               <Route path="/calendar" element={<OnboardingGuard><CalendarPage /></OnboardingGuard>} />
+              <Route path="/calendar/analytics" element={<OnboardingGuard><MoodAnalyticsPage /></OnboardingGuard>} />
               <Route path="/search" element={<OnboardingGuard><SearchPage /></OnboardingGuard>} />
               <Route path="/chat" element={<OnboardingGuard><ChatPage /></OnboardingGuard>} />
               <Route path="/discussions" element={<OnboardingGuard><DiscussionsListPage /></OnboardingGuard>} />
               <Route path="/discussions/:id" element={<OnboardingGuard><DiscussionChatPage /></OnboardingGuard>} />
+              <Route path="/documents" element={<OnboardingGuard><DocumentsPage /></OnboardingGuard>} />
+              <Route path="/documents/:id" element={<OnboardingGuard><DocumentViewerPage /></OnboardingGuard>} />
               <Route path="/settings" element={<OnboardingGuard><SettingsPage /></OnboardingGuard>} />
+              <Route path="/settings/ai-usage" element={<OnboardingGuard><AIUsagePage /></OnboardingGuard>} />
               <Route path="/new" element={<OnboardingGuard><NewEntry /></OnboardingGuard>} />
               <Route path="/entry/:id" element={<OnboardingGuard><NewEntry /></OnboardingGuard>} />
               <Route path="/day/:date" element={<OnboardingGuard><DayView /></OnboardingGuard>} />
@@ -145,6 +158,7 @@ function AppContent() {
               <Route path="/receipts/analytics" element={<OnboardingGuard><ReceiptAnalyticsPage /></OnboardingGuard>} />
               <Route path="/receipts/:id" element={<OnboardingGuard><ReceiptDetailPage /></OnboardingGuard>} />
               <Route path="/reminder/:id" element={<OnboardingGuard><ReminderDetailPage /></OnboardingGuard>} />
+              <Route path="/sync/conflicts" element={<OnboardingGuard><SyncConflictsPage /></OnboardingGuard>} />
               
               {/* Auth route */}
               <Route path="/auth" element={<AuthPage />} />
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { Zap, Gauge, Wifi, WifiOff, Shield, ShieldCheck, KeyRound, Brain, Tags, Camera, Globe, Server, Eye, EyeOff, ExternalLink, AlertTriangle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Zap, Gauge, Wifi, WifiOff, Shield, ShieldCheck, KeyRound, Brain, Tags, Camera, Globe, Server, Eye, EyeOff, ExternalLink, AlertTriangle, Search, Cpu, RefreshCw, Coins } from 'lucide-react';
 import { 
   AIProfile,
   AIProvider,
@@ -11,6 +12,7 @@ import {
   saveAISettings,
 } from '@/lib/aiConfig';
 import { testAIConnection } from '@/lib/aiService';
+import { listLocalModels, normalizeLocalEndpoint } from '@/lib/localLLM';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -34,8 +36,11 @@ const PROVIDER_ICONS: Record<AIProvider, React.ElementType> = {
   lovable: Server,
   openrouter: Globe,
   minimax: Zap,
+  local: Cpu,
 };
 
+const LOCAL_MODEL_PROFILES: AIProfile[] = ['economy', 'fast', 'balanced', 'quality', 'biography'];
+
 interface AISettingsCardProps {
   onSettingsChange?: (settings: AISettings) => void;
 }
@@ -46,6 +51,8 @@ export function AISettingsCard({ onSettingsChange }: AISettingsCardProps) {
   const [isTesting, setIsTesting] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'unknown' | 'success' | 'error'>('unknown');
   const [showApiKey, setShowApiKey] = useState(false);
+  const [localModelOptions, setLocalModelOptions] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
 
   useEffect(() => {
     const loadedSettings = loadAISettings();
@@ -65,7 +72,7 @@ export function AISettingsCard({ onSettingsChange }: AISettingsCardProps) {
     setConnectionStatus('unknown');
     
     try {
-      const result = await testAIConnection();
+      const result = await testAIConnection(language === 'ru' ? 'ru' : 'en');
       setConnectionStatus(result.success ? 'success' : 'error');
       
       if (result.success) {
@@ -81,6 +88,36 @@ export function AISettingsCard({ onSettingsChange }: AISettingsCardProps) {
     }
   };
 
+  const handleLoadLocalModels = async () => {
+    setIsLoadingModels(true);
+    try {
+      const models = await listLocalModels(settings, language === 'ru' ? 'ru' : 'en');
+      setLocalModelOptions(models);
+      if (models.length > 0) {
+        toast.success(`${t('ai.localModelsLoaded')}: ${models.length}`);
+      } else {
+        toast.error(t('ai.localNoModels'));
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('ai.connectionError'));
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  const updateLocalModel = (profileId: AIProfile, model: string) => {
+    updateSettings({ localModels: { ...settings.localModels, [profileId]: model } });
+  };
+
+  const isLocalEndpointValid = (() => {
+    try {
+      normalizeLocalEndpoint(settings.localEndpoint);
+      return true;
+    } catch {
+      return false;
+    }
+  })();
+
   const getProfileName = (profileId: AIProfile): string => {
     const key = `ai.profile.${profileId}` as const;
     return t(key as any);
@@ -228,6 +265,30 @@ export function AISettingsCard({ onSettingsChange }: AISettingsCardProps) {
           </div>
         </Collapsible>
 
+        {/* Server Embeddings Toggle (librarian retrieval) */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Search className={cn(
+              "h-5 w-5",
+              settings.serverEmbeddings && !settings.strictPrivacy ? "text-cyber-sigil" : "text-muted-foreground"
+            )} />
+            <div>
+              <Label htmlFor="server-embeddings" className="text-sm font-medium">
+                {t('ai.serverEmbeddings')}
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {settings.strictPrivacy ? t('ai.serverEmbeddingsPrivacy') : t('ai.serverEmbeddingsHint')}
+              </p>
+            </div>
+          </div>
+          <Switch
+            id="server-embeddings"
+            checked={settings.serverEmbeddings && !settings.strictPrivacy}
+            disabled={settings.strictPrivacy}
+            onCheckedChange={(checked) => updateSettings({ serverEmbeddings: checked })}
+          />
+        </div>
+
         {/* Auto-Screenshot Toggle */}
         <Collapsible open={settings.autoScreenshot}>
           <div className="flex items-center justify-between">
@@ -277,8 +338,8 @@ export function AISettingsCard({ onSettingsChange }: AISettingsCardProps) {
         {/* Provider Selection */}
         <div className="space-y-2">
           <Label className="text-sm font-medium">{t('ai.provider' as any)}</Label>
-          <div className="grid grid-cols-3 gap-2">
-            {(['lovable', 'openrouter', 'minimax'] as AIProvider[]).map((providerId) => {
+          <div className="grid grid-cols-2 gap-2">
+            {(['lovable', 'openrouter', 'minimax', 'local'] as AIProvider[]).map((providerId) => {
               const ProviderIcon = PROVIDER_ICONS[providerId];
               const isSelected = settings.provider === providerId;
               const providerInfo = AI_PROVIDERS[providerId];
@@ -306,11 +367,11 @@ export function AISettingsCard({ onSettingsChange }: AISettingsCardProps) {
           </div>
           {/* Show current model for selected profile+provider */}
           <p className="text-xs text-muted-foreground mt-1">
-            {t('ai.currentModel' as any)}: <span className="font-mono text-cyber-glow">{PROVIDER_MODELS[settings.provider]?.[settings.chatProfile] || '—'}</span>
+            {t('ai.currentModel' as any)}: <span className="font-mono text-cyber-glow">{(settings.provider === 'local' ? settings.localModels[settings.chatProfile] : PROVIDER_MODELS[settings.provider]?.[settings.chatProfile]) || '—'}</span>
           </p>
 
           {/* API Key Input for OpenRouter / MiniMax */}
-          {settings.provider !== 'lovable' && (
+          {(settings.provider === 'openrouter' || settings.provider === 'minimax') && (
             <div className="mt-3 space-y-2 p-3 rounded-lg bg-muted/30 border border-border">
               <Label className="text-sm flex items-center gap-2">
                 <KeyRound className="h-3.5 w-3.5" />
@@ -361,6 +422,96 @@ export function AISettingsCard({ onSettingsChange }: AISettingsCardProps) {
               </a>
             </div>
           )}
+
+          {/* Local OpenAI-compatible server */}
+          {settings.provider === 'local' && (
+            <div className="mt-3 space-y-3 p-3 rounded-lg bg-muted/30 border border-border">
+              <div className="space-y-1.5">
+                <Label htmlFor="local-endpoint" className="text-sm flex items-center gap-2">
+                  <Cpu className="h-3.5 w-3.5" />
+                  {t('ai.localEndpoint')}
+                </Label>
+                <Input
+                  id="local-endpoint"
+                  value={settings.localEndpoint}
+                  onChange={(e) => updateSettings({ localEndpoint: e.target.value })}
+                  placeholder={DEFAULT_AI_SETTINGS.localEndpoint}
+                  className="font-mono text-xs"
+                />
+                {isLocalEndpointValid ? (
+                  <p className="text-xs text-muted-foreground">{t('ai.localEndpointHint')}</p>
+                ) : (
+                  <div className="flex items-center gap-2 text-amber-500 text-xs">
+                    <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                    {t('ai.localEndpointInvalid')}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="local-api-key" className="text-sm flex items-center gap-2">
+                  <KeyRound className="h-3.5 w-3.5" />
+                  {t('ai.localApiKey')}
+                </Label>
+                <div className="relative">
+                  <Input
+                    id="local-api-key"
+                    type={showApiKey ? 'text' : 'password'}
+                    value={settings.localApiKey}
+                    onChange={(e) => updateSettings({ localApiKey: e.target.value })}
+                    className="pr-10 font-mono text-xs"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
+                    onClick={() => setShowApiKey(!showApiKey)}
+                  >
+                    {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm">{t('ai.localModels')}</Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1 text-xs"
+                    onClick={handleLoadLocalModels}
+                    disabled={isLoadingModels || !isLocalEndpointValid}
+                  >
+                    <RefreshCw className={cn('h-3 w-3', isLoadingModels && 'animate-spin')} />
+                    {t('ai.localLoadModels')}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">{t('ai.localModelsHint')}</p>
+                <datalist id="local-model-options">
+                  {localModelOptions.map((model) => (
+                    <option key={model} value={model} />
+                  ))}
+                </datalist>
+                {LOCAL_MODEL_PROFILES.map((profileId) => (
+                  <div key={profileId} className="flex items-center gap-2">
+                    <Label htmlFor={`local-model-${profileId}`} className="w-24 shrink-0 text-xs text-muted-foreground">
+                      {getProfileName(profileId)}
+                    </Label>
+                    <Input
+                      id={`local-model-${profileId}`}
+                      list="local-model-options"
+                      value={settings.localModels[profileId]}
+                      onChange={(e) => updateLocalModel(profileId, e.target.value)}
+                      placeholder={PROVIDER_MODELS.local[profileId]}
+                      className="h-8 font-mono text-xs"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Chat Profile Selection */}
@@ -448,8 +599,16 @@ export function AISettingsCard({ onSettingsChange }: AISettingsCardProps) {
               <Wifi className="h-4 w-4" />
               {t('ai.testConnection')}
             </>
-          )}
+)}
         </Button>
+
+        {/* Usage ledger and budgets */}
+        <Link to="/settings/ai-usage">
+          <Button variant="ghost" className="w-full gap-2">
+            <Coins className="h-4 w-4" />
+            {t('aiUsage.open')}
+          </Button>
+        </Link>
       </CardContent>
       
     </Card>
@@ -4,6 +4,7 @@ import { ru, enUS } from 'date-fns/locale';
 import { Lock, ChevronRight, Check } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { DiaryEntry } from '@/lib/db';
+import type { SnippetSegment } from '@/lib/search/searchIndex';
 import { MoodBadge } from './MoodSelector';
 import { TagBadge } from './TagSelector';
 import { SyncIndicator } from './SyncIndicator';
@@ -15,9 +16,11 @@ interface EntryCardProps {
   selectable?: boolean;
   selected?: boolean;
   onSelect?: (id: number) => void;
+  snippet?: SnippetSegment[] | null; // Search hit context shown instead of the text preview
+  snippetLabel?: string;
 }
 
-export function EntryCard({ entry, showDate = false, selectable = false, selected = false, onSelect }: EntryCardProps) {
+export function EntryCard({ entry, showDate = false, selectable = false, selected = false, onSelect, snippet, snippetLabel }: EntryCardProps) {
   const { t, language } = useI18n();
   const locale = language === 'ru' ? ru : enUS;
   const navigate = useNavigate();
@@ -100,15 +103,32 @@ export function EntryCard({ entry, showDate = false, selectable = false, selecte
             {entry.isPrivate && (
               <Lock className="h-3 w-3 ms-auto text-cyber-rune/60" />
             )}
-            <SyncIndicator />
+            <SyncIndicator conflict={entry.syncStatus === 'conflict'} />
           </div>
           
-          {/* Text preview */}
-          <p className="text-sm text-foreground/90 line-clamp-2 leading-relaxed select-text">
-            {entry.text || (
-              <span className="text-muted-foreground italic">{t('entry.empty')}</span>
-            )}
-          </p>
+          {/* Text preview (or highlighted search snippet) */}
+          {snippet ? (
+            <p className="text-sm text-foreground/90 line-clamp-3 leading-relaxed select-text">
+              {snippetLabel && (
+                <span className="me-1 text-xs text-cyber-sigil/70">{snippetLabel}:</span>
+              )}
+              {snippet.map((segment, i) =>
+                segment.highlight ? (
+                  <mark key={i} className="rounded-sm bg-cyber-glow/20 px-0.5 text-foreground">
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={i}>{segment.text}</span>
+                )
+              )}
+            </p>
+          ) : (
+            <p className="text-sm text-foreground/90 line-clamp-2 leading-relaxed select-text">
+              {entry.text || (
+                <span className="text-muted-foreground italic">{t('entry.empty')}</span>
+              )}
+            </p>
+          )}
           
           {/* Tags */}
           {entry.tags && entry.tags.length > 0 && (
@@ -1,5 +1,8 @@
-import { HardDrive, AlertTriangle, AlertCircle } from 'lucide-react';
+import { HardDrive, AlertTriangle, AlertCircle, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { ru } from 'date-fns/locale';
 import { useStorageUsage } from '@/hooks/useStorageUsage';
+import { useAutoBackupStatus } from '@/hooks/useAutoBackupStatus';
 import { cn } from '@/lib/utils';
 
 interface StorageIndicatorProps {
@@ -9,6 +12,7 @@ interface StorageIndicatorProps {
 
 export function StorageIndicator({ refreshKey, showLabel = true }: StorageIndicatorProps) {
   const { formatted, warning, isLoading } = useStorageUsage(refreshKey);
+  const autoBackup = useAutoBackupStatus();
 
   if (isLoading) {
     return (
@@ -42,6 +46,30 @@ export function StorageIndicator({ refreshKey, showLabel = true }: StorageIndica
           {warning === 'critical' && ' — критически мало места!'}
         </span>
       )}
+      {autoBackup.enabled && <AutoBackupBadge {...autoBackup} showLabel={showLabel} />}
     </div>
   );
 }
+
+function AutoBackupBadge({
+  status,
+  hasProblem,
+  showLabel,
+}: ReturnType<typeof useAutoBackupStatus> & { showLabel: boolean }) {
+  const label = hasProblem
+    ? 'автобэкап: требует внимания'
+    : status.lastSuccessAt
+      ? `автобэкап ${formatDistanceToNow(new Date(status.lastSuccessAt), { addSuffix: true, locale: ru })}`
+      : 'автобэкап ожидается';
+  const Icon = hasProblem ? ShieldAlert : ShieldCheck;
+
+  return (
+    <span
+      className={cn('flex items-center gap-1', hasProblem ? 'text-destructive' : 'text-muted-foreground')}
+      title={label}
+    >
+      <Icon className="h-4 w-4" />
+      {showLabel && <span>{label}</span>}
+    </span>
+  );
+}
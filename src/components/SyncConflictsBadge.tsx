@@ -0,0 +1,34 @@
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { AlertTriangle } from 'lucide-react';
+import { useSync } from '@/hooks/useSync';
+import { getConflictCount } from '@/lib/syncConflicts';
+import { cn } from '@/lib/utils';
+
+interface SyncConflictsBadgeProps {
+  className?: string;
+}
+
+/**
+ * Number of entries with unresolved sync conflicts, linking to the resolution screen.
+ * Renders nothing while there are none. Meant for page headers, once per screen.
+ */
+export function SyncConflictsBadge({ className }: SyncConflictsBadgeProps) {
+  const navigate = useNavigate();
+  const { isAuthenticated } = useSync();
+  const conflictCount = useLiveQuery(() => getConflictCount(), []) ?? 0;
+
+  if (!isAuthenticated || conflictCount === 0) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => navigate('/sync/conflicts')}
+      className={cn("flex items-center gap-1 text-amber-500 hover:text-amber-400", className)}
+      aria-label={`${conflictCount} sync conflicts`}
+    >
+      <AlertTriangle className="h-4 w-4" />
+      <span className="font-mono text-xs leading-none">{conflictCount}</span>
+    </button>
+  );
+}
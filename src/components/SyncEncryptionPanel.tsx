@@ -0,0 +1,329 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, KeyRound, Lock, LockOpen, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  PASSPHRASE_TOO_SHORT,
+  SYNC_KEY_CHANGED,
+  changeSyncPassphrase,
+  enableSyncEncryption,
+  getSyncEncryptionStatus,
+  recoverSyncEncryption,
+  reencryptSyncData,
+  unlockSyncEncryption,
+  type ReencryptResult,
+  type SyncEncryptionStatus,
+} from '@/lib/syncEncryption';
+import { MIN_PASSPHRASE_LENGTH, WRONG_PASSPHRASE } from '@/lib/syncCrypto';
+import { useI18n } from '@/lib/i18n';
+import { toast } from 'sonner';
+
+type PanelMode = 'idle' | 'enable' | 'unlock' | 'recover' | 'change';
+
+/**
+ * End-to-end encryption controls inside the sync card.
+ */
+export function SyncEncryptionPanel() {
+  const { language } = useI18n();
+  const [status, setStatus] = useState<SyncEncryptionStatus | null>(null);
+  const [mode, setMode] = useState<PanelMode>('idle');
+  const [busy, setBusy] = useState(false);
+  const [recoveryCodeToShow, setRecoveryCodeToShow] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+
+  const t = (ru: string, en: string) => language === 'ru' ? ru : en;
+
+  const refresh = useCallback(async () => {
+    try {
+      setStatus(await getSyncEncryptionStatus());
+    } catch (error) {
+      console.error('[SyncEncryption] Status failed:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const openMode = (next: PanelMode) => {
+    setPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setRecoveryCode('');
+    setMode(next);
+  };
+
+  const reportReencryption = (result: ReencryptResult) => {
+    if (result.errors.length > 0) {
+      toast.warning(t(
+        `Не удалось перешифровать ${result.errors.length} объектов. Повторите позже.`,
+        `${result.errors.length} items could not be re-encrypted. Try again later.`
+      ));
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      await action();
+      await refresh();
+    } catch (error) {
+      const code = error instanceof Error ? error.message : '';
+      if (code === WRONG_PASSPHRASE) {
+        toast.error(mode === 'recover'
+          ? t('Неверный код восстановления', 'Wrong recovery code')
+          : t('Неверная парольная фраза', 'Wrong passphrase'));
+      } else if (code === PASSPHRASE_TOO_SHORT) {
+        toast.error(t(`Минимум ${MIN_PASSPHRASE_LENGTH} символов`, `At least ${MIN_PASSPHRASE_LENGTH} characters`));
+      } else if (code === SYNC_KEY_CHANGED) {
+        toast.error(t('Парольную фразу изменили на другом устройстве', 'The passphrase was changed on another device'));
+        await refresh();
+      } else {
+        console.error('[SyncEncryption] Action failed:', error);
+        toast.error(t('Ошибка шифрования', 'Encryption error'));
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const passphrasesMatch = newPassphrase.length >= MIN_PASSPHRASE_LENGTH && newPassphrase === confirmPassphrase;
+
+  const handleEnable = () => run(async () => {
+    const { recoveryCode: code, reencrypted } = await enableSyncEncryption(newPassphrase);
+    setRecoveryCodeToShow(code);
+    openMode('idle');
+    toast.success(t('Шифрование включено', 'Encryption enabled'));
+    reportReencryption(reencrypted);
+  });
+
+  const handleUnlock = () => run(async () => {
+    await unlockSyncEncryption(passphrase);
+    openMode('idle');
+    toast.success(t('Ключ разблокирован', 'Key unlocked'));
+  });
+
+  const handleRecover = () => run(async () => {
+    await recoverSyncEncryption(recoveryCode, newPassphrase);
+    openMode('idle');
+    toast.success(t('Новая парольная фраза установлена', 'New passphrase set'));
+  });
+
+  const handleChange = () => run(async () => {
+    const { recoveryCode: code, reencrypted } = await changeSyncPassphrase(passphrase, newPassphrase);
+    setRecoveryCodeToShow(code);
+    openMode('idle');
+    toast.success(t('Парольная фраза изменена', 'Passphrase changed'));
+    reportReencryption(reencrypted);
+  });
+
+  const handleReencrypt = () => run(async () => {
+    reportReencryption(await reencryptSyncData());
+  });
+
+  const copyRecoveryCode = async () => {
+    if (!recoveryCodeToShow) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodeToShow);
+      toast.success(t('Скопировано', 'Copied'));
+    } catch {
+      // Clipboard may be unavailable; the code is on screen
+    }
+  };
+
+  if (!status) return null;
+
+  const newPassphraseFields = (
+    <>
+      <Input
+        type="password"
+        autoComplete="new-password"
+        placeholder={t('Новая парольная фраза', 'New passphrase')}
+        value={newPassphrase}
+        onChange={(e) => setNewPassphrase(e.target.value)}
+      />
+      <Input
+        type="password"
+        autoComplete="new-password"
+        placeholder={t('Повторите парольную фразу', 'Repeat passphrase')}
+        value={confirmPassphrase}
+        onChange={(e) => setConfirmPassphrase(e.target.value)}
+      />
+    </>
+  );
+
+  const formActions = (onSubmit: () => void, submitLabel: string, canSubmit: boolean) => (
+    <div className="flex gap-2">
+      <Button size="sm" className="flex-1" onClick={onSubmit} disabled={busy || !canSubmit}>
+        {submitLabel}
+      </Button>
+      <Button size="sm" variant="outline" className="flex-1" onClick={() => openMode('idle')} disabled={busy}>
+        {t('Отмена', 'Cancel')}
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg bg-muted/30 border border-border/50">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-1.5">
+          <ShieldCheck className="h-4 w-4 text-cyber-sigil" />
+          {t('Сквозное шифрование', 'End-to-end encryption')}
+        </span>
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          {status.state === 'disabled' && t('выключено', 'off')}
+          {status.state === 'locked' && (
+            <>
+              <Lock className="h-3.5 w-3.5 text-amber-500" />
+              {t('заблокировано', 'locked')}
+            </>
+          )}
+          {status.state === 'unlocked' && (
+            <>
+              <LockOpen className="h-3.5 w-3.5 text-primary" />
+              {t('включено', 'on')}
+            </>
+          )}
+        </span>
+      </div>
+
+      {/* Recovery code is shown exactly once, right after it is created */}
+      {recoveryCodeToShow && (
+        <div className="space-y-2 rounded-md border border-amber-500/40 p-2">
+          <p className="text-xs text-muted-foreground">
+            {t(
+              'Код восстановления. Сохраните его: без него и парольной фразы данные в облаке не восстановить.',
+              'Recovery code. Save it: without it or the passphrase, cloud data cannot be recovered.'
+            )}
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 break-all font-mono text-sm">{recoveryCodeToShow}</code>
+            <Button size="icon" variant="ghost" onClick={copyRecoveryCode} aria-label={t('Копировать', 'Copy')}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button size="sm" variant="outline" className="w-full" onClick={() => setRecoveryCodeToShow(null)}>
+            {t('Я сохранил код', 'I saved the code')}
+          </Button>
+        </div>
+      )}
+
+      {mode === 'idle' && status.state === 'disabled' && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {t(
+              'Записи и вложения шифруются на устройстве. Сервер не сможет их прочитать.',
+              'Entries and attachments are encrypted on this device. The server cannot read them.'
+            )}
+          </p>
+          <Button variant="outline" size="sm" className="w-full gap-2" onClick={() => openMode('enable')}>
+            <KeyRound className="h-4 w-4" />
+            {t('Включить шифрование', 'Enable encryption')}
+          </Button>
+        </>
+      )}
+
+      {mode === 'idle' && status.state === 'locked' && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {t(
+              'Введите парольную фразу, чтобы синхронизировать это устройство.',
+              'Enter the passphrase to sync this device.'
+            )}
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" className="flex-1 gap-1" onClick={() => openMode('unlock')}>
+              <LockOpen className="h-3.5 w-3.5" />
+              {t('Разблокировать', 'Unlock')}
+            </Button>
+            <Button size="sm" variant="ghost" className="flex-1" onClick={() => openMode('recover')}>
+              {t('Забыли фразу?', 'Forgot passphrase?')}
+            </Button>
+          </div>
+        </>
+      )}
+
+      {mode === 'idle' && status.state === 'unlocked' && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {t(
+              'Приватные записи тоже синхронизируются — они зашифрованы.',
+              'Private entries are synced too — they are encrypted.'
+            )}
+          </p>
+          {status.needsReencryption && (
+            <Button size="sm" variant="outline" className="w-full" onClick={handleReencrypt} disabled={busy}>
+              {t('Дошифровать данные в облаке', 'Finish encrypting cloud data')}
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" className="w-full" onClick={() => openMode('change')}>
+            {t('Сменить парольную фразу', 'Change passphrase')}
+          </Button>
+        </>
+      )}
+
+      {mode === 'enable' && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {t(
+              'Парольную фразу нельзя восстановить без кода восстановления.',
+              'The passphrase cannot be recovered without the recovery code.'
+            )}
+          </p>
+          {newPassphraseFields}
+          {formActions(handleEnable, t('Включить', 'Enable'), passphrasesMatch)}
+        </div>
+      )}
+
+      {mode === 'unlock' && (
+        <div className="space-y-2">
+          <Input
+            type="password"
+            autoComplete="current-password"
+            placeholder={t('Парольная фраза', 'Passphrase')}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          {formActions(handleUnlock, t('Разблокировать', 'Unlock'), passphrase.length > 0)}
+        </div>
+      )}
+
+      {mode === 'recover' && (
+        <div className="space-y-2">
+          <Input
+            className="font-mono"
+            placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+          />
+          {newPassphraseFields}
+          {formActions(handleRecover, t('Восстановить', 'Recover'), recoveryCode.length > 0 && passphrasesMatch)}
+        </div>
+      )}
+
+      {mode === 'change' && (
+        <div className="space-y-2">
+          <Input
+            type="password"
+            autoComplete="current-password"
+            placeholder={t('Текущая парольная фраза', 'Current passphrase')}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          {newPassphraseFields}
+          <p className="text-xs text-muted-foreground">
+            {t(
+              'Все данные в облаке будут перешифрованы, старый код восстановления перестанет работать.',
+              'All cloud data will be re-encrypted and the old recovery code will stop working.'
+            )}
+          </p>
+          {formActions(handleChange, t('Сменить', 'Change'), passphrase.length > 0 && passphrasesMatch)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,47 @@
-import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
 import { useSync } from '@/hooks/useSync';
+import { getConflictCount } from '@/lib/syncConflicts';
 import { cn } from '@/lib/utils';
 
 interface SyncIndicatorProps {
   className?: string;
+  conflict?: boolean; // On entry cards: this entry has an unresolved sync conflict
 }
 
 /**
  * Small cloud icon showing sync status.
  * Use on entry cards or in headers.
+ * A conflicted entry (in headers: any conflict) takes precedence, showing the number
+ * of unresolved conflicts and linking to the resolution screen.
  */
-export function SyncIndicator({ className }: SyncIndicatorProps) {
+export function SyncIndicator({ className, conflict }: SyncIndicatorProps) {
+  const navigate = useNavigate();
   const { status, isAuthenticated, lastSynced } = useSync();
+  const conflictCount = useLiveQuery(() => getConflictCount(), []) ?? 0;
 
   if (!isAuthenticated) return null;
 
+  if (conflict ?? conflictCount > 0) {
+    return (
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          navigate('/sync/conflicts');
+        }}
+        className={cn("flex items-center gap-0.5 text-amber-500 hover:text-amber-400", className)}
+        aria-label={`${conflictCount} sync conflicts`}
+      >
+        <AlertTriangle className="h-3.5 w-3.5" />
+        {conflictCount > 0 && (
+          <span className="font-mono text-[10px] leading-none">{conflictCount}</span>
+        )}
+      </button>
+    );
+  }
+
   if (status === 'syncing') {
     return (
       <RefreshCw className={cn("h-3.5 w-3.5 animate-spin text-primary", className)} />
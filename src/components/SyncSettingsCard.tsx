@@ -1,12 +1,16 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Cloud, CloudOff, RefreshCw, LogOut, Upload, CheckCircle2, AlertCircle } from 'lucide-react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Cloud, CloudOff, RefreshCw, LogOut, Upload, CheckCircle2, AlertCircle, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Progress } from '@/components/ui/progress';
 import { useAuth } from '@/hooks/useAuth';
 import { useSync } from '@/hooks/useSync';
+import { getConflictCount } from '@/lib/syncConflicts';
+import { SYNC_KEY_LOCKED } from '@/lib/syncCrypto';
+import { SyncEncryptionPanel } from '@/components/SyncEncryptionPanel';
 import { useI18n } from '@/lib/i18n';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
@@ -19,17 +23,29 @@ export function SyncSettingsCard() {
     () => localStorage.getItem('daybook-sync-private') === 'true'
   );
   const [showMigration, setShowMigration] = useState(false);
+  const conflictCount = useLiveQuery(() => getConflictCount(), []) ?? 0;
 
   const t = (ru: string, en: string) => language === 'ru' ? ru : en;
 
   const handleSyncNow = async () => {
     try {
       const result = await syncNow();
-      if (result) {
+      if (result?.errors.includes(SYNC_KEY_LOCKED)) {
+        toast.error(t(
+          'Облако зашифровано. Разблокируйте ключ парольной фразой.',
+          'Cloud data is encrypted. Unlock the key with your passphrase.'
+        ));
+      } else if (result) {
         toast.success(t(
           `Синхронизировано: ↑${result.uploaded} ↓${result.downloaded}`,
           `Synced: ↑${result.uploaded} ↓${result.downloaded}`
         ));
+        if (result.conflicts > 0) {
+          toast.warning(t(
+            `Конфликтов: ${result.conflicts}. Выберите версию записи.`,
+            `${result.conflicts} conflicts. Choose which version to keep.`
+          ));
+        }
       }
     } catch {
       toast.error(t('Ошибка синхронизации', 'Sync error'));
@@ -140,6 +156,16 @@ export function SyncSettingsCard() {
           }
         </Button>
 
+        {/* Unresolved conflicts */}
+        {conflictCount > 0 && (
+          <Link to="/sync/conflicts">
+            <Button variant="outline" className="w-full gap-2 border-amber-500/40 text-amber-500">
+              <AlertTriangle className="h-4 w-4" />
+              {t(`Решить конфликты (${conflictCount})`, `Resolve conflicts (${conflictCount})`)}
+            </Button>
+          </Link>
+        )}
+
         {/* Sync private entries toggle */}
         <div className="flex items-center justify-between">
           <span className="text-sm">{t('Синхронизировать приватные', 'Sync private entries')}</span>
@@ -149,6 +175,9 @@ export function SyncSettingsCard() {
           />
         </div>
 
+        {/* End-to-end encryption */}
+        <SyncEncryptionPanel />
+
         {/* Migration */}
         {!lastSynced && !showMigration && (
           <Button
@@ -113,6 +113,8 @@ export function WeeklyInsightsWidget() {
         const errorCode = result.error;
         if (errorCode === 'rate_limit_exceeded') {
           toast.error(t('weekly.tooManyRequests'));
+        } else if (errorCode === 'budget_exceeded') {
+          toast.error(t('aiUsage.budgetExceeded'));
         } else if (errorCode === 'not_enough_entries') {
           toast.error(t('weekly.notEnoughEntries'));
         } else {
@@ -138,6 +140,8 @@ export function WeeklyInsightsWidget() {
         const errorCode = result.error;
         if (errorCode === 'rate_limit_exceeded') {
           toast.error(t('weekly.tooManyRequests'));
+        } else if (errorCode === 'budget_exceeded') {
+          toast.error(t('aiUsage.budgetExceeded'));
         } else {
           toast.error(t('weekly.refreshFailed'));
         }
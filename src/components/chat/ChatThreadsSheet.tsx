@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { formatDistanceToNow, type Locale } from 'date-fns';
+import { ru, enUS, he, ar } from 'date-fns/locale';
+import { MessageSquare, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import { deleteChatThread, renameChatThread, searchChatThreads, type ChatThread } from '@/lib/db';
+import { useI18n } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+const localeMap: Record<string, Locale> = { ru, en: enUS, he, ar };
+
+interface ChatThreadsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  activeThreadId: number | null;
+  onSelect: (threadId: number) => void;
+  onNewChat: () => void;
+  onDeleted: (threadId: number) => void;
+}
+
+export function ChatThreadsSheet({
+  open,
+  onOpenChange,
+  activeThreadId,
+  onSelect,
+  onNewChat,
+  onDeleted,
+}: ChatThreadsSheetProps) {
+  const { t, language } = useI18n();
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<{ id: number; title: string } | null>(null);
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+
+  const threads = useLiveQuery(() => searchChatThreads(query), [query]);
+
+  const handleRename = async () => {
+    if (!renaming || !renaming.title.trim()) return;
+    await renameChatThread(renaming.id, renaming.title);
+    setRenaming(null);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (deleteId === null) return;
+    await deleteChatThread(deleteId);
+    onDeleted(deleteId);
+    setDeleteId(null);
+  };
+
+  const renderThread = (thread: ChatThread) => (
+    <div
+      key={thread.id}
+      className={cn(
+        'flex items-center gap-2 rounded-lg border p-2 transition-colors',
+        thread.id === activeThreadId
+          ? 'border-cyber-sigil/50 bg-cyber-glow/5'
+          : 'border-border/50 hover:border-cyber-sigil/30'
+      )}
+    >
+      <button
+        type="button"
+        onClick={() => onSelect(thread.id!)}
+        className="flex flex-1 min-w-0 items-center gap-3 text-start"
+      >
+        <MessageSquare className="h-4 w-4 shrink-0 text-cyber-sigil" />
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{thread.title || t('chat.untitled')}</p>
+          <p className="text-xs text-muted-foreground">
+            {formatDistanceToNow(thread.lastMessageAt, { addSuffix: true, locale: localeMap[language] || enUS })}
+          </p>
+        </div>
+      </button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        aria-label={t('chat.renameThread')}
+        onClick={() => setRenaming({ id: thread.id!, title: thread.title })}
+      >
+        <Pencil className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        aria-label={t('chat.deleteThread')}
+        onClick={() => setDeleteId(thread.id!)}
+      >
+        <Trash2 className="h-3.5 w-3.5 text-destructive" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent side="left" className="flex w-full flex-col gap-4 sm:max-w-sm">
+          <SheetHeader>
+            <SheetTitle>{t('chat.history')}</SheetTitle>
+            <SheetDescription className="sr-only">{t('chat.searchThreads')}</SheetDescription>
+          </SheetHeader>
+
+          <Button onClick={onNewChat} className="gap-2 btn-cyber">
+            <Plus className="h-4 w-4" />
+            {t('chat.newChat')}
+          </Button>
+
+          <div className="relative">
+            <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('chat.searchThreads')}
+              className="ps-9"
+            />
+          </div>
+
+          <div className="flex-1 space-y-2 overflow-y-auto">
+            {threads && threads.length === 0 && (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                {query.trim() ? t('chat.noThreadMatches') : t('chat.noThreads')}
+              </p>
+            )}
+            {threads?.map(renderThread)}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <Dialog open={renaming !== null} onOpenChange={(isOpen) => !isOpen && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('chat.renameThread')}</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renaming?.title ?? ''}
+            onChange={(e) => setRenaming(prev => (prev ? { ...prev, title: e.target.value } : prev))}
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setRenaming(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleRename} disabled={!renaming?.title.trim()}>{t('common.save')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteId !== null} onOpenChange={(isOpen) => !isOpen && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('chat.deleteThreadConfirm')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('chat.deleteThreadDesc')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteConfirm} className="bg-destructive text-destructive-foreground">
+              {t('chat.deleteThread')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -26,8 +26,15 @@ const ROW_HEIGHT = 120; // px, approximate for aspect-square items
 interface DiaryImagePickerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onImageSelect: (result: { blob: Blob; base64DataUrl: string }) => void;
-  onMultiImageSelect?: (results: Array<{ blob: Blob; base64DataUrl: string }>) => void;
+  onImageSelect: (result: DiaryImageResult) => void;
+  onMultiImageSelect?: (results: DiaryImageResult[]) => void;
+}
+
+// attachmentId: the diary attachment the compressed image was made from
+export interface DiaryImageResult {
+  blob: Blob;
+  base64DataUrl: string;
+  attachmentId: number;
 }
 
 interface ImageWithMeta extends Attachment {
@@ -305,7 +312,7 @@ export function DiaryImagePicker({ open, onOpenChange, onImageSelect, onMultiIma
         return;
       }
 
-      onImageSelect({ blob: result.blob, base64DataUrl: result.base64DataUrl });
+      onImageSelect({ blob: result.blob, base64DataUrl: result.base64DataUrl, attachmentId: attachment.id });
       onOpenChange(false);
     } catch (error) {
       console.error('Image processing failed:', error);
@@ -327,7 +334,7 @@ export function DiaryImagePicker({ open, onOpenChange, onImageSelect, onMultiIma
     }
 
     setIsProcessing(true);
-    const results: Array<{ blob: Blob; base64DataUrl: string }> = [];
+    const results: DiaryImageResult[] = [];
     const selectedImages = filteredImages.filter(img => img.id && selectedIds.has(img.id));
     
     try {
@@ -337,7 +344,7 @@ export function DiaryImagePicker({ open, onOpenChange, onImageSelect, onMultiIma
         
         const result = await compressChatImage(selectedImages[i].blob);
         if (result.success) {
-          results.push({ blob: result.blob, base64DataUrl: result.base64DataUrl });
+          results.push({ blob: result.blob, base64DataUrl: result.base64DataUrl, attachmentId: selectedImages[i].id! });
         } else {
           toast.error(`${language === 'ru' ? 'Ошибка' : 'Error'} ${i + 1}/${selectedImages.length}`);
         }
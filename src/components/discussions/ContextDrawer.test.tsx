@@ -7,6 +7,9 @@ vi.mock('@/lib/db', () => ({
     entries: {
       get: vi.fn(),
     },
+    documents: {
+      get: vi.fn(async (id: number) => ({ id, title: 'Lease agreement', pageCount: 3 })),
+    },
   },
 }));
 
@@ -37,18 +40,22 @@ describe('ContextDrawer', () => {
     cleanup();
   });
 
-  it('keeps docs-only stored shape out of the live context drawer', () => {
+  it('shows the documents in scope next to the entries', async () => {
     render(
       <ContextDrawer
         open
         onOpenChange={() => {}}
         entryIds={[]}
+        docIds={[9]}
         onAddFromToday={() => {}}
+        onAddDocuments={() => {}}
       />
     );
 
     expect(screen.getByText('discussion.context')).toBeTruthy();
-    expect(screen.queryByText(/documents/i)).toBeNull();
     expect(screen.getByText('Entries (0)')).toBeTruthy();
+    expect(screen.getByText('Documents (1)')).toBeTruthy();
+    expect(await screen.findByText('Lease agreement')).toBeTruthy();
+    expect(screen.getByText('discussion.addDocuments')).toBeTruthy();
   });
 });
@@ -1,9 +1,9 @@
 import { useState, useEffect } from 'react';
 import { format } from 'date-fns';
 import { ru, enUS } from 'date-fns/locale';
-import { X, Plus, FileText, Trash2 } from 'lucide-react';
+import { Plus, FileText, Book, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { DiaryEntry, db } from '@/lib/db';
+import { DiaryEntry, StoredDocument, db } from '@/lib/db';
 import { useI18n } from '@/lib/i18n';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
@@ -13,16 +13,25 @@ interface ContextDrawerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   entryIds: number[];
+  docIds?: number[];
   onAddFromToday?: () => void;
+  onAddDocuments?: () => void;
   onRemoveEntry?: (id: number) => void;
+  onRemoveDocument?: (id: number) => void;
 }
 
+// Stable default: a fresh [] per render would re-run the document loading effect forever
+const NO_DOCUMENTS: number[] = [];
+
 export function ContextDrawer({
   open,
   onOpenChange,
   entryIds,
+  docIds = NO_DOCUMENTS,
   onAddFromToday,
+  onAddDocuments,
   onRemoveEntry,
+  onRemoveDocument,
 }: ContextDrawerProps) {
   const { t, language } = useI18n();
   const locale = language === 'ru' ? ru : enUS;
@@ -41,6 +50,20 @@ export function ContextDrawer({
     loadEntries();
   }, [entryIds]);
   
+  const [documents, setDocuments] = useState<StoredDocument[]>([]);
+  
+  useEffect(() => {
+    async function loadDocuments() {
+      const loaded: StoredDocument[] = [];
+      for (const id of docIds) {
+        const document = await db.documents.get(id);
+        if (document) loaded.push(document);
+      }
+      setDocuments(loaded);
+    }
+    loadDocuments();
+  }, [docIds]);
+  
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
       <SheetContent side="right" className="w-80 p-0">
@@ -102,6 +125,59 @@ export function ContextDrawer({
                 </div>
               )}
             </div>
+            
+            {/* Documents section */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-muted-foreground">
+                  {language === 'ru' ? 'Документы' : 'Documents'} ({docIds.length})
+                </h4>
+                {onAddDocuments && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onAddDocuments}
+                    className="h-7 text-xs gap-1"
+                  >
+                    <Plus className="h-3 w-3" />
+                    {t('discussion.addDocuments')}
+                  </Button>
+                )}
+              </div>
+              
+              {documents.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">
+                  {language === 'ru' ? 'Нет документов' : 'No documents selected'}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {documents.map((document) => (
+                    <div
+                      key={document.id}
+                      className="flex items-start gap-2 p-2 rounded-lg bg-muted/50 group"
+                    >
+                      <Book className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-foreground line-clamp-2">{document.title}</p>
+                        <p className="text-xs font-mono text-muted-foreground mt-0.5">
+                          {document.pageCount} {language === 'ru' ? 'стр.' : 'pages'}
+                        </p>
+                      </div>
+                      {onRemoveDocument && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                          onClick={() => onRemoveDocument(document.id!)}
+                        >
+                          <Trash2 className="h-3 w-3 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
         </ScrollArea>
       </SheetContent>
@@ -1,5 +1,5 @@
 import { Link } from 'react-router-dom';
-import { FileText, ExternalLink, Book, BookOpen } from 'lucide-react';
+import { FileText, ExternalLink, Book, BookOpen, Receipt, Bell } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { EvidenceRef } from '@/lib/librarian/contextPack';
 
@@ -14,6 +14,10 @@ function getEvidenceIcon(type: EvidenceRef['type']) {
       return FileText;
     case 'biography':
       return BookOpen;
+    case 'receipt':
+      return Receipt;
+    case 'reminder':
+      return Bell;
     case 'document':
     case 'document_page':
     default:
@@ -27,6 +31,14 @@ function getEvidenceClassLabel(evidence: EvidenceRef): string | null {
       return 'Diary entry';
     case 'biography':
       return 'Derived chronicle';
+    case 'document_page':
+      return 'Document page';
+    case 'document':
+      return 'Imported document';
+    case 'receipt':
+      return 'Receipt';
+    case 'reminder':
+      return 'Reminder';
     default:
       return null;
   }
@@ -132,11 +144,19 @@ interface EvidenceGroup {
 function buildEvidenceGroups(evidence: EvidenceRef[]): EvidenceGroup[] {
   const entries = evidence.filter(ev => ev.type === 'entry');
   const biographies = evidence.filter(ev => ev.type === 'biography');
-  const other = evidence.filter(ev => ev.type !== 'entry' && ev.type !== 'biography');
+  const documents = evidence.filter(ev => ev.type === 'document' || ev.type === 'document_page');
+  const receipts = evidence.filter(ev => ev.type === 'receipt');
+  const reminders = evidence.filter(ev => ev.type === 'reminder');
+  const other = evidence.filter(ev => ![
+    'entry', 'biography', 'document', 'document_page', 'receipt', 'reminder',
+  ].includes(ev.type));
 
   return [
     { key: 'entries', label: 'Diary entries', items: entries },
+    { key: 'documents', label: 'Documents', items: documents },
     { key: 'chronicles', label: 'Derived chronicles', items: biographies },
+    { key: 'receipts', label: 'Receipts', items: receipts },
+    { key: 'reminders', label: 'Reminders', items: reminders },
     { key: 'other', label: 'Other sources', items: other },
   ].filter(group => group.items.length > 0);
 }
@@ -0,0 +1,137 @@
+/**
+ * Export options for a discussion: Markdown file or printable page (PDF via the print dialog).
+ */
+
+import { useEffect, useState } from 'react';
+import { FileDown, FileText, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from '@/components/ui/sheet';
+import { useI18n } from '@/lib/i18n';
+import { exportDiscussion, type DiscussionExportFormat } from '@/lib/discussionExport';
+import { toast } from 'sonner';
+
+const texts = {
+  title: { ru: 'Экспорт обсуждения', en: 'Export discussion' },
+  description: {
+    ru: 'Текущая ветка с артефактами и сносками на источники',
+    en: 'The current branch with artifacts and footnoted sources',
+  },
+  markdown: { ru: 'Markdown (.md)', en: 'Markdown (.md)' },
+  pdf: { ru: 'PDF / печать', en: 'PDF / print' },
+  redact: { ru: 'Скрыть личные записи', en: 'Hide private entries' },
+  redactHint: {
+    ru: 'В сносках останется только дата',
+    en: 'Footnotes keep only the date',
+  },
+  cancel: { ru: 'Отмена', en: 'Cancel' },
+  export: { ru: 'Экспортировать', en: 'Export' },
+  exporting: { ru: 'Экспорт...', en: 'Exporting...' },
+  failed: { ru: 'Не удалось экспортировать', en: 'Export failed' },
+};
+
+type TextKey = keyof typeof texts;
+
+interface ExportDiscussionSheetProps {
+  sessionId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ExportDiscussionSheet({ sessionId, onOpenChange }: ExportDiscussionSheetProps) {
+  const { language } = useI18n();
+  const lang = language === 'ru' ? 'ru' : 'en';
+  const t = (key: TextKey): string => texts[key][lang];
+
+  const [exportFormat, setExportFormat] = useState<DiscussionExportFormat>('markdown');
+  const [redactPrivate, setRedactPrivate] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Redaction is opt-out for every export
+  useEffect(() => {
+    if (sessionId !== null) setRedactPrivate(true);
+  }, [sessionId]);
+
+  const handleExport = async () => {
+    if (sessionId === null) return;
+    setIsExporting(true);
+    try {
+      await exportDiscussion(sessionId, exportFormat, { redactPrivate, language: lang });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to export discussion:', error);
+      toast.error(t('failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Sheet open={sessionId !== null} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-xl">
+        <SheetHeader className="text-start">
+          <SheetTitle className="flex items-center gap-2 rtl:flex-row-reverse">
+            <FileDown className="h-5 w-5 text-cyber-sigil" />
+            {t('title')}
+          </SheetTitle>
+          <SheetDescription>{t('description')}</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-5">
+          <RadioGroup
+            value={exportFormat}
+            onValueChange={(value) => setExportFormat(value as DiscussionExportFormat)}
+            className="grid grid-cols-2 gap-2"
+            disabled={isExporting}
+          >
+            <Label
+              htmlFor="export-markdown"
+              className="flex items-center gap-2 rounded-md border border-border/50 p-3 cursor-pointer has-[:checked]:border-cyber-sigil/60"
+            >
+              <RadioGroupItem value="markdown" id="export-markdown" />
+              <FileText className="h-4 w-4 text-muted-foreground" />
+              {t('markdown')}
+            </Label>
+            <Label
+              htmlFor="export-pdf"
+              className="flex items-center gap-2 rounded-md border border-border/50 p-3 cursor-pointer has-[:checked]:border-cyber-sigil/60"
+            >
+              <RadioGroupItem value="pdf" id="export-pdf" />
+              <Printer className="h-4 w-4 text-muted-foreground" />
+              {t('pdf')}
+            </Label>
+          </RadioGroup>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="export-redact">{t('redact')}</Label>
+              <p className="text-xs text-muted-foreground">{t('redactHint')}</p>
+            </div>
+            <Switch
+              id="export-redact"
+              checked={redactPrivate}
+              onCheckedChange={setRedactPrivate}
+              disabled={isExporting}
+            />
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)} disabled={isExporting}>
+              {t('cancel')}
+            </Button>
+            <Button className="flex-1" onClick={handleExport} disabled={isExporting}>
+              {isExporting ? t('exporting') : t('export')}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { Copy, Check, ListTodo, AlertTriangle, Clock, Zap } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Copy, Check, ListTodo, AlertTriangle, Clock, Zap, Bell, BellPlus } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useI18n } from '@/lib/i18n';
 import { Button } from '@/components/ui/button';
@@ -10,6 +11,7 @@ export interface PlanItem {
   text: string;
   priority?: 'high' | 'medium' | 'low';
   dueHint?: string;
+  reminderId?: number;
 }
 
 export interface PlanArtifactData {
@@ -20,6 +22,7 @@ export interface PlanArtifactData {
 
 interface PlanArtifactProps {
   artifact: PlanArtifactData;
+  onCreateReminders?: () => void;
 }
 
 const PRIORITY_ICONS = {
@@ -34,7 +37,7 @@ const PRIORITY_COLORS = {
   low: 'text-muted-foreground',
 };
 
-export function PlanArtifact({ artifact }: PlanArtifactProps) {
+export function PlanArtifact({ artifact, onCreateReminders }: PlanArtifactProps) {
   const { language } = useI18n();
   const [copied, setCopied] = useState(false);
   const [checkedItems, setCheckedItems] = useState<Set<number>>(new Set());
@@ -68,6 +71,7 @@ export function PlanArtifact({ artifact }: PlanArtifactProps) {
   const completedCount = checkedItems.size;
   const totalCount = artifact.items.length;
   const progress = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
+  const hasUnconverted = artifact.items.some(item => item.reminderId === undefined);
   
   return (
     <div className="rounded-lg border border-primary/30 bg-primary/5 overflow-hidden">
@@ -82,24 +86,37 @@ export function PlanArtifact({ artifact }: PlanArtifactProps) {
             {completedCount}/{totalCount}
           </span>
         </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={handleCopy}
-          className="h-7 text-xs gap-1.5 text-primary hover:text-primary"
-        >
-          {copied ? (
-            <>
-              <Check className="h-3.5 w-3.5" />
-              {language === 'ru' ? 'Скопировано' : 'Copied'}
-            </>
-          ) : (
-            <>
-              <Copy className="h-3.5 w-3.5" />
-              {language === 'ru' ? 'Копировать' : 'Copy'}
-            </>
+        <div className="flex items-center">
+          {onCreateReminders && hasUnconverted && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onCreateReminders}
+              className="h-7 text-xs gap-1.5 text-primary hover:text-primary"
+            >
+              <BellPlus className="h-3.5 w-3.5" />
+              {language === 'ru' ? 'В напоминания' : 'Remind me'}
+            </Button>
           )}
-        </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleCopy}
+            className="h-7 text-xs gap-1.5 text-primary hover:text-primary"
+          >
+            {copied ? (
+              <>
+                <Check className="h-3.5 w-3.5" />
+                {language === 'ru' ? 'Скопировано' : 'Copied'}
+              </>
+            ) : (
+              <>
+                <Copy className="h-3.5 w-3.5" />
+                {language === 'ru' ? 'Копировать' : 'Copy'}
+              </>
+            )}
+          </Button>
+        </div>
       </div>
       
       {/* Progress bar */}
@@ -152,6 +169,15 @@ export function PlanArtifact({ artifact }: PlanArtifactProps) {
                         {item.dueHint}
                       </span>
                     )}
+                    {item.reminderId !== undefined && (
+                      <Link
+                        to={`/reminder/${item.reminderId}`}
+                        className="flex items-center gap-1 text-xs text-primary hover:underline"
+                      >
+                        <Bell className="h-3 w-3" />
+                        {language === 'ru' ? 'напоминание' : 'reminder'}
+                      </Link>
+                    )}
                   </div>
                 </div>
               </li>
@@ -0,0 +1,210 @@
+/**
+ * Review sheet for turning a discussion plan into reminders.
+ * Due hints are pre-parsed; the user can edit text and time, drop items and pick the source entry.
+ */
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Bell, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from '@/components/ui/sheet';
+import { useI18n } from '@/lib/i18n';
+import type { DiscussionMessage } from '@/lib/db';
+import { buildPlanReminderDrafts, createRemindersFromPlan, type PlanReminderDraft } from '@/lib/planReminders';
+import { reconcileReminderNotifications } from '@/lib/reminderNotifications';
+import { trackUsageEvent } from '@/lib/usageTracker';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+const texts = {
+  title: { ru: 'Напоминания из плана', en: 'Reminders from plan' },
+  description: {
+    ru: 'Проверьте текст и время перед сохранением',
+    en: 'Check the text and time before saving',
+  },
+  source: { ru: 'Источник', en: 'Source' },
+  sourceDiscussion: { ru: 'Это обсуждение', en: 'This discussion' },
+  notRecognized: { ru: 'Срок не распознан — проверьте время', en: 'Due hint not recognized — check the time' },
+  inPast: { ru: 'Время уже прошло', en: 'This time has passed' },
+  cancel: { ru: 'Отмена', en: 'Cancel' },
+  create: { ru: 'Создать', en: 'Create' },
+  creating: { ru: 'Создание...', en: 'Creating...' },
+  created: { ru: 'Создано напоминаний', en: 'Reminders created' },
+  failed: { ru: 'Ошибка создания', en: 'Creation failed' },
+  nothingLeft: { ru: 'Все пункты уже в напоминаниях', en: 'All items are already reminders' },
+};
+
+type TextKey = keyof typeof texts;
+
+const DATETIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+interface PlanRemindersSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  messageId: number;
+  plan: NonNullable<NonNullable<DiscussionMessage['meta']>['planArtifact']>;
+  sourceEntries: { entityId: number; title: string }[];
+}
+
+export function PlanRemindersSheet({ open, onOpenChange, messageId, plan, sourceEntries }: PlanRemindersSheetProps) {
+  const { language } = useI18n();
+  const lang = language === 'ru' ? 'ru' : 'en';
+  const t = (key: TextKey): string => texts[key][lang];
+
+  const [drafts, setDrafts] = useState<PlanReminderDraft[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [source, setSource] = useState('discussion');
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Re-parse each time the sheet opens so relative hints use the current time
+  useEffect(() => {
+    if (!open) return;
+    const fresh = buildPlanReminderDrafts(plan);
+    setDrafts(fresh);
+    setSelected(new Set(fresh.map(draft => draft.itemIndex)));
+    setSource('discussion');
+  }, [open, plan]);
+
+  const updateDraft = (itemIndex: number, changes: Partial<PlanReminderDraft>) => {
+    setDrafts(prev => prev.map(draft => draft.itemIndex === itemIndex ? { ...draft, ...changes } : draft));
+  };
+
+  const toggle = (itemIndex: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(itemIndex)) next.delete(itemIndex);
+      else next.add(itemIndex);
+      return next;
+    });
+  };
+
+  const chosen = drafts.filter(draft => selected.has(draft.itemIndex) && draft.actionText.trim());
+
+  const handleCreate = async () => {
+    if (chosen.length === 0) return;
+    setIsCreating(true);
+    try {
+      const ids = await createRemindersFromPlan({
+        messageId,
+        drafts: chosen,
+        sourceEntryId: source === 'discussion' ? undefined : Number(source),
+      });
+      await reconcileReminderNotifications(language);
+      trackUsageEvent('remindersCreated', ids.length);
+      toast.success(`${t('created')}: ${ids.length}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to create reminders from plan:', error);
+      toast.error(t('failed'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader className="text-start">
+          <SheetTitle className="flex items-center gap-2 rtl:flex-row-reverse">
+            <Bell className="h-5 w-5 text-cyber-sigil" />
+            {t('title')}
+          </SheetTitle>
+          <SheetDescription>{t('description')}</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4">
+          {drafts.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">{t('nothingLeft')}</p>
+          )}
+
+          <ul className="space-y-3">
+            {drafts.map(draft => {
+              const isSelected = selected.has(draft.itemIndex);
+              const inPast = draft.dueAt <= Date.now();
+              return (
+                <li key={draft.itemIndex} className="flex items-start gap-3">
+                  <Checkbox
+                    checked={isSelected}
+                    onCheckedChange={() => toggle(draft.itemIndex)}
+                    disabled={isCreating}
+                    className="mt-2.5"
+                  />
+                  <div className={cn('flex-1 min-w-0 space-y-1.5', !isSelected && 'opacity-50')}>
+                    <Input
+                      value={draft.actionText}
+                      onChange={(e) => updateDraft(draft.itemIndex, { actionText: e.target.value })}
+                      disabled={isCreating || !isSelected}
+                    />
+                    <Input
+                      type="datetime-local"
+                      value={format(draft.dueAt, DATETIME_FORMAT)}
+                      onChange={(e) => {
+                        const dueAt = new Date(e.target.value).getTime();
+                        if (Number.isFinite(dueAt)) updateDraft(draft.itemIndex, { dueAt, dueHintMatched: true });
+                      }}
+                      disabled={isCreating || !isSelected}
+                      dir="ltr"
+                    />
+                    {draft.dueHint && (
+                      <p className="text-xs text-muted-foreground">«{draft.dueHint}»</p>
+                    )}
+                    {isSelected && (!draft.dueHintMatched || inPast) && (
+                      <p className="flex items-center gap-1 text-xs text-amber-500">
+                        <AlertTriangle className="h-3 w-3" />
+                        {inPast ? t('inPast') : t('notRecognized')}
+                      </p>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          {drafts.length > 0 && (
+            <div className="space-y-2">
+              <Label>{t('source')}</Label>
+              <Select value={source} onValueChange={setSource} disabled={isCreating}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="discussion">{t('sourceDiscussion')}</SelectItem>
+                  {sourceEntries.map(entry => (
+                    <SelectItem key={entry.entityId} value={String(entry.entityId)}>
+                      {entry.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)} disabled={isCreating}>
+              {t('cancel')}
+            </Button>
+            <Button className="flex-1" onClick={handleCreate} disabled={isCreating || chosen.length === 0}>
+              {isCreating ? t('creating') : `${t('create')} (${chosen.length})`}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,7 +1,7 @@
 import { Link } from 'react-router-dom';
 import { formatDistanceToNow, Locale } from 'date-fns';
 import { ru, enUS, he, ar } from 'date-fns/locale';
-import { Pin, ChevronRight, Trash2 } from 'lucide-react';
+import { Pin, ChevronRight, Trash2, FileDown } from 'lucide-react';
 import { DiscussionSession } from '@/lib/db';
 import { useI18n } from '@/lib/i18n';
 import { getScopeCountText } from '@/lib/librarian/contextPack';
@@ -13,9 +13,10 @@ interface SessionCardProps {
   session: DiscussionSession;
   onPin?: (id: number) => void;
   onDelete?: (id: number) => void;
+  onExport?: (id: number) => void;
 }
 
-export function SessionCard({ session, onPin, onDelete }: SessionCardProps) {
+export function SessionCard({ session, onPin, onDelete, onExport }: SessionCardProps) {
   const { t, language } = useI18n();
   const locale = localeMap[language] || enUS;
   
@@ -58,6 +59,22 @@ export function SessionCard({ session, onPin, onDelete }: SessionCardProps) {
           </div>
         </div>
         
+        {onExport && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0 text-muted-foreground/50 hover:text-cyber-sigil hover:bg-cyber-sigil/10"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onExport(session.id!);
+            }}
+            aria-label={t('discussion.export')}
+          >
+            <FileDown className="h-4 w-4" />
+          </Button>
+        )}
+        
         {/* Delete button - always visible */}
         <Button
           variant="ghost"
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { Wrench, ChevronDown, AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/lib/i18n';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import type { DiscussionMessage } from '@/lib/db';
+
+type ToolTraceStep = NonNullable<NonNullable<DiscussionMessage['meta']>['toolTrace']>[number];
+
+const TOOL_LABELS: Record<string, { ru: string; en: string }> = {
+  search_entries: { ru: 'Поиск записей', en: 'Search entries' },
+  get_day: { ru: 'День', en: 'Day' },
+  list_receipts: { ru: 'Чеки', en: 'Receipts' },
+  compute_spending: { ru: 'Расходы', en: 'Spending' },
+  list_reminders: { ru: 'Напоминания', en: 'Reminders' },
+};
+
+interface ToolTraceProps {
+  steps: ToolTraceStep[];
+}
+
+export function ToolTrace({ steps }: ToolTraceProps) {
+  const { language } = useI18n();
+  const [open, setOpen] = useState(false);
+  const lang = language === 'ru' ? 'ru' : 'en';
+
+  if (steps.length === 0) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground">
+        <Wrench className="h-3.5 w-3.5" />
+        <span>
+          {lang === 'ru' ? `Запросы к дневнику: ${steps.length}` : `Diary lookups: ${steps.length}`}
+        </span>
+        <ChevronDown className={cn('h-3.5 w-3.5 transition-transform', open && 'rotate-180')} />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="mt-2">
+        <ol className="space-y-1.5 border-s border-border/60 ps-3">
+          {steps.map((step, index) => (
+            <li key={index} className="text-xs">
+              <div className="flex items-center gap-1.5">
+                {step.error && <AlertCircle className="h-3 w-3 text-destructive shrink-0" />}
+                <span className="font-medium">{TOOL_LABELS[step.tool]?.[lang] ?? step.tool}</span>
+                {step.evidenceIds.length > 0 && (
+                  <span className="text-muted-foreground">{step.evidenceIds.join(', ')}</span>
+                )}
+              </div>
+              <p className={cn('text-muted-foreground', step.error && 'text-destructive')}>
+                {step.summary}
+              </p>
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,99 @@
+import { ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useI18n } from '@/lib/i18n';
+import type { AIProfile } from '@/lib/aiConfig';
+import type { DiscussionMode } from '@/lib/db';
+
+const REGENERATE_MODES: DiscussionMode[] = ['discuss', 'analyze', 'draft', 'compute', 'plan'];
+const REGENERATE_PROFILES: AIProfile[] = ['economy', 'fast', 'balanced', 'quality'];
+
+export interface RegenerateOptions {
+  mode?: DiscussionMode;
+  profile?: AIProfile;
+}
+
+interface BranchSwitcherProps {
+  index: number;
+  total: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+export function BranchSwitcher({ index, total, onSelect, disabled }: BranchSwitcherProps) {
+  const { t } = useI18n();
+
+  if (total < 2) return null;
+
+  return (
+    <div className="flex items-center gap-0.5 text-xs text-muted-foreground" dir="ltr">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => onSelect(index - 1)}
+        disabled={disabled || index === 0}
+        aria-label={t('discussion.previousBranch')}
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+      </Button>
+      <span className="tabular-nums">{index + 1}/{total}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => onSelect(index + 1)}
+        disabled={disabled || index === total - 1}
+        aria-label={t('discussion.nextBranch')}
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
+
+interface RegenerateMenuProps {
+  onRegenerate: (options: RegenerateOptions) => void;
+  disabled?: boolean;
+}
+
+export function RegenerateMenu({ onRegenerate, disabled }: RegenerateMenuProps) {
+  const { t } = useI18n();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-xs text-muted-foreground" disabled={disabled}>
+          <RefreshCw className="h-3 w-3" />
+          {t('discussion.regenerate')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem onClick={() => onRegenerate({})}>
+          {t('discussion.regenerateSame')}
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs">{t('discussion.regenerateMode')}</DropdownMenuLabel>
+        {REGENERATE_MODES.map(mode => (
+          <DropdownMenuItem key={mode} onClick={() => onRegenerate({ mode })}>
+            {t(`mode.${mode}`)}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs">{t('discussion.regenerateProfile')}</DropdownMenuLabel>
+        {REGENERATE_PROFILES.map(profile => (
+          <DropdownMenuItem key={profile} onClick={() => onRegenerate({ profile })}>
+            {t(`ai.profile.${profile}`)}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
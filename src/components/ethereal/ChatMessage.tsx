@@ -0,0 +1,220 @@
+import { format } from 'date-fns';
+import {
+  AlertCircle,
+  Clock,
+  MoreHorizontal,
+  Pencil,
+  Reply,
+  RotateCcw,
+  Trash2,
+} from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { useI18n, getBaseLanguage } from '@/lib/i18n';
+import type { EtherealMessage, EtherealOutboxItem } from '@/lib/etherealDb';
+import { QUICK_REACTIONS } from '@/lib/etherealChat';
+
+const texts = {
+  sending: { ru: 'Отправляется...', en: 'Sending...' },
+  notSent: { ru: 'Не отправлено', en: 'Not sent' },
+  retry: { ru: 'Повторить', en: 'Retry' },
+  discard: { ru: 'Удалить', en: 'Discard' },
+  reply: { ru: 'Ответить', en: 'Reply' },
+  edit: { ru: 'Изменить', en: 'Edit' },
+  deleteForAll: { ru: 'Удалить у всех', en: 'Delete for everyone' },
+  edited: { ru: 'изм.', en: 'edited' },
+  deleted: { ru: 'Сообщение удалено', en: 'Message deleted' },
+  photo: { ru: 'Фото', en: 'Photo' },
+} as const;
+
+interface ChatMessageProps {
+  message: EtherealMessage;
+  isOwn: boolean;
+  currentMemberId?: string;
+  queued?: EtherealOutboxItem;   // outbox entry while the message is unsent
+  onReply: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  onReact: (emoji: string) => void;
+  onQuoteClick: (serverId: string) => void;
+  onRetry: (id: number) => void;
+  onDiscard: (id: number) => void;
+}
+
+export function ChatMessage({
+  message: msg,
+  isOwn,
+  currentMemberId,
+  queued,
+  onReply,
+  onEdit,
+  onDelete,
+  onReact,
+  onQuoteClick,
+  onRetry,
+  onDiscard,
+}: ChatMessageProps) {
+  const { language } = useI18n();
+  const lang = getBaseLanguage(language);
+  const t = (key: keyof typeof texts) => texts[key][lang];
+
+  const isDeleted = !!msg.deletedAtMs;
+  // Unsent messages have no server id to reply to, edit or react on yet
+  const canAct = !queued && !isDeleted;
+  const reactions = msg.reactions ?? [];
+
+  return (
+    <div
+      id={`msg-${msg.serverId}`}
+      className={cn('flex flex-col max-w-[80%]', isOwn ? 'ml-auto items-end' : 'items-start')}
+    >
+      {!isOwn && (
+        <span className="text-xs text-muted-foreground mb-1">{msg.senderName}</span>
+      )}
+
+      <div className={cn('flex items-center gap-1', isOwn && 'flex-row-reverse')}>
+        <div
+          className={cn(
+            'px-4 py-2 rounded-2xl',
+            isOwn ? 'msg-outgoing rounded-br-md' : 'msg-incoming rounded-bl-md',
+            queued && 'opacity-70'
+          )}
+        >
+          {/* Quoted original */}
+          {msg.replyPreview && !isDeleted && (
+            <button
+              onClick={() => onQuoteClick(msg.replyPreview!.serverId)}
+              className="block w-full text-left border-l-2 border-primary/60 bg-background/30 rounded-sm px-2 py-1 mb-2"
+            >
+              <span className="block text-[11px] font-medium">{msg.replyPreview.senderName}</span>
+              <span className="block text-xs text-muted-foreground line-clamp-2">
+                {msg.replyPreview.deleted
+                  ? t('deleted')
+                  : msg.replyPreview.content || (msg.replyPreview.hasImage ? t('photo') : '')}
+              </span>
+            </button>
+          )}
+
+          {isDeleted ? (
+            <p className="text-sm italic text-muted-foreground">{t('deleted')}</p>
+          ) : (
+            <>
+              {/* Image (if present) */}
+              {msg.imageUrl && (
+                <img
+                  src={msg.imageUrl}
+                  alt=""
+                  className="max-w-[200px] max-h-[200px] rounded-lg cursor-pointer mb-2"
+                  onClick={() => window.open(msg.imageUrl, '_blank')}
+                />
+              )}
+              {/* Text (only if not empty) */}
+              {msg.content && (
+                <p className="text-sm whitespace-pre-wrap break-words">{msg.content}</p>
+              )}
+            </>
+          )}
+        </div>
+
+        {canAct && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="p-1 rounded-full text-muted-foreground hover:bg-muted/50 shrink-0">
+                <MoreHorizontal className="h-4 w-4" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align={isOwn ? 'end' : 'start'}>
+              <div className="flex gap-1 px-1 py-1">
+                {QUICK_REACTIONS.map((emoji) => (
+                  <button
+                    key={emoji}
+                    onClick={() => onReact(emoji)}
+                    className="text-lg leading-none p-1 rounded hover:bg-muted"
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={onReply}>
+                <Reply className="h-4 w-4 mr-2" />
+                {t('reply')}
+              </DropdownMenuItem>
+              {isOwn && (
+                <>
+                  <DropdownMenuItem onClick={onEdit}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    {t('edit')}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={onDelete} className="text-destructive">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    {t('deleteForAll')}
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+
+      {/* Reactions */}
+      {reactions.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {reactions.map((reaction) => {
+            const mine = !!currentMemberId && reaction.memberIds.includes(currentMemberId);
+            return (
+              <button
+                key={reaction.emoji}
+                onClick={() => onReact(reaction.emoji)}
+                className={cn(
+                  'flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs',
+                  mine ? 'border-primary bg-primary/10' : 'border-border bg-card'
+                )}
+              >
+                <span>{reaction.emoji}</span>
+                <span>{reaction.memberIds.length}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {queued?.status === 'failed' ? (
+        <div className="flex items-center gap-2 mt-1 text-[10px] text-destructive">
+          <AlertCircle className="h-3 w-3" />
+          {t('notSent')}
+          <button
+            onClick={() => onRetry(queued.id!)}
+            className="flex items-center gap-0.5 underline"
+          >
+            <RotateCcw className="h-3 w-3" />
+            {t('retry')}
+          </button>
+          <button
+            onClick={() => onDiscard(queued.id!)}
+            className="flex items-center gap-0.5 underline"
+          >
+            <Trash2 className="h-3 w-3" />
+            {t('discard')}
+          </button>
+        </div>
+      ) : queued ? (
+        <span className="flex items-center gap-1 text-[10px] text-muted-foreground mt-1">
+          <Clock className="h-3 w-3" />
+          {t('sending')}
+        </span>
+      ) : (
+        <span className="text-[10px] text-muted-foreground mt-1">
+          <span dir="ltr">{format(new Date(msg.createdAtMs), 'HH:mm')}</span>
+          {msg.editedAtMs && !isDeleted && <span> · {t('edited')}</span>}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ru, enUS } from 'date-fns/locale';
+import { Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { useI18n, getBaseLanguage } from '@/lib/i18n';
+import { searchEtherealMessages, type ChatSearchResult } from '@/lib/etherealChatSearch';
+import type { EtherealMessage } from '@/lib/etherealDb';
+
+const texts = {
+  search: { ru: 'Поиск по чату', en: 'Search chat' },
+  placeholder: { ru: 'Слова из сообщения...', en: 'Words from a message...' },
+  noResults: { ru: 'Ничего не найдено', en: 'Nothing found' },
+  localOnly: {
+    ru: 'Ищем в сообщениях на этом устройстве. Чтобы найти старые, пролистайте чат вверх.',
+    en: 'Searching messages on this device. Scroll up in the chat to load older ones.',
+  },
+} as const;
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+interface ChatSearchSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roomId: string;
+  onSelect: (message: EtherealMessage) => void;
+}
+
+export function ChatSearchSheet({ open, onOpenChange, roomId, onSelect }: ChatSearchSheetProps) {
+  const { language } = useI18n();
+  const lang = getBaseLanguage(language);
+  const t = (key: keyof typeof texts) => texts[key][lang];
+  const dateLocale = lang === 'ru' ? ru : enUS;
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatSearchResult[] | null>(null);
+
+  useEffect(() => {
+    if (!open || !query.trim()) {
+      setResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchEtherealMessages(roomId, query).then((found) => {
+        if (!cancelled) setResults(found);
+      });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, roomId, query]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="h-[85vh] flex flex-col yacht-gradient">
+        <SheetHeader className="pb-2">
+          <SheetTitle className="flex items-center gap-2">
+            <Search className="w-5 h-5" />
+            {t('search')}
+          </SheetTitle>
+        </SheetHeader>
+
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('placeholder')}
+          autoFocus
+        />
+        <p className="text-xs text-muted-foreground mt-2">{t('localOnly')}</p>
+
+        <div className="flex-1 overflow-y-auto mt-3 space-y-2">
+          {results?.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-8">{t('noResults')}</p>
+          )}
+          {results?.map(({ message, snippet }) => (
+            <button
+              key={message.serverId}
+              onClick={() => onSelect(message)}
+              className="block w-full text-left rounded-lg border border-border bg-card/60 p-3 hover:bg-card"
+            >
+              <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                <span className="font-medium">{message.senderName}</span>
+                <span>{format(new Date(message.createdAtMs), 'd MMM yyyy, HH:mm', { locale: dateLocale })}</span>
+              </div>
+              <p className="text-sm line-clamp-3 break-words">
+                {snippet.map((segment, i) =>
+                  segment.highlight ? (
+                    <mark key={i} className="rounded-sm bg-primary/20 px-0.5 text-foreground">
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    <span key={i}>{segment.text}</span>
+                  )
+                )}
+              </p>
+            </button>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,259 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ru, enUS } from 'date-fns/locale';
+import { History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { cn } from '@/lib/utils';
+import { useI18n, getBaseLanguage } from '@/lib/i18n';
+import { diffText, type DiffPart } from '@/lib/textDiff';
+import type { EtherealChronicle } from '@/lib/etherealDb';
+import type { EtherealChronicleRevision } from '@/hooks/useEtherealChronicles';
+
+const texts = {
+  history: { ru: 'История изменений', en: 'Revision history' },
+  current: { ru: 'Текущая версия', en: 'Current version' },
+  loading: { ru: 'Загрузка...', en: 'Loading...' },
+  loadFailed: { ru: 'Не удалось загрузить историю', en: 'Failed to load history' },
+  noRevisions: { ru: 'Запись ещё не редактировали', en: 'This entry has not been edited yet' },
+  pickTwo: { ru: 'Выберите две версии для сравнения', en: 'Pick two versions to compare' },
+  restore: { ru: 'Восстановить', en: 'Restore' },
+  restoring: { ru: 'Восстановление...', en: 'Restoring...' },
+  title: { ru: 'Заголовок', en: 'Title' },
+  noChanges: { ru: 'Текст не менялся', en: 'No text changes' },
+  lockedHint: { ru: 'Запись сейчас редактируют — восстановить нельзя', en: 'Someone is editing this entry — restore is unavailable' },
+} as const;
+
+interface ChronicleHistorySheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  chronicle: EtherealChronicle;
+  loadRevisions: () => Promise<EtherealChronicleRevision[] | null>;
+  onRestore: (revision: EtherealChronicleRevision) => Promise<boolean>;
+  restoreDisabled?: boolean;
+}
+
+interface Version {
+  key: string;
+  title: string;
+  content: string;
+  authorName: string;
+  savedAtMs: number;
+  revision?: EtherealChronicleRevision;
+}
+
+const CURRENT_KEY = 'current';
+
+function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <p className="whitespace-pre-wrap break-words text-sm leading-relaxed">
+      {parts.map((part, i) =>
+        part.op === 'equal' ? (
+          <span key={i}>{part.text}</span>
+        ) : (
+          <mark
+            key={i}
+            className={cn(
+              'rounded-sm px-0.5 text-foreground',
+              part.op === 'delete' ? 'bg-destructive/20 line-through' : 'bg-primary/20'
+            )}
+          >
+            {part.text}
+          </mark>
+        )
+      )}
+    </p>
+  );
+}
+
+export function ChronicleHistorySheet({
+  open,
+  onOpenChange,
+  chronicle,
+  loadRevisions,
+  onRestore,
+  restoreDisabled,
+}: ChronicleHistorySheetProps) {
+  const { language } = useI18n();
+  const lang = getBaseLanguage(language);
+  const t = (key: keyof typeof texts) => texts[key][lang];
+  const dateLocale = lang === 'ru' ? ru : enUS;
+
+  const [revisions, setRevisions] = useState<EtherealChronicleRevision[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  // Two selected version keys; the older one is shown as "before"
+  const [selected, setSelected] = useState<string[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setRevisions(null);
+    setLoadFailed(false);
+
+    loadRevisions().then((result) => {
+      if (cancelled) return;
+      setRevisions(result ?? []);
+      setLoadFailed(result === null);
+      setSelected(result && result.length > 0 ? [result[0].id, CURRENT_KEY] : []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, loadRevisions]);
+
+  // Newest first: the current state, then past revisions
+  const versions = useMemo<Version[]>(() => [
+    {
+      key: CURRENT_KEY,
+      title: chronicle.title,
+      content: chronicle.content,
+      authorName: chronicle.updatedByName || chronicle.authorName,
+      savedAtMs: chronicle.updatedAtMs,
+    },
+    ...(revisions ?? []).map((revision) => ({
+      key: revision.id,
+      title: revision.title,
+      content: revision.content,
+      authorName: revision.authorName,
+      savedAtMs: revision.savedAtMs,
+      revision,
+    })),
+  ], [chronicle, revisions]);
+
+  const comparison = useMemo(() => {
+    if (selected.length < 2) return null;
+    const [older, newer] = selected
+      .map((key) => versions.findIndex((v) => v.key === key))
+      .filter((index) => index >= 0)
+      .sort((a, b) => b - a)
+      .map((index) => versions[index]);
+    if (!older || !newer) return null;
+    return {
+      older,
+      newer,
+      title: older.title !== newer.title ? diffText(older.title, newer.title) : null,
+      content: diffText(older.content, newer.content),
+    };
+  }, [selected, versions]);
+
+  const toggleSelected = (key: string) => {
+    setSelected((prev) => (prev.includes(key) ? prev : [...prev.slice(-1), key]));
+  };
+
+  const handleRestore = async (revision: EtherealChronicleRevision) => {
+    setRestoringId(revision.id);
+    try {
+      if (await onRestore(revision)) {
+        onOpenChange(false);
+      }
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const formatTime = (ms: number) => format(new Date(ms), 'd MMM yyyy, HH:mm', { locale: dateLocale });
+  const contentChanged = comparison?.content.some((part) => part.op !== 'equal');
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="h-[85vh] flex flex-col yacht-gradient">
+        <SheetHeader className="pb-2">
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            {t('history')}
+          </SheetTitle>
+        </SheetHeader>
+
+        {revisions === null ? (
+          <div className="flex-1 flex items-center justify-center">
+            <div className="animate-pulse text-muted-foreground">{t('loading')}</div>
+          </div>
+        ) : loadFailed ? (
+          <p className="text-sm text-destructive text-center py-8">{t('loadFailed')}</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">{t('noRevisions')}</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-4">
+            <p className="text-xs text-muted-foreground">{t('pickTwo')}</p>
+            {restoreDisabled && (
+              <p className="text-xs text-amber-600">{t('lockedHint')}</p>
+            )}
+
+            {/* Versions */}
+            <div className="space-y-2">
+              {versions.map((version) => {
+                const isSelected = selected.includes(version.key);
+                return (
+                  <div
+                    key={version.key}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => toggleSelected(version.key)}
+                    onKeyDown={(e) => e.key === 'Enter' && toggleSelected(version.key)}
+                    className={cn(
+                      'flex items-center gap-3 rounded-lg border p-3 cursor-pointer transition-colors',
+                      isSelected ? 'border-primary bg-primary/10' : 'border-border bg-card hover:bg-muted/50'
+                    )}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {version.revision ? version.title : t('current')}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {version.authorName} · <span dir="ltr">{formatTime(version.savedAtMs)}</span>
+                      </p>
+                    </div>
+                    {version.revision && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-1 shrink-0"
+                        disabled={restoreDisabled || restoringId !== null}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRestore(version.revision!);
+                        }}
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        {restoringId === version.key ? t('restoring') : t('restore')}
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Diff */}
+            {comparison && (
+              <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+                <p className="text-xs text-muted-foreground">
+                  <span dir="ltr">{formatTime(comparison.older.savedAtMs)}</span>
+                  {' → '}
+                  <span dir="ltr">{formatTime(comparison.newer.savedAtMs)}</span>
+                </p>
+                {comparison.title && (
+                  <div>
+                    <p className="text-xs font-medium text-muted-foreground mb-1">{t('title')}</p>
+                    <DiffText parts={comparison.title} />
+                  </div>
+                )}
+                {contentChanged ? (
+                  <DiffText parts={comparison.content} />
+                ) : (
+                  <p className="text-sm text-muted-foreground italic">{t('noChanges')}</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
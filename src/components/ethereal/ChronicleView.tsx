@@ -1,9 +1,12 @@
+import { useState } from 'react';
 import { format } from 'date-fns';
 import { ru, enUS } from 'date-fns/locale';
-import { ArrowLeft, Pin, Edit, User, Clock, Share2 } from 'lucide-react';
+import { ArrowLeft, Pin, Edit, User, Clock, Share2, History } from 'lucide-react';
 import { EtherealChronicle } from '@/lib/etherealDb';
+import type { EtherealChronicleRevision } from '@/hooks/useEtherealChronicles';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { ChronicleHistorySheet } from './ChronicleHistorySheet';
 import { cn } from '@/lib/utils';
 import { useI18n, getBaseLanguage } from '@/lib/i18n';
 
@@ -14,6 +17,7 @@ const texts = {
   editingNow: { ru: 'сейчас редактирует эту запись', en: 'is currently editing this entry' },
   someone: { ru: 'Кто-то', en: 'Someone' },
   edited: { ru: 'ред.', en: 'ed.' },
+  history: { ru: 'История', en: 'History' },
 } as const;
 
 interface ChronicleViewProps {
@@ -21,9 +25,12 @@ interface ChronicleViewProps {
   onBack: () => void;
   onEdit: () => void;
   onTogglePin: () => void;
+  loadRevisions: () => Promise<EtherealChronicleRevision[] | null>;
+  onRestore: (revision: EtherealChronicleRevision) => Promise<boolean>;
 }
 
-export function ChronicleView({ chronicle, onBack, onEdit, onTogglePin }: ChronicleViewProps) {
+export function ChronicleView({ chronicle, onBack, onEdit, onTogglePin, loadRevisions, onRestore }: ChronicleViewProps) {
+  const [historyOpen, setHistoryOpen] = useState(false);
   const { language } = useI18n();
   const lang = getBaseLanguage(language);
   const t = (key: keyof typeof texts) => texts[key][lang];
@@ -81,6 +88,9 @@ export function ChronicleView({ chronicle, onBack, onEdit, onTogglePin }: Chroni
         >
           <Pin className="w-5 h-5" />
         </Button>
+        <Button variant="ghost" size="icon" onClick={() => setHistoryOpen(true)} aria-label={t('history')}>
+          <History className="w-5 h-5" />
+        </Button>
         <Button variant="ghost" size="icon" disabled>
           <Share2 className="w-5 h-5" />
         </Button>
@@ -161,6 +171,15 @@ export function ChronicleView({ chronicle, onBack, onEdit, onTogglePin }: Chroni
           )}
         </div>
       </div>
+
+      <ChronicleHistorySheet
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        chronicle={chronicle}
+        loadRevisions={loadRevisions}
+        onRestore={onRestore}
+        restoreDisabled={!!isLocked}
+      />
     </div>
   );
 }
@@ -2,8 +2,9 @@ import { useState, useMemo } from 'react';
 import { Search, Plus, Pin, BookOpen, RefreshCw } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { EtherealChronicle } from '@/lib/etherealDb';
+import { EtherealChronicle, type EtherealOutboxItem } from '@/lib/etherealDb';
 import { ChronicleCard } from './ChronicleCard';
+import { OutboxPanel } from './OutboxPanel';
 import { cn } from '@/lib/utils';
 import { useI18n, getBaseLanguage } from '@/lib/i18n';
 
@@ -23,9 +24,21 @@ interface ChroniclesListProps {
   onSelect: (chronicle: EtherealChronicle) => void;
   onCreate: () => void;
   onRefresh: () => void;
+  outboxItems?: EtherealOutboxItem[];
+  onRetryOutbox?: (id: number) => void;
+  onDiscardOutbox?: (id: number) => void;
 }
 
-export function ChroniclesList({ chronicles, loading, onSelect, onCreate, onRefresh }: ChroniclesListProps) {
+export function ChroniclesList({
+  chronicles,
+  loading,
+  onSelect,
+  onCreate,
+  onRefresh,
+  outboxItems = [],
+  onRetryOutbox = () => {},
+  onDiscardOutbox = () => {},
+}: ChroniclesListProps) {
   const [search, setSearch] = useState('');
   const { language } = useI18n();
   const lang = getBaseLanguage(language);
@@ -78,6 +91,8 @@ export function ChroniclesList({ chronicles, loading, onSelect, onCreate, onRefr
 
       {/* List */}
       <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-4">
+        <OutboxPanel items={outboxItems} onRetry={onRetryOutbox} onDiscard={onDiscardOutbox} />
+
         {/* Empty state */}
         {chronicles.length === 0 && !loading && (
           <div className="flex flex-col items-center justify-center py-12 text-center">
@@ -3,7 +3,7 @@ import { Button } from '@/components/ui/button';
 import { LogOut, Users, Anchor, Circle } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { EtherealMembersSheet } from './EtherealMembersSheet';
-import { useState } from 'react';
+import { useState, type ReactNode } from 'react';
 import { useI18n, getBaseLanguage } from '@/lib/i18n';
 
 const texts = {
@@ -15,9 +15,10 @@ interface EtherealHeaderProps {
   title: string;
   subtitle?: string;
   isConnected?: boolean;
+  actions?: ReactNode; // Page-specific buttons shown before the members button
 }
 
-export function EtherealHeader({ title, subtitle, isConnected }: EtherealHeaderProps) {
+export function EtherealHeader({ title, subtitle, isConnected, actions }: EtherealHeaderProps) {
   const [showMembers, setShowMembers] = useState(false);
   const navigate = useNavigate();
   const session = getEtherealSession();
@@ -75,6 +76,7 @@ export function EtherealHeader({ title, subtitle, isConnected }: EtherealHeaderP
 
           {/* Right: Actions */}
           <div className="flex items-center gap-1">
+            {actions}
             <Button
               variant="ghost"
               size="icon"
@@ -0,0 +1,349 @@
+import { useState, useEffect } from 'react';
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { Calendar, Clock, Repeat, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Calendar as CalendarPicker } from '@/components/ui/calendar';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { useI18n, getBaseLanguage } from '@/lib/i18n';
+import type { EtherealEvent, EtherealRecurrence } from '@/lib/etherealDb';
+import type { EventInput } from '@/hooks/useEtherealEvents';
+
+const texts = {
+  editEvent: { ru: 'Редактировать событие', en: 'Edit event' },
+  newEvent: { ru: 'Новое событие', en: 'New event' },
+  whatHappens: { ru: 'Что планируется?', en: 'What is planned?' },
+  detailsOptional: { ru: 'Подробности (опционально)', en: 'Details (optional)' },
+  allDay: { ru: 'Весь день', en: 'All day' },
+  when: { ru: 'Когда?', en: 'When?' },
+  from: { ru: 'С', en: 'From' },
+  to: { ru: 'До', en: 'To' },
+  untilDate: { ru: 'По дату', en: 'Until' },
+  noEnd: { ru: 'Без конца', en: 'No end' },
+  repeat: { ru: 'Повтор', en: 'Repeat' },
+  none: { ru: 'Нет', en: 'None' },
+  daily: { ru: 'Ежедневно', en: 'Daily' },
+  weekly: { ru: 'Еженедельно', en: 'Weekly' },
+  monthly: { ru: 'Ежемесячно', en: 'Monthly' },
+  yearly: { ru: 'Ежегодно', en: 'Yearly' },
+  repeatUntil: { ru: 'Повторять до', en: 'Repeat until' },
+  forever: { ru: 'Всегда', en: 'Forever' },
+  seriesHint: { ru: 'Изменения применятся ко всем повторам', en: 'Changes apply to every repeat' },
+  endBeforeStart: { ru: 'Конец раньше начала', en: 'End is before start' },
+  delete: { ru: 'Удалить', en: 'Delete' },
+  cancel: { ru: 'Отмена', en: 'Cancel' },
+  save: { ru: 'Сохранить', en: 'Save' },
+  saving: { ru: 'Сохранение...', en: 'Saving...' },
+} as const;
+
+const RECURRENCES: EtherealRecurrence[] = ['none', 'daily', 'weekly', 'monthly', 'yearly'];
+
+interface EventEditorProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: (input: EventInput) => Promise<void>;
+  onDelete?: () => Promise<void>;
+  event?: EtherealEvent;
+  defaultDate?: Date;
+}
+
+// Date + "HH:mm" -> Date
+function withTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = startOfDay(date);
+  result.setHours(hours || 0, minutes || 0);
+  return result;
+}
+
+function DatePickerButton({
+  value,
+  placeholder,
+  onChange,
+  disabled,
+}: {
+  value?: Date;
+  placeholder: string;
+  onChange: (date: Date | undefined) => void;
+  disabled?: (date: Date) => boolean;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant={value ? 'default' : 'outline'} size="sm">
+          {value ? format(value, 'd MMM yyyy') : placeholder}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <CalendarPicker
+          mode="single"
+          selected={value}
+          onSelect={(date) => {
+            onChange(date);
+            setOpen(false);
+          }}
+          disabled={disabled}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function EventEditor({
+  open,
+  onClose,
+  onSave,
+  onDelete,
+  event,
+  defaultDate,
+}: EventEditorProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [allDay, setAllDay] = useState(false);
+  const [date, setDate] = useState<Date>(startOfDay(new Date()));
+  const [endDate, setEndDate] = useState<Date | undefined>();
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('10:00');
+  const [recurrence, setRecurrence] = useState<EtherealRecurrence>('none');
+  const [until, setUntil] = useState<Date | undefined>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { language } = useI18n();
+  const lang = getBaseLanguage(language);
+  const t = (key: keyof typeof texts) => texts[key][lang];
+
+  const isEditing = !!event;
+
+  // Initialize from event
+  useEffect(() => {
+    if (event) {
+      setTitle(event.title);
+      setDescription(event.description || '');
+      setAllDay(event.allDay);
+      setDate(startOfDay(event.startAtMs));
+      setStartTime(format(event.startAtMs, 'HH:mm'));
+      setEndTime(event.endAtMs ? format(event.endAtMs, 'HH:mm') : '');
+      setEndDate(event.allDay && event.endAtMs ? startOfDay(event.endAtMs) : undefined);
+      setRecurrence(event.recurrence || 'none');
+      setUntil(event.recurrenceUntilMs ? startOfDay(event.recurrenceUntilMs) : undefined);
+    } else {
+      setTitle('');
+      setDescription('');
+      setAllDay(false);
+      setDate(startOfDay(defaultDate ?? new Date()));
+      setStartTime('09:00');
+      setEndTime('10:00');
+      setEndDate(undefined);
+      setRecurrence('none');
+      setUntil(undefined);
+    }
+  }, [event, defaultDate, open]);
+
+  const start = allDay ? startOfDay(date) : withTime(date, startTime);
+  const end = allDay
+    ? (endDate ? startOfDay(endDate) : undefined)
+    : (endTime ? withTime(date, endTime) : undefined);
+  const endBeforeStart = !!end && end < start;
+
+  const handleSubmit = async () => {
+    if (!title.trim() || endBeforeStart) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSave({
+        title: title.trim(),
+        description: description.trim() || undefined,
+        startAt: start.toISOString(),
+        endAt: end ? end.toISOString() : null,
+        allDay,
+        recurrence,
+        recurrenceUntil: recurrence !== 'none' && until ? endOfDay(until).toISOString() : null,
+      });
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete) return;
+    setIsSubmitting(true);
+    try {
+      await onDelete();
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={(o) => !o && onClose()}>
+      <SheetContent side="bottom" className="h-auto max-h-[90vh] overflow-y-auto yacht-gradient">
+        <SheetHeader className="pb-4">
+          <SheetTitle>{isEditing ? t('editEvent') : t('newEvent')}</SheetTitle>
+        </SheetHeader>
+
+        <div className="space-y-4">
+          {/* Title */}
+          <div>
+            <Input
+              placeholder={t('whatHappens')}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="text-base"
+              autoFocus
+            />
+          </div>
+
+          {/* Description */}
+          <div>
+            <Textarea
+              placeholder={t('detailsOptional')}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="min-h-[60px] resize-none"
+            />
+          </div>
+
+          {/* Date and time */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium flex items-center gap-1.5">
+                <Calendar className="w-4 h-4" />
+                {t('when')}
+              </label>
+              <label className="text-sm flex items-center gap-2">
+                {t('allDay')}
+                <Switch checked={allDay} onCheckedChange={setAllDay} />
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <DatePickerButton
+                value={date}
+                placeholder={t('when')}
+                onChange={(d) => d && setDate(startOfDay(d))}
+              />
+              {allDay ? (
+                <>
+                  <span className="text-sm text-muted-foreground">{t('untilDate')}</span>
+                  <DatePickerButton
+                    value={endDate}
+                    placeholder={t('noEnd')}
+                    onChange={setEndDate}
+                    disabled={(d) => d < date}
+                  />
+                </>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-muted-foreground" />
+                  <Input
+                    type="time"
+                    aria-label={t('from')}
+                    value={startTime}
+                    onChange={(e) => setStartTime(e.target.value)}
+                    className="w-28"
+                  />
+                  <span className="text-sm text-muted-foreground">–</span>
+                  <Input
+                    type="time"
+                    aria-label={t('to')}
+                    value={endTime}
+                    onChange={(e) => setEndTime(e.target.value)}
+                    className="w-28"
+                  />
+                </div>
+              )}
+            </div>
+            {endBeforeStart && (
+              <p className="text-xs text-destructive">{t('endBeforeStart')}</p>
+            )}
+          </div>
+
+          {/* Recurrence */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium flex items-center gap-1.5">
+              <Repeat className="w-4 h-4" />
+              {t('repeat')}
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {RECURRENCES.map((option) => (
+                <Button
+                  key={option}
+                  type="button"
+                  variant={recurrence === option ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setRecurrence(option)}
+                >
+                  {t(option)}
+                </Button>
+              ))}
+            </div>
+            {recurrence !== 'none' && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">{t('repeatUntil')}</span>
+                <DatePickerButton
+                  value={until}
+                  placeholder={t('forever')}
+                  onChange={setUntil}
+                  disabled={(d) => d < date}
+                />
+                {until && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setUntil(undefined)}>
+                    {t('forever')}
+                  </Button>
+                )}
+              </div>
+            )}
+            {isEditing && event.recurrence !== 'none' && (
+              <p className="text-xs text-muted-foreground">{t('seriesHint')}</p>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            {isEditing && onDelete && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-destructive"
+                onClick={handleDelete}
+                disabled={isSubmitting}
+                aria-label={t('delete')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={onClose}
+              disabled={isSubmitting}
+            >
+              {t('cancel')}
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={handleSubmit}
+              disabled={!title.trim() || endBeforeStart || isSubmitting}
+            >
+              {isSubmitting ? t('saving') : t('save')}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
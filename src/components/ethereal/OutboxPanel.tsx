@@ -0,0 +1,86 @@
+import { CloudOff, AlertCircle, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useI18n, getBaseLanguage } from '@/lib/i18n';
+import type { EtherealOutboxItem, EtherealOutboxKind } from '@/lib/etherealDb';
+
+const texts = {
+  waiting: { ru: 'Ждут отправки', en: 'Waiting to sync' },
+  failed: { ru: 'Не отправлено', en: 'Not synced' },
+  retry: { ru: 'Повторить', en: 'Retry' },
+  discard: { ru: 'Отменить', en: 'Discard' },
+  untitled: { ru: 'Без названия', en: 'Untitled' },
+} as const;
+
+const kindTexts: Record<EtherealOutboxKind, { ru: string; en: string }> = {
+  message_send: { ru: 'Сообщение', en: 'Message' },
+  task_create: { ru: 'Новая задача', en: 'New task' },
+  task_update: { ru: 'Изменение задачи', en: 'Task edit' },
+  task_toggle: { ru: 'Статус задачи', en: 'Task status' },
+  task_delete: { ru: 'Удаление задачи', en: 'Task deletion' },
+  chronicle_create: { ru: 'Новая запись', en: 'New entry' },
+  chronicle_update: { ru: 'Изменение записи', en: 'Entry edit' },
+};
+
+interface OutboxPanelProps {
+  items: EtherealOutboxItem[];
+  onRetry: (id: number) => void;
+  onDiscard: (id: number) => void;
+  className?: string;
+}
+
+/**
+ * Changes made offline that have not reached the server yet.
+ * Pending items sync on their own; failed ones need a retry or discard.
+ */
+export function OutboxPanel({ items, onRetry, onDiscard, className }: OutboxPanelProps) {
+  const { language } = useI18n();
+  const lang = getBaseLanguage(language);
+  const t = (key: keyof typeof texts) => texts[key][lang];
+
+  if (items.length === 0) return null;
+
+  const failedCount = items.filter((item) => item.status === 'failed').length;
+
+  return (
+    <div className={cn('rounded-lg border border-amber-500/40 bg-amber-500/5 p-3 space-y-2', className)}>
+      <div className="flex items-center gap-2 text-sm font-medium text-amber-600">
+        <CloudOff className="w-4 h-4" />
+        {t('waiting')} ({items.length})
+        {failedCount > 0 && (
+          <span className="text-destructive">· {t('failed')}: {failedCount}</span>
+        )}
+      </div>
+
+      {items.map((item) => (
+        <div key={item.id} className="flex items-center gap-2 text-sm">
+          {item.status === 'failed' && <AlertCircle className="w-4 h-4 text-destructive shrink-0" />}
+          <div className="flex-1 min-w-0">
+            <p className="truncate">{item.label || t('untitled')}</p>
+            <p className="text-xs text-muted-foreground">{kindTexts[item.kind][lang]}</p>
+          </div>
+          {item.status === 'failed' && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title={t('retry')}
+              onClick={() => onRetry(item.id!)}
+            >
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-destructive"
+            title={t('discard')}
+            onClick={() => onDiscard(item.id!)}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
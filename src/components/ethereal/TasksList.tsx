@@ -4,9 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { TaskCard } from './TaskCard';
 import { TaskEditor } from './TaskEditor';
+import { OutboxPanel } from './OutboxPanel';
 import { useToast } from '@/hooks/use-toast';
 import { useI18n, getBaseLanguage } from '@/lib/i18n';
-import type { EtherealTask } from '@/lib/etherealDb';
+import type { EtherealTask, EtherealOutboxItem } from '@/lib/etherealDb';
 import type { TaskInput } from '@/hooks/useEtherealTasks';
 
 const texts = {
@@ -40,6 +41,9 @@ interface TasksListProps {
   onDelete: (taskId: string) => Promise<any>;
   members?: Array<{ id: string; displayName: string }>;
   currentMemberId?: string;
+  outboxItems?: EtherealOutboxItem[];
+  onRetryOutbox?: (id: number) => void;
+  onDiscardOutbox?: (id: number) => void;
 }
 
 export function TasksList({
@@ -52,6 +56,9 @@ export function TasksList({
   onDelete,
   members = [],
   currentMemberId,
+  outboxItems = [],
+  onRetryOutbox = () => {},
+  onDiscardOutbox = () => {},
 }: TasksListProps) {
   const [showDone, setShowDone] = useState(false);
   const [editorOpen, setEditorOpen] = useState(false);
@@ -179,6 +186,8 @@ export function TasksList({
 
       {/* Tasks list */}
       <div className="flex-1 overflow-y-auto px-4 pb-24 space-y-4">
+        <OutboxPanel items={outboxItems} onRetry={onRetryOutbox} onDiscard={onDiscardOutbox} />
+
         {!hasTasks ? (
           <div className="flex flex-col items-center justify-center py-16 text-center">
             <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
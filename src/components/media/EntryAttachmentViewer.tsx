@@ -294,6 +294,8 @@ function TranscribeSection({ attachmentId, blob, onInsertText }: TranscribeSecti
         return t('audio.authRequired');
       case 'rate_limited':
         return t('audio.rateLimited');
+      case 'budget_exceeded':
+        return t('aiUsage.budgetExceeded');
       case 'pending':
         return t('audio.transcribing');
       default:
@@ -0,0 +1,33 @@
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Bookmark } from 'lucide-react';
+import { getPinnedSavedSearches } from '@/lib/db';
+import { useI18n } from '@/lib/i18n';
+
+/**
+ * Saved searches pinned to the Today page. Tapping one opens Search with the query.
+ */
+export function PinnedSearches() {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const pinned = useLiveQuery(() => getPinnedSavedSearches(), []);
+
+  if (!pinned || pinned.length === 0) return null;
+
+  return (
+    <section className="mb-4" aria-label={t('search.savedSearches')}>
+      <div className="flex flex-wrap gap-2">
+        {pinned.map((search) => (
+          <button
+            key={search.id}
+            onClick={() => navigate(`/search?q=${encodeURIComponent(search.query)}`)}
+            className="flex items-center gap-1.5 rounded-full border border-border/50 bg-muted/50 px-3 py-1 text-sm text-muted-foreground transition-colors hover:bg-cyber-glow/10 hover:text-foreground"
+          >
+            <Bookmark className="h-3 w-3 text-cyber-sigil" />
+            <span className="max-w-[12rem] truncate">{search.name}</span>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
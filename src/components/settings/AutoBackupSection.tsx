@@ -0,0 +1,369 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, FolderOpen, Loader2, RotateCcw, ShieldCheck, Timer, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { useI18n } from '@/lib/i18n';
+import {
+  AUTO_BACKUP_INTERVAL_OPTIONS,
+  AUTO_BACKUP_KEEP_OPTIONS,
+  AUTO_BACKUP_STATUS_EVENT,
+  chooseAutoBackupFolder,
+  forgetAutoBackupFolder,
+  getAutoBackupFolderName,
+  getAutoBackupSettings,
+  getAutoBackupStatus,
+  grantAutoBackupFolderAccess,
+  isFolderBackupSupported,
+  isOpfsBackupSupported,
+  listAutoBackups,
+  readAutoBackup,
+  runAutoBackupNow,
+  saveAutoBackupSettings,
+  startAutoBackup,
+  verifyAutoBackups,
+  AutoBackupArchive,
+  AutoBackupSettings,
+} from '@/lib/autoBackup';
+import { formatDistanceToNow } from 'date-fns';
+import { ru, enUS, he, ar } from 'date-fns/locale';
+import { formatFileSize } from '@/lib/mediaUtils';
+import { cn } from '@/lib/utils';
+
+const dateLocales = { ru, en: enUS, he, ar };
+
+interface AutoBackupSectionProps {
+  disabled?: boolean;
+  onRestore: (file: File) => void;
+}
+
+/**
+ * Settings and stored archives of scheduled backups, shown inside BackupRestoreCard.
+ */
+export function AutoBackupSection({ disabled = false, onRestore }: AutoBackupSectionProps) {
+  const { language } = useI18n();
+  const [settings, setSettings] = useState<AutoBackupSettings>(() => getAutoBackupSettings());
+  const [status, setStatus] = useState(() => getAutoBackupStatus());
+  const [folderName, setFolderName] = useState<string | null>(null);
+  const [archives, setArchives] = useState<AutoBackupArchive[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const folderSupported = isFolderBackupSupported();
+  const supported = folderSupported || isOpfsBackupSupported();
+
+  const t = {
+    title: language === 'ru' ? 'Автоматический бэкап' : language === 'he' ? 'גיבוי אוטומטי' : language === 'ar' ? 'نسخ احتياطي تلقائي' : 'Automatic backups',
+    every: language === 'ru' ? 'Каждые' : language === 'he' ? 'כל' : language === 'ar' ? 'كل' : 'Every',
+    keep: language === 'ru' ? 'Хранить последние' : language === 'he' ? 'שמור אחרונים' : language === 'ar' ? 'الاحتفاظ بآخر' : 'Keep last',
+    interval: (hours: number) => hours % 24 === 0
+      ? (language === 'ru' ? `${hours / 24} дн.` : language === 'he' ? `${hours / 24} ימים` : language === 'ar' ? `${hours / 24} يوم` : `${hours / 24}d`)
+      : (language === 'ru' ? `${hours} ч` : language === 'he' ? `${hours} שעות` : language === 'ar' ? `${hours} ساعة` : `${hours}h`),
+    chooseFolder: language === 'ru' ? 'Выбрать папку' : language === 'he' ? 'בחר תיקייה' : language === 'ar' ? 'اختيار مجلد' : 'Choose folder',
+    folder: language === 'ru' ? 'Папка' : language === 'he' ? 'תיקייה' : language === 'ar' ? 'المجلد' : 'Folder',
+    grantAccess: language === 'ru' ? 'Разрешить доступ' : language === 'he' ? 'אפשר גישה' : language === 'ar' ? 'السماح بالوصول' : 'Allow access',
+    permissionNeeded: language === 'ru'
+      ? 'Браузер снял доступ к папке. Пока доступа нет, бэкапы сохраняются в хранилище браузера.'
+      : language === 'he'
+        ? 'הדפדפן ביטל את הגישה לתיקייה. עד שתאושר, הגיבויים נשמרים באחסון הדפדפן.'
+        : language === 'ar'
+          ? 'ألغى المتصفح الوصول إلى المجلد. حتى يُسمح به، تُحفظ النسخ في تخزين المتصفح.'
+          : 'The browser dropped access to the folder. Until it is allowed again, backups are kept in browser storage.',
+    browserStorage: language === 'ru'
+      ? 'Бэкапы хранятся в памяти браузера на этом устройстве.'
+      : language === 'he'
+        ? 'הגיבויים נשמרים באחסון הדפדפן במכשיר זה.'
+        : language === 'ar'
+          ? 'تُحفظ النسخ في تخزين المتصفح على هذا الجهاز.'
+          : 'Backups are kept in browser storage on this device.',
+    unsupported: language === 'ru'
+      ? 'Этот браузер не поддерживает автоматические бэкапы.'
+      : language === 'he'
+        ? 'דפדפן זה אינו תומך בגיבויים אוטומטיים.'
+        : language === 'ar'
+          ? 'هذا المتصفح لا يدعم النسخ التلقائي.'
+          : 'This browser does not support automatic backups.',
+    backUpNow: language === 'ru' ? 'Сделать сейчас' : language === 'he' ? 'גבה עכשיו' : language === 'ar' ? 'نسخ الآن' : 'Back up now',
+    verify: language === 'ru' ? 'Проверить' : language === 'he' ? 'אמת' : language === 'ar' ? 'تحقق' : 'Verify',
+    lastAuto: language === 'ru' ? 'Последний автобэкап' : language === 'he' ? 'גיבוי אוטומטי אחרון' : language === 'ar' ? 'آخر نسخة تلقائية' : 'Last automatic backup',
+    never: language === 'ru' ? 'ещё не было' : language === 'he' ? 'עדיין לא' : language === 'ar' ? 'لم يتم بعد' : 'not yet',
+    failed: language === 'ru' ? 'Последняя попытка не удалась' : language === 'he' ? 'הניסיון האחרון נכשל' : language === 'ar' ? 'فشلت المحاولة الأخيرة' : 'The last attempt failed',
+    created: language === 'ru' ? 'Бэкап сохранён' : language === 'he' ? 'הגיבוי נשמר' : language === 'ar' ? 'تم حفظ النسخة' : 'Backup saved',
+    allIntact: (count: number) => language === 'ru'
+      ? `Все бэкапы целы (${count})`
+      : language === 'he'
+        ? `כל הגיבויים תקינים (${count})`
+        : language === 'ar'
+          ? `كل النسخ سليمة (${count})`
+          : `All ${count} backups are intact`,
+    damaged: (count: number) => language === 'ru'
+      ? `Повреждено бэкапов: ${count}`
+      : language === 'he'
+        ? `גיבויים פגומים: ${count}`
+        : language === 'ar'
+          ? `نسخ تالفة: ${count}`
+          : `${count} damaged backups`,
+    damagedBadge: language === 'ru' ? 'повреждён' : language === 'he' ? 'פגום' : language === 'ar' ? 'تالف' : 'damaged',
+    restore: language === 'ru' ? 'Восстановить' : language === 'he' ? 'שחזר' : language === 'ar' ? 'استعادة' : 'Restore',
+    error: language === 'ru' ? 'Ошибка' : language === 'he' ? 'שגיאה' : language === 'ar' ? 'خطأ' : 'Error',
+  };
+
+  const ago = (iso: string) => formatDistanceToNow(new Date(iso), { addSuffix: true, locale: dateLocales[language] });
+
+  const refreshArchives = useCallback(async () => {
+    try {
+      setArchives((await listAutoBackups()).archives);
+    } catch (error) {
+      console.error('[AutoBackup] Listing failed:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleStatus = () => setStatus(getAutoBackupStatus());
+    window.addEventListener(AUTO_BACKUP_STATUS_EVENT, handleStatus);
+    return () => window.removeEventListener(AUTO_BACKUP_STATUS_EVENT, handleStatus);
+  }, []);
+
+  useEffect(() => {
+    if (!settings.enabled || !supported) return;
+    getAutoBackupFolderName().then(setFolderName).catch(() => setFolderName(null));
+    refreshArchives();
+  }, [settings.enabled, supported, status.lastSuccessAt, refreshArchives]);
+
+  const updateSettings = (changes: Partial<AutoBackupSettings>) => {
+    const next = { ...settings, ...changes };
+    saveAutoBackupSettings(next);
+    setSettings(next);
+    if (changes.enabled) {
+      // Restarting the scheduler backs up right away when one is due
+      startAutoBackup();
+    }
+  };
+
+  const handleChooseFolder = async () => {
+    try {
+      const name = await chooseAutoBackupFolder();
+      if (name) {
+        setFolderName(name);
+        await refreshArchives();
+      }
+    } catch (error) {
+      console.error('[AutoBackup] Folder selection failed:', error);
+      toast.error(t.error);
+    }
+  };
+
+  const handleForgetFolder = async () => {
+    await forgetAutoBackupFolder();
+    setFolderName(null);
+    await refreshArchives();
+  };
+
+  const handleGrantAccess = async () => {
+    if (await grantAutoBackupFolderAccess()) {
+      await refreshArchives();
+    }
+  };
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    try {
+      const result = await runAutoBackupNow();
+      if (result.lastError) {
+        toast.error(t.failed);
+      } else {
+        toast.success(t.created);
+      }
+      await refreshArchives();
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      const results = await verifyAutoBackups();
+      const damaged = results.filter((result) => !result.ok).length;
+      if (damaged > 0) {
+        toast.error(t.damaged(damaged));
+      } else {
+        toast.success(t.allIntact(results.length));
+      }
+    } catch (error) {
+      console.error('[AutoBackup] Verification failed:', error);
+      toast.error(t.error);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleRestore = async (name: string) => {
+    try {
+      onRestore(await readAutoBackup(name));
+    } catch (error) {
+      console.error('[AutoBackup] Opening archive failed:', error);
+      toast.error(t.error);
+    }
+  };
+
+  const busy = disabled || isRunning || isVerifying;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <Timer className="h-4 w-4 text-muted-foreground" />
+          {t.title}
+        </span>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => updateSettings({ enabled })}
+          disabled={disabled || !supported}
+          aria-label={t.title}
+        />
+      </div>
+
+      {!supported && <p className="text-xs text-muted-foreground">{t.unsupported}</p>}
+
+      {settings.enabled && supported && (
+        <>
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">{t.every}</p>
+            <div className="grid grid-cols-4 gap-1">
+              {AUTO_BACKUP_INTERVAL_OPTIONS.map((hours) => (
+                <Button
+                  key={hours}
+                  type="button"
+                  size="sm"
+                  variant={settings.intervalHours === hours ? 'default' : 'outline'}
+                  aria-pressed={settings.intervalHours === hours}
+                  onClick={() => updateSettings({ intervalHours: hours })}
+                  disabled={disabled}
+                >
+                  {t.interval(hours)}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">{t.keep}</p>
+            <div className="grid grid-cols-3 gap-1">
+              {AUTO_BACKUP_KEEP_OPTIONS.map((keep) => (
+                <Button
+                  key={keep}
+                  type="button"
+                  size="sm"
+                  variant={settings.keep === keep ? 'default' : 'outline'}
+                  aria-pressed={settings.keep === keep}
+                  onClick={() => updateSettings({ keep })}
+                  disabled={disabled}
+                >
+                  {keep}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Where archives go */}
+          {folderSupported ? (
+            folderName ? (
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="flex items-center gap-2 truncate">
+                  <FolderOpen className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  {t.folder}: {folderName}
+                </span>
+                <button
+                  onClick={handleForgetFolder}
+                  className="p-1 rounded hover:bg-muted/50"
+                  aria-label="Forget folder"
+                  disabled={busy}
+                >
+                  <X className="h-4 w-4 text-muted-foreground" />
+                </button>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" className="w-full gap-2" onClick={handleChooseFolder} disabled={busy}>
+                <FolderOpen className="h-4 w-4" />
+                {t.chooseFolder}
+              </Button>
+            )
+          ) : (
+            <p className="text-xs text-muted-foreground">{t.browserStorage}</p>
+          )}
+
+          {status.folderPermissionNeeded && folderName && (
+            <div className="space-y-2 rounded-md border border-amber-500/30 bg-amber-500/10 p-2 text-xs">
+              <p className="flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+                {t.permissionNeeded}
+              </p>
+              <Button variant="outline" size="sm" onClick={handleGrantAccess} disabled={busy}>
+                {t.grantAccess}
+              </Button>
+            </div>
+          )}
+
+          {/* Status */}
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p className="flex items-center gap-2">
+              <CheckCircle className="h-3.5 w-3.5" />
+              {t.lastAuto}: {status.lastSuccessAt ? ago(status.lastSuccessAt) : t.never}
+            </p>
+            {status.lastError && (
+              <p className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="h-3.5 w-3.5" />
+                {t.failed}
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex-1 gap-2" onClick={handleRunNow} disabled={busy}>
+              {isRunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Timer className="h-4 w-4" />}
+              {t.backUpNow}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 gap-2"
+              onClick={handleVerify}
+              disabled={busy || archives.length === 0}
+            >
+              {isVerifying ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+              {t.verify}
+            </Button>
+          </div>
+
+          {/* Stored archives, newest first */}
+          {archives.length > 0 && (
+            <ul className="space-y-1">
+              {archives.map((archive) => {
+                const damaged = status.damagedArchives.includes(archive.name);
+                return (
+                  <li key={archive.name} className="flex items-center justify-between gap-2 text-xs">
+                    <span className={cn('truncate', damaged ? 'text-destructive' : 'text-muted-foreground')}>
+                      {ago(archive.createdAt)} · {formatFileSize(archive.size)}
+                      {damaged && ` · ${t.damagedBadge}`}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1 px-2"
+                      onClick={() => handleRestore(archive.name)}
+                      disabled={busy || damaged}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                      {t.restore}
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
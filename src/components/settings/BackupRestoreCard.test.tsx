@@ -8,6 +8,8 @@ const mocks = vi.hoisted(() => ({
   importBackupZip: vi.fn(),
   importFullBackup: vi.fn(),
   readBackupFile: vi.fn(),
+  previewMergeRestore: vi.fn(),
+  mergeBackupRestore: vi.fn(),
   getLastBackupDate: vi.fn(),
   getImportSummary: vi.fn(),
   getImportSummaryFromManifest: vi.fn(),
@@ -27,6 +29,8 @@ vi.mock('@/lib/backupService', () => ({
   importBackupZip: mocks.importBackupZip,
   importFullBackup: mocks.importFullBackup,
   readBackupFile: mocks.readBackupFile,
+  previewMergeRestore: mocks.previewMergeRestore,
+  mergeBackupRestore: mocks.mergeBackupRestore,
   getLastBackupDate: mocks.getLastBackupDate,
   getImportSummary: mocks.getImportSummary,
   getImportSummaryFromManifest: mocks.getImportSummaryFromManifest,
@@ -37,6 +41,16 @@ vi.mock('@/lib/backupService', () => ({
   getDaysSinceLastBackup: mocks.getDaysSinceLastBackup,
 }));
 
+vi.mock('@/lib/autoBackup', () => ({
+  AUTO_BACKUP_INTERVAL_OPTIONS: [24],
+  AUTO_BACKUP_KEEP_OPTIONS: [5],
+  AUTO_BACKUP_STATUS_EVENT: 'daybook-auto-backup-status',
+  getAutoBackupSettings: () => ({ enabled: false, intervalHours: 24, keep: 5 }),
+  getAutoBackupStatus: () => ({ archiveCount: 0, damagedArchives: [] }),
+  isFolderBackupSupported: () => false,
+  isOpfsBackupSupported: () => false,
+}));
+
 vi.mock('@/lib/syncService', () => ({
   getSyncOwnerUserId: mocks.getSyncOwnerUserId,
 }));
@@ -105,6 +119,8 @@ describe('BackupRestoreCard restore confirmation truth', () => {
     mocks.importBackupZip.mockReset();
     mocks.importFullBackup.mockReset();
     mocks.readBackupFile.mockReset();
+    mocks.previewMergeRestore.mockReset();
+    mocks.mergeBackupRestore.mockReset();
     mocks.getLastBackupDate.mockReset();
     mocks.getImportSummary.mockReset();
     mocks.getImportSummaryFromManifest.mockReset();
@@ -265,4 +281,50 @@ describe('BackupRestoreCard restore confirmation truth', () => {
     expect(queryByText(/Reminders and record data/)).toBeNull();
     expect(queryByText(/Diagnostics/)).toBeNull();
   });
+
+  it('shows the merge dry-run report and merges instead of replacing', async () => {
+    const counts = (added: number, skipped: number, conflicting: number) => ({ added, skipped, conflicting });
+    const report = {
+      tables: {
+        entries: counts(3, 10, 1),
+        attachments: counts(2, 4, 0),
+        discussionMessages: counts(0, 6, 0),
+      },
+      totals: counts(5, 20, 1),
+      conflicts: [{ table: 'entries', label: '2025-05-02 — Older text' }],
+    };
+    mocks.evaluateRestoreProvenance.mockReturnValue({ allowed: true });
+    mocks.getImportSummary.mockReturnValueOnce({
+      entries: 14, attachments: 6, drafts: 0, biographies: 0, reminders: 0, receipts: 0, receiptItems: 0,
+      discussionSessions: 1, discussionMessages: 6, weeklyInsights: 0, audioTranscripts: 0,
+      attachmentInsights: 0, analysisQueue: 0, scanLogs: 0,
+    });
+    mocks.previewMergeRestore.mockResolvedValueOnce(report);
+    mocks.mergeBackupRestore.mockResolvedValueOnce(report);
+
+    const { container, getByText } = render(<BackupRestoreCard />);
+    const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+    fireEvent.change(input, { target: { files: [new File(['{}'], 'backup.json', { type: 'application/json' })] } });
+
+    await waitFor(() => {
+      expect(getByText('Merge')).toBeTruthy();
+    });
+    fireEvent.click(getByText('Merge'));
+
+    await waitFor(() => {
+      expect(getByText('Dry run:')).toBeTruthy();
+    });
+    expect(container.textContent).toContain('Journal content: 5 added · 14 already here · 1 conflicting');
+    expect(container.textContent).toContain('Discussions: 0 added · 6 already here');
+    expect(container.textContent).toContain('2025-05-02 — Older text');
+    expect(mocks.mergeBackupRestore).not.toHaveBeenCalled();
+
+    fireEvent.click(getByText('Restore'));
+
+    await waitFor(() => {
+      expect(mocks.toastSuccess).toHaveBeenCalledWith('Added 5 items');
+    });
+    expect(mocks.mergeBackupRestore).toHaveBeenCalledTimes(1);
+    expect(mocks.importFullBackup).not.toHaveBeenCalled();
+  });
 });
@@ -1,8 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
-import { HardDrive, Upload, Download, AlertTriangle, CheckCircle, Loader2, X } from 'lucide-react';
+import { HardDrive, Upload, Download, AlertTriangle, CheckCircle, Loader2, X, Lock } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,8 +21,12 @@ import {
   exportBackupZip,
   evaluateRestoreProvenance,
   importBackupZip,
+  importBackupChain,
   importFullBackup,
   readBackupFile,
+  unlockBackupZip,
+  previewMergeRestore,
+  mergeBackupRestore,
   getLastBackupDate,
   getImportSummary,
   getImportSummaryFromManifest,
@@ -34,18 +40,37 @@ import {
   ImportSummary,
   DetailedProgress,
 } from '@/lib/backupService';
+import { MIN_BACKUP_PASSWORD_LENGTH, WRONG_BACKUP_PASSWORD } from '@/lib/backupEncryption';
+import type { MergeReport } from '@/lib/backupMerge';
+import {
+  BACKUP_CHAIN_INCOMPLETE,
+  BACKUP_CHAIN_MISMATCH,
+  getBackupChainState,
+  isIncrementalLink,
+  orderBackupChain,
+} from '@/lib/backupChain';
 import { getSyncOwnerUserId } from '@/lib/syncService';
 import { formatDistanceToNow } from 'date-fns';
 import { ru, enUS, he, ar } from 'date-fns/locale';
 import { formatFileSize } from '@/lib/mediaUtils';
 import { cn } from '@/lib/utils';
-import { getGroupedImportProgress, getGroupedImportSummary } from './backupRestoreGrouping';
+import { getGroupedImportProgress, getGroupedImportSummary, getGroupedMergeReport } from './backupRestoreGrouping';
+import { AutoBackupSection } from './AutoBackupSection';
 
 const dateLocales = { ru, en: enUS, he, ar };
 
 // 50MB warning threshold
 const SIZE_WARNING_THRESHOLD = 50 * 1024 * 1024;
 
+// Conflicts listed in the merge dry-run; the rest are summarized as a count
+const MAX_LISTED_CONFLICTS = 5;
+
+type RestoreMode = 'replace' | 'merge';
+
+type PendingImport =
+  | { type: 'json' | 'zip'; data: BackupPayload | Blob; manifest: BackupManifest }
+  | { type: 'chain'; data: Blob[]; manifest: BackupManifest }; // manifest of the latest link
+
 export function BackupReminderBanner() {
   const { language } = useI18n();
   const [visible, setVisible] = useState(() => shouldShowBackupReminder());
@@ -113,8 +138,25 @@ export function BackupRestoreCard() {
   
   // Import confirmation dialog state
   const [showImportConfirm, setShowImportConfirm] = useState(false);
-  const [pendingImportFile, setPendingImportFile] = useState<{ type: 'json' | 'zip'; data: BackupPayload | Blob; manifest: BackupManifest } | null>(null);
+  const [pendingImportFile, setPendingImportFile] = useState<PendingImport | null>(null);
   const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+
+  // Merge restore: dry-run report computed before anything is written
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('replace');
+  const [mergeReport, setMergeReport] = useState<MergeReport | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  // Password protection: export options and unlocking an encrypted backup
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassword, setExportPassword] = useState('');
+  const [exportPasswordRepeat, setExportPasswordRepeat] = useState('');
+  const [lockedImportFiles, setLockedImportFiles] = useState<Blob[] | null>(null);
+  const [importPassword, setImportPassword] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  // Incremental export: only changes since the last backup of this device's chain
+  const [chainState, setChainState] = useState(() => getBackupChainState());
+  const [incrementalExport, setIncrementalExport] = useState(false);
   
   const lastBackup = getLastBackupDate();
   const lastBackupText = lastBackup
@@ -168,6 +210,86 @@ export function BackupRestoreCard() {
           ? 'قد تكون النسخة الاحتياطية كبيرة. تأكد من وجود مساحة كافية.'
           : 'Backup may be large. Make sure you have enough space.',
     continue: language === 'ru' ? 'Продолжить' : language === 'he' ? 'המשך' : language === 'ar' ? 'متابعة' : 'Continue',
+    encryptBackup: language === 'ru' ? 'Защитить паролем' : language === 'he' ? 'הגן בסיסמה' : language === 'ar' ? 'حماية بكلمة مرور' : 'Protect with password',
+    password: language === 'ru' ? 'Пароль' : language === 'he' ? 'סיסמה' : language === 'ar' ? 'كلمة المرور' : 'Password',
+    repeatPassword: language === 'ru' ? 'Повторите пароль' : language === 'he' ? 'חזור על הסיסמה' : language === 'ar' ? 'أعد إدخال كلمة المرور' : 'Repeat password',
+    passwordHint: language === 'ru'
+      ? `Минимум ${MIN_BACKUP_PASSWORD_LENGTH} символов. Без пароля бэкап не восстановить.`
+      : language === 'he'
+        ? `לפחות ${MIN_BACKUP_PASSWORD_LENGTH} תווים. ללא הסיסמה לא ניתן לשחזר את הגיבוי.`
+        : language === 'ar'
+          ? `${MIN_BACKUP_PASSWORD_LENGTH} أحرف على الأقل. لا يمكن استعادة النسخة بدون كلمة المرور.`
+          : `At least ${MIN_BACKUP_PASSWORD_LENGTH} characters. The backup cannot be restored without it.`,
+    encryptedTitle: language === 'ru' ? 'Бэкап защищён паролем' : language === 'he' ? 'הגיבוי מוגן בסיסמה' : language === 'ar' ? 'النسخة محمية بكلمة مرور' : 'Backup is password-protected',
+    encryptedDesc: language === 'ru'
+      ? 'Введите пароль, указанный при создании бэкапа.'
+      : language === 'he'
+        ? 'הזן את הסיסמה שנקבעה בעת יצירת הגיבוי.'
+        : language === 'ar'
+          ? 'أدخل كلمة المرور التي تم تعيينها عند إنشاء النسخة.'
+          : 'Enter the password set when the backup was created.',
+    unlock: language === 'ru' ? 'Открыть' : language === 'he' ? 'פתח' : language === 'ar' ? 'فتح' : 'Unlock',
+    wrongPassword: language === 'ru' ? 'Неверный пароль' : language === 'he' ? 'סיסמה שגויה' : language === 'ar' ? 'كلمة مرور خاطئة' : 'Wrong password',
+    incremental: language === 'ru' ? 'Только изменения с последнего бэкапа' : language === 'he' ? 'רק שינויים מאז הגיבוי האחרון' : language === 'ar' ? 'التغييرات منذ آخر نسخة فقط' : 'Only changes since last backup',
+    incrementalHint: (count: number) => language === 'ru'
+      ? `Для восстановления нужны полный бэкап и все ${count} инкрементальных после него.`
+      : language === 'he'
+        ? `לשחזור נדרשים הגיבוי המלא וכל ${count} הגיבויים המצטברים שאחריו.`
+        : language === 'ar'
+          ? `للاستعادة تحتاج النسخة الكاملة وكل النسخ التزايدية الـ ${count} بعدها.`
+          : `Restoring needs the full backup and all ${count} incremental backups after it.`,
+    chainIncomplete: language === 'ru'
+      ? 'Это инкрементальный бэкап. Выберите полный бэкап и все инкрементальные после него.'
+      : language === 'he'
+        ? 'זהו גיבוי מצטבר. בחר את הגיבוי המלא ואת כל הגיבויים המצטברים שאחריו.'
+        : language === 'ar'
+          ? 'هذه نسخة تزايدية. اختر النسخة الكاملة وكل النسخ التزايدية بعدها.'
+          : 'This is an incremental backup. Select the full backup and every incremental one after it.',
+    chainMismatch: language === 'ru'
+      ? 'Файлы относятся к разным цепочкам бэкапов.'
+      : language === 'he'
+        ? 'הקבצים שייכים לשרשראות גיבוי שונות.'
+        : language === 'ar'
+          ? 'الملفات تنتمي إلى سلاسل نسخ مختلفة.'
+          : 'The files belong to different backup chains.',
+    chainFiles: (count: number) => language === 'ru'
+      ? `Цепочка из ${count} файлов`
+      : language === 'he'
+        ? `שרשרת של ${count} קבצים`
+        : language === 'ar'
+          ? `سلسلة من ${count} ملفات`
+          : `Chain of ${count} files`,
+    modeReplace: language === 'ru' ? 'Заменить' : language === 'he' ? 'החלף' : language === 'ar' ? 'استبدال' : 'Replace',
+    modeMerge: language === 'ru' ? 'Объединить' : language === 'he' ? 'מזג' : language === 'ar' ? 'دمج' : 'Merge',
+    mergeTitle: language === 'ru' ? 'Объединить бэкап с локальными данными?' : language === 'he' ? 'למזג את הגיבוי עם הנתונים המקומיים?' : language === 'ar' ? 'دمج النسخة مع البيانات المحلية؟' : 'Merge this backup into local data?',
+    mergeDesc: language === 'ru'
+      ? 'Добавляется только то, чего нет на устройстве. Локальные записи не удаляются и не перезаписываются.'
+      : language === 'he'
+        ? 'רק מה שחסר במכשיר יתווסף. רשומות מקומיות לא יימחקו ולא יידרסו.'
+        : language === 'ar'
+          ? 'تتم إضافة ما ليس موجوداً على الجهاز فقط. لا تُحذف السجلات المحلية ولا يُكتب فوقها.'
+          : 'Only what is missing on this device is added. Local records are never deleted or overwritten.',
+    dryRun: language === 'ru' ? 'Пробный прогон' : language === 'he' ? 'הרצת ניסיון' : language === 'ar' ? 'تشغيل تجريبي' : 'Dry run',
+    previewing: language === 'ru' ? 'Сравнение с локальными данными...' : language === 'he' ? 'משווה לנתונים המקומיים...' : language === 'ar' ? 'جارٍ المقارنة مع البيانات المحلية...' : 'Comparing with local data...',
+    added: language === 'ru' ? 'добавится' : language === 'he' ? 'יתווספו' : language === 'ar' ? 'ستضاف' : 'added',
+    skipped: language === 'ru' ? 'уже есть' : language === 'he' ? 'קיימים' : language === 'ar' ? 'موجودة' : 'already here',
+    conflicting: language === 'ru' ? 'конфликт' : language === 'he' ? 'התנגשות' : language === 'ar' ? 'تعارض' : 'conflicting',
+    conflictsNote: language === 'ru'
+      ? 'Отличаются от локальных версий — останутся локальные:'
+      : language === 'he'
+        ? 'שונים מהגרסאות המקומיות — הגרסה המקומית נשמרת:'
+        : language === 'ar'
+          ? 'تختلف عن النسخ المحلية — ستبقى النسخ المحلية:'
+          : 'Differ from local versions — the local copy is kept:',
+    moreConflicts: language === 'ru' ? 'и ещё' : language === 'he' ? 'ועוד' : language === 'ar' ? 'والمزيد' : 'and',
+    nothingToMerge: language === 'ru' ? 'Всё из бэкапа уже есть на устройстве' : language === 'he' ? 'כל הגיבוי כבר קיים במכשיר' : language === 'ar' ? 'كل محتوى النسخة موجود بالفعل على الجهاز' : 'Everything in this backup is already on this device',
+    mergeSuccess: (added: number) => language === 'ru'
+      ? `Добавлено: ${added}`
+      : language === 'he'
+        ? `נוספו: ${added}`
+        : language === 'ar'
+          ? `تمت الإضافة: ${added}`
+          : `Added ${added} items`,
   };
 
   const getRestoreDeniedMessage = (reason?: 'owner_mismatch' | 'missing_provenance') => {
@@ -191,11 +313,16 @@ export function BackupRestoreCard() {
   };
 
   const groupedImportSummary = importSummary ? getGroupedImportSummary(importSummary, language) : [];
+  const groupedMergeReport = mergeReport ? getGroupedMergeReport(mergeReport, language) : [];
   const groupedImportProgress = importProgress ? {
     ...importProgress,
     tables: getGroupedImportProgress(importProgress, language),
   } : null;
 
+  const exportPasswordValid = !encryptExport || (
+    exportPassword.length >= MIN_BACKUP_PASSWORD_LENGTH && exportPassword === exportPasswordRepeat
+  );
+
   const handleExportClick = async () => {
     // Check size first
     const size = await estimateBackupSize();
@@ -216,9 +343,16 @@ export function BackupRestoreCard() {
     try {
       const zipBlob = await exportBackupZip((progress) => {
         setExportProgress(progress);
+      }, {
+        password: encryptExport ? exportPassword : undefined,
+        incremental: incrementalExport && chainState !== null,
       });
       
-      downloadBackupZip(zipBlob);
+      const chain = getBackupChainState();
+      setChainState(chain);
+      downloadBackupZip(zipBlob, chain && chain.sequence > 0 ? `inc${chain.sequence}` : undefined);
+      setExportPassword('');
+      setExportPasswordRepeat('');
       toast.success(t.exportSuccess);
     } catch (error) {
       console.error('[Backup] Export failed:', error);
@@ -229,48 +363,156 @@ export function BackupRestoreCard() {
     }
   };
 
+  const getChainErrorMessage = (error: unknown) => {
+    const code = error instanceof Error ? error.message : '';
+    if (code === BACKUP_CHAIN_INCOMPLETE) return t.chainIncomplete;
+    if (code === BACKUP_CHAIN_MISMATCH) return t.chainMismatch;
+    return null;
+  };
+
+  const prepareImport = (result: { type: 'json' | 'zip'; data: BackupPayload | Blob; manifest?: BackupManifest }) => {
+    const manifest = result.type === 'zip'
+      ? result.manifest
+      : (result.data as BackupPayload).manifest;
+
+    if (isIncrementalLink(manifest?.chain)) {
+      toast.error(t.chainIncomplete);
+      return;
+    }
+
+    const provenanceDecision = evaluateRestoreProvenance({
+      deviceOwnerUserId: getSyncOwnerUserId(),
+      backupOwnerUserId: manifest?.ownerUserId,
+    });
+
+    if (!provenanceDecision.allowed) {
+      toast.error(getRestoreDeniedMessage(provenanceDecision.reason));
+      return;
+    }
+    
+    let summary: ImportSummary;
+    if (result.type === 'zip' && result.manifest) {
+      summary = getImportSummaryFromManifest(result.manifest);
+    } else if (result.type === 'json') {
+      summary = getImportSummary(result.data as BackupPayload);
+    } else {
+      toast.error(t.invalidFile);
+      return;
+    }
+    
+    setImportSummary(summary);
+    setPendingImportFile({ ...result, manifest });
+    setRestoreMode('replace');
+    setMergeReport(null);
+    setShowImportConfirm(true);
+  };
+
+  const prepareChainImport = (links: Array<{ data: Blob; manifest: BackupManifest }>) => {
+    let ordered: BackupManifest[];
+    try {
+      ordered = orderBackupChain(links.map((link) => link.manifest));
+    } catch (error) {
+      toast.error(getChainErrorMessage(error) ?? t.invalidFile);
+      return;
+    }
+
+    const latest = ordered[ordered.length - 1];
+    const provenanceDecision = evaluateRestoreProvenance({
+      deviceOwnerUserId: getSyncOwnerUserId(),
+      backupOwnerUserId: latest.ownerUserId,
+    });
+
+    if (!provenanceDecision.allowed) {
+      toast.error(getRestoreDeniedMessage(provenanceDecision.reason));
+      return;
+    }
+
+    setImportSummary(getImportSummaryFromManifest(latest));
+    setPendingImportFile({ type: 'chain', data: links.map((link) => link.data), manifest: latest });
+    setRestoreMode('replace');
+    setMergeReport(null);
+    setShowImportConfirm(true);
+  };
+
+  const handleRestoreModeChange = async (mode: RestoreMode) => {
+    setRestoreMode(mode);
+    if (mode !== 'merge' || mergeReport || !pendingImportFile || pendingImportFile.type === 'chain') return;
+
+    setIsPreviewing(true);
+    try {
+      setMergeReport(await previewMergeRestore(pendingImportFile.data));
+    } catch (error) {
+      console.error('[Backup] Merge preview failed:', error);
+      toast.error(t.error);
+      setRestoreMode('replace');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(event.target.files ?? []);
+    if (files.length === 0) return;
     
     // Reset input so same file can be selected again
     event.target.value = '';
-    
-    try {
-      const result = await readBackupFile(file);
-      const manifest = result.type === 'zip'
-        ? result.manifest
-        : (result.data as BackupPayload).manifest;
-
-      const provenanceDecision = evaluateRestoreProvenance({
-        deviceOwnerUserId: getSyncOwnerUserId(),
-        backupOwnerUserId: manifest?.ownerUserId,
-      });
+    await openBackupFiles(files);
+  };
 
-      if (!provenanceDecision.allowed) {
-        toast.error(getRestoreDeniedMessage(provenanceDecision.reason));
+  const openBackupFiles = async (files: File[]) => {
+    try {
+      const results = await Promise.all(files.map((file) => readBackupFile(file)));
+      if (results.length > 1 && results.some((result) => result.type !== 'zip')) {
+        toast.error(t.invalidFile);
         return;
       }
-      
-      let summary: ImportSummary;
-      if (result.type === 'zip' && result.manifest) {
-        summary = getImportSummaryFromManifest(result.manifest);
-      } else if (result.type === 'json') {
-        summary = getImportSummary(result.data as BackupPayload);
-      } else {
-        toast.error(t.invalidFile);
+      if (results.some((result) => result.encrypted)) {
+        // Counts, owner and chain position are inside the encrypted payload
+        setImportPassword('');
+        setLockedImportFiles(results.map((result) => result.data as Blob));
         return;
       }
-      
-      setImportSummary(summary);
-      setPendingImportFile({ ...result, manifest });
-      setShowImportConfirm(true);
+      if (results.length === 1) {
+        prepareImport(results[0]);
+      } else {
+        prepareChainImport(results.map((result) => ({ data: result.data as Blob, manifest: result.manifest! })));
+      }
     } catch (error) {
       console.error('[Backup] File read failed:', error);
       toast.error(t.invalidFile);
     }
   };
 
+  const handleUnlockBackup = async () => {
+    if (!lockedImportFiles || isUnlocking) return;
+
+    setIsUnlocking(true);
+    try {
+      // One password for the whole selection; plain files pass through unchanged
+      const unlocked = [];
+      for (const file of lockedImportFiles) {
+        unlocked.push(await unlockBackupZip(file, importPassword));
+      }
+      setLockedImportFiles(null);
+      setImportPassword('');
+      if (unlocked.length === 1) {
+        prepareImport({ type: 'zip', ...unlocked[0] });
+      } else {
+        prepareChainImport(unlocked);
+      }
+    } catch (error) {
+      if (error instanceof Error && error.message === WRONG_BACKUP_PASSWORD) {
+        toast.error(t.wrongPassword);
+      } else {
+        console.error('[Backup] Unlock failed:', error);
+        setLockedImportFiles(null);
+        toast.error(t.invalidFile);
+      }
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
   const handleConfirmImport = async () => {
     if (!pendingImportFile) return;
 
@@ -292,7 +534,13 @@ export function BackupRestoreCard() {
     setImportProgress(null);
     
     try {
-      if (pendingImportFile.type === 'zip') {
+      if (pendingImportFile.type === 'chain') {
+        await importBackupChain(pendingImportFile.data, (progress) => setImportProgress(progress));
+        toast.success(t.importSuccess);
+      } else if (restoreMode === 'merge') {
+        const report = await mergeBackupRestore(pendingImportFile.data);
+        toast.success(t.mergeSuccess(report.totals.added));
+      } else if (pendingImportFile.type === 'zip') {
         await importBackupZip(
           pendingImportFile.data as Blob, 
           { wipeExisting: true },
@@ -303,19 +551,19 @@ export function BackupRestoreCard() {
           pendingImportFile.data as BackupPayload, 
           { wipeExisting: true }
         );
+        toast.success(t.importSuccess);
       }
       
-      toast.success(t.importSuccess);
-      
       // Reload to refresh all data
       setTimeout(() => window.location.reload(), 1000);
     } catch (error) {
       console.error('[Backup] Import failed:', error);
-      toast.error(t.error);
+      toast.error(getChainErrorMessage(error) ?? t.error);
     } finally {
       setIsImporting(false);
       setPendingImportFile(null);
       setImportSummary(null);
+      setMergeReport(null);
       setImportProgress(null);
     }
   };
@@ -382,7 +630,7 @@ export function BackupRestoreCard() {
               variant="outline"
               className="flex-1 gap-2"
               onClick={handleExportClick}
-              disabled={isExporting || isImporting}
+              disabled={isExporting || isImporting || !exportPasswordValid}
             >
               {isExporting ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
@@ -410,11 +658,71 @@ export function BackupRestoreCard() {
               ref={fileInputRef}
               type="file"
               accept=".json,.zip"
+              multiple
               onChange={handleFileSelect}
               className="hidden"
             />
           </div>
           
+          {/* Incremental export, once there is a backup to build on */}
+          {chainState && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-sm">{t.incremental}</span>
+                <Switch
+                  checked={incrementalExport}
+                  onCheckedChange={setIncrementalExport}
+                  disabled={isExporting || isImporting}
+                />
+              </div>
+              {incrementalExport && (
+                <p className="text-xs text-muted-foreground">{t.incrementalHint(chainState.sequence + 1)}</p>
+              )}
+            </div>
+          )}
+          
+          {/* Password protection for the next export */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-sm">
+                <Lock className="h-4 w-4 text-muted-foreground" />
+                {t.encryptBackup}
+              </span>
+              <Switch
+                checked={encryptExport}
+                onCheckedChange={setEncryptExport}
+                disabled={isExporting || isImporting}
+              />
+            </div>
+            {encryptExport && (
+              <div className="space-y-2">
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder={t.password}
+                  value={exportPassword}
+                  onChange={(e) => setExportPassword(e.target.value)}
+                  disabled={isExporting}
+                />
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder={t.repeatPassword}
+                  value={exportPasswordRepeat}
+                  onChange={(e) => setExportPasswordRepeat(e.target.value)}
+                  disabled={isExporting}
+                />
+                <p className="text-xs text-muted-foreground">{t.passwordHint}</p>
+              </div>
+            )}
+          </div>
+          
+          {/* Scheduled backups; a stored archive opens like a picked file */}
+          <AutoBackupSection
+            disabled={isExporting || isImporting}
+            onRestore={(file) => openBackupFiles([file])}
+          />
+          
           {/* Export progress */}
           {isExporting && <ProgressDisplay progress={exportProgress} label={t.exporting} />}
           
@@ -456,6 +764,50 @@ export function BackupRestoreCard() {
         </AlertDialogContent>
       </AlertDialog>
       
+      {/* Password prompt for encrypted backups */}
+      <AlertDialog
+        open={lockedImportFiles !== null}
+        onOpenChange={(open) => {
+          if (!open) setLockedImportFiles(null);
+        }}
+      >
+        <AlertDialogContent className="panel-glass">
+          <AlertDialogHeader>
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+              <Lock className="h-6 w-6 text-primary" />
+            </div>
+            <AlertDialogTitle className="text-center">
+              {t.encryptedTitle}
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-center">
+              {t.encryptedDesc}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            type="password"
+            autoComplete="current-password"
+            placeholder={t.password}
+            value={importPassword}
+            onChange={(e) => setImportPassword(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleUnlockBackup();
+            }}
+            autoFocus
+          />
+          <AlertDialogFooter className="flex-col gap-2 sm:flex-col">
+            <Button
+              onClick={handleUnlockBackup}
+              disabled={isUnlocking || importPassword.length === 0}
+              className="w-full gap-2"
+            >
+              {isUnlocking && <Loader2 className="h-4 w-4 animate-spin" />}
+              {t.unlock}
+            </Button>
+            <AlertDialogCancel className="w-full" disabled={isUnlocking}>{t.cancel}</AlertDialogCancel>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
       {/* Import confirmation dialog */}
       <AlertDialog open={showImportConfirm} onOpenChange={setShowImportConfirm}>
         <AlertDialogContent className="panel-glass">
@@ -464,14 +816,75 @@ export function BackupRestoreCard() {
               <AlertTriangle className="h-6 w-6 text-primary" />
             </div>
             <AlertDialogTitle className="text-center">
-              {t.confirmTitle}
+              {restoreMode === 'merge' ? t.mergeTitle : t.confirmTitle}
             </AlertDialogTitle>
             <AlertDialogDescription className="text-center">
-              {t.confirmDesc}
+              {restoreMode === 'merge' ? t.mergeDesc : t.confirmDesc}
             </AlertDialogDescription>
           </AlertDialogHeader>
           
-          {importSummary && (
+          {/* Restore mode (a chain always restores as a whole) */}
+          {pendingImportFile?.type === 'chain' ? (
+            <p className="text-center text-sm text-muted-foreground">{t.chainFiles(pendingImportFile.data.length)}</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {(['replace', 'merge'] as const).map((mode) => (
+                <Button
+                  key={mode}
+                  type="button"
+                  size="sm"
+                  variant={restoreMode === mode ? 'default' : 'outline'}
+                  aria-pressed={restoreMode === mode}
+                  onClick={() => handleRestoreModeChange(mode)}
+                  disabled={isPreviewing}
+                >
+                  {mode === 'merge' ? t.modeMerge : t.modeReplace}
+                </Button>
+              ))}
+            </div>
+          )}
+          
+          {restoreMode === 'merge' && isPreviewing && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t.previewing}
+            </div>
+          )}
+          
+          {restoreMode === 'merge' && mergeReport && (
+            <div className="bg-muted rounded-lg p-3 space-y-2 text-sm">
+              <p className="font-medium">{t.dryRun}:</p>
+              {groupedMergeReport.length === 0 || mergeReport.totals.added + mergeReport.totals.conflicting === 0 ? (
+                <p className="text-muted-foreground">{t.nothingToMerge}</p>
+              ) : (
+                <ul className="space-y-1 text-muted-foreground">
+                  {groupedMergeReport.map((item) => (
+                    <li key={item.key}>
+                      • {item.label}: {item.added} {t.added} · {item.skipped} {t.skipped}
+                      {item.conflicting > 0 && ` · ${item.conflicting} ${t.conflicting}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {mergeReport.conflicts.length > 0 && (
+                <div className="space-y-1 text-xs">
+                  <p className="text-amber-600 dark:text-amber-400">{t.conflictsNote}</p>
+                  <ul className="space-y-0.5 text-muted-foreground">
+                    {mergeReport.conflicts.slice(0, MAX_LISTED_CONFLICTS).map((conflict, index) => (
+                      <li key={index} className="truncate">– {conflict.label}</li>
+                    ))}
+                  </ul>
+                  {mergeReport.conflicts.length > MAX_LISTED_CONFLICTS && (
+                    <p className="text-muted-foreground">
+                      {t.moreConflicts} {mergeReport.conflicts.length - MAX_LISTED_CONFLICTS}…
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          
+          {restoreMode === 'replace' && importSummary && (
             <div className="bg-muted rounded-lg p-3 space-y-1 text-sm">
               <p className="font-medium mb-2">{t.willRestore}:</p>
               <ul className="space-y-1 text-muted-foreground">
@@ -485,6 +898,7 @@ export function BackupRestoreCard() {
           <AlertDialogFooter className="flex-col gap-2 sm:flex-col">
             <AlertDialogAction
               onClick={handleConfirmImport}
+              disabled={restoreMode === 'merge' && (!mergeReport || mergeReport.totals.added === 0)}
               className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
             >
               {t.confirm}
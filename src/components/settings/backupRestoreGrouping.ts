@@ -1,4 +1,5 @@
 import type { DetailedProgress, ImportSummary } from '@/lib/backupService';
+import type { MergeReport, MergeTableCounts, MergeTableName } from '@/lib/backupMerge';
 
 export type BackupProgressLanguage = 'ru' | 'en' | 'he' | 'ar';
 export type BackupProgressStatus = 'pending' | 'processing' | 'done';
@@ -17,6 +18,11 @@ export type GroupedImportSummaryItem = {
   count: number;
 };
 
+export type GroupedMergeReportItem = MergeTableCounts & {
+  key: BackupProgressGroupKey;
+  label: string;
+};
+
 export type GroupedImportProgressItem = {
   name: string;
   status: BackupProgressStatus;
@@ -34,7 +40,7 @@ export const BACKUP_PROGRESS_GROUPS: BackupProgressGroupDefinition[] = [
       ar: 'محتوى اليوميات',
     },
     importSummaryKeys: ['entries', 'attachments', 'drafts'],
-    tableNames: ['entries', 'attachments', 'drafts'],
+    tableNames: ['entries', 'attachments', 'drafts', 'savedSearches'],
   },
   {
     key: 'discussions',
@@ -94,6 +100,22 @@ export function getGroupedImportSummary(summary: ImportSummary, language: Backup
   })).filter((item) => item.count > 0);
 }
 
+export function getGroupedMergeReport(report: MergeReport, language: BackupProgressLanguage): GroupedMergeReportItem[] {
+  return BACKUP_PROGRESS_GROUPS.map((group) => {
+    const counts = group.tableNames
+      .map((name) => report.tables[name as MergeTableName])
+      .filter(Boolean);
+
+    return {
+      key: group.key,
+      label: getBackupProgressGroupLabel(group, language),
+      added: counts.reduce((sum, table) => sum + table.added, 0),
+      skipped: counts.reduce((sum, table) => sum + table.skipped, 0),
+      conflicting: counts.reduce((sum, table) => sum + table.conflicting, 0),
+    };
+  }).filter((item) => item.added + item.skipped + item.conflicting > 0);
+}
+
 export function collapseGroupedProgressStatus(statuses: BackupProgressStatus[]): BackupProgressStatus {
   if (statuses.length === 0) return 'pending';
   if (statuses.every((status) => status === 'done')) return 'done';
@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import {
+  AUTO_BACKUP_STATUS_EVENT,
+  getAutoBackupSettings,
+  getAutoBackupStatus,
+  AutoBackupStatus,
+} from '@/lib/autoBackup';
+
+interface AutoBackupInfo {
+  enabled: boolean;
+  status: AutoBackupStatus;
+  hasProblem: boolean; // Last run failed, folder access lost, or a stored archive is damaged
+}
+
+function readInfo(): AutoBackupInfo {
+  const status = getAutoBackupStatus();
+  return {
+    enabled: getAutoBackupSettings().enabled,
+    status,
+    hasProblem: Boolean(status.lastError || status.folderPermissionNeeded || status.damagedArchives.length > 0),
+  };
+}
+
+export function useAutoBackupStatus(): AutoBackupInfo {
+  const [info, setInfo] = useState<AutoBackupInfo>(readInfo);
+
+  useEffect(() => {
+    const handleChange = () => setInfo(readInfo());
+    window.addEventListener(AUTO_BACKUP_STATUS_EVENT, handleChange);
+    return () => window.removeEventListener(AUTO_BACKUP_STATUS_EVENT, handleChange);
+  }, []);
+
+  return info;
+}
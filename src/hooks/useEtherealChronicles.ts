@@ -2,9 +2,28 @@ import { useState, useCallback, useEffect, useRef } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { etherealDb, EtherealChronicle } from '@/lib/etherealDb';
 import { getEtherealSession } from '@/lib/etherealTokenService';
+import {
+  submitEtherealMutation,
+  createLocalId,
+  isLocalId,
+  getQueuedRecordIds,
+} from '@/lib/etherealOutbox';
 
 const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
 
+// Past state of a chronicle, as listed by GET /:id/revisions (newest first)
+export interface EtherealChronicleRevision {
+  id: string;
+  title: string;
+  content: string;
+  authorId: string;
+  authorName: string;
+  savedAtMs: number;        // when this state was written
+  replacedById: string;
+  replacedByName: string;
+  replacedAtMs: number;     // when a later edit replaced it
+}
+
 interface UseEtherealChroniclesResult {
   chronicles: EtherealChronicle[];
   loading: boolean;
@@ -16,6 +35,7 @@ interface UseEtherealChroniclesResult {
   lockChronicle: (serverId: string) => Promise<{ locked: boolean; expiresAt?: number; lockedByName?: string } | null>;
   unlockChronicle: (serverId: string) => Promise<boolean>;
   getChronicle: (serverId: string) => Promise<EtherealChronicle | null>;
+  getRevisions: (serverId: string) => Promise<EtherealChronicleRevision[] | null>;
 }
 
 export function useEtherealChronicles(): UseEtherealChroniclesResult {
@@ -75,12 +95,15 @@ export function useEtherealChronicles(): UseEtherealChroniclesResult {
 
       const { chronicles: serverChronicles } = await res.json();
 
-      // Upsert to local DB
+      // Upsert to local DB, keeping local versions that still have queued changes
       if (serverChronicles && serverChronicles.length > 0) {
-        const toUpsert: EtherealChronicle[] = serverChronicles.map((c: EtherealChronicle) => ({
-          ...c,
-          syncStatus: 'synced' as const,
-        }));
+        const queued = await getQueuedRecordIds(roomId, 'ethereal_chronicles');
+        const toUpsert: EtherealChronicle[] = serverChronicles
+          .filter((c: EtherealChronicle) => !queued.has(c.serverId))
+          .map((c: EtherealChronicle) => ({
+            ...c,
+            syncStatus: 'synced' as const,
+          }));
         await etherealDb.chronicles.bulkPut(toUpsert);
       }
     } catch (err) {
@@ -102,72 +125,95 @@ export function useEtherealChronicles(): UseEtherealChroniclesResult {
     }
   }, [roomId, refresh]);
 
+  // Create and update go through the outbox: when the request cannot get
+  // through, the local copy is kept as 'pending' and replayed later
   const createChronicle = useCallback(
     async (title: string, content: string, tags: string[] = []): Promise<EtherealChronicle | null> => {
-      try {
-        const res = await fetch(`${FUNCTIONS_URL}/ethereal_chronicles`, {
+      const session = getEtherealSession();
+      if (!session) return null;
+
+      const now = Date.now();
+      const placeholder: EtherealChronicle = {
+        serverId: createLocalId(),
+        roomId: session.roomId,
+        authorId: session.memberId,
+        authorName: session.displayName,
+        title,
+        content,
+        tags,
+        pinned: false,
+        media: [],
+        createdAtMs: now,
+        updatedAtMs: now,
+        syncStatus: 'pending',
+      };
+
+      const result = await submitEtherealMutation(
+        {
+          kind: 'chronicle_create',
+          fn: 'ethereal_chronicles',
           method: 'POST',
-          headers: getHeaders(),
-          body: JSON.stringify({ title, content, tags }),
-        });
-
-        if (!res.ok) {
-          const data = await res.json();
-          throw new Error(data.error || 'Failed to create chronicle');
-        }
-
-        const { chronicle } = await res.json();
-        
-        // Save to local DB
-        await etherealDb.chronicles.put({
-          ...chronicle,
-          syncStatus: 'synced',
-        });
-
-        return chronicle;
-      } catch (err) {
-        console.error('[useEtherealChronicles] create error:', err);
-        setError(err instanceof Error ? err.message : 'Unknown error');
+          localId: placeholder.serverId,
+          body: { title, content, tags },
+          label: title,
+        },
+        { onQueued: async () => { await etherealDb.chronicles.put(placeholder); } }
+      );
+
+      if (result.status === 'queued') return placeholder;
+      if (result.status !== 'sent') {
+        console.error('[useEtherealChronicles] create error:', result);
+        setError(result.status === 'rejected' ? result.error : 'session_expired');
         return null;
       }
+
+      const chronicle: EtherealChronicle = { ...result.data.chronicle, syncStatus: 'synced' };
+      await etherealDb.chronicles.put(chronicle);
+      return chronicle;
     },
-    [getHeaders]
+    []
   );
 
   const updateChronicle = useCallback(
     async (serverId: string, data: { title?: string; content?: string; tags?: string[] }): Promise<EtherealChronicle | null> => {
-      try {
-        const res = await fetch(`${FUNCTIONS_URL}/ethereal_chronicles/${serverId}`, {
+      const current = await etherealDb.chronicles.get(serverId);
+      const optimistic: EtherealChronicle | null = current
+        ? { ...current, ...data, updatedAtMs: Date.now(), syncStatus: 'pending' }
+        : null;
+
+      const result = await submitEtherealMutation(
+        {
+          kind: 'chronicle_update',
+          fn: 'ethereal_chronicles',
           method: 'PUT',
-          headers: getHeaders(),
-          body: JSON.stringify(data),
-        });
-
-        if (!res.ok) {
-          const resData = await res.json();
-          throw new Error(resData.error || 'Failed to update chronicle');
-        }
-
-        const { chronicle } = await res.json();
-        
-        // Update local DB
-        await etherealDb.chronicles.put({
-          ...chronicle,
-          syncStatus: 'synced',
-        });
-
-        return chronicle;
-      } catch (err) {
-        console.error('[useEtherealChronicles] update error:', err);
-        setError(err instanceof Error ? err.message : 'Unknown error');
+          targetId: serverId,
+          body: { ...data },
+          label: data.title ?? current?.title ?? '',
+        },
+        { onQueued: async () => { if (optimistic) await etherealDb.chronicles.put(optimistic); } }
+      );
+
+      if (result.status === 'queued') return optimistic;
+      if (result.status !== 'sent') {
+        console.error('[useEtherealChronicles] update error:', result);
+        setError(result.status === 'rejected' ? result.error : 'session_expired');
         return null;
       }
+
+      const chronicle: EtherealChronicle = { ...result.data.chronicle, syncStatus: 'synced' };
+      await etherealDb.chronicles.put(chronicle);
+      return chronicle;
     },
-    [getHeaders]
+    []
   );
 
   const togglePin = useCallback(
     async (serverId: string): Promise<boolean> => {
+      // Not on the server yet; pinning waits until the create is synced
+      if (isLocalId(serverId)) {
+        return (await etherealDb.chronicles.get(serverId))?.pinned ?? false;
+      }
+
       try {
         const res = await fetch(`${FUNCTIONS_URL}/ethereal_chronicles/${serverId}/pin`, {
           method: 'POST',
@@ -196,6 +242,9 @@ export function useEtherealChronicles(): UseEtherealChroniclesResult {
 
   const lockChronicle = useCallback(
     async (serverId: string): Promise<{ locked: boolean; expiresAt?: number; lockedByName?: string } | null> => {
+      // Nobody else can see an unsynced entry, so there is nothing to lock
+      if (isLocalId(serverId)) return { locked: true };
+
       try {
         const res = await fetch(`${FUNCTIONS_URL}/ethereal_chronicles/${serverId}/lock`, {
           method: 'POST',
@@ -229,6 +278,8 @@ export function useEtherealChronicles(): UseEtherealChroniclesResult {
 
   const unlockChronicle = useCallback(
     async (serverId: string): Promise<boolean> => {
+      if (isLocalId(serverId)) return true;
+
       try {
         const res = await fetch(`${FUNCTIONS_URL}/ethereal_chronicles/${serverId}/unlock`, {
           method: 'POST',
@@ -251,6 +302,12 @@ export function useEtherealChronicles(): UseEtherealChroniclesResult {
 
   const getChronicle = useCallback(
     async (serverId: string): Promise<EtherealChronicle | null> => {
+      // Unsynced local edits win over the server copy
+      const queued = roomId ? await getQueuedRecordIds(roomId, 'ethereal_chronicles') : new Set<string>();
+      if (isLocalId(serverId) || queued.has(serverId)) {
+        return (await etherealDb.chronicles.get(serverId)) ?? null;
+      }
+
       try {
         const res = await fetch(`${FUNCTIONS_URL}/ethereal_chronicles/${serverId}`, {
           headers: getHeaders(),
@@ -275,6 +332,30 @@ export function useEtherealChronicles(): UseEtherealChroniclesResult {
         return null;
       }
     },
+    [roomId, getHeaders]
+  );
+
+  const getRevisions = useCallback(
+    async (serverId: string): Promise<EtherealChronicleRevision[] | null> => {
+      if (isLocalId(serverId)) return [];
+
+      try {
+        const res = await fetch(`${FUNCTIONS_URL}/ethereal_chronicles/${serverId}/revisions`, {
+          headers: getHeaders(),
+        });
+
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || 'Failed to fetch revisions');
+        }
+
+        const { revisions } = await res.json();
+        return revisions || [];
+      } catch (err) {
+        console.error('[useEtherealChronicles] getRevisions error:', err);
+        return null;
+      }
+    },
     [getHeaders]
   );
 
@@ -289,5 +370,6 @@ export function useEtherealChronicles(): UseEtherealChroniclesResult {
     lockChronicle,
     unlockChronicle,
     getChronicle,
+    getRevisions,
   };
 }
@@ -0,0 +1,332 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  getEtherealSession,
+  getEtherealApiHeaders,
+  clearEtherealSession,
+} from '@/lib/etherealTokenService';
+import {
+  etherealDb,
+  type EtherealEvent,
+  type EtherealRecurrence,
+  type EtherealTask,
+} from '@/lib/etherealDb';
+import { isInEventWindow } from '@/lib/etherealCalendar';
+import { supabase } from '@/integrations/supabase/client';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+export interface EventInput {
+  title: string;
+  description?: string;
+  startAt: string;
+  endAt?: string | null;
+  allDay: boolean;
+  recurrence: EtherealRecurrence;
+  recurrenceUntil?: string | null;
+}
+
+// Event as sent by the edge function and in broadcasts
+type ServerEvent = Omit<EtherealEvent, 'description' | 'endAtMs' | 'recurrenceUntilMs' | 'syncStatus'> & {
+  description?: string | null;
+  endAtMs?: number | null;
+  recurrenceUntilMs?: number | null;
+};
+
+// Server sends nulls for empty optional fields; Dexie records use undefined
+function toLocalEvent(e: ServerEvent): EtherealEvent {
+  return {
+    ...e,
+    description: e.description ?? undefined,
+    endAtMs: e.endAtMs ?? undefined,
+    recurrence: e.recurrence || 'none',
+    recurrenceUntilMs: e.recurrenceUntilMs ?? undefined,
+    syncStatus: 'synced',
+  };
+}
+
+function upsertBy<T extends { serverId: string }>(list: T[], item: T): T[] {
+  return [...list.filter((x) => x.serverId !== item.serverId), item];
+}
+
+function expireSession() {
+  clearEtherealSession();
+  window.dispatchEvent(new CustomEvent('ethereal-session-expired'));
+}
+
+/**
+ * Room calendar: shared events plus tasks that have a due date.
+ *
+ * Events are fetched for the visible window [fromMs, toMs] (recurring series that reach
+ * into it included) and merged into the local copy, which keeps earlier windows.
+ *
+ * Tasks are loaded and kept live here as well (rather than via useEtherealTasks)
+ * because both would subscribe to the same room channel, and removing it in one
+ * hook would unsubscribe the other.
+ */
+export function useEtherealEvents(fromMs: number, toMs: number) {
+  const [events, setEvents] = useState<EtherealEvent[]>([]);
+  const [tasks, setTasks] = useState<EtherealTask[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const seenEventsRef = useRef(new Set<string>());
+  const session = getEtherealSession();
+
+  // Load events and dated tasks from server
+  const loadCalendar = useCallback(async () => {
+    const currentSession = getEtherealSession();
+    if (!currentSession) return;
+
+    try {
+      const [eventsResponse, tasksResponse] = await Promise.all([
+        fetch(`${SUPABASE_URL}/functions/v1/ethereal_events?${new URLSearchParams({
+          from: new Date(fromMs).toISOString(),
+          to: new Date(toMs).toISOString(),
+          limit: '1000',
+        })}`, {
+          headers: getEtherealApiHeaders(),
+        }),
+        fetch(`${SUPABASE_URL}/functions/v1/ethereal_tasks?includeDone=true&limit=200`, {
+          headers: getEtherealApiHeaders(),
+        }),
+      ]);
+
+      if ([eventsResponse, tasksResponse].some((r) => r.status === 401 || r.status === 403)) {
+        expireSession();
+        return;
+      }
+
+      const [eventsData, tasksData] = await Promise.all([eventsResponse.json(), tasksResponse.json()]);
+
+      if (eventsData.success && Array.isArray(eventsData.events)) {
+        const loaded: EtherealEvent[] = eventsData.events.map(toLocalEvent);
+
+        // Replace the window's events so deletions made while away disappear
+        const roomEvents = await etherealDb.transaction('rw', etherealDb.events, async () => {
+          const stale = await etherealDb.events
+            .where('roomId').equals(currentSession.roomId)
+            .filter((event) => isInEventWindow(event, fromMs, toMs))
+            .primaryKeys();
+          await etherealDb.events.bulkDelete(stale);
+          await etherealDb.events.bulkPut(loaded);
+          return etherealDb.events.where('roomId').equals(currentSession.roomId).toArray();
+        });
+        setEvents(roomEvents);
+        setError(null);
+      } else {
+        setError('Не удалось загрузить календарь');
+      }
+
+      if (tasksData.success && Array.isArray(tasksData.tasks)) {
+        const loaded: EtherealTask[] = tasksData.tasks.map((t: Omit<EtherealTask, 'syncStatus'>) => ({
+          ...t,
+          syncStatus: 'synced' as const,
+        }));
+        await etherealDb.tasks.bulkPut(loaded);
+        setTasks(loaded);
+      }
+    } catch (e) {
+      console.error('[useEtherealEvents] loadCalendar error:', e);
+      setError('Не удалось загрузить календарь');
+
+      // Fall back to the local copy
+      const cachedEvents = await etherealDb.events.where('roomId').equals(currentSession.roomId).toArray();
+      const cachedTasks = await etherealDb.tasks.where('roomId').equals(currentSession.roomId).toArray();
+      setEvents(cachedEvents);
+      setTasks(cachedTasks);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fromMs, toMs]);
+
+  // Initial load
+  useEffect(() => {
+    if (!session?.channelKey) return;
+    loadCalendar();
+  }, [session?.channelKey, loadCalendar]);
+
+  // Subscribe to broadcast events (using same channel as messages)
+  useEffect(() => {
+    if (!session?.channelKey) return;
+
+    const channel = supabase.channel(`ethereal:${session.channelKey}`);
+    channelRef.current = channel;
+
+    const isDuplicate = (kind: string, payload: { serverId: string; updatedAtMs: number }) => {
+      const eventKey = `${kind}-${payload.serverId}-${payload.updatedAtMs}`;
+      if (seenEventsRef.current.has(eventKey)) return true;
+      if (seenEventsRef.current.size > 500) {
+        seenEventsRef.current.clear();
+      }
+      seenEventsRef.current.add(eventKey);
+      return false;
+    };
+
+    channel
+      .on('broadcast', { event: 'event_upsert' }, async ({ payload }) => {
+        if (!payload?.serverId || isDuplicate('event', payload)) return;
+
+        console.log('[Calendar] broadcast:event_upsert', payload.serverId);
+
+        const event = toLocalEvent(payload);
+        setEvents((prev) => upsertBy(prev, event));
+        await etherealDb.events.put(event);
+      })
+      .on('broadcast', { event: 'event_delete' }, async ({ payload }) => {
+        if (!payload?.eventId) return;
+
+        console.log('[Calendar] broadcast:event_delete', payload.eventId);
+
+        setEvents((prev) => prev.filter((e) => e.serverId !== payload.eventId));
+        await etherealDb.events.delete(payload.eventId);
+      })
+      .on('broadcast', { event: 'task_upsert' }, async ({ payload }) => {
+        if (!payload?.serverId || isDuplicate('task', payload)) return;
+
+        const task: EtherealTask = { ...payload, syncStatus: 'synced' };
+        setTasks((prev) => upsertBy(prev, task));
+        await etherealDb.tasks.put(task);
+      })
+      .on('broadcast', { event: 'task_delete' }, async ({ payload }) => {
+        if (!payload?.taskId) return;
+
+        setTasks((prev) => prev.filter((t) => t.serverId !== payload.taskId));
+        await etherealDb.tasks.delete(payload.taskId);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+      channelRef.current = null;
+    };
+  }, [session?.channelKey]);
+
+  // Create or update an event (edits apply to the whole series)
+  const saveEvent = useCallback(async (input: EventInput, eventId?: string) => {
+    const currentSession = getEtherealSession();
+    if (!currentSession) return { success: false, error: 'no_session' };
+
+    try {
+      const response = await fetch(
+        `${SUPABASE_URL}/functions/v1/ethereal_events${eventId ? `/${eventId}` : ''}`,
+        {
+          method: eventId ? 'PUT' : 'POST',
+          headers: getEtherealApiHeaders(),
+          body: JSON.stringify(input),
+        }
+      );
+
+      if (response.status === 401 || response.status === 403) {
+        expireSession();
+        return { success: false, error: 'session_expired' };
+      }
+
+      const data = await response.json();
+      if (!data.success) return { success: false, error: data.error };
+
+      const event = toLocalEvent(data.event);
+
+      // Update UI
+      setEvents((prev) => upsertBy(prev, event));
+
+      // Persist
+      await etherealDb.events.put(event);
+
+      // Broadcast to others
+      channelRef.current?.send({
+        type: 'broadcast',
+        event: 'event_upsert',
+        payload: event,
+      });
+
+      return { success: true, event };
+    } catch (e) {
+      console.error('[useEtherealEvents] saveEvent error:', e);
+      return { success: false, error: 'network_error' };
+    }
+  }, []);
+
+  // Delete event (whole series)
+  const deleteEvent = useCallback(async (eventId: string) => {
+    const currentSession = getEtherealSession();
+    if (!currentSession) return { success: false, error: 'no_session' };
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/ethereal_events/${eventId}`, {
+        method: 'DELETE',
+        headers: getEtherealApiHeaders(),
+      });
+
+      if (response.status === 401 || response.status === 403) {
+        expireSession();
+        return { success: false, error: 'session_expired' };
+      }
+
+      const data = await response.json();
+      if (!data.success) return { success: false, error: data.error };
+
+      setEvents((prev) => prev.filter((e) => e.serverId !== eventId));
+      await etherealDb.events.delete(eventId);
+
+      channelRef.current?.send({
+        type: 'broadcast',
+        event: 'event_delete',
+        payload: { eventId },
+      });
+
+      return { success: true };
+    } catch (e) {
+      console.error('[useEtherealEvents] deleteEvent error:', e);
+      return { success: false, error: 'network_error' };
+    }
+  }, []);
+
+  // Toggle a task from the calendar (done <-> todo)
+  const toggleTask = useCallback(async (taskId: string) => {
+    const currentSession = getEtherealSession();
+    if (!currentSession) return { success: false, error: 'no_session' };
+
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/ethereal_tasks/${taskId}/toggle`, {
+        method: 'POST',
+        headers: getEtherealApiHeaders(),
+      });
+
+      if (response.status === 401 || response.status === 403) {
+        expireSession();
+        return { success: false, error: 'session_expired' };
+      }
+
+      const data = await response.json();
+      if (!data.success) return { success: false, error: data.error };
+
+      const task: EtherealTask = { ...data.task, syncStatus: 'synced' };
+      setTasks((prev) => upsertBy(prev, task));
+      await etherealDb.tasks.put(task);
+
+      channelRef.current?.send({
+        type: 'broadcast',
+        event: 'task_upsert',
+        payload: task,
+      });
+
+      return { success: true, task };
+    } catch (e) {
+      console.error('[useEtherealEvents] toggleTask error:', e);
+      return { success: false, error: 'network_error' };
+    }
+  }, []);
+
+  return {
+    events,
+    tasks,
+    isLoading,
+    error,
+    saveEvent,
+    deleteEvent,
+    toggleTask,
+    refresh: loadCalendar,
+  };
+}
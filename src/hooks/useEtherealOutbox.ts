@@ -0,0 +1,58 @@
+import { useEffect, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { etherealDb, type EtherealOutboxItem } from '@/lib/etherealDb';
+import { getEtherealSession } from '@/lib/etherealTokenService';
+import {
+  flushEtherealOutbox,
+  retryOutboxItem,
+  discardOutboxItem,
+} from '@/lib/etherealOutbox';
+
+// Retry interval for items held back by server errors
+const RETRY_INTERVAL_MS = 30_000;
+
+/**
+ * Queued mutations of one edge function for the current room, with controls.
+ * Also drives replays: on mount, when the browser comes back online and
+ * periodically while something is still pending.
+ */
+export function useEtherealOutbox(fn: EtherealOutboxItem['fn']) {
+  const roomId = getEtherealSession()?.roomId;
+
+  const items = useLiveQuery(
+    async () => {
+      if (!roomId) return [];
+      const all = await etherealDb.outbox.where('roomId').equals(roomId).sortBy('id');
+      return all.filter((item) => item.fn === fn);
+    },
+    [roomId, fn],
+    [] as EtherealOutboxItem[]
+  );
+
+  useEffect(() => {
+    flushEtherealOutbox();
+
+    const handleOnline = () => flushEtherealOutbox();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  const hasPending = items.some((item) => item.status === 'pending');
+
+  useEffect(() => {
+    if (!hasPending) return;
+
+    const intervalId = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        flushEtherealOutbox();
+      }
+    }, RETRY_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [hasPending]);
+
+  const retry = useCallback((id: number) => retryOutboxItem(id), []);
+  const discard = useCallback((id: number) => discardOutboxItem(id), []);
+
+  return { items, retry, discard };
+}
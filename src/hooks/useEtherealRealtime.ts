@@ -9,11 +9,73 @@ import {
 import {
   etherealDb,
   mergeMessages,
+  patchMessage,
   stableMsgSort,
   type EtherealMessage,
+  type EtherealReplyPreview,
+  type MessagePatch,
+  type ServerMessage,
 } from '@/lib/etherealDb';
+import {
+  submitEtherealMutation,
+  flushEtherealOutbox,
+  createLocalId,
+  OUTBOX_SYNCED_EVENT,
+  OUTBOX_DISCARDED_EVENT,
+  type OutboxSyncedDetail,
+  type OutboxDiscardedDetail,
+} from '@/lib/etherealOutbox';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const HISTORY_PAGE_SIZE = 50;
+
+// Oldest message the server has returned this session, in stableMsgSort order
+interface HistoryCursor {
+  createdAtMs: number;
+  serverId: string;
+}
+
+function compareCursor(a: HistoryCursor, b: HistoryCursor): number {
+  return a.createdAtMs - b.createdAtMs || a.serverId.localeCompare(b.serverId);
+}
+
+// The oldest (direction -1) or newest (direction 1) of the cursor and the page
+function edgeCursor(cursor: HistoryCursor | null, page: ServerMessage[], direction: 1 | -1): HistoryCursor | null {
+  let edge = cursor;
+  for (const m of page) {
+    const candidate = { createdAtMs: m.createdAtMs, serverId: m.serverId };
+    if (!edge || compareCursor(candidate, edge) * direction > 0) edge = candidate;
+  }
+  return edge;
+}
+
+function olderCursor(cursor: HistoryCursor | null, page: ServerMessage[]): HistoryCursor | null {
+  return edgeCursor(cursor, page, -1);
+}
+
+// Realtime events for changes to existing messages, each carrying a MessagePatch
+type PatchEvent = 'message_edit' | 'message_delete' | 'message_reactions';
+
+function toReplyPreview(msg: EtherealMessage): EtherealReplyPreview {
+  return {
+    serverId: msg.serverId,
+    senderName: msg.senderName,
+    content: msg.content.slice(0, 120),
+    hasImage: !!msg.imagePath,
+    deleted: !!msg.deletedAtMs,
+  };
+}
+
+// Put a patched message into the list; a delete also updates replies quoting it
+function applyToList(list: EtherealMessage[], updated: EtherealMessage): EtherealMessage[] {
+  return list.map((m) => {
+    if (m.serverId === updated.serverId) return { ...updated, imageUrl: updated.imageUrl ?? m.imageUrl };
+    if (updated.deletedAtMs && m.replyToId === updated.serverId && m.replyPreview) {
+      return { ...m, replyPreview: { ...m.replyPreview, content: '', hasImage: false, deleted: true } };
+    }
+    return m;
+  });
+}
 
 interface PresenceMember {
   memberId: string;
@@ -26,14 +88,29 @@ export function useEtherealRealtime() {
   const [onlineMembers, setOnlineMembers] = useState<PresenceMember[]>([]);
   const [typingMembers, setTypingMembers] = useState<string[]>([]);
   const [isConnected, setIsConnected] = useState(false);
+  const [hasOlder, setHasOlder] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
 
   const channelRef = useRef<RealtimeChannel | null>(null);
   const lastTypingSentRef = useRef<number>(0);
   const historyInFlightRef = useRef(false);
+  const olderInFlightRef = useRef(false);
+  // Pages go back from what the server actually returned, not from the oldest cached
+  // message: the cache may have gaps (e.g. after a long time offline)
+  const cursorRef = useRef<HistoryCursor | null>(null);
+  // Newest message of that contiguous run of server pages
+  const runNewestRef = useRef<HistoryCursor | null>(null);
   const seenBroadcastRef = useRef(new Set<string>());
+  // Local previews for images of messages still in the outbox
+  const previewUrlsRef = useRef(new Map<string, string>());
 
   const session = getEtherealSession();
 
+  const withPreview = useCallback((msg: EtherealMessage): EtherealMessage => {
+    const preview = previewUrlsRef.current.get(msg.serverId);
+    return preview ? { ...msg, imageUrl: preview } : msg;
+  }, []);
+
   // Load history with guard against parallel calls
   const loadHistory = useCallback(async () => {
     const currentSession = getEtherealSession();
@@ -46,7 +123,7 @@ export function useEtherealRealtime() {
     try {
       console.log('[RT] history:start');
       const response = await fetch(
-        `${SUPABASE_URL}/functions/v1/ethereal_messages?limit=50`,
+        `${SUPABASE_URL}/functions/v1/ethereal_messages?limit=${HISTORY_PAGE_SIZE}`,
         { headers: getEtherealApiHeaders() }
       );
 
@@ -59,22 +136,105 @@ export function useEtherealRealtime() {
       const data = await response.json();
       if (data.success && Array.isArray(data.messages)) {
         console.log('[RT] history:end', { count: data.messages.length });
+        // After a long time offline the newest page may not reach back to what was loaded
+        // before; then older pages continue from this page, across the gap
+        const pageOldest = olderCursor(null, data.messages);
+        const runNewest = runNewestRef.current;
+        if (pageOldest && runNewest && compareCursor(pageOldest, runNewest) > 0) {
+          cursorRef.current = pageOldest;
+          setHasOlder(true);
+        } else {
+          cursorRef.current = olderCursor(cursorRef.current, data.messages);
+        }
+        runNewestRef.current = edgeCursor(runNewestRef.current, data.messages, 1);
+        if (data.hasMore === false) setHasOlder(false);
         const merged = await mergeMessages(currentSession.roomId, data.messages);
-        setMessages(merged);
+        setMessages(merged.map(withPreview));
       }
     } catch (error) {
       // Silent fail - masked error
     } finally {
       historyInFlightRef.current = false;
     }
-  }, []);
+  }, [withPreview]);
+
+  // Fetch the page before the oldest message seen so far. Returns the merged list,
+  // or null when nothing was loaded.
+  const loadOlder = useCallback(async (): Promise<EtherealMessage[] | null> => {
+    const currentSession = getEtherealSession();
+    const cursor = cursorRef.current;
+    if (!currentSession || !cursor || olderInFlightRef.current) return null;
+
+    olderInFlightRef.current = true;
+    setIsLoadingOlder(true);
+
+    try {
+      const before = encodeURIComponent(`${cursor.createdAtMs},${cursor.serverId}`);
+      const response = await fetch(
+        `${SUPABASE_URL}/functions/v1/ethereal_messages?limit=${HISTORY_PAGE_SIZE}&before=${before}`,
+        { headers: getEtherealApiHeaders() }
+      );
+
+      if (response.status === 401 || response.status === 403) {
+        clearEtherealSession();
+        window.dispatchEvent(new CustomEvent('ethereal-session-expired'));
+        return null;
+      }
+
+      const data = await response.json();
+      if (!data.success || !Array.isArray(data.messages)) return null;
+
+      console.log('[RT] history:older', { count: data.messages.length, hasMore: data.hasMore });
+      cursorRef.current = olderCursor(cursor, data.messages);
+      if (data.hasMore === false || data.messages.length === 0) setHasOlder(false);
+      if (data.messages.length === 0) return null;
+
+      const merged = (await mergeMessages(currentSession.roomId, data.messages)).map(withPreview);
+      setMessages(merged);
+      return merged;
+    } catch (error) {
+      console.error('[RT] history:older error:', error);
+      return null;
+    } finally {
+      olderInFlightRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [withPreview]);
+
+  // Page back until a message (e.g. a quoted one) is loaded; gives up after maxPages
+  const loadOlderUntil = useCallback(
+    async (serverId: string, maxPages = 10): Promise<boolean> => {
+      for (let page = 0; page < maxPages; page++) {
+        const merged = await loadOlder();
+        if (!merged) return false;
+        if (merged.some((m) => m.serverId === serverId)) return true;
+      }
+      return false;
+    },
+    [loadOlder]
+  );
 
   // Initial load when session changes
   useEffect(() => {
     if (!session?.channelKey) return;
+    cursorRef.current = null;
+    runNewestRef.current = null;
+    setHasOlder(true);
     loadHistory();
   }, [session?.channelKey, loadHistory]);
 
+  // Edits, deletes and reaction changes (own or broadcast); stale patches are dropped
+  const applyPatch = useCallback(async (payload: (MessagePatch & { serverId: string }) | undefined) => {
+    if (!payload?.serverId || !payload.updatedAtMs) return null;
+    const { serverId, ...patch } = payload;
+
+    const updated = await patchMessage(serverId, patch);
+    if (updated) {
+      setMessages((prev) => applyToList(prev, withPreview(updated)));
+    }
+    return updated;
+  }, [withPreview]);
+
   // Main channel subscription
   useEffect(() => {
     if (!session?.channelKey) return;
@@ -102,6 +262,10 @@ export function useEtherealRealtime() {
           syncStatus: 'synced',
           imagePath: payload.imagePath,
           imageUrl: payload.imageUrl,
+          replyToId: payload.replyToId,
+          replyPreview: payload.replyPreview,
+          reactions: [],
+          updatedAtMs: payload.updatedAtMs ?? payload.createdAtMs,
         };
 
         // 1) Update UI (pure computation only)
@@ -118,6 +282,9 @@ export function useEtherealRealtime() {
           seenBroadcastRef.current.clear();
         }
       })
+      .on('broadcast', { event: 'message_edit' }, ({ payload }) => applyPatch(payload))
+      .on('broadcast', { event: 'message_delete' }, ({ payload }) => applyPatch(payload))
+      .on('broadcast', { event: 'message_reactions' }, ({ payload }) => applyPatch(payload))
       .on('broadcast', { event: 'member_kicked' }, ({ payload }) => {
         if (payload?.targetMemberId === session.memberId) {
           clearEtherealSession();
@@ -152,8 +319,9 @@ export function useEtherealRealtime() {
         if (status === 'SUBSCRIBED') {
           console.log('[RT] connected + reconcile');
           setIsConnected(true);
-          // Reconcile on every reconnect
+          // Reconcile on every reconnect, then replay what was sent meanwhile
           await loadHistory();
+          flushEtherealOutbox();
           await channel.track({
             memberId: session.memberId,
             displayName: session.displayName,
@@ -169,7 +337,7 @@ export function useEtherealRealtime() {
       channelRef.current = null;
       setIsConnected(false);
     };
-  }, [session?.channelKey, session?.memberId, session?.displayName, session?.roomId, loadHistory]);
+  }, [session?.channelKey, session?.memberId, session?.displayName, session?.roomId, loadHistory, applyPatch]);
 
   // Smart periodic reconcile (only when visible, saves battery on Android)
   useEffect(() => {
@@ -202,9 +370,31 @@ export function useEtherealRealtime() {
     });
   }, []);
 
-  // Send message with instant UI update (supports optional image)
+  const broadcastMessage = useCallback((msg: EtherealMessage) => {
+    // Include imagePath for durability
+    channelRef.current?.send({
+      type: 'broadcast',
+      event: 'message',
+      payload: {
+        serverId: msg.serverId,
+        senderId: msg.senderId,
+        senderName: msg.senderName,
+        content: msg.content,
+        createdAtMs: msg.createdAtMs,
+        imagePath: msg.imagePath,
+        imageUrl: msg.imageUrl,
+        replyToId: msg.replyToId,
+        replyPreview: msg.replyPreview,
+        updatedAtMs: msg.updatedAtMs,
+      },
+    });
+    console.log('[RT] broadcast:sent', { serverId: msg.serverId });
+  }, []);
+
+  // Send message with instant UI update (supports optional image and reply).
+  // Unsent messages stay in the outbox as 'pending' placeholders.
   const sendMessage = useCallback(
-    async (content: string, imageBlob?: Blob) => {
+    async (content: string, imageBlob?: Blob, replyTo?: EtherealMessage) => {
       const currentSession = getEtherealSession();
       if (!currentSession) return { success: false, error: 'no_session' };
 
@@ -213,79 +403,169 @@ export function useEtherealRealtime() {
         return { success: false, error: 'empty_message' };
       }
 
-      try {
-        // Prepare FormData for multipart upload
-        const formData = new FormData();
-        formData.append('content', content.trim() || '');
-        if (imageBlob) {
-          formData.append('image', imageBlob, 'photo.jpg');
+      const placeholder: EtherealMessage = {
+        serverId: createLocalId(),
+        roomId: currentSession.roomId,
+        senderId: currentSession.memberId,
+        senderName: currentSession.displayName,
+        content: content.trim() || '',
+        createdAtMs: Date.now(),
+        syncStatus: 'pending',
+        replyToId: replyTo?.serverId,
+        replyPreview: replyTo && toReplyPreview(replyTo),
+        reactions: [],
+      };
+
+      const result = await submitEtherealMutation(
+        {
+          kind: 'message_send',
+          fn: 'ethereal_messages',
+          method: 'POST',
+          localId: placeholder.serverId,
+          body: { content: placeholder.content, replyToId: placeholder.replyToId },
+          image: imageBlob,
+          label: placeholder.content,
+        },
+        {
+          onQueued: async () => {
+            // Object URLs die with the page, so only the UI copy gets one
+            await etherealDb.messages.put(placeholder);
+            if (imageBlob) {
+              previewUrlsRef.current.set(placeholder.serverId, URL.createObjectURL(imageBlob));
+            }
+            setMessages((prev) => [...prev, withPreview(placeholder)].sort(stableMsgSort));
+          },
         }
+      );
 
-        // Get headers without Content-Type (browser sets boundary automatically)
-        const headers = { ...getEtherealApiHeaders() };
-        delete (headers as any)['Content-Type'];
+      if (result.status === 'queued') return { success: true, queued: true };
+      if (result.status === 'session_expired') return { success: false, error: 'session_expired' };
+      if (result.status === 'rejected') return { success: false, error: result.error };
+
+      const data = result.data;
+      console.log('[RT] POST ok', { id: data.id, ts: data.createdAtMs, hasImage: !!data.imagePath });
+
+      // Build the new message
+      const newMsg: EtherealMessage = {
+        ...placeholder,
+        serverId: data.id,
+        createdAtMs: data.createdAtMs,
+        syncStatus: 'synced',
+        imagePath: data.imagePath || undefined,
+        imageUrl: data.imageUrl || undefined,
+        replyPreview: data.replyPreview || placeholder.replyPreview,
+        updatedAtMs: data.updatedAtMs ?? data.createdAtMs,
+      };
+
+      // 1) Instant UI update
+      setMessages((prev) => {
+        if (prev.some((m) => m.serverId === newMsg.serverId)) return prev;
+        return [...prev, newMsg].sort(stableMsgSort);
+      });
 
-        const response = await fetch(`${SUPABASE_URL}/functions/v1/ethereal_messages`, {
-          method: 'POST',
-          headers,
-          body: formData,
+      // 2) Persist to Dexie
+      await etherealDb.messages.put(newMsg);
+
+      // 3) Broadcast to others
+      broadcastMessage(newMsg);
+
+      return { success: true };
+    },
+    [withPreview, broadcastMessage]
+  );
+
+  // Replayed messages replace their placeholders and go out to the room
+  useEffect(() => {
+    const dropPreview = (localId?: string) => {
+      const url = localId && previewUrlsRef.current.get(localId);
+      if (url) {
+        URL.revokeObjectURL(url);
+        previewUrlsRef.current.delete(localId);
+      }
+    };
+
+    const handleSynced = (e: Event) => {
+      const { item, record } = (e as CustomEvent<OutboxSyncedDetail>).detail;
+      if (item.fn !== 'ethereal_messages' || !record) return;
+
+      const msg = record as EtherealMessage;
+      seenBroadcastRef.current.add(msg.serverId);
+      setMessages((prev) =>
+        [...prev.filter((m) => m.serverId !== item.localId && m.serverId !== msg.serverId), msg].sort(stableMsgSort)
+      );
+      dropPreview(item.localId);
+      broadcastMessage(msg);
+    };
+
+    const handleDiscarded = (e: Event) => {
+      const { item } = (e as CustomEvent<OutboxDiscardedDetail>).detail;
+      if (item.fn !== 'ethereal_messages') return;
+
+      setMessages((prev) => prev.filter((m) => m.serverId !== item.localId));
+      dropPreview(item.localId);
+    };
+
+    window.addEventListener(OUTBOX_SYNCED_EVENT, handleSynced);
+    window.addEventListener(OUTBOX_DISCARDED_EVENT, handleDiscarded);
+    return () => {
+      window.removeEventListener(OUTBOX_SYNCED_EVENT, handleSynced);
+      window.removeEventListener(OUTBOX_DISCARDED_EVENT, handleDiscarded);
+    };
+  }, [broadcastMessage]);
+
+  // Edit / delete / react: applied locally from the server response, then broadcast
+  const changeMessage = useCallback(
+    async (event: PatchEvent, path: string, method: string, body?: object) => {
+      const currentSession = getEtherealSession();
+      if (!currentSession) return { success: false, error: 'no_session' };
+
+      try {
+        const response = await fetch(`${SUPABASE_URL}/functions/v1/ethereal_messages/${path}`, {
+          method,
+          headers: getEtherealApiHeaders(),
+          body: body ? JSON.stringify(body) : undefined,
         });
 
-        if (response.status === 401 || response.status === 403) {
+        // 403 here means "not your message", not a revoked session
+        if (response.status === 401) {
           clearEtherealSession();
           window.dispatchEvent(new CustomEvent('ethereal-session-expired'));
           return { success: false, error: 'session_expired' };
         }
 
         const data = await response.json();
-        if (!data.success) return data;
-        console.log('[RT] POST ok', { id: data.id, ts: data.createdAtMs, hasImage: !!data.imagePath });
-
-        // Build the new message
-        const newMsg: EtherealMessage = {
-          serverId: data.id,
-          roomId: currentSession.roomId,
-          senderId: currentSession.memberId,
-          senderName: currentSession.displayName,
-          content: content.trim() || '',
-          createdAtMs: data.createdAtMs,
-          syncStatus: 'synced',
-          imagePath: data.imagePath || undefined,
-          imageUrl: data.imageUrl || undefined,
-        };
-
-        // 1) Instant UI update
-        setMessages((prev) => {
-          if (prev.some((m) => m.serverId === newMsg.serverId)) return prev;
-          return [...prev, newMsg].sort(stableMsgSort);
-        });
-
-        // 2) Persist to Dexie
-        await etherealDb.messages.put(newMsg);
+        if (!data.success) return { success: false, error: data.error };
 
-        // 3) Broadcast to others (include imagePath for durability)
-        channelRef.current?.send({
-          type: 'broadcast',
-          event: 'message',
-          payload: {
-            serverId: newMsg.serverId,
-            senderId: newMsg.senderId,
-            senderName: newMsg.senderName,
-            content: newMsg.content,
-            createdAtMs: newMsg.createdAtMs,
-            imagePath: newMsg.imagePath,
-            imageUrl: newMsg.imageUrl,
-          },
-        });
-        console.log('[RT] broadcast:sent', { serverId: newMsg.serverId });
+        const { success: _success, ...payload } = data;
+        await applyPatch(payload);
 
+        channelRef.current?.send({ type: 'broadcast', event, payload });
         return { success: true };
       } catch (error) {
-        // Could save as 'failed' for retry logic
+        console.error(`[RT] ${event} error:`, error);
         return { success: false, error: 'network_error' };
       }
     },
-    []
+    [applyPatch]
+  );
+
+  const editMessage = useCallback(
+    (serverId: string, content: string) =>
+      changeMessage('message_edit', serverId, 'PUT', { content: content.trim() }),
+    [changeMessage]
+  );
+
+  // Delete for everyone (sender only)
+  const deleteMessage = useCallback(
+    (serverId: string) => changeMessage('message_delete', serverId, 'DELETE'),
+    [changeMessage]
+  );
+
+  // Adds the emoji, or removes it if this member already reacted with it
+  const toggleReaction = useCallback(
+    (serverId: string, emoji: string) =>
+      changeMessage('message_reactions', `${serverId}/reactions`, 'POST', { emoji }),
+    [changeMessage]
   );
 
   // Broadcast kick event to force target member logout
@@ -303,8 +583,15 @@ export function useEtherealRealtime() {
     typingMembers,
     sendTyping,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     broadcastKick,
     refresh: loadHistory,
+    loadOlder,
+    loadOlderUntil,
+    hasOlder,
+    isLoadingOlder,
     isConnected,
   };
 }
@@ -5,6 +5,18 @@ import {
   clearEtherealSession,
 } from '@/lib/etherealTokenService';
 import { etherealDb, type EtherealTask } from '@/lib/etherealDb';
+import {
+  submitEtherealMutation,
+  discardOutboxItem,
+  createLocalId,
+  isLocalId,
+  getQueuedRecordIds,
+  OUTBOX_SYNCED_EVENT,
+  OUTBOX_DISCARDED_EVENT,
+  type OutboxSyncedDetail,
+  type OutboxDiscardedDetail,
+  type SubmitResult,
+} from '@/lib/etherealOutbox';
 import { supabase } from '@/integrations/supabase/client';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 
@@ -31,6 +43,37 @@ function sortTasks(tasks: EtherealTask[]): EtherealTask[] {
   });
 }
 
+// Optimistic copy of a task with the editor input applied
+function applyTaskInput(task: EtherealTask, input: Partial<TaskInput>): EtherealTask {
+  return {
+    ...task,
+    title: input.title ?? task.title,
+    description: input.description !== undefined ? input.description : task.description,
+    assigneeId: input.assigneeId !== undefined ? input.assigneeId || undefined : task.assigneeId,
+    priority: input.priority ?? task.priority,
+    dueAtMs: input.dueAt !== undefined ? (input.dueAt ? new Date(input.dueAt).getTime() : undefined) : task.dueAtMs,
+    updatedAtMs: Date.now(),
+  };
+}
+
+// Map an outbox submit result onto the hook's { success, error } shape
+async function toResult<T>(
+  result: SubmitResult<T>,
+  onSent: (data: T) => Promise<EtherealTask | undefined>,
+  queuedTask?: EtherealTask
+) {
+  switch (result.status) {
+    case 'sent':
+      return { success: true, task: await onSent(result.data) };
+    case 'queued':
+      return { success: true, queued: true, task: queuedTask };
+    case 'session_expired':
+      return { success: false, error: 'session_expired' };
+    default:
+      return { success: false, error: result.error };
+  }
+}
+
 export interface TaskInput {
   title: string;
   description?: string;
@@ -72,14 +115,21 @@ export function useEtherealTasks() {
 
       const data = await response.json();
       if (data.success && Array.isArray(data.tasks)) {
-        // Store in Dexie
-        const tasksWithSync: EtherealTask[] = data.tasks.map((t: any) => ({
-          ...t,
-          syncStatus: 'synced' as const,
-        }));
+        // Tasks with queued changes keep their local version until replayed
+        const queued = await getQueuedRecordIds(currentSession.roomId, 'ethereal_tasks');
+        const serverTasks: Omit<EtherealTask, 'syncStatus'>[] = data.tasks;
+        const tasksWithSync: EtherealTask[] = serverTasks
+          .filter((t) => !queued.has(t.serverId))
+          .map((t) => ({
+            ...t,
+            syncStatus: 'synced' as const,
+          }));
 
         await etherealDb.tasks.bulkPut(tasksWithSync);
-        setTasks(sortTasks(tasksWithSync));
+        const local = (await etherealDb.tasks.bulkGet([...queued])).filter(
+          (t): t is EtherealTask => !!t
+        );
+        setTasks(sortTasks([...tasksWithSync, ...local]));
         setError(null);
       }
     } catch (e) {
@@ -148,188 +198,203 @@ export function useEtherealTasks() {
     };
   }, [session?.channelKey]);
 
-  // Create task
-  const createTask = useCallback(async (input: TaskInput) => {
-    const currentSession = getEtherealSession();
-    if (!currentSession) return { success: false, error: 'no_session' };
+  // Apply a task to UI and Dexie; server versions are broadcast to others
+  const commitTask = useCallback(async (task: EtherealTask, replacesId?: string) => {
+    setTasks((prev) => {
+      const filtered = prev.filter((t) => t.serverId !== task.serverId && t.serverId !== replacesId);
+      return sortTasks([...filtered, task]);
+    });
 
-    try {
-      const response = await fetch(`${SUPABASE_URL}/functions/v1/ethereal_tasks`, {
-        method: 'POST',
-        headers: getEtherealApiHeaders(),
-        body: JSON.stringify(input),
-      });
+    await etherealDb.tasks.put(task);
 
-      if (response.status === 401 || response.status === 403) {
-        clearEtherealSession();
-        window.dispatchEvent(new CustomEvent('ethereal-session-expired'));
-        return { success: false, error: 'session_expired' };
-      }
-
-      const data = await response.json();
-      if (!data.success) return { success: false, error: data.error };
-
-      const task: EtherealTask = {
-        ...data.task,
-        syncStatus: 'synced',
-      };
-
-      // Update UI
-      setTasks((prev) => sortTasks([...prev, task]));
-
-      // Persist
-      await etherealDb.tasks.put(task);
-
-      // Broadcast to others
+    if (task.syncStatus === 'synced') {
       channelRef.current?.send({
         type: 'broadcast',
         event: 'task_upsert',
         payload: task,
       });
-
-      return { success: true, task };
-    } catch (e) {
-      console.error('[useEtherealTasks] createTask error:', e);
-      return { success: false, error: 'network_error' };
     }
   }, []);
 
-  // Update task
-  const updateTask = useCallback(async (taskId: string, input: Partial<TaskInput>) => {
-    const currentSession = getEtherealSession();
-    if (!currentSession) return { success: false, error: 'no_session' };
-
-    try {
-      const response = await fetch(`${SUPABASE_URL}/functions/v1/ethereal_tasks/${taskId}`, {
-        method: 'PUT',
-        headers: getEtherealApiHeaders(),
-        body: JSON.stringify(input),
-      });
-
-      if (response.status === 401 || response.status === 403) {
-        clearEtherealSession();
-        window.dispatchEvent(new CustomEvent('ethereal-session-expired'));
-        return { success: false, error: 'session_expired' };
-      }
-
-      const data = await response.json();
-      if (!data.success) return { success: false, error: data.error };
-
-      const task: EtherealTask = {
-        ...data.task,
-        syncStatus: 'synced',
-      };
-
-      // Update UI
-      setTasks((prev) => {
-        const filtered = prev.filter((t) => t.serverId !== taskId);
-        return sortTasks([...filtered, task]);
-      });
-
-      // Persist
-      await etherealDb.tasks.put(task);
+  const removeTask = useCallback(async (taskId: string, broadcast: boolean) => {
+    setTasks((prev) => prev.filter((t) => t.serverId !== taskId));
+    await etherealDb.tasks.delete(taskId);
 
-      // Broadcast
+    if (broadcast) {
       channelRef.current?.send({
         type: 'broadcast',
-        event: 'task_upsert',
-        payload: task,
+        event: 'task_delete',
+        payload: { taskId },
       });
-
-      return { success: true, task };
-    } catch (e) {
-      console.error('[useEtherealTasks] updateTask error:', e);
-      return { success: false, error: 'network_error' };
     }
   }, []);
 
-  // Toggle task status (done <-> todo)
-  const toggleTask = useCallback(async (taskId: string) => {
+  // Replayed mutations: swap placeholders for server tasks and tell the room
+  useEffect(() => {
+    const handleSynced = (e: Event) => {
+      const { item, record } = (e as CustomEvent<OutboxSyncedDetail>).detail;
+      if (item.fn !== 'ethereal_tasks') return;
+
+      if (item.kind === 'task_delete') {
+        if (item.targetId) removeTask(item.targetId, true);
+      } else if (record) {
+        commitTask(record as EtherealTask, item.localId);
+      }
+    };
+
+    // Discarded changes: the server list is the truth again
+    const handleDiscarded = (e: Event) => {
+      const { item } = (e as CustomEvent<OutboxDiscardedDetail>).detail;
+      if (item.fn !== 'ethereal_tasks') return;
+      if (item.localId) {
+        setTasks((prev) => prev.filter((t) => t.serverId !== item.localId));
+      }
+      loadTasks();
+    };
+
+    window.addEventListener(OUTBOX_SYNCED_EVENT, handleSynced);
+    window.addEventListener(OUTBOX_DISCARDED_EVENT, handleDiscarded);
+    return () => {
+      window.removeEventListener(OUTBOX_SYNCED_EVENT, handleSynced);
+      window.removeEventListener(OUTBOX_DISCARDED_EVENT, handleDiscarded);
+    };
+  }, [commitTask, removeTask, loadTasks]);
+
+  // Create task (queued with a placeholder while offline)
+  const createTask = useCallback(async (input: TaskInput) => {
     const currentSession = getEtherealSession();
     if (!currentSession) return { success: false, error: 'no_session' };
 
-    try {
-      const response = await fetch(`${SUPABASE_URL}/functions/v1/ethereal_tasks/${taskId}/toggle`, {
+    const now = Date.now();
+    const placeholder: EtherealTask = applyTaskInput(
+      {
+        serverId: createLocalId(),
+        roomId: currentSession.roomId,
+        creatorId: currentSession.memberId,
+        creatorName: currentSession.displayName,
+        title: input.title,
+        status: 'todo',
+        priority: 'normal',
+        createdAtMs: now,
+        updatedAtMs: now,
+        syncStatus: 'pending',
+      },
+      input
+    );
+
+    const result = await submitEtherealMutation(
+      {
+        kind: 'task_create',
+        fn: 'ethereal_tasks',
         method: 'POST',
-        headers: getEtherealApiHeaders(),
-      });
+        localId: placeholder.serverId,
+        body: { ...input },
+        label: input.title,
+      },
+      { onQueued: () => commitTask(placeholder) }
+    );
+
+    return toResult(result, async (data) => {
+      const task: EtherealTask = { ...data.task, syncStatus: 'synced' };
+      await commitTask(task);
+      return task;
+    }, placeholder);
+  }, [commitTask]);
 
-      if (response.status === 401 || response.status === 403) {
-        clearEtherealSession();
-        window.dispatchEvent(new CustomEvent('ethereal-session-expired'));
-        return { success: false, error: 'session_expired' };
-      }
-
-      const data = await response.json();
-      if (!data.success) return { success: false, error: data.error };
+  // Update task
+  const updateTask = useCallback(async (taskId: string, input: Partial<TaskInput>) => {
+    const currentSession = getEtherealSession();
+    if (!currentSession) return { success: false, error: 'no_session' };
 
-      const task: EtherealTask = {
-        ...data.task,
-        syncStatus: 'synced',
-      };
+    const current = await etherealDb.tasks.get(taskId);
+    const optimistic = current && applyTaskInput({ ...current, syncStatus: 'pending' }, input);
 
-      // Update UI
-      setTasks((prev) => {
-        const filtered = prev.filter((t) => t.serverId !== taskId);
-        return sortTasks([...filtered, task]);
-      });
+    const result = await submitEtherealMutation(
+      {
+        kind: 'task_update',
+        fn: 'ethereal_tasks',
+        method: 'PUT',
+        targetId: taskId,
+        body: { ...input },
+        label: input.title || current?.title || '',
+      },
+      { onQueued: async () => { if (optimistic) await commitTask(optimistic); } }
+    );
+
+    return toResult(result, async (data) => {
+      const task: EtherealTask = { ...data.task, syncStatus: 'synced' };
+      await commitTask(task);
+      return task;
+    }, optimistic);
+  }, [commitTask]);
 
-      // Persist
-      await etherealDb.tasks.put(task);
+  // Toggle task status (done <-> todo)
+  const toggleTask = useCallback(async (taskId: string) => {
+    const currentSession = getEtherealSession();
+    if (!currentSession) return { success: false, error: 'no_session' };
 
-      // Broadcast
-      channelRef.current?.send({
-        type: 'broadcast',
-        event: 'task_upsert',
-        payload: task,
-      });
+    const current = await etherealDb.tasks.get(taskId);
+    const optimistic: EtherealTask | undefined = current && {
+      ...current,
+      status: current.status === 'done' ? 'todo' : 'done',
+      completedAtMs: current.status === 'done' ? undefined : Date.now(),
+      completedByName: current.status === 'done' ? undefined : currentSession.displayName,
+      updatedAtMs: Date.now(),
+      syncStatus: 'pending',
+    };
 
-      return { success: true, task };
-    } catch (e) {
-      console.error('[useEtherealTasks] toggleTask error:', e);
-      return { success: false, error: 'network_error' };
-    }
-  }, []);
+    const result = await submitEtherealMutation(
+      {
+        kind: 'task_toggle',
+        fn: 'ethereal_tasks',
+        method: 'POST',
+        targetId: taskId,
+        action: 'toggle',
+        label: current?.title || '',
+      },
+      { onQueued: async () => { if (optimistic) await commitTask(optimistic); } }
+    );
+
+    return toResult(result, async (data) => {
+      const task: EtherealTask = { ...data.task, syncStatus: 'synced' };
+      await commitTask(task);
+      return task;
+    }, optimistic);
+  }, [commitTask]);
 
   // Delete task
   const deleteTask = useCallback(async (taskId: string) => {
     const currentSession = getEtherealSession();
     if (!currentSession) return { success: false, error: 'no_session' };
 
-    try {
-      const response = await fetch(`${SUPABASE_URL}/functions/v1/ethereal_tasks/${taskId}`, {
-        method: 'DELETE',
-        headers: getEtherealApiHeaders(),
-      });
-
-      if (response.status === 401 || response.status === 403) {
-        clearEtherealSession();
-        window.dispatchEvent(new CustomEvent('ethereal-session-expired'));
-        return { success: false, error: 'session_expired' };
-      }
-
-      const data = await response.json();
-      if (!data.success) return { success: false, error: data.error };
-
-      // Update UI
-      setTasks((prev) => prev.filter((t) => t.serverId !== taskId));
-
-      // Remove from Dexie
-      await etherealDb.tasks.delete(taskId);
-
-      // Broadcast
-      channelRef.current?.send({
-        type: 'broadcast',
-        event: 'task_delete',
-        payload: { taskId },
-      });
-
+    // Never sent: dropping the queued create (and its edits) is the delete
+    if (isLocalId(taskId)) {
+      const create = await etherealDb.outbox.where('roomId').equals(currentSession.roomId)
+        .filter((item) => item.localId === taskId)
+        .first();
+      if (create) await discardOutboxItem(create.id!);
+      await removeTask(taskId, false);
       return { success: true };
-    } catch (e) {
-      console.error('[useEtherealTasks] deleteTask error:', e);
-      return { success: false, error: 'network_error' };
     }
-  }, []);
+
+    const current = await etherealDb.tasks.get(taskId);
+
+    const result = await submitEtherealMutation(
+      {
+        kind: 'task_delete',
+        fn: 'ethereal_tasks',
+        method: 'DELETE',
+        targetId: taskId,
+        label: current?.title || '',
+      },
+      { onQueued: () => removeTask(taskId, false) }
+    );
+
+    return toResult(result, async () => {
+      await removeTask(taskId, true);
+      return undefined;
+    });
+  }, [removeTask]);
 
   // Group tasks by status
   const groupedTasks = {
@@ -13,6 +13,8 @@ import { loadAISettings } from '@/lib/aiConfig';
 import { trackUsageEvent } from '@/lib/usageTracker';
 import { supabase } from '@/integrations/supabase/client';
 import { getAITokenHeader } from '@/lib/aiUtils';
+import { analyzeMoodLocally } from '@/lib/entryAnalysisService';
+import { ensureAIBudget, recordAIUsage } from '@/lib/aiUsage';
 
 export interface PredictiveMoodResult {
   // Current suggested mood from analysis (different from current)
@@ -90,7 +92,8 @@ export function usePredictiveMood({
   // Check if auto-mood is enabled in settings
   const aiSettings = loadAISettings();
   const autoMoodEnabled = enabled && aiSettings.autoMood === true;
-  const aiMoodEnabled = autoMoodEnabled && aiEnabled && navigator.onLine;
+  const isLocalProvider = aiSettings.provider === 'local';
+  const aiMoodEnabled = autoMoodEnabled && aiEnabled && (navigator.onLine || isLocalProvider);
   const language = document.documentElement.lang === 'ru' ? 'ru' : 'en';
 
   // Load inherited mood on mount
@@ -140,19 +143,36 @@ export function usePredictiveMood({
     lastAICallTimeRef.current = now;
     
     try {
-      const { data, error } = await supabase.functions.invoke('ai-entry-analyze', {
-        body: { 
-          text: textToAnalyze, 
-          tags: [], 
-          language, 
-          mode: 'quick' 
-        },
-        headers: getAITokenHeader(),
-      });
+      await ensureAIBudget(language === 'ru' ? 'ru' : 'en', { silent: true });
 
-      if (error) {
-        console.warn('[PredictiveMood] AI error:', error.message);
-        return;
+      let data: { mood: number; confidence: number } | null;
+      if (isLocalProvider) {
+        data = await analyzeMoodLocally(textToAnalyze, language);
+      } else {
+        const { data: remote, error } = await supabase.functions.invoke('ai-entry-analyze', {
+          body: { 
+            text: textToAnalyze, 
+            tags: [], 
+            language, 
+            mode: 'quick' 
+          },
+          headers: getAITokenHeader(),
+        });
+
+        if (error) {
+          console.warn('[PredictiveMood] AI error:', error.message);
+          return;
+        }
+        data = remote;
+        // Quick mode runs on the server's default model
+        await recordAIUsage({
+          feature: 'entryAnalysis',
+          provider: 'lovable',
+          model: 'google/gemini-2.5-flash-lite',
+          profile: 'economy',
+          promptText: textToAnalyze,
+          completionText: JSON.stringify(remote ?? ''),
+        });
       }
 
       if (data?.mood && data?.confidence >= AI_CONFIDENCE_THRESHOLD) {
@@ -177,7 +197,7 @@ export function usePredictiveMood({
     } finally {
       setIsAIAnalyzing(false);
     }
-  }, [aiCallCount, currentMood, language, maxAICallsPerEntry]);
+  }, [aiCallCount, currentMood, isLocalProvider, language, maxAICallsPerEntry]);
 
   // Manual AI trigger (for onBlur or button click)
   const triggerAIAnalysis = useCallback(() => {
@@ -86,7 +86,9 @@ export type Database = {
       diary_attachments: {
         Row: {
           created_at: string
+          deleted_at: string | null
           duration: number | null
+          encryption_key_id: string | null
           entry_id: string | null
           id: string
           kind: string
@@ -99,7 +101,9 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
           duration?: number | null
+          encryption_key_id?: string | null
           entry_id?: string | null
           id?: string
           kind: string
@@ -112,7 +116,9 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
           duration?: number | null
+          encryption_key_id?: string | null
           entry_id?: string | null
           id?: string
           kind?: string
@@ -139,6 +145,7 @@ export type Database = {
           created_at: string
           date: string
           deleted_at: string | null
+          encryption_key_id: string | null
           id: string
           is_private: boolean
           local_id: number
@@ -157,6 +164,7 @@ export type Database = {
           created_at?: string
           date: string
           deleted_at?: string | null
+          encryption_key_id?: string | null
           id?: string
           is_private?: boolean
           local_id: number
@@ -175,6 +183,7 @@ export type Database = {
           created_at?: string
           date?: string
           deleted_at?: string | null
+          encryption_key_id?: string | null
           id?: string
           is_private?: boolean
           local_id?: number
@@ -198,6 +207,8 @@ export type Database = {
           description: string | null
           end_at: string | null
           id: string
+          recurrence: string
+          recurrence_until: string | null
           room_id: string
           start_at: string
           title: string
@@ -210,6 +221,8 @@ export type Database = {
           description?: string | null
           end_at?: string | null
           id?: string
+          recurrence?: string
+          recurrence_until?: string | null
           room_id: string
           start_at: string
           title: string
@@ -222,6 +235,8 @@ export type Database = {
           description?: string | null
           end_at?: string | null
           id?: string
+          recurrence?: string
+          recurrence_until?: string | null
           room_id?: string
           start_at?: string
           title?: string
@@ -471,41 +486,141 @@ export type Database = {
           },
         ]
       }
+      ethereal_idempotency_keys: {
+        Row: {
+          created_at: string
+          key: string
+          member_id: string
+          response: Json | null
+          room_id: string
+          status: number | null
+        }
+        Insert: {
+          created_at?: string
+          key: string
+          member_id: string
+          response?: Json | null
+          room_id: string
+          status?: number | null
+        }
+        Update: {
+          created_at?: string
+          key?: string
+          member_id?: string
+          response?: Json | null
+          room_id?: string
+          status?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ethereal_idempotency_keys_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "ethereal_room_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ethereal_idempotency_keys_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "ethereal_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ethereal_message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          member_id: string
+          message_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          member_id: string
+          message_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          member_id?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ethereal_message_reactions_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "ethereal_room_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ethereal_message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "ethereal_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ethereal_messages: {
         Row: {
           content: string
           created_at: string | null
+          created_at_ms: number | null
+          deleted_at: string | null
+          edited_at: string | null
           id: string
           image_h: number | null
           image_mime: string | null
           image_path: string | null
           image_w: number | null
+          reply_to_id: string | null
           room_id: string
           sender_id: string
+          updated_at: string
         }
         Insert: {
           content: string
           created_at?: string | null
+          created_at_ms?: number | null
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
           image_h?: number | null
           image_mime?: string | null
           image_path?: string | null
           image_w?: number | null
+          reply_to_id?: string | null
           room_id: string
           sender_id: string
+          updated_at?: string
         }
         Update: {
           content?: string
           created_at?: string | null
+          created_at_ms?: number | null
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
           image_h?: number | null
           image_mime?: string | null
           image_path?: string | null
           image_w?: number | null
+          reply_to_id?: string | null
           room_id?: string
           sender_id?: string
+          updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "ethereal_messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "ethereal_messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ethereal_messages_room_id_fkey"
             columns: ["room_id"]
@@ -772,6 +887,48 @@ export type Database = {
         }
         Relationships: []
       }
+      sync_encryption_keys: {
+        Row: {
+          created_at: string
+          kdf_iterations: number
+          key_id: string
+          passphrase_salt: string
+          previous_key_id: string | null
+          previous_wrapped_key: string | null
+          recovery_salt: string
+          recovery_wrapped_key: string
+          updated_at: string
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          kdf_iterations: number
+          key_id: string
+          passphrase_salt: string
+          previous_key_id?: string | null
+          previous_wrapped_key?: string | null
+          recovery_salt: string
+          recovery_wrapped_key: string
+          updated_at?: string
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          kdf_iterations?: number
+          key_id?: string
+          passphrase_salt?: string
+          previous_key_id?: string | null
+          previous_wrapped_key?: string | null
+          recovery_salt?: string
+          recovery_wrapped_key?: string
+          updated_at?: string
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: []
+      }
       usage_analytics: {
         Row: {
           app_version: string | null
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { DiscussionMessage } from '@/lib/db';
+import { findLatestLeaf, getBranchPath, getSiblings, groupSiblings, resolveParentIds } from './discussionBranches';
+
+function message(id: number, role: DiscussionMessage['role'], parentId?: number | null): DiscussionMessage {
+  return { id, sessionId: 1, role, content: `m${id}`, createdAt: id * 10, ...(parentId !== undefined ? { parentId } : {}) };
+}
+
+// 1 → 2 are from before branching; 3 edits the second question, 4/5 are two answers to it
+const LEGACY_AND_BRANCHED: DiscussionMessage[] = [
+  message(1, 'user'),
+  message(2, 'assistant'),
+  message(3, 'user', 2),
+  message(4, 'assistant', 3),
+  message(5, 'assistant', 3),
+  message(6, 'user', 2),
+  message(7, 'assistant', 6),
+];
+
+const ids = (messages: DiscussionMessage[]) => messages.map(m => m.id);
+
+describe('discussion branches', () => {
+  it('treats messages without parentId as following the previous message', () => {
+    const parents = resolveParentIds([message(2, 'assistant'), message(1, 'user'), message(3, 'user', 2)]);
+    expect([...parents]).toEqual([[1, null], [2, 1], [3, 2]]);
+  });
+
+  it('follows the chosen leaf and defaults to the newest message', () => {
+    expect(ids(getBranchPath(LEGACY_AND_BRANCHED, 4))).toEqual([1, 2, 3, 4]);
+    expect(ids(getBranchPath(LEGACY_AND_BRANCHED))).toEqual([1, 2, 6, 7]);
+    expect(ids(getBranchPath(LEGACY_AND_BRANCHED, 999))).toEqual([1, 2, 6, 7]);
+    expect(getBranchPath([], 1)).toEqual([]);
+  });
+
+  it('lists alternatives under the same parent', () => {
+    expect(ids(getSiblings(LEGACY_AND_BRANCHED, 5))).toEqual([4, 5]);
+    expect(ids(getSiblings(LEGACY_AND_BRANCHED, 6))).toEqual([3, 6]);
+    expect(ids(getSiblings(LEGACY_AND_BRANCHED, 1))).toEqual([1]);
+    expect(getSiblings(LEGACY_AND_BRANCHED, 999)).toEqual([]);
+
+    const groups = groupSiblings(LEGACY_AND_BRANCHED);
+    expect(ids(groups.get(4)!)).toEqual([4, 5]);
+    expect(groups.get(3)).toBe(groups.get(6));
+  });
+
+  it('opens a picked branch at its newest reply', () => {
+    expect(findLatestLeaf(LEGACY_AND_BRANCHED, 3)).toBe(5);
+    expect(findLatestLeaf(LEGACY_AND_BRANCHED, 6)).toBe(7);
+    expect(findLatestLeaf(LEGACY_AND_BRANCHED, 7)).toBe(7);
+  });
+});
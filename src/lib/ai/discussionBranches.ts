@@ -0,0 +1,97 @@
+/**
+ * Discussion branches: messages form a tree through parentId. Regenerating an answer or
+ * editing a question adds a sibling under the same parent; the session's activeLeafId
+ * picks which root-to-leaf path is shown and sent as history.
+ *
+ * Messages saved before branching have no parentId and follow the previous message.
+ */
+
+import type { DiscussionMessage } from '@/lib/db';
+
+type StoredMessage = DiscussionMessage & { id: number };
+
+function byCreatedAt(messages: DiscussionMessage[]): StoredMessage[] {
+  return messages
+    .filter((message): message is StoredMessage => message.id !== undefined)
+    .sort((a, b) => a.createdAt - b.createdAt || a.id - b.id);
+}
+
+/**
+ * Parent of every message, with the legacy fallback applied.
+ */
+export function resolveParentIds(messages: DiscussionMessage[]): Map<number, number | null> {
+  const parents = new Map<number, number | null>();
+  let previous: number | null = null;
+  for (const message of byCreatedAt(messages)) {
+    parents.set(message.id, message.parentId !== undefined ? message.parentId : previous);
+    previous = message.id;
+  }
+  return parents;
+}
+
+/**
+ * The root-to-leaf path ending at leafId, or at the newest message when leafId is unknown.
+ */
+export function getBranchPath(messages: DiscussionMessage[], leafId?: number | null): DiscussionMessage[] {
+  const sorted = byCreatedAt(messages);
+  if (sorted.length === 0) return [];
+
+  const byId = new Map(sorted.map(message => [message.id, message]));
+  const parents = resolveParentIds(sorted);
+  const path: DiscussionMessage[] = [];
+  const seen = new Set<number>();
+
+  let current = leafId != null && byId.has(leafId) ? leafId : sorted[sorted.length - 1].id;
+  while (current !== null && byId.has(current) && !seen.has(current)) {
+    seen.add(current);
+    path.push(byId.get(current)!);
+    current = parents.get(current) ?? null;
+  }
+  return path.reverse();
+}
+
+/**
+ * Alternatives of every message in one pass: message id → the messages under its parent, oldest first.
+ */
+export function groupSiblings(messages: DiscussionMessage[]): Map<number, DiscussionMessage[]> {
+  const sorted = byCreatedAt(messages);
+  const parents = resolveParentIds(sorted);
+  const byParent = new Map<number | null, DiscussionMessage[]>();
+  const siblings = new Map<number, DiscussionMessage[]>();
+  for (const message of sorted) {
+    const parentId = parents.get(message.id) ?? null;
+    const group = byParent.get(parentId) ?? [];
+    byParent.set(parentId, group);
+    group.push(message);
+    siblings.set(message.id, group);
+  }
+  return siblings;
+}
+
+/**
+ * Alternatives for a message: itself and the other messages under the same parent, oldest first.
+ */
+export function getSiblings(messages: DiscussionMessage[], messageId: number): DiscussionMessage[] {
+  return groupSiblings(messages).get(messageId) ?? [];
+}
+
+/**
+ * Where a branch ends when it is picked: follow the newest reply down from messageId.
+ */
+export function findLatestLeaf(messages: DiscussionMessage[], messageId: number): number {
+  const parents = resolveParentIds(messages);
+  const children = new Map<number, number[]>();
+  for (const [id, parentId] of parents) {
+    if (parentId === null) continue;
+    children.set(parentId, [...(children.get(parentId) ?? []), id]);
+  }
+
+  let current = messageId;
+  const seen = new Set<number>([current]);
+  for (;;) {
+    const next = children.get(current)?.at(-1);
+    if (next === undefined || seen.has(next)) return current;
+    seen.add(next);
+    current = next;
+  }
+}
@@ -0,0 +1,169 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createEntry, db, type Receipt } from '@/lib/db';
+import type { EvidenceRef } from '@/lib/librarian/contextPack';
+import { createEvidenceRegistry, runDiscussionTool, type DiscussionToolScope } from './discussionTools';
+
+async function clearTables() {
+  await db.transaction('rw', db.tables, async () => {
+    for (const table of db.tables) {
+      await table.clear();
+    }
+  });
+  localStorage.clear();
+}
+
+function makeEntry(text: string, overrides: Partial<Parameters<typeof createEntry>[0]> = {}) {
+  return createEntry({ date: '2026-03-01', text, mood: 3, tags: [], isPrivate: false, ...overrides });
+}
+
+async function addReceipt(
+  receipt: Partial<Receipt>,
+  items: Array<{ name: string; totalPrice: number | null; category: string | null }> = []
+): Promise<number> {
+  const receiptId = await db.receipts.add({
+    date: '2026-03-01',
+    storeName: 'Store',
+    storeAddress: null,
+    total: null,
+    subtotal: null,
+    tax: null,
+    currency: 'EUR',
+    confidence: 'high',
+    warnings: [],
+    attachmentId: null,
+    entryId: null,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...receipt,
+  });
+  await db.receiptItems.bulkAdd(items.map(item => ({ ...item, receiptId, qty: 1, unitPrice: null, discount: null })));
+  return receiptId;
+}
+
+const ALL: DiscussionToolScope = { entryIds: [], searchAll: true };
+
+describe('createEvidenceRegistry', () => {
+  it('numbers new sources after the context pack and reuses known ones', () => {
+    const initial: EvidenceRef[] = [
+      { id: 'E1', type: 'entry', title: 'One', deepLink: '/entry/1', entityId: 1 },
+      { id: 'E2', type: 'entry', title: 'Two', deepLink: '/entry/2', entityId: 2 },
+    ];
+    const registry = createEvidenceRegistry(initial);
+
+    expect(registry.add({ type: 'entry', title: 'Two again', deepLink: '/entry/2', entityId: 2 }, 'E').id).toBe('E2');
+    expect(registry.add({ type: 'entry', title: 'Three', deepLink: '/entry/3', entityId: 3 }, 'E').id).toBe('E3');
+    expect(registry.add({ type: 'receipt', title: 'Shop', deepLink: '/receipts/7', entityId: 7 }, 'R').id).toBe('R1');
+    expect(registry.refs.map(ref => ref.id)).toEqual(['E1', 'E2', 'E3', 'R1']);
+    expect(initial).toHaveLength(2);
+  });
+});
+
+describe('runDiscussionTool', () => {
+  beforeEach(clearTables);
+  afterEach(clearTables);
+
+  it('searches only readable entries in the discussion scope', async () => {
+    const inScope = await makeEntry('Прогулка в парке', { date: '2026-03-05' });
+    const outOfScope = await makeEntry('Прогулка у реки', { date: '2026-03-06' });
+    await makeEntry('Прогулка тайная', { date: '2026-03-07', isPrivate: true });
+    await makeEntry('Прогулка зимой', { date: '2026-01-10' });
+
+    const registry = createEvidenceRegistry([]);
+    const scoped = await runDiscussionTool(
+      { tool: 'search_entries', args: { query: 'прогулка', from: '2026-03-01' } },
+      { entryIds: [inScope, outOfScope], searchAll: false },
+      registry,
+    );
+    expect(scoped.evidence.map(ref => ref.entityId).sort()).toEqual([inScope, outOfScope].sort());
+
+    const narrow = await runDiscussionTool(
+      { tool: 'search_entries', args: { query: 'прогулка' } },
+      { entryIds: [inScope], searchAll: false },
+      registry,
+    );
+    expect(narrow.evidence).toHaveLength(1);
+    expect(narrow.text).not.toContain('тайная');
+    expect(registry.refs).toHaveLength(2);
+  });
+
+  it('sums spending per currency and by category from line items', async () => {
+    await addReceipt({ storeName: 'Lidl', total: 30, currency: 'EUR' }, [
+      { name: 'Milk', totalPrice: 2, category: 'Groceries' },
+      { name: 'Soap', totalPrice: 5, category: 'Household' },
+    ]);
+    await addReceipt({ storeName: 'Lidl', total: 10, currency: 'EUR', date: '2026-03-02' }, [
+      { name: 'Bread', totalPrice: 3, category: 'Groceries' },
+    ]);
+    await addReceipt({ storeName: 'Tesco', total: 8, currency: 'GBP', date: '2026-03-03' }, [
+      { name: 'Eggs', totalPrice: 4, category: 'Groceries' },
+    ]);
+    await addReceipt({ storeName: 'Old', total: 100, date: '2026-02-01' });
+
+    const registry = createEvidenceRegistry([]);
+    const totals = await runDiscussionTool(
+      { tool: 'compute_spending', args: { from: '2026-03-01', groupBy: 'store' } },
+      ALL,
+      registry,
+    );
+    expect(totals.text).toContain('Total: 40.00 EUR + 8.00 GBP');
+    expect(totals.text).toContain('Lidl EUR: 40.00');
+    expect(totals.evidence.map(ref => ref.id)).toEqual(['R1', 'R2', 'R3']);
+
+    const groceries = await runDiscussionTool(
+      { tool: 'compute_spending', args: { category: 'grocer' } },
+      ALL,
+      registry,
+    );
+    expect(groceries.summary).toBe('Total 5.00 EUR + 4.00 GBP over 3 receipts');
+  });
+
+  it('leaves out receipts attached to private entries', async () => {
+    const open = await makeEntry('Shopping');
+    const secret = await makeEntry('Gift', { isPrivate: true });
+    const closed = await makeEntry('Pharmacy');
+    await db.entries.update(closed, { aiAllowed: false });
+    await addReceipt({ storeName: 'Lidl', total: 30, entryId: open });
+    await addReceipt({ storeName: 'Jeweller', total: 500, entryId: secret });
+    await addReceipt({ storeName: 'Apotheke', total: 20, entryId: closed });
+    await addReceipt({ storeName: 'Kiosk', total: 2 });
+
+    const registry = createEvidenceRegistry([]);
+    const list = await runDiscussionTool({ tool: 'list_receipts', args: {} }, ALL, registry);
+    expect(list.evidence.map(ref => ref.title).sort()).toEqual(['Kiosk', 'Lidl']);
+    expect(list.text).not.toMatch(/Jeweller|Apotheke/);
+
+    const totals = await runDiscussionTool({ tool: 'compute_spending', args: {} }, ALL, registry);
+    expect(totals.text).toContain('Total: 32.00 EUR');
+  });
+
+  it('leaves out reminders captured from private entries', async () => {
+    const open = await makeEntry('Позвонить маме');
+    const secret = await makeEntry('Тайное дело', { isPrivate: true });
+    const base = { sourceText: '', status: 'pending' as const, repeat: 'none' as const, createdAt: 1, updatedAt: 1 };
+    await db.reminders.bulkAdd([
+      { ...base, entryId: open, actionText: 'Call mom', dueAt: new Date(2026, 2, 2, 10).getTime() },
+      { ...base, entryId: secret, actionText: 'Secret', dueAt: new Date(2026, 2, 3, 10).getTime() },
+      { ...base, entryId: open, actionText: 'Done already', dueAt: new Date(2026, 2, 4).getTime(), status: 'done' },
+    ]);
+
+    const result = await runDiscussionTool(
+      { tool: 'list_reminders', args: { status: 'pending' } },
+      ALL,
+      createEvidenceRegistry([]),
+    );
+
+    expect(result.evidence).toEqual([expect.objectContaining({ id: 'N1', type: 'reminder', title: 'Call mom' })]);
+    expect(result.text).not.toContain('Secret');
+  });
+
+  it('rejects unknown tools and malformed arguments', async () => {
+    const registry = createEvidenceRegistry([]);
+    await expect(runDiscussionTool({ tool: 'drop_tables' as never, args: {} }, ALL, registry))
+      .rejects.toThrow('TOOL_UNKNOWN');
+    await expect(runDiscussionTool({ tool: 'get_day', args: { date: 'March 3' } }, ALL, registry))
+      .rejects.toThrow('TOOL_ARGS_INVALID: date must be YYYY-MM-DD');
+    await expect(runDiscussionTool({ tool: 'search_entries', args: {} }, ALL, registry))
+      .rejects.toThrow('TOOL_ARGS_INVALID');
+  });
+});
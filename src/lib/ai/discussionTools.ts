@@ -0,0 +1,506 @@
+/**
+ * Tools a discussion turn can call to look things up beyond the prebuilt context pack.
+ *
+ * The model requests tools with a JSON reply ({"toolCalls": [...]}) instead of provider
+ * function calling, so the same loop works through the edge gateway and local servers.
+ * Every source a tool reads is registered as an EvidenceRef, so answers cite tool results
+ * the same way they cite context evidence.
+ */
+
+import { format } from 'date-fns';
+import { db, type DiaryEntry, type Receipt, type ReceiptItem, type ReminderStatus } from '@/lib/db';
+import { deriveStableEvidenceHandle, type EvidenceRef } from '@/lib/librarian/contextPack';
+import { executeSearchQuery, type SearchFilter } from '@/lib/search/queryLanguage';
+
+export type DiscussionToolName =
+  | 'search_entries'
+  | 'get_day'
+  | 'list_receipts'
+  | 'compute_spending'
+  | 'list_reminders';
+
+export interface DiscussionToolCall {
+  tool: DiscussionToolName;
+  args: Record<string, unknown>;
+}
+
+export interface DiscussionToolScope {
+  entryIds: number[];   // Entries the session is grounded in
+  searchAll: boolean;   // "Find in notes" is on: entry tools may read the whole diary
+}
+
+export interface DiscussionToolResult {
+  text: string;         // Block returned to the model
+  summary: string;      // One line for the trace
+  evidence: EvidenceRef[];
+}
+
+const TOOL_LIMITS = {
+  defaultItems: 6,
+  maxItems: 12,
+  maxSnippetChars: 300,
+  maxReceiptItems: 5,
+  maxSpendingEvidence: 5,
+} as const;
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// Citation alias prefixes for tool-only evidence types
+const RECEIPT_PREFIX = 'R';
+const REMINDER_PREFIX = 'N';
+
+// ============================================================
+// Evidence registry
+// ============================================================
+
+export interface EvidenceRegistry {
+  refs: EvidenceRef[];
+  /** Register a source, reusing its alias when the turn already cites it */
+  add(ref: Omit<EvidenceRef, 'id'>, prefix: string): EvidenceRef;
+}
+
+export function createEvidenceRegistry(initial: EvidenceRef[]): EvidenceRegistry {
+  const refs = [...initial];
+  const byHandle = new Map(refs.map(ref => [ref.stableHandle ?? deriveStableEvidenceHandle(ref), ref]));
+
+  return {
+    refs,
+    add(ref, prefix) {
+      const handle = ref.stableHandle ?? deriveStableEvidenceHandle(ref);
+      const existing = byHandle.get(handle);
+      if (existing) return existing;
+
+      const aliasPattern = new RegExp(`^${prefix}(\\d+)$`);
+      const lastIndex = refs.reduce((max, known) => {
+        const match = known.id.match(aliasPattern);
+        return match ? Math.max(max, Number(match[1])) : max;
+      }, 0);
+
+      const added: EvidenceRef = { ...ref, id: `${prefix}${lastIndex + 1}`, stableHandle: handle };
+      refs.push(added);
+      byHandle.set(handle, added);
+      return added;
+    },
+  };
+}
+
+interface DiscussionToolContext {
+  scope: DiscussionToolScope;
+  evidence: EvidenceRegistry;
+}
+
+// ============================================================
+// Argument parsing
+// ============================================================
+
+function invalidArgs(detail: string): Error {
+  return new Error(`TOOL_ARGS_INVALID: ${detail}`);
+}
+
+function readString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw invalidArgs(`${key} must be a string`);
+  return value.trim() || undefined;
+}
+
+function readDate(args: Record<string, unknown>, key: string): string | undefined {
+  const value = readString(args, key);
+  if (value !== undefined && !DATE_REGEX.test(value)) throw invalidArgs(`${key} must be YYYY-MM-DD`);
+  return value;
+}
+
+function readLimit(args: Record<string, unknown>): number {
+  const value = args.limit;
+  if (value === undefined || value === null) return TOOL_LIMITS.defaultItems;
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit < 1) throw invalidArgs('limit must be a positive number');
+  return Math.min(Math.floor(limit), TOOL_LIMITS.maxItems);
+}
+
+function readEnum<T extends string>(args: Record<string, unknown>, key: string, values: readonly T[]): T | undefined {
+  const value = readString(args, key);
+  if (value !== undefined && !values.includes(value as T)) {
+    throw invalidArgs(`${key} must be one of ${values.join(', ')}`);
+  }
+  return value as T | undefined;
+}
+
+function inDateRange(date: string | null, from?: string, to?: string): boolean {
+  if (!from && !to) return true;
+  if (!date) return false;
+  return (!from || date >= from) && (!to || date <= to);
+}
+
+function describeRange(from?: string, to?: string): string {
+  if (from && to) return `${from}..${to}`;
+  if (from) return `from ${from}`;
+  if (to) return `until ${to}`;
+  return 'all dates';
+}
+
+// ============================================================
+// Entries
+// ============================================================
+
+function isEntryReadable(entry: DiaryEntry, scope: DiscussionToolScope): boolean {
+  if (entry.isPrivate || entry.aiAllowed === false) return false;
+  return scope.searchAll || scope.entryIds.includes(entry.id!);
+}
+
+/**
+ * Ids among the given entries that are private or closed to AI. Records captured from
+ * them (reminders, receipts) stay out of the conversation.
+ */
+async function getHiddenEntryIds(entryIds: number[]): Promise<Set<number>> {
+  const entries = await db.entries.bulkGet([...new Set(entryIds)]);
+  return new Set(
+    entries
+      .filter(entry => entry && (entry.isPrivate || entry.aiAllowed === false))
+      .map(entry => entry!.id!)
+  );
+}
+
+function snippet(text: string): string {
+  const cleaned = text.replace(/\s+/g, ' ').trim();
+  if (cleaned.length <= TOOL_LIMITS.maxSnippetChars) return cleaned;
+  return `${cleaned.slice(0, TOOL_LIMITS.maxSnippetChars - 3)}...`;
+}
+
+function addEntryEvidence(entry: DiaryEntry, context: DiscussionToolContext): EvidenceRef {
+  const title = `${format(new Date(entry.date), 'dd.MM.yyyy')} @ ${format(new Date(entry.createdAt), 'HH:mm')}`;
+  return context.evidence.add({
+    type: 'entry',
+    title,
+    subtitle: entry.tags.length > 0 ? entry.tags.join(', ') : undefined,
+    snippet: snippet(entry.text),
+    deepLink: `/entry/${entry.id}`,
+    entityId: entry.id!,
+  }, 'E');
+}
+
+function formatEntryBlock(ref: EvidenceRef, entry: DiaryEntry): string {
+  return `[${ref.id}] ${entry.date} mood ${entry.mood}${entry.tags.length ? ` tags: ${entry.tags.join(', ')}` : ''}\n${ref.snippet}`;
+}
+
+async function searchEntries(args: Record<string, unknown>, context: DiscussionToolContext): Promise<DiscussionToolResult> {
+  const query = readString(args, 'query');
+  const from = readDate(args, 'from');
+  const to = readDate(args, 'to');
+  const tag = readString(args, 'tag');
+  const limit = readLimit(args);
+  if (!query && !from && !to && !tag) throw invalidArgs('give a query, a date range or a tag');
+
+  const filters: SearchFilter[] = [];
+  if (from) filters.push({ type: 'date', op: '>=', value: from, negated: false });
+  if (to) filters.push({ type: 'date', op: '<=', value: to, negated: false });
+  if (tag) filters.push({ type: 'tag', value: tag, negated: false });
+
+  const results = await executeSearchQuery({ filters, text: query ?? '', excludedText: [], issues: [] });
+  const entries = results
+    .map(result => result.entry)
+    .filter(entry => isEntryReadable(entry, context.scope))
+    .slice(0, limit);
+
+  const evidence = entries.map(entry => addEntryEvidence(entry, context));
+  const blocks = entries.map((entry, i) => formatEntryBlock(evidence[i], entry));
+  const where = context.scope.searchAll ? 'diary' : 'discussion sources';
+  return {
+    text: blocks.length > 0 ? blocks.join('\n\n') : `No readable entries matched in the ${where}.`,
+    summary: `${entries.length} entries (${describeRange(from, to)}${query ? `, "${query}"` : ''})`,
+    evidence,
+  };
+}
+
+async function getDay(args: Record<string, unknown>, context: DiscussionToolContext): Promise<DiscussionToolResult> {
+  const date = readDate(args, 'date');
+  if (!date) throw invalidArgs('date is required');
+
+  const entries = (await db.entries.where('date').equals(date).sortBy('createdAt'))
+    .filter(entry => isEntryReadable(entry, context.scope));
+  const evidence = entries.map(entry => addEntryEvidence(entry, context));
+  const blocks = entries.map((entry, i) => formatEntryBlock(evidence[i], entry));
+
+  // The chronicle only joins when every entry it summarizes is readable here
+  const bio = await db.biographies.get(date);
+  const readableIds = new Set(entries.map(entry => entry.id));
+  if (bio?.status === 'complete' && bio.biography && bio.sourceEntryIds.every(id => readableIds.has(id))) {
+    const ref = context.evidence.add({
+      type: 'biography',
+      title: `Хроника ${format(new Date(date), 'dd.MM.yyyy')}`,
+      subtitle: bio.biography.title,
+      snippet: snippet(bio.biography.narrative),
+      deepLink: `/day/${date}`,
+      entityId: 0,
+      biographyDate: date,
+    }, 'B');
+    evidence.push(ref);
+    blocks.push(`[${ref.id}] Chronicle (derived summary): ${ref.snippet}`);
+  }
+
+  return {
+    text: blocks.length > 0 ? blocks.join('\n\n') : `Nothing readable on ${date}.`,
+    summary: `${entries.length} entries on ${date}`,
+    evidence,
+  };
+}
+
+// ============================================================
+// Receipts
+// ============================================================
+
+interface ReceiptFilters {
+  from?: string;
+  to?: string;
+  store?: string;
+  category?: string;
+}
+
+function readReceiptFilters(args: Record<string, unknown>): ReceiptFilters {
+  return {
+    from: readDate(args, 'from'),
+    to: readDate(args, 'to'),
+    store: readString(args, 'store')?.toLowerCase(),
+    category: readString(args, 'category')?.toLowerCase(),
+  };
+}
+
+async function findReceipts(filters: ReceiptFilters): Promise<Array<{ receipt: Receipt; items: ReceiptItem[] }>> {
+  const candidates = (await db.receipts.toArray())
+    .filter(receipt => inDateRange(receipt.date, filters.from, filters.to))
+    .filter(receipt => !filters.store || receipt.storeName.toLowerCase().includes(filters.store));
+  const hiddenEntryIds = await getHiddenEntryIds(
+    candidates.flatMap(receipt => receipt.entryId === null ? [] : [receipt.entryId])
+  );
+  const receipts = candidates
+    .filter(receipt => receipt.entryId === null || !hiddenEntryIds.has(receipt.entryId))
+    .sort((a, b) => (b.date ?? '').localeCompare(a.date ?? '') || b.createdAt - a.createdAt);
+
+  const items = await db.receiptItems.where('receiptId').anyOf(receipts.map(receipt => receipt.id!)).toArray();
+  const byReceipt = new Map<number, ReceiptItem[]>();
+  for (const item of items) {
+    const list = byReceipt.get(item.receiptId) ?? [];
+    list.push(item);
+    byReceipt.set(item.receiptId, list);
+  }
+
+  return receipts
+    .map(receipt => {
+      const receiptItems = byReceipt.get(receipt.id!) ?? [];
+      return {
+        receipt,
+        items: filters.category
+          ? receiptItems.filter(item => item.category?.toLowerCase().includes(filters.category!))
+          : receiptItems,
+      };
+    })
+    .filter(({ items: matched }) => !filters.category || matched.length > 0);
+}
+
+function addReceiptEvidence(receipt: Receipt, context: DiscussionToolContext): EvidenceRef {
+  return context.evidence.add({
+    type: 'receipt',
+    title: receipt.storeName,
+    subtitle: [receipt.date, formatMoney(receipt.total, receipt.currency)].filter(Boolean).join(' · '),
+    deepLink: `/receipts/${receipt.id}`,
+    entityId: receipt.id!,
+  }, RECEIPT_PREFIX);
+}
+
+function formatMoney(amount: number | null, currency: string | null): string {
+  if (amount === null) return '';
+  return `${amount.toFixed(2)}${currency ? ` ${currency}` : ''}`;
+}
+
+async function listReceipts(args: Record<string, unknown>, context: DiscussionToolContext): Promise<DiscussionToolResult> {
+  const filters = readReceiptFilters(args);
+  const limit = readLimit(args);
+  const matches = (await findReceipts(filters)).slice(0, limit);
+
+  const evidence: EvidenceRef[] = [];
+  const blocks = matches.map(({ receipt, items }) => {
+    const ref = addReceiptEvidence(receipt, context);
+    evidence.push(ref);
+    const itemLines = items.slice(0, TOOL_LIMITS.maxReceiptItems)
+      .map(item => `  - ${item.name}${item.totalPrice !== null ? `: ${item.totalPrice}` : ''}${item.category ? ` (${item.category})` : ''}`);
+    return [`[${ref.id}] ${receipt.date ?? 'no date'} ${receipt.storeName} total ${formatMoney(receipt.total, receipt.currency) || 'unknown'}`, ...itemLines].join('\n');
+  });
+
+  return {
+    text: blocks.length > 0 ? blocks.join('\n') : 'No receipts matched.',
+    summary: `${matches.length} receipts (${describeRange(filters.from, filters.to)})`,
+    evidence,
+  };
+}
+
+async function computeSpending(args: Record<string, unknown>, context: DiscussionToolContext): Promise<DiscussionToolResult> {
+  const filters = readReceiptFilters(args);
+  const groupBy = readEnum(args, 'groupBy', ['store', 'category', 'month'] as const);
+  const matches = await findReceipts(filters);
+
+  // Amounts in different currencies are never added together
+  const totals = new Map<string, number>();
+  const groups = new Map<string, number>();
+  let skipped = 0;
+
+  const add = (key: string, currency: string, amount: number) => {
+    const groupKey = `${key} ${currency}`;
+    groups.set(groupKey, (groups.get(groupKey) ?? 0) + amount);
+  };
+
+  for (const { receipt, items } of matches) {
+    const currency = receipt.currency ?? '?';
+    // A category filter or grouping sums line items; otherwise receipt totals
+    const useItems = Boolean(filters.category) || groupBy === 'category';
+    if (useItems) {
+      for (const item of items) {
+        if (item.totalPrice === null) {
+          skipped++;
+          continue;
+        }
+        totals.set(currency, (totals.get(currency) ?? 0) + item.totalPrice);
+        if (groupBy === 'category') add(item.category ?? 'uncategorized', currency, item.totalPrice);
+        else if (groupBy === 'store') add(receipt.storeName, currency, item.totalPrice);
+        else if (groupBy === 'month') add((receipt.date ?? 'no date').slice(0, 7), currency, item.totalPrice);
+      }
+    } else {
+      if (receipt.total === null) {
+        skipped++;
+        continue;
+      }
+      totals.set(currency, (totals.get(currency) ?? 0) + receipt.total);
+      if (groupBy === 'store') add(receipt.storeName, currency, receipt.total);
+      else if (groupBy === 'month') add((receipt.date ?? 'no date').slice(0, 7), currency, receipt.total);
+    }
+  }
+
+  const evidence = matches
+    .slice(0, TOOL_LIMITS.maxSpendingEvidence)
+    .map(({ receipt }) => addReceiptEvidence(receipt, context));
+
+  const totalText = totals.size > 0
+    ? [...totals].sort(([a], [b]) => a.localeCompare(b)).map(([currency, amount]) => `${amount.toFixed(2)} ${currency}`).join(' + ')
+    : '0';
+  const lines = [
+    `Receipts: ${matches.length} (${describeRange(filters.from, filters.to)}${filters.store ? `, store ~ "${filters.store}"` : ''}${filters.category ? `, category ~ "${filters.category}"` : ''})`,
+    `Total: ${totalText}`,
+  ];
+  if (groups.size > 0) {
+    lines.push(...[...groups].sort((a, b) => b[1] - a[1]).map(([key, amount]) => `  ${key}: ${amount.toFixed(2)}`));
+  }
+  if (skipped > 0) lines.push(`Skipped ${skipped} lines without an amount`);
+  if (evidence.length > 0) lines.push(`Largest sources: ${evidence.map(ref => `[${ref.id}]`).join(', ')}`);
+
+  return {
+    text: lines.join('\n'),
+    summary: `Total ${totalText} over ${matches.length} receipts`,
+    evidence,
+  };
+}
+
+// ============================================================
+// Reminders
+// ============================================================
+
+async function listReminders(args: Record<string, unknown>, context: DiscussionToolContext): Promise<DiscussionToolResult> {
+  const status = readEnum(args, 'status', ['pending', 'done', 'dismissed'] as const satisfies readonly ReminderStatus[]);
+  const from = readDate(args, 'from');
+  const to = readDate(args, 'to');
+  const limit = readLimit(args);
+
+  const reminders = (await db.reminders.orderBy('dueAt').toArray())
+    .filter(reminder => !status || reminder.status === status)
+    .filter(reminder => inDateRange(format(reminder.dueAt, 'yyyy-MM-dd'), from, to));
+
+  // Plan reminders have a discussion as their source, not an entry
+  const hiddenEntryIds = await getHiddenEntryIds(reminders.flatMap(reminder => reminder.entryId ?? []));
+  const visible = reminders
+    .filter(reminder => reminder.entryId === undefined || !hiddenEntryIds.has(reminder.entryId))
+    .slice(0, limit);
+
+  const evidence: EvidenceRef[] = [];
+  const blocks = visible.map(reminder => {
+    const due = format(reminder.dueAt, 'yyyy-MM-dd HH:mm');
+    const ref = context.evidence.add({
+      type: 'reminder',
+      title: reminder.actionText,
+      subtitle: `${due} · ${reminder.status}`,
+      deepLink: `/reminder/${reminder.id}`,
+      entityId: reminder.id!,
+    }, REMINDER_PREFIX);
+    evidence.push(ref);
+    return `[${ref.id}] ${due} ${reminder.status}${reminder.repeat !== 'none' ? ` repeats ${reminder.repeat}` : ''}: ${reminder.actionText}`;
+  });
+
+  return {
+    text: blocks.length > 0 ? blocks.join('\n') : 'No reminders matched.',
+    summary: `${visible.length} reminders${status ? ` (${status})` : ''}`,
+    evidence,
+  };
+}
+
+// ============================================================
+// Registry
+// ============================================================
+
+interface DiscussionToolDefinition {
+  signature: string;
+  description: string;
+  run(args: Record<string, unknown>, context: DiscussionToolContext): Promise<DiscussionToolResult>;
+}
+
+export const DISCUSSION_TOOLS: Record<DiscussionToolName, DiscussionToolDefinition> = {
+  search_entries: {
+    signature: 'search_entries({ query?, from?, to?, tag?, limit? })',
+    description: 'Find diary entries by words and/or a YYYY-MM-DD date range or tag.',
+    run: searchEntries,
+  },
+  get_day: {
+    signature: 'get_day({ date })',
+    description: 'All readable entries of one day plus its chronicle.',
+    run: getDay,
+  },
+  list_receipts: {
+    signature: 'list_receipts({ from?, to?, store?, category?, limit? })',
+    description: 'Scanned receipts with totals and top items, newest first.',
+    run: listReceipts,
+  },
+  compute_spending: {
+    signature: 'compute_spending({ from?, to?, store?, category?, groupBy?: "store" | "category" | "month" })',
+    description: 'Exact spending totals from receipts, per currency. Use it instead of adding numbers yourself.',
+    run: computeSpending,
+  },
+  list_reminders: {
+    signature: 'list_reminders({ status?: "pending" | "done" | "dismissed", from?, to?, limit? })',
+    description: 'Reminders by due date.',
+    run: listReminders,
+  },
+};
+
+export function isDiscussionToolName(name: unknown): name is DiscussionToolName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(DISCUSSION_TOOLS, name);
+}
+
+/**
+ * Tool list for the system prompt.
+ */
+export function describeDiscussionTools(): string {
+  return Object.values(DISCUSSION_TOOLS)
+    .map(tool => `- ${tool.signature} — ${tool.description}`)
+    .join('\n');
+}
+
+/**
+ * Run one tool call.
+ * @throws Error('TOOL_UNKNOWN' | 'TOOL_ARGS_INVALID: <detail>')
+ */
+export async function runDiscussionTool(
+  call: DiscussionToolCall,
+  scope: DiscussionToolScope,
+  evidence: EvidenceRegistry
+): Promise<DiscussionToolResult> {
+  if (!isDiscussionToolName(call.tool)) {
+    throw new Error('TOOL_UNKNOWN');
+  }
+  return DISCUSSION_TOOLS[call.tool].run(call.args ?? {}, { scope, evidence });
+}
@@ -1,5 +1,9 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+const mocks = vi.hoisted(() => ({
+  runDiscussionTool: vi.fn(),
+}));
+
 vi.mock('@/lib/db', () => ({}));
 vi.mock('@/lib/aiConfig', () => ({
   loadAISettings: vi.fn(() => ({ provider: 'test' })),
@@ -7,12 +11,23 @@ vi.mock('@/lib/aiConfig', () => ({
 vi.mock('@/lib/aiUtils', () => ({
   getProviderKeyHeader: vi.fn(() => ({ Authorization: 'Bearer test-key' })),
 }));
+vi.mock('@/lib/aiUsage', () => ({
+  ensureAIBudget: vi.fn(async () => undefined),
+  estimateMessageTokens: vi.fn(() => 0),
+  estimateTokens: vi.fn((text: string) => Math.ceil(text.length / 4)),
+  recordAIUsage: vi.fn(async () => undefined),
+}));
+vi.mock('@/lib/ai/discussionTools', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./discussionTools')>(),
+  runDiscussionTool: mocks.runDiscussionTool,
+}));
 vi.mock('@/lib/logger', () => ({
   logger: {
     error: vi.fn(),
   },
 }));
 
+import { ensureAIBudget } from '@/lib/aiUsage';
 import { sendDiscussionMessage } from './discussions';
 
 function createSseResponse(content: string): Response {
@@ -237,3 +252,105 @@ describe('discussion history replay truth', () => {
     expect(body.messages[0].content).toContain('Do not treat prior aliases like `E1` or `B1` as cross-turn identity');
   });
 });
+
+describe('discussion tool loop', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    mocks.runDiscussionTool.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  it('runs requested tools, feeds results back and keeps tool evidence citable', async () => {
+    fetchMock
+      .mockResolvedValueOnce(createSseResponse(JSON.stringify({
+        toolCalls: [
+          { tool: 'compute_spending', args: { category: 'groceries' } },
+          { tool: 'get_day', args: { date: 'soon' } },
+        ],
+      })))
+      .mockResolvedValueOnce(createSseResponse(JSON.stringify({
+        answer: 'Groceries cost 12 EUR [R1].',
+        usedEvidenceIds: ['R1'],
+        questions: [],
+      })));
+    mocks.runDiscussionTool.mockImplementation(async (call, _scope, registry) => {
+      if (call.tool === 'get_day') throw new Error('TOOL_ARGS_INVALID: date must be YYYY-MM-DD');
+      const ref = registry.add({ type: 'receipt', title: 'Lidl', deepLink: '/receipts/3', entityId: 3 }, 'R');
+      return { text: `[${ref.id}] Total: 12.00 EUR`, summary: 'Total 12.00 EUR over 1 receipts', evidence: [ref] };
+    });
+    const steps: string[] = [];
+
+    const response = await sendDiscussionMessage({
+      sessionId: 5,
+      userText: 'How much on groceries?',
+      mode: 'compute',
+      language: 'en',
+      contextPack: { contextText: 'Current context', evidence: [] },
+      history: [],
+      tools: { entryIds: [1], searchAll: false },
+      onToolStep: step => steps.push(step.tool),
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const followUp = JSON.parse(fetchMock.mock.calls[1][1].body as string).messages;
+    expect(followUp.at(-1).content).toContain('[R1] Total: 12.00 EUR');
+    expect(followUp.at(-1).content).toContain('[tool get_day] error: TOOL_ARGS_INVALID');
+
+    expect(steps).toEqual(['compute_spending', 'get_day']);
+    expect(response.answer).toBe('Groceries cost 12 EUR [R1].');
+    expect(response.usedEvidenceIds).toEqual(['R1']);
+    expect(response.toolEvidence).toEqual([expect.objectContaining({ id: 'R1', type: 'receipt' })]);
+    expect(response.toolTrace?.[1]).toMatchObject({ tool: 'get_day', error: 'TOOL_ARGS_INVALID: date must be YYYY-MM-DD' });
+  });
+
+  it('asks for a final answer once the step limit is reached', async () => {
+    const toolRound = () => createSseResponse(JSON.stringify({
+      toolCalls: [{ tool: 'list_reminders', args: {} }],
+    }));
+    fetchMock
+      .mockResolvedValueOnce(toolRound())
+      .mockResolvedValueOnce(toolRound())
+      .mockResolvedValueOnce(toolRound())
+      .mockResolvedValueOnce(createSseResponse(JSON.stringify({ answer: 'Done', usedEvidenceIds: [] })));
+    mocks.runDiscussionTool.mockResolvedValue({ text: 'No reminders matched.', summary: '0 reminders', evidence: [] });
+
+    const response = await sendDiscussionMessage({
+      sessionId: 6,
+      userText: 'What is due?',
+      mode: 'discuss',
+      language: 'en',
+      contextPack: { contextText: 'Current context', evidence: [] },
+      history: [],
+      tools: { entryIds: [1], searchAll: false },
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    const lastPrompt = JSON.parse(fetchMock.mock.calls[3][1].body as string).messages.at(-1).content;
+    expect(lastPrompt).toContain('TOOL_LIMIT_REACHED');
+    expect(response.toolTrace).toHaveLength(3);
+    expect(response.answer).toBe('Done');
+  });
+
+  it('stops between rounds once the budget is exhausted', async () => {
+    fetchMock.mockResolvedValueOnce(createSseResponse(JSON.stringify({
+      toolCalls: [{ tool: 'list_reminders', args: {} }],
+    })));
+    mocks.runDiscussionTool.mockResolvedValue({ text: 'No reminders matched.', summary: '0 reminders', evidence: [] });
+    vi.mocked(ensureAIBudget)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('AI budget exceeded'));
+
+    await expect(sendDiscussionMessage({
+      sessionId: 7,
+      userText: 'What is due?',
+      mode: 'discuss',
+      language: 'en',
+      contextPack: { contextText: 'Current context', evidence: [] },
+      history: [],
+      tools: { entryIds: [1], searchAll: false },
+    })).rejects.toThrow('AI budget exceeded');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
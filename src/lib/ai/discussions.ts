@@ -1,10 +1,24 @@
-import { ContextPackResult, EvidenceRef, deriveStableEvidenceHandle } from '@/lib/librarian/contextPack';
+import { ContextPackResult, EvidenceRef, EvidenceType, deriveStableEvidenceHandle } from '@/lib/librarian/contextPack';
 import { DiscussionMessage, DiscussionMode } from '@/lib/db';
-import { loadAISettings } from '@/lib/aiConfig';
+import { format } from 'date-fns';
+import { getModelForProfile, loadAISettings, type AIProfile, type AIProvider, type AISettings } from '@/lib/aiConfig';
 import { getProviderKeyHeader } from '@/lib/aiUtils';
+import type { ChatMessage } from '@/lib/aiService';
+import { localChatCompletion } from '@/lib/localLLM';
+import { ensureAIBudget, estimateMessageTokens, estimateTokens, recordAIUsage } from '@/lib/aiUsage';
+import {
+  createEvidenceRegistry,
+  describeDiscussionTools,
+  runDiscussionTool,
+  type DiscussionToolCall,
+  type DiscussionToolScope,
+} from '@/lib/ai/discussionTools';
+import { getBranchPath } from '@/lib/ai/discussionBranches';
 import { logger } from '@/lib/logger';
 
 const AI_CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-chat`;
+// The edge function is called without a provider, so it always uses the built-in gateway
+const DISCUSSION_EDGE_MODEL = 'google/gemini-3-flash-preview';
 
 export interface DiscussionAIRequest {
   sessionId: number;
@@ -12,7 +26,25 @@ export interface DiscussionAIRequest {
   mode: DiscussionMode;
   contextPack: ContextPackResult;
   history: DiscussionMessage[];
+  /**
+   * Message this turn follows: history becomes the branch ending there (null = no history).
+   * Without it, history is sent as given.
+   */
+  parentId?: number | null;
+  /** Overrides the default model choice, e.g. when regenerating an answer */
+  profile?: AIProfile;
   language: 'ru' | 'en';
+  /** Lets the model call diary tools during the turn; without it the turn is single-shot */
+  tools?: DiscussionToolScope;
+  onToolStep?: (step: DiscussionToolStep) => void;
+}
+
+export interface DiscussionToolStep {
+  tool: string;
+  args: Record<string, unknown>;
+  summary: string;
+  evidenceIds: string[];
+  error?: string;
 }
 
 export interface AnalysisArtifact {
@@ -56,6 +88,8 @@ export interface DiscussionAIResponse {
   computeArtifact?: ComputeArtifact;
   planArtifact?: PlanArtifact;
   questions?: string[];
+  toolTrace?: DiscussionToolStep[];
+  toolEvidence?: EvidenceRef[];   // Sources tools added beyond the context pack
 }
 
 const HISTORY_LIMITS = {
@@ -67,6 +101,12 @@ const HISTORY_LIMITS = {
   maxDraftBodyChars: 600,
 } as const;
 
+const TOOL_LOOP_LIMITS = {
+  maxSteps: 3,            // Model rounds that may call tools before it must answer
+  maxCallsPerStep: 3,
+  maxResultTokens: 3000,  // Tool output across the whole turn
+} as const;
+
 // Get provider key header
 function getDiscussionHeaders(): Record<string, string> {
   const settings = loadAISettings();
@@ -162,19 +202,45 @@ priority: "high" | "medium" | "low". dueHint: time hint.`,
   },
 };
 
+function buildToolInstructions(language: 'ru' | 'en'): string {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const example = '{"toolCalls": [{"tool": "search_entries", "args": {"from": "2026-03-01", "to": "2026-03-31"}}]}';
+
+  if (language === 'ru') {
+    return `ИНСТРУМЕНТЫ (сегодня ${today}):
+Если КОНТЕКСТА не хватает, запроси данные. Для этого ответь ТОЛЬКО таким JSON, без ответа пользователю:
+${example}
+До ${TOOL_LOOP_LIMITS.maxCallsPerStep} вызовов за раз, до ${TOOL_LOOP_LIMITS.maxSteps} раундов. Даты — YYYY-MM-DD.
+${describeDiscussionTools()}
+Результаты придут сообщением TOOL_RESULTS с ID источников: [E#] записи, [B#] хроники, [R#] чеки, [N#] напоминания. Цитируй их так же, как КОНТЕКСТ. Суммы бери из compute_spending, не считай вручную.
+Когда данных достаточно, верни итоговый ответ в формате ниже.`;
+  }
+
+  return `TOOLS (today is ${today}):
+If the CONTEXT is not enough, request data. To do so reply ONLY with JSON like this, without answering the user:
+${example}
+Up to ${TOOL_LOOP_LIMITS.maxCallsPerStep} calls at once, up to ${TOOL_LOOP_LIMITS.maxSteps} rounds. Dates are YYYY-MM-DD.
+${describeDiscussionTools()}
+Results arrive in a TOOL_RESULTS message with source IDs: [E#] entries, [B#] chronicles, [R#] receipts, [N#] reminders. Cite them like the CONTEXT. Take sums from compute_spending instead of adding numbers yourself.
+When you have enough, return the final answer in the format below.`;
+}
+
 function buildSystemPrompt(
   contextText: string,
   mode: DiscussionMode,
-  language: 'ru' | 'en'
+  language: 'ru' | 'en',
+  withTools = false
 ): string {
-  const modeInstruction = MODE_INSTRUCTIONS[mode][language];
+  const modeInstruction = withTools
+    ? `${MODE_INSTRUCTIONS[mode][language]}\n\n${buildToolInstructions(language)}`
+    : MODE_INSTRUCTIONS[mode][language];
   
   if (language === 'ru') {
     return `Ты ассистент Cyber-Grimoire для функции Обсуждений.
 
 ПРАВИЛА:
 1. Используй ТОЛЬКО предоставленный КОНТЕКСТ. Не выдумывай факты.
-2. Цитируй источники, используя ID типа [E1], [E2], [B1] и т.д.
+2. Цитируй источники, используя ID типа [E1], [E2], [B1], [D1] и т.д.
 3. НИКОГДА не цитируй записи дословно — только перефразируй.
 4. Отвечай на русском языке.
 5. Будь кратким и полезным.
@@ -182,6 +248,7 @@ function buildSystemPrompt(
 ТИПЫ ИСТОЧНИКОВ:
 - [E1], [E2]... — записи дневника (авторские первичные источники: конкретные события, мысли, детали)
 - [B1], [B2]... — хроники (производные AI-сводки дней с общей картиной)
+- [D1], [D2]... — страницы импортированных документов (внешние материалы пользователя, не дневник; указывай страницу)
 
 ПРАВИЛО ПРИОРИТЕТА ИСТОЧНИКОВ:
 - Для конкретных фактов, дат, цитат, формулировок и деталей опирайся прежде всего на [E#].
@@ -213,7 +280,7 @@ ${contextText || 'Контекст не предоставлен.'}
 
 RULES:
 1. Use ONLY the provided CONTEXT. Do not invent facts.
-2. Cite sources using evidence IDs like [E1], [E2], [B1], etc.
+2. Cite sources using evidence IDs like [E1], [E2], [B1], [D1], etc.
 3. NEVER quote entries verbatim — only paraphrase.
 4. Respond in English.
 5. Keep responses focused and helpful.
@@ -221,6 +288,7 @@ RULES:
 SOURCE TYPES:
 - [E1], [E2]... — diary entries (authored primary sources: specific events, thoughts, details)
 - [B1], [B2]... — chronicles (derived AI summaries of days with the overall picture)
+- [D1], [D2]... — pages of imported documents (material the user imported, not diary writing; mention the page)
 
 SOURCE PRECEDENCE RULE:
 - Use [E#] as the primary source for concrete facts, dates, wording, and specifics.
@@ -260,7 +328,7 @@ function compactText(text: string, maxChars: number): string {
 
 function neutralizeHistoricalAnswerAliases(answer: string): string {
   return answer
-    .replace(/\s*\[(?:E|B|D)\d+\]/g, '')
+    .replace(/\s*\[(?:E|B|D|R|N)\d+\]/g, '')
     .replace(/[ \t]+([.,;:!?])/g, '$1')
     .replace(/[ \t]{2,}/g, ' ')
     .trim();
@@ -279,7 +347,7 @@ function serializeGrounding(
   evidenceRefs: DiscussionMessage['evidenceRefs']
 ): Array<{
   handle: string;
-  type: 'entry' | 'document_page' | 'document' | 'biography';
+  type: EvidenceType;
   supportedByHandles?: string[];
   sourceEntryCount?: number;
 }> | undefined {
@@ -290,7 +358,7 @@ function serializeGrounding(
   return evidenceRefs.slice(0, HISTORY_LIMITS.maxGroundingRefs).map((ref) => {
     const groundingRef: {
       handle: string;
-      type: 'entry' | 'document_page' | 'document' | 'biography';
+      type: EvidenceType;
       supportedByHandles?: string[];
       sourceEntryCount?: number;
     } = {
@@ -396,7 +464,8 @@ function parseAIResponse(responseText: string, allEvidence: EvidenceRef[]): Disc
     if (jsonMatch) {
       const parsed = JSON.parse(jsonMatch[0]);
       return {
-        answer: parsed.answer || responseText,
+        // A tool request that reached this point is not an answer
+        answer: parsed.answer || (parsed.toolCalls ? '' : responseText),
         usedEvidenceIds: parsed.usedEvidenceIds || allEvidence.map(e => e.id),
         draftArtifact: parsed.draftArtifact || undefined,
         analysisArtifact: parsed.analysisArtifact || undefined,
@@ -487,62 +556,194 @@ async function parseSSEStream(response: Response): Promise<string> {
   return fullText;
 }
 
+async function requestEdgeCompletion(messages: ChatMessage[], model: string, provider: AIProvider): Promise<string> {
+  const response = await fetch(AI_CHAT_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...getDiscussionHeaders(),
+    },
+    body: JSON.stringify({
+      messages,
+      model,
+      maxTokens: 2048,
+      temperature: 0.7,
+      provider,
+    }),
+  });
+  
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    
+    if (response.status === 401) {
+      throw new Error('AI authorization failed - check your API key');
+    }
+    
+    if (response.status === 429) {
+      throw new Error('Rate limit exceeded. Please try again later.');
+    }
+    if (response.status === 402) {
+      throw new Error('Payment required. Please add credits.');
+    }
+    
+    throw new Error(errorData.error || `AI request failed: ${response.status}`);
+  }
+  
+  // Parse SSE stream
+  return await parseSSEStream(response);
+}
+
+async function completeDiscussionTurn(
+  messages: ChatMessage[],
+  settings: AISettings,
+  language: 'ru' | 'en',
+  profile?: AIProfile
+): Promise<string> {
+  const provider: AIProvider = settings.provider || 'lovable';
+  const isLocal = provider === 'local';
+  // The fixed discussion model is on the default gateway; other providers use their own profile models
+  const modelProfile = provider === 'lovable' ? profile : profile ?? settings.chatProfile;
+  const model = modelProfile ? getModelForProfile(modelProfile, provider) : DISCUSSION_EDGE_MODEL;
+
+  const fullText = isLocal
+    ? await localChatCompletion({
+        messages,
+        model,
+        maxTokens: 2048,
+        temperature: 0.7,
+        language,
+      }, settings)
+    : await requestEdgeCompletion(messages, model, provider);
+
+  if (!fullText) {
+    throw new Error('Empty AI response');
+  }
+
+  await recordAIUsage({
+    feature: 'discussion',
+    provider,
+    model,
+    profile: modelProfile,
+    extraPromptTokens: estimateMessageTokens(messages),
+    completionText: fullText,
+  });
+
+  return fullText;
+}
+
+function parseToolCalls(responseText: string): DiscussionToolCall[] | null {
+  try {
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return null;
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (parsed.answer || !Array.isArray(parsed.toolCalls) || parsed.toolCalls.length === 0) return null;
+
+    return parsed.toolCalls.map((call: { tool?: unknown; args?: unknown }) => ({
+      tool: call?.tool,
+      args: call?.args && typeof call.args === 'object' ? call.args : {},
+    }));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Let the model call tools until it answers or hits the step/token limits; at the limit
+ * it gets one more round to answer from what it has.
+ */
+async function runToolLoop(
+  messages: ChatMessage[],
+  request: DiscussionAIRequest,
+  tools: DiscussionToolScope,
+  settings: AISettings
+): Promise<DiscussionAIResponse> {
+  const registry = createEvidenceRegistry(request.contextPack.evidence);
+  const trace: DiscussionToolStep[] = [];
+  const conversation = [...messages];
+  let resultTokens = 0;
+  let mustAnswer = false;
+
+  for (let round = 0; ; round++) {
+    // Every round is a billed model call: a hard budget stop applies mid-turn too
+    if (round > 0) await ensureAIBudget(request.language);
+    const fullText = await completeDiscussionTurn(conversation, settings, request.language, request.profile);
+    const calls = mustAnswer ? null : parseToolCalls(fullText);
+
+    if (!calls) {
+      const response = parseAIResponse(fullText, registry.refs);
+      if (!response.answer) {
+        throw new Error('Empty AI response');
+      }
+      return {
+        ...response,
+        toolTrace: trace.length > 0 ? trace : undefined,
+        toolEvidence: registry.refs.slice(request.contextPack.evidence.length),
+      };
+    }
+
+    const blocks: string[] = [];
+    for (const call of calls.slice(0, TOOL_LOOP_LIMITS.maxCallsPerStep)) {
+      const step: DiscussionToolStep = { tool: String(call.tool), args: call.args, summary: '', evidenceIds: [] };
+      let block: string;
+      try {
+        const result = await runDiscussionTool(call, tools, registry);
+        step.summary = result.summary;
+        step.evidenceIds = result.evidence.map(ref => ref.id);
+        block = `[tool ${step.tool}]\n${result.text}`;
+      } catch (error) {
+        step.error = error instanceof Error ? error.message : String(error);
+        step.summary = step.error;
+        block = `[tool ${step.tool}] error: ${step.error}`;
+      }
+
+      const remainingTokens = TOOL_LOOP_LIMITS.maxResultTokens - resultTokens;
+      if (estimateTokens(block) > remainingTokens) {
+        block = `${block.slice(0, Math.max(remainingTokens, 0) * 4)}\n[truncated: tool output limit reached]`;
+      }
+      resultTokens += estimateTokens(block);
+      blocks.push(block);
+      trace.push(step);
+      request.onToolStep?.(step);
+    }
+
+    mustAnswer = round + 1 >= TOOL_LOOP_LIMITS.maxSteps || resultTokens >= TOOL_LOOP_LIMITS.maxResultTokens;
+    conversation.push(
+      { role: 'assistant', content: fullText },
+      {
+        role: 'user',
+        content: `TOOL_RESULTS\n${blocks.join('\n\n')}${mustAnswer
+          ? '\n\nTOOL_LIMIT_REACHED: answer now in the final JSON format, without toolCalls.'
+          : ''}`,
+      },
+    );
+  }
+}
+
 export async function sendDiscussionMessage(
   request: DiscussionAIRequest,
   retryWithPin = true
 ): Promise<DiscussionAIResponse> {
-  const { userText, mode, contextPack, history, language } = request;
-  
-  
+  const { userText, mode, contextPack, history, parentId, profile, language, tools } = request;
   
-  const systemPrompt = buildSystemPrompt(contextPack.contextText, mode, language);
-  const historyMessages = buildHistoryMessages(history);
+  const systemPrompt = buildSystemPrompt(contextPack.contextText, mode, language, Boolean(tools));
+  const branch = parentId === undefined ? history : parentId === null ? [] : getBranchPath(history, parentId);
+  const historyMessages = buildHistoryMessages(branch);
   
-  const messages = [
+  const messages: ChatMessage[] = [
     { role: 'system' as const, content: systemPrompt },
     ...historyMessages,
     { role: 'user' as const, content: userText },
   ];
   
   try {
-    const response = await fetch(AI_CHAT_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...getDiscussionHeaders(),
-      },
-      body: JSON.stringify({
-        messages,
-        model: 'google/gemini-3-flash-preview',
-        maxTokens: 2048,
-        temperature: 0.7,
-      }),
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      
-      if (response.status === 401) {
-        throw new Error('AI authorization failed - check your API key');
-      }
-      
-      if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again later.');
-      }
-      if (response.status === 402) {
-        throw new Error('Payment required. Please add credits.');
-      }
-      
-      throw new Error(errorData.error || `AI request failed: ${response.status}`);
-    }
-    
-    // Parse SSE stream
-    const fullText = await parseSSEStream(response);
-    
-    if (!fullText) {
-      throw new Error('Empty AI response');
+    const settings = loadAISettings();
+    await ensureAIBudget(language);
+
+    if (tools) {
+      return await runToolLoop(messages, request, tools, settings);
     }
-    
+
+    const fullText = await completeDiscussionTurn(messages, settings, language, profile);
     return parseAIResponse(fullText, contextPack.evidence);
   } catch (error) {
     logger.error('Discussions', 'AI request failed', error as Error);
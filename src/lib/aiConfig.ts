@@ -1,8 +1,10 @@
 // AI Configuration Types and Constants
-// All AI requests go through Edge Functions - no client-side keys needed
+// AI requests go through Edge Functions - no client-side keys needed.
+// The exception is the 'local' provider, which talks to an OpenAI-compatible
+// server on this device (see localLLM.ts).
 
 export type AIProfile = 'economy' | 'fast' | 'balanced' | 'quality' | 'biography';
-export type AIProvider = 'lovable' | 'openrouter' | 'minimax';
+export type AIProvider = 'lovable' | 'openrouter' | 'minimax' | 'local';
 
 export interface AIProfileConfig {
   id: AIProfile;
@@ -35,6 +37,11 @@ export const AI_PROVIDERS: Record<AIProvider, AIProviderInfo> = {
     name: 'MiniMax',
     description: { ru: 'MiniMax модели', en: 'MiniMax models' },
   },
+  local: {
+    id: 'local',
+    name: 'Local',
+    description: { ru: 'Своя модель на устройстве', en: 'Your own on-device model' },
+  },
 };
 
 // Provider-specific model mappings per profile
@@ -60,6 +67,14 @@ export const PROVIDER_MODELS: Record<AIProvider, Record<AIProfile, string>> = {
     quality: 'MiniMax-M2.7',
     biography: 'MiniMax-M2.7',
   },
+  // Defaults only: the user maps profiles to whatever their server has pulled
+  local: {
+    economy: 'llama3.2:3b',
+    fast: 'llama3.2:3b',
+    balanced: 'llama3.1:8b',
+    quality: 'llama3.1:8b',
+    biography: 'llama3.1:8b',
+  },
 };
 
 // Profile to model mapping - used when calling Edge Function (default: lovable)
@@ -121,8 +136,15 @@ export interface AISettings {
   autoTags: boolean;
   autoScreenshot: boolean;
   autoScreenshotBlurPrivate: boolean;
+  serverEmbeddings: boolean;     // Embed entries for the librarian via the ai-embed edge function
   openrouterApiKey: string;
   minimaxApiKey: string;
+  localEndpoint: string;         // OpenAI-compatible base URL, loopback only (e.g. Ollama, llama.cpp)
+  localApiKey: string;           // Optional bearer token for the local server
+  localModels: Record<AIProfile, string>;
+  budgetDailyUsd: number;        // Estimated spend limits, 0 = no limit (see aiUsage.ts)
+  budgetMonthlyUsd: number;
+  budgetMode: 'warn' | 'block';  // 'block' stops AI calls once a limit is reached
 }
 
 // Get the user-provided API key for the current provider
@@ -149,8 +171,15 @@ export const DEFAULT_AI_SETTINGS: AISettings = {
   autoTags: true,
   autoScreenshot: false,
   autoScreenshotBlurPrivate: true,
+  serverEmbeddings: false,
   openrouterApiKey: '',
   minimaxApiKey: '',
+  localEndpoint: 'http://localhost:11434/v1',
+  localApiKey: '',
+  localModels: { ...PROVIDER_MODELS.local },
+  budgetDailyUsd: 0,
+  budgetMonthlyUsd: 0,
+  budgetMode: 'warn',
 };
 
 // Storage key
@@ -162,7 +191,11 @@ export function loadAISettings(): AISettings {
     const stored = localStorage.getItem(AI_SETTINGS_KEY);
     if (stored) {
       const parsed = JSON.parse(stored);
-      return { ...DEFAULT_AI_SETTINGS, ...parsed };
+      return {
+        ...DEFAULT_AI_SETTINGS,
+        ...parsed,
+        localModels: { ...DEFAULT_AI_SETTINGS.localModels, ...parsed.localModels },
+      };
     }
   } catch (e) {
     console.warn('Failed to load AI settings:', e);
@@ -181,7 +214,11 @@ export function saveAISettings(settings: AISettings): void {
 
 // Get model for a profile and provider - used when making API calls
 export function getModelForProfile(profile: AIProfile, provider?: AIProvider): string {
-  const p = provider || loadAISettings().provider || 'lovable';
+  const settings = loadAISettings();
+  const p = provider || settings.provider || 'lovable';
+  if (p === 'local') {
+    return settings.localModels[profile]?.trim() || PROVIDER_MODELS.local[profile];
+  }
   return PROVIDER_MODELS[p][profile];
 }
 
@@ -194,3 +231,8 @@ export function getProfileConfig(profile: AIProfile): AIProfileConfig {
 export function getCurrentProvider(): AIProvider {
   return loadAISettings().provider || 'lovable';
 }
+
+// Provider behind edge function calls: a local model has no edge route, so those run on the default gateway
+export function getEdgeProvider(settings: AISettings): Exclude<AIProvider, 'local'> {
+  return settings.provider === 'local' ? 'lovable' : settings.provider || 'lovable';
+}
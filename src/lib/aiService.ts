@@ -1,10 +1,12 @@
 import { 
   AIProfile, 
   AI_PROFILES, 
-  PROVIDER_MODELS,
+  getModelForProfile,
   loadAISettings,
 } from './aiConfig';
-import { getAITokenHeader, parseAIError, collectSSEStream } from './aiUtils';
+import { getAITokenHeader, parseAIError, collectSSEStream, type SSEUsage } from './aiUtils';
+import { localChatCompletion, testLocalConnection } from './localLLM';
+import { ensureAIBudget, estimateMessageTokens, recordAIUsage } from './aiUsage';
 
 // Edge function URLs - all AI goes through server
 const AI_CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-chat`;
@@ -55,7 +57,7 @@ VISION CAPABILITY:
   return prompt;
 }
 
-// Stream chat completion via edge function
+// Stream chat completion via edge function (or the local server for the 'local' provider)
 export async function streamChatCompletion(
   messages: ChatMessage[],
   profile: AIProfile,
@@ -70,7 +72,28 @@ export async function streamChatCompletion(
   ];
   try {
     const settings = loadAISettings();
-    const effectiveModel = PROVIDER_MODELS[settings.provider][profile];
+    const effectiveModel = getModelForProfile(profile, settings.provider);
+    await ensureAIBudget();
+
+    if (settings.provider === 'local') {
+      const fullResponse = await localChatCompletion({
+        messages: requestMessages,
+        model: effectiveModel,
+        maxTokens: profileConfig.maxTokens,
+        temperature: profileConfig.temperature,
+        onToken: callbacks.onToken,
+      }, settings);
+      await recordAIUsage({
+        feature: 'chat',
+        provider: 'local',
+        model: effectiveModel,
+        profile,
+        extraPromptTokens: estimateMessageTokens(requestMessages),
+        completionText: fullResponse,
+      });
+      callbacks.onComplete(fullResponse);
+      return;
+    }
     
     const response = await fetch(AI_CHAT_URL, {
       method: 'POST',
@@ -97,17 +120,31 @@ export async function streamChatCompletion(
       throw new Error('Нет ответа от сервера');
     }
     
-    const fullResponse = await collectSSEStream(response, callbacks.onToken);
+    let usage: SSEUsage | undefined;
+    const fullResponse = await collectSSEStream(response, callbacks.onToken, reported => { usage = reported; });
+    await recordAIUsage({
+      feature: 'chat',
+      provider: settings.provider,
+      model: effectiveModel,
+      profile,
+      promptTokens: usage?.promptTokens,
+      completionTokens: usage?.completionTokens,
+      extraPromptTokens: estimateMessageTokens(requestMessages),
+      completionText: fullResponse,
+    });
     callbacks.onComplete(fullResponse);
   } catch (error) {
     callbacks.onError(error instanceof Error ? error : new Error(String(error)));
   }
 }
 
-// Test AI connection via edge function
+// Test AI connection via edge function, or the local server directly
 export async function testAIConnection(language: 'ru' | 'en' = 'ru'): Promise<{ success: boolean; message: string; requestId?: string }> {
   try {
     const settings = loadAISettings();
+    if (settings.provider === 'local') {
+      return await testLocalConnection(language, settings);
+    }
     const response = await fetch(AI_TEST_URL, {
       method: 'POST',
       headers: {
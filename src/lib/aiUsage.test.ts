@@ -0,0 +1,155 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  toastWarning: vi.fn(),
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    warning: mocks.toastWarning,
+  },
+}));
+
+import { DEFAULT_AI_SETTINGS, saveAISettings, type AISettings } from './aiConfig';
+import { db } from './db';
+import {
+  ensureAIBudget,
+  estimateCostUsd,
+  estimateMessageTokens,
+  getAIBudgetStates,
+  getAIUsageSince,
+  isAIBudgetError,
+  recordAIUsage,
+  summarizeAIUsage,
+} from './aiUsage';
+
+function applySettings(overrides: Partial<AISettings> = {}) {
+  saveAISettings({ ...DEFAULT_AI_SETTINGS, enabled: true, ...overrides });
+}
+
+beforeEach(async () => {
+  localStorage.clear();
+  mocks.toastWarning.mockReset();
+  await db.aiUsage.clear();
+  applySettings();
+});
+
+describe('estimates', () => {
+  it('counts text by length and images by a flat rate', () => {
+    expect(estimateMessageTokens([
+      { role: 'system', content: 'a'.repeat(40) },
+      { role: 'user', content: [{ type: 'text', text: 'abcd' }, { type: 'image_url', image_url: { url: 'data:' } }] },
+    ])).toBe(10 + 1 + 1000);
+  });
+
+  it('prices by model and treats local models as free', () => {
+    expect(estimateCostUsd('lovable', 'google/gemini-2.5-pro', 1_000_000, 100_000)).toBeCloseTo(2.25);
+    expect(estimateCostUsd('lovable', 'unknown-model', 1_000_000, 0)).toBeCloseTo(0.3);
+    expect(estimateCostUsd('local', 'llama3.1:8b', 1_000_000, 1_000_000)).toBe(0);
+  });
+});
+
+describe('usage ledger', () => {
+  it('keeps reported token counts and estimates missing ones', async () => {
+    await recordAIUsage({
+      feature: 'chat',
+      provider: 'lovable',
+      model: 'google/gemini-2.5-flash',
+      profile: 'balanced',
+      promptTokens: 1200,
+      completionTokens: 300,
+    });
+    await recordAIUsage({
+      feature: 'insights',
+      provider: 'local',
+      model: 'llama3.1:8b',
+      promptText: 'x'.repeat(400),
+      completionText: 'y'.repeat(80),
+    });
+
+    const [chat, insights] = await getAIUsageSince(0);
+    expect(chat).toMatchObject({ totalTokens: 1500, estimated: false });
+    expect(chat.costUsd).toBeGreaterThan(0);
+    expect(insights).toMatchObject({ promptTokens: 100, completionTokens: 20, estimated: true, costUsd: 0 });
+  });
+
+  it('splits a reported total around the estimated completion', async () => {
+    await recordAIUsage({
+      feature: 'biography',
+      provider: 'lovable',
+      model: 'google/gemini-2.5-pro',
+      totalTokens: 2000,
+      completionText: 'z'.repeat(400),
+    });
+
+    const [record] = await getAIUsageSince(0);
+    expect(record).toMatchObject({ promptTokens: 1900, completionTokens: 100, totalTokens: 2000, estimated: false });
+  });
+
+  it('summarizes by feature, model and profile', async () => {
+    await recordAIUsage({ feature: 'chat', provider: 'lovable', model: 'm1', profile: 'fast', promptTokens: 10, completionTokens: 5 });
+    await recordAIUsage({ feature: 'chat', provider: 'lovable', model: 'm2', profile: 'fast', promptTokens: 20, completionTokens: 5 });
+    await recordAIUsage({ feature: 'receipt', provider: 'lovable', model: 'm1', promptTokens: 30, completionTokens: 0 });
+
+    const summary = summarizeAIUsage(await getAIUsageSince(0));
+    expect(summary.calls).toBe(3);
+    expect(summary.tokens).toBe(70);
+    expect(summary.byFeature.chat?.calls).toBe(2);
+    expect(summary.byModel['lovable:m1']).toMatchObject({ calls: 2, tokens: 45, model: 'm1' });
+    expect(summary.byProfile).toEqual({ fast: expect.objectContaining({ calls: 2 }) });
+  });
+});
+
+describe('budgets', () => {
+  async function spend(costUsd: number, createdAt = Date.now()) {
+    await db.aiUsage.add({
+      createdAt,
+      feature: 'chat',
+      provider: 'lovable',
+      model: 'google/gemini-2.5-flash',
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      estimated: false,
+      costUsd,
+    });
+  }
+
+  it('reports daily and monthly levels', async () => {
+    applySettings({ budgetDailyUsd: 1, budgetMonthlyUsd: 10 });
+    const now = new Date(2026, 9, 19, 12);
+    await spend(0.85, now.getTime());
+    await spend(5, new Date(2026, 9, 2).getTime());
+    await spend(50, new Date(2026, 8, 30).getTime());
+
+    expect(await getAIBudgetStates(now)).toEqual([
+      { period: 'daily', spentUsd: 0.85, limitUsd: 1, level: 'warning' },
+      { period: 'monthly', spentUsd: 5.85, limitUsd: 10, level: 'ok' },
+    ]);
+  });
+
+  it('warns once per period in warn mode', async () => {
+    applySettings({ budgetDailyUsd: 1 });
+    await spend(2);
+
+    await ensureAIBudget('en');
+    await ensureAIBudget('en');
+
+    expect(mocks.toastWarning).toHaveBeenCalledTimes(1);
+    expect(mocks.toastWarning).toHaveBeenCalledWith('The daily AI budget is used up');
+  });
+
+  it('stops calls in block mode and stays quiet for background checks', async () => {
+    applySettings({ budgetMonthlyUsd: 1, budgetMode: 'block' });
+    await spend(1);
+
+    const error = await ensureAIBudget('en').catch(e => e);
+    expect(isAIBudgetError(error)).toBe(true);
+    expect(error).toMatchObject({ period: 'monthly', message: 'AI paused: the monthly budget is used up' });
+
+    applySettings({ budgetMonthlyUsd: 2, budgetMode: 'block' });
+    await expect(ensureAIBudget('en', { silent: true })).resolves.toBeUndefined();
+    expect(mocks.toastWarning).not.toHaveBeenCalled();
+  });
+});
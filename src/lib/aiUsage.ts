@@ -0,0 +1,293 @@
+/**
+ * AI usage ledger: one row per AI call with model, tokens and an estimated cost, plus
+ * daily/monthly budgets checked before each call.
+ *
+ * Token counts come from the provider when it reports them (biography, streamed chat);
+ * otherwise they are estimated from text length. Costs use list prices and are an
+ * estimate of what a user's own provider key is billed, not an invoice.
+ */
+
+import { startOfDay, startOfMonth } from 'date-fns';
+import { toast } from 'sonner';
+import { db, type AIUsageFeature, type AIUsageRecord } from './db';
+import { loadAISettings, type AIProfile, type AIProvider } from './aiConfig';
+import type { ChatMessage } from './aiService';
+import { logger } from './logger';
+
+export type { AIUsageFeature, AIUsageRecord } from './db';
+
+export const AI_USAGE_FEATURES: AIUsageFeature[] = [
+  'chat', 'discussion', 'receipt', 'transcription', 'biography', 'insights', 'entryAnalysis', 'imageAnalysis',
+];
+
+// USD per 1M tokens, list prices
+export const AI_MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'google/gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'google/gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'google/gemini-2.5-pro': { input: 1.25, output: 10 },
+  'google/gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'anthropic/claude-sonnet-4': { input: 3, output: 15 },
+  'anthropic/claude-opus-4': { input: 15, output: 75 },
+  'MiniMax-M2.7-highspeed': { input: 0.6, output: 2.4 },
+  'MiniMax-M2.7': { input: 0.3, output: 1.2 },
+};
+
+// Unknown cloud models are priced like a mid-range model rather than as free
+const FALLBACK_PRICE = AI_MODEL_PRICES['google/gemini-2.5-flash'];
+
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 1000;
+const AUDIO_TOKENS_PER_SECOND = 32;
+// Rough bitrate of recorded voice notes, used when the duration is unknown
+const AUDIO_BYTES_PER_SECOND = 4000;
+
+// Share of a budget at which a warning is shown
+export const BUDGET_WARNING_RATIO = 0.8;
+
+const BUDGET_WARNED_KEY = 'daybook-ai-budget-warned';
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  let tokens = 0;
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      tokens += estimateTokens(message.content);
+      continue;
+    }
+    for (const part of message.content) {
+      tokens += part.type === 'text' ? estimateTokens(part.text) : IMAGE_TOKENS;
+    }
+  }
+  return tokens;
+}
+
+export function estimateAudioTokens(audioBytes: number): number {
+  return Math.ceil((audioBytes / AUDIO_BYTES_PER_SECOND) * AUDIO_TOKENS_PER_SECOND);
+}
+
+export function estimateImageTokens(imageCount = 1): number {
+  return imageCount * IMAGE_TOKENS;
+}
+
+export function estimateCostUsd(
+  provider: AIProvider,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  // Runs on the user's own hardware
+  if (provider === 'local') return 0;
+  const price = AI_MODEL_PRICES[model] ?? FALLBACK_PRICE;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+export interface AIUsageInput {
+  feature: AIUsageFeature;
+  model: string;
+  provider?: AIProvider;            // Defaults to the current settings
+  profile?: AIProfile;
+  promptTokens?: number;            // Reported by the provider
+  completionTokens?: number;
+  totalTokens?: number;             // Some responses only report the total
+  promptText?: string;              // Used for estimates when counts are missing
+  completionText?: string;
+  extraPromptTokens?: number;       // Images or audio sent with the prompt
+}
+
+/**
+ * Add a call to the ledger. Best effort: failing to record never fails the AI call.
+ */
+export async function recordAIUsage(input: AIUsageInput): Promise<void> {
+  try {
+    const provider = input.provider ?? loadAISettings().provider;
+    const reported = input.promptTokens !== undefined && input.completionTokens !== undefined;
+
+    let promptTokens: number;
+    let completionTokens: number;
+    if (reported) {
+      promptTokens = input.promptTokens!;
+      completionTokens = input.completionTokens!;
+    } else {
+      completionTokens = estimateTokens(input.completionText ?? '');
+      promptTokens = input.totalTokens !== undefined
+        ? Math.max(input.totalTokens - completionTokens, 0)
+        : estimateTokens(input.promptText ?? '') + (input.extraPromptTokens ?? 0);
+    }
+
+    await db.aiUsage.add({
+      createdAt: Date.now(),
+      feature: input.feature,
+      provider,
+      model: input.model,
+      profile: input.profile,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      estimated: !reported && input.totalTokens === undefined,
+      costUsd: estimateCostUsd(provider, input.model, promptTokens, completionTokens),
+    });
+  } catch (error) {
+    logger.warn('AIUsage', 'Failed to record usage', error);
+  }
+}
+
+export async function getAIUsageSince(since: number): Promise<AIUsageRecord[]> {
+  return db.aiUsage.where('createdAt').aboveOrEqual(since).toArray();
+}
+
+export async function clearAIUsage(): Promise<void> {
+  await db.aiUsage.clear();
+}
+
+export interface AIUsageTotals {
+  calls: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface AIUsageSummary extends AIUsageTotals {
+  byFeature: Partial<Record<AIUsageFeature, AIUsageTotals>>;
+  byModel: Record<string, AIUsageTotals & { provider: AIProvider; model: string }>;
+  byProfile: Partial<Record<AIProfile, AIUsageTotals>>;
+}
+
+function addTo(totals: AIUsageTotals, record: AIUsageRecord): void {
+  totals.calls += 1;
+  totals.tokens += record.totalTokens;
+  totals.costUsd += record.costUsd;
+}
+
+export function summarizeAIUsage(records: AIUsageRecord[]): AIUsageSummary {
+  const summary: AIUsageSummary = { calls: 0, tokens: 0, costUsd: 0, byFeature: {}, byModel: {}, byProfile: {} };
+
+  for (const record of records) {
+    addTo(summary, record);
+    addTo(summary.byFeature[record.feature] ??= { calls: 0, tokens: 0, costUsd: 0 }, record);
+    const modelKey = `${record.provider}:${record.model}`;
+    addTo(summary.byModel[modelKey] ??= {
+      calls: 0, tokens: 0, costUsd: 0, provider: record.provider, model: record.model,
+    }, record);
+    if (record.profile) {
+      addTo(summary.byProfile[record.profile] ??= { calls: 0, tokens: 0, costUsd: 0 }, record);
+    }
+  }
+
+  return summary;
+}
+
+// ============================================================
+// Budgets
+// ============================================================
+
+export type AIBudgetPeriod = 'daily' | 'monthly';
+
+export interface AIBudgetState {
+  period: AIBudgetPeriod;
+  spentUsd: number;
+  limitUsd: number;                 // 0 = no budget for this period
+  level: 'ok' | 'warning' | 'exceeded';
+}
+
+export async function getAIBudgetStates(now: Date = new Date()): Promise<AIBudgetState[]> {
+  const settings = loadAISettings();
+  const monthRecords = await getAIUsageSince(startOfMonth(now).getTime());
+  const dayStart = startOfDay(now).getTime();
+
+  const spent: Record<AIBudgetPeriod, number> = {
+    daily: monthRecords.filter(r => r.createdAt >= dayStart).reduce((sum, r) => sum + r.costUsd, 0),
+    monthly: monthRecords.reduce((sum, r) => sum + r.costUsd, 0),
+  };
+  const limits: Record<AIBudgetPeriod, number> = {
+    daily: settings.budgetDailyUsd,
+    monthly: settings.budgetMonthlyUsd,
+  };
+
+  return (['daily', 'monthly'] as const).map(period => {
+    const limitUsd = limits[period] > 0 ? limits[period] : 0;
+    const spentUsd = spent[period];
+    const level = limitUsd === 0
+      ? 'ok'
+      : spentUsd >= limitUsd
+        ? 'exceeded'
+        : spentUsd >= limitUsd * BUDGET_WARNING_RATIO ? 'warning' : 'ok';
+    return { period, spentUsd, limitUsd, level };
+  });
+}
+
+// Error thrown when a hard-stop budget is used up
+export interface AIBudgetError extends Error {
+  code: 'AI_BUDGET_EXCEEDED';
+  period: AIBudgetPeriod;
+}
+
+export function isAIBudgetError(error: unknown): error is AIBudgetError {
+  return error instanceof Error && (error as AIBudgetError).code === 'AI_BUDGET_EXCEEDED';
+}
+
+function getBudgetMessage(
+  period: AIBudgetPeriod,
+  outcome: 'warning' | 'exceeded' | 'blocked',
+  language: 'ru' | 'en'
+): string {
+  const ru = period === 'daily' ? 'дневной' : 'месячный';
+  const en = period === 'daily' ? 'daily' : 'monthly';
+  if (outcome === 'blocked') {
+    return language === 'ru'
+      ? `AI приостановлен: ${ru} бюджет исчерпан`
+      : `AI paused: the ${en} budget is used up`;
+  }
+  if (outcome === 'exceeded') {
+    return language === 'ru'
+      ? `${ru[0].toUpperCase()}${ru.slice(1)} бюджет AI исчерпан`
+      : `The ${en} AI budget is used up`;
+  }
+  return language === 'ru'
+    ? `Израсходовано больше ${BUDGET_WARNING_RATIO * 100}% — ${ru} бюджет AI почти исчерпан`
+    : `Over ${BUDGET_WARNING_RATIO * 100}% spent — the ${en} AI budget is nearly used up`;
+}
+
+function warnOnce(state: AIBudgetState, language: 'ru' | 'en', now: Date): void {
+  const periodKey = state.period === 'daily'
+    ? startOfDay(now).getTime()
+    : startOfMonth(now).getTime();
+  const marker = `${state.period}:${periodKey}:${state.level}`;
+  try {
+    const warned: string[] = JSON.parse(localStorage.getItem(BUDGET_WARNED_KEY) || '[]');
+    if (warned.includes(marker)) return;
+    localStorage.setItem(BUDGET_WARNED_KEY, JSON.stringify([...warned.slice(-9), marker]));
+  } catch {
+    // Fall through: a repeated warning is better than none
+  }
+  toast.warning(getBudgetMessage(state.period, state.level === 'exceeded' ? 'exceeded' : 'warning', language));
+}
+
+/**
+ * Check the budgets before an AI call. In 'block' mode an exhausted budget throws an
+ * AIBudgetError with a user-facing message; otherwise crossing a threshold shows one
+ * warning toast per period. Pass silent for background work.
+ */
+export async function ensureAIBudget(
+  language: 'ru' | 'en' = document.documentElement.lang === 'ru' ? 'ru' : 'en',
+  options: { silent?: boolean; now?: Date } = {}
+): Promise<void> {
+  const settings = loadAISettings();
+  if (!(settings.budgetDailyUsd > 0) && !(settings.budgetMonthlyUsd > 0)) return;
+
+  const now = options.now ?? new Date();
+  const states = await getAIBudgetStates(now);
+
+  const exceeded = states.find(state => state.level === 'exceeded');
+  if (exceeded && settings.budgetMode === 'block') {
+    const error = new Error(getBudgetMessage(exceeded.period, 'blocked', language)) as AIBudgetError;
+    error.code = 'AI_BUDGET_EXCEEDED';
+    error.period = exceeded.period;
+    throw error;
+  }
+
+  if (options.silent) return;
+  const notable = exceeded ?? states.find(state => state.level === 'warning');
+  if (notable) warnOnce(notable, language, now);
+}
@@ -51,13 +51,20 @@ export function parseAIError(status: number, language: 'ru' | 'en' = 'ru'): stri
     : `Service error: ${status}`;
 }
 
+export interface SSEUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
 /**
  * Collect a full text response from an OpenAI-compatible SSE stream.
- * Optionally calls `onToken` for each chunk (used by streaming chat).
+ * Optionally calls `onToken` for each chunk (used by streaming chat) and `onUsage`
+ * when the provider reports token counts in the final chunk.
  */
 export async function collectSSEStream(
   response: Response,
   onToken?: (token: string) => void,
+  onUsage?: (usage: SSEUsage) => void,
 ): Promise<string> {
   const reader = response.body?.getReader();
   if (!reader) throw new Error('No response body');
@@ -91,6 +98,12 @@ export async function collectSSEStream(
           fullText += content;
           onToken?.(content);
         }
+        if (parsed.usage && typeof parsed.usage.prompt_tokens === 'number') {
+          onUsage?.({
+            promptTokens: parsed.usage.prompt_tokens,
+            completionTokens: parsed.usage.completion_tokens ?? 0,
+          });
+        }
       } catch {
         // Incomplete JSON chunk — skip
       }
@@ -4,7 +4,9 @@
 import { db, AudioTranscript } from './db';
 import { logger } from './logger';
 import { getAITokenHeader } from './aiUtils';
-import { loadAISettings } from './aiConfig';
+import { getEdgeProvider, loadAISettings } from './aiConfig';
+import { ensureAIBudget, estimateAudioTokens, isAIBudgetError, recordAIUsage } from './aiUsage';
+import { reindexEntryForAttachment } from './search/searchIndex';
 
 const AI_TRANSCRIBE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-transcribe`;
 
@@ -37,6 +39,13 @@ export async function requestTranscription(
     }
   }
 
+  try {
+    await ensureAIBudget();
+  } catch (error) {
+    if (!isAIBudgetError(error)) throw error;
+    return { ok: false, errorCode: 'budget_exceeded' };
+  }
+
   // 2. Write pending state to DB
   const now = Date.now();
   await db.audioTranscripts.put({
@@ -53,10 +62,10 @@ export async function requestTranscription(
 
   try {
     // 3. Build FormData and send to edge function
-    const aiSettings = loadAISettings();
+    const provider = getEdgeProvider(loadAISettings());
     const formData = new FormData();
     formData.append('file', blob);
-    formData.append('provider', aiSettings.provider);
+    formData.append('provider', provider);
     if (opts?.languageHint) {
       formData.append('languageHint', opts.languageHint);
     }
@@ -72,6 +81,14 @@ export async function requestTranscription(
     // 4. Handle response
     if (response.ok) {
       const data = await response.json();
+
+      await recordAIUsage({
+        feature: 'transcription',
+        provider,
+        model: data.model || 'google/gemini-2.5-flash',
+        extraPromptTokens: estimateAudioTokens(blob.size),
+        completionText: data.text || '',
+      });
       
       await db.audioTranscripts.put({
         attachmentId,
@@ -85,6 +102,11 @@ export async function requestTranscription(
         errorCode: null,
       });
 
+      // Make the spoken text findable from search
+      await reindexEntryForAttachment(attachmentId).catch(err => {
+        logger.warn('Transcription', 'Search reindex failed', err);
+      });
+
       return { ok: true, text: data.text || '', language: data.language || 'en' };
     }
 
@@ -135,4 +157,5 @@ export async function requestTranscription(
 
 export async function clearTranscript(attachmentId: number): Promise<void> {
   await db.audioTranscripts.delete(attachmentId);
+  await reindexEntryForAttachment(attachmentId);
 }
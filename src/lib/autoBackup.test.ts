@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+
+const mocks = vi.hoisted(() => ({
+  targets: new Map<string, Record<string, unknown>>(),
+  exportBackupZip: vi.fn(),
+  setLastBackupDate: vi.fn(),
+}));
+
+vi.mock('./db', () => ({
+  db: {
+    backupTargets: {
+      get: async (id: string) => mocks.targets.get(id),
+      put: async (record: Record<string, unknown>) => {
+        mocks.targets.set(record.id as string, record);
+      },
+      delete: async (id: string) => {
+        mocks.targets.delete(id);
+      },
+    },
+  },
+}));
+
+vi.mock('./backupService', () => ({
+  exportBackupZip: mocks.exportBackupZip,
+  setLastBackupDate: mocks.setLastBackupDate,
+  readBackupFile: async (file: File) => {
+    const zip = await JSZip.loadAsync(file);
+    if (!zip.file('manifest.json')) throw new Error('Invalid backup: missing manifest.json');
+    return { type: 'zip', data: file };
+  },
+}));
+
+import {
+  getAutoBackupStatus,
+  isAutoBackupDue,
+  listAutoBackups,
+  runAutoBackupNow,
+  saveAutoBackupSettings,
+  verifyAutoBackups,
+} from './autoBackup';
+
+/** In-memory stand-in for a FileSystemDirectoryHandle. */
+class FakeDirectory {
+  files = new Map<string, Blob>();
+  directories = new Map<string, FakeDirectory>();
+  permission: PermissionState = 'granted';
+
+  constructor(public name: string) {}
+
+  async getFileHandle(name: string, options: { create?: boolean } = {}) {
+    if (!this.files.has(name) && !options.create) {
+      throw new DOMException('missing', 'NotFoundError');
+    }
+    return {
+      getFile: async () => new File([this.files.get(name)!], name),
+      createWritable: async () => {
+        let data: Blob | string = '';
+        return {
+          write: async (chunk: Blob | string) => {
+            data = chunk;
+          },
+          close: async () => {
+            this.files.set(name, new Blob([data]));
+          },
+        };
+      },
+    };
+  }
+
+  async getDirectoryHandle(name: string) {
+    if (!this.directories.has(name)) this.directories.set(name, new FakeDirectory(name));
+    return this.directories.get(name)!;
+  }
+
+  async removeEntry(name: string) {
+    if (!this.files.delete(name)) throw new DOMException('missing', 'NotFoundError');
+  }
+
+  async queryPermission() {
+    return this.permission;
+  }
+
+  zipNames() {
+    return [...this.files.keys()].filter((name) => name.endsWith('.zip')).sort();
+  }
+}
+
+let opfsRoot: FakeDirectory;
+
+async function backupZip(label: string): Promise<Blob> {
+  const zip = new JSZip();
+  zip.file('manifest.json', JSON.stringify({ dbName: 'DaybookDB', label }));
+  return await zip.generateAsync({ type: 'blob' });
+}
+
+async function runAt(iso: string) {
+  vi.setSystemTime(new Date(iso));
+  return await runAutoBackupNow();
+}
+
+describe('automatic backups', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mocks.targets.clear();
+    mocks.exportBackupZip.mockReset().mockImplementation(() => backupZip('b'));
+    mocks.setLastBackupDate.mockReset();
+    opfsRoot = new FakeDirectory('root');
+    Object.defineProperty(navigator, 'storage', {
+      value: { getDirectory: async () => opfsRoot },
+      configurable: true,
+    });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    saveAutoBackupSettings({ enabled: true, intervalHours: 24, keep: 2 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('writes to OPFS and keeps only the newest archives', async () => {
+    await runAt('2026-03-01T10:00:00.000Z');
+    await runAt('2026-03-02T10:00:00.000Z');
+    const status = await runAt('2026-03-03T10:00:00.000Z');
+
+    const stored = await opfsRoot.getDirectoryHandle('auto-backups');
+    expect(stored.zipNames()).toEqual([
+      'daybook-auto-2026-03-02T10-00-00-000Z.zip',
+      'daybook-auto-2026-03-03T10-00-00-000Z.zip',
+    ]);
+    const { location, archives } = await listAutoBackups();
+    expect(location).toBe('opfs');
+    expect(archives.map((a) => a.createdAt)).toEqual(['2026-03-03T10:00:00.000Z', '2026-03-02T10:00:00.000Z']);
+    expect(archives[0].sha256).toMatch(/^[0-9a-f]{64}$/);
+
+    expect(status).toMatchObject({ lastSuccessAt: '2026-03-03T10:00:00.000Z', location: 'opfs', archiveCount: 2 });
+    expect(status.lastError).toBeUndefined();
+    // Automatic archives must not become the parent of the next manual incremental backup
+    expect(mocks.exportBackupZip).toHaveBeenCalledWith(undefined, { trackChain: false });
+  });
+
+  it('prefers the picked folder and falls back to OPFS when access is lost', async () => {
+    const folder = new FakeDirectory('Backups');
+    mocks.targets.set('auto', { id: 'auto', handle: folder, name: 'Backups', storedAt: 1 });
+
+    expect(await runAt('2026-03-01T10:00:00.000Z')).toMatchObject({ location: 'folder', folderPermissionNeeded: false });
+    expect(folder.zipNames()).toHaveLength(1);
+
+    folder.permission = 'prompt';
+    expect(await runAt('2026-03-02T10:00:00.000Z')).toMatchObject({ location: 'opfs', folderPermissionNeeded: true });
+    expect(folder.zipNames()).toHaveLength(1);
+    expect((await opfsRoot.getDirectoryHandle('auto-backups')).zipNames()).toHaveLength(1);
+  });
+
+  it('reports archives that were altered or removed', async () => {
+    await runAt('2026-03-01T10:00:00.000Z');
+    await runAt('2026-03-02T10:00:00.000Z');
+    const stored = await opfsRoot.getDirectoryHandle('auto-backups');
+    const [older, newer] = stored.zipNames();
+
+    expect((await verifyAutoBackups()).every((result) => result.ok)).toBe(true);
+
+    // Same size, different bytes
+    const original = stored.files.get(newer)!;
+    stored.files.set(newer, new Blob([new Uint8Array(original.size)]));
+    stored.files.delete(older);
+
+    expect(await verifyAutoBackups()).toEqual([
+      { name: newer, ok: false, problem: 'hash_mismatch' },
+      { name: older, ok: false, problem: 'missing' },
+    ]);
+    expect(getAutoBackupStatus().damagedArchives).toEqual([newer, older]);
+  });
+
+  it('is due after the interval and waits before retrying a failed run', async () => {
+    await runAt('2026-03-01T10:00:00.000Z');
+    expect(isAutoBackupDue(Date.parse('2026-03-02T09:00:00.000Z'))).toBe(false);
+    expect(isAutoBackupDue(Date.parse('2026-03-02T10:00:00.000Z'))).toBe(true);
+
+    mocks.exportBackupZip.mockRejectedValueOnce(new Error('quota'));
+    const failed = await runAt('2026-03-02T10:00:00.000Z');
+    expect(failed.lastError).toBe('quota');
+    expect(failed.lastSuccessAt).toBe('2026-03-01T10:00:00.000Z');
+    expect(isAutoBackupDue(Date.parse('2026-03-02T10:30:00.000Z'))).toBe(false);
+    expect(isAutoBackupDue(Date.parse('2026-03-02T11:00:00.000Z'))).toBe(true);
+
+    saveAutoBackupSettings({ enabled: false, intervalHours: 24, keep: 2 });
+    expect(isAutoBackupDue(Date.parse('2026-03-05T10:00:00.000Z'))).toBe(false);
+  });
+});
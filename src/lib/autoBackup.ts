@@ -0,0 +1,405 @@
+/**
+ * Scheduled automatic backups.
+ *
+ * While enabled, a full ZIP backup is written every `intervalHours` to a folder the user
+ * picked (File System Access API) or, where there is no folder or no permission for it, to
+ * the origin private file system (OPFS). Only the newest `keep` archives are kept.
+ *
+ * Next to the archives lives an index file with each archive's size and SHA-256, written at
+ * backup time, so stored copies can later be verified without trusting the file system.
+ */
+
+import { db } from './db';
+import { exportBackupZip, readBackupFile, setLastBackupDate } from './backupService';
+
+export const AUTO_BACKUP_INTERVAL_OPTIONS = [6, 24, 72, 168] as const; // hours
+export const AUTO_BACKUP_KEEP_OPTIONS = [3, 5, 10] as const;
+
+// Fired on window whenever the status changes
+export const AUTO_BACKUP_STATUS_EVENT = 'daybook-auto-backup-status';
+
+const SETTINGS_KEY = 'daybook-auto-backup';
+const STATUS_KEY = 'daybook-auto-backup-status';
+const FOLDER_TARGET_ID = 'auto';
+const OPFS_DIRECTORY = 'auto-backups';
+const INDEX_FILE = 'daybook-auto-backups.json';
+const CHECK_INTERVAL = 15 * 60 * 1000; // How often the scheduler checks whether a backup is due
+const RETRY_DELAY = 60 * 60 * 1000;     // Wait after a failed run before trying again
+
+export interface AutoBackupSettings {
+  enabled: boolean;
+  intervalHours: number;
+  keep: number;
+}
+
+export type AutoBackupLocation = 'folder' | 'opfs';
+
+/** One stored archive, as recorded in the index file. */
+export interface AutoBackupArchive {
+  name: string;
+  createdAt: string;
+  size: number;
+  sha256: string;
+}
+
+export type AutoBackupProblem = 'missing' | 'size_mismatch' | 'hash_mismatch' | 'invalid_archive';
+
+export interface AutoBackupVerification {
+  name: string;
+  ok: boolean;
+  problem?: AutoBackupProblem;
+}
+
+export interface AutoBackupStatus {
+  lastRunAt?: string;
+  lastSuccessAt?: string;
+  lastError?: string;
+  location?: AutoBackupLocation;   // Where the last backup went
+  archiveCount: number;
+  folderPermissionNeeded?: boolean; // A folder is set, but the browser needs the user to re-grant access
+  lastVerifiedAt?: string;
+  damagedArchives: string[];
+}
+
+const DEFAULT_SETTINGS: AutoBackupSettings = {
+  enabled: false,
+  intervalHours: 24,
+  keep: 5,
+};
+
+// Parts of the File System Access API that lib.dom does not declare yet
+type PermissionMode = { mode: 'read' | 'readwrite' };
+interface PermissionedDirectoryHandle extends FileSystemDirectoryHandle {
+  queryPermission?: (descriptor: PermissionMode) => Promise<PermissionState>;
+  requestPermission?: (descriptor: PermissionMode) => Promise<PermissionState>;
+}
+type DirectoryPicker = (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+let checkInterval: ReturnType<typeof setInterval> | null = null;
+let runInFlight: Promise<AutoBackupStatus> | null = null;
+
+// ============= SETTINGS & STATUS =============
+
+export function getAutoBackupSettings(): AutoBackupSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : { ...DEFAULT_SETTINGS };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export function saveAutoBackupSettings(settings: AutoBackupSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function getAutoBackupStatus(): AutoBackupStatus {
+  try {
+    const raw = localStorage.getItem(STATUS_KEY);
+    return raw
+      ? { archiveCount: 0, damagedArchives: [], ...JSON.parse(raw) }
+      : { archiveCount: 0, damagedArchives: [] };
+  } catch {
+    return { archiveCount: 0, damagedArchives: [] };
+  }
+}
+
+function updateAutoBackupStatus(changes: Partial<AutoBackupStatus>): AutoBackupStatus {
+  const status = { ...getAutoBackupStatus(), ...changes };
+  localStorage.setItem(STATUS_KEY, JSON.stringify(status));
+  window.dispatchEvent(new CustomEvent(AUTO_BACKUP_STATUS_EVENT));
+  return status;
+}
+
+export function isAutoBackupDue(now = Date.now()): boolean {
+  const settings = getAutoBackupSettings();
+  if (!settings.enabled) return false;
+
+  const { lastSuccessAt, lastRunAt, lastError } = getAutoBackupStatus();
+  if (lastError && lastRunAt && now - new Date(lastRunAt).getTime() < RETRY_DELAY) return false;
+  if (!lastSuccessAt) return true;
+  return now - new Date(lastSuccessAt).getTime() >= settings.intervalHours * 60 * 60 * 1000;
+}
+
+// ============= STORAGE TARGETS =============
+
+export function isFolderBackupSupported(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+}
+
+export function isOpfsBackupSupported(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function';
+}
+
+/**
+ * Ask the user for a backup folder. Must run from a user gesture.
+ * Returns the folder name, or null when the picker was dismissed.
+ */
+export async function chooseAutoBackupFolder(): Promise<string | null> {
+  const picker = (window as unknown as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+  if (!picker) return null;
+
+  let handle: FileSystemDirectoryHandle;
+  try {
+    handle = await picker({ id: 'daybook-auto-backup', mode: 'readwrite' });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
+    throw error;
+  }
+
+  await db.backupTargets.put({ id: FOLDER_TARGET_ID, handle, name: handle.name, storedAt: Date.now() });
+  updateAutoBackupStatus({ folderPermissionNeeded: false });
+  return handle.name;
+}
+
+export async function getAutoBackupFolderName(): Promise<string | null> {
+  const target = await db.backupTargets.get(FOLDER_TARGET_ID);
+  return target?.name ?? null;
+}
+
+export async function forgetAutoBackupFolder(): Promise<void> {
+  await db.backupTargets.delete(FOLDER_TARGET_ID);
+  updateAutoBackupStatus({ folderPermissionNeeded: false });
+}
+
+/**
+ * Re-grant access to the stored folder after the browser dropped it (usually on restart).
+ * Must run from a user gesture.
+ */
+export async function grantAutoBackupFolderAccess(): Promise<boolean> {
+  const target = await db.backupTargets.get(FOLDER_TARGET_ID);
+  const handle = target?.handle as PermissionedDirectoryHandle | undefined;
+  if (!handle) return false;
+
+  const granted = !handle.requestPermission
+    || await handle.requestPermission({ mode: 'readwrite' }) === 'granted';
+  updateAutoBackupStatus({ folderPermissionNeeded: !granted });
+  return granted;
+}
+
+/**
+ * The directory backups go to: the picked folder while access is granted, OPFS otherwise.
+ */
+async function resolveTarget(): Promise<{ directory: FileSystemDirectoryHandle; location: AutoBackupLocation } | null> {
+  const target = await db.backupTargets.get(FOLDER_TARGET_ID);
+  if (target) {
+    const handle = target.handle as PermissionedDirectoryHandle;
+    const permission = handle.queryPermission
+      ? await handle.queryPermission({ mode: 'readwrite' })
+      : 'granted';
+    if (permission === 'granted') {
+      updateAutoBackupStatus({ folderPermissionNeeded: false });
+      return { directory: handle, location: 'folder' };
+    }
+    // Without a user gesture access cannot be requested here; fall back until it is re-granted
+    updateAutoBackupStatus({ folderPermissionNeeded: true });
+  }
+
+  if (!isOpfsBackupSupported()) return null;
+  const root = await navigator.storage.getDirectory();
+  return { directory: await root.getDirectoryHandle(OPFS_DIRECTORY, { create: true }), location: 'opfs' };
+}
+
+async function readIndex(directory: FileSystemDirectoryHandle): Promise<AutoBackupArchive[]> {
+  try {
+    const file = await (await directory.getFileHandle(INDEX_FILE)).getFile();
+    const archives = JSON.parse(await readBlobText(file));
+    return Array.isArray(archives) ? archives : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeFile(directory: FileSystemDirectoryHandle, name: string, data: Blob | string): Promise<void> {
+  const handle = await directory.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(data);
+  } finally {
+    await writable.close();
+  }
+}
+
+async function removeFile(directory: FileSystemDirectoryHandle, name: string): Promise<void> {
+  try {
+    await directory.removeEntry(name);
+  } catch (error) {
+    if (!(error instanceof DOMException && error.name === 'NotFoundError')) throw error;
+  }
+}
+
+function readBlobBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = reject;
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+function readBlobText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsText(blob);
+  });
+}
+
+async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await readBlobBytes(blob));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function archiveName(date: Date): string {
+  return `daybook-auto-${date.toISOString().replace(/[:.]/g, '-')}.zip`;
+}
+
+// ============= BACKUP, ROTATION, VERIFICATION =============
+
+async function verifyArchive(directory: FileSystemDirectoryHandle, archive: AutoBackupArchive): Promise<AutoBackupVerification> {
+  let file: File;
+  try {
+    file = await (await directory.getFileHandle(archive.name)).getFile();
+  } catch {
+    return { name: archive.name, ok: false, problem: 'missing' };
+  }
+
+  if (file.size !== archive.size) {
+    return { name: archive.name, ok: false, problem: 'size_mismatch' };
+  }
+  if (await sha256Hex(file) !== archive.sha256) {
+    return { name: archive.name, ok: false, problem: 'hash_mismatch' };
+  }
+  try {
+    await readBackupFile(file);
+  } catch {
+    return { name: archive.name, ok: false, problem: 'invalid_archive' };
+  }
+  return { name: archive.name, ok: true };
+}
+
+async function runAutoBackup(): Promise<AutoBackupStatus> {
+  const startedAt = new Date();
+  try {
+    const target = await resolveTarget();
+    if (!target) throw new Error('auto_backup_unsupported');
+    const { directory, location } = target;
+
+    // Kept out of the manual backup chain: rotation may delete this archive at any time
+    const zipBlob = await exportBackupZip(undefined, { trackChain: false });
+    const archive: AutoBackupArchive = {
+      name: archiveName(startedAt),
+      createdAt: startedAt.toISOString(),
+      size: zipBlob.size,
+      sha256: await sha256Hex(zipBlob),
+    };
+    await writeFile(directory, archive.name, zipBlob);
+
+    // Read back what was written before older copies are rotated out
+    const written = await verifyArchive(directory, archive);
+    if (!written.ok) {
+      await removeFile(directory, archive.name);
+      throw new Error(`auto_backup_write_failed:${written.problem}`);
+    }
+
+    const { keep } = getAutoBackupSettings();
+    const archives = [archive, ...(await readIndex(directory)).filter((a) => a.name !== archive.name)]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const kept = archives.slice(0, keep);
+    await writeFile(directory, INDEX_FILE, JSON.stringify(kept, null, 2));
+    for (const old of archives.slice(keep)) {
+      await removeFile(directory, old.name);
+    }
+
+    setLastBackupDate(archive.createdAt);
+    const { damagedArchives } = getAutoBackupStatus();
+    return updateAutoBackupStatus({
+      lastRunAt: startedAt.toISOString(),
+      lastSuccessAt: archive.createdAt,
+      lastError: undefined,
+      location,
+      archiveCount: kept.length,
+      damagedArchives: damagedArchives.filter((name) => kept.some((a) => a.name === name)),
+    });
+  } catch (error) {
+    console.error('[AutoBackup] Backup failed:', error);
+    return updateAutoBackupStatus({
+      lastRunAt: startedAt.toISOString(),
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Write a backup now, regardless of the schedule. Concurrent calls share one run.
+ */
+export function runAutoBackupNow(): Promise<AutoBackupStatus> {
+  if (!runInFlight) {
+    runInFlight = runAutoBackup().finally(() => {
+      runInFlight = null;
+    });
+  }
+  return runInFlight;
+}
+
+/**
+ * Archives in the current backup location, newest first.
+ */
+export async function listAutoBackups(): Promise<{ location: AutoBackupLocation | null; archives: AutoBackupArchive[] }> {
+  const target = await resolveTarget();
+  if (!target) return { location: null, archives: [] };
+  return { location: target.location, archives: await readIndex(target.directory) };
+}
+
+/**
+ * Open a stored archive for restoring.
+ */
+export async function readAutoBackup(name: string): Promise<File> {
+  const target = await resolveTarget();
+  if (!target) throw new Error('auto_backup_unsupported');
+  return await (await target.directory.getFileHandle(name)).getFile();
+}
+
+/**
+ * Re-hash every stored archive and check that it still opens as a backup.
+ */
+export async function verifyAutoBackups(): Promise<AutoBackupVerification[]> {
+  const target = await resolveTarget();
+  if (!target) return [];
+
+  const archives = await readIndex(target.directory);
+  const results: AutoBackupVerification[] = [];
+  for (const archive of archives) {
+    results.push(await verifyArchive(target.directory, archive));
+  }
+
+  updateAutoBackupStatus({
+    lastVerifiedAt: new Date().toISOString(),
+    archiveCount: archives.length,
+    damagedArchives: results.filter((result) => !result.ok).map((result) => result.name),
+  });
+  return results;
+}
+
+// ============= SCHEDULER =============
+
+async function runIfDue(): Promise<void> {
+  if (!isAutoBackupDue()) return;
+  await runAutoBackupNow();
+}
+
+export function startAutoBackup() {
+  stopAutoBackup();
+  checkInterval = setInterval(() => {
+    void runIfDue();
+  }, CHECK_INTERVAL);
+  void runIfDue();
+}
+
+export function stopAutoBackup() {
+  if (checkInterval) {
+    clearInterval(checkInterval);
+    checkInterval = null;
+  }
+}
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+
+const mocks = vi.hoisted(() => {
+  const keyOf: Record<string, string> = { biographies: 'date', weeklyInsights: 'weekStart' };
+  const store = new Map<string, Map<unknown, Record<string, unknown>>>();
+  const tableOf = (name: string) => {
+    if (!store.has(name)) store.set(name, new Map());
+    return store.get(name)!;
+  };
+  const api = (name: string) => ({
+    toArray: async () => [...tableOf(name).values()].map(row => ({ ...row })),
+    bulkPut: async (rows: Array<Record<string, unknown>>) => {
+      for (const row of rows) tableOf(name).set(row[keyOf[name] ?? 'id'], { ...row });
+    },
+    bulkDelete: async (keys: unknown[]) => {
+      for (const key of keys) tableOf(name).delete(key);
+    },
+    toCollection: () => ({ primaryKeys: async () => [...tableOf(name).keys()] }),
+    clear: async () => tableOf(name).clear(),
+  });
+  return { store, tableOf, api, getSyncOwnerUserId: vi.fn(), bindSyncOwnershipIfUnbound: vi.fn() };
+});
+
+vi.mock('./syncService', () => ({
+  getSyncOwnerUserId: mocks.getSyncOwnerUserId,
+  bindSyncOwnershipIfUnbound: mocks.bindSyncOwnershipIfUnbound,
+}));
+
+vi.mock('./db', () => ({
+  db: {
+    verno: 21,
+    get tables() {
+      return [...mocks.store.keys()].map(name => mocks.api(name));
+    },
+    transaction: async (_mode: string, _tables: unknown, fn: () => Promise<void>) => fn(),
+    table: (name: string) => mocks.api(name),
+    attachments: mocks.api('attachments'),
+    drafts: mocks.api('drafts'),
+  },
+}));
+
+import {
+  BACKUP_CHAIN_INCOMPLETE,
+  BACKUP_CHAIN_MISMATCH,
+  clearBackupChainState,
+  getBackupChainState,
+  orderBackupChain,
+} from './backupChain';
+import { exportBackupZip, importBackupChain, importBackupZip } from './backupService';
+
+function seed(entries: Array<Record<string, unknown>>) {
+  mocks.store.clear();
+  for (const entry of entries) mocks.tableOf('entries').set(entry.id, entry);
+}
+
+function entriesNow() {
+  return [...mocks.tableOf('entries').values()].sort((a, b) => Number(a.id) - Number(b.id));
+}
+
+async function tableRows(blob: Blob, name: string) {
+  const zip = await JSZip.loadAsync(blob);
+  return JSON.parse(await zip.file(`tables/${name}.json`)!.async('text'));
+}
+
+describe('incremental backups', () => {
+  beforeEach(() => {
+    clearBackupChainState();
+    mocks.getSyncOwnerUserId.mockReset().mockReturnValue('user-1');
+    mocks.bindSyncOwnershipIfUnbound.mockReset();
+    seed([
+      { id: 1, text: 'one', updatedAt: 1 },
+      { id: 2, text: 'two', updatedAt: 1 },
+      { id: 3, text: 'three', updatedAt: 1 },
+    ]);
+  });
+
+  it('contains only rows changed since the previous backup', async () => {
+    const base = await exportBackupZip();
+    expect(getBackupChainState()).toMatchObject({ sequence: 0 });
+
+    // Edited with an older timestamp, as a pulled sync change would be
+    mocks.tableOf('entries').set(2, { id: 2, text: 'two edited', updatedAt: 0 });
+    mocks.tableOf('entries').set(4, { id: 4, text: 'four', updatedAt: 5 });
+    const first = await exportBackupZip(undefined, { incremental: true });
+
+    expect((await tableRows(first, 'entries')).map((e: { id: number }) => e.id)).toEqual([2, 4]);
+    const manifest = JSON.parse(await (await JSZip.loadAsync(first)).file('manifest.json')!.async('text'));
+    const baseManifest = JSON.parse(await (await JSZip.loadAsync(base)).file('manifest.json')!.async('text'));
+    expect(manifest.chain).toEqual({ chainId: baseManifest.chain.chainId, sequence: 1, parentExportedAt: baseManifest.exportedAt });
+    expect(manifest.tables.entries).toBe(4);
+
+    const unchanged = await exportBackupZip(undefined, { incremental: true });
+    expect(await tableRows(unchanged, 'entries')).toEqual([]);
+  });
+
+  it('restores the base and its chain in order, including deletions', async () => {
+    const base = await exportBackupZip();
+    mocks.tableOf('entries').set(1, { id: 1, text: 'one edited', updatedAt: 2 });
+    const first = await exportBackupZip(undefined, { incremental: true });
+    mocks.tableOf('entries').delete(3);
+    mocks.tableOf('entries').set(5, { id: 5, text: 'five', updatedAt: 3 });
+    const second = await exportBackupZip(undefined, { incremental: true });
+    const expected = entriesNow();
+
+    seed([{ id: 9, text: 'unrelated', updatedAt: 1 }]);
+    await importBackupChain([second, base, first]);
+
+    expect(entriesNow()).toEqual(expected);
+    expect(mocks.bindSyncOwnershipIfUnbound).toHaveBeenCalledWith('user-1');
+    // Replaced data starts a new chain
+    expect(getBackupChainState()).toBeNull();
+  });
+
+  it('refuses incomplete chains before writing anything', async () => {
+    const base = await exportBackupZip();
+    mocks.tableOf('entries').set(1, { id: 1, text: 'changed', updatedAt: 2 });
+    const first = await exportBackupZip(undefined, { incremental: true });
+    mocks.tableOf('entries').set(2, { id: 2, text: 'changed', updatedAt: 2 });
+    const second = await exportBackupZip(undefined, { incremental: true });
+    const otherChain = await exportBackupZip();
+
+    seed([{ id: 9, text: 'local', updatedAt: 1 }]);
+    await expect(importBackupChain([base, second])).rejects.toThrow(BACKUP_CHAIN_INCOMPLETE);
+    await expect(importBackupChain([first, second])).rejects.toThrow(BACKUP_CHAIN_INCOMPLETE);
+    await expect(importBackupChain([otherChain, first])).rejects.toThrow(BACKUP_CHAIN_MISMATCH);
+    await expect(importBackupZip(first)).rejects.toThrow(BACKUP_CHAIN_INCOMPLETE);
+    expect(entriesNow()).toEqual([{ id: 9, text: 'local', updatedAt: 1 }]);
+  });
+});
+
+describe('orderBackupChain', () => {
+  const link = (sequence: number, exportedAt: string, parentExportedAt?: string) => ({
+    exportedAt,
+    chain: { chainId: 'c', sequence, parentExportedAt },
+  });
+
+  it('checks that each link points at the one before it', () => {
+    const chain = [link(2, 't2', 't1'), link(0, 't0'), link(1, 't1', 't0')];
+    expect(orderBackupChain(chain).map(m => m.exportedAt)).toEqual(['t0', 't1', 't2']);
+
+    // Sequence 1 of a different export history
+    expect(() => orderBackupChain([link(0, 't0'), link(1, 't1', 'other')])).toThrow(BACKUP_CHAIN_INCOMPLETE);
+    expect(() => orderBackupChain([link(0, 't0'), { exportedAt: 't1' }])).toThrow(BACKUP_CHAIN_MISMATCH);
+  });
+});
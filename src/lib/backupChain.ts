@@ -0,0 +1,129 @@
+/**
+ * Incremental backup chains.
+ *
+ * A chain starts with a full backup (sequence 0). Each incremental backup after it holds only
+ * the rows that changed since the previous backup in the chain, plus keys.json: every primary
+ * key present at export time, so a restore can also replay deletions. Changes are detected by
+ * comparing row fingerprints with the ones recorded at the previous export, not by timestamps:
+ * sync writes server times into updatedAt, which may be older than the last backup.
+ */
+
+export const BACKUP_CHAIN_INCOMPLETE = 'backup_chain_incomplete';
+export const BACKUP_CHAIN_MISMATCH = 'backup_chain_mismatch';
+
+export const BACKUP_KEYS_PATH = 'keys.json';
+
+const CHAIN_STATE_KEY = 'daybook-backup-chain';
+
+// Primary key of each backed-up table
+export const BACKUP_TABLE_KEYS: Record<string, string> = {
+  entries: 'id',
+  attachments: 'id',
+  drafts: 'id',
+  biographies: 'date',
+  reminders: 'id',
+  receipts: 'id',
+  receiptItems: 'id',
+  discussionSessions: 'id',
+  discussionMessages: 'id',
+  weeklyInsights: 'weekStart',
+  audioTranscripts: 'attachmentId',
+  attachmentInsights: 'attachmentId',
+  analysisQueue: 'id',
+  scanLogs: 'id',
+  savedSearches: 'id',
+  chatThreads: 'id',
+  chatMessages: 'id',
+  documents: 'id',
+  documentPages: 'id',
+};
+
+/** Position of a backup in its chain, stored in the manifest. */
+export interface BackupChainLink {
+  chainId: string;
+  sequence: number;           // 0 = the full backup the chain starts from
+  parentExportedAt?: string;  // exportedAt of the previous backup in the chain
+}
+
+/** What this device exported last, kept to compute the next incremental backup. */
+export interface BackupChainState {
+  chainId: string;
+  sequence: number;
+  lastExportedAt: string;
+  fingerprints: Record<string, Record<string, string>>; // table → key → row fingerprint
+}
+
+export type BackupKeyValue = string | number;
+
+export function isBackupChainLink(value: unknown): value is BackupChainLink {
+  if (!value || typeof value !== 'object') return false;
+  const link = value as Record<string, unknown>;
+  return (
+    typeof link.chainId === 'string' &&
+    typeof link.sequence === 'number' &&
+    Number.isInteger(link.sequence) &&
+    link.sequence >= 0 &&
+    (link.parentExportedAt === undefined || typeof link.parentExportedAt === 'string')
+  );
+}
+
+export function isIncrementalLink(link: BackupChainLink | undefined): boolean {
+  return Boolean(link && link.sequence > 0);
+}
+
+export function getBackupChainState(): BackupChainState | null {
+  try {
+    const raw = localStorage.getItem(CHAIN_STATE_KEY);
+    return raw ? JSON.parse(raw) as BackupChainState : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveBackupChainState(state: BackupChainState): void {
+  localStorage.setItem(CHAIN_STATE_KEY, JSON.stringify(state));
+}
+
+export function clearBackupChainState(): void {
+  localStorage.removeItem(CHAIN_STATE_KEY);
+}
+
+/**
+ * Short FNV-1a fingerprint of a row. Blobs serialize as {}: attachment files never change
+ * in place, and their size is part of the metadata.
+ */
+export function rowFingerprint(row: unknown): string {
+  const text = JSON.stringify(row) ?? '';
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function rowKey(tableName: string, row: unknown): BackupKeyValue {
+  return (row as Record<string, BackupKeyValue>)[BACKUP_TABLE_KEYS[tableName]];
+}
+
+/**
+ * Order the backups of one chain and check that nothing is missing: a single full
+ * base, then every incremental with consecutive sequence numbers, each one pointing
+ * at the backup before it.
+ */
+export function orderBackupChain<T extends { exportedAt: string; chain?: BackupChainLink }>(manifests: T[]): T[] {
+  if (manifests.some(m => !m.chain) || new Set(manifests.map(m => m.chain!.chainId)).size > 1) {
+    throw new Error(BACKUP_CHAIN_MISMATCH);
+  }
+
+  const ordered = [...manifests].sort((a, b) => a.chain!.sequence - b.chain!.sequence);
+  ordered.forEach((manifest, index) => {
+    if (manifest.chain!.sequence !== index) {
+      throw new Error(BACKUP_CHAIN_INCOMPLETE);
+    }
+    if (index > 0 && manifest.chain!.parentExportedAt !== ordered[index - 1].exportedAt) {
+      throw new Error(BACKUP_CHAIN_INCOMPLETE);
+    }
+  });
+  return ordered;
+}
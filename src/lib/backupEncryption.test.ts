@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+
+const mocks = vi.hoisted(() => ({
+  rows: {} as Record<string, unknown[]>,
+  written: {} as Record<string, unknown[]>,
+  getSyncOwnerUserId: vi.fn(),
+  bindSyncOwnershipIfUnbound: vi.fn(),
+}));
+
+vi.mock('./syncService', () => ({
+  getSyncOwnerUserId: mocks.getSyncOwnerUserId,
+  bindSyncOwnershipIfUnbound: mocks.bindSyncOwnershipIfUnbound,
+}));
+
+vi.mock('./db', () => ({
+  db: {
+    verno: 21,
+    tables: [],
+    transaction: vi.fn(),
+    table: (name: string) => ({
+      toArray: async () => mocks.rows[name] ?? [],
+      bulkPut: async (rows: unknown[]) => {
+        mocks.written[name] = [...(mocks.written[name] ?? []), ...rows];
+      },
+    }),
+  },
+}));
+
+import { BACKUP_PASSWORD_REQUIRED, WRONG_BACKUP_PASSWORD } from './backupEncryption';
+import { exportBackupZip, importBackupZip, readBackupFile, unlockBackupZip } from './backupService';
+
+const PASSWORD = 'correct horse';
+
+const entries = [{ id: 1, text: 'Secret day', tags: ['Работа'], isPrivate: true }];
+const reminders = [{ id: 3, actionText: 'Call mom', status: 'pending' }];
+
+describe('encrypted backups', () => {
+  beforeEach(() => {
+    mocks.rows = { entries, reminders };
+    mocks.written = {};
+    mocks.getSyncOwnerUserId.mockReset().mockReturnValue('user-1');
+    mocks.bindSyncOwnershipIfUnbound.mockReset();
+  });
+
+  it('hides contents, counts and owner behind the password', async () => {
+    const blob = await exportBackupZip(undefined, { password: PASSWORD });
+    const zip = await JSZip.loadAsync(blob);
+
+    expect(Object.keys(zip.files).sort()).toEqual(['manifest.json', 'payload.bin']);
+    const outer = JSON.parse(await zip.file('manifest.json')!.async('text'));
+    expect(outer.tables).toEqual({});
+    expect(outer.ownerUserId).toBeUndefined();
+    expect(outer.encryption).toMatchObject({ algorithm: 'AES-GCM', kdf: 'PBKDF2-SHA256' });
+
+    const picked = await readBackupFile(new File([blob], 'backup.zip'));
+    expect(picked.encrypted).toBe(true);
+  });
+
+  it('unlocks and restores the original rows', async () => {
+    const blob = await exportBackupZip(undefined, { password: PASSWORD });
+
+    const { data, manifest } = await unlockBackupZip(blob, PASSWORD);
+    expect(manifest.ownerUserId).toBe('user-1');
+    expect(manifest.tables).toMatchObject({ entries: 1, reminders: 1 });
+    expect(manifest.encryption).toBeUndefined();
+
+    await importBackupZip(data, { wipeExisting: false });
+    expect(mocks.written.entries).toEqual(entries);
+    expect(mocks.written.reminders).toEqual(reminders);
+  });
+
+  it('restores directly when given the password', async () => {
+    const blob = await exportBackupZip(undefined, { password: PASSWORD });
+
+    await importBackupZip(blob, { wipeExisting: false, password: PASSWORD });
+    expect(mocks.written.entries).toEqual(entries);
+  });
+
+  it('rejects a wrong or missing password without writing anything', async () => {
+    const blob = await exportBackupZip(undefined, { password: PASSWORD });
+
+    await expect(unlockBackupZip(blob, 'wrong horse')).rejects.toThrow(WRONG_BACKUP_PASSWORD);
+    await expect(importBackupZip(blob, { wipeExisting: false, password: 'wrong horse' }))
+      .rejects.toThrow(WRONG_BACKUP_PASSWORD);
+    await expect(importBackupZip(blob, { wipeExisting: false })).rejects.toThrow(BACKUP_PASSWORD_REQUIRED);
+    expect(mocks.written).toEqual({});
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Password-protected backup archives.
+ *
+ * An encrypted backup is a ZIP with a minimal manifest.json (carrying the KDF
+ * parameters) and payload.bin: the complete plain backup ZIP, AES-GCM encrypted
+ * with a PBKDF2-SHA256 key derived from the password.
+ */
+
+import { base64ToBytes, bytesToBase64 } from './syncCrypto';
+
+export const BACKUP_PASSWORD_REQUIRED = 'backup_password_required';
+export const WRONG_BACKUP_PASSWORD = 'wrong_backup_password';
+
+export const BACKUP_PAYLOAD_PATH = 'payload.bin';
+export const BACKUP_KDF_ITERATIONS = 310_000;
+export const MIN_BACKUP_PASSWORD_LENGTH = 8;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface BackupEncryption {
+  algorithm: 'AES-GCM';
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  iv: string;   // base64
+}
+
+export function isBackupEncryption(value: unknown): value is BackupEncryption {
+  if (!value || typeof value !== 'object') return false;
+  const encryption = value as Record<string, unknown>;
+  return (
+    encryption.algorithm === 'AES-GCM' &&
+    encryption.kdf === 'PBKDF2-SHA256' &&
+    typeof encryption.iterations === 'number' &&
+    typeof encryption.salt === 'string' &&
+    typeof encryption.iv === 'string'
+  );
+}
+
+async function deriveBackupKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password.normalize('NFKC')),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a plain backup ZIP. Returns the ciphertext and the parameters to store in the manifest.
+ */
+export async function encryptBackupBytes(
+  plain: Uint8Array,
+  password: string
+): Promise<{ encryption: BackupEncryption; ciphertext: Uint8Array }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveBackupKey(password, salt, BACKUP_KDF_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain);
+
+  return {
+    encryption: {
+      algorithm: 'AES-GCM',
+      kdf: 'PBKDF2-SHA256',
+      iterations: BACKUP_KDF_ITERATIONS,
+      salt: bytesToBase64(salt),
+      iv: bytesToBase64(iv),
+    },
+    ciphertext: new Uint8Array(ciphertext),
+  };
+}
+
+/**
+ * Decrypt payload.bin. GCM authentication fails on a wrong password or a damaged file.
+ */
+export async function decryptBackupBytes(
+  ciphertext: Uint8Array,
+  password: string,
+  encryption: BackupEncryption
+): Promise<Uint8Array> {
+  const key = await deriveBackupKey(password, base64ToBytes(encryption.salt), encryption.iterations);
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(encryption.iv) }, key, ciphertext);
+    return new Uint8Array(plain);
+  } catch {
+    throw new Error(WRONG_BACKUP_PASSWORD);
+  }
+}
@@ -0,0 +1,359 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createEntry, db, type DiaryEntry } from './db';
+import {
+  applyBackupMerge,
+  emptyMergeTables,
+  planBackupMerge,
+  readMergeSnapshot,
+  type MergeSource,
+  type MergeTables,
+} from './backupMerge';
+
+async function clearTables() {
+  await db.transaction('rw', db.tables, async () => {
+    for (const table of db.tables) {
+      await table.clear();
+    }
+  });
+}
+
+function backupEntry(id: number, overrides: Partial<DiaryEntry> = {}): DiaryEntry {
+  return {
+    id,
+    date: '2025-05-01',
+    text: `Old entry ${id}`,
+    mood: 3,
+    tags: [],
+    isPrivate: false,
+    aiAllowed: true,
+    createdAt: 1_000 + id,
+    updatedAt: 1_000 + id,
+    cloudId: `cloud-${id}`,
+    syncStatus: 'synced',
+    lastSyncedAt: 2_000,
+    ...overrides,
+  };
+}
+
+function source(tables: Partial<MergeTables>): MergeSource {
+  return {
+    tables,
+    hydrateAttachment: async (attachment) => ({ ...attachment, blob: new Blob(['x']) }),
+  };
+}
+
+describe('backup merge', () => {
+  beforeEach(clearTables);
+  afterEach(clearTables);
+
+  it('classifies entries as added, skipped or conflicting without writing', async () => {
+    const keptId = await createEntry({ date: '2025-05-01', text: 'Same text', mood: 3, tags: [], isPrivate: false });
+    const editedId = await createEntry({ date: '2025-05-02', text: 'Newer local text', mood: 4, tags: [], isPrivate: false });
+    const kept = (await db.entries.get(keptId))!;
+    const edited = (await db.entries.get(editedId))!;
+
+    const backup = {
+      entries: [
+        backupEntry(1, { text: 'Same text', cloudId: 'other-device' }), // duplicate content
+        backupEntry(2, { date: '2025-05-02', text: 'Older text', mood: 4, cloudId: edited.cloudId }),
+        backupEntry(3),
+      ],
+    };
+
+    const plan = planBackupMerge(backup, await readMergeSnapshot());
+
+    expect(plan.report.tables.entries).toEqual({ added: 1, skipped: 1, conflicting: 1 });
+    expect(plan.report.conflicts).toEqual([{ table: 'entries', label: '2025-05-02 — Older text' }]);
+    expect(plan.matches.entries).toEqual(new Map([[1, kept.id], [2, edited.id]]));
+    expect(await db.entries.count()).toBe(2);
+  });
+
+  it('remaps foreign keys of added rows to new local ids', async () => {
+    // The backup's entry id is taken locally by unrelated content
+    const localId = await createEntry({ date: '2026-01-01', text: 'Local only', mood: 5, tags: [], isPrivate: false });
+
+    const backup: Partial<MergeTables> = {
+      entries: [backupEntry(localId)],
+      attachments: [{ id: 7, entryId: localId, kind: 'image', mimeType: 'image/png', size: 1, createdAt: 1, _blobPath: 'att_7.png' }],
+      receipts: [{
+        id: 4, date: '2025-05-01', storeName: 'Shop', storeAddress: null, total: 10, subtotal: null, tax: null,
+        currency: 'EUR', confidence: 'high', warnings: [], attachmentId: 7, entryId: localId, createdAt: 5, updatedAt: 5,
+      }],
+      receiptItems: [{ id: 9, receiptId: 4, name: 'Bread', qty: 1, unitPrice: 10, totalPrice: 10, discount: null, category: null }],
+      reminders: [{
+        id: 2, entryId: localId, sourceText: 'call', actionText: 'Call', dueAt: 10, status: 'pending', repeat: 'none', createdAt: 6, updatedAt: 6,
+      }],
+      discussionSessions: [{
+        id: 3, title: 'Talk', createdAt: 8, updatedAt: 8, lastMessageAt: 8, scope: { entryIds: [localId], docIds: [] }, modeDefault: 'discuss',
+      }],
+      discussionMessages: [{
+        id: 11, sessionId: 3, role: 'assistant', content: 'See entry', createdAt: 9,
+        evidenceRefs: [{ type: 'entry', id: 'E1', title: 'Old', deepLink: `/entry/${localId}`, entityId: localId }],
+      }],
+    };
+
+    const plan = planBackupMerge(backup, await readMergeSnapshot());
+    await applyBackupMerge(plan, source(backup));
+
+    const restored = (await db.entries.where('cloudId').equals(`cloud-${localId}`).first())!;
+    expect(restored.id).not.toBe(localId);
+    expect(restored).toMatchObject({ text: `Old entry ${localId}`, syncStatus: 'pending', lastSyncedAt: undefined });
+    expect((await db.entries.get(localId))!.text).toBe('Local only');
+
+    const [attachment] = await db.attachments.toArray();
+    expect(attachment.entryId).toBe(restored.id);
+    expect(attachment).not.toHaveProperty('_blobPath');
+
+    const [receipt] = await db.receipts.toArray();
+    expect(receipt).toMatchObject({ entryId: restored.id, attachmentId: attachment.id });
+    expect((await db.receiptItems.toArray())[0].receiptId).toBe(receipt.id);
+    expect((await db.reminders.toArray())[0].entryId).toBe(restored.id);
+
+    const [session] = await db.discussionSessions.toArray();
+    expect(session.scope.entryIds).toEqual([restored.id]);
+    const [message] = await db.discussionMessages.toArray();
+    expect(message.sessionId).toBe(session.id);
+    expect(message.evidenceRefs?.[0]).toMatchObject({ entityId: restored.id, deepLink: `/entry/${restored.id}` });
+  });
+
+  it('remaps receipt and reminder citations and drops ones whose target was not merged', async () => {
+    const localEntryId = await createEntry({ date: '2026-01-01', text: 'Local only', mood: 5, tags: [], isPrivate: false });
+    // Local rows hold the backup's ids, so restored ones get new ids
+    await db.receipts.add({
+      id: 4, date: '2026-01-01', storeName: 'Local shop', storeAddress: null, total: 1, subtotal: null, tax: null,
+      currency: 'EUR', confidence: 'high', warnings: [], attachmentId: null, entryId: null, createdAt: 1, updatedAt: 1,
+    });
+    await db.reminders.add({
+      id: 2, entryId: localEntryId, sourceText: 'local', actionText: 'Local', dueAt: 1, status: 'pending', repeat: 'none', createdAt: 1, updatedAt: 1,
+    });
+
+    const backup: Partial<MergeTables> = {
+      entries: [backupEntry(1)],
+      receipts: [{
+        id: 4, date: '2025-05-01', storeName: 'Shop', storeAddress: null, total: 10, subtotal: null, tax: null,
+        currency: 'EUR', confidence: 'high', warnings: [], attachmentId: null, entryId: 1, createdAt: 5, updatedAt: 5,
+      }],
+      reminders: [{
+        id: 2, entryId: 1, sourceText: 'call', actionText: 'Call', dueAt: 10, status: 'pending', repeat: 'none', createdAt: 6, updatedAt: 6,
+      }],
+      discussionSessions: [{
+        id: 3, title: 'Talk', createdAt: 8, updatedAt: 8, lastMessageAt: 8, scope: { entryIds: [1], docIds: [] }, modeDefault: 'discuss',
+      }],
+      discussionMessages: [{
+        id: 11, sessionId: 3, role: 'assistant', content: 'See receipts', createdAt: 9,
+        evidenceRefs: [
+          { type: 'receipt', id: 'R1', title: 'Shop', deepLink: '/receipts/4', entityId: 4 },
+          { type: 'reminder', id: 'R2', title: 'Call', deepLink: '/reminder/2', entityId: 2 },
+          { type: 'reminder', id: 'R3', title: 'Gone', deepLink: '/reminder/99', entityId: 99 },
+        ],
+      }],
+    };
+
+    await applyBackupMerge(planBackupMerge(backup, await readMergeSnapshot()), source(backup));
+
+    const receipt = (await db.receipts.where('storeName').equals('Shop').first())!;
+    const reminder = (await db.reminders.filter(r => r.actionText === 'Call').first())!;
+    expect(receipt.id).not.toBe(4);
+    expect(reminder.id).not.toBe(2);
+    const [message] = await db.discussionMessages.toArray();
+    expect(message.evidenceRefs).toEqual([
+      expect.objectContaining({ type: 'receipt', entityId: receipt.id, deepLink: `/receipts/${receipt.id}` }),
+      expect.objectContaining({ type: 'reminder', entityId: reminder.id, deepLink: `/reminder/${reminder.id}` }),
+    ]);
+  });
+
+  it('links plan reminders to the merged discussion and its plan items to the merged reminders', async () => {
+    // Local rows hold the backup's ids, so restored ones get new ids
+    await db.discussionSessions.add({
+      id: 3, title: 'Local', createdAt: 1, updatedAt: 1, lastMessageAt: 1, scope: { entryIds: [], docIds: [] }, modeDefault: 'discuss',
+    });
+    await db.discussionMessages.add({ id: 11, sessionId: 3, role: 'user', content: 'Local', createdAt: 1 });
+    await db.reminders.add({
+      id: 2, sessionId: 3, messageId: 11, sourceText: 'local', actionText: 'Local', dueAt: 1, status: 'pending', repeat: 'none', createdAt: 1, updatedAt: 1,
+    });
+
+    const backup: Partial<MergeTables> = {
+      reminders: [{
+        id: 2, sessionId: 3, messageId: 11, sourceText: 'Book a van', actionText: 'Book a van', dueAt: 10, status: 'pending', repeat: 'none', createdAt: 6, updatedAt: 6,
+      }],
+      discussionSessions: [{
+        id: 3, title: 'Moving', createdAt: 8, updatedAt: 8, lastMessageAt: 8, scope: { entryIds: [], docIds: [] }, modeDefault: 'plan',
+      }],
+      discussionMessages: [{
+        id: 11, sessionId: 3, role: 'assistant', content: 'Plan', createdAt: 9,
+        meta: { planArtifact: { type: 'plan', title: 'Move out', items: [{ text: 'Book a van', reminderId: 2 }, { text: 'Gone', reminderId: 99 }] } },
+      }],
+    };
+
+    const plan = planBackupMerge(backup, await readMergeSnapshot());
+    expect(plan.report.tables.reminders).toEqual({ added: 1, skipped: 0, conflicting: 0 });
+    await applyBackupMerge(plan, source(backup));
+
+    const session = (await db.discussionSessions.filter(s => s.title === 'Moving').first())!;
+    const message = (await db.discussionMessages.where('sessionId').equals(session.id!).first())!;
+    const reminder = (await db.reminders.filter(r => r.actionText === 'Book a van').first())!;
+    expect(reminder).toMatchObject({ sessionId: session.id, messageId: message.id });
+    expect(reminder.entryId).toBeUndefined();
+    expect(message.meta?.planArtifact?.items.map(item => item.reminderId)).toEqual([reminder.id, undefined]);
+
+    // Restoring the same backup again finds the reminder already there
+    const again = planBackupMerge(backup, await readMergeSnapshot());
+    expect(again.report.tables.reminders).toEqual({ added: 0, skipped: 1, conflicting: 0 });
+  });
+
+  it('merges into matched records without duplicating what is already there', async () => {
+    const entryId = await createEntry({ date: '2025-05-01', text: 'Shared', mood: 3, tags: [], isPrivate: false });
+    const local = (await db.entries.get(entryId))!;
+    await db.attachments.add({ entryId, kind: 'image', mimeType: 'image/png', size: 1, blob: new Blob(['x']), createdAt: 1 });
+
+    const backup: Partial<MergeTables> = {
+      ...emptyMergeTables(),
+      entries: [backupEntry(5, { text: 'Shared', cloudId: local.cloudId })],
+      attachments: [
+        { id: 1, entryId: 5, kind: 'image', mimeType: 'image/png', size: 1, createdAt: 1 },
+        { id: 2, entryId: 5, kind: 'audio', mimeType: 'audio/webm', size: 50, createdAt: 2 },
+      ],
+      biographies: [{ date: '2025-05-01', generatedAt: 1, status: 'complete', retryCount: 0, biography: null, sourceEntryIds: [5] }],
+    };
+
+    const plan = planBackupMerge(backup, await readMergeSnapshot());
+    expect(plan.report.tables.attachments).toEqual({ added: 1, skipped: 1, conflicting: 0 });
+    expect(plan.report.totals).toEqual({ added: 2, skipped: 2, conflicting: 0 });
+
+    await applyBackupMerge(plan, source(backup));
+
+    expect(await db.entries.count()).toBe(1);
+    expect((await db.entries.get(entryId))!.attachmentCounts).toEqual({ image: 1, video: 0, audio: 1 });
+    expect((await db.biographies.get('2025-05-01'))!.sourceEntryIds).toEqual([entryId]);
+
+    // Running the same merge again changes nothing
+    const again = planBackupMerge(backup, await readMergeSnapshot());
+    expect(again.report.totals.added).toBe(0);
+  });
+
+  it('merges chat threads and relinks diary images', async () => {
+    const entryId = await createEntry({ date: '2025-05-01', text: 'Garden', mood: 3, tags: [], isPrivate: false });
+    const local = (await db.entries.get(entryId))!;
+    const attachmentId = await db.attachments.add({
+      entryId, kind: 'image', mimeType: 'image/png', size: 1, blob: new Blob(['x']), createdAt: 1,
+    });
+    const existingThread = await db.chatThreads.add({ title: 'Shared', createdAt: 50, updatedAt: 50, lastMessageAt: 51 });
+    await db.chatMessages.add({ threadId: existingThread, role: 'user', content: 'Hi', createdAt: 51 });
+
+    const backup: Partial<MergeTables> = {
+      entries: [backupEntry(5, { text: 'Garden', cloudId: local.cloudId })],
+      attachments: [{ id: 8, entryId: 5, kind: 'image', mimeType: 'image/png', size: 1, createdAt: 1 }],
+      chatThreads: [
+        { id: 1, title: 'Shared', createdAt: 50, updatedAt: 60, lastMessageAt: 61 },
+        { id: 2, title: 'Plants', createdAt: 70, updatedAt: 70, lastMessageAt: 71 },
+      ],
+      chatMessages: [
+        { id: 1, threadId: 1, role: 'user', content: 'Hi', createdAt: 51 },
+        { id: 2, threadId: 1, role: 'assistant', content: 'Hello!', createdAt: 61 },
+        { id: 3, threadId: 2, role: 'user', content: 'What is this?', imageUrls: ['data:image/png;base64,eA=='], diaryAttachmentIds: [8], createdAt: 71 },
+      ],
+    };
+
+    const plan = planBackupMerge(backup, await readMergeSnapshot());
+    expect(plan.report.tables.chatThreads).toEqual({ added: 1, skipped: 1, conflicting: 0 });
+    expect(plan.report.tables.chatMessages).toEqual({ added: 2, skipped: 1, conflicting: 0 });
+
+    await applyBackupMerge(plan, source(backup));
+
+    expect((await db.chatMessages.where('threadId').equals(existingThread).toArray()).map(m => m.content))
+      .toEqual(['Hi', 'Hello!']);
+    const plants = (await db.chatThreads.where('lastMessageAt').equals(71).first())!;
+    const [question] = await db.chatMessages.where('threadId').equals(plants.id!).toArray();
+    expect(question.diaryAttachmentIds).toEqual([attachmentId]);
+  });
+
+  it('adds new documents with their pages and relinks discussions that cite them', async () => {
+    const localDoc = await db.documents.add({
+      title: 'Lease', kind: 'pdf', mimeType: 'application/pdf', fileName: 'lease.pdf', size: 3,
+      blob: new Blob(['pdf']), pageCount: 1, textChars: 4, createdAt: 10, updatedAt: 10,
+    });
+    await db.documentPages.add({ docId: localDoc, pageIndex: 0, text: 'Rent', textSource: 'extracted' });
+    // Take the backup's ids so a missed remap would point at the wrong document
+    await db.documents.add({
+      title: 'Filler', kind: 'pdf', mimeType: 'application/pdf', fileName: 'filler.pdf', size: 1,
+      blob: new Blob(['x']), pageCount: 0, textChars: 0, createdAt: 5, updatedAt: 5,
+    });
+
+    const backup: Partial<MergeTables> = {
+      documents: [
+        { id: 1, title: 'Lease', kind: 'pdf', mimeType: 'application/pdf', fileName: 'lease.pdf', size: 3, pageCount: 1, textChars: 4, createdAt: 10, updatedAt: 10 },
+        { id: 2, title: 'Warranty', kind: 'pdf', mimeType: 'application/pdf', fileName: 'warranty.pdf', size: 7, pageCount: 2, textChars: 9, createdAt: 20, updatedAt: 20 },
+      ],
+      documentPages: [
+        { id: 1, docId: 1, pageIndex: 0, text: 'Rent', textSource: 'extracted' },
+        { id: 2, docId: 2, pageIndex: 0, text: 'Two years', textSource: 'extracted' },
+        { id: 3, docId: 2, pageIndex: 1, text: 'Returns', textSource: 'user' },
+      ],
+      discussionSessions: [
+        { id: 1, title: 'Warranty', createdAt: 90, updatedAt: 90, lastMessageAt: 91, scope: { entryIds: [], docIds: [2] }, modeDefault: 'discuss' },
+      ],
+      discussionMessages: [
+        {
+          id: 1, sessionId: 1, role: 'assistant', content: 'Two years.', createdAt: 91,
+          evidenceRefs: [{ type: 'document_page', id: 'D1', title: 'Warranty', deepLink: '/documents/2?page=1', entityId: 2, pageIndex: 0 }],
+        },
+      ],
+    };
+
+    const plan = planBackupMerge(backup, await readMergeSnapshot());
+    expect(plan.report.tables.documents).toEqual({ added: 1, skipped: 1, conflicting: 0 });
+    expect(plan.report.tables.documentPages).toEqual({ added: 2, skipped: 1, conflicting: 0 });
+
+    await applyBackupMerge(plan, source(backup));
+
+    const warranty = (await db.documents.where('createdAt').equals(20).first())!;
+    expect(warranty).not.toHaveProperty('_blobPath');
+    expect(warranty.blob).toBeDefined();
+    expect((await db.documentPages.where('docId').equals(warranty.id!).toArray()).map(p => p.text))
+      .toEqual(['Two years', 'Returns']);
+    expect(await db.documentPages.where('docId').equals(localDoc).count()).toBe(1);
+
+    const session = (await db.discussionSessions.filter(s => s.createdAt === 90).first())!;
+    expect(session.scope.docIds).toEqual([warranty.id]);
+    const [message] = await db.discussionMessages.where('sessionId').equals(session.id!).toArray();
+    expect(message.evidenceRefs?.[0]).toMatchObject({ entityId: warranty.id, deepLink: `/documents/${warranty.id}?page=1` });
+  });
+
+  it('keeps discussion branches attached to matched and added messages', async () => {
+    const entryId = await createEntry({ date: '2025-05-01', text: 'Talked', mood: 3, tags: [], isPrivate: false });
+    const sessionId = await db.discussionSessions.add({
+      title: 'Shared', createdAt: 80, updatedAt: 80, lastMessageAt: 81, scope: { entryIds: [entryId], docIds: [] }, modeDefault: 'discuss',
+    });
+    const questionId = await db.discussionMessages.add({ sessionId, parentId: null, role: 'user', content: 'Why?', createdAt: 81 });
+
+    const backup: Partial<MergeTables> = {
+      discussionSessions: [
+        { id: 1, title: 'Shared', createdAt: 80, updatedAt: 90, lastMessageAt: 92, scope: { entryIds: [], docIds: [] }, modeDefault: 'discuss' },
+        {
+          id: 2, title: 'Other', createdAt: 95, updatedAt: 97, lastMessageAt: 97, scope: { entryIds: [], docIds: [] },
+          modeDefault: 'discuss', activeLeafId: 12,
+        },
+      ],
+      discussionMessages: [
+        { id: 4, sessionId: 1, parentId: null, role: 'user', content: 'Why?', createdAt: 81 },
+        { id: 5, sessionId: 1, parentId: 4, role: 'assistant', content: 'First answer', createdAt: 82 },
+        { id: 6, sessionId: 1, parentId: 4, role: 'assistant', content: 'Second answer', createdAt: 92 },
+        { id: 10, sessionId: 2, parentId: null, role: 'user', content: 'Hi', createdAt: 95 },
+        { id: 12, sessionId: 2, parentId: 10, role: 'assistant', content: 'Hello', createdAt: 97 },
+      ],
+    };
+
+    const plan = planBackupMerge(backup, await readMergeSnapshot());
+    expect(plan.matches.discussionMessages).toEqual(new Map([[4, questionId]]));
+    await applyBackupMerge(plan, source(backup));
+
+    const answers = await db.discussionMessages.where('sessionId').equals(sessionId).filter(m => m.role === 'assistant').toArray();
+    expect(answers.map(m => m.parentId)).toEqual([questionId, questionId]);
+
+    const other = (await db.discussionSessions.where('lastMessageAt').equals(97).first())!;
+    const [hi, hello] = await db.discussionMessages.where('sessionId').equals(other.id!).sortBy('createdAt');
+    expect(hello.parentId).toBe(hi.id);
+    expect(other.activeLeafId).toBe(hello.id);
+  });
+});
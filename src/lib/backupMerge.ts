@@ -0,0 +1,705 @@
+/**
+ * Merge restore: bring a backup into a device that already has data, without wiping it.
+ *
+ * planBackupMerge() is pure: it compares backup rows with a snapshot of the local tables and
+ * decides per row whether to add it, skip it (already here) or report a conflict (same record,
+ * different content: the local copy is kept). Rows to add still carry backup ids; the
+ * applier assigns new local ids and rewrites foreign keys (attachments, receipts, reminders,
+ * analysis queue, document pages, discussions, biographies, chat threads) to point at them.
+ */
+
+import {
+  db,
+  type AnalysisQueueItem,
+  type Attachment,
+  type AttachmentInsight,
+  type AudioTranscript,
+  type ChatThread,
+  type ChatThreadMessage,
+  type DiaryEntry,
+  type DiscussionMessage,
+  type DiscussionSession,
+  type DocumentPage,
+  type Draft,
+  type Receipt,
+  type ReceiptItem,
+  type Reminder,
+  type SavedSearch,
+  type ScanLog,
+  type StoredBiography,
+  type StoredDocument,
+  type WeeklyInsight,
+} from './db';
+
+// Dependency order: parents before the rows that reference them
+export const MERGE_TABLES = [
+  'entries',
+  'attachments',
+  'attachmentInsights',
+  'audioTranscripts',
+  'drafts',
+  'receipts',
+  'receiptItems',
+  'reminders',
+  'analysisQueue',
+  'documents',
+  'documentPages',
+  'discussionSessions',
+  'discussionMessages',
+  'biographies',
+  'weeklyInsights',
+  'scanLogs',
+  'savedSearches',
+  'chatThreads',
+  'chatMessages',
+] as const;
+
+export type MergeTableName = typeof MERGE_TABLES[number];
+
+export interface MergeTableCounts {
+  added: number;
+  skipped: number;
+  conflicting: number;
+}
+
+export interface MergeConflict {
+  table: MergeTableName;
+  label: string;
+}
+
+export interface MergeReport {
+  tables: Record<MergeTableName, MergeTableCounts>;
+  totals: MergeTableCounts;
+  conflicts: MergeConflict[];
+}
+
+// Attachments as exported: blobs are base64 (JSON) or ZIP media references until hydrated
+export type BackupAttachment = Omit<Attachment, 'blob' | 'thumbnail'> & {
+  blob?: unknown;
+  thumbnail?: unknown;
+  _blobPath?: string;
+  _thumbPath?: string;
+};
+
+export type BackupDocument = Omit<StoredDocument, 'blob'> & {
+  blob?: unknown;
+  _blobPath?: string;
+};
+
+export type BackupDraft = Omit<Draft, 'attachments'> & {
+  attachments?: Array<Record<string, unknown>>;
+};
+
+export interface MergeTables {
+  entries: DiaryEntry[];
+  attachments: BackupAttachment[];
+  attachmentInsights: AttachmentInsight[];
+  audioTranscripts: AudioTranscript[];
+  drafts: BackupDraft[];
+  receipts: Receipt[];
+  receiptItems: ReceiptItem[];
+  reminders: Reminder[];
+  analysisQueue: AnalysisQueueItem[];
+  documents: BackupDocument[];
+  documentPages: DocumentPage[];
+  discussionSessions: DiscussionSession[];
+  discussionMessages: DiscussionMessage[];
+  biographies: StoredBiography[];
+  weeklyInsights: WeeklyInsight[];
+  scanLogs: ScanLog[];
+  savedSearches: SavedSearch[];
+  chatThreads: ChatThread[];
+  chatMessages: ChatThreadMessage[];
+}
+
+export interface MergePlan {
+  report: MergeReport;
+  /** Backup rows to insert, foreign keys still in backup ids */
+  additions: MergeTables;
+  /** Backup id → local id of the record it was matched with (skipped or conflicting) */
+  matches: {
+    entries: Map<number, number>;
+    attachments: Map<number, number>;
+    receipts: Map<number, number>;
+    reminders: Map<number, number>;
+    documents: Map<number, number>;
+    discussionSessions: Map<number, number>;
+    discussionMessages: Map<number, number>;
+    chatThreads: Map<number, number>;
+  };
+}
+
+/** Backup contents plus a way to turn exported attachment and document media back into Blobs. */
+export interface MergeSource {
+  tables: Partial<MergeTables>;
+  hydrateAttachment<T extends object>(attachment: T): Promise<T>;
+}
+
+const CONFLICT_LABEL_LENGTH = 60;
+
+export function emptyMergeTables(): MergeTables {
+  return Object.fromEntries(MERGE_TABLES.map(name => [name, []])) as unknown as MergeTables;
+}
+
+/**
+ * Normalized content fingerprint of an entry. Equal keys mean the same entry text,
+ * whatever the local id or the time it was last saved.
+ */
+export function entryContentKey(entry: DiaryEntry): string {
+  return JSON.stringify([
+    entry.date,
+    (entry.text ?? '').trim(),
+    entry.mood,
+    [...(entry.tags ?? [])].sort(),
+    entry.title ?? '',
+    Boolean(entry.isPrivate),
+  ]);
+}
+
+function snippet(text: string | undefined): string {
+  const line = (text ?? '').replace(/\s+/g, ' ').trim();
+  return line.length > CONFLICT_LABEL_LENGTH ? `${line.slice(0, CONFLICT_LABEL_LENGTH)}…` : line;
+}
+
+function groupBy<T, K>(rows: T[], key: (row: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  for (const row of rows) {
+    const k = key(row);
+    const group = groups.get(k);
+    if (group) group.push(row);
+    else groups.set(k, [row]);
+  }
+  return groups;
+}
+
+/**
+ * Decide, row by row, what a merge restore would do. Does not touch the database.
+ */
+export function planBackupMerge(backup: Partial<MergeTables>, local: MergeTables): MergePlan {
+  const additions = emptyMergeTables();
+  const matches: MergePlan['matches'] = {
+    entries: new Map(),
+    attachments: new Map(),
+    receipts: new Map(),
+    reminders: new Map(),
+    documents: new Map(),
+    discussionSessions: new Map(),
+    discussionMessages: new Map(),
+    chatThreads: new Map(),
+  };
+  const tables = Object.fromEntries(
+    MERGE_TABLES.map(name => [name, { added: 0, skipped: 0, conflicting: 0 }])
+  ) as Record<MergeTableName, MergeTableCounts>;
+  const conflicts: MergeConflict[] = [];
+
+  const add = <K extends MergeTableName>(table: K, row: MergeTables[K][number]) => {
+    (additions[table] as Array<typeof row>).push(row);
+    tables[table].added++;
+  };
+  const skip = (table: MergeTableName) => {
+    tables[table].skipped++;
+  };
+  const conflict = (table: MergeTableName, label: string) => {
+    tables[table].conflicting++;
+    conflicts.push({ table, label });
+  };
+
+  // Entries: same record by cloudId (or creation time when either side predates cloudIds),
+  // duplicate content by fingerprint
+  const localByCloudId = new Map(local.entries.filter(e => e.cloudId).map(e => [e.cloudId!, e]));
+  const localByCreatedAt = new Map(local.entries.map(e => [e.createdAt, e]));
+  const localByContent = new Map(local.entries.map(e => [entryContentKey(e), e]));
+  const addedEntryIds = new Set<number>();
+
+  for (const entry of backup.entries ?? []) {
+    const byCreatedAt = localByCreatedAt.get(entry.createdAt);
+    const sameRecord = (entry.cloudId ? localByCloudId.get(entry.cloudId) : undefined)
+      ?? (byCreatedAt && !(entry.cloudId && byCreatedAt.cloudId && entry.cloudId !== byCreatedAt.cloudId) ? byCreatedAt : undefined);
+    const key = entryContentKey(entry);
+
+    if (sameRecord) {
+      matches.entries.set(entry.id!, sameRecord.id!);
+      if (entryContentKey(sameRecord) === key) skip('entries');
+      else conflict('entries', `${entry.date} — ${snippet(entry.title || entry.text)}`);
+    } else if (localByContent.has(key)) {
+      matches.entries.set(entry.id!, localByContent.get(key)!.id!);
+      skip('entries');
+    } else {
+      addedEntryIds.add(entry.id!);
+      add('entries', entry);
+    }
+  }
+
+  const entryKnown = (id: number) => matches.entries.has(id) || addedEntryIds.has(id);
+
+  // Attachments: under a matched entry, the same kind and size is the same file
+  const attachmentKey = (a: BackupAttachment) => `${a.kind}:${a.size}`;
+  const localAttachments = groupBy(local.attachments, a => a.entryId);
+  const unclaimed = new Map<number, Map<string, BackupAttachment[]>>();
+  const candidatesFor = (localEntryId: number) => {
+    let byKey = unclaimed.get(localEntryId);
+    if (!byKey) {
+      byKey = groupBy(localAttachments.get(localEntryId) ?? [], attachmentKey);
+      unclaimed.set(localEntryId, byKey);
+    }
+    return byKey;
+  };
+  const addedAttachmentIds = new Set<number>();
+
+  for (const attachment of backup.attachments ?? []) {
+    // Standalone attachments (receipt photos) have no entry; match on creation time too
+    const standalone = attachment.entryId <= 0;
+    if (!standalone && !entryKnown(attachment.entryId)) {
+      skip('attachments');
+      continue;
+    }
+    const localEntryId = standalone ? attachment.entryId : matches.entries.get(attachment.entryId);
+    const candidates = localEntryId === undefined
+      ? undefined
+      : candidatesFor(localEntryId).get(attachmentKey(attachment))
+        ?.filter(candidate => !standalone || candidate.createdAt === attachment.createdAt);
+    const same = candidates?.[0];
+
+    if (same) {
+      const pool = candidatesFor(localEntryId!).get(attachmentKey(attachment))!;
+      pool.splice(pool.indexOf(same), 1);
+      matches.attachments.set(attachment.id!, same.id!);
+      skip('attachments');
+    } else {
+      addedAttachmentIds.add(attachment.id!);
+      add('attachments', attachment);
+    }
+  }
+
+  // Per-attachment analysis results follow their attachment
+  const mergeAttachmentKeyed = <K extends 'attachmentInsights' | 'audioTranscripts'>(table: K) => {
+    const localIds = new Set(local[table].map(row => row.attachmentId));
+    for (const row of backup[table] ?? []) {
+      const matched = matches.attachments.get(row.attachmentId);
+      if (addedAttachmentIds.has(row.attachmentId) || (matched !== undefined && !localIds.has(matched))) {
+        add(table, row);
+      } else {
+        skip(table);
+      }
+    }
+  };
+  mergeAttachmentKeyed('attachmentInsights');
+  mergeAttachmentKeyed('audioTranscripts');
+
+  // Drafts are keyed by 'new' or the id of the entry being edited
+  const localDrafts = new Map(local.drafts.map(d => [d.id, d]));
+  for (const draft of backup.drafts ?? []) {
+    const entryId = Number(draft.id);
+    const isEntryDraft = Number.isInteger(entryId) && entryId > 0;
+    if (isEntryDraft && !entryKnown(entryId)) {
+      skip('drafts');
+      continue;
+    }
+    const localId = isEntryDraft
+      ? (matches.entries.has(entryId) ? String(matches.entries.get(entryId)) : undefined)
+      : draft.id;
+    const existing = localId !== undefined ? localDrafts.get(localId) : undefined;
+    if (!existing) add('drafts', draft);
+    else if (existing.text === draft.text) skip('drafts');
+    else conflict('drafts', snippet(draft.text));
+  }
+
+  // Receipts: same store at the same creation time
+  const receiptKey = (r: Receipt) => `${r.createdAt}:${r.storeName}`;
+  const localReceipts = new Map(local.receipts.map(r => [receiptKey(r), r]));
+  const addedReceiptIds = new Set<number>();
+  for (const receipt of backup.receipts ?? []) {
+    const existing = localReceipts.get(receiptKey(receipt));
+    if (!existing) {
+      addedReceiptIds.add(receipt.id!);
+      add('receipts', receipt);
+      continue;
+    }
+    matches.receipts.set(receipt.id!, existing.id!);
+    if (existing.total === receipt.total && existing.date === receipt.date) skip('receipts');
+    else conflict('receipts', `${receipt.date ?? ''} ${receipt.storeName}`.trim());
+  }
+
+  // Items belong to their receipt: a matched receipt keeps its local items
+  for (const item of backup.receiptItems ?? []) {
+    if (addedReceiptIds.has(item.receiptId)) add('receiptItems', item);
+    else skip('receiptItems');
+  }
+
+  // Reminders need their source entry; plan reminders come from a discussion instead.
+  // Those are created in batches with one timestamp, so their plan item text tells them apart.
+  const localReminders = groupBy(local.reminders, r => r.entryId);
+  for (const reminder of backup.reminders ?? []) {
+    const fromDiscussion = reminder.entryId === undefined;
+    if (!fromDiscussion && !entryKnown(reminder.entryId!)) {
+      skip('reminders');
+      continue;
+    }
+    const localEntryId = fromDiscussion ? undefined : matches.entries.get(reminder.entryId!);
+    const existing = fromDiscussion
+      ? localReminders.get(undefined)?.find(r => r.createdAt === reminder.createdAt && r.sourceText === reminder.sourceText)
+      : localEntryId === undefined
+        ? undefined
+        : localReminders.get(localEntryId)?.find(r => r.createdAt === reminder.createdAt);
+    if (!existing) {
+      add('reminders', reminder);
+      continue;
+    }
+    matches.reminders.set(reminder.id!, existing.id!);
+    if (
+      existing.actionText === reminder.actionText &&
+      existing.dueAt === reminder.dueAt &&
+      existing.status === reminder.status
+    ) skip('reminders');
+    else conflict('reminders', snippet(reminder.actionText));
+  }
+
+  // Pending analysis only matters for entries this restore brings in
+  for (const item of backup.analysisQueue ?? []) {
+    if (addedEntryIds.has(item.entryId)) add('analysisQueue', item);
+    else skip('analysisQueue');
+  }
+
+  // Documents: the same file imported at the same time
+  const documentKey = (d: BackupDocument) => `${d.createdAt}:${d.size}:${d.fileName}`;
+  const localDocuments = new Map(local.documents.map(d => [documentKey(d), d]));
+  const addedDocumentIds = new Set<number>();
+  for (const document of backup.documents ?? []) {
+    const existing = localDocuments.get(documentKey(document));
+    if (!existing) {
+      addedDocumentIds.add(document.id!);
+      add('documents', document);
+      continue;
+    }
+    matches.documents.set(document.id!, existing.id!);
+    if (existing.title === document.title && existing.updatedAt === document.updatedAt) skip('documents');
+    else conflict('documents', document.title);
+  }
+
+  // Pages belong to their document: a matched document keeps its local pages
+  for (const page of backup.documentPages ?? []) {
+    if (addedDocumentIds.has(page.docId)) add('documentPages', page);
+    else skip('documentPages');
+  }
+
+  // Discussions: a session is matched by creation time, its messages merge in individually
+  const localSessions = new Map(local.discussionSessions.map(s => [s.createdAt, s]));
+  const addedSessionIds = new Set<number>();
+  for (const session of backup.discussionSessions ?? []) {
+    const existing = localSessions.get(session.createdAt);
+    if (existing) {
+      matches.discussionSessions.set(session.id!, existing.id!);
+      skip('discussionSessions');
+    } else {
+      addedSessionIds.add(session.id!);
+      add('discussionSessions', session);
+    }
+  }
+
+  const localMessages = groupBy(local.discussionMessages, m => m.sessionId);
+  for (const message of backup.discussionMessages ?? []) {
+    if (addedSessionIds.has(message.sessionId)) {
+      add('discussionMessages', message);
+      continue;
+    }
+    const localSessionId = matches.discussionSessions.get(message.sessionId);
+    if (localSessionId === undefined) {
+      skip('discussionMessages');
+      continue;
+    }
+    const existing = localMessages.get(localSessionId)
+      ?.find(m => m.createdAt === message.createdAt && m.role === message.role);
+    if (!existing) {
+      add('discussionMessages', message);
+      continue;
+    }
+    // Replies added from the backup hang off the local copy
+    matches.discussionMessages.set(message.id!, existing.id!);
+    if (existing.content === message.content) skip('discussionMessages');
+    else conflict('discussionMessages', snippet(message.content));
+  }
+
+  // Date-keyed generated artifacts: the local one wins
+  const localBiographies = new Map(local.biographies.map(b => [b.date, b]));
+  for (const biography of backup.biographies ?? []) {
+    const existing = localBiographies.get(biography.date);
+    if (!existing) add('biographies', biography);
+    else if (existing.generatedAt === biography.generatedAt) skip('biographies');
+    else conflict('biographies', biography.date);
+  }
+
+  const localInsights = new Map(local.weeklyInsights.map(w => [w.weekStart, w]));
+  for (const insight of backup.weeklyInsights ?? []) {
+    const existing = localInsights.get(insight.weekStart);
+    if (!existing) add('weeklyInsights', insight);
+    else if (existing.generatedAt === insight.generatedAt) skip('weeklyInsights');
+    else conflict('weeklyInsights', insight.weekStart);
+  }
+
+  const localScans = new Set(local.scanLogs.map(s => `${s.timestamp}:${s.requestId}`));
+  for (const scan of backup.scanLogs ?? []) {
+    if (localScans.has(`${scan.timestamp}:${scan.requestId}`)) skip('scanLogs');
+    else add('scanLogs', scan);
+  }
+
+  const localSearches = new Map(local.savedSearches.map(s => [s.name, s]));
+  for (const search of backup.savedSearches ?? []) {
+    const existing = localSearches.get(search.name);
+    if (!existing) add('savedSearches', search);
+    else if (existing.query === search.query) skip('savedSearches');
+    else conflict('savedSearches', search.name);
+  }
+
+  // Chat threads follow the discussion rules: matched by creation time, messages merged in
+  const localThreads = new Map(local.chatThreads.map(t => [t.createdAt, t]));
+  const addedThreadIds = new Set<number>();
+  for (const thread of backup.chatThreads ?? []) {
+    const existing = localThreads.get(thread.createdAt);
+    if (existing) {
+      matches.chatThreads.set(thread.id!, existing.id!);
+      skip('chatThreads');
+    } else {
+      addedThreadIds.add(thread.id!);
+      add('chatThreads', thread);
+    }
+  }
+
+  const localChatMessages = groupBy(local.chatMessages, m => m.threadId);
+  for (const message of backup.chatMessages ?? []) {
+    if (addedThreadIds.has(message.threadId)) {
+      add('chatMessages', message);
+      continue;
+    }
+    const localThreadId = matches.chatThreads.get(message.threadId);
+    if (localThreadId === undefined) {
+      skip('chatMessages');
+      continue;
+    }
+    const existing = localChatMessages.get(localThreadId)
+      ?.find(m => m.createdAt === message.createdAt && m.role === message.role);
+    if (!existing) add('chatMessages', message);
+    else if (existing.content === message.content) skip('chatMessages');
+    else conflict('chatMessages', snippet(message.content));
+  }
+
+  const totals = Object.values(tables).reduce(
+    (sum, counts) => ({
+      added: sum.added + counts.added,
+      skipped: sum.skipped + counts.skipped,
+      conflicting: sum.conflicting + counts.conflicting,
+    }),
+    { added: 0, skipped: 0, conflicting: 0 }
+  );
+
+  return { report: { tables, totals, conflicts }, additions, matches };
+}
+
+/**
+ * Snapshot of the local tables a merge compares against.
+ */
+export async function readMergeSnapshot(): Promise<MergeTables> {
+  const snapshot = emptyMergeTables();
+  for (const name of MERGE_TABLES) {
+    (snapshot as unknown as Record<string, unknown[]>)[name] = await db.table(name).toArray();
+  }
+  return snapshot;
+}
+
+function withoutId<T extends { id?: unknown }>(row: T): Omit<T, 'id'> {
+  const { id: _id, ...rest } = row;
+  return rest;
+}
+
+/**
+ * Write the additions of a plan. Media is hydrated first, then everything is
+ * inserted in one transaction, so a failed merge leaves the device as it was.
+ */
+export async function applyBackupMerge(plan: MergePlan, source: MergeSource): Promise<void> {
+  const { additions, matches } = plan;
+
+  const attachments = await Promise.all(additions.attachments.map(a => source.hydrateAttachment(a)));
+  const documents = await Promise.all(additions.documents.map(d => source.hydrateAttachment(d)));
+  const drafts = await Promise.all(additions.drafts.map(async draft => ({
+    ...draft,
+    attachments: await Promise.all((draft.attachments ?? []).map(a => source.hydrateAttachment(a))),
+  })));
+
+  await db.transaction('rw', MERGE_TABLES.map(name => db.table(name)), async () => {
+    const entryIds = new Map(matches.entries);
+    const attachmentIds = new Map(matches.attachments);
+    const receiptIds = new Map(matches.receipts);
+    const reminderIds = new Map(matches.reminders);
+    const documentIds = new Map(matches.documents);
+    const sessionIds = new Map(matches.discussionSessions);
+    const messageIds = new Map(matches.discussionMessages);
+    const threadIds = new Map(matches.chatThreads);
+
+    for (const entry of additions.entries) {
+      const id = await db.entries.add({
+        ...withoutId(entry),
+        cloudId: entry.cloudId ?? crypto.randomUUID(),
+        // Not on this device's server copy yet (or deleted there): upload on next sync
+        syncStatus: 'pending',
+        lastSyncedAt: undefined,
+        conflictServerVersion: undefined,
+      });
+      entryIds.set(entry.id!, id);
+    }
+
+    const touchedEntries = new Set<number>();
+    for (const attachment of attachments) {
+      const { _blobPath, _thumbPath, ...row } = attachment;
+      const entryId = row.entryId <= 0 ? row.entryId : entryIds.get(row.entryId)!;
+      const id = await db.attachments.add({ ...withoutId(row), entryId } as Attachment);
+      attachmentIds.set(attachment.id!, id);
+      if (matches.entries.has(attachment.entryId)) touchedEntries.add(entryId);
+    }
+
+    // Entries that already existed got new files: recount instead of trusting either side
+    for (const entryId of touchedEntries) {
+      const counts = { image: 0, video: 0, audio: 0 };
+      await db.attachments.where('entryId').equals(entryId).each(a => { counts[a.kind]++; });
+      await db.entries.update(entryId, { attachmentCounts: counts });
+    }
+
+    for (const insight of additions.attachmentInsights) {
+      await db.attachmentInsights.put({ ...insight, attachmentId: attachmentIds.get(insight.attachmentId)! });
+    }
+    for (const transcript of additions.audioTranscripts) {
+      await db.audioTranscripts.put({ ...transcript, attachmentId: attachmentIds.get(transcript.attachmentId)! });
+    }
+
+    for (const draft of drafts) {
+      const entryId = Number(draft.id);
+      const id = Number.isInteger(entryId) && entryId > 0 ? String(entryIds.get(entryId)) : draft.id;
+      await db.drafts.put({ ...draft, id } as unknown as Draft);
+    }
+
+    const remapEntry = (id: number | null) => (id === null ? null : entryIds.get(id) ?? null);
+
+    for (const receipt of additions.receipts) {
+      const id = await db.receipts.add({
+        ...withoutId(receipt),
+        entryId: remapEntry(receipt.entryId),
+        attachmentId: receipt.attachmentId === null ? null : attachmentIds.get(receipt.attachmentId) ?? null,
+      });
+      receiptIds.set(receipt.id!, id);
+    }
+    for (const item of additions.receiptItems) {
+      await db.receiptItems.add({ ...withoutId(item), receiptId: receiptIds.get(item.receiptId)! });
+    }
+
+    for (const reminder of additions.reminders) {
+      // Discussion sources are linked once the sessions and messages are in
+      const id = await db.reminders.add({
+        ...withoutId(reminder),
+        ...(reminder.entryId === undefined ? {} : { entryId: entryIds.get(reminder.entryId)! }),
+      });
+      reminderIds.set(reminder.id!, id);
+    }
+    for (const item of additions.analysisQueue) {
+      await db.analysisQueue.add({ ...withoutId(item), entryId: entryIds.get(item.entryId)! });
+    }
+
+    for (const document of documents) {
+      const { _blobPath, ...row } = document;
+      documentIds.set(document.id!, await db.documents.add(withoutId(row) as StoredDocument));
+    }
+    for (const page of additions.documentPages) {
+      await db.documentPages.add({ ...withoutId(page), docId: documentIds.get(page.docId)! });
+    }
+
+    for (const session of additions.discussionSessions) {
+      const id = await db.discussionSessions.add({
+        ...withoutId(session),
+        scope: {
+          ...session.scope,
+          entryIds: session.scope.entryIds.flatMap(entryId => entryIds.has(entryId) ? [entryIds.get(entryId)!] : []),
+          docIds: session.scope.docIds.flatMap(docId => documentIds.has(docId) ? [documentIds.get(docId)!] : []),
+        },
+      });
+      sessionIds.set(session.id!, id);
+    }
+    // A reply always has a higher id than its parent, so id order remaps branch links in one pass
+    const messagesInOrder = [...additions.discussionMessages].sort((a, b) => a.id! - b.id!);
+    for (const message of messagesInOrder) {
+      const evidenceRefs = message.evidenceRefs?.flatMap(ref => {
+        if (ref.type === 'document' || ref.type === 'document_page') {
+          const entityId = documentIds.get(ref.entityId);
+          return entityId === undefined
+            ? []
+            : [{ ...ref, entityId, deepLink: ref.deepLink.replace(/^\/documents\/\d+/, `/documents/${entityId}`) }];
+        }
+        if (ref.type === 'receipt' || ref.type === 'reminder') {
+          const entityId = (ref.type === 'receipt' ? receiptIds : reminderIds).get(ref.entityId);
+          return entityId === undefined
+            ? []
+            : [{ ...ref, entityId, deepLink: ref.deepLink.replace(/\d+$/, String(entityId)) }];
+        }
+        if (ref.type !== 'entry') return [ref];
+        const entityId = entryIds.get(ref.entityId);
+        // A citation of an entry that is not in the backup would point at an unrelated local entry
+        return entityId === undefined ? [] : [{ ...ref, entityId, deepLink: `/entry/${entityId}` }];
+      });
+      // Plan items converted to reminders point at the merged copies
+      const plan = message.meta?.planArtifact;
+      const items = plan?.items.map(item => ({
+        ...item,
+        reminderId: item.reminderId === undefined ? undefined : reminderIds.get(item.reminderId),
+      }));
+      const id = await db.discussionMessages.add({
+        ...withoutId(message),
+        ...(plan ? { meta: { ...message.meta, planArtifact: { ...plan, items } } } : {}),
+        sessionId: sessionIds.get(message.sessionId)!,
+        // An unknown parent falls back to "follows the previous message"
+        parentId: message.parentId == null ? message.parentId : messageIds.get(message.parentId),
+        ...(evidenceRefs ? { evidenceRefs } : {}),
+      });
+      messageIds.set(message.id!, id);
+    }
+    for (const reminder of additions.reminders) {
+      if (reminder.entryId !== undefined) continue;
+      await db.reminders.update(reminderIds.get(reminder.id!)!, {
+        sessionId: reminder.sessionId === undefined ? undefined : sessionIds.get(reminder.sessionId),
+        messageId: reminder.messageId === undefined ? undefined : messageIds.get(reminder.messageId),
+      });
+    }
+    for (const session of additions.discussionSessions) {
+      if (session.activeLeafId === undefined) continue;
+      await db.discussionSessions.update(sessionIds.get(session.id!)!, {
+        activeLeafId: messageIds.get(session.activeLeafId),
+      });
+    }
+
+    for (const biography of additions.biographies) {
+      await db.biographies.put({
+        ...biography,
+        sourceEntryIds: (biography.sourceEntryIds ?? []).flatMap(id => entryIds.has(id) ? [entryIds.get(id)!] : []),
+      });
+    }
+    for (const insight of additions.weeklyInsights) {
+      await db.weeklyInsights.put(insight);
+    }
+    for (const scan of additions.scanLogs) {
+      await db.scanLogs.add(withoutId(scan));
+    }
+    for (const search of additions.savedSearches) {
+      await db.savedSearches.add(withoutId(search));
+    }
+
+    for (const thread of additions.chatThreads) {
+      threadIds.set(thread.id!, await db.chatThreads.add(withoutId(thread)));
+    }
+    for (const message of additions.chatMessages) {
+      // The images are stored inline; only the link back to the diary needs remapping
+      const diaryAttachmentIds = message.diaryAttachmentIds?.flatMap(id =>
+        attachmentIds.has(id) ? [attachmentIds.get(id)!] : []
+      );
+      await db.chatMessages.add({
+        ...withoutId(message),
+        threadId: threadIds.get(message.threadId)!,
+        ...(diaryAttachmentIds ? { diaryAttachmentIds } : {}),
+      });
+    }
+  });
+}
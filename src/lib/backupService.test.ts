@@ -15,6 +15,7 @@ const mocks = vi.hoisted(() => ({
   dbTransaction: vi.fn(),
   dbTable: vi.fn(),
   tableBulkPut: vi.fn(),
+  tablePut: vi.fn(),
   tableClearOne: vi.fn(),
   tableClearTwo: vi.fn(),
 }));
@@ -82,15 +83,18 @@ describe('Backup Service', () => {
     mocks.dbTransaction.mockReset();
     mocks.dbTable.mockReset();
     mocks.tableBulkPut.mockReset();
+    mocks.tablePut.mockReset();
     mocks.tableClearOne.mockReset();
     mocks.tableClearTwo.mockReset();
 
     mocks.getSyncOwnerUserId.mockReturnValue(null);
     mocks.tableBulkPut.mockResolvedValue(undefined);
+    mocks.tablePut.mockResolvedValue(undefined);
     mocks.tableClearOne.mockResolvedValue(undefined);
     mocks.tableClearTwo.mockResolvedValue(undefined);
     mocks.dbTable.mockImplementation(() => ({
       bulkPut: mocks.tableBulkPut,
+      put: mocks.tablePut,
     }));
     mocks.dbTransaction.mockImplementation(async (_mode: unknown, _tables: unknown, cb: () => Promise<void>) => {
       await cb();
@@ -388,6 +392,37 @@ describe('Backup Service', () => {
     });
   });
 
+  describe('ZIP restore', () => {
+    it('restores documents with their files and their pages', async () => {
+      const zip = new JSZip();
+      zip.file('manifest.json', JSON.stringify({
+        dbName: 'DaybookDB',
+        dbVersion: 15,
+        exportedAt: '2026-01-01T00:00:00.000Z',
+        appVersion: '1.0.0',
+        tables: { documents: 1, documentPages: 1 },
+      }));
+      zip.file('tables/documents.json', JSON.stringify([
+        { id: 4, title: 'Lease', kind: 'pdf', mimeType: 'application/pdf', fileName: 'lease.pdf', size: 3, pageCount: 1, textChars: 5, createdAt: 1, updatedAt: 1, _blobPath: 'doc_4.pdf' },
+      ]));
+      zip.file('media/doc_4.pdf', 'pdf');
+      zip.file('tables/documentPages.json', JSON.stringify([
+        { id: 9, docId: 4, pageIndex: 0, text: 'Rent', textSource: 'extracted' },
+      ]));
+
+      await importBackupZip(await zip.generateAsync({ type: 'blob' }));
+
+      expect(mocks.dbTable).toHaveBeenCalledWith('documents');
+      const [document] = mocks.tablePut.mock.calls[0];
+      expect(document).toMatchObject({ id: 4, fileName: 'lease.pdf' });
+      expect(document).not.toHaveProperty('_blobPath');
+      expect((document.blob as Blob).size).toBe(3);
+      expect(mocks.tableBulkPut).toHaveBeenCalledWith([
+        { id: 9, docId: 4, pageIndex: 0, text: 'Rent', textSource: 'extracted' },
+      ]);
+    });
+  });
+
   describe('Payload Structure Validation', () => {
     it('validates complete payload structure', () => {
       const completePayload = {
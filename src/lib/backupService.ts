@@ -6,6 +6,39 @@
 import { db } from './db';
 import { APP_VERSION } from './appVersion';
 import { bindSyncOwnershipIfUnbound, getSyncOwnerUserId } from './syncService';
+import { invalidateSearchIndex } from './search/searchIndex';
+import {
+  BACKUP_PASSWORD_REQUIRED,
+  BACKUP_PAYLOAD_PATH,
+  decryptBackupBytes,
+  encryptBackupBytes,
+  isBackupEncryption,
+  type BackupEncryption,
+} from './backupEncryption';
+import {
+  MERGE_TABLES,
+  applyBackupMerge,
+  planBackupMerge,
+  readMergeSnapshot,
+  type MergePlan,
+  type MergeReport,
+  type MergeSource,
+  type MergeTables,
+} from './backupMerge';
+import {
+  BACKUP_CHAIN_INCOMPLETE,
+  BACKUP_KEYS_PATH,
+  clearBackupChainState,
+  getBackupChainState,
+  isBackupChainLink,
+  isIncrementalLink,
+  orderBackupChain,
+  rowFingerprint,
+  rowKey,
+  saveBackupChainState,
+  type BackupChainLink,
+  type BackupKeyValue,
+} from './backupChain';
 import JSZip from 'jszip';
 
 // Types
@@ -16,6 +49,8 @@ export interface BackupManifest {
   appVersion: string;
   ownerUserId?: string | null;
   tables: Record<string, number>;
+  encryption?: BackupEncryption; // Set on the outer manifest of a password-protected ZIP
+  chain?: BackupChainLink;       // Incremental chain position (sequence 0 = full backup)
 }
 
 export type RestoreProvenanceDecisionReason = 'owner_mismatch' | 'missing_provenance';
@@ -98,6 +133,11 @@ const TABLE_NAMES = [
   'attachmentInsights',
   'analysisQueue',
   'scanLogs',
+  'savedSearches',
+  'chatThreads',
+  'chatMessages',
+  'documents',
+  'documentPages',
 ] as const;
 
 // Blob <-> Base64 conversion
@@ -136,6 +176,7 @@ function getMimeExtension(mimeType: string): string {
     'audio/webm': 'webm',
     'video/mp4': 'mp4',
     'video/webm': 'webm',
+    'application/pdf': 'pdf',
     'application/octet-stream': 'bin',
   };
   return map[mimeType] || 'bin';
@@ -429,17 +470,38 @@ export async function exportFullBackup(
  * │   ├── attachmentInsights.json
  * │   ├── analysisQueue.json     
  * │   ├── scanLogs.json          
+ * │   ├── savedSearches.json
+ * │   ├── chatThreads.json
+ * │   ├── chatMessages.json      # ChatThreadMessage[], images inline as data URLs
+ * │   ├── documents.json         # StoredDocument[] with _blobPath references
+ * │   ├── documentPages.json
  * │   └── drafts.json            # Draft[] with _blobPath references
  * └── media/
  *     ├── attachments.json       # Attachment metadata with _blobPath
  *     ├── att_<id>.<ext>         # Attachment blobs
  *     ├── att_<id>_thumb.<ext>   # Thumbnails
- *     └── draft_<id>_<idx>.<ext> # Draft attachment blobs
+ *     ├── draft_<id>_<idx>.<ext> # Draft attachment blobs
+ *     └── doc_<id>.<ext>         # Original document files
+ *
+ * With a password, the archive above is encrypted whole:
+ *
+ * daybook-backup-YYYY-MM-DD.zip
+ * ├── manifest.json              # dbName/dbVersion/exportedAt/appVersion + encryption (no counts, no owner)
+ * └── payload.bin                # AES-GCM(plain backup ZIP)
+ *
+ * An incremental backup (manifest.chain.sequence > 0) has the same layout but only the
+ * rows changed since the previous backup of its chain, plus:
+ *
+ * └── keys.json                  # Record<table, key[]>: every row present at export time
  */
 export async function exportBackupZip(
-  onProgress?: (progress: DetailedProgress) => void
+  onProgress?: (progress: DetailedProgress) => void,
+  options: { password?: string; incremental?: boolean; trackChain?: boolean } = {}
 ): Promise<Blob> {
   const zip = new JSZip();
+  const previous = options.incremental ? getBackupChainState() : null;
+  const fingerprints: Record<string, Record<string, string>> = {};
+  const tableKeys: Record<string, BackupKeyValue[]> = {};
 
   // Initialize progress - use mutable status
   const tableStatuses: Array<{
@@ -475,9 +537,20 @@ export async function exportBackupZip(
     updateProgress('reading', Math.round((i / TABLE_NAMES.length) * 80), tableName);
 
     const table = db.table(tableName);
-    const rows = await table.toArray();
+    const allRows = await table.toArray();
+    tableCounts[tableName] = allRows.length;
+
+    // Fingerprint every row: the next incremental backup is computed against these
+    fingerprints[tableName] = {};
+    tableKeys[tableName] = [];
+    const rows = allRows.filter((row) => {
+      const key = rowKey(tableName, row);
+      const fingerprint = rowFingerprint(row);
+      fingerprints[tableName][String(key)] = fingerprint;
+      tableKeys[tableName].push(key);
+      return !previous || previous.fingerprints[tableName]?.[String(key)] !== fingerprint;
+    });
     tableStatuses[i].total = rows.length;
-    tableCounts[tableName] = rows.length;
 
     // Handle tables with blobs specially
     if (tableName === 'attachments') {
@@ -552,6 +625,24 @@ export async function exportBackupZip(
       }
       
       zip.file('tables/drafts.json', JSON.stringify(metadata, null, 2));
+    } else if (tableName === 'documents') {
+      const metadata: unknown[] = [];
+
+      for (let j = 0; j < rows.length; j++) {
+        const doc = rows[j];
+        tableStatuses[i].current = j + 1;
+
+        const blobPath = `doc_${doc.id || j}.${getMimeExtension(doc.mimeType)}`;
+        zip.file(`media/${blobPath}`, doc.blob);
+
+        metadata.push({
+          ...doc,
+          blob: undefined,
+          _blobPath: blobPath,
+        });
+      }
+
+      zip.file('tables/documents.json', JSON.stringify(metadata, null, 2));
     } else {
       // Regular table - just store as JSON (absolute path)
       zip.file(`tables/${tableName}.json`, JSON.stringify(rows, null, 2));
@@ -569,22 +660,115 @@ export async function exportBackupZip(
     appVersion: APP_VERSION,
     ownerUserId: getSyncOwnerUserId(),
     tables: tableCounts,
+    chain: previous
+      ? { chainId: previous.chainId, sequence: previous.sequence + 1, parentExportedAt: previous.lastExportedAt }
+      : { chainId: crypto.randomUUID(), sequence: 0 },
   };
 
   zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  if (previous) {
+    zip.file(BACKUP_KEYS_PATH, JSON.stringify(tableKeys));
+  }
 
   // Generate ZIP
   updateProgress('compressing', 90);
-  const zipBlob = await zip.generateAsync({ 
-    type: 'blob',
-    compression: 'DEFLATE',
-    compressionOptions: { level: 6 },
-  });
+  let zipBlob: Blob;
+  if (options.password) {
+    const plain = await zip.generateAsync({
+      type: 'uint8array',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 },
+    });
+    zipBlob = await sealBackupZip(plain, manifest, options.password);
+  } else {
+    zipBlob = await zip.generateAsync({ 
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 },
+    });
+  }
+
+  // Backups that the user does not keep (automatic ones) must not become the chain's parent
+  if (options.trackChain !== false) {
+    saveBackupChainState({
+      chainId: manifest.chain!.chainId,
+      sequence: manifest.chain!.sequence,
+      lastExportedAt: manifest.exportedAt,
+      fingerprints,
+    });
+  }
 
   updateProgress('complete', 100);
   return zipBlob;
 }
 
+/**
+ * Wrap a plain backup ZIP into a password-protected one.
+ */
+async function sealBackupZip(plain: Uint8Array, manifest: BackupManifest, password: string): Promise<Blob> {
+  const { encryption, ciphertext } = await encryptBackupBytes(plain, password);
+  const outerManifest: BackupManifest = {
+    dbName: manifest.dbName,
+    dbVersion: manifest.dbVersion,
+    exportedAt: manifest.exportedAt,
+    appVersion: manifest.appVersion,
+    tables: {},
+    encryption,
+  };
+
+  const outer = new JSZip();
+  outer.file('manifest.json', JSON.stringify(outerManifest, null, 2));
+  outer.file(BACKUP_PAYLOAD_PATH, ciphertext);
+  // Ciphertext does not compress
+  return await outer.generateAsync({ type: 'blob', compression: 'STORE' });
+}
+
+async function readZipManifest(zip: JSZip): Promise<BackupManifest> {
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) {
+    throw new Error('Invalid backup: missing manifest.json');
+  }
+
+  const manifest = JSON.parse(await manifestFile.async('text'));
+  if (!validateZipManifest(manifest)) {
+    throw new Error('Invalid backup: manifest validation failed');
+  }
+  return manifest;
+}
+
+/**
+ * Decrypt a password-protected backup back into the plain ZIP and its real manifest.
+ */
+async function openEncryptedZip(
+  zip: JSZip,
+  encryption: BackupEncryption,
+  password: string
+): Promise<{ zip: JSZip; bytes: Uint8Array; manifest: BackupManifest }> {
+  const payloadFile = zip.file(BACKUP_PAYLOAD_PATH);
+  if (!payloadFile) {
+    throw new Error(`Invalid backup: missing ${BACKUP_PAYLOAD_PATH}`);
+  }
+
+  const bytes = await decryptBackupBytes(await payloadFile.async('uint8array'), password, encryption);
+  const innerZip = await JSZip.loadAsync(bytes);
+  return { zip: innerZip, bytes, manifest: await readZipManifest(innerZip) };
+}
+
+/**
+ * Unlock a password-protected backup picked by the user. Returns the plain ZIP
+ * (ready for importBackupZip) and the real manifest for the restore summary.
+ */
+export async function unlockBackupZip(zipBlob: Blob, password: string): Promise<{ data: Blob; manifest: BackupManifest }> {
+  const zip = await JSZip.loadAsync(zipBlob);
+  const outerManifest = await readZipManifest(zip);
+  if (!outerManifest.encryption) {
+    return { data: zipBlob, manifest: outerManifest };
+  }
+
+  const { bytes, manifest } = await openEncryptedZip(zip, outerManifest.encryption, password);
+  return { data: new Blob([bytes], { type: 'application/zip' }), manifest };
+}
+
 /**
  * Validate backup file structure (JSON format)
  */
@@ -618,6 +802,8 @@ export function validateZipManifest(data: unknown): data is BackupManifest {
   if (manifest.dbName !== 'DaybookDB') return false;
   if (typeof manifest.dbVersion !== 'number') return false;
   if (typeof manifest.exportedAt !== 'string') return false;
+  if (manifest.encryption !== undefined && !isBackupEncryption(manifest.encryption)) return false;
+  if (manifest.chain !== undefined && !isBackupChainLink(manifest.chain)) return false;
   
   return true;
 }
@@ -690,6 +876,8 @@ export async function importFullBackup(
         await table.clear();
       }
     });
+    // The next backup must be a full one: the chain describes the data just replaced
+    clearBackupChainState();
   }
 
   // Helper to import a table using db.table() API
@@ -759,6 +947,8 @@ export async function importFullBackup(
     await importTableData('scanLogs', payload.scanLogs);
   });
 
+  invalidateSearchIndex();
+
   if (restoreOwnershipPlan.ownerUserIdToBind) {
     bindSyncOwnershipIfUnbound(restoreOwnershipPlan.ownerUserIdToBind);
   }
@@ -769,22 +959,24 @@ export async function importFullBackup(
  */
 export async function importBackupZip(
   zipBlob: Blob,
-  options: { wipeExisting: boolean } = { wipeExisting: true },
+  options: { wipeExisting: boolean; password?: string } = { wipeExisting: true },
   onProgress?: (progress: DetailedProgress) => void
 ): Promise<void> {
-  const zip = await JSZip.loadAsync(zipBlob);
+  let zip = await JSZip.loadAsync(zipBlob);
 
   // Read and validate manifest
-  const manifestFile = zip.file('manifest.json');
-  if (!manifestFile) {
-    throw new Error('Invalid backup: missing manifest.json');
-  }
+  let manifest = await readZipManifest(zip);
 
-  const manifestText = await manifestFile.async('text');
-  const manifest = JSON.parse(manifestText);
+  if (manifest.encryption) {
+    if (!options.password) {
+      throw new Error(BACKUP_PASSWORD_REQUIRED);
+    }
+    ({ zip, manifest } = await openEncryptedZip(zip, manifest.encryption, options.password));
+  }
 
-  if (!validateZipManifest(manifest)) {
-    throw new Error('Invalid backup: manifest validation failed');
+  // An incremental backup alone is not a restorable state: use importBackupChain
+  if (isIncrementalLink(manifest.chain)) {
+    throw new Error(BACKUP_CHAIN_INCOMPLETE);
   }
 
   const restoreOwnershipPlan = planRestoreImportOwnership({
@@ -796,6 +988,102 @@ export async function importBackupZip(
     throw new Error(`Restore denied: ${restoreOwnershipPlan.reason}`);
   }
 
+  await restoreZipContents(zip, manifest, options.wipeExisting, onProgress);
+
+  invalidateSearchIndex();
+
+  if (restoreOwnershipPlan.ownerUserIdToBind) {
+    bindSyncOwnershipIfUnbound(restoreOwnershipPlan.ownerUserIdToBind);
+  }
+}
+
+/**
+ * Restore a full backup followed by its incremental backups, in chain order.
+ * The chain is validated before anything is written: one full base, no missing
+ * or foreign links. Blobs must be plain ZIPs (unlock encrypted ones first).
+ */
+export async function importBackupChain(
+  zipBlobs: Blob[],
+  onProgress?: (progress: DetailedProgress) => void
+): Promise<void> {
+  const loaded: Array<{ zip: JSZip; manifest: BackupManifest }> = [];
+  for (const blob of zipBlobs) {
+    const zip = await JSZip.loadAsync(blob);
+    const manifest = await readZipManifest(zip);
+    if (manifest.encryption) {
+      throw new Error(BACKUP_PASSWORD_REQUIRED);
+    }
+    loaded.push({ zip, manifest });
+  }
+
+  const ordered = orderBackupChain(loaded.map(({ manifest }) => manifest))
+    .map(manifest => loaded.find(item => item.manifest === manifest)!);
+  if (ordered.length === 0) {
+    throw new Error(BACKUP_CHAIN_INCOMPLETE);
+  }
+
+  // The latest backup describes the state being restored
+  const restoreOwnershipPlan = planRestoreImportOwnership({
+    deviceOwnerUserId: getSyncOwnerUserId(),
+    backupOwnerUserId: ordered[ordered.length - 1].manifest.ownerUserId,
+  });
+
+  if (!restoreOwnershipPlan.allowed) {
+    throw new Error(`Restore denied: ${restoreOwnershipPlan.reason}`);
+  }
+
+  for (let i = 0; i < ordered.length; i++) {
+    const { zip, manifest } = ordered[i];
+    // Spread per-link progress over the whole chain
+    const linkProgress = onProgress && ((progress: DetailedProgress) => onProgress({
+      ...progress,
+      overallPercent: Math.round(((i + progress.overallPercent / 100) / ordered.length) * 100),
+    }));
+    await restoreZipContents(zip, manifest, i === 0, linkProgress);
+    if (i > 0) {
+      await pruneDeletedRows(zip);
+    }
+  }
+
+  invalidateSearchIndex();
+
+  if (restoreOwnershipPlan.ownerUserIdToBind) {
+    bindSyncOwnershipIfUnbound(restoreOwnershipPlan.ownerUserIdToBind);
+  }
+}
+
+/**
+ * Apply keys.json of an incremental backup: drop local rows that were gone at export time.
+ */
+async function pruneDeletedRows(zip: JSZip): Promise<void> {
+  const keysFile = zip.file(BACKUP_KEYS_PATH);
+  if (!keysFile) {
+    throw new Error(`Invalid backup: missing ${BACKUP_KEYS_PATH}`);
+  }
+
+  const tableKeys: Record<string, BackupKeyValue[]> = JSON.parse(await keysFile.async('text'));
+  for (const tableName of TABLE_NAMES) {
+    const kept = tableKeys[tableName];
+    if (!kept) continue;
+
+    const keep = new Set(kept);
+    const table = db.table(tableName);
+    const stale = ((await table.toCollection().primaryKeys()) as BackupKeyValue[]).filter(key => !keep.has(key));
+    if (stale.length > 0) {
+      await table.bulkDelete(stale);
+    }
+  }
+}
+
+/**
+ * Write the tables of one plain backup ZIP into the database.
+ */
+async function restoreZipContents(
+  zip: JSZip,
+  manifest: BackupManifest,
+  wipeExisting: boolean,
+  onProgress?: (progress: DetailedProgress) => void
+): Promise<void> {
   // Initialize progress - use mutable status
   const tableStatuses: Array<{
     name: string;
@@ -821,12 +1109,13 @@ export async function importBackupZip(
   };
 
   // Wipe existing data if requested
-  if (options.wipeExisting) {
+  if (wipeExisting) {
     await db.transaction('rw', db.tables, async () => {
       for (const table of db.tables) {
         await table.clear();
       }
     });
+    clearBackupChainState();
   }
 
   updateProgress('reading', 10);
@@ -922,6 +1211,22 @@ export async function importBackupZip(
           await db.drafts.bulkPut(processedDrafts);
         }
       }
+    } else if (tableName === 'documents') {
+      // Documents are in tables folder, their files in media
+      const tableFile = zip.file('tables/documents.json');
+      if (tableFile) {
+        const metadata = JSON.parse(await tableFile.async('text'));
+        const table = db.table(tableName);
+
+        for (let j = 0; j < metadata.length; j++) {
+          tableStatuses[i].current = j + 1;
+          const { _blobPath, ...rest } = metadata[j];
+          const blobFile = zip.file(`media/${_blobPath}`);
+          const blob = blobFile ? await blobFile.async('blob') : new Blob();
+          // One at a time: document files can be large
+          await table.put({ ...rest, blob });
+        }
+      }
     } else {
       // Regular table
       const tableFile = zip.file(`tables/${tableName}.json`);
@@ -941,10 +1246,103 @@ export async function importBackupZip(
   }
 
   updateProgress('complete', 100);
+}
 
-  if (restoreOwnershipPlan.ownerUserIdToBind) {
-    bindSyncOwnershipIfUnbound(restoreOwnershipPlan.ownerUserIdToBind);
+/**
+ * Read a plain backup (JSON payload or unlocked ZIP) for a merge restore.
+ * ZIP media stays in the archive until an attachment is actually added.
+ */
+async function readMergeSource(data: BackupPayload | Blob): Promise<{ manifest: BackupManifest; source: MergeSource }> {
+  if (!(data instanceof Blob)) {
+    return {
+      manifest: data.manifest,
+      source: {
+        tables: data as unknown as Partial<MergeTables>,
+        hydrateAttachment: async (attachment) => {
+          const att = attachment as Record<string, unknown>;
+          return {
+            ...attachment,
+            blob: typeof att.blob === 'string' ? base64ToBlob(att.blob) : new Blob(),
+            thumbnail: typeof att.thumbnail === 'string' ? base64ToBlob(att.thumbnail) : undefined,
+          };
+        },
+      },
+    };
+  }
+
+  const zip = await JSZip.loadAsync(data);
+  const manifest = await readZipManifest(zip);
+  if (manifest.encryption) {
+    throw new Error(BACKUP_PASSWORD_REQUIRED);
+  }
+
+  const tables: Record<string, unknown[]> = {};
+  for (const tableName of MERGE_TABLES) {
+    const file = zip.file(tableName === 'attachments' ? 'media/attachments.json' : `tables/${tableName}.json`);
+    if (file) {
+      tables[tableName] = JSON.parse(await file.async('text'));
+    }
   }
+
+  const readMedia = async (path: unknown) => {
+    const file = typeof path === 'string' ? zip.file(`media/${path}`) : null;
+    return file ? await file.async('blob') : undefined;
+  };
+
+  return {
+    manifest,
+    source: {
+      tables: tables as Partial<MergeTables>,
+      hydrateAttachment: async (attachment) => {
+        const { _blobPath, _thumbPath, ...rest } = attachment as Record<string, unknown>;
+        return {
+          ...rest,
+          blob: (await readMedia(_blobPath)) ?? new Blob(),
+          thumbnail: await readMedia(_thumbPath),
+        } as unknown as typeof attachment;
+      },
+    },
+  };
+}
+
+async function planMergeRestore(data: BackupPayload | Blob): Promise<{ plan: MergePlan; source: MergeSource; ownerUserIdToBind: string | null }> {
+  const { manifest, source } = await readMergeSource(data);
+
+  const restoreOwnershipPlan = planRestoreImportOwnership({
+    deviceOwnerUserId: getSyncOwnerUserId(),
+    backupOwnerUserId: manifest.ownerUserId,
+  });
+
+  if (!restoreOwnershipPlan.allowed) {
+    throw new Error(`Restore denied: ${restoreOwnershipPlan.reason}`);
+  }
+
+  const plan = planBackupMerge(source.tables, await readMergeSnapshot());
+  return { plan, source, ownerUserIdToBind: restoreOwnershipPlan.ownerUserIdToBind };
+}
+
+/**
+ * Dry run of a merge restore: what would be added, skipped as already present,
+ * or left alone because the local copy differs. Nothing is written.
+ */
+export async function previewMergeRestore(data: BackupPayload | Blob): Promise<MergeReport> {
+  const { plan } = await planMergeRestore(data);
+  return plan.report;
+}
+
+/**
+ * Merge a backup into the existing local data instead of replacing it.
+ */
+export async function mergeBackupRestore(data: BackupPayload | Blob): Promise<MergeReport> {
+  const { plan, source, ownerUserIdToBind } = await planMergeRestore(data);
+
+  await applyBackupMerge(plan, source);
+  invalidateSearchIndex();
+
+  if (ownerUserIdToBind) {
+    bindSyncOwnershipIfUnbound(ownerUserIdToBind);
+  }
+  return plan.report;
 }
 
 /**
@@ -973,11 +1371,11 @@ export function downloadBackupFile(payload: BackupPayload): void {
 /**
  * Download backup as ZIP file
  */
-export function downloadBackupZip(zipBlob: Blob): void {
+export function downloadBackupZip(zipBlob: Blob, label?: string): void {
   const url = URL.createObjectURL(zipBlob);
   
   const date = new Date().toISOString().split('T')[0];
-  const filename = `daybook-backup-${date}.zip`;
+  const filename = `daybook-backup-${date}${label ? `-${label}` : ''}.zip`;
   
   const a = document.createElement('a');
   a.href = url;
@@ -994,25 +1392,19 @@ export function downloadBackupZip(zipBlob: Blob): void {
 /**
  * Read backup file from user selection (supports JSON and ZIP)
  */
-export async function readBackupFile(file: File): Promise<{ type: 'json' | 'zip'; data: BackupPayload | Blob; manifest?: BackupManifest }> {
+export async function readBackupFile(file: File): Promise<{
+  type: 'json' | 'zip';
+  data: BackupPayload | Blob;
+  manifest?: BackupManifest;
+  encrypted?: boolean; // Password-protected ZIP: unlock with unlockBackupZip before restoring
+}> {
   if (file.name.endsWith('.zip')) {
     // Read ZIP manifest for validation/summary
     const zip = await JSZip.loadAsync(file);
-    const manifestFile = zip.file('manifest.json');
-    
-    if (!manifestFile) {
-      throw new Error('Invalid backup: missing manifest.json');
-    }
-    
-    const manifestText = await manifestFile.async('text');
-    const manifest = JSON.parse(manifestText);
-    
-    if (!validateZipManifest(manifest)) {
-      throw new Error('Invalid backup: manifest validation failed');
-    }
+    const manifest = await readZipManifest(zip);
     
     // Return the file as blob for later import
-    return { type: 'zip', data: file, manifest };
+    return { type: 'zip', data: file, manifest, encrypted: Boolean(manifest.encryption) };
   } else {
     // JSON file
     return new Promise((resolve, reject) => {
@@ -1,9 +1,11 @@
 import { format } from 'date-fns';
 import { db, StoredBiography, DiaryEntry, loadBioSettings, saveBioSettings } from './db';
-import { loadAISettings, AI_PROFILES, AIProfile, PROVIDER_MODELS } from './aiConfig';
+import { loadAISettings, AI_PROFILES, AIProfile, getModelForProfile, type AISettings } from './aiConfig';
 import { toast } from 'sonner';
 import type { Language } from './i18n';
 import { getAITokenHeader, parseAIError } from './aiUtils';
+import { extractJSONObject, localChatCompletion } from './localLLM';
+import { ensureAIBudget, recordAIUsage } from './aiUsage';
 
 // Helper to get base language for AI services (ru/en only)
 const getBaseLanguage = (lang: Language): 'ru' | 'en' => 
@@ -123,6 +125,94 @@ async function prepareEntrySummaries(
   return { summaries, entryIds };
 }
 
+const LOCAL_OUTPUT_LANGUAGE: Record<Language, string> = {
+  ru: 'Russian',
+  en: 'English',
+  he: 'Hebrew',
+  ar: 'Arabic',
+};
+
+// Client-side port of the ai-biography prompt for the local provider. The rules are kept
+// in English, which small local models follow best; only the output language varies.
+function buildLocalBiographyPrompt(summaries: EntrySummary[], date: string, language: Language): string {
+  const formattedDate = format(new Date(date), 'EEEE, d MMMM yyyy');
+  const timeLabels = [...new Set(summaries.map(item => item.timeLabel))];
+  const contextBlock = summaries.map(item => {
+    let line = `- ${item.timeLabel}: mood ${item.mood}/5`;
+    if (item.themes.length) line += `, themes: [${item.themes.join(', ')}]`;
+    if (item.tags.length) line += `, tags: [${item.tags.join(', ')}]`;
+    if (item.attachmentCount > 0) line += `, media: ${item.attachmentCount}`;
+    return line;
+  }).join('\n');
+
+  return `You are the Day Seal for the Cyber-Grimoire diary app. Write an artistic yet honest "biography of the day" based ONLY on the summarized themes, tags, mood and attachment count below.
+
+DATE: ${formattedDate}
+
+INPUT DATA (strictly generalized):
+${contextBlock}
+
+RULES:
+1) Never quote diary entries. Never invent specific events, people, places, dialogues, numbers or names.
+2) Only generalized wording at the level of themes and states (work, family, health, rest, tension, clarity, fatigue, inspiration).
+3) Mood 1–5 sets the tone: 1–2 gentle and supportive, 3 calm, 4–5 clear and energetic.
+4) Attachments may only be mentioned generally ("moments worth capturing").
+5) Sparing techno-mystical vocabulary: day contour, seal, calibration, resource, resonance, channel. No magic, tarot or astrology.
+6) End the narrative with one sentence of "Seal's advice": gentle, practical, generalized.
+
+Write every text value in ${LOCAL_OUTPUT_LANGUAGE[language]}.
+
+Return ONLY valid JSON (no markdown) with this schema:
+{
+  "title": "3–7 words, poetic title without date",
+  "narrative": "${summaries.length <= 2 ? '3–6 sentences' : '6–12 sentences'}",
+  "highlights": ["3–6 key themes of the day"],
+  "timeline": [${timeLabels.map(label => `{"timeLabel": "${label}", "summary": "1–2 generalized sentences"}`).join(', ')}]
+}`;
+}
+
+async function generateBiographyLocally(
+  summaries: EntrySummary[],
+  date: string,
+  profile: AIProfile,
+  language: Language,
+  settings: AISettings,
+): Promise<GenerationResult> {
+  const profileConfig = AI_PROFILES[profile];
+  const model = getModelForProfile(profile, 'local');
+  const baseLang = getBaseLanguage(language);
+
+  const systemPrompt = buildLocalBiographyPrompt(summaries, date, language);
+  const content = await localChatCompletion({
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: baseLang === 'ru' ? 'Создай биографию дня.' : 'Create a biography of the day.' },
+    ],
+    model,
+    maxTokens: profileConfig.maxTokens,
+    temperature: profileConfig.temperature,
+    language: baseLang,
+  }, settings);
+  await recordAIUsage({ feature: 'biography', provider: 'local', model, profile, promptText: systemPrompt, completionText: content });
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = extractJSONObject(content);
+  } catch {
+    throw new Error(baseLang === 'ru' ? 'Не удалось разобрать ответ AI' : 'Failed to parse AI response');
+  }
+
+  return {
+    biography: {
+      title: (parsed.title as string) || (baseLang === 'ru' ? 'Тихий день' : 'A Quiet Day'),
+      narrative: (parsed.narrative as string) || (parsed.story as string) || '',
+      highlights: Array.isArray(parsed.highlights) ? parsed.highlights as string[] : [],
+      timeline: Array.isArray(parsed.timeline) ? parsed.timeline as { timeLabel: string; summary: string }[] : [],
+      meta: { profile, model },
+    },
+  };
+}
+
 // Generate biography via dedicated edge function
 export async function generateBiography(
   date: string,
@@ -140,7 +230,11 @@ export async function generateBiography(
   
   const profileConfig = AI_PROFILES[profile];
   const settings = loadAISettings();
-  const model = PROVIDER_MODELS[settings.provider][profile];
+  await ensureAIBudget(getBaseLanguage(language));
+  if (settings.provider === 'local') {
+    return generateBiographyLocally(summaries, date, profile, language, settings);
+  }
+  const model = getModelForProfile(profile, settings.provider);
   
   const response = await fetch(AI_BIOGRAPHY_URL, {
     method: 'POST',
@@ -170,6 +264,15 @@ export async function generateBiography(
   }
   
   const data = await response.json();
+  await recordAIUsage({
+    feature: 'biography',
+    provider: settings.provider,
+    model,
+    profile,
+    totalTokens: data.meta?.tokens,
+    promptText: JSON.stringify(summaries),
+    completionText: `${data.title || ''} ${data.narrative || ''} ${JSON.stringify(data.highlights || [])} ${JSON.stringify(data.timeline || [])}`,
+  });
   
   return {
     biography: {
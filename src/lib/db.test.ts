@@ -1,6 +1,18 @@
 import 'fake-indexeddb/auto';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
-import { createDiscussionSession, db, getAllDiscussionSessions, updateDiscussionSession } from './db';
+import {
+  addChatThreadMessage,
+  createChatThread,
+  createDiscussionSession,
+  db,
+  deleteChatThread,
+  getAllDiscussionSessions,
+  getChatThreadById,
+  getChatThreadMessages,
+  renameChatThread,
+  searchChatThreads,
+  updateDiscussionSession,
+} from './db';
 
 describe('discussion birth contract', () => {
   beforeEach(async () => {
@@ -13,24 +25,34 @@ describe('discussion birth contract', () => {
     await db.discussionSessions.clear();
   });
 
-  it('rejects zero-entry discussion birth', async () => {
+  it('rejects sourceless discussion birth', async () => {
     await expect(
       createDiscussionSession({
         title: 'Invalid discussion',
-        scope: { entryIds: [], docIds: [9] },
+        scope: { entryIds: [], docIds: [] },
         modeDefault: 'discuss',
       })
-    ).rejects.toThrow('Discussion sessions require at least one entry ID.');
+    ).rejects.toThrow('Discussion sessions require at least one entry or document.');
   });
 
-  it('returns only entry-backed sessions in the continuity surface', async () => {
+  it('accepts a discussion grounded only in documents', async () => {
+    const id = await createDiscussionSession({
+      title: 'Contract review',
+      scope: { entryIds: [], docIds: [9] },
+      modeDefault: 'discuss',
+    });
+
+    expect((await getAllDiscussionSessions()).map(session => session.id)).toEqual([id]);
+  });
+
+  it('returns only grounded sessions in the continuity surface', async () => {
     const now = Date.now();
     await db.discussionSessions.add({
       title: 'Legacy invalid discussion',
       createdAt: now,
       updatedAt: now,
       lastMessageAt: 10,
-      scope: { entryIds: [], docIds: [9] },
+      scope: { entryIds: [], docIds: [] },
       modeDefault: 'discuss',
     });
     const entryBackedId = await createDiscussionSession({
@@ -71,3 +93,60 @@ describe('discussion birth contract', () => {
     expect(sessions.map(session => session.id)).toEqual([newerId, olderId]);
   });
 });
+
+describe('chat threads', () => {
+  beforeEach(async () => {
+    await db.chatMessages.clear();
+    await db.chatThreads.clear();
+  });
+
+  afterEach(async () => {
+    await db.chatMessages.clear();
+    await db.chatThreads.clear();
+  });
+
+  it('names a thread after its first user message and keeps messages in order', async () => {
+    const threadId = await createChatThread();
+
+    await addChatThreadMessage({ threadId, role: 'user', content: 'What did I plant   in May?', diaryAttachmentIds: [4] });
+    await addChatThreadMessage({ threadId, role: 'assistant', content: 'Tomatoes.', status: 'ok' });
+    await addChatThreadMessage({ threadId, role: 'user', content: 'And in June?' });
+
+    expect((await getChatThreadById(threadId))?.title).toBe('What did I plant in May?');
+    expect((await getChatThreadMessages(threadId)).map(message => message.content)).toEqual([
+      'What did I plant   in May?',
+      'Tomatoes.',
+      'And in June?',
+    ]);
+  });
+
+  it('keeps a user-chosen title', async () => {
+    const threadId = await createChatThread();
+    await renameChatThread(threadId, '  Garden  ');
+    await addChatThreadMessage({ threadId, role: 'user', content: 'Hello' });
+
+    expect(await getChatThreadById(threadId)).toMatchObject({ title: 'Garden', titleEdited: true });
+  });
+
+  it('finds threads by title or message text', async () => {
+    const garden = await createChatThread();
+    await addChatThreadMessage({ threadId: garden, role: 'user', content: 'Garden plans' });
+    await addChatThreadMessage({ threadId: garden, role: 'assistant', content: 'Plant basil near the tomatoes' });
+    const travel = await createChatThread();
+    await addChatThreadMessage({ threadId: travel, role: 'user', content: 'Packing list for Rome' });
+
+    expect((await searchChatThreads('BASIL')).map(thread => thread.id)).toEqual([garden]);
+    expect((await searchChatThreads('rome')).map(thread => thread.id)).toEqual([travel]);
+    expect(await searchChatThreads('   ')).toHaveLength(2);
+  });
+
+  it('deletes a thread with its messages', async () => {
+    const threadId = await createChatThread();
+    await addChatThreadMessage({ threadId, role: 'user', content: 'Temporary' });
+
+    await deleteChatThread(threadId);
+
+    expect(await getChatThreadById(threadId)).toBeUndefined();
+    expect(await db.chatMessages.count()).toBe(0);
+  });
+});
@@ -1,4 +1,14 @@
-import Dexie, { type EntityTable } from 'dexie';
+import Dexie, { type EntityTable, type Table } from 'dexie';
+import {
+  getSearchIndexTables,
+  indexEntry,
+  indexEntryInTransaction,
+  reindexEntryForAttachment,
+  removeEntryFromIndexInTransaction,
+  searchFullText,
+} from './search/searchIndex';
+import { queueEntryVectorRefresh, removeEntryVectorsInTransaction } from './librarian/vectorIndex';
+import type { AIProfile, AIProvider } from './aiConfig';
 
 // Счётчики вложений по типам (для календаря без чтения blobs)
 export interface AttachmentCounts {
@@ -27,9 +37,24 @@ export interface DiaryEntry {
   title?: string;                   // AI-generated or user-set title
   titleSource?: 'ai' | 'user';      // Who created the title
   // Cloud sync fields (v16)
-  cloudId?: string;                 // Cloud UUID (null/undefined if not synced)
+  cloudId?: string;                 // Stable UUID, assigned at creation (v19); sync key across devices
   syncStatus?: 'synced' | 'pending' | 'conflict';
   lastSyncedAt?: number;            // Timestamp of last sync
+  conflictServerVersion?: EntrySyncVersion; // Server copy kept while syncStatus === 'conflict'
+}
+
+// Content fields compared and merged when both devices edited an entry
+export interface EntrySyncVersion {
+  date: string;
+  text: string;
+  mood: number;
+  tags: string[];
+  isPrivate: boolean;
+  title?: string;
+  titleSource?: 'ai' | 'user';
+  moodSource?: 'user' | 'ai';
+  semanticTags?: string[];          // Absent on conflicts recorded before these were kept
+  updatedAt: number;                // Server updated_at (ms)
 }
 
 // Типы для вложений
@@ -188,7 +213,9 @@ export type ReminderRepeat = 'none' | 'daily' | 'weekly' | 'monthly';
 
 export interface Reminder {
   id?: number;
-  entryId: number;              // Required: links back to source entry
+  entryId?: number;             // Source entry; absent for reminders made from a discussion plan
+  sessionId?: number;           // Discussion-origin source (plan reminders without an entry)
+  messageId?: number;           // Discussion message holding the plan
   sourceText: string;           // Original captured text snippet
   actionText: string;           // User-editable action description
   dueAt: number;                // Timestamp (ms) when reminder is due
@@ -230,21 +257,23 @@ export interface DiscussionSession {
   };
   modeDefault: DiscussionMode;
   pinned?: boolean;
+  activeLeafId?: number;   // Last message of the branch on screen; missing = the newest message
 }
 
-// Current live discussion authority is entry-backed only.
+// A discussion is live when it is grounded in at least one entry or imported document.
 export function hasLiveDiscussionAuthority(scope: DiscussionSession['scope']): boolean {
-  return scope.entryIds.length > 0;
+  return scope.entryIds.length > 0 || scope.docIds.length > 0;
 }
 
 export interface DiscussionMessage {
   id?: number;
   sessionId: number;
+  parentId?: number | null;  // Message this one follows, null for a first turn; missing before branching (follows the previous message)
   role: 'user' | 'assistant' | 'system';
   content: string;
   createdAt: number;
   evidenceRefs?: Array<{
-    type: 'entry' | 'document_page' | 'document' | 'biography';
+    type: 'entry' | 'document_page' | 'document' | 'biography' | 'receipt' | 'reminder';
     id: string;
     title: string;
     subtitle?: string;
@@ -261,6 +290,7 @@ export interface DiscussionMessage {
     model?: string;
     tokens?: number;
     mode?: DiscussionMode;
+    profile?: AIProfile;
     draftArtifact?: {
       type: string;
       title: string;
@@ -288,9 +318,17 @@ export interface DiscussionMessage {
         text: string;
         priority?: 'high' | 'medium' | 'low';
         dueHint?: string;
+        reminderId?: number;   // Set once the item was turned into a reminder
       }[];
     };
     questions?: string[];
+    toolTrace?: {
+      tool: string;
+      args: Record<string, unknown>;
+      summary: string;
+      evidenceIds: string[];
+      error?: string;
+    }[];
   };
 }
 
@@ -348,6 +386,141 @@ export interface AudioTranscript {
   errorCode: string | null;   // too_large | unsupported_format | rate_limited | transcription_failed | auth_required | unknown
 }
 
+// Full-text search index (v17)
+export type SearchField = 'title' | 'text' | 'tags' | 'transcript' | 'insight';
+
+export interface SearchPosting {
+  term: string;                                       // Stemmed term
+  entryId: number;
+  positions: Partial<Record<SearchField, number[]>>;  // Token positions per field (for phrases)
+}
+
+export interface SearchDocStats {
+  entryId: number;                                    // PK
+  length: number;                                     // Total indexed tokens
+  fieldLengths: Partial<Record<SearchField, number>>;
+  indexedAt: number;
+}
+
+// Sync tombstones (v20): deletions of synced rows, uploaded as deleted_at on next sync
+export interface SyncTombstone {
+  id?: number;
+  kind: 'entry' | 'attachment';
+  cloudId: string;                  // Entry cloudId (parent entry for attachments)
+  attachmentKind?: Attachment['kind'];
+  attachmentSize?: number;          // Attachments are matched on the server by entry + kind + size
+  deletedAt: number;
+  syncedAt?: number;                // Set once the server has deleted_at; purged after retention
+}
+
+// Unlocked sync encryption keys (v21). Non-extractable: usable here, never readable
+export interface SyncKeyRecord {
+  keyId: string;                    // PK, matches sync_encryption_keys.key_id
+  userId: string;
+  key: CryptoKey;
+  storedAt: number;
+}
+
+// Folder picked for automatic backups (v22). Handles survive reloads only inside IndexedDB
+export interface BackupTargetRecord {
+  id: string;                       // PK, 'auto'
+  handle: FileSystemDirectoryHandle;
+  name: string;                     // Folder name, for display
+  storedAt: number;
+}
+
+// Librarian vector index (v23): one row per chunk of an entry's authored text
+export interface EntryVector {
+  id: string;                       // PK, `${entryId}:${chunkIndex}`
+  entryId: number;
+  chunkIndex: number;
+  providerId: string;               // Embedding provider that produced the vector
+  contentHash: string;              // Of the chunked text + provider; stale rows are re-embedded
+  vector: number[];                 // L2-normalized
+  indexedAt: number;
+}
+
+// Imported documents (v24): the original file plus locally extracted page text
+export type DocumentKind = 'pdf' | 'image' | 'text';
+
+export interface StoredDocument {
+  id?: number;
+  title: string;
+  kind: DocumentKind;
+  mimeType: string;
+  fileName: string;
+  size: number;                     // Bytes of the original file
+  blob: Blob;                       // Original file, rendered by the viewer
+  pageCount: number;
+  textChars: number;                // Extracted text over all pages; 0 for image-only documents
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DocumentPage {
+  id?: number;
+  docId: number;
+  pageIndex: number;                // 0-based; deep links use page=pageIndex+1
+  text: string;                     // Extracted (or user-written, for images) page text
+  textSource: 'extracted' | 'user';
+}
+
+// AI chat threads (v25): ChatPage conversations, resumable later
+export interface ChatThread {
+  id?: number;
+  title: string;                    // First user message until renamed
+  titleEdited?: boolean;            // Renamed by the user; never overwritten
+  createdAt: number;
+  updatedAt: number;
+  lastMessageAt: number;
+}
+
+export interface ChatThreadMessage {
+  id?: number;
+  threadId: number;
+  role: 'user' | 'assistant';
+  content: string;
+  imageUrls?: string[];             // Compressed data URLs, exactly as sent to the model
+  diaryAttachmentIds?: number[];    // Diary attachments the images were picked from
+  status?: 'ok' | 'error';          // 'error': the reply failed, content is the error text
+  createdAt: number;
+}
+
+// AI usage ledger (v26): one row per AI call, device-local (not part of backups)
+export type AIUsageFeature =
+  | 'chat'
+  | 'discussion'
+  | 'receipt'
+  | 'transcription'
+  | 'biography'
+  | 'insights'
+  | 'entryAnalysis'
+  | 'imageAnalysis';
+
+export interface AIUsageRecord {
+  id?: number;
+  createdAt: number;
+  feature: AIUsageFeature;
+  provider: AIProvider;
+  model: string;
+  profile?: AIProfile;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean;               // Token counts derived from text length, not reported
+  costUsd: number;                  // Estimated from the price table in aiUsage.ts
+}
+
+// Saved search queries (v18), pinned ones are shown on Today
+export interface SavedSearch {
+  id?: number;
+  name: string;
+  query: string;       // Query language string (see search/queryLanguage)
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
 // База данных Dexie
 class DaybookDatabase extends Dexie {
   entries!: EntityTable<DiaryEntry, 'id'>;
@@ -364,6 +537,18 @@ class DaybookDatabase extends Dexie {
   analysisQueue!: EntityTable<AnalysisQueueItem, 'id'>;
   weeklyInsights!: EntityTable<WeeklyInsight, 'weekStart'>;
   audioTranscripts!: EntityTable<AudioTranscript, 'attachmentId'>;
+  searchPostings!: Table<SearchPosting, [string, number]>;
+  searchDocs!: EntityTable<SearchDocStats, 'entryId'>;
+  savedSearches!: EntityTable<SavedSearch, 'id'>;
+  syncTombstones!: EntityTable<SyncTombstone, 'id'>;
+  syncKeys!: EntityTable<SyncKeyRecord, 'keyId'>;
+  backupTargets!: EntityTable<BackupTargetRecord, 'id'>;
+  entryVectors!: EntityTable<EntryVector, 'id'>;
+  documents!: EntityTable<StoredDocument, 'id'>;
+  documentPages!: EntityTable<DocumentPage, 'id'>;
+  chatThreads!: EntityTable<ChatThread, 'id'>;
+  chatMessages!: EntityTable<ChatThreadMessage, 'id'>;
+  aiUsage!: EntityTable<AIUsageRecord, 'id'>;
 
   constructor() {
     super('DaybookDB');
@@ -615,6 +800,255 @@ class DaybookDatabase extends Dexie {
         }
       });
     });
+
+    // Version 17: Add inverted full-text search index (filled lazily by ensureSearchIndex)
+    this.version(17).stores({
+      entries: '++id, date, mood, *tags, *semanticTags, isPrivate, aiAllowed, createdAt, updatedAt, aiAnalyzedAt, syncStatus',
+      attachments: '++id, entryId, kind, createdAt',
+      drafts: 'id, updatedAt',
+      biographies: 'date, status, generatedAt',
+      attachmentInsights: 'attachmentId, createdAt',
+      receipts: '++id, entryId, date, storeName, createdAt, updatedAt',
+      receiptItems: '++id, receiptId, category',
+      scanLogs: '++id, timestamp',
+      reminders: '++id, entryId, status, dueAt, createdAt',
+      discussionSessions: '++id, updatedAt, lastMessageAt, pinned',
+      discussionMessages: '++id, sessionId, [sessionId+createdAt]',
+      analysisQueue: '++id, entryId, status, createdAt',
+      weeklyInsights: 'weekStart, generatedAt',
+      audioTranscripts: 'attachmentId, status, createdAt',
+      searchPostings: '[term+entryId], term, entryId',
+      searchDocs: 'entryId, indexedAt',
+    });
+
+    // Version 18: Index attachment counts for has: filters, add saved searches
+    this.version(18).stores({
+      entries: '++id, date, mood, *tags, *semanticTags, isPrivate, aiAllowed, createdAt, updatedAt, aiAnalyzedAt, syncStatus, attachmentCounts.image, attachmentCounts.video, attachmentCounts.audio',
+      attachments: '++id, entryId, kind, createdAt',
+      drafts: 'id, updatedAt',
+      biographies: 'date, status, generatedAt',
+      attachmentInsights: 'attachmentId, createdAt',
+      receipts: '++id, entryId, date, storeName, createdAt, updatedAt',
+      receiptItems: '++id, receiptId, category',
+      scanLogs: '++id, timestamp',
+      reminders: '++id, entryId, status, dueAt, createdAt',
+      discussionSessions: '++id, updatedAt, lastMessageAt, pinned',
+      discussionMessages: '++id, sessionId, [sessionId+createdAt]',
+      analysisQueue: '++id, entryId, status, createdAt',
+      weeklyInsights: 'weekStart, generatedAt',
+      audioTranscripts: 'attachmentId, status, createdAt',
+      searchPostings: '[term+entryId], term, entryId',
+      searchDocs: 'entryId, indexedAt',
+      savedSearches: '++id, updatedAt',
+    });
+
+    // Version 19: Stable cloudId per entry; sync matches server rows by UUID, not by local id
+    this.version(19).stores({
+      entries: '++id, date, mood, *tags, *semanticTags, isPrivate, aiAllowed, createdAt, updatedAt, aiAnalyzedAt, syncStatus, attachmentCounts.image, attachmentCounts.video, attachmentCounts.audio, &cloudId',
+      attachments: '++id, entryId, kind, createdAt',
+      drafts: 'id, updatedAt',
+      biographies: 'date, status, generatedAt',
+      attachmentInsights: 'attachmentId, createdAt',
+      receipts: '++id, entryId, date, storeName, createdAt, updatedAt',
+      receiptItems: '++id, receiptId, category',
+      scanLogs: '++id, timestamp',
+      reminders: '++id, entryId, status, dueAt, createdAt',
+      discussionSessions: '++id, updatedAt, lastMessageAt, pinned',
+      discussionMessages: '++id, sessionId, [sessionId+createdAt]',
+      analysisQueue: '++id, entryId, status, createdAt',
+      weeklyInsights: 'weekStart, generatedAt',
+      audioTranscripts: 'attachmentId, status, createdAt',
+      searchPostings: '[term+entryId], term, entryId',
+      searchDocs: 'entryId, indexedAt',
+      savedSearches: '++id, updatedAt',
+    }).upgrade(tx => {
+      // Backfill cloudId; already-synced rows are re-linked to their server UUID on next sync
+      return tx.table('entries').toCollection().modify(entry => {
+        if (!entry.cloudId) {
+          entry.cloudId = crypto.randomUUID();
+        }
+      });
+    });
+
+    // Version 20: Deletion tombstones for cloud sync
+    this.version(20).stores({
+      entries: '++id, date, mood, *tags, *semanticTags, isPrivate, aiAllowed, createdAt, updatedAt, aiAnalyzedAt, syncStatus, attachmentCounts.image, attachmentCounts.video, attachmentCounts.audio, &cloudId',
+      attachments: '++id, entryId, kind, createdAt',
+      drafts: 'id, updatedAt',
+      biographies: 'date, status, generatedAt',
+      attachmentInsights: 'attachmentId, createdAt',
+      receipts: '++id, entryId, date, storeName, createdAt, updatedAt',
+      receiptItems: '++id, receiptId, category',
+      scanLogs: '++id, timestamp',
+      reminders: '++id, entryId, status, dueAt, createdAt',
+      discussionSessions: '++id, updatedAt, lastMessageAt, pinned',
+      discussionMessages: '++id, sessionId, [sessionId+createdAt]',
+      analysisQueue: '++id, entryId, status, createdAt',
+      weeklyInsights: 'weekStart, generatedAt',
+      audioTranscripts: 'attachmentId, status, createdAt',
+      searchPostings: '[term+entryId], term, entryId',
+      searchDocs: 'entryId, indexedAt',
+      savedSearches: '++id, updatedAt',
+      syncTombstones: '++id, kind, cloudId, deletedAt, syncedAt',
+    });
+
+    // Version 21: Locally unlocked keys for end-to-end encrypted sync
+    this.version(21).stores({
+      entries: '++id, date, mood, *tags, *semanticTags, isPrivate, aiAllowed, createdAt, updatedAt, aiAnalyzedAt, syncStatus, attachmentCounts.image, attachmentCounts.video, attachmentCounts.audio, &cloudId',
+      attachments: '++id, entryId, kind, createdAt',
+      drafts: 'id, updatedAt',
+      biographies: 'date, status, generatedAt',
+      attachmentInsights: 'attachmentId, createdAt',
+      receipts: '++id, entryId, date, storeName, createdAt, updatedAt',
+      receiptItems: '++id, receiptId, category',
+      scanLogs: '++id, timestamp',
+      reminders: '++id, entryId, status, dueAt, createdAt',
+      discussionSessions: '++id, updatedAt, lastMessageAt, pinned',
+      discussionMessages: '++id, sessionId, [sessionId+createdAt]',
+      analysisQueue: '++id, entryId, status, createdAt',
+      weeklyInsights: 'weekStart, generatedAt',
+      audioTranscripts: 'attachmentId, status, createdAt',
+      searchPostings: '[term+entryId], term, entryId',
+      searchDocs: 'entryId, indexedAt',
+      savedSearches: '++id, updatedAt',
+      syncTombstones: '++id, kind, cloudId, deletedAt, syncedAt',
+      syncKeys: 'keyId, userId',
+    });
+
+    // Version 22: Folder handle for automatic backups
+    this.version(22).stores({
+      entries: '++id, date, mood, *tags, *semanticTags, isPrivate, aiAllowed, createdAt, updatedAt, aiAnalyzedAt, syncStatus, attachmentCounts.image, attachmentCounts.video, attachmentCounts.audio, &cloudId',
+      attachments: '++id, entryId, kind, createdAt',
+      drafts: 'id, updatedAt',
+      biographies: 'date, status, generatedAt',
+      attachmentInsights: 'attachmentId, createdAt',
+      receipts: '++id, entryId, date, storeName, createdAt, updatedAt',
+      receiptItems: '++id, receiptId, category',
+      scanLogs: '++id, timestamp',
+      reminders: '++id, entryId, status, dueAt, createdAt',
+      discussionSessions: '++id, updatedAt, lastMessageAt, pinned',
+      discussionMessages: '++id, sessionId, [sessionId+createdAt]',
+      analysisQueue: '++id, entryId, status, createdAt',
+      weeklyInsights: 'weekStart, generatedAt',
+      audioTranscripts: 'attachmentId, status, createdAt',
+      searchPostings: '[term+entryId], term, entryId',
+      searchDocs: 'entryId, indexedAt',
+      savedSearches: '++id, updatedAt',
+      syncTombstones: '++id, kind, cloudId, deletedAt, syncedAt',
+      syncKeys: 'keyId, userId',
+      backupTargets: 'id',
+    });
+
+    // Version 23: Vector index of entry chunks for the librarian
+    this.version(23).stores({
+      entries: '++id, date, mood, *tags, *semanticTags, isPrivate, aiAllowed, createdAt, updatedAt, aiAnalyzedAt, syncStatus, attachmentCounts.image, attachmentCounts.video, attachmentCounts.audio, &cloudId',
+      attachments: '++id, entryId, kind, createdAt',
+      drafts: 'id, updatedAt',
+      biographies: 'date, status, generatedAt',
+      attachmentInsights: 'attachmentId, createdAt',
+      receipts: '++id, entryId, date, storeName, createdAt, updatedAt',
+      receiptItems: '++id, receiptId, category',
+      scanLogs: '++id, timestamp',
+      reminders: '++id, entryId, status, dueAt, createdAt',
+      discussionSessions: '++id, updatedAt, lastMessageAt, pinned',
+      discussionMessages: '++id, sessionId, [sessionId+createdAt]',
+      analysisQueue: '++id, entryId, status, createdAt',
+      weeklyInsights: 'weekStart, generatedAt',
+      audioTranscripts: 'attachmentId, status, createdAt',
+      searchPostings: '[term+entryId], term, entryId',
+      searchDocs: 'entryId, indexedAt',
+      savedSearches: '++id, updatedAt',
+      syncTombstones: '++id, kind, cloudId, deletedAt, syncedAt',
+      syncKeys: 'keyId, userId',
+      backupTargets: 'id',
+      entryVectors: 'id, entryId',
+    });
+
+    // Version 24: Imported documents and their page text
+    this.version(24).stores({
+      entries: '++id, date, mood, *tags, *semanticTags, isPrivate, aiAllowed, createdAt, updatedAt, aiAnalyzedAt, syncStatus, attachmentCounts.image, attachmentCounts.video, attachmentCounts.audio, &cloudId',
+      attachments: '++id, entryId, kind, createdAt',
+      drafts: 'id, updatedAt',
+      biographies: 'date, status, generatedAt',
+      attachmentInsights: 'attachmentId, createdAt',
+      receipts: '++id, entryId, date, storeName, createdAt, updatedAt',
+      receiptItems: '++id, receiptId, category',
+      scanLogs: '++id, timestamp',
+      reminders: '++id, entryId, status, dueAt, createdAt',
+      discussionSessions: '++id, updatedAt, lastMessageAt, pinned',
+      discussionMessages: '++id, sessionId, [sessionId+createdAt]',
+      analysisQueue: '++id, entryId, status, createdAt',
+      weeklyInsights: 'weekStart, generatedAt',
+      audioTranscripts: 'attachmentId, status, createdAt',
+      searchPostings: '[term+entryId], term, entryId',
+      searchDocs: 'entryId, indexedAt',
+      savedSearches: '++id, updatedAt',
+      syncTombstones: '++id, kind, cloudId, deletedAt, syncedAt',
+      syncKeys: 'keyId, userId',
+      backupTargets: 'id',
+      entryVectors: 'id, entryId',
+      documents: '++id, kind, createdAt, updatedAt',
+      documentPages: '++id, docId, &[docId+pageIndex]',
+    });
+
+    // Version 25: Persistent AI chat threads
+    this.version(25).stores({
+      entries: '++id, date, mood, *tags, *semanticTags, isPrivate, aiAllowed, createdAt, updatedAt, aiAnalyzedAt, syncStatus, attachmentCounts.image, attachmentCounts.video, attachmentCounts.audio, &cloudId',
+      attachments: '++id, entryId, kind, createdAt',
+      drafts: 'id, updatedAt',
+      biographies: 'date, status, generatedAt',
+      attachmentInsights: 'attachmentId, createdAt',
+      receipts: '++id, entryId, date, storeName, createdAt, updatedAt',
+      receiptItems: '++id, receiptId, category',
+      scanLogs: '++id, timestamp',
+      reminders: '++id, entryId, status, dueAt, createdAt',
+      discussionSessions: '++id, updatedAt, lastMessageAt, pinned',
+      discussionMessages: '++id, sessionId, [sessionId+createdAt]',
+      analysisQueue: '++id, entryId, status, createdAt',
+      weeklyInsights: 'weekStart, generatedAt',
+      audioTranscripts: 'attachmentId, status, createdAt',
+      searchPostings: '[term+entryId], term, entryId',
+      searchDocs: 'entryId, indexedAt',
+      savedSearches: '++id, updatedAt',
+      syncTombstones: '++id, kind, cloudId, deletedAt, syncedAt',
+      syncKeys: 'keyId, userId',
+      backupTargets: 'id',
+      entryVectors: 'id, entryId',
+      documents: '++id, kind, createdAt, updatedAt',
+      documentPages: '++id, docId, &[docId+pageIndex]',
+      chatThreads: '++id, updatedAt, lastMessageAt',
+      chatMessages: '++id, threadId, [threadId+createdAt]',
+    });
+
+    // Version 26: AI usage ledger
+    this.version(26).stores({
+      entries: '++id, date, mood, *tags, *semanticTags, isPrivate, aiAllowed, createdAt, updatedAt, aiAnalyzedAt, syncStatus, attachmentCounts.image, attachmentCounts.video, attachmentCounts.audio, &cloudId',
+      attachments: '++id, entryId, kind, createdAt',
+      drafts: 'id, updatedAt',
+      biographies: 'date, status, generatedAt',
+      attachmentInsights: 'attachmentId, createdAt',
+      receipts: '++id, entryId, date, storeName, createdAt, updatedAt',
+      receiptItems: '++id, receiptId, category',
+      scanLogs: '++id, timestamp',
+      reminders: '++id, entryId, status, dueAt, createdAt',
+      discussionSessions: '++id, updatedAt, lastMessageAt, pinned',
+      discussionMessages: '++id, sessionId, [sessionId+createdAt]',
+      analysisQueue: '++id, entryId, status, createdAt',
+      weeklyInsights: 'weekStart, generatedAt',
+      audioTranscripts: 'attachmentId, status, createdAt',
+      searchPostings: '[term+entryId], term, entryId',
+      searchDocs: 'entryId, indexedAt',
+      savedSearches: '++id, updatedAt',
+      syncTombstones: '++id, kind, cloudId, deletedAt, syncedAt',
+      syncKeys: 'keyId, userId',
+      backupTargets: 'id',
+      entryVectors: 'id, entryId',
+      documents: '++id, kind, createdAt, updatedAt',
+      documentPages: '++id, docId, &[docId+pageIndex]',
+      chatThreads: '++id, updatedAt, lastMessageAt',
+      chatMessages: '++id, threadId, [threadId+createdAt]',
+      aiUsage: '++id, createdAt, feature, provider',
+    });
   }
 }
 
@@ -636,12 +1070,19 @@ db.open().catch((error) => {
 // CRUD операции для записей
 export async function createEntry(entry: Omit<DiaryEntry, 'id' | 'createdAt' | 'updatedAt' | 'aiAllowed'>): Promise<number> {
   const now = Date.now();
-  return await db.entries.add({
-    ...entry,
-    aiAllowed: !entry.isPrivate,
-    createdAt: now,
-    updatedAt: now,
+  const id = await db.transaction('rw', getSearchIndexTables(), async () => {
+    const id = await db.entries.add({
+      ...entry,
+      cloudId: entry.cloudId ?? crypto.randomUUID(),
+      aiAllowed: !entry.isPrivate,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await indexEntryInTransaction(id);
+    return id;
   });
+  queueEntryVectorRefresh(id);
+  return id;
 }
 
 export async function updateEntry(id: number, updates: Partial<Omit<DiaryEntry, 'id' | 'createdAt'>>): Promise<void> {
@@ -655,11 +1096,26 @@ export async function updateEntry(id: number, updates: Partial<Omit<DiaryEntry,
     updateData.aiAllowed = !updates.isPrivate;
   }
   
-  await db.entries.update(id, updateData);
+  await db.transaction('rw', getSearchIndexTables(), async () => {
+    await db.entries.update(id, updateData);
+    await indexEntryInTransaction(id);
+  });
+  queueEntryVectorRefresh(id);
 }
 
-export async function deleteEntry(id: number): Promise<void> {
-  await db.transaction('rw', [db.entries, db.attachments, db.attachmentInsights], async () => {
+/**
+ * Delete an entry with its attachments.
+ * Entries that were synced leave a tombstone so the deletion reaches other devices;
+ * sync passes { tombstone: false } when applying a deletion that came from the server.
+ */
+export async function deleteEntry(id: number, options: { tombstone?: boolean } = {}): Promise<void> {
+  const { tombstone = true } = options;
+  await db.transaction('rw', [db.entries, db.attachments, db.attachmentInsights, db.searchPostings, db.searchDocs, db.syncTombstones, db.entryVectors], async () => {
+    const entry = await db.entries.get(id);
+    if (tombstone && entry?.cloudId && entry.lastSyncedAt) {
+      await db.syncTombstones.add({ kind: 'entry', cloudId: entry.cloudId, deletedAt: Date.now() });
+    }
+
     // Delete insights first (cascade from attachments)
     const attachments = await db.attachments.where('entryId').equals(id).toArray();
     for (const attachment of attachments) {
@@ -671,6 +1127,8 @@ export async function deleteEntry(id: number): Promise<void> {
     await db.attachments.where('entryId').equals(id).delete();
     // Delete entry
     await db.entries.delete(id);
+    await removeEntryFromIndexInTransaction(id);
+    await removeEntryVectorsInTransaction(id);
   });
 }
 
@@ -686,14 +1144,13 @@ export async function getAllEntries(): Promise<DiaryEntry[]> {
   return await db.entries.orderBy('createdAt').reverse().toArray();
 }
 
+/**
+ * Full-text search via the local index, ranked by relevance.
+ * See lib/search/searchIndex for snippets and query syntax.
+ */
 export async function searchEntries(query: string): Promise<DiaryEntry[]> {
-  const lowerQuery = query.toLowerCase();
-  const allEntries = await db.entries.toArray();
-  
-  return allEntries.filter(entry => 
-    entry.text.toLowerCase().includes(lowerQuery) ||
-    entry.tags.some(tag => tag.toLowerCase().includes(lowerQuery))
-  ).sort((a, b) => b.createdAt - a.createdAt);
+  const results = await searchFullText(query, { prefixLastTerm: true });
+  return results.map(result => result.entry);
 }
 
 export async function getEntriesByDateRange(startDate: string, endDate: string): Promise<DiaryEntry[]> {
@@ -804,9 +1261,10 @@ export async function getAttachmentsByEntryId(entryId: number): Promise<Attachme
  * Delete a single attachment by ID and update entry's attachmentCounts.
  */
 export async function deleteAttachment(id: number): Promise<void> {
-  await db.transaction('rw', [db.attachments, db.attachmentInsights, db.entries], async () => {
+  let attachment: Attachment | undefined;
+  await db.transaction('rw', [db.attachments, db.attachmentInsights, db.entries, db.syncTombstones], async () => {
     // Get attachment first to know entryId and kind
-    const attachment = await db.attachments.get(id);
+    attachment = await db.attachments.get(id);
     
     // Delete insight and attachment
     await db.attachmentInsights.delete(id);
@@ -814,15 +1272,39 @@ export async function deleteAttachment(id: number): Promise<void> {
     
     // Decrement count if attachment existed and had valid entryId
     if (attachment && attachment.entryId > 0) {
+      await addAttachmentTombstonesInTransaction(attachment.entryId, [attachment]);
       await decrementAttachmentCount(attachment.entryId, attachment.kind);
     }
   });
+
+  // Drop the attachment's transcript/insight text from the entry's index
+  if (attachment && attachment.entryId > 0) {
+    await indexEntry(attachment.entryId);
+  }
+}
+
+/**
+ * Record attachment deletions for sync if the parent entry was synced.
+ * Sync ignores a tombstone when an identical attachment was re-added (editor saves rewrite attachments).
+ */
+async function addAttachmentTombstonesInTransaction(entryId: number, attachments: Attachment[]): Promise<void> {
+  const entry = await db.entries.get(entryId);
+  if (!entry?.cloudId || !entry.lastSyncedAt || attachments.length === 0) return;
+
+  const deletedAt = Date.now();
+  await db.syncTombstones.bulkAdd(attachments.map(attachment => ({
+    kind: 'attachment' as const,
+    cloudId: entry.cloudId!,
+    attachmentKind: attachment.kind,
+    attachmentSize: attachment.size,
+    deletedAt,
+  })));
 }
 
 /**
  * Delete all attachments for an entry - without transaction wrapper.
  * MUST be called within an existing transaction that includes 
- * [db.attachments, db.attachmentInsights, db.entries] tables.
+ * [db.attachments, db.attachmentInsights, db.entries, db.syncTombstones] tables.
  * Resets entry's attachmentCounts to zero.
  */
 export async function deleteAttachmentsByEntryIdInTransaction(entryId: number): Promise<void> {
@@ -835,6 +1317,7 @@ export async function deleteAttachmentsByEntryIdInTransaction(entryId: number):
   }
   // Delete attachments
   await db.attachments.where('entryId').equals(entryId).delete();
+  await addAttachmentTombstonesInTransaction(entryId, attachments);
   
   // Reset counts to zero (not delete-by-delete, just reset)
   await resetAttachmentCounts(entryId);
@@ -845,7 +1328,7 @@ export async function deleteAttachmentsByEntryIdInTransaction(entryId: number):
  * Use this when NOT already in a transaction.
  */
 export async function deleteAttachmentsByEntryId(entryId: number): Promise<void> {
-  await db.transaction('rw', [db.attachments, db.attachmentInsights, db.entries], async () => {
+  await db.transaction('rw', [db.attachments, db.attachmentInsights, db.entries, db.syncTombstones], async () => {
     await deleteAttachmentsByEntryIdInTransaction(entryId);
   });
 }
@@ -853,6 +1336,7 @@ export async function deleteAttachmentsByEntryId(entryId: number): Promise<void>
 // CRUD операции для инсайтов вложений
 export async function saveAttachmentInsight(insight: AttachmentInsight): Promise<void> {
   await db.attachmentInsights.put(insight);
+  await reindexEntryForAttachment(insight.attachmentId);
 }
 
 export async function getAttachmentInsight(attachmentId: number): Promise<AttachmentInsight | undefined> {
@@ -930,7 +1414,8 @@ export async function clearAllData(): Promise<void> {
   await db.transaction('rw', [
     db.entries, db.attachments, db.drafts, 
     db.receipts, db.receiptItems, db.scanLogs,
-    db.audioTranscripts,
+    db.audioTranscripts, db.searchPostings, db.searchDocs, db.syncTombstones, db.entryVectors,
+    db.documents, db.documentPages,
   ], async () => {
     await db.entries.clear();
     await db.attachments.clear();
@@ -939,6 +1424,12 @@ export async function clearAllData(): Promise<void> {
     await db.receiptItems.clear();
     await db.scanLogs.clear();
     await db.audioTranscripts.clear();
+    await db.searchPostings.clear();
+    await db.searchDocs.clear();
+    await db.syncTombstones.clear();
+    await db.entryVectors.clear();
+    await db.documents.clear();
+    await db.documentPages.clear();
   });
 }
 
@@ -1415,7 +1906,7 @@ export async function createDiscussionSession(
   session: Omit<DiscussionSession, 'id' | 'createdAt' | 'updatedAt' | 'lastMessageAt'>
 ): Promise<number> {
   if (!hasLiveDiscussionAuthority(session.scope)) {
-    throw new Error('Discussion sessions require at least one entry ID.');
+    throw new Error('Discussion sessions require at least one entry or document.');
   }
 
   const now = Date.now();
@@ -1499,15 +1990,23 @@ export async function addDiscussionMessage(
     createdAt: now,
   });
   
-  // Update session lastMessageAt
+  // Update session lastMessageAt; a new message always extends the branch on screen
   await db.discussionSessions.update(message.sessionId, {
     lastMessageAt: now,
     updatedAt: now,
+    activeLeafId: messageId,
   });
   
   return messageId;
 }
 
+/**
+ * Show another branch of a discussion.
+ */
+export async function setDiscussionActiveLeaf(sessionId: number, leafId: number): Promise<void> {
+  await db.discussionSessions.update(sessionId, { activeLeafId: leafId });
+}
+
 /**
  * Get all messages for a discussion session.
  */
@@ -1529,3 +2028,239 @@ export async function getEntriesByIds(ids: number[]): Promise<DiaryEntry[]> {
   }
   return entries;
 }
+
+// ============= SAVED SEARCHES =============
+
+/**
+ * Save a search query. Names default to the query itself.
+ */
+export async function createSavedSearch(query: string, name?: string): Promise<number> {
+  const now = Date.now();
+  return await db.savedSearches.add({
+    name: name?.trim() || query.trim(),
+    query: query.trim(),
+    pinned: false,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Get all saved searches: pinned first, then most recently updated.
+ */
+export async function getAllSavedSearches(): Promise<SavedSearch[]> {
+  const searches = await db.savedSearches.orderBy('updatedAt').reverse().toArray();
+  return searches.sort((a, b) => Number(b.pinned) - Number(a.pinned));
+}
+
+/**
+ * Get saved searches pinned to the Today page.
+ */
+export async function getPinnedSavedSearches(): Promise<SavedSearch[]> {
+  // pinned is a boolean (not indexable), so filter in memory
+  return (await getAllSavedSearches()).filter(search => search.pinned);
+}
+
+/**
+ * Toggle pinned status for a saved search.
+ */
+export async function toggleSavedSearchPin(id: number): Promise<void> {
+  const search = await db.savedSearches.get(id);
+  if (search) {
+    await db.savedSearches.update(id, {
+      pinned: !search.pinned,
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+export async function deleteSavedSearch(id: number): Promise<void> {
+  await db.savedSearches.delete(id);
+}
+
+// ============= DOCUMENT CRUD OPERATIONS =============
+
+/**
+ * Store an imported document with its page texts (one string per page).
+ */
+export async function addDocument(
+  document: Omit<StoredDocument, 'id' | 'pageCount' | 'textChars' | 'createdAt' | 'updatedAt'>,
+  pageTexts: string[]
+): Promise<number> {
+  const now = Date.now();
+  return await db.transaction('rw', [db.documents, db.documentPages], async () => {
+    const docId = await db.documents.add({
+      ...document,
+      pageCount: pageTexts.length,
+      textChars: pageTexts.reduce((sum, text) => sum + text.length, 0),
+      createdAt: now,
+      updatedAt: now,
+    });
+    await db.documentPages.bulkAdd(pageTexts.map((text, pageIndex) => ({
+      docId,
+      pageIndex,
+      text,
+      textSource: 'extracted' as const,
+    })));
+    return docId;
+  });
+}
+
+/**
+ * Get all documents, most recently updated first.
+ */
+export async function getAllDocuments(): Promise<StoredDocument[]> {
+  return await db.documents.orderBy('updatedAt').reverse().toArray();
+}
+
+export async function getDocumentById(id: number): Promise<StoredDocument | undefined> {
+  return await db.documents.get(id);
+}
+
+/**
+ * Get a document's pages in page order.
+ */
+export async function getDocumentPages(docId: number): Promise<DocumentPage[]> {
+  return await db.documentPages.where('docId').equals(docId).sortBy('pageIndex');
+}
+
+export async function renameDocument(id: number, title: string): Promise<void> {
+  await db.documents.update(id, { title: title.trim(), updatedAt: Date.now() });
+}
+
+/**
+ * Replace the text of one page, e.g. to describe an image or fix a bad extraction.
+ */
+export async function updateDocumentPageText(docId: number, pageIndex: number, text: string): Promise<void> {
+  await db.transaction('rw', [db.documents, db.documentPages], async () => {
+    const page = await db.documentPages.where('[docId+pageIndex]').equals([docId, pageIndex]).first();
+    if (!page) return;
+    await db.documentPages.update(page.id!, { text, textSource: 'user' });
+
+    const pages = await db.documentPages.where('docId').equals(docId).toArray();
+    await db.documents.update(docId, {
+      textChars: pages.reduce((sum, current) => sum + current.text.length, 0),
+      updatedAt: Date.now(),
+    });
+  });
+}
+
+/**
+ * Delete a document with its pages and drop it from every discussion scope.
+ */
+export async function deleteDocument(id: number): Promise<void> {
+  await db.transaction('rw', [db.documents, db.documentPages, db.discussionSessions], async () => {
+    await db.documentPages.where('docId').equals(id).delete();
+    await db.documents.delete(id);
+    await db.discussionSessions
+      .filter(session => session.scope.docIds.includes(id))
+      .modify(session => {
+        session.scope.docIds = session.scope.docIds.filter(docId => docId !== id);
+      });
+  });
+}
+
+// ============= CHAT THREAD CRUD OPERATIONS =============
+
+const CHAT_THREAD_TITLE_LENGTH = 60;
+
+function chatThreadTitleFrom(content: string): string {
+  const line = content.replace(/\s+/g, ' ').trim();
+  return line.length > CHAT_THREAD_TITLE_LENGTH ? `${line.slice(0, CHAT_THREAD_TITLE_LENGTH)}…` : line;
+}
+
+/**
+ * Create an empty chat thread. The title is taken from the first user message.
+ */
+export async function createChatThread(): Promise<number> {
+  const now = Date.now();
+  return await db.chatThreads.add({
+    title: '',
+    createdAt: now,
+    updatedAt: now,
+    lastMessageAt: now,
+  });
+}
+
+export async function getChatThreadById(id: number): Promise<ChatThread | undefined> {
+  return await db.chatThreads.get(id);
+}
+
+/**
+ * Get all chat threads, most recently active first.
+ */
+export async function getAllChatThreads(): Promise<ChatThread[]> {
+  return await db.chatThreads.orderBy('lastMessageAt').reverse().toArray();
+}
+
+/**
+ * Threads whose title or any message contains the query (case-insensitive),
+ * most recently active first.
+ */
+export async function searchChatThreads(query: string): Promise<ChatThread[]> {
+  const needle = query.trim().toLowerCase();
+  const threads = await getAllChatThreads();
+  if (!needle) return threads;
+
+  const matchingIds = new Set<number>();
+  await db.chatMessages.each(message => {
+    if (message.content.toLowerCase().includes(needle)) {
+      matchingIds.add(message.threadId);
+    }
+  });
+
+  return threads.filter(thread => thread.title.toLowerCase().includes(needle) || matchingIds.has(thread.id!));
+}
+
+export async function renameChatThread(id: number, title: string): Promise<void> {
+  await db.chatThreads.update(id, {
+    title: title.trim(),
+    titleEdited: true,
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Delete a chat thread and all its messages.
+ */
+export async function deleteChatThread(id: number): Promise<void> {
+  await db.transaction('rw', [db.chatThreads, db.chatMessages], async () => {
+    await db.chatMessages.where('threadId').equals(id).delete();
+    await db.chatThreads.delete(id);
+  });
+}
+
+/**
+ * Append a message to a chat thread. The first user message names an untitled thread.
+ */
+export async function addChatThreadMessage(
+  message: Omit<ChatThreadMessage, 'id' | 'createdAt'>
+): Promise<number> {
+  const now = Date.now();
+  return await db.transaction('rw', [db.chatThreads, db.chatMessages], async () => {
+    const messageId = await db.chatMessages.add({ ...message, createdAt: now });
+
+    const thread = await db.chatThreads.get(message.threadId);
+    if (thread) {
+      await db.chatThreads.update(message.threadId, {
+        lastMessageAt: now,
+        updatedAt: now,
+        ...(!thread.title && !thread.titleEdited && message.role === 'user'
+          ? { title: chatThreadTitleFrom(message.content) }
+          : {}),
+      });
+    }
+
+    return messageId;
+  });
+}
+
+/**
+ * Get all messages of a chat thread, oldest first.
+ */
+export async function getChatThreadMessages(threadId: number): Promise<ChatThreadMessage[]> {
+  return await db.chatMessages
+    .where('[threadId+createdAt]')
+    .between([threadId, Dexie.minKey], [threadId, Dexie.maxKey])
+    .toArray();
+}
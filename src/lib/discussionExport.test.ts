@@ -0,0 +1,121 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { addDiscussionMessage, createDiscussionSession, createEntry, db } from './db';
+import {
+  buildDiscussionReport,
+  renderDiscussionHtml,
+  renderDiscussionMarkdown,
+  rewriteCitations,
+} from './discussionExport';
+
+describe('discussion export', () => {
+  async function clearTables() {
+    await db.transaction('rw', db.tables, async () => {
+      for (const table of db.tables) {
+        await table.clear();
+      }
+    });
+  }
+
+  beforeEach(clearTables);
+  afterEach(clearTables);
+
+  async function addDiscussion() {
+    const publicId = await createEntry({ date: '2026-10-01', text: 'Ran 5k', mood: 4, tags: [], isPrivate: false });
+    const privateId = await createEntry({ date: '2026-10-02', text: 'Secret worry', mood: 2, tags: [], isPrivate: true });
+    const sessionId = await createDiscussionSession({
+      title: 'Autumn <review>',
+      scope: { entryIds: [publicId, privateId], docIds: [] },
+      modeDefault: 'analyze',
+    });
+    const entryRef = (alias: string, entityId: number, snippet: string) => ({
+      type: 'entry' as const, id: alias, title: `Entry ${entityId}`, snippet, deepLink: `/entry/${entityId}`, entityId,
+    });
+
+    await addDiscussionMessage({ sessionId, role: 'user', content: 'How was October?' });
+    await addDiscussionMessage({
+      sessionId,
+      role: 'assistant',
+      content: 'Active month [E1], with some stress [E2].',
+      evidenceRefs: [entryRef('E1', publicId, 'Ran 5k'), entryRef('E2', privateId, 'Secret worry')],
+      meta: {
+        analysisArtifact: { type: 'analysis', summary: 'Mostly good [E1, E2]', risks: ['Sleep [E9]'] },
+        planArtifact: { type: 'plan', title: 'Next', items: [{ text: 'Run again', priority: 'high', dueHint: 'Friday' }] },
+      },
+    });
+    // A later turn cites the private entry again under a different alias, plus one source only in the refs
+    await addDiscussionMessage({ sessionId, role: 'user', content: 'And the worry?' });
+    await addDiscussionMessage({
+      sessionId,
+      role: 'assistant',
+      content: 'It faded [E1].',
+      evidenceRefs: [entryRef('E1', privateId, 'Secret worry'), entryRef('E2', publicId, 'Ran 5k')],
+    });
+    return { sessionId, publicId, privateId };
+  }
+
+  it('rewrites known citation aliases and leaves unknown ones alone', () => {
+    const aliases = new Map([['E1', 3], ['B1', 4]]);
+    expect(rewriteCitations('See [E1] and [E1, B1], not [E7] or [note]', aliases))
+      .toBe('See [^3] and [^3][^4], not [E7] or [note]');
+  });
+
+  it('numbers sources once across turns and lists refs that were not cited inline', async () => {
+    const { sessionId } = await addDiscussion();
+    const report = await buildDiscussionReport(sessionId, { redactPrivate: false, language: 'en' });
+
+    expect(report.footnotes.map(note => [note.number, note.label, note.snippet])).toEqual([
+      [1, '2026-10-01 — Entry 1', 'Ran 5k'],
+      [2, '2026-10-02 — Entry 2', 'Secret worry'],
+    ]);
+    expect(report.turns.map(turn => turn.text)).toEqual([
+      'How was October?',
+      'Active month [^1], with some stress [^2].',
+      'And the worry?',
+      'It faded [^2].',
+    ]);
+    expect(report.turns[3].uncited).toEqual([1]);
+
+    const markdown = renderDiscussionMarkdown(report);
+    expect(markdown).toContain('#### Analysis\n\nMostly good [^1][^2]');
+    expect(markdown).toContain('- Sleep [E9]');
+    expect(markdown).toContain('- [ ] Run again _(high, due: Friday)_');
+    expect(markdown).toContain('Sources: [^1]');
+    expect(markdown).toContain('[^2]: 2026-10-02 — Entry 2 — “Secret worry”');
+  });
+
+  it('keeps only the date of private entries when redacting', async () => {
+    const { sessionId } = await addDiscussion();
+    const report = await buildDiscussionReport(sessionId, { redactPrivate: true, language: 'en' });
+
+    expect(report.footnotes[1]).toMatchObject({ label: '2026-10-02 — Private entry (hidden)', redacted: true });
+    expect(report.footnotes[1].snippet).toBeUndefined();
+    expect(renderDiscussionMarkdown(report)).not.toContain('Secret worry');
+    expect(renderDiscussionHtml(report)).not.toContain('Secret worry');
+  });
+
+  it('escapes HTML and links footnote markers', async () => {
+    const { sessionId } = await addDiscussion();
+    const html = renderDiscussionHtml(await buildDiscussionReport(sessionId, { redactPrivate: true, language: 'ru' }));
+
+    expect(html).toContain('<h1>Autumn &lt;review&gt;</h1>');
+    expect(html).toContain('Active month <sup><a href="#fn-1">1</a></sup>');
+    expect(html).toContain('<li id="fn-2" class="redacted">2026-10-02 — Личная запись (скрыта)</li>');
+  });
+
+  it('exports only the active branch', async () => {
+    const entryId = await createEntry({ date: '2026-10-01', text: 'Ran 5k', mood: 4, tags: [], isPrivate: false });
+    const sessionId = await createDiscussionSession({ title: 'Fork', scope: { entryIds: [entryId], docIds: [] }, modeDefault: 'discuss' });
+    const question = await addDiscussionMessage({ sessionId, parentId: null, role: 'user', content: 'Q' });
+    const first = await addDiscussionMessage({ sessionId, parentId: question, role: 'assistant', content: 'First' });
+    await addDiscussionMessage({ sessionId, parentId: question, role: 'assistant', content: 'Second' });
+    await db.discussionSessions.update(sessionId, { activeLeafId: first });
+
+    const report = await buildDiscussionReport(sessionId, { redactPrivate: true, language: 'en' });
+    expect(report.turns.map(turn => turn.text)).toEqual(['Q', 'First']);
+  });
+
+  it('fails for a missing session', async () => {
+    await expect(buildDiscussionReport(404, { redactPrivate: true, language: 'en' })).rejects.toThrow('SESSION_NOT_FOUND');
+  });
+});
@@ -0,0 +1,487 @@
+/**
+ * Discussion export: the visible branch of a session as Markdown or as a printable HTML page.
+ *
+ * Citation aliases in the text ([E1], [B2], ...) are turn-local, so each message maps its own
+ * aliases to report-wide footnote numbers; a source cited in several turns keeps one number.
+ * With redaction on, footnotes for private entries keep only the date.
+ */
+
+import { format } from 'date-fns';
+import { db, type DiscussionMessage, type DiscussionSession } from './db';
+import { getBranchPath } from './ai/discussionBranches';
+
+type EvidenceRef = NonNullable<DiscussionMessage['evidenceRefs']>[number];
+type MessageMeta = NonNullable<DiscussionMessage['meta']>;
+type ExportLanguage = 'ru' | 'en';
+
+export type DiscussionExportFormat = 'markdown' | 'pdf';
+
+export interface DiscussionExportOptions {
+  redactPrivate: boolean;
+  language: ExportLanguage;
+}
+
+export interface ReportFootnote {
+  number: number;
+  label: string;          // Entry date, document page, chronicle date...
+  snippet?: string;
+  deepLink: string;
+  redacted: boolean;
+}
+
+export interface ReportTurn {
+  role: 'user' | 'assistant';
+  createdAt: number;
+  text: string;                         // Citations already rewritten to [^n]
+  meta?: MessageMeta;                   // Artifacts with citations rewritten the same way
+  uncited: number[];                    // Footnotes attached to the turn but not cited inline
+}
+
+export interface DiscussionReport {
+  title: string;
+  exportedAt: number;
+  language: ExportLanguage;
+  turns: ReportTurn[];
+  footnotes: ReportFootnote[];
+}
+
+const texts = {
+  exported: { ru: 'Экспортировано', en: 'Exported' },
+  you: { ru: 'Вы', en: 'You' },
+  assistant: { ru: 'Ассистент', en: 'Assistant' },
+  sources: { ru: 'Источники', en: 'Sources' },
+  draft: { ru: 'Черновик', en: 'Draft' },
+  analysis: { ru: 'Анализ', en: 'Analysis' },
+  patterns: { ru: 'Паттерны', en: 'Patterns' },
+  risks: { ru: 'Риски', en: 'Risks' },
+  conclusions: { ru: 'Выводы', en: 'Conclusions' },
+  compute: { ru: 'Расчёт', en: 'Calculation' },
+  inputs: { ru: 'Данные', en: 'Inputs' },
+  steps: { ru: 'Шаги', en: 'Steps' },
+  result: { ru: 'Результат', en: 'Result' },
+  assumptions: { ru: 'Допущения', en: 'Assumptions' },
+  plan: { ru: 'План', en: 'Plan' },
+  due: { ru: 'срок', en: 'due' },
+  page: { ru: 'стр.', en: 'p.' },
+  chronicle: { ru: 'Хроника', en: 'Chronicle' },
+  privateEntry: { ru: 'Личная запись (скрыта)', en: 'Private entry (hidden)' },
+  priority: {
+    ru: { high: 'высокий', medium: 'средний', low: 'низкий' },
+    en: { high: 'high', medium: 'medium', low: 'low' },
+  },
+};
+
+type TextKey = Exclude<keyof typeof texts, 'priority'>;
+
+const CITATION_PATTERN = /\[([A-Z]\d+(?:\s*,\s*[A-Z]\d+)*)\]/g;
+const FOOTNOTE_PATTERN = /\[\^(\d+)\]/g;
+
+function evidenceKey(ref: EvidenceRef): string {
+  switch (ref.type) {
+    case 'biography':
+      return `biography:${ref.biographyDate ?? ref.deepLink}`;
+    case 'document_page':
+      return `document_page:${ref.entityId}:${ref.pageIndex ?? 0}`;
+    default:
+      return `${ref.type}:${ref.entityId}`;
+  }
+}
+
+/**
+ * Replace [E1] / [E1, B2] with footnote markers. Aliases without a known source stay as written.
+ */
+export function rewriteCitations(text: string, aliases: Map<string, number>): string {
+  return text.replace(CITATION_PATTERN, (match, group: string) => {
+    const ids = group.split(',').map(id => id.trim());
+    if (!ids.every(id => aliases.has(id))) return match;
+    return ids.map(id => `[^${aliases.get(id)}]`).join('');
+  });
+}
+
+function rewriteMeta(meta: MessageMeta | undefined, cite: (text: string) => string): MessageMeta | undefined {
+  if (!meta) return undefined;
+  const list = (items?: string[]) => items?.map(cite);
+  return {
+    ...meta,
+    draftArtifact: meta.draftArtifact && { ...meta.draftArtifact, body: cite(meta.draftArtifact.body) },
+    analysisArtifact: meta.analysisArtifact && {
+      ...meta.analysisArtifact,
+      summary: cite(meta.analysisArtifact.summary),
+      patterns: list(meta.analysisArtifact.patterns),
+      risks: list(meta.analysisArtifact.risks),
+      conclusions: list(meta.analysisArtifact.conclusions),
+    },
+    computeArtifact: meta.computeArtifact && {
+      ...meta.computeArtifact,
+      steps: meta.computeArtifact.steps.map(cite),
+      result: cite(meta.computeArtifact.result),
+      assumptions: list(meta.computeArtifact.assumptions),
+    },
+    planArtifact: meta.planArtifact && {
+      ...meta.planArtifact,
+      items: meta.planArtifact.items.map(item => ({ ...item, text: cite(item.text) })),
+    },
+  };
+}
+
+function footnoteLabel(
+  ref: EvidenceRef,
+  entryDates: Map<number, string>,
+  language: ExportLanguage
+): string {
+  switch (ref.type) {
+    case 'entry': {
+      const date = entryDates.get(ref.entityId);
+      return date ? `${date} — ${ref.title}` : ref.title;
+    }
+    case 'document_page':
+      return ref.pageIndex !== undefined
+        ? `${ref.title}, ${texts.page[language]} ${ref.pageIndex + 1}`
+        : ref.title;
+    case 'biography':
+      return ref.biographyDate ? `${texts.chronicle[language]} ${ref.biographyDate}` : ref.title;
+    default:
+      return ref.subtitle ? `${ref.title} — ${ref.subtitle}` : ref.title;
+  }
+}
+
+/**
+ * Assemble the report for the branch the user is looking at.
+ * @throws Error('SESSION_NOT_FOUND')
+ */
+export async function buildDiscussionReport(
+  sessionId: number,
+  options: DiscussionExportOptions
+): Promise<DiscussionReport> {
+  const session = await db.discussionSessions.get(sessionId);
+  if (!session) {
+    throw new Error('SESSION_NOT_FOUND');
+  }
+
+  const messages = await db.discussionMessages.where('sessionId').equals(sessionId).toArray();
+  const path = getBranchPath(messages, session.activeLeafId);
+
+  const entryIds = [...new Set(path.flatMap(message =>
+    (message.evidenceRefs ?? []).filter(ref => ref.type === 'entry').map(ref => ref.entityId)
+  ))];
+  const entries = await db.entries.bulkGet(entryIds);
+  const entryDates = new Map<number, string>();
+  const privateEntries = new Set<number>();
+  entries.forEach(entry => {
+    if (!entry?.id) return;
+    entryDates.set(entry.id, entry.date);
+    if (entry.isPrivate) privateEntries.add(entry.id);
+  });
+
+  return assembleReport(session, path, { ...options, entryDates, privateEntries });
+}
+
+/**
+ * Pure part of buildDiscussionReport, given the branch and what is known about the cited entries.
+ */
+export function assembleReport(
+  session: DiscussionSession,
+  path: DiscussionMessage[],
+  options: DiscussionExportOptions & { entryDates: Map<number, string>; privateEntries: Set<number> }
+): DiscussionReport {
+  const { language } = options;
+  const footnotes: ReportFootnote[] = [];
+  const numbers = new Map<string, number>();
+
+  const footnoteFor = (ref: EvidenceRef): number => {
+    const key = evidenceKey(ref);
+    const existing = numbers.get(key);
+    if (existing !== undefined) return existing;
+
+    const number = footnotes.length + 1;
+    const redacted = options.redactPrivate && ref.type === 'entry' && options.privateEntries.has(ref.entityId);
+    footnotes.push(redacted
+      ? {
+          number,
+          label: [options.entryDates.get(ref.entityId), texts.privateEntry[language]].filter(Boolean).join(' — '),
+          deepLink: ref.deepLink,
+          redacted: true,
+        }
+      : {
+          number,
+          label: footnoteLabel(ref, options.entryDates, language),
+          snippet: ref.snippet,
+          deepLink: ref.deepLink,
+          redacted: false,
+        });
+    numbers.set(key, number);
+    return number;
+  };
+
+  const turns = path
+    .filter((message): message is DiscussionMessage & { role: 'user' | 'assistant' } =>
+      message.role !== 'system' && message.status !== 'error'
+    )
+    .map(message => {
+      const aliases = new Map((message.evidenceRefs ?? []).map(ref => [ref.id, footnoteFor(ref)]));
+      const cite = (text: string) => rewriteCitations(text, aliases);
+      const text = cite(message.content);
+      const meta = rewriteMeta(message.meta, cite);
+
+      const cited = new Set<number>();
+      for (const match of JSON.stringify([text, meta ?? null]).matchAll(FOOTNOTE_PATTERN)) {
+        cited.add(Number(match[1]));
+      }
+      const uncited = [...new Set(aliases.values())].filter(number => !cited.has(number));
+
+      return { role: message.role, createdAt: message.createdAt, text, meta, uncited };
+    });
+
+  return { title: session.title, exportedAt: Date.now(), language, turns, footnotes };
+}
+
+// ============================================
+// MARKDOWN
+// ============================================
+
+function markdownArtifacts(meta: MessageMeta | undefined, t: (key: TextKey) => string, language: ExportLanguage): string[] {
+  if (!meta) return [];
+  const blocks: string[] = [];
+  const bulletList = (heading: string, items?: string[]) =>
+    items?.length ? [`**${heading}**`, '', ...items.map(item => `- ${item}`)].join('\n') : null;
+
+  if (meta.draftArtifact) {
+    const { title, body, format: bodyFormat } = meta.draftArtifact;
+    blocks.push(`#### ${t('draft')}: ${title}\n\n${bodyFormat === 'markdown' ? body : body.split('\n').map(line => `> ${line}`).join('\n')}`);
+  }
+
+  if (meta.analysisArtifact) {
+    const { summary, patterns, risks, conclusions } = meta.analysisArtifact;
+    blocks.push([
+      `#### ${t('analysis')}\n\n${summary}`,
+      bulletList(t('patterns'), patterns),
+      bulletList(t('risks'), risks),
+      bulletList(t('conclusions'), conclusions),
+    ].filter(Boolean).join('\n\n'));
+  }
+
+  if (meta.computeArtifact) {
+    const { inputs, steps, result, assumptions } = meta.computeArtifact;
+    const table = inputs.length
+      ? [`**${t('inputs')}**`, '', '| | |', '|---|---|', ...inputs.map(input => `| ${input.label.replace(/\|/g, '\\|')} | ${input.value.replace(/\|/g, '\\|')} |`)].join('\n')
+      : null;
+    blocks.push([
+      `#### ${t('compute')}`,
+      table,
+      steps.length ? [`**${t('steps')}**`, '', ...steps.map((step, i) => `${i + 1}. ${step}`)].join('\n') : null,
+      `**${t('result')}:** ${result}`,
+      bulletList(t('assumptions'), assumptions),
+    ].filter(Boolean).join('\n\n'));
+  }
+
+  if (meta.planArtifact) {
+    const { title, items } = meta.planArtifact;
+    blocks.push([
+      `#### ${t('plan')}: ${title}`,
+      '',
+      ...items.map(item => {
+        const details = [
+          item.priority && texts.priority[language][item.priority],
+          item.dueHint && `${t('due')}: ${item.dueHint}`,
+        ].filter(Boolean);
+        return `- [ ] ${item.text}${details.length ? ` _(${details.join(', ')})_` : ''}`;
+      }),
+    ].join('\n'));
+  }
+
+  return blocks;
+}
+
+export function renderDiscussionMarkdown(report: DiscussionReport): string {
+  const t = (key: TextKey): string => texts[key][report.language];
+  const time = (ms: number) => format(ms, 'yyyy-MM-dd HH:mm');
+  const parts = [`# ${report.title}`, `_${t('exported')}: ${time(report.exportedAt)}_`];
+
+  for (const turn of report.turns) {
+    parts.push(`### ${turn.role === 'user' ? t('you') : t('assistant')} · ${time(turn.createdAt)}`);
+    if (turn.text.trim()) parts.push(turn.role === 'user' ? turn.text.split('\n').map(line => `> ${line}`).join('\n') : turn.text);
+    parts.push(...markdownArtifacts(turn.meta, t, report.language));
+    if (turn.uncited.length) {
+      parts.push(`${t('sources')}: ${turn.uncited.map(number => `[^${number}]`).join(' ')}`);
+    }
+  }
+
+  if (report.footnotes.length) {
+    parts.push('---', report.footnotes.map(note => {
+      const snippet = note.snippet ? ` — “${note.snippet.replace(/\s+/g, ' ').trim()}”` : '';
+      return `[^${note.number}]: ${note.label}${snippet}`;
+    }).join('\n'));
+  }
+
+  return parts.join('\n\n') + '\n';
+}
+
+// ============================================
+// PRINTABLE HTML
+// ============================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Escape first, then turn footnote markers into links
+function inlineHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(FOOTNOTE_PATTERN, (_, number) => `<sup><a href="#fn-${number}">${number}</a></sup>`)
+    .replace(/\n/g, '<br>');
+}
+
+function htmlArtifacts(meta: MessageMeta | undefined, t: (key: TextKey) => string, language: ExportLanguage): string[] {
+  if (!meta) return [];
+  const blocks: string[] = [];
+  const list = (heading: string, items?: string[], tag: 'ul' | 'ol' = 'ul') =>
+    items?.length ? `<h5>${escapeHtml(heading)}</h5><${tag}>${items.map(item => `<li>${inlineHtml(item)}</li>`).join('')}</${tag}>` : '';
+
+  if (meta.draftArtifact) {
+    blocks.push(`<section class="artifact"><h4>${escapeHtml(`${t('draft')}: ${meta.draftArtifact.title}`)}</h4><div class="draft">${inlineHtml(meta.draftArtifact.body)}</div></section>`);
+  }
+
+  if (meta.analysisArtifact) {
+    const { summary, patterns, risks, conclusions } = meta.analysisArtifact;
+    blocks.push(`<section class="artifact"><h4>${t('analysis')}</h4><p>${inlineHtml(summary)}</p>${list(t('patterns'), patterns)}${list(t('risks'), risks)}${list(t('conclusions'), conclusions)}</section>`);
+  }
+
+  if (meta.computeArtifact) {
+    const { inputs, steps, result, assumptions } = meta.computeArtifact;
+    const table = inputs.length
+      ? `<h5>${t('inputs')}</h5><table>${inputs.map(input => `<tr><td>${escapeHtml(input.label)}</td><td>${escapeHtml(input.value)}</td></tr>`).join('')}</table>`
+      : '';
+    blocks.push(`<section class="artifact"><h4>${t('compute')}</h4>${table}${list(t('steps'), steps, 'ol')}<p><strong>${t('result')}:</strong> ${inlineHtml(result)}</p>${list(t('assumptions'), assumptions)}</section>`);
+  }
+
+  if (meta.planArtifact) {
+    const items = meta.planArtifact.items.map(item => {
+      const details = [
+        item.priority && texts.priority[language][item.priority],
+        item.dueHint && `${t('due')}: ${item.dueHint}`,
+      ].filter(Boolean).join(', ');
+      return `<li>☐ ${inlineHtml(item.text)}${details ? ` <em>(${escapeHtml(details)})</em>` : ''}</li>`;
+    }).join('');
+    blocks.push(`<section class="artifact"><h4>${escapeHtml(`${t('plan')}: ${meta.planArtifact.title}`)}</h4><ul class="plan">${items}</ul></section>`);
+  }
+
+  return blocks;
+}
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #111; line-height: 1.5; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  .exported { color: #666; font-size: 0.85rem; }
+  .turn { margin: 1.5rem 0; break-inside: avoid-page; }
+  .turn h3 { font-size: 0.85rem; color: #555; text-transform: uppercase; letter-spacing: 0.04em; margin-bottom: 0.25rem; }
+  .turn.user .text { border-inline-start: 3px solid #bbb; padding-inline-start: 0.75rem; color: #333; }
+  .artifact { border: 1px solid #ddd; border-radius: 6px; padding: 0.5rem 0.75rem; margin-top: 0.75rem; }
+  .artifact h4 { margin: 0.25rem 0; } .artifact h5 { margin: 0.5rem 0 0.25rem; }
+  .draft { white-space: pre-wrap; }
+  .plan { list-style: none; padding-inline-start: 0.25rem; }
+  table { border-collapse: collapse; } td { border: 1px solid #ddd; padding: 0.2rem 0.5rem; }
+  sup a { text-decoration: none; }
+  .sources { color: #555; font-size: 0.85rem; }
+  .footnotes { border-top: 1px solid #ccc; margin-top: 2rem; font-size: 0.85rem; }
+  .footnotes .redacted { color: #888; font-style: italic; }
+`;
+
+export function renderDiscussionHtml(report: DiscussionReport): string {
+  const t = (key: TextKey): string => texts[key][report.language];
+  const time = (ms: number) => format(ms, 'yyyy-MM-dd HH:mm');
+
+  const turns = report.turns.map(turn => {
+    const sources = turn.uncited.length
+      ? `<p class="sources">${t('sources')}: ${turn.uncited.map(number => `<sup><a href="#fn-${number}">${number}</a></sup>`).join(' ')}</p>`
+      : '';
+    return `<article class="turn ${turn.role}">
+<h3>${turn.role === 'user' ? t('you') : t('assistant')} · ${time(turn.createdAt)}</h3>
+${turn.text.trim() ? `<div class="text">${inlineHtml(turn.text)}</div>` : ''}
+${htmlArtifacts(turn.meta, t, report.language).join('\n')}
+${sources}
+</article>`;
+  }).join('\n');
+
+  const footnotes = report.footnotes.length
+    ? `<ol class="footnotes">${report.footnotes.map(note =>
+        `<li id="fn-${note.number}"${note.redacted ? ' class="redacted"' : ''}>${escapeHtml(note.label)}${note.snippet ? ` — “${escapeHtml(note.snippet.replace(/\s+/g, ' ').trim())}”` : ''}</li>`
+      ).join('')}</ol>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${report.language}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="exported">${t('exported')}: ${time(report.exportedAt)}</p>
+${turns}
+${footnotes}
+</body>
+</html>`;
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+function reportFilename(report: DiscussionReport, extension: string): string {
+  const slug = report.title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40) || 'discussion';
+  return `${slug}-${format(report.exportedAt, 'yyyy-MM-dd')}.${extension}`;
+}
+
+function downloadMarkdown(filename: string, markdown: string): void {
+  const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// The print dialog offers "Save as PDF"; a hidden iframe avoids popup blockers
+function printHtml(html: string): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
+
+/**
+ * Export a session: Markdown downloads a .md file, pdf opens the print dialog.
+ */
+export async function exportDiscussion(
+  sessionId: number,
+  exportFormat: DiscussionExportFormat,
+  options: DiscussionExportOptions
+): Promise<void> {
+  const report = await buildDiscussionReport(sessionId, options);
+  if (exportFormat === 'markdown') {
+    downloadMarkdown(reportFilename(report, 'md'), renderDiscussionMarkdown(report));
+  } else {
+    printHtml(renderDiscussionHtml(report));
+  }
+}
@@ -0,0 +1,114 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  createDiscussionSession,
+  db,
+  deleteDocument,
+  getDocumentPages,
+  updateDocumentPageText,
+} from '../db';
+import { buildContextPack } from '../librarian/contextPack';
+import { getDocumentKind, importDocument, MAX_DOCUMENT_BYTES, splitTextIntoPages } from './documentImport';
+
+async function clearTables() {
+  await db.transaction('rw', db.tables, async () => {
+    for (const table of db.tables) {
+      await table.clear();
+    }
+  });
+}
+
+describe('getDocumentKind', () => {
+  it('recognizes PDFs, images and text by type or extension', () => {
+    expect(getDocumentKind({ name: 'scan.PDF', type: '' })).toBe('pdf');
+    expect(getDocumentKind({ name: 'photo', type: 'image/jpeg' })).toBe('image');
+    expect(getDocumentKind({ name: 'notes.md', type: '' })).toBe('text');
+    expect(getDocumentKind({ name: 'archive.zip', type: 'application/zip' })).toBeNull();
+  });
+});
+
+describe('splitTextIntoPages', () => {
+  it('breaks at form feeds and cuts long text at paragraph boundaries', () => {
+    expect(splitTextIntoPages('First page\fSecond page')).toEqual(['First page', 'Second page']);
+
+    const paragraph = 'word '.repeat(14).trim();
+    const pages = splitTextIntoPages(`${paragraph}\n\n${paragraph}\n\n${paragraph}`, 150);
+    expect(pages).toEqual([`${paragraph}\n\n${paragraph}`, paragraph]);
+  });
+
+  it('keeps one empty page for empty text', () => {
+    expect(splitTextIntoPages('  ')).toEqual(['']);
+  });
+});
+
+describe('document library', () => {
+  beforeEach(clearTables);
+
+  it('imports a text file page by page', async () => {
+    const id = await importDocument(new File(['Intro\fBudget: 400 euros'], 'Trip plan.txt', { type: 'text/plain' }));
+
+    const document = await db.documents.get(id);
+    expect(document).toMatchObject({ title: 'Trip plan', kind: 'text', pageCount: 2, textChars: 22 });
+    expect((await getDocumentPages(id)).map(page => page.text)).toEqual(['Intro', 'Budget: 400 euros']);
+  });
+
+  it('rejects unsupported and oversized files', async () => {
+    await expect(importDocument(new File(['x'], 'a.zip', { type: 'application/zip' })))
+      .rejects.toThrow('DOCUMENT_UNSUPPORTED');
+
+    const huge = new File(['x'], 'big.txt', { type: 'text/plain' });
+    Object.defineProperty(huge, 'size', { value: MAX_DOCUMENT_BYTES + 1 });
+    await expect(importDocument(huge)).rejects.toThrow('DOCUMENT_TOO_LARGE');
+  });
+
+  it('stores a user description for an image page', async () => {
+    const id = await importDocument(new File([new Uint8Array([1, 2, 3])], 'whiteboard.png', { type: 'image/png' }));
+    expect((await db.documents.get(id))?.textChars).toBe(0);
+
+    await updateDocumentPageText(id, 0, 'Sprint goals on the whiteboard');
+
+    expect(await getDocumentPages(id)).toMatchObject([{ text: 'Sprint goals on the whiteboard', textSource: 'user' }]);
+    expect((await db.documents.get(id))?.textChars).toBe(30);
+  });
+
+  it('removes a deleted document from discussion scopes', async () => {
+    const docId = await importDocument(new File(['Lease terms'], 'lease.txt', { type: 'text/plain' }));
+    const sessionId = await createDiscussionSession({
+      title: 'Lease',
+      scope: { entryIds: [3], docIds: [docId] },
+      modeDefault: 'discuss',
+    });
+
+    await deleteDocument(docId);
+
+    expect(await db.documentPages.where('docId').equals(docId).count()).toBe(0);
+    expect((await db.discussionSessions.get(sessionId))?.scope.docIds).toEqual([]);
+  });
+
+  it('cites the matching page of a scoped document', async () => {
+    const docId = await importDocument(new File(
+      ['Parties and dates\fThe deposit is returned within 30 days\fSignatures'],
+      'Lease.txt',
+      { type: 'text/plain' }
+    ));
+
+    const result = await buildContextPack({
+      sessionScope: { entryIds: [], docIds: [docId] },
+      userQuery: 'when is the deposit returned?',
+      mode: 'discuss',
+      findMode: true,
+    });
+
+    expect(result.evidence).toEqual([
+      expect.objectContaining({
+        type: 'document_page',
+        id: 'D1',
+        stableHandle: `document_page:${docId}:1`,
+        deepLink: `/documents/${docId}?page=2`,
+        pageIndex: 1,
+      }),
+    ]);
+    expect(result.contextText).toContain('CLASS: IMPORTED_DOCUMENT_PAGE');
+    expect(result.contextText).toContain('page 2 of 3');
+  });
+});
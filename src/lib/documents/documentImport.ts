@@ -0,0 +1,118 @@
+/**
+ * Import of PDFs, images and text files into the local document library.
+ *
+ * Page text is extracted on the device: pdf.js reads the text layer of PDFs, and text files
+ * are split into pages. Images are stored with one empty page that the user can describe
+ * in the viewer; nothing is sent to a server.
+ */
+
+import { addDocument, type DocumentKind } from '@/lib/db';
+
+export const MAX_DOCUMENT_BYTES = 30 * 1024 * 1024;
+const TEXT_PAGE_CHARS = 3000;
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'csv', 'json', 'log'];
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'gif', 'heic'];
+
+export const DOCUMENT_ACCEPT = [
+  'application/pdf', '.pdf',
+  'image/*',
+  'text/*', ...TEXT_EXTENSIONS.map(extension => `.${extension}`),
+].join(',');
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+}
+
+export function getDocumentKind(file: Pick<File, 'name' | 'type'>): DocumentKind | null {
+  const extension = getExtension(file.name);
+  if (file.type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (file.type.startsWith('image/') || IMAGE_EXTENSIONS.includes(extension)) return 'image';
+  if (file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.includes(extension)) {
+    return 'text';
+  }
+  return null;
+}
+
+/**
+ * Split plain text into pages: form feeds are hard page breaks, and longer stretches
+ * are cut at paragraph (or, failing that, line) boundaries near pageChars.
+ */
+export function splitTextIntoPages(text: string, pageChars: number = TEXT_PAGE_CHARS): string[] {
+  const pages: string[] = [];
+
+  for (const section of text.replace(/\r\n?/g, '\n').split('\f')) {
+    let rest = section.trim();
+    while (rest.length > pageChars) {
+      const window = rest.slice(0, pageChars);
+      let cut = window.lastIndexOf('\n\n');
+      if (cut < pageChars / 2) cut = window.lastIndexOf('\n');
+      if (cut < pageChars / 2) cut = window.lastIndexOf(' ');
+      if (cut <= 0) cut = pageChars;
+      pages.push(rest.slice(0, cut).trim());
+      rest = rest.slice(cut).trim();
+    }
+    if (rest || pages.length === 0) pages.push(rest);
+  }
+
+  return pages;
+}
+
+function readFileText(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+async function extractPageTexts(file: File, kind: DocumentKind): Promise<string[]> {
+  switch (kind) {
+    case 'text':
+      return splitTextIntoPages(await readFileText(file));
+    case 'pdf': {
+      const { extractPdfPageTexts } = await import('./pdf');
+      const pages = await extractPdfPageTexts(file);
+      return pages.length > 0 ? pages : [''];
+    }
+    case 'image':
+      return [''];
+  }
+}
+
+/**
+ * Import a file as a document.
+ * @throws Error('DOCUMENT_TOO_LARGE' | 'DOCUMENT_UNSUPPORTED' | 'DOCUMENT_UNREADABLE')
+ * @returns The new document id
+ */
+export async function importDocument(file: File): Promise<number> {
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error('DOCUMENT_TOO_LARGE');
+  }
+  const kind = getDocumentKind(file);
+  if (!kind) {
+    throw new Error('DOCUMENT_UNSUPPORTED');
+  }
+
+  let pageTexts: string[];
+  try {
+    pageTexts = await extractPageTexts(file, kind);
+  } catch (error) {
+    console.error('[Documents] Text extraction failed:', error);
+    throw new Error('DOCUMENT_UNREADABLE');
+  }
+
+  const extension = getExtension(file.name);
+  const title = extension ? file.name.slice(0, -(extension.length + 1)) : file.name;
+
+  return await addDocument({
+    title: title.trim() || file.name,
+    kind,
+    mimeType: file.type || (kind === 'pdf' ? 'application/pdf' : kind === 'text' ? 'text/plain' : 'image/*'),
+    fileName: file.name,
+    size: file.size,
+    blob: file,
+  }, pageTexts);
+}
@@ -0,0 +1,84 @@
+/**
+ * PDF support for imported documents, on top of pdf.js.
+ * Loaded lazily (dynamic import) so the parser and its worker only ship when a PDF is opened.
+ */
+
+import { getDocument, GlobalWorkerOptions, type PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+export type { PDFDocumentProxy };
+
+function isTextItem(item: TextItem | TextMarkedContent): item is TextItem {
+  return 'str' in item;
+}
+
+/**
+ * Join the text runs of a page, keeping the line breaks pdf.js reports.
+ */
+function joinTextItems(items: Array<TextItem | TextMarkedContent>): string {
+  let text = '';
+  for (const item of items) {
+    if (!isTextItem(item)) continue;
+    text += item.str;
+    if (item.hasEOL) text += '\n';
+  }
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export async function loadPdf(blob: Blob): Promise<PDFDocumentProxy> {
+  const data = new Uint8Array(await new Response(blob).arrayBuffer());
+  return await getDocument({ data }).promise;
+}
+
+/**
+ * Text of every page, in page order. Scanned pages without a text layer come back empty.
+ */
+export async function extractPdfPageTexts(blob: Blob): Promise<string[]> {
+  const pdf = await loadPdf(blob);
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(joinTextItems(content.items));
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Render one page (1-based) into a canvas at the given CSS width.
+ */
+export async function renderPdfPage(
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  cssWidth: number
+): Promise<void> {
+  const page = await pdf.getPage(pageNumber);
+  const baseViewport = page.getViewport({ scale: 1 });
+  const pixelRatio = window.devicePixelRatio || 1;
+  const viewport = page.getViewport({ scale: (cssWidth / baseViewport.width) * pixelRatio });
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context unavailable');
+
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  canvas.style.width = `${cssWidth}px`;
+  canvas.style.height = `${Math.floor(viewport.height / pixelRatio)}px`;
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  page.cleanup();
+}
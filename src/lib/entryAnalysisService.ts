@@ -12,6 +12,8 @@ import { db, updateEntry, type DiaryEntry, type AnalysisQueueItem } from '@/lib/
 import { supabase } from '@/integrations/supabase/client';
 import { loadAISettings, getModelForProfile } from '@/lib/aiConfig';
 import { getAITokenHeader } from '@/lib/aiUtils';
+import { extractJSONObject, localChatCompletion } from '@/lib/localLLM';
+import { ensureAIBudget, isAIBudgetError, recordAIUsage } from '@/lib/aiUsage';
 
 interface AnalysisResult {
   mood: number;
@@ -21,6 +23,141 @@ interface AnalysisResult {
   requestId: string;
 }
 
+// ============================================================
+// Local provider: ports of the ai-entry-analyze prompts
+// ============================================================
+
+const LOCAL_FULL_PROMPTS: Record<'ru' | 'en', string> = {
+  ru: `Ты — анализатор дневниковых записей «Магического блокнота».
+
+Анализируй текст и возвращай:
+1. mood (1-5): эмоциональный тон записи
+   1 = очень негативный/грустный/злой
+   2 = слегка негативный/усталый/раздражённый
+   3 = нейтральный/спокойный/рутинный
+   4 = позитивный/радостный/довольный
+   5 = очень позитивный/воодушевлённый/благодарный
+
+2. semanticTags (3-8 тегов): скрытые ключевые слова для поиска — темы, действия, эмоции, паттерны времени
+
+3. titleSuggestion: короткий заголовок (3-6 слов) в духе кибер-мистицизма
+   - Используй термины: "контур", "сектор", "резонанс", "импульс", "сигнал"
+   - Примеры: "Импульс в секторе Работа", "Контур семейного резонанса"
+
+Правила:
+- Теги на русском, одно слово или короткая фраза
+- Возвращай ТОЛЬКО валидный JSON`,
+  en: `You are a diary entry analyzer in "cyber-grimoire" style.
+
+Analyze the text and return:
+1. mood (1-5): emotional tone of the entry
+   1 = very negative/sad/angry
+   2 = somewhat negative/tired/frustrated
+   3 = neutral/calm/routine
+   4 = positive/happy/satisfied
+   5 = very positive/excited/grateful
+
+2. semanticTags (3-8 tags): hidden search keywords — topics, activities, emotions, time patterns
+
+3. titleSuggestion: short title (3-6 words) in cyber-mysticism style
+   - Use terms: "contour", "sector", "resonance", "impulse", "signal"
+   - Examples: "Work Sector Impulse", "Family Resonance Contour"
+
+Rules:
+- Tags in lowercase, single words or short phrases
+- Return ONLY valid JSON`,
+};
+
+const LOCAL_QUICK_PROMPTS: Record<'ru' | 'en', string> = {
+  ru: `Определи эмоциональный тон текста (1-5):
+1=негатив/грусть, 2=усталость/раздражение, 3=нейтрально, 4=позитив, 5=восторг/радость
+Учитывай контекст, иронию, идиомы ("ужасно круто"=позитив, "отличный провал"=негатив).
+ТОЛЬКО JSON: {"mood":N,"confidence":0.X}`,
+  en: `Determine emotional tone (1-5):
+1=negative/sad, 2=tired/frustrated, 3=neutral, 4=positive, 5=very happy/excited
+Consider context, irony, idioms ("terribly good"=positive, "great failure"=negative).
+ONLY JSON: {"mood":N,"confidence":0.X}`,
+};
+
+function clampMood(mood: unknown): number {
+  return Math.max(1, Math.min(5, Math.round(Number(mood) || 3)));
+}
+
+function clampConfidence(confidence: unknown): number {
+  return Math.max(0, Math.min(1, Number(confidence) || 0.5));
+}
+
+async function analyzeEntryLocally(text: string, tags: string[], language: string): Promise<AnalysisResult> {
+  const lang = language === 'ru' ? 'ru' : 'en';
+  const truncatedText = text.length > 1000 ? text.slice(0, 1000) + '...' : text;
+
+  const model = getModelForProfile('fast', 'local');
+  const userPrompt = `Entry text:\n"""\n${truncatedText}\n"""\n\nUser tags: [${tags.join(', ')}]\n\n`
+    + 'Return ONLY valid JSON:\n{"mood": <number 1-5>, "confidence": <number 0-1>, "semanticTags": ["tag1", "tag2"], "titleSuggestion": "..."}';
+  const content = await localChatCompletion({
+    messages: [
+      { role: 'system', content: LOCAL_FULL_PROMPTS[lang] },
+      { role: 'user', content: userPrompt },
+    ],
+    model,
+    maxTokens: 300,
+    temperature: 0.3,
+    language: lang,
+  });
+  await recordAIUsage({
+    feature: 'entryAnalysis',
+    provider: 'local',
+    model,
+    profile: 'fast',
+    promptText: LOCAL_FULL_PROMPTS[lang] + userPrompt,
+    completionText: content,
+  });
+
+  const parsed = extractJSONObject<{ mood?: unknown; confidence?: unknown; semanticTags?: unknown; titleSuggestion?: unknown }>(content);
+  return {
+    mood: clampMood(parsed.mood),
+    confidence: clampConfidence(parsed.confidence),
+    semanticTags: Array.isArray(parsed.semanticTags)
+      ? parsed.semanticTags.slice(0, 8).map(tag => String(tag).toLowerCase().trim())
+      : [],
+    titleSuggestion: typeof parsed.titleSuggestion === 'string' ? parsed.titleSuggestion.slice(0, 80).trim() : undefined,
+    requestId: 'local',
+  };
+}
+
+/**
+ * Quick mood estimate from the local model, used by live mood suggestions while typing.
+ */
+export async function analyzeMoodLocally(
+  text: string,
+  language: string
+): Promise<{ mood: number; confidence: number }> {
+  const lang = language === 'ru' ? 'ru' : 'en';
+  const model = getModelForProfile('economy', 'local');
+  const userText = text.length > 500 ? text.slice(0, 500) + '...' : text;
+  const content = await localChatCompletion({
+    messages: [
+      { role: 'system', content: LOCAL_QUICK_PROMPTS[lang] },
+      { role: 'user', content: userText },
+    ],
+    model,
+    maxTokens: 50,
+    temperature: 0.2,
+    language: lang,
+  });
+  await recordAIUsage({
+    feature: 'entryAnalysis',
+    provider: 'local',
+    model,
+    profile: 'economy',
+    promptText: LOCAL_QUICK_PROMPTS[lang] + userText,
+    completionText: content,
+  });
+
+  const parsed = extractJSONObject<{ mood?: unknown; confidence?: unknown }>(content);
+  return { mood: clampMood(parsed.mood), confidence: clampConfidence(parsed.confidence) };
+}
+
 async function callAnalyzeEdgeFunction(
   text: string,
   tags: string[],
@@ -33,6 +170,13 @@ async function callAnalyzeEdgeFunction(
     bodyText = extractGeneralizedThemes(text, language);
   }
 
+  // Background work: a hard stop throws, warnings are left to foreground calls
+  await ensureAIBudget(language === 'ru' ? 'ru' : 'en', { silent: true });
+
+  if (aiSettings.provider === 'local') {
+    return analyzeEntryLocally(bodyText, tags, language);
+  }
+
   const model = getModelForProfile('fast');
 
   const { data, error } = await supabase.functions.invoke('ai-entry-analyze', {
@@ -48,7 +192,16 @@ async function callAnalyzeEdgeFunction(
     throw new Error(data.error);
   }
 
-  return data as AnalysisResult;
+  const result = data as AnalysisResult;
+  await recordAIUsage({
+    feature: 'entryAnalysis',
+    model,
+    profile: 'fast',
+    promptText: bodyText + tags.join(' '),
+    completionText: JSON.stringify(result),
+  });
+
+  return result;
 }
 
 function extractGeneralizedThemes(text: string, language: string): string {
@@ -116,17 +269,26 @@ export async function addToAnalysisQueue(
 }
 
 export async function processAnalysisQueue(): Promise<void> {
-  if (!navigator.onLine) {
+  const aiSettings = loadAISettings();
+  // The local provider runs on this device and does not need the network
+  if (!navigator.onLine && aiSettings.provider !== 'local') {
     console.log('[AnalysisQueue] Offline, skipping');
     return;
   }
 
-  const aiSettings = loadAISettings();
   if (!aiSettings.enabled) {
     console.log('[AnalysisQueue] AI disabled, skipping');
     return;
   }
 
+  try {
+    await ensureAIBudget('en', { silent: true });
+  } catch (error) {
+    if (!isAIBudgetError(error)) throw error;
+    console.log('[AnalysisQueue] AI budget exhausted, skipping');
+    return;
+  }
+
   const pending = await db.analysisQueue
     .where('status')
     .equals('pending')
@@ -194,6 +356,9 @@ async function processQueueItem(item: AnalysisQueueItem): Promise<void> {
     console.log(`[AnalysisQueue] Entry ${item.entryId} analyzed successfully`);
 
   } catch (error) {
+    // Stays pending until the budget resets instead of burning retries
+    if (isAIBudgetError(error)) return;
+
     const attempts = item.attempts + 1;
     const errorMessage = error instanceof Error ? error.message : String(error);
 
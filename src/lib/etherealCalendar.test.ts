@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { EtherealEvent, EtherealTask } from './etherealDb';
+import {
+  buildCalendarItems,
+  expandEventOccurrences,
+  getMonthGrid,
+  getWeekDays,
+  isInEventWindow,
+  itemsOnDay,
+} from './etherealCalendar';
+
+const at = (date: string, time = '00:00') => new Date(`${date}T${time}:00`).getTime();
+
+function event(overrides: Partial<EtherealEvent>): EtherealEvent {
+  return {
+    serverId: 'e1',
+    roomId: 'room',
+    creatorId: 'm1',
+    creatorName: 'Anna',
+    title: 'Standup',
+    startAtMs: at('2026-10-05', '10:00'),
+    endAtMs: at('2026-10-05', '10:30'),
+    allDay: false,
+    recurrence: 'none',
+    createdAtMs: 0,
+    updatedAtMs: 0,
+    syncStatus: 'synced',
+    ...overrides,
+  };
+}
+
+function task(overrides: Partial<EtherealTask>): EtherealTask {
+  return {
+    serverId: 't1',
+    roomId: 'room',
+    creatorId: 'm1',
+    creatorName: 'Anna',
+    title: 'Buy sails',
+    status: 'todo',
+    priority: 'normal',
+    createdAtMs: 0,
+    updatedAtMs: 0,
+    syncStatus: 'synced',
+    ...overrides,
+  };
+}
+
+describe('ethereal calendar', () => {
+  it('keeps one-off events that overlap the window', () => {
+    const e = event({});
+    expect(expandEventOccurrences(e, at('2026-10-05'), at('2026-10-06'))).toEqual([e.startAtMs]);
+    expect(expandEventOccurrences(e, at('2026-10-05', '10:15'), at('2026-10-06'))).toEqual([e.startAtMs]);
+    expect(expandEventOccurrences(e, at('2026-10-06'), at('2026-10-07'))).toEqual([]);
+  });
+
+  it('expands weekly series inside the window and stops at the series end', () => {
+    const e = event({ recurrence: 'weekly', recurrenceUntilMs: at('2026-11-02') });
+    const starts = expandEventOccurrences(e, at('2026-10-10'), at('2026-12-31'));
+
+    expect(starts).toEqual([
+      at('2026-10-12', '10:00'),
+      at('2026-10-19', '10:00'),
+      at('2026-10-26', '10:00'),
+      at('2026-11-02', '10:00'),
+    ]);
+  });
+
+  it('repeats monthly from the original day, clamping to short months', () => {
+    const e = event({ recurrence: 'monthly', startAtMs: at('2026-01-31', '09:00'), endAtMs: undefined });
+    const starts = expandEventOccurrences(e, at('2026-02-01'), at('2026-04-30', '23:59'));
+
+    expect(starts).toEqual([at('2026-02-28', '09:00'), at('2026-03-31', '09:00'), at('2026-04-30', '09:00')]);
+  });
+
+  it('jumps to far windows of long daily series', () => {
+    const e = event({ recurrence: 'daily', startAtMs: at('2020-01-01', '08:00'), endAtMs: undefined });
+    expect(expandEventOccurrences(e, at('2026-10-19'), at('2026-10-20') - 1)).toEqual([at('2026-10-19', '08:00')]);
+  });
+
+  it('places due tasks as all-day items ahead of timed events', () => {
+    const items = buildCalendarItems(
+      [event({})],
+      [task({ dueAtMs: at('2026-10-05', '15:00') }), task({ serverId: 't2', dueAtMs: undefined })],
+      at('2026-10-01'),
+      at('2026-10-31')
+    );
+
+    expect(items.map(item => [item.kind, item.title])).toEqual([['task', 'Buy sails'], ['event', 'Standup']]);
+    expect(itemsOnDay(items, new Date(2026, 9, 5))).toHaveLength(2);
+    expect(itemsOnDay(items, new Date(2026, 9, 6))).toHaveLength(0);
+  });
+
+  it('spreads multi-day all-day events over every day they cover', () => {
+    const trip = event({ allDay: true, startAtMs: at('2026-10-09'), endAtMs: at('2026-10-11') });
+    const items = buildCalendarItems([trip], [], at('2026-10-01'), at('2026-10-31'));
+
+    expect(itemsOnDay(items, new Date(2026, 9, 11))).toHaveLength(1);
+    expect(itemsOnDay(items, new Date(2026, 9, 12))).toHaveLength(0);
+  });
+
+  it('builds Monday-first month grids and weeks', () => {
+    const grid = getMonthGrid(new Date(2026, 9, 19));
+
+    expect(grid).toHaveLength(5);
+    expect(grid[0][0]).toEqual(new Date(2026, 8, 28));
+    expect(grid[4][6]).toEqual(new Date(2026, 10, 1));
+    expect(getWeekDays(new Date(2026, 9, 25))[0]).toEqual(new Date(2026, 9, 19));
+  });
+
+  it('matches the server window query for cached events', () => {
+    const from = at('2026-10-01');
+    const to = at('2026-10-31', '23:59');
+
+    expect(isInEventWindow(event({}), from, to)).toBe(true);
+    expect(isInEventWindow(event({ startAtMs: at('2026-11-02') }), from, to)).toBe(false);
+    expect(isInEventWindow(event({ startAtMs: at('2026-09-10'), endAtMs: at('2026-09-10', '11:00') }), from, to)).toBe(false);
+    expect(isInEventWindow(event({ startAtMs: at('2026-09-30'), endAtMs: at('2026-10-02') }), from, to)).toBe(true);
+    expect(isInEventWindow(event({ startAtMs: at('2026-01-05'), endAtMs: undefined, recurrence: 'weekly' }), from, to)).toBe(true);
+    expect(isInEventWindow(
+      event({ startAtMs: at('2026-01-05'), endAtMs: undefined, recurrence: 'weekly', recurrenceUntilMs: at('2026-09-01') }), from, to
+    )).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  differenceInCalendarYears,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import type { EtherealEvent, EtherealRecurrence, EtherealTask } from './etherealDb';
+
+/**
+ * Calendar model for the Ethereal room: expands recurring events into
+ * occurrences and places tasks with a due date next to them.
+ *
+ * Weeks start on Monday. Monthly and yearly repeats are counted from the
+ * original start, so an event on the 31st falls on the last day of shorter months.
+ */
+
+export type CalendarItem =
+  | { key: string; kind: 'event'; title: string; startMs: number; endMs: number; allDay: boolean; event: EtherealEvent }
+  | { key: string; kind: 'task'; title: string; startMs: number; endMs: number; allDay: true; task: EtherealTask };
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+const STEP: Record<Exclude<EtherealRecurrence, 'none'>, {
+  add: (date: Date, amount: number) => Date;
+  diff: (later: Date, earlier: Date) => number;
+}> = {
+  daily: { add: addDays, diff: differenceInCalendarDays },
+  weekly: { add: addWeeks, diff: (a, b) => differenceInCalendarWeeks(a, b, WEEK_OPTIONS) },
+  monthly: { add: addMonths, diff: differenceInCalendarMonths },
+  yearly: { add: addYears, diff: differenceInCalendarYears },
+};
+
+// Upper bound on occurrences per event and window, guards against a malformed series
+const MAX_OCCURRENCES = 1000;
+
+// End of an occurrence; all-day events without an end cover their start day
+function occurrenceEnd(event: EtherealEvent, startMs: number): number {
+  const duration = event.endAtMs !== undefined && event.endAtMs !== null
+    ? Math.max(0, event.endAtMs - event.startAtMs)
+    : 0;
+  return event.allDay ? endOfDay(startMs + duration).getTime() : startMs + duration;
+}
+
+/**
+ * Start times of the occurrences of an event that overlap [fromMs, toMs].
+ */
+export function expandEventOccurrences(event: EtherealEvent, fromMs: number, toMs: number): number[] {
+  const overlaps = (startMs: number) => startMs <= toMs && occurrenceEnd(event, startMs) >= fromMs;
+
+  if (!event.recurrence || event.recurrence === 'none') {
+    return overlaps(event.startAtMs) ? [event.startAtMs] : [];
+  }
+
+  const step = STEP[event.recurrence];
+  const origin = new Date(event.startAtMs);
+  const lastStartMs = Math.min(toMs, event.recurrenceUntilMs ? endOfDay(event.recurrenceUntilMs).getTime() : Infinity);
+
+  // Jump close to the window instead of walking the series from its first occurrence
+  const spanMs = occurrenceEnd(event, event.startAtMs) - event.startAtMs;
+  let index = Math.max(0, step.diff(new Date(fromMs - spanMs), origin) - 1);
+
+  const starts: number[] = [];
+  for (let guard = 0; guard < MAX_OCCURRENCES; guard++, index++) {
+    const startMs = step.add(origin, index).getTime();
+    if (startMs > lastStartMs) break;
+    if (overlaps(startMs)) starts.push(startMs);
+  }
+  return starts;
+}
+
+/**
+ * Whether an event belongs to a window query (ethereal_events?from&to), by the same rule
+ * as the server: it starts by the end of the window and touches it or repeats into it.
+ */
+export function isInEventWindow(event: EtherealEvent, fromMs: number, toMs: number): boolean {
+  if (event.startAtMs > toMs) return false;
+  if (event.startAtMs >= fromMs || (event.endAtMs ?? -Infinity) >= fromMs) return true;
+  return event.recurrence !== 'none' && (!event.recurrenceUntilMs || event.recurrenceUntilMs >= fromMs);
+}
+
+export function compareCalendarItems(a: CalendarItem, b: CalendarItem): number {
+  const dayDiff = startOfDay(a.startMs).getTime() - startOfDay(b.startMs).getTime();
+  if (dayDiff !== 0) return dayDiff;
+  if (a.allDay !== b.allDay) return a.allDay ? -1 : 1;
+  return a.startMs - b.startMs || a.title.localeCompare(b.title);
+}
+
+/**
+ * Events (expanded) and tasks with a due date that fall in [fromMs, toMs], sorted.
+ * Done tasks stay on the calendar so the day keeps its history.
+ */
+export function buildCalendarItems(
+  events: EtherealEvent[],
+  tasks: EtherealTask[],
+  fromMs: number,
+  toMs: number
+): CalendarItem[] {
+  const items: CalendarItem[] = [];
+
+  for (const event of events) {
+    for (const startMs of expandEventOccurrences(event, fromMs, toMs)) {
+      items.push({
+        key: `event-${event.serverId}-${startMs}`,
+        kind: 'event',
+        title: event.title,
+        startMs,
+        endMs: occurrenceEnd(event, startMs),
+        allDay: event.allDay,
+        event,
+      });
+    }
+  }
+
+  for (const task of tasks) {
+    if (!task.dueAtMs) continue;
+    const startMs = startOfDay(task.dueAtMs).getTime();
+    const endMs = endOfDay(task.dueAtMs).getTime();
+    if (startMs > toMs || endMs < fromMs) continue;
+    items.push({ key: `task-${task.serverId}`, kind: 'task', title: task.title, startMs, endMs, allDay: true, task });
+  }
+
+  return items.sort(compareCalendarItems);
+}
+
+export function itemsOnDay(items: CalendarItem[], day: Date): CalendarItem[] {
+  const fromMs = startOfDay(day).getTime();
+  const toMs = endOfDay(day).getTime();
+  return items.filter(item => item.startMs <= toMs && item.endMs >= fromMs);
+}
+
+// Full weeks covering the month, Monday first
+export function getMonthGrid(month: Date): Date[][] {
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), WEEK_OPTIONS),
+    end: endOfWeek(endOfMonth(month), WEEK_OPTIONS),
+  });
+  const weeks: Date[][] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push(days.slice(i, i + 7));
+  }
+  return weeks;
+}
+
+export function getWeekDays(day: Date): Date[] {
+  return eachDayOfInterval({ start: startOfWeek(day, WEEK_OPTIONS), end: endOfWeek(day, WEEK_OPTIONS) });
+}
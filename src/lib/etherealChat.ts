@@ -0,0 +1,8 @@
+/**
+ * Ethereal chat limits and presets shared by the chat screen and its components.
+ */
+
+// Longest message text; the ethereal_messages function enforces the same limit on send and edit
+export const MAX_MESSAGE_LENGTH = 4000;
+
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'] as const;
@@ -0,0 +1,69 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { etherealDb, type EtherealMessage } from './etherealDb';
+import { searchEtherealMessages } from './etherealChatSearch';
+
+const ROOM = 'room-1';
+
+function message(serverId: string, content: string, createdAtMs: number, overrides: Partial<EtherealMessage> = {}): EtherealMessage {
+  return {
+    serverId,
+    roomId: ROOM,
+    senderId: 'member-1',
+    senderName: 'Anna',
+    content,
+    createdAtMs,
+    syncStatus: 'synced',
+    ...overrides,
+  };
+}
+
+describe('searchEtherealMessages', () => {
+  beforeEach(async () => {
+    await etherealDb.messages.clear();
+  });
+
+  it('requires every word, matches word forms and returns newest first', async () => {
+    await etherealDb.messages.bulkPut([
+      message('m1', 'Встреча в кафе завтра', 1000),
+      message('m2', 'Перенесём встречу в кафе?', 2000),
+      message('m3', 'Встреча отменена', 3000),
+      message('m4', 'Встреча в кафе', 4000, { roomId: 'room-2' }),
+    ]);
+
+    const results = await searchEtherealMessages(ROOM, 'встреча кафе');
+
+    expect(results.map((r) => r.message.serverId)).toEqual(['m2', 'm1']);
+    expect(results[0].snippet.filter((s) => s.highlight).map((s) => s.text)).toEqual(['встречу', 'кафе']);
+  });
+
+  it('treats a half-typed last word as a prefix', async () => {
+    await etherealDb.messages.bulkPut([
+      message('m1', 'Buy groceries tonight', 1000),
+      message('m2', 'Groom the dog', 2000),
+    ]);
+
+    expect((await searchEtherealMessages(ROOM, 'groc')).map((r) => r.message.serverId)).toEqual(['m1']);
+    expect(await searchEtherealMessages(ROOM, 'groc ')).toEqual([]);
+  });
+
+  it('skips deleted messages and queries made only of stop words', async () => {
+    await etherealDb.messages.bulkPut([
+      message('m1', 'Secret plan', 1000, { deletedAtMs: 1500 }),
+      message('m2', 'The plan is on', 2000),
+    ]);
+
+    expect((await searchEtherealMessages(ROOM, 'plan')).map((r) => r.message.serverId)).toEqual(['m2']);
+    expect(await searchEtherealMessages(ROOM, 'the is')).toEqual([]);
+  });
+
+  it('stops at the limit', async () => {
+    await etherealDb.messages.bulkPut(
+      Array.from({ length: 5 }, (_, i) => message(`m${i}`, `note ${i}`, i * 1000))
+    );
+
+    const results = await searchEtherealMessages(ROOM, 'note', 2);
+
+    expect(results.map((r) => r.message.serverId)).toEqual(['m4', 'm3']);
+  });
+});
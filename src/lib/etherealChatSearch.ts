@@ -0,0 +1,66 @@
+/**
+ * Local search over Ethereal chat messages cached in etherealDb.
+ *
+ * Uses the diary's text analysis, so word forms meet ("встреча" finds "встречу")
+ * and the last word is matched as a prefix while the user is still typing.
+ * Only what this device has cached is searchable; older history has to be
+ * paged in first.
+ */
+
+import { etherealDb, type EtherealMessage } from './etherealDb';
+import { analyzeText, type AnalyzedToken } from './search/textAnalysis';
+import { buildHighlightedSnippet, type SnippetSegment } from './search/searchIndex';
+
+export interface ChatSearchResult {
+  message: EtherealMessage;
+  snippet: SnippetSegment[];
+}
+
+const DEFAULT_LIMIT = 50;
+
+function createMatcher(query: string): ((token: AnalyzedToken) => boolean)[] | null {
+  const terms = analyzeText(query);
+  if (terms.length === 0) return null;
+
+  // A half-typed last word is compared by its raw form: stemming "встре" gives nothing useful
+  const last = terms[terms.length - 1];
+  const endsWithWord = !/\s$/.test(query);
+  return terms.map((queryToken) =>
+    endsWithWord && queryToken === last
+      ? (token: AnalyzedToken) => token.term === queryToken.term || token.raw.startsWith(queryToken.raw)
+      : (token: AnalyzedToken) => token.term === queryToken.term
+  );
+}
+
+/**
+ * Messages of a room containing every word of the query, newest first.
+ */
+export async function searchEtherealMessages(
+  roomId: string,
+  query: string,
+  limit: number = DEFAULT_LIMIT
+): Promise<ChatSearchResult[]> {
+  const matchers = createMatcher(query);
+  if (!matchers) return [];
+
+  const isHighlighted = (token: AnalyzedToken) => matchers.some((match) => match(token));
+  const results: ChatSearchResult[] = [];
+
+  // Newest first through the compound index, stopping once the page is full
+  await etherealDb.messages
+    .where('[roomId+createdAtMs]')
+    .between([roomId, -Infinity], [roomId, Infinity])
+    .reverse()
+    .until(() => results.length >= limit)
+    .each((message) => {
+      if (message.deletedAtMs || !message.content) return;
+
+      const tokens = analyzeText(message.content);
+      if (!matchers.every((match) => tokens.some(match))) return;
+
+      const snippet = buildHighlightedSnippet(message.content, isHighlighted);
+      if (snippet) results.push({ message, snippet });
+    });
+
+  return results;
+}
@@ -0,0 +1,99 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  etherealDb,
+  mergeMessages,
+  mergeServerMessage,
+  patchMessage,
+  type EtherealMessage,
+  type ServerMessage,
+} from './etherealDb';
+
+const ROOM = 'room-1';
+
+function serverMessage(serverId: string, overrides: Partial<ServerMessage> = {}): ServerMessage {
+  return {
+    serverId,
+    senderId: 'member-1',
+    senderName: 'Anna',
+    content: 'Ahoy',
+    createdAtMs: 1000,
+    updatedAtMs: 1000,
+    reactions: [],
+    ...overrides,
+  };
+}
+
+function localMessage(serverId: string, overrides: Partial<EtherealMessage> = {}): EtherealMessage {
+  return {
+    serverId,
+    roomId: ROOM,
+    senderId: 'member-1',
+    senderName: 'Anna',
+    content: 'Ahoy',
+    createdAtMs: 1000,
+    syncStatus: 'synced',
+    updatedAtMs: 1000,
+    ...overrides,
+  };
+}
+
+describe('mergeServerMessage', () => {
+  it('normalizes server nulls to undefined', () => {
+    const merged = mergeServerMessage(undefined, serverMessage('m1', { imagePath: null, editedAtMs: null }), ROOM);
+    expect(merged.imagePath).toBeUndefined();
+    expect(merged.editedAtMs).toBeUndefined();
+    expect(merged.roomId).toBe(ROOM);
+  });
+
+  it('keeps a newer local edit over a stale server copy', () => {
+    const local = localMessage('m1', { content: 'Ahoy, crew', editedAtMs: 2000, updatedAtMs: 2000 });
+    const merged = mergeServerMessage(local, serverMessage('m1', { imageUrl: 'https://signed/new' }), ROOM);
+    expect(merged.content).toBe('Ahoy, crew');
+    expect(merged.imageUrl).toBe('https://signed/new');
+  });
+
+  it('never undoes a delete', () => {
+    const local = localMessage('m1', { content: '', deletedAtMs: 500, updatedAtMs: 500 });
+    const merged = mergeServerMessage(local, serverMessage('m1', { updatedAtMs: 3000 }), ROOM);
+    expect(merged.deletedAtMs).toBe(500);
+    expect(merged.content).toBe('');
+  });
+});
+
+describe('patchMessage', () => {
+  beforeEach(async () => {
+    await etherealDb.messages.clear();
+  });
+
+  it('drops patches older than the local state', async () => {
+    await etherealDb.messages.put(localMessage('m1', { content: 'Newest', updatedAtMs: 5000 }));
+    expect(await patchMessage('m1', { content: 'Older', updatedAtMs: 4000 })).toBeNull();
+    expect((await etherealDb.messages.get('m1'))?.content).toBe('Newest');
+  });
+
+  it('clears a deleted message and marks replies quoting it', async () => {
+    await etherealDb.messages.bulkPut([
+      localMessage('m1', { imagePath: 'room-1/m1.jpg', reactions: [{ emoji: '👍', memberIds: ['member-2'] }] }),
+      localMessage('m2', {
+        replyToId: 'm1',
+        replyPreview: { serverId: 'm1', senderName: 'Anna', content: 'Ahoy', hasImage: true, deleted: false },
+      }),
+    ]);
+
+    const deleted = await patchMessage('m1', { deletedAtMs: 2000, updatedAtMs: 2000 });
+
+    expect(deleted).toMatchObject({ content: '', deletedAtMs: 2000, reactions: [] });
+    expect(deleted?.imagePath).toBeUndefined();
+    expect((await etherealDb.messages.get('m2'))?.replyPreview).toMatchObject({ deleted: true, content: '' });
+  });
+
+  it('lets history merges keep realtime patches that arrived first', async () => {
+    await etherealDb.messages.put(localMessage('m1'));
+    await patchMessage('m1', { reactions: [{ emoji: '❤️', memberIds: ['member-2'] }], updatedAtMs: 3000 });
+
+    const [merged] = await mergeMessages(ROOM, [serverMessage('m1', { updatedAtMs: 1000 })]);
+
+    expect(merged.reactions).toEqual([{ emoji: '❤️', memberIds: ['member-2'] }]);
+  });
+});
@@ -10,6 +10,7 @@
  * - tasks: Shared todo items
  * - events: Shared calendar events
  * - members: Cached member info
+ * - outbox: Mutations waiting to reach the server (see etherealOutbox.ts)
  *
  * SECURITY NOTES:
  * 1. All data here mirrors server state - source of truth is Supabase
@@ -26,6 +27,8 @@
  * - v3: Added image fields to messages
  * - v4: Chronicles with serverId as primary key
  * - v5-v6: Tasks table recreation with serverId as primary key
+ * - v7-v8: Events table recreation with serverId as primary key (+ recurrence)
+ * - v9: Outbox for offline mutations
  *
  * @see src/lib/db.ts - Main application database (DaybookDB)
  * @see src/lib/etherealTokenService.ts - Session management
@@ -33,6 +36,20 @@
 
 import Dexie, { type EntityTable } from 'dexie';
 
+// Quoted original shown above a reply
+export interface EtherealReplyPreview {
+  serverId: string;
+  senderName: string;
+  content: string;       // first 120 chars
+  hasImage: boolean;
+  deleted: boolean;
+}
+
+export interface EtherealReaction {
+  emoji: string;
+  memberIds: string[];
+}
+
 // Ethereal message stored locally
 export interface EtherealMessage {
   serverId: string; // PRIMARY KEY
@@ -41,13 +58,20 @@ export interface EtherealMessage {
   senderName: string;
   content: string;
   createdAtMs: number;
-  syncStatus: 'synced' | 'failed';
+  syncStatus: 'pending' | 'synced' | 'failed';
   // Image fields (Phase 1)
   imagePath?: string;    // stable path: roomId/msgId.jpg
   imageUrl?: string;     // transient signed URL (30 min TTL)
   imageMime?: string;
   imageW?: number;
   imageH?: number;
+  // Replies, reactions, edits (not indexed, no schema bump)
+  replyToId?: string;
+  replyPreview?: EtherealReplyPreview;
+  reactions?: EtherealReaction[];
+  editedAtMs?: number;
+  deletedAtMs?: number;  // deleted for everyone; content and image are cleared
+  updatedAtMs?: number;  // bumped by every server-side change
 }
 
 // Ethereal chronicle entry
@@ -91,10 +115,12 @@ export interface EtherealTask {
   syncStatus: 'pending' | 'synced';
 }
 
-// Ethereal calendar event
+export type EtherealRecurrence = 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Ethereal calendar event (v8: serverId as primary key)
+// A recurring event is stored once; occurrences are expanded on the client
 export interface EtherealEvent {
-  id?: number;
-  serverId: string;
+  serverId: string;       // PRIMARY KEY
   roomId: string;
   creatorId: string;
   creatorName: string;
@@ -103,11 +129,43 @@ export interface EtherealEvent {
   startAtMs: number;
   endAtMs?: number;
   allDay: boolean;
+  recurrence: EtherealRecurrence;
+  recurrenceUntilMs?: number;
   createdAtMs: number;
   updatedAtMs: number;
   syncStatus: 'pending' | 'synced';
 }
 
+export type EtherealOutboxKind =
+  | 'message_send'
+  | 'task_create'
+  | 'task_update'
+  | 'task_toggle'
+  | 'task_delete'
+  | 'chronicle_create'
+  | 'chronicle_update';
+
+// Mutation queued while offline, replayed in id order
+export interface EtherealOutboxItem {
+  id?: number;
+  idempotencyKey: string;  // sent as x-idempotency-key on every attempt
+  roomId: string;
+  kind: EtherealOutboxKind;
+  fn: 'ethereal_messages' | 'ethereal_tasks' | 'ethereal_chronicles';
+  method: 'POST' | 'PUT' | 'DELETE';
+  targetId?: string;       // serverId addressed; a local id until its create is synced
+  action?: string;         // trailing path segment, e.g. 'toggle'
+  localId?: string;        // placeholder record created by this item
+  body?: Record<string, unknown>;
+  image?: Blob;
+  label: string;           // short text for retry/discard controls
+  status: 'pending' | 'failed';
+  attempts: number;        // server errors only; network failures just wait
+  lastAttempt?: number;
+  errorMessage?: string;
+  createdAtMs: number;
+}
+
 // Ethereal member cache
 export interface EtherealMember {
   id: string;
@@ -136,9 +194,10 @@ class EtherealDatabase extends Dexie {
   messages!: EntityTable<EtherealMessage, 'serverId'>;
   chronicles!: EntityTable<EtherealChronicle, 'serverId'>;
   tasks!: EntityTable<EtherealTask, 'serverId'>;
-  events!: EntityTable<EtherealEvent, 'id'>;
+  events!: EntityTable<EtherealEvent, 'serverId'>;
   members!: EntityTable<EtherealMember, 'id'>;
   settings!: EntityTable<EtherealSettings, 'key'>;
+  outbox!: EntityTable<EtherealOutboxItem, 'id'>;
 
   constructor() {
     super('MagicNotebookEtherealDB');
@@ -294,32 +353,166 @@ class EtherealDatabase extends Dexie {
       members: 'id, roomId, joinedAtMs',
       settings: 'key',
     });
+
+    // v7 - DELETE old events table (same primary key change as tasks in v5)
+    this.version(7).stores({
+      messages: 'serverId, roomId, createdAtMs, [roomId+createdAtMs]',
+      chronicles: 'serverId, roomId, updatedAtMs, pinned, [roomId+updatedAtMs]',
+      tasks: 'serverId, roomId, status, dueAtMs, updatedAtMs, [roomId+status]',
+      events: null,  // DELETE the table
+      members: 'id, roomId, joinedAtMs',
+      settings: 'key',
+    });
+
+    // v8 - CREATE new events table with serverId as primary key
+    this.version(8).stores({
+      messages: 'serverId, roomId, createdAtMs, [roomId+createdAtMs]',
+      chronicles: 'serverId, roomId, updatedAtMs, pinned, [roomId+updatedAtMs]',
+      tasks: 'serverId, roomId, status, dueAtMs, updatedAtMs, [roomId+status]',
+      events: 'serverId, roomId, startAtMs, updatedAtMs',
+      members: 'id, roomId, joinedAtMs',
+      settings: 'key',
+    });
+
+    // v9 - outbox for mutations made while offline
+    this.version(9).stores({
+      messages: 'serverId, roomId, createdAtMs, [roomId+createdAtMs]',
+      chronicles: 'serverId, roomId, updatedAtMs, pinned, [roomId+updatedAtMs]',
+      tasks: 'serverId, roomId, status, dueAtMs, updatedAtMs, [roomId+status]',
+      events: 'serverId, roomId, startAtMs, updatedAtMs',
+      members: 'id, roomId, joinedAtMs',
+      settings: 'key',
+      outbox: '++id, roomId, status, targetId',
+    });
   }
 }
 
 export const etherealDb = new EtherealDatabase();
 
 // Helper to merge messages from server (upsert by serverId)
+// Message as sent by the edge function (nulls for empty optional fields)
+export interface ServerMessage {
+  serverId: string;
+  senderId: string;
+  senderName: string;
+  content: string;
+  createdAtMs: number;
+  imagePath?: string | null;
+  imageUrl?: string | null;
+  imageMime?: string | null;
+  imageW?: number | null;
+  imageH?: number | null;
+  replyToId?: string | null;
+  replyPreview?: EtherealReplyPreview | null;
+  reactions?: EtherealReaction[];
+  editedAtMs?: number | null;
+  deletedAtMs?: number | null;
+  updatedAtMs?: number | null;
+}
+
+export type MessagePatch = Partial<Pick<
+  EtherealMessage,
+  'content' | 'reactions' | 'editedAtMs' | 'deletedAtMs' | 'imagePath' | 'imageUrl'
+>> & { updatedAtMs: number };
+
+/**
+ * Resolve a server copy against the local one. Realtime patches can arrive
+ * before a history request that started earlier, so the newer updatedAtMs
+ * wins, and a delete is never undone.
+ */
+export function mergeServerMessage(
+  local: EtherealMessage | undefined,
+  server: ServerMessage,
+  roomId: string
+): EtherealMessage {
+  const incoming: EtherealMessage = {
+    serverId: server.serverId,
+    roomId,
+    senderId: server.senderId,
+    senderName: server.senderName,
+    content: server.content,
+    createdAtMs: server.createdAtMs,
+    syncStatus: 'synced',
+    imagePath: server.imagePath ?? undefined,
+    imageUrl: server.imageUrl ?? undefined,
+    imageMime: server.imageMime ?? undefined,
+    imageW: server.imageW ?? undefined,
+    imageH: server.imageH ?? undefined,
+    replyToId: server.replyToId ?? undefined,
+    replyPreview: server.replyPreview ?? undefined,
+    reactions: server.reactions ?? [],
+    editedAtMs: server.editedAtMs ?? undefined,
+    deletedAtMs: server.deletedAtMs ?? undefined,
+    updatedAtMs: server.updatedAtMs ?? server.createdAtMs,
+  };
+
+  if (!local) return incoming;
+
+  if (local.deletedAtMs && !incoming.deletedAtMs) {
+    return { ...incoming, ...deletedFields(local.deletedAtMs), updatedAtMs: local.updatedAtMs };
+  }
+
+  if ((local.updatedAtMs ?? 0) > (incoming.updatedAtMs ?? 0)) {
+    // Keep the newer local state; the server still refreshes the signed image URL
+    return { ...local, imageUrl: incoming.imageUrl ?? local.imageUrl };
+  }
+
+  return incoming;
+}
+
+function deletedFields(deletedAtMs: number): MessagePatch {
+  return {
+    content: '',
+    imagePath: undefined,
+    imageUrl: undefined,
+    reactions: [],
+    deletedAtMs,
+    updatedAtMs: deletedAtMs,
+  };
+}
+
+/**
+ * Apply an edit, delete or reaction change. Returns the updated message, or
+ * null when it is unknown locally or the patch is older than what we have.
+ */
+export async function patchMessage(serverId: string, patch: MessagePatch): Promise<EtherealMessage | null> {
+  return etherealDb.transaction('rw', etherealDb.messages, async () => {
+    const local = await etherealDb.messages.get(serverId);
+    if (!local || (local.updatedAtMs ?? 0) > patch.updatedAtMs) return null;
+    if (local.deletedAtMs && !patch.deletedAtMs) return null;
+
+    const updated: EtherealMessage = {
+      ...local,
+      ...(patch.deletedAtMs ? deletedFields(patch.deletedAtMs) : patch),
+    };
+    await etherealDb.messages.put(updated);
+
+    // Replies quoting a deleted message show it as deleted
+    if (patch.deletedAtMs) {
+      await etherealDb.messages
+        .where('roomId')
+        .equals(local.roomId)
+        .filter((m) => m.replyToId === serverId)
+        .modify((m) => {
+          if (m.replyPreview) m.replyPreview = { ...m.replyPreview, content: '', hasImage: false, deleted: true };
+        });
+    }
+    return updated;
+  });
+}
+
 export async function mergeMessages(
   roomId: string,
-  serverMessages: Array<{
-    serverId: string;
-    senderId: string;
-    senderName: string;
-    content: string;
-    createdAtMs: number;
-  }>
+  serverMessages: ServerMessage[]
 ): Promise<EtherealMessage[]> {
   if (serverMessages.length > 0) {
-    // Prepare messages for upsert
-    const toUpsert: EtherealMessage[] = serverMessages.map((msg) => ({
-      ...msg,
-      roomId,
-      syncStatus: 'synced' as const,
-    }));
-
-    // bulkPut = upsert by primary key (serverId)
-    await etherealDb.messages.bulkPut(toUpsert);
+    await etherealDb.transaction('rw', etherealDb.messages, async () => {
+      const locals = await etherealDb.messages.bulkGet(serverMessages.map((m) => m.serverId));
+      const merged = serverMessages.map((msg, i) => mergeServerMessage(locals[i], msg, roomId));
+
+      // bulkPut = upsert by primary key (serverId)
+      await etherealDb.messages.bulkPut(merged);
+    });
   }
 
   // Return all messages sorted with stable sort
@@ -336,5 +529,6 @@ export async function clearEtherealData(): Promise<void> {
     etherealDb.events.clear(),
     etherealDb.members.clear(),
     etherealDb.settings.clear(),
+    etherealDb.outbox.clear(),
   ]);
 }
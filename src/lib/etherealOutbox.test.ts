@@ -0,0 +1,208 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { etherealDb, type EtherealTask } from './etherealDb';
+import { setEtherealSession, clearEtherealSession } from './etherealTokenService';
+import {
+  submitEtherealMutation,
+  flushEtherealOutbox,
+  discardOutboxItem,
+  retryOutboxItem,
+  createLocalId,
+  isLocalId,
+  type OutboxDraft,
+} from './etherealOutbox';
+
+const fetchMock = vi.fn();
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function serverTask(serverId: string, overrides: Partial<EtherealTask> = {}): Omit<EtherealTask, 'syncStatus'> {
+  return {
+    serverId,
+    roomId: 'room-1',
+    creatorId: 'member-1',
+    creatorName: 'Anna',
+    title: 'Check the sails',
+    status: 'todo',
+    priority: 'normal',
+    createdAtMs: 1000,
+    updatedAtMs: 1000,
+    ...overrides,
+  };
+}
+
+function placeholderTask(serverId: string): EtherealTask {
+  return { ...serverTask(serverId), syncStatus: 'pending' };
+}
+
+function setOnline(online: boolean) {
+  vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+}
+
+const createDraft = (localId: string): OutboxDraft => ({
+  kind: 'task_create',
+  fn: 'ethereal_tasks',
+  method: 'POST',
+  localId,
+  body: { title: 'Check the sails' },
+  label: 'Check the sails',
+});
+
+const toggleDraft = (taskId: string): OutboxDraft => ({
+  kind: 'task_toggle',
+  fn: 'ethereal_tasks',
+  method: 'POST',
+  targetId: taskId,
+  action: 'toggle',
+  label: 'Check the sails',
+});
+
+function requestOf(call: unknown[]) {
+  const [url, init] = call as [string, RequestInit];
+  return { url, method: init.method, key: (init.headers as Record<string, string>)['x-idempotency-key'] };
+}
+
+describe('etherealOutbox', () => {
+  beforeEach(async () => {
+    setEtherealSession({
+      token: 'token-1',
+      roomId: 'room-1',
+      memberId: 'member-1',
+      channelKey: 'channel-1',
+      expiresAt: Date.now() + 60_000,
+      isOwner: false,
+      displayName: 'Anna',
+    });
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    await Promise.all([etherealDb.outbox.clear(), etherealDb.tasks.clear()]);
+  });
+
+  afterEach(async () => {
+    await flushEtherealOutbox();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    clearEtherealSession();
+  });
+
+  it('queues offline changes and replays them in order, re-targeting local ids', async () => {
+    setOnline(false);
+    const localId = createLocalId();
+    expect(isLocalId(localId)).toBe(true);
+
+    const created = await submitEtherealMutation(createDraft(localId), {
+      onQueued: async () => { await etherealDb.tasks.put(placeholderTask(localId)); },
+    });
+    const toggled = await submitEtherealMutation(toggleDraft(localId));
+
+    expect(created.status).toBe('queued');
+    expect(toggled.status).toBe('queued');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const queued = await etherealDb.outbox.orderBy('id').toArray();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ success: true, task: serverTask('task-1') }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, task: serverTask('task-1', { status: 'done' }) }));
+
+    setOnline(true);
+    await flushEtherealOutbox();
+
+    const [create, toggle] = fetchMock.mock.calls.map(requestOf);
+    expect(create.url).toMatch(/\/ethereal_tasks$/);
+    expect(create.key).toBe(queued[0].idempotencyKey);
+    expect(toggle.url).toMatch(/\/ethereal_tasks\/task-1\/toggle$/);
+    expect(toggle.key).toBe(queued[1].idempotencyKey);
+
+    expect(await etherealDb.tasks.get(localId)).toBeUndefined();
+    expect((await etherealDb.tasks.get('task-1'))?.status).toBe('done');
+    expect(await etherealDb.outbox.count()).toBe(0);
+  });
+
+  it('queues a direct send that fails in transit and retries it with the same key', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    const localId = createLocalId();
+
+    // The background replay right after queueing hits the network again
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    const result = await submitEtherealMutation(createDraft(localId));
+    await flushEtherealOutbox();
+
+    expect(result.status).toBe('queued');
+    expect(await etherealDb.outbox.count()).toBe(1);
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ success: true, task: serverTask('task-1') }));
+    await flushEtherealOutbox();
+
+    const keys = fetchMock.mock.calls.map((call) => requestOf(call).key);
+    expect(keys).toHaveLength(3);
+    expect(new Set(keys).size).toBe(1);
+    expect(await etherealDb.outbox.count()).toBe(0);
+  });
+
+  it('marks rejected items failed and discards a create with its dependents', async () => {
+    setOnline(false);
+    const localId = createLocalId();
+    await submitEtherealMutation(createDraft(localId), {
+      onQueued: async () => { await etherealDb.tasks.put(placeholderTask(localId)); },
+    });
+    await submitEtherealMutation(toggleDraft(localId));
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ success: false, error: 'title_required' }, 400));
+    setOnline(true);
+    await flushEtherealOutbox();
+
+    const [failed, waiting] = await etherealDb.outbox.orderBy('id').toArray();
+    expect(failed.status).toBe('failed');
+    expect(failed.errorMessage).toBe('title_required');
+    // The toggle cannot go out before its task exists
+    expect(waiting.status).toBe('pending');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await discardOutboxItem(failed.id!);
+
+    expect(await etherealDb.outbox.count()).toBe(0);
+    expect(await etherealDb.tasks.get(localId)).toBeUndefined();
+  });
+
+  it('waits for a run still in progress without counting it as an attempt', async () => {
+    setOnline(false);
+    await submitEtherealMutation(toggleDraft('task-1'));
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'idempotency_key_in_progress' }, 503));
+    setOnline(true);
+    await flushEtherealOutbox();
+
+    const [item] = await etherealDb.outbox.toArray();
+    expect(item).toMatchObject({ status: 'pending', attempts: 0, errorMessage: 'idempotency_key_in_progress' });
+    setOnline(false);
+  });
+
+  it('counts server errors, stops the replay and resets on retry', async () => {
+    setOnline(false);
+    await submitEtherealMutation(toggleDraft('task-1'));
+    await submitEtherealMutation(toggleDraft('task-2'));
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'internal' }, 503));
+    setOnline(true);
+    await flushEtherealOutbox();
+
+    const [first, second] = await etherealDb.outbox.orderBy('id').toArray();
+    expect(first.attempts).toBe(1);
+    expect(first.status).toBe('pending');
+    expect(second.attempts).toBe(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ success: true, task: serverTask('task-1', { status: 'done' }) }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, task: serverTask('task-2', { status: 'done' }) }));
+    await retryOutboxItem(first.id!);
+
+    expect(await etherealDb.outbox.count()).toBe(0);
+    expect((await etherealDb.tasks.get('task-2'))?.status).toBe('done');
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * ETHEREAL OUTBOX
+ * ===============
+ *
+ * Mutations (messages, tasks, chronicles) that could not reach the server are
+ * stored in etherealDb.outbox and replayed in order once the network or the
+ * room session is back.
+ *
+ * - Every mutation gets an idempotency key when it is first attempted. The same
+ *   key is sent on every retry (x-idempotency-key), so a request whose response
+ *   was lost is not applied twice by the edge function.
+ * - Creates made while offline get a placeholder record with a local id
+ *   ('local-…'). When the create syncs, the placeholder is replaced by the
+ *   server record and queued items addressing the local id are re-targeted.
+ * - Items the server rejects (4xx) or that keep failing are marked 'failed' and
+ *   wait for the user to retry or discard them.
+ *
+ * Replays happen outside of the page hooks; they learn about results through
+ * the OUTBOX_SYNCED_EVENT / OUTBOX_DISCARDED_EVENT window events.
+ */
+
+import {
+  getEtherealSession,
+  getEtherealApiHeaders,
+  clearEtherealSession,
+} from './etherealTokenService';
+import {
+  etherealDb,
+  type EtherealChronicle,
+  type EtherealMessage,
+  type EtherealOutboxItem,
+  type EtherealOutboxKind,
+  type EtherealTask,
+} from './etherealDb';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+// Server errors tolerated per item before it is marked failed
+const MAX_ATTEMPTS = 5;
+
+// 503 while an earlier request with the same key is still running: not a failure
+const IDEMPOTENCY_IN_PROGRESS = 'idempotency_key_in_progress';
+
+export const OUTBOX_SYNCED_EVENT = 'ethereal-outbox-synced';
+export const OUTBOX_DISCARDED_EVENT = 'ethereal-outbox-discarded';
+
+export type OutboxRecord = EtherealMessage | EtherealTask | EtherealChronicle;
+
+export interface OutboxSyncedDetail {
+  item: EtherealOutboxItem;
+  record?: OutboxRecord;   // server version; absent for deletes
+}
+
+export interface OutboxDiscardedDetail {
+  item: EtherealOutboxItem;
+}
+
+export type OutboxDraft = Pick<
+  EtherealOutboxItem,
+  'kind' | 'fn' | 'method' | 'targetId' | 'action' | 'localId' | 'body' | 'image' | 'label'
+>;
+
+// Success bodies of the edge functions, per mutation kind
+export interface MessageSentData {
+  id: string;
+  createdAtMs: number;
+  content?: string;          // As stored (trimmed); absent in responses stored by older versions
+  senderName?: string;
+  imagePath?: string | null;
+  imageUrl?: string | null;
+  replyToId?: string | null;
+  replyPreview?: EtherealMessage['replyPreview'] | null;
+  updatedAtMs?: number;
+}
+
+export interface TaskSentData {
+  task: Omit<EtherealTask, 'syncStatus'>;
+}
+
+export interface ChronicleSentData {
+  chronicle: Omit<EtherealChronicle, 'syncStatus'>;
+}
+
+export interface OutboxSentData {
+  message_send: MessageSentData;
+  task_create: TaskSentData;
+  task_update: TaskSentData;
+  task_toggle: TaskSentData;
+  task_delete: { taskId: string };
+  chronicle_create: ChronicleSentData;
+  chronicle_update: ChronicleSentData;
+}
+
+export type SubmitResult<T = unknown> =
+  | { status: 'sent'; data: T }
+  | { status: 'queued' }
+  | { status: 'rejected'; error: string }
+  | { status: 'session_expired' };
+
+interface ResponseBody {
+  success?: boolean;
+  error?: string;
+}
+
+type SendOutcome =
+  | { outcome: 'ok'; data: ResponseBody }
+  | { outcome: 'offline' }
+  | { outcome: 'server_error'; error: string }
+  | { outcome: 'rejected'; error: string }
+  | { outcome: 'session_expired' };
+
+const LOCAL_ID_PREFIX = 'local-';
+
+export function createLocalId(): string {
+  return `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+export function isLocalId(id: string | undefined): boolean {
+  return !!id && id.startsWith(LOCAL_ID_PREFIX);
+}
+
+function expireSession() {
+  clearEtherealSession();
+  window.dispatchEvent(new CustomEvent('ethereal-session-expired'));
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+async function sendItem(item: EtherealOutboxItem): Promise<SendOutcome> {
+  const path = [item.fn, item.targetId, item.action].filter(Boolean).join('/');
+  const headers: Record<string, string> = {
+    ...getEtherealApiHeaders(),
+    'x-idempotency-key': item.idempotencyKey,
+  };
+
+  let body: BodyInit | undefined;
+  if (item.image) {
+    // Browser sets the multipart boundary
+    delete headers['Content-Type'];
+    const formData = new FormData();
+    for (const [field, value] of Object.entries(item.body ?? {})) {
+      if (value !== undefined && value !== null) formData.append(field, String(value));
+    }
+    formData.append('image', item.image, 'photo.jpg');
+    body = formData;
+  } else if (item.body) {
+    body = JSON.stringify(item.body);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${SUPABASE_URL}/functions/v1/${path}`, { method: item.method, headers, body });
+  } catch {
+    return { outcome: 'offline' };
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return { outcome: 'session_expired' };
+  }
+
+  const data: ResponseBody = await response.json().catch(() => ({}));
+
+  // Deleting something that is already gone is what we wanted
+  if (response.status === 404 && item.method === 'DELETE') {
+    return { outcome: 'ok', data };
+  }
+  if (response.status >= 500 || response.status === 408 || response.status === 429) {
+    return { outcome: 'server_error', error: data.error || `http_${response.status}` };
+  }
+  if (!response.ok || data.success === false) {
+    return { outcome: 'rejected', error: data.error || `http_${response.status}` };
+  }
+  return { outcome: 'ok', data };
+}
+
+// Has this room got queued work that a new mutation must not overtake?
+async function hasPendingItems(roomId: string): Promise<boolean> {
+  const count = await etherealDb.outbox
+    .where('roomId')
+    .equals(roomId)
+    .filter((item) => item.status === 'pending')
+    .count();
+  return count > 0;
+}
+
+/**
+ * Send a mutation now, or queue it when offline, behind other queued work, or
+ * when the request fails in transit. `onQueued` runs before the item is stored,
+ * so placeholders exist by the time a replay reconciles them.
+ */
+export async function submitEtherealMutation<K extends EtherealOutboxKind>(
+  draft: OutboxDraft & { kind: K },
+  options: { onQueued?: () => Promise<void> } = {}
+): Promise<SubmitResult<OutboxSentData[K]>> {
+  const session = getEtherealSession();
+  if (!session) return { status: 'rejected', error: 'no_session' };
+
+  const item: EtherealOutboxItem = {
+    ...draft,
+    idempotencyKey: crypto.randomUUID(),
+    roomId: session.roomId,
+    status: 'pending',
+    attempts: 0,
+    createdAtMs: Date.now(),
+  };
+
+  const mustQueue = !isOnline() || isLocalId(draft.targetId) || (await hasPendingItems(session.roomId));
+
+  if (!mustQueue) {
+    const result = await sendItem(item);
+    if (result.outcome === 'ok') return { status: 'sent', data: result.data as OutboxSentData[K] };
+    if (result.outcome === 'rejected') return { status: 'rejected', error: result.error };
+    if (result.outcome === 'session_expired') {
+      expireSession();
+      return { status: 'session_expired' };
+    }
+    // offline or server error: keep the same key and let the outbox retry
+  }
+
+  await options.onQueued?.();
+  await etherealDb.outbox.add(item);
+  console.log('[Outbox] queued', item.kind, item.label);
+
+  void flushEtherealOutbox();
+  return { status: 'queued' };
+}
+
+// Write the server version over the placeholder / optimistic local record
+async function reconcile(item: EtherealOutboxItem, body: ResponseBody): Promise<OutboxRecord | undefined> {
+  if (item.fn === 'ethereal_messages') {
+    const data = body as MessageSentData;
+    const session = getEtherealSession();
+    const message: EtherealMessage = {
+      serverId: data.id,
+      roomId: item.roomId,
+      senderId: session?.memberId ?? '',
+      senderName: data.senderName || session?.displayName || '',
+      content: data.content ?? String(item.body?.content ?? '').trim(),
+      createdAtMs: data.createdAtMs,
+      syncStatus: 'synced',
+      imagePath: data.imagePath || undefined,
+      imageUrl: data.imageUrl || undefined,
+      replyToId: data.replyToId || undefined,
+      replyPreview: data.replyPreview || undefined,
+      reactions: [],
+      updatedAtMs: data.updatedAtMs ?? data.createdAtMs,
+    };
+    await etherealDb.transaction('rw', etherealDb.messages, async () => {
+      if (item.localId) await etherealDb.messages.delete(item.localId);
+      await etherealDb.messages.put(message);
+    });
+    return message;
+  }
+
+  if (item.fn === 'ethereal_tasks') {
+    if (item.kind === 'task_delete') return undefined;
+    const task: EtherealTask = { ...(body as TaskSentData).task, syncStatus: 'synced' };
+    await etherealDb.transaction('rw', etherealDb.tasks, async () => {
+      if (item.localId) await etherealDb.tasks.delete(item.localId);
+      await etherealDb.tasks.put(task);
+    });
+    return task;
+  }
+
+  const chronicle: EtherealChronicle = { ...(body as ChronicleSentData).chronicle, syncStatus: 'synced' };
+  await etherealDb.transaction('rw', etherealDb.chronicles, async () => {
+    if (item.localId) await etherealDb.chronicles.delete(item.localId);
+    await etherealDb.chronicles.put(chronicle);
+  });
+  return chronicle;
+}
+
+let flushInFlight: Promise<void> | null = null;
+
+/**
+ * Replay the current room's queue in order. Stops at the first network or
+ * server error; rejected items are marked failed and skipped.
+ */
+export function flushEtherealOutbox(): Promise<void> {
+  if (!flushInFlight) {
+    flushInFlight = processOutbox().finally(() => {
+      flushInFlight = null;
+    });
+  }
+  return flushInFlight;
+}
+
+async function processOutbox(): Promise<void> {
+  const session = getEtherealSession();
+  if (!session || !isOnline()) return;
+
+  const ids = (await etherealDb.outbox.where('roomId').equals(session.roomId).primaryKeys()) as number[];
+
+  for (const id of ids.sort((a, b) => a - b)) {
+    // Re-read: earlier replays may have re-targeted this item
+    const item = await etherealDb.outbox.get(id);
+    if (!item || item.status !== 'pending') continue;
+
+    // Addresses a record whose create has not synced yet
+    if (isLocalId(item.targetId)) continue;
+
+    const result = await sendItem(item);
+
+    if (result.outcome === 'offline') return;
+
+    if (result.outcome === 'session_expired') {
+      expireSession();
+      return;
+    }
+
+    if (result.outcome === 'server_error') {
+      // The first run may still succeed; wait for it without using up attempts
+      const attempts = result.error === IDEMPOTENCY_IN_PROGRESS ? item.attempts : item.attempts + 1;
+      await etherealDb.outbox.update(id, {
+        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        attempts,
+        lastAttempt: Date.now(),
+        errorMessage: result.error,
+      });
+      console.warn(`[Outbox] ${item.kind} server error ${attempts}/${MAX_ATTEMPTS}`);
+      return;
+    }
+
+    if (result.outcome === 'rejected') {
+      await etherealDb.outbox.update(id, {
+        status: 'failed',
+        lastAttempt: Date.now(),
+        errorMessage: result.error,
+      });
+      console.warn(`[Outbox] ${item.kind} rejected: ${result.error}`);
+      continue;
+    }
+
+    const record = await reconcile(item, result.data);
+    await etherealDb.outbox.delete(id);
+    if (item.localId && record) {
+      await etherealDb.outbox.where('targetId').equals(item.localId).modify({ targetId: record.serverId });
+    }
+
+    console.log('[Outbox] synced', item.kind, record?.serverId);
+    window.dispatchEvent(
+      new CustomEvent<OutboxSyncedDetail>(OUTBOX_SYNCED_EVENT, { detail: { item, record } })
+    );
+  }
+}
+
+export async function retryOutboxItem(id: number): Promise<void> {
+  await etherealDb.outbox.update(id, { status: 'pending', attempts: 0, errorMessage: undefined });
+  await flushEtherealOutbox();
+}
+
+/**
+ * Drop a queued mutation. A discarded create takes its placeholder and every
+ * queued change to that placeholder with it.
+ */
+export async function discardOutboxItem(id: number): Promise<void> {
+  const item = await etherealDb.outbox.get(id);
+  if (!item) return;
+
+  await etherealDb.transaction(
+    'rw',
+    [etherealDb.outbox, etherealDb.messages, etherealDb.tasks, etherealDb.chronicles],
+    async () => {
+      await etherealDb.outbox.delete(id);
+      if (!item.localId) return;
+
+      await etherealDb.outbox.where('targetId').equals(item.localId).delete();
+      if (item.fn === 'ethereal_messages') await etherealDb.messages.delete(item.localId);
+      if (item.fn === 'ethereal_tasks') await etherealDb.tasks.delete(item.localId);
+      if (item.fn === 'ethereal_chronicles') await etherealDb.chronicles.delete(item.localId);
+    }
+  );
+
+  window.dispatchEvent(
+    new CustomEvent<OutboxDiscardedDetail>(OUTBOX_DISCARDED_EVENT, { detail: { item } })
+  );
+}
+
+/**
+ * Ids with queued changes (placeholders and re-targeted records). Server lists
+ * must not overwrite these local versions until the queue has caught up.
+ */
+export async function getQueuedRecordIds(
+  roomId: string,
+  fn: EtherealOutboxItem['fn']
+): Promise<Set<string>> {
+  const items = await etherealDb.outbox.where('roomId').equals(roomId).toArray();
+  const ids = new Set<string>();
+  for (const item of items.filter((i) => i.fn === fn)) {
+    if (item.localId) ids.add(item.localId);
+    if (item.targetId) ids.add(item.targetId);
+  }
+  return ids;
+}
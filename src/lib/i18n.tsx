@@ -152,9 +152,21 @@ export const translations = {
   'search.noResultsHint': { ru: 'Измените запрос или сбросьте фильтры', en: 'Try changing query or reset filters', he: 'נסה לשנות שאילתה או אפס מסננים', ar: 'حاول تغيير الاستعلام أو إعادة تعيين المرشحات' },
   'search.noEntries': { ru: 'Нет записей', en: 'No entries', he: 'אין רשומות', ar: 'لا توجد مدخلات' },
   'search.noEntriesHint': { ru: 'Создайте первую запись', en: 'Create your first entry', he: 'צור את הרשומה הראשונה שלך', ar: 'أنشئ أول مدخل لك' },
+  'search.matchedTranscript': { ru: 'В расшифровке аудио', en: 'In audio transcript', he: 'בתמלול השמע', ar: 'في نص الصوت' },
+  'search.matchedInsight': { ru: 'В описании фото', en: 'In photo description', he: 'בתיאור התמונה', ar: 'في وصف الصورة' },
+  'search.syntaxHint': { ru: '"фраза" — точное совпадение, слово* — по началу слова', en: '"phrase" for exact match, word* for prefix', he: '"ביטוי" להתאמה מדויקת, מילה* לתחילית', ar: '"عبارة" للتطابق التام، كلمة* للبادئة' },
+  'search.filterSyntaxHint': { ru: 'mood:<=2 tag:Работа after:2026-01-01 before:… has:audio|image|video is:private, минус исключает: -tag:Семья', en: 'mood:<=2 tag:Work after:2026-01-01 before:… has:audio|image|video is:private, minus excludes: -tag:Family', he: 'mood:<=2 tag:עבודה after:2026-01-01 before:… has:audio|image|video is:private, מינוס מחריג: -tag:משפחה', ar: 'mood:<=2 tag:عمل after:2026-01-01 before:… has:audio|image|video is:private، الناقص يستبعد: -tag:عائلة' },
+  'search.invalidFilter': { ru: 'Не распознано', en: 'Not recognized', he: 'לא זוהה', ar: 'غير معروف' },
+  'search.save': { ru: 'Сохранить поиск', en: 'Save search', he: 'שמור חיפוש', ar: 'حفظ البحث' },
+  'search.saved': { ru: 'Поиск сохранён', en: 'Search saved', he: 'החיפוש נשמר', ar: 'تم حفظ البحث' },
+  'search.savedSearches': { ru: 'Сохранённые поиски', en: 'Saved searches', he: 'חיפושים שמורים', ar: 'عمليات البحث المحفوظة' },
+  'search.pinToToday': { ru: 'Закрепить на «Сегодня»', en: 'Pin to Today', he: 'הצמד להיום', ar: 'تثبيت في اليوم' },
+  'search.unpin': { ru: 'Открепить', en: 'Unpin', he: 'בטל הצמדה', ar: 'إلغاء التثبيت' },
+  'search.deleteSaved': { ru: 'Удалить поиск', en: 'Delete search', he: 'מחק חיפוש', ar: 'حذف البحث' },
   
   // Calendar
   'calendar.title': { ru: 'Календарь', en: 'Calendar', he: 'לוח שנה', ar: 'التقويم' },
+  'calendar.analytics': { ru: 'Аналитика настроения', en: 'Mood analytics', he: 'ניתוח מצב רוח', ar: 'تحليلات المزاج' },
   'calendar.mon': { ru: 'Пн', en: 'Mo', he: 'ב׳', ar: 'ن' },
   'calendar.tue': { ru: 'Вт', en: 'Tu', he: 'ג׳', ar: 'ث' },
   'calendar.wed': { ru: 'Ср', en: 'We', he: 'ד׳', ar: 'ر' },
@@ -230,6 +242,9 @@ export const translations = {
   'ai.disabled': { ru: 'Отключён', en: 'Inactive', he: 'לא פעיל', ar: 'غير نشط' },
   'ai.strictPrivacy': { ru: 'Строгая приватность', en: 'Strict privacy', he: 'פרטיות קפדנית', ar: 'خصوصية صارمة' },
   'ai.strictPrivacyHint': { ru: 'Не цитировать дневник дословно', en: 'Never quote diary verbatim', he: 'לעולם לא לצטט את היומן מילה במילה', ar: 'لا تقتبس اليوميات حرفياً' },
+  'ai.serverEmbeddings': { ru: 'Облачные эмбеддинги', en: 'Cloud embeddings', he: 'הטמעות בענן', ar: 'تضمينات سحابية' },
+  'ai.serverEmbeddingsHint': { ru: 'Точнее находить записи по смыслу; текст записей отправляется на сервер', en: 'Find entries by meaning more precisely; entry text is sent to the server', he: 'מציאת רשומות לפי משמעות בדיוק רב יותר; טקסט הרשומות נשלח לשרת', ar: 'العثور على الإدخالات حسب المعنى بدقة أكبر؛ يُرسل نص الإدخالات إلى الخادم' },
+  'ai.serverEmbeddingsPrivacy': { ru: 'Недоступно при строгой приватности — поиск работает на устройстве', en: 'Unavailable with strict privacy — search runs on the device', he: 'לא זמין בפרטיות קפדנית — החיפוש פועל במכשיר', ar: 'غير متاح مع الخصوصية الصارمة — يعمل البحث على الجهاز' },
   'ai.chatProfile': { ru: 'Профиль для чата', en: 'Chat profile', he: 'פרופיל צ׳אט', ar: 'ملف الدردشة' },
   'ai.bioProfile': { ru: 'Профиль для хроники', en: 'Chronicle profile', he: 'פרופיל כרוניקה', ar: 'ملف السجل' },
   'ai.testConnection': { ru: 'Проверить канал', en: 'Test channel', he: 'בדוק ערוץ', ar: 'اختبار القناة' },
@@ -250,6 +265,8 @@ export const translations = {
   'ai.profile.balanced': { ru: 'Баланс', en: 'Balance', he: 'מאוזן', ar: 'متوازن' },
   'ai.profile.quality': { ru: 'Качество', en: 'Quality', he: 'איכות', ar: 'جودة' },
   'ai.profile.biography': { ru: 'Хроника', en: 'Chronicle', he: 'כרוניקה', ar: 'سجل' },
+  'aiUsage.budgetExceeded': { ru: 'Бюджет AI исчерпан', en: 'AI budget is used up', he: 'תקציב ה-AI נוצל', ar: 'نفدت ميزانية الذكاء الاصطناعي' },
+  'aiUsage.open': { ru: 'Расход и бюджеты', en: 'Usage and budgets', he: 'שימוש ותקציבים', ar: 'الاستخدام والميزانيات' },
   'ai.cloudService': { ru: 'Облачный сервис', en: 'Cloud service', he: 'שירות ענן', ar: 'خدمة سحابية' },
   'ai.startConversation': { ru: 'Начните диалог', en: 'Start a conversation', he: 'התחל שיחה', ar: 'ابدأ محادثة' },
   'ai.startConversationHint': { ru: 'Сигил анализирует ваши записи по темам и настроению, не по вложениям', en: 'Sigil analyzes your entries by themes and mood, not attachments', he: 'סיגיל מנתח את הרשומות שלך לפי נושאים ומצב רוח, לא לפי קבצים מצורפים', ar: 'سيجيل يحلل مدخلاتك حسب الموضوعات والمزاج، وليس المرفقات' },
@@ -258,6 +275,16 @@ export const translations = {
   'ai.provider.lovable': { ru: 'Lovable AI', en: 'Lovable AI', he: 'Lovable AI', ar: 'Lovable AI' },
   'ai.provider.openrouter': { ru: 'OpenRouter', en: 'OpenRouter', he: 'OpenRouter', ar: 'OpenRouter' },
   'ai.provider.minimax': { ru: 'MiniMax', en: 'MiniMax', he: 'MiniMax', ar: 'MiniMax' },
+  'ai.provider.local': { ru: 'Локальная', en: 'Local', he: 'מקומי', ar: 'محلي' },
+  'ai.localEndpoint': { ru: 'Адрес сервера', en: 'Server address', he: 'כתובת השרת', ar: 'عنوان الخادم' },
+  'ai.localEndpointHint': { ru: 'OpenAI-совместимый сервер на этом устройстве: Ollama, llama.cpp, LM Studio', en: 'OpenAI-compatible server on this device: Ollama, llama.cpp, LM Studio', he: 'שרת תואם OpenAI במכשיר זה: Ollama, llama.cpp, LM Studio', ar: 'خادم متوافق مع OpenAI على هذا الجهاز: Ollama وllama.cpp وLM Studio' },
+  'ai.localEndpointInvalid': { ru: 'Укажите адрес на localhost, например http://localhost:11434/v1', en: 'Use a localhost address, e.g. http://localhost:11434/v1', he: 'השתמש בכתובת localhost, למשל http://localhost:11434/v1', ar: 'استخدم عنوان localhost، مثل http://localhost:11434/v1' },
+  'ai.localApiKey': { ru: 'Ключ сервера (необязательно)', en: 'Server key (optional)', he: 'מפתח שרת (אופציונלי)', ar: 'مفتاح الخادم (اختياري)' },
+  'ai.localModels': { ru: 'Модели по профилям', en: 'Models per profile', he: 'מודלים לפי פרופיל', ar: 'النماذج حسب الملف' },
+  'ai.localModelsHint': { ru: 'Имена моделей, загруженных на сервере', en: 'Names of models pulled on the server', he: 'שמות המודלים שהורדו לשרת', ar: 'أسماء النماذج المحمّلة على الخادم' },
+  'ai.localLoadModels': { ru: 'Загрузить список', en: 'Load list', he: 'טען רשימה', ar: 'تحميل القائمة' },
+  'ai.localModelsLoaded': { ru: 'Найдено моделей', en: 'Models found', he: 'נמצאו מודלים', ar: 'النماذج الموجودة' },
+  'ai.localNoModels': { ru: 'Сервер не вернул ни одной модели', en: 'The server returned no models', he: 'השרת לא החזיר מודלים', ar: 'لم يُرجع الخادم أي نماذج' },
   'ai.providerNotConfigured': { ru: 'API ключ не настроен', en: 'API key not configured', he: 'מפתח API לא מוגדר', ar: 'مفتاح API غير مهيأ' },
   'ai.currentModel': { ru: 'Модель', en: 'Model', he: 'מודל', ar: 'نموذج' },
 
@@ -361,6 +388,17 @@ export const translations = {
   'chat.fromDiaryHint': { ru: 'Выберите фото для отправки в чат', en: 'Select a photo to send in chat', he: 'בחר תמונה לשליחה בצ׳אט', ar: 'اختر صورة لإرسالها في الدردشة' },
   'chat.noSavedPhotos': { ru: 'Нет сохранённых фото', en: 'No saved photos', he: 'אין תמונות שמורות', ar: 'لا توجد صور محفوظة' },
   'chat.noSavedPhotosHint': { ru: 'Добавьте фото к записям дневника', en: 'Add photos to your diary entries', he: 'הוסף תמונות לרשומות היומן שלך', ar: 'أضف صوراً إلى مدخلات يومياتك' },
+  'chat.history': { ru: 'История чатов', en: 'Chat history', he: 'היסטוריית צ׳אטים', ar: 'سجل المحادثات' },
+  'chat.newChat': { ru: 'Новый чат', en: 'New chat', he: 'צ׳אט חדש', ar: 'محادثة جديدة' },
+  'chat.searchThreads': { ru: 'Поиск по чатам...', en: 'Search chats...', he: 'חיפוש בצ׳אטים...', ar: 'البحث في المحادثات...' },
+  'chat.noThreads': { ru: 'Сохранённых чатов пока нет', en: 'No saved chats yet', he: 'אין עדיין צ׳אטים שמורים', ar: 'لا توجد محادثات محفوظة بعد' },
+  'chat.noThreadMatches': { ru: 'Ничего не найдено', en: 'No matching chats', he: 'לא נמצאו צ׳אטים', ar: 'لا توجد محادثات مطابقة' },
+  'chat.untitled': { ru: 'Без названия', en: 'Untitled chat', he: 'צ׳אט ללא שם', ar: 'محادثة بلا عنوان' },
+  'chat.renameThread': { ru: 'Переименовать', en: 'Rename', he: 'שנה שם', ar: 'إعادة التسمية' },
+  'chat.deleteThread': { ru: 'Удалить', en: 'Delete', he: 'מחק', ar: 'حذف' },
+  'chat.deleteThreadConfirm': { ru: 'Удалить чат?', en: 'Delete chat?', he: 'למחוק את הצ׳אט?', ar: 'حذف المحادثة؟' },
+  'chat.deleteThreadDesc': { ru: 'Все сообщения этого чата будут удалены без возможности восстановления.', en: 'All messages in this chat will be permanently deleted.', he: 'כל ההודעות בצ׳אט זה יימחקו לצמיתות.', ar: 'سيتم حذف جميع رسائل هذه المحادثة نهائيًا.' },
+  'chat.threadNotFound': { ru: 'Чат не найден', en: 'Chat not found', he: 'הצ׳אט לא נמצא', ar: 'المحادثة غير موجودة' },
   
   // AI PIN Access
   'aiPin.title': { ru: 'Доступ к ИИ', en: 'AI Access', he: 'גישה ל-AI', ar: 'الوصول للذكاء الاصطناعي' },
@@ -415,10 +453,38 @@ export const translations = {
   'discussions.entries': { ru: 'записей', en: 'entries', he: 'רשומות', ar: 'مدخلات' },
   'discussions.documents': { ru: 'документов', en: 'documents', he: 'מסמכים', ar: 'مستندات' },
   'discussions.noSources': { ru: 'Нет источников', en: 'No sources', he: 'אין מקורות', ar: 'لا توجد مصادر' },
+
+  // Documents
+  'documents.title': { ru: 'Документы', en: 'Documents', he: 'מסמכים', ar: 'المستندات' },
+  'documents.subtitle': { ru: 'Источники для обсуждений', en: 'Sources for discussions', he: 'מקורות לדיונים', ar: 'مصادر للمناقشات' },
+  'documents.import': { ru: 'Импорт', en: 'Import', he: 'ייבוא', ar: 'استيراد' },
+  'documents.importing': { ru: 'Импорт...', en: 'Importing...', he: 'מייבא...', ar: 'جاري الاستيراد...' },
+  'documents.imported': { ru: 'Документ добавлен', en: 'Document added', he: 'המסמך נוסף', ar: 'تمت إضافة المستند' },
+  'documents.empty': { ru: 'Нет документов', en: 'No documents', he: 'אין מסמכים', ar: 'لا توجد مستندات' },
+  'documents.emptyHint': { ru: 'Импортируйте PDF, изображения или текст, чтобы обсуждать их и ссылаться на страницы', en: 'Import PDFs, images or text to discuss them and cite their pages', he: 'ייבא קובצי PDF, תמונות או טקסט כדי לדון בהם ולצטט עמודים', ar: 'استورد ملفات PDF أو صورًا أو نصوصًا لمناقشتها والاستشهاد بصفحاتها' },
+  'documents.pickHint': { ru: 'Выберите документ для обсуждения', en: 'Choose a document for the discussion', he: 'בחר מסמך לדיון', ar: 'اختر مستندًا للمناقشة' },
+  'documents.pages': { ru: 'стр.', en: 'pages', he: 'עמודים', ar: 'صفحات' },
+  'documents.noText': { ru: 'без текста', en: 'no text', he: 'ללא טקסט', ar: 'بدون نص' },
+  'documents.tooLarge': { ru: 'Файл больше 30 МБ', en: 'File is larger than 30 MB', he: 'הקובץ גדול מ-30MB', ar: 'الملف أكبر من 30 ميغابايت' },
+  'documents.unsupported': { ru: 'Поддерживаются PDF, изображения и текстовые файлы', en: 'PDF, image and text files are supported', he: 'נתמכים קובצי PDF, תמונות וטקסט', ar: 'يتم دعم ملفات PDF والصور والنصوص' },
+  'documents.unreadable': { ru: 'Не удалось прочитать файл', en: 'Could not read the file', he: 'לא ניתן לקרוא את הקובץ', ar: 'تعذرت قراءة الملف' },
+  'documents.notFound': { ru: 'Документ не найден', en: 'Document not found', he: 'המסמך לא נמצא', ar: 'المستند غير موجود' },
+  'documents.discuss': { ru: 'Обсудить', en: 'Discuss', he: 'דון', ar: 'ناقش' },
+  'documents.page': { ru: 'Страница', en: 'Page', he: 'עמוד', ar: 'صفحة' },
+  'documents.pageText': { ru: 'Текст страницы', en: 'Page text', he: 'טקסט העמוד', ar: 'نص الصفحة' },
+  'documents.noPageText': { ru: 'На этой странице нет текста. Опишите её, чтобы на неё можно было ссылаться в обсуждениях.', en: 'This page has no text. Describe it so discussions can cite it.', he: 'אין טקסט בעמוד זה. תאר אותו כדי שדיונים יוכלו לצטט אותו.', ar: 'لا يوجد نص في هذه الصفحة. صِفها حتى تتمكن المناقشات من الاستشهاد بها.' },
+  'documents.editText': { ru: 'Изменить текст', en: 'Edit text', he: 'ערוך טקסט', ar: 'تعديل النص' },
+  'documents.rename': { ru: 'Переименовать', en: 'Rename', he: 'שנה שם', ar: 'إعادة تسمية' },
+  'documents.delete': { ru: 'Удалить', en: 'Delete', he: 'מחק', ar: 'حذف' },
+  'documents.deleteConfirm': { ru: 'Удалить документ?', en: 'Delete document?', he: 'למחוק מסמך?', ar: 'حذف المستند؟' },
+  'documents.deleteDesc': { ru: 'Документ будет удалён с устройства и из всех обсуждений.', en: 'The document will be removed from this device and from all discussions.', he: 'המסמך יוסר מהמכשיר ומכל הדיונים.', ar: 'سيتم حذف المستند من هذا الجهاز ومن جميع المناقشات.' },
+  'documents.renderFailed': { ru: 'Не удалось показать страницу', en: 'Could not display the page', he: 'לא ניתן להציג את העמוד', ar: 'تعذر عرض الصفحة' },
   
   // Discussion Chat
   'discussion.context': { ru: 'Контекст', en: 'Context', he: 'הקשר', ar: 'السياق' },
+  'discussion.export': { ru: 'Экспорт', en: 'Export', he: 'ייצוא', ar: 'تصدير' },
   'discussion.addFromToday': { ru: 'Добавить из записей', en: 'Add from entries', he: 'הוסף מרשומות', ar: 'إضافة من المدخلات' },
+  'discussion.addDocuments': { ru: 'Добавить документы', en: 'Add documents', he: 'הוסף מסמכים', ar: 'إضافة مستندات' },
   'discussion.sources': { ru: 'Источники', en: 'Sources', he: 'מקורות', ar: 'المصادر' },
   'discussion.openSource': { ru: 'Открыть', en: 'Open', he: 'פתח', ar: 'فتح' },
   'discussion.findInNotes': { ru: 'Найти в записях', en: 'Find in notes', he: 'מצא ברשימות', ar: 'البحث في الملاحظات' },
@@ -429,6 +495,15 @@ export const translations = {
   'discussion.newSession': { ru: 'Новое обсуждение', en: 'New discussion', he: 'דיון חדש', ar: 'مناقشة جديدة' },
   'discussion.sending': { ru: 'Отправка...', en: 'Sending...', he: 'שולח...', ar: 'جاري الإرسال...' },
   'discussion.error': { ru: 'Ошибка', en: 'Error', he: 'שגיאה', ar: 'خطأ' },
+  'discussion.regenerate': { ru: 'Ещё вариант', en: 'Regenerate', he: 'צור מחדש', ar: 'إعادة التوليد' },
+  'discussion.regenerateSame': { ru: 'С теми же настройками', en: 'With the same settings', he: 'עם אותן הגדרות', ar: 'بنفس الإعدادات' },
+  'discussion.regenerateMode': { ru: 'В другом режиме', en: 'In another mode', he: 'במצב אחר', ar: 'بوضع آخر' },
+  'discussion.regenerateProfile': { ru: 'Другим профилем AI', en: 'With another AI profile', he: 'עם פרופיל AI אחר', ar: 'بملف ذكاء اصطناعي آخر' },
+  'discussion.editQuestion': { ru: 'Изменить', en: 'Edit', he: 'ערוך', ar: 'تعديل' },
+  'discussion.saveEdit': { ru: 'Отправить', en: 'Send', he: 'שלח', ar: 'إرسال' },
+  'discussion.cancelEdit': { ru: 'Отмена', en: 'Cancel', he: 'ביטול', ar: 'إلغاء' },
+  'discussion.previousBranch': { ru: 'Предыдущий вариант', en: 'Previous version', he: 'גרסה קודמת', ar: 'النسخة السابقة' },
+  'discussion.nextBranch': { ru: 'Следующий вариант', en: 'Next version', he: 'הגרסה הבאה', ar: 'النسخة التالية' },
   
   // Discussion Modes
   'mode.discuss': { ru: 'Обсудить', en: 'Discuss', he: 'דון', ar: 'ناقش' },
@@ -2,7 +2,10 @@ import { compressImage } from './mediaUtils';
 import { getModelForProfile, loadAISettings } from './aiConfig';
 import { saveAttachmentInsight, getAttachmentInsight, AttachmentInsight } from './db';
 import { logger } from './logger';
-import { getAITokenHeader, collectSSEStream, parseAIError } from './aiUtils';
+import { getAITokenHeader, collectSSEStream, parseAIError, type SSEUsage } from './aiUtils';
+import { localChatCompletion } from './localLLM';
+import { ensureAIBudget, estimateMessageTokens, recordAIUsage } from './aiUsage';
+import type { ChatMessage } from './aiService';
 
 const AI_CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-chat`;
 const PROMPT_VERSION = 'v1.0';
@@ -117,6 +120,8 @@ export async function analyzeImage(
       return;
     }
     
+    await ensureAIBudget(language === 'ru' ? 'ru' : 'en');
+
     // Compress image to ~500KB for faster upload
     const compressedBlob = await compressImage(imageBlob);
     
@@ -129,7 +134,7 @@ export async function analyzeImage(
     const provider = settings.provider;
     
     // Build multimodal message
-    const messages = [
+    const messages: ChatMessage[] = [
       {
         role: 'system',
         content: getSystemPrompt(language),
@@ -143,28 +148,51 @@ export async function analyzeImage(
       },
     ];
     
-    const response = await fetch(AI_CHAT_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...getAITokenHeader(),
-      },
-      body: JSON.stringify({
+    let fullText: string;
+    let usage: SSEUsage | undefined;
+    if (provider === 'local') {
+      // Needs a vision-capable model (e.g. llava) mapped to the chat profile
+      fullText = await localChatCompletion({
         messages,
         model,
         maxTokens: 512,
         temperature: 0.7,
-        provider,
-      }),
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `Analysis failed: ${response.status}`);
+      }, settings);
+    } else {
+      const response = await fetch(AI_CHAT_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAITokenHeader(),
+        },
+        body: JSON.stringify({
+          messages,
+          model,
+          maxTokens: 512,
+          temperature: 0.7,
+          provider,
+        }),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Analysis failed: ${response.status}`);
+      }
+      
+      // Parse SSE stream to collect full response
+      fullText = await collectSSEStream(response, undefined, reported => { usage = reported; });
     }
-    
-    // Parse SSE stream to collect full response
-    const fullText = await collectSSEStream(response);
+
+    await recordAIUsage({
+      feature: 'imageAnalysis',
+      provider,
+      model,
+      profile: settings.chatProfile,
+      promptTokens: usage?.promptTokens,
+      completionTokens: usage?.completionTokens,
+      extraPromptTokens: estimateMessageTokens(messages),
+      completionText: fullText,
+    });
     
     // Parse the response
     const result = parseAnalysisResponse(fullText, language);
@@ -24,8 +24,16 @@ vi.mock('@/lib/db', () => ({
       get: vi.fn(async (date: string) => mockState.biographies.get(date)),
       toArray: vi.fn(async () => Array.from(mockState.biographies.values())),
     },
+    documents: {
+      get: vi.fn(async () => undefined),
+    },
   },
-  hasLiveDiscussionAuthority: (scope: { entryIds: number[] }) => scope.entryIds.length > 0,
+  hasLiveDiscussionAuthority: (scope: { entryIds: number[]; docIds: number[] }) =>
+    scope.entryIds.length > 0 || scope.docIds.length > 0,
+}));
+
+vi.mock('./vectorIndex', () => ({
+  searchEntryVectors: async () => new Map(),
 }));
 
 import { buildContextPack, deriveStableEvidenceHandle, getScopeCountText } from './contextPack';
@@ -175,7 +183,7 @@ describe('buildContextPack', () => {
     expect(entryIds).toEqual([99]);
   });
 
-  it('treats docs-only scope as lacking live authority for global discovery', async () => {
+  it('keeps docs-only scope out of global entry discovery', async () => {
     mockState.entries.set(99, makeEntry({
       id: 99,
       date: '2026-04-02',
@@ -195,7 +203,7 @@ describe('buildContextPack', () => {
       .filter(evidence => evidence.type === 'entry')
       .map(evidence => evidence.entityId);
 
-    expect(entryIds).toEqual([99]);
+    expect(entryIds).toEqual([]);
   });
 
   it('keeps empty-scope findMode fallback to recent entries when nothing matches', async () => {
@@ -600,6 +608,34 @@ describe('semanticTags authority enforcement', () => {
     expect(entryIds).toContain(1);
     expect(entryIds).toContain(2);
   });
+
+  it('T7: keyword matching uses the search stemmer for other word forms', async () => {
+    mockState.entries.set(1, makeEntry({
+      id: 1,
+      date: '2026-04-01',
+      text: 'После смены чувствовала себя выжатой',
+      createdAt: 100,
+    }));
+    mockState.entries.set(2, makeEntry({
+      id: 2,
+      date: '2026-04-02',
+      text: 'Спокойный вечер с книгой',
+      createdAt: 200,
+    }));
+
+    const result = await buildContextPack({
+      sessionScope: { entryIds: [], docIds: [] },
+      userQuery: 'когда я была выжата',
+      mode: 'discuss',
+      findMode: true,
+    });
+
+    const entryIds = result.evidence
+      .filter(e => e.type === 'entry')
+      .map(e => e.entityId);
+
+    expect(entryIds).toEqual([1]);
+  });
 });
 
 describe('deriveStableEvidenceHandle', () => {
@@ -629,11 +665,12 @@ describe('deriveStableEvidenceHandle', () => {
 });
 
 describe('getScopeCountText', () => {
-  it('treats docs-only stored shape as no active scope', () => {
-    expect(getScopeCountText([], [9], 'en')).toBe('No sources');
+  it('counts documents as sources', () => {
+    expect(getScopeCountText([], [9], 'en')).toBe('1 documents');
+    expect(getScopeCountText([], [], 'en')).toBe('No sources');
   });
 
-  it('shows only entry-backed live authority when docs are also stored', () => {
-    expect(getScopeCountText([1, 2], [9], 'en')).toBe('2 entries');
+  it('lists entries and documents together', () => {
+    expect(getScopeCountText([1, 2], [9], 'en')).toBe('2 entries, 1 documents');
   });
 });
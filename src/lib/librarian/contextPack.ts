@@ -1,11 +1,17 @@
-import { db, DiaryEntry, DiscussionMode, StoredBiography, hasLiveDiscussionAuthority } from '@/lib/db';
+import { db, DiaryEntry, DiscussionMode, DocumentPage, StoredBiography, StoredDocument, hasLiveDiscussionAuthority } from '@/lib/db';
 import { format } from 'date-fns';
+import { logger } from '@/lib/logger';
+import { analyzeText, extractTerms, normalizeText, type AnalyzedToken } from '@/lib/search/textAnalysis';
+import { searchEntryVectors } from './vectorIndex';
 
 // Re-export DiscussionMode for convenience
 export type { DiscussionMode } from '@/lib/db';
 
+// Receipts and reminders only enter a turn through discussion tools
+export type EvidenceType = 'entry' | 'document_page' | 'document' | 'biography' | 'receipt' | 'reminder';
+
 export interface EvidenceIdentityRef {
-  type: 'entry' | 'document_page' | 'document' | 'biography';
+  type: EvidenceType;
   entityId: number;
   pageIndex?: number;
   biographyDate?: string;
@@ -24,8 +30,9 @@ function deriveBiographyIdentityDate(evidence: EvidenceIdentityRef): string {
 function deriveDocumentPageIndex(evidence: EvidenceIdentityRef): number {
   if (typeof evidence.pageIndex === 'number') return evidence.pageIndex;
 
+  // Deep links carry the 1-based page number
   const deepLinkPage = evidence.deepLink?.match(/[?&]page=(\d+)/);
-  if (deepLinkPage) return Number(deepLinkPage[1]);
+  if (deepLinkPage) return Math.max(Number(deepLinkPage[1]) - 1, 0);
 
   return 0;
 }
@@ -40,19 +47,23 @@ export function deriveStableEvidenceHandle(evidence: EvidenceIdentityRef): strin
       return `document:${evidence.entityId}`;
     case 'document_page':
       return `document_page:${evidence.entityId}:${deriveDocumentPageIndex(evidence)}`;
+    case 'receipt':
+      return `receipt:${evidence.entityId}`;
+    case 'reminder':
+      return `reminder:${evidence.entityId}`;
   }
 }
 
 // Evidence reference for AI citations
 export interface EvidenceRef {
-  type: 'entry' | 'document_page' | 'document' | 'biography';
-  id: string;                   // Turn-local citation alias like "E1", "D2", "B1"
+  type: EvidenceType;
+  id: string;                   // Turn-local citation alias like "E1", "D2", "B1", "R1", "N1"
   stableHandle?: string;        // Cross-turn identity handle derived from persisted evidence identity
   title: string;
   subtitle?: string;            // Time/page/folder path
   snippet?: string;
-  deepLink: string;             // /entry/:id or /documents/:id?page=N or /day/:date
-  entityId: number;             // entryId or docId (0 for biographies)
+  deepLink: string;             // /entry/:id, /documents/:id?page=N, /day/:date, /receipts/:id, /reminder/:id
+  entityId: number;             // entryId, docId, receiptId or reminderId (0 for biographies)
   pageIndex?: number;
   biographyDate?: string;       // YYYY-MM-DD for biographies
   supportedByEvidenceIds?: string[]; // Biography-only visible entry refs in the same packet
@@ -64,6 +75,7 @@ export interface ContextPackOptions {
   userQuery: string;
   mode: DiscussionMode;
   findMode: boolean;  // Enables note-finding; global discovery only when scope is empty
+  language?: string;  // UI language for evidence labels shown to the user (default: en)
 }
 
 export interface ContextPackResult {
@@ -71,14 +83,26 @@ export interface ContextPackResult {
   evidence: EvidenceRef[];
 }
 
+// Same wording as the document viewer's page counter
+const PAGE_LABELS: Record<string, string> = {
+  ru: 'Страница',
+  en: 'Page',
+  he: 'עמוד',
+  ar: 'صفحة',
+};
+
 // Context limits
 const CONTEXT_LIMITS = {
   maxEvidence: 12,              // Increased to accommodate biographies
   maxBiographies: 4,            // Max chronicles per request
+  maxDocumentPages: 4,          // Max document pages per request
   maxSnippetChars: 600,
   maxTotalContextChars: 12000,  // Slightly increased for chronicles
 };
 
+// A vector similarity of 0.5 weighs about as much as one stemmed keyword hit (1.5)
+const VECTOR_WEIGHT = 3;
+
 /**
  * Create a snippet from text, respecting character limit
  */
@@ -90,20 +114,29 @@ function createSnippet(text: string, maxChars: number = CONTEXT_LIMITS.maxSnippe
 }
 
 /**
- * Calculate simple keyword relevance score
+ * Query keywords for scoring: stemmed search tokens longer than 2 chars.
+ * Uses the same analyzer as the full-text index, so word forms match ("выжата" ~ "выжат").
  */
-function calculateRelevanceScore(text: string, query: string): number {
-  if (!query.trim()) return 0;
-  const lowerText = text.toLowerCase();
-  const keywords = query.toLowerCase().split(/\s+/).filter(k => k.length > 2);
-  
+function getQueryKeywords(query: string): AnalyzedToken[] {
+  return analyzeText(query).filter(token => token.raw.length > 2);
+}
+
+/**
+ * Score keyword hits in a text: +1 per keyword found (substring or same stem),
+ * +0.5 bonus when a word form of the keyword is present.
+ */
+function scoreKeywordHits(text: string, keywords: AnalyzedToken[]): number {
+  if (!text || keywords.length === 0) return 0;
+  const lowerText = normalizeText(text);
+  const textTerms = new Set(analyzeText(text).map(token => token.term));
+
   let score = 0;
   for (const keyword of keywords) {
-    if (lowerText.includes(keyword)) {
+    const stemMatch = textTerms.has(keyword.term);
+    if (stemMatch || lowerText.includes(keyword.raw)) {
       score += 1;
-      // Bonus for exact word match
-      const wordRegex = new RegExp(`\\b${keyword}\\b`, 'i');
-      if (wordRegex.test(text)) {
+      // Bonus for whole-word (any word form) match
+      if (stemMatch) {
         score += 0.5;
       }
     }
@@ -112,41 +145,48 @@ function calculateRelevanceScore(text: string, query: string): number {
 }
 
 /**
- * Calculate enhanced relevance score including semantic tags
+ * Check whether a tag matches any keyword (substring or same stem)
  */
-function calculateEnhancedRelevanceScore(entry: DiaryEntry, query: string): number {
+function tagMatchesKeywords(tag: string, keywords: AnalyzedToken[]): boolean {
+  const lowerTag = normalizeText(tag);
+  const tagTerms = new Set(extractTerms(tag));
+  return keywords.some(k => lowerTag.includes(k.raw) || tagTerms.has(k.term));
+}
+
+/**
+ * Calculate simple keyword relevance score
+ */
+function calculateRelevanceScore(text: string, query: string): number {
   if (!query.trim()) return 0;
-  const keywords = query.toLowerCase().split(/\s+/).filter(k => k.length > 2);
-  
-  let score = 0;
+  return scoreKeywordHits(text, getQueryKeywords(query));
+}
+
+/**
+ * Calculate enhanced relevance score including semantic tags.
+ * vectorSimilarity comes from the vector index, which embeds only authored text.
+ */
+function calculateEnhancedRelevanceScore(entry: DiaryEntry, query: string, vectorSimilarity = 0): number {
+  if (!query.trim()) return 0;
+  const keywords = getQueryKeywords(query);
   
   // 1. Text match (weight: 1.0)
-  const lowerText = entry.text.toLowerCase();
-  for (const keyword of keywords) {
-    if (lowerText.includes(keyword)) {
-      score += 1;
-      // Bonus for exact word match
-      const wordRegex = new RegExp(`\\b${keyword}\\b`, 'i');
-      if (wordRegex.test(entry.text)) {
-        score += 0.5;
-      }
-    }
-  }
+  let score = scoreKeywordHits(entry.text, keywords);
   
   // 2. User-visible tags match (weight: 1.5)
   for (const tag of entry.tags) {
-    const lowerTag = tag.toLowerCase();
-    if (keywords.some(k => lowerTag.includes(k))) {
+    if (tagMatchesKeywords(tag, keywords)) {
       score += 1.5;
     }
   }
   
-  // 3. Semantic tags — tie-breaker only (weight: 0.3), requires base match from text or tags
+  // 3. Similarity of the entry's own words to the query (other phrasings of the same thing)
+  score += vectorSimilarity * VECTOR_WEIGHT;
+  
+  // 4. Semantic tags — tie-breaker only (weight: 0.3), requires base match from text, tags or vector
   // DOCTRINE: hidden AI-derived tags must not be primary selector for evidence inclusion
   if (score > 0 && entry.semanticTags && entry.semanticTags.length > 0) {
     for (const stag of entry.semanticTags) {
-      const lowerStag = stag.toLowerCase();
-      if (keywords.some(k => lowerStag.includes(k))) {
+      if (tagMatchesKeywords(stag, keywords)) {
         score += 0.3;
       }
     }
@@ -194,6 +234,19 @@ async function getAttachmentCount(entryId: number): Promise<number> {
   return await db.attachments.where('entryId').equals(entryId).count();
 }
 
+/**
+ * Vector similarities for the query. Retrieval falls back to keywords alone
+ * when the index or the embedding provider is unavailable.
+ */
+async function getVectorSimilarities(query: string, entryIds?: number[]): Promise<Map<number, number>> {
+  try {
+    return await searchEntryVectors(query, { entryIds });
+  } catch (error) {
+    logger.warn('Librarian', 'Vector retrieval unavailable, using keywords only', error);
+    return new Map();
+  }
+}
+
 /**
  * Build context pack from selected entries (standard mode)
  */
@@ -203,13 +256,16 @@ async function buildFromScope(
 ): Promise<{ entries: DiaryEntry[]; scores: Map<number, number> }> {
   const entries: DiaryEntry[] = [];
   const scores = new Map<number, number>();
+  const similarities = entryIds.length > 0 && query.trim()
+    ? await getVectorSimilarities(query, entryIds)
+    : new Map<number, number>();
   
   for (const id of entryIds) {
     const entry = await db.entries.get(id);
     if (entry && !entry.isPrivate && entry.aiAllowed !== false) {
       entries.push(entry);
       // Use enhanced scoring with semantic tags
-      const score = calculateEnhancedRelevanceScore(entry, query);
+      const score = calculateEnhancedRelevanceScore(entry, query, similarities.get(id));
       scores.set(entry.id!, score);
     }
   }
@@ -245,10 +301,12 @@ async function buildFromSearch(
   const hasSearchTerms = searchTerms.length > 0;
   
   if (hasSearchTerms) {
-    // Score and filter entries using enhanced scoring (includes semantic tags)
+    const similarities = await getVectorSimilarities(query);
+    
+    // Score and filter entries using hybrid keyword + vector scoring (semantic tags only break ties)
     const matchedEntries = eligibleEntries
       .map(entry => {
-        const score = calculateEnhancedRelevanceScore(entry, query);
+        const score = calculateEnhancedRelevanceScore(entry, query, similarities.get(entry.id!));
         scores.set(entry.id!, score);
         return { entry, score };
       })
@@ -280,6 +338,54 @@ async function buildFromSearch(
   return { entries: recentEntries, scores };
 }
 
+/**
+ * Excerpt of a page around the first keyword hit, so the cited passage is in view.
+ */
+function createPageExcerpt(text: string, keywords: AnalyzedToken[]): string {
+  const cleaned = text.replace(/\s+/g, ' ').trim();
+  const lowerText = normalizeText(cleaned);
+  const hits = keywords
+    .map(keyword => lowerText.indexOf(keyword.raw))
+    .filter(index => index >= 0);
+  if (hits.length === 0) return createSnippet(cleaned);
+
+  const start = Math.max(0, Math.min(...hits) - Math.floor(CONTEXT_LIMITS.maxSnippetChars / 3));
+  const excerpt = createSnippet(cleaned.slice(start));
+  return start > 0 ? `...${excerpt}` : excerpt;
+}
+
+/**
+ * Pick pages of the scoped documents. Pages matching the query come first; without matches
+ * the opening pages are used, since the user attached these documents on purpose.
+ */
+async function loadDocumentPages(
+  docIds: number[],
+  query: string
+): Promise<Array<{ document: StoredDocument; page: DocumentPage; score: number }>> {
+  const keywords = getQueryKeywords(query);
+  const candidates: Array<{ document: StoredDocument; page: DocumentPage; score: number; docOrder: number }> = [];
+
+  for (let docOrder = 0; docOrder < docIds.length; docOrder++) {
+    const document = await db.documents.get(docIds[docOrder]);
+    if (!document) continue;
+    const pages = await db.documentPages.where('docId').equals(document.id!).toArray();
+    for (const page of pages) {
+      if (!page.text.trim()) continue;
+      const score = scoreKeywordHits(page.text, keywords) + scoreKeywordHits(document.title, keywords) * 0.5;
+      candidates.push({ document, page, score, docOrder });
+    }
+  }
+
+  const matched = candidates.filter(candidate => candidate.score > 0);
+  const selected = matched.length > 0
+    ? matched.sort((a, b) => b.score - a.score || a.docOrder - b.docOrder || a.page.pageIndex - b.page.pageIndex)
+    : candidates.sort((a, b) => a.page.pageIndex - b.page.pageIndex || a.docOrder - b.docOrder);
+
+  return selected
+    .slice(0, CONTEXT_LIMITS.maxDocumentPages)
+    .map(({ document, page, score }) => ({ document, page, score }));
+}
+
 /**
  * Load relevant biographies for context
  * Now supports findMode by loading biographies for found entries + fallback to recent
@@ -374,7 +480,7 @@ async function loadRelevantBiographies(
  * Build context pack for discussion AI
  */
 export async function buildContextPack(options: ContextPackOptions): Promise<ContextPackResult> {
-  const { sessionScope, userQuery, findMode } = options;
+  const { sessionScope, userQuery, findMode, language = 'en' } = options;
   const hasLiveAuthority = hasLiveDiscussionAuthority(sessionScope);
   const allowGlobalDiscovery = findMode && !hasLiveAuthority;
   const allowGlobalBiographyExpansion = !hasLiveAuthority;
@@ -446,6 +552,48 @@ export async function buildContextPack(options: ContextPackOptions): Promise<Con
     visibleEntryRefIds.set(entryId, refId);
   }
   
+  // Add pages of the documents in scope
+  const documentPages = sessionScope.docIds.length > 0
+    ? await loadDocumentPages(sessionScope.docIds, userQuery)
+    : [];
+  const documentKeywords = getQueryKeywords(userQuery);
+  
+  for (let i = 0; i < documentPages.length; i++) {
+    const { document, page } = documentPages[i];
+    const refId = `D${i + 1}`;
+    const pageNumber = page.pageIndex + 1;
+    const deepLink = `/documents/${document.id}?page=${pageNumber}`;
+    const stableHandle = deriveStableEvidenceHandle({
+      type: 'document_page',
+      entityId: document.id!,
+      pageIndex: page.pageIndex,
+      deepLink,
+    });
+    const snippet = createPageExcerpt(page.text, documentKeywords);
+    const subtitle = `${PAGE_LABELS[language] || PAGE_LABELS.en} ${pageNumber} / ${document.pageCount}`;
+    
+    evidence.push({
+      type: 'document_page',
+      id: refId,
+      stableHandle,
+      title: document.title,
+      subtitle,
+      snippet,
+      deepLink,
+      entityId: document.id!,
+      pageIndex: page.pageIndex,
+    });
+    
+    const contextPage = `[${refId}] CLASS: IMPORTED_DOCUMENT_PAGE\nSTABLE_HANDLE: ${stableHandle}\nDocument "${document.title}", page ${pageNumber} of ${document.pageCount}\n${snippet}`;
+    
+    if (totalChars + contextPage.length > CONTEXT_LIMITS.maxTotalContextChars) {
+      break;
+    }
+    
+    contextParts.push(contextPage);
+    totalChars += contextPage.length;
+  }
+  
   // Load and add biographies - pass found entry IDs in findMode too
   const biographies = await loadRelevantBiographies(
     allowGlobalDiscovery
@@ -528,7 +676,7 @@ export async function buildContextPack(options: ContextPackOptions): Promise<Con
  */
 export function getScopeCountText(
   entryIds: number[],
-  _docIds: number[],
+  docIds: number[],
   language: string
 ): string {
   const labels: Record<string, { entries: string; documents: string; noSources: string }> = {
@@ -544,6 +692,9 @@ export function getScopeCountText(
   if (entryIds.length > 0) {
     parts.push(`${entryIds.length} ${l.entries}`);
   }
+  if (docIds.length > 0) {
+    parts.push(`${docIds.length} ${l.documents}`);
+  }
 
   return parts.length === 0 ? l.noSources : parts.join(', ');
 }
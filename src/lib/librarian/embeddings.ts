@@ -0,0 +1,122 @@
+/**
+ * Embedding providers for the librarian vector index.
+ *
+ * The default provider is a deterministic hashing embedder that runs on-device: stems and
+ * character trigrams are hashed into a fixed-size vector, so word forms and near spellings
+ * land close together. It needs no network and gives identical vectors on every run.
+ * With AI enabled, strict privacy off and server embeddings switched on, chunks are embedded
+ * by the ai-embed edge function instead, which also matches paraphrases and other languages.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { loadAISettings } from '@/lib/aiConfig';
+import { getAITokenHeader } from '@/lib/aiUtils';
+import { analyzeText } from '@/lib/search/textAnalysis';
+
+export interface EmbeddingProvider {
+  id: string;              // Stored with every vector; vectors of another provider are not compared
+  minSimilarity: number;   // Cosine below this is noise for this provider
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const HASHING_DIMENSIONS = 256;
+const TRIGRAM_WEIGHT = 0.25;
+
+/**
+ * 32-bit FNV-1a hash.
+ */
+export function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const hash = fnv1a(feature);
+  // Low bits pick the slot, the top bit the sign, so collisions cancel out on average
+  const sign = hash & 0x80000000 ? -1 : 1;
+  vector[hash % vector.length] += sign * weight;
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/** Dot product; equals cosine similarity for normalized vectors. */
+export function dotProduct(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+export function hashEmbed(text: string, dimensions: number = HASHING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const token of analyzeText(text)) {
+    addFeature(vector, `w:${token.term}`, 1);
+    const padded = `^${token.raw}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `g:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+  return normalizeVector(vector);
+}
+
+export function createHashingEmbedder(dimensions: number = HASHING_DIMENSIONS): EmbeddingProvider {
+  return {
+    id: `hashing-v1-${dimensions}`,
+    minSimilarity: 0.2,
+    embed: async (texts) => texts.map(text => hashEmbed(text, dimensions)),
+  };
+}
+
+export function createEdgeFunctionEmbedder(): EmbeddingProvider {
+  return {
+    id: 'edge-text-embedding-3-small',
+    minSimilarity: 0.3,
+    embed: async (texts) => {
+      const { data, error } = await supabase.functions.invoke('ai-embed', {
+        body: { texts },
+        headers: getAITokenHeader(),
+      });
+
+      if (error) {
+        throw new Error(`Edge function error: ${error.message}`);
+      }
+      if (data.error) {
+        throw new Error(data.error);
+      }
+      if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+        throw new Error('Invalid embedding response');
+      }
+      return (data.embeddings as number[][]).map(normalizeVector);
+    },
+  };
+}
+
+const hashingEmbedder = createHashingEmbedder();
+let edgeEmbedder: EmbeddingProvider | null = null;
+let providerOverride: EmbeddingProvider | null = null;
+
+/**
+ * Replace the provider chosen from settings (tests, experiments). Pass null to restore.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  providerOverride = provider;
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (providerOverride) return providerOverride;
+
+  const settings = loadAISettings();
+  // Full chunk text leaves the device, which strict privacy does not allow
+  if (settings.enabled && settings.serverEmbeddings && !settings.strictPrivacy) {
+    edgeEmbedder ??= createEdgeFunctionEmbedder();
+    return edgeEmbedder;
+  }
+  return hashingEmbedder;
+}
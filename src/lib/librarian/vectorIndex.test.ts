@@ -0,0 +1,179 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createEntry, db, deleteEntry, updateEntry } from '../db';
+import { buildContextPack } from './contextPack';
+import { createHashingEmbedder, dotProduct, hashEmbed, setEmbeddingProvider, type EmbeddingProvider } from './embeddings';
+import { chunkText, refreshEntryVectors, searchEntryVectors } from './vectorIndex';
+
+async function clearTables() {
+  await db.transaction('rw', db.tables, async () => {
+    for (const table of db.tables) {
+      await table.clear();
+    }
+  });
+  localStorage.clear();
+}
+
+function makeEntry(text: string, overrides: Partial<Parameters<typeof createEntry>[0]> = {}) {
+  return createEntry({ date: '2026-03-01', text, mood: 3, tags: [], isPrivate: false, ...overrides });
+}
+
+/** Puts every text about exhaustion, in any language, on one axis. */
+const conceptEmbedder: EmbeddingProvider = {
+  id: 'test-concepts',
+  minSimilarity: 0.5,
+  embed: async (texts) => texts.map(text =>
+    /burn|выжат/i.test(text) ? [1, 0] : [0, 1]
+  ),
+};
+
+describe('hashing embedder', () => {
+  it('is deterministic and normalized', async () => {
+    const embedder = createHashingEmbedder();
+    const [a] = await embedder.embed(['Долгий рабочий день']);
+    const [b] = await embedder.embed(['Долгий рабочий день']);
+
+    expect(a).toEqual(b);
+    expect(dotProduct(a, a)).toBeCloseTo(1, 5);
+  });
+
+  it('places word forms closer than unrelated text', () => {
+    const query = hashEmbed('выжатый');
+    expect(dotProduct(query, hashEmbed('я совсем выжат'))).toBeGreaterThan(
+      dotProduct(query, hashEmbed('купил хлеб и молоко'))
+    );
+  });
+});
+
+describe('chunkText', () => {
+  it('keeps sentences whole and cuts only oversized ones', () => {
+    expect(chunkText('One. Two. Three.', 10)).toEqual(['One. Two.', 'Three.']);
+    expect(chunkText('x'.repeat(25), 10)).toEqual(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)]);
+  });
+});
+
+describe('entry vector index', () => {
+  beforeEach(async () => {
+    await clearTables();
+    setEmbeddingProvider(null);
+  });
+
+  afterEach(() => {
+    setEmbeddingProvider(null);
+  });
+
+  it('re-embeds changed entries and drops deleted or private ones', async () => {
+    const kept = await makeEntry('Вечерняя прогулка у реки');
+    const hidden = await makeEntry('Разговор с врачом');
+    const removed = await makeEntry('Список покупок');
+
+    expect(await refreshEntryVectors()).toBe(3);
+    expect(await refreshEntryVectors()).toBe(0);
+
+    await updateEntry(kept, { text: 'Вечерняя прогулка у моря' });
+    await updateEntry(hidden, { isPrivate: true });
+    await deleteEntry(removed);
+    expect(await refreshEntryVectors()).toBe(1);
+
+    const rows = await db.entryVectors.toArray();
+    expect([...new Set(rows.map(row => row.entryId))]).toEqual([kept]);
+    expect(rows[0].providerId).toBe('hashing-v1-256');
+  });
+
+  it('finds an entry by a word form the query does not contain', async () => {
+    const tired = await makeEntry('После смены я совсем выжат');
+    await makeEntry('Купил хлеб и молоко');
+    await refreshEntryVectors();
+
+    const scores = await searchEntryVectors('выжатый');
+    expect([...scores.keys()]).toEqual([tired]);
+  });
+
+  it('embeds only the query while searching', async () => {
+    await makeEntry('После смены я совсем выжат');
+    await refreshEntryVectors();
+    await makeEntry('Новая запись без вектора');
+
+    const embedded: string[][] = [];
+    setEmbeddingProvider({
+      ...createHashingEmbedder(),
+      embed: async (texts) => {
+        embedded.push(texts);
+        return createHashingEmbedder().embed(texts);
+      },
+    });
+    await searchEntryVectors('выжатый');
+
+    expect(embedded[0]).toEqual(['выжатый']);
+  });
+
+  it('never embeds AI-derived fields', async () => {
+    const id = await makeEntry('Погулял в парке', {
+      semanticTags: ['выгорание'],
+      title: 'Импульс усталости',
+      titleSource: 'ai',
+    });
+    setEmbeddingProvider({
+      ...conceptEmbedder,
+      embed: async (texts) => {
+        expect(texts.join(' ')).not.toMatch(/выгорание|Импульс/);
+        return conceptEmbedder.embed(texts);
+      },
+    });
+
+    await refreshEntryVectors([id]);
+    expect(await db.entryVectors.where('entryId').equals(id).count()).toBe(1);
+  });
+});
+
+describe('hybrid retrieval in the context pack', () => {
+  beforeEach(async () => {
+    await clearTables();
+    setEmbeddingProvider(conceptEmbedder);
+  });
+
+  afterEach(() => {
+    setEmbeddingProvider(null);
+  });
+
+  it('selects entries by meaning but not by semantic tags alone', async () => {
+    const exhausted = await makeEntry('Сегодня я совсем выжат после работы');
+    const taggedOnly = await makeEntry('Погулял в парке', { semanticTags: ['burned out'] });
+    await makeEntry('Купил хлеб');
+    await refreshEntryVectors();
+
+    const result = await buildContextPack({
+      sessionScope: { entryIds: [], docIds: [] },
+      userQuery: 'burned out',
+      mode: 'discuss',
+      findMode: true,
+    });
+
+    const entryIds = result.evidence
+      .filter(evidence => evidence.type === 'entry')
+      .map(evidence => evidence.entityId);
+    expect(entryIds).toEqual([exhausted]);
+    expect(entryIds).not.toContain(taggedOnly);
+  });
+
+  it('falls back to keywords when the provider fails', async () => {
+    setEmbeddingProvider({
+      id: 'broken',
+      minSimilarity: 0.5,
+      embed: async () => {
+        throw new Error('offline');
+      },
+    });
+    const match = await makeEntry('Burned out after the release');
+    await makeEntry('Quiet evening');
+
+    const result = await buildContextPack({
+      sessionScope: { entryIds: [], docIds: [] },
+      userQuery: 'burned',
+      mode: 'discuss',
+      findMode: true,
+    });
+
+    expect(result.evidence.filter(evidence => evidence.type === 'entry').map(evidence => evidence.entityId)).toEqual([match]);
+  });
+});
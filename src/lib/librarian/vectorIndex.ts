@@ -0,0 +1,221 @@
+/**
+ * On-device vector index of diary entries for the librarian.
+ *
+ * Each entry's authored text (user title, text and tags) is split into chunks, and every chunk
+ * is embedded into a row of db.entryVectors. AI-derived fields (semantic tags, AI titles,
+ * photo insights) are never embedded, so a vector match always points at what the user wrote.
+ * Private entries and entries closed to AI are not indexed at all.
+ *
+ * Rows carry a hash of the chunked text and the provider id. Entry saves queue a refresh,
+ * and searches start a throttled background refresh of entries whose hash changed, so bulk
+ * writes (restore, sync) that bypass the entry CRUD helpers heal soon after. A search itself
+ * only embeds the query: with a network provider, re-embedding the diary would hold up the answer.
+ */
+
+import { db, type DiaryEntry, type EntryVector } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { dotProduct, fnv1a, getEmbeddingProvider, type EmbeddingProvider } from './embeddings';
+
+const CHUNK_MAX_CHARS = 500;
+const EMBED_BATCH_SIZE = 32;
+const REFRESH_DELAY = 1500;
+const BACKGROUND_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+export interface VectorSearchOptions {
+  entryIds?: number[];  // Restrict the search to these entries
+}
+
+let pendingRefreshIds = new Set<number>();
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshChain: Promise<unknown> = Promise.resolve();
+let lastBackgroundRefreshAt = 0;
+
+function isEntryIndexable(entry: DiaryEntry): boolean {
+  return !entry.isPrivate && entry.aiAllowed !== false;
+}
+
+/**
+ * The text of an entry that goes into the index: only what the user authored.
+ */
+export function getEntryVectorText(entry: DiaryEntry): string {
+  const title = entry.titleSource === 'ai' ? '' : entry.title || '';
+  return [title, entry.text || '', (entry.tags || []).join(' ')]
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Split text into chunks of whole sentences up to maxChars. Longer sentences are cut.
+ */
+export function chunkText(text: string, maxChars: number = CHUNK_MAX_CHARS): string[] {
+  const sentences = text
+    .split(/(?<=[.!?…])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    for (let i = 0; i < sentence.length; i += maxChars) {
+      const piece = sentence.slice(i, i + maxChars);
+      if (current && current.length + 1 + piece.length > maxChars) {
+        chunks.push(current);
+        current = piece;
+      } else {
+        current = current ? `${current} ${piece}` : piece;
+      }
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function contentHash(provider: EmbeddingProvider, chunks: string[]): string {
+  return fnv1a(`${provider.id}\u0000${chunks.join('\u0000')}`).toString(36);
+}
+
+async function embedInBatches(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    vectors.push(...await provider.embed(texts.slice(i, i + EMBED_BATCH_SIZE)));
+  }
+  return vectors;
+}
+
+async function refreshNow(entryIds?: number[]): Promise<number> {
+  const provider = getEmbeddingProvider();
+  const entries = entryIds
+    ? (await db.entries.bulkGet(entryIds)).filter((entry): entry is DiaryEntry => Boolean(entry))
+    : await db.entries.toArray();
+  const rows = entryIds
+    ? await db.entryVectors.where('entryId').anyOf(entryIds).toArray()
+    : await db.entryVectors.toArray();
+
+  const storedHashes = new Map<number, string>();
+  for (const row of rows) storedHashes.set(row.entryId, row.contentHash);
+
+  const indexable = new Set<number>();
+  const stale: Array<{ entryId: number; chunks: string[]; hash: string }> = [];
+  for (const entry of entries) {
+    if (!isEntryIndexable(entry)) continue;
+    indexable.add(entry.id!);
+    const chunks = chunkText(getEntryVectorText(entry));
+    const hash = contentHash(provider, chunks);
+    if (storedHashes.get(entry.id!) !== hash) {
+      stale.push({ entryId: entry.id!, chunks, hash });
+    }
+  }
+
+  // Deleted, private, or closed to AI since they were indexed
+  const removedIds = [...storedHashes.keys()].filter(id => !indexable.has(id));
+  if (stale.length === 0 && removedIds.length === 0) return 0;
+
+  // Embed outside the transaction: a network provider would let it auto-commit
+  const vectors = await embedInBatches(provider, stale.flatMap(item => item.chunks));
+  const indexedAt = Date.now();
+  const newRows: EntryVector[] = [];
+  let offset = 0;
+  for (const item of stale) {
+    item.chunks.forEach((_, chunkIndex) => {
+      newRows.push({
+        id: `${item.entryId}:${chunkIndex}`,
+        entryId: item.entryId,
+        chunkIndex,
+        providerId: provider.id,
+        contentHash: item.hash,
+        vector: vectors[offset++],
+        indexedAt,
+      });
+    });
+  }
+
+  await db.transaction('rw', db.entryVectors, async () => {
+    const replacedIds = [...removedIds, ...stale.map(item => item.entryId)];
+    if (replacedIds.length > 0) {
+      await db.entryVectors.where('entryId').anyOf(replacedIds).delete();
+    }
+    if (newRows.length > 0) {
+      await db.entryVectors.bulkPut(newRows);
+    }
+  });
+
+  return stale.length;
+}
+
+/**
+ * Bring the index up to date for the given entries (all entries when omitted).
+ * Refreshes run one at a time so concurrent callers never embed the same entry twice.
+ * @returns Number of re-embedded entries
+ */
+export function refreshEntryVectors(entryIds?: number[]): Promise<number> {
+  const run = refreshChain.then(() => refreshNow(entryIds));
+  refreshChain = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Schedule a refresh after an entry was saved. Saves in quick succession share one refresh.
+ */
+export function queueEntryVectorRefresh(entryId: number): void {
+  pendingRefreshIds.add(entryId);
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(() => {
+    const ids = [...pendingRefreshIds];
+    pendingRefreshIds = new Set();
+    refreshTimer = null;
+    refreshEntryVectors(ids).catch(error => {
+      logger.warn('VectorIndex', 'Refresh failed', error);
+    });
+  }, REFRESH_DELAY);
+}
+
+/**
+ * Re-check the whole index without waiting for it. Runs at most once per interval.
+ */
+export function scheduleBackgroundVectorRefresh(): void {
+  const now = Date.now();
+  if (now - lastBackgroundRefreshAt < BACKGROUND_REFRESH_INTERVAL) return;
+  lastBackgroundRefreshAt = now;
+  refreshEntryVectors().catch(error => {
+    logger.warn('VectorIndex', 'Background refresh failed', error);
+  });
+}
+
+/**
+ * Remove an entry's vectors.
+ * MUST be called within a transaction that includes db.entryVectors.
+ */
+export async function removeEntryVectorsInTransaction(entryId: number): Promise<void> {
+  await db.entryVectors.where('entryId').equals(entryId).delete();
+}
+
+/**
+ * Similarity of each entry to the query: the best of its chunks.
+ * Only entries at or above the provider's noise floor are returned.
+ * Searches what is indexed now; entries saved in the last moments may not be in yet.
+ */
+export async function searchEntryVectors(
+  query: string,
+  options: VectorSearchOptions = {}
+): Promise<Map<number, number>> {
+  const scores = new Map<number, number>();
+  if (!query.trim()) return scores;
+
+  scheduleBackgroundVectorRefresh();
+
+  const provider = getEmbeddingProvider();
+  const [queryVector] = await provider.embed([query]);
+  const rows = options.entryIds
+    ? await db.entryVectors.where('entryId').anyOf(options.entryIds).toArray()
+    : await db.entryVectors.toArray();
+
+  for (const row of rows) {
+    if (row.providerId !== provider.id) continue;
+    const similarity = dotProduct(queryVector, row.vector);
+    if (similarity >= provider.minSimilarity && similarity > (scores.get(row.entryId) ?? 0)) {
+      scores.set(row.entryId, similarity);
+    }
+  }
+  return scores;
+}
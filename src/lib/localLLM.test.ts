@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_AI_SETTINGS, type AISettings } from './aiConfig';
+import {
+  extractJSONObject,
+  listLocalModels,
+  localChatCompletion,
+  normalizeLocalEndpoint,
+  testLocalConnection,
+} from './localLLM';
+
+function localSettings(overrides: Partial<AISettings> = {}): AISettings {
+  return { ...DEFAULT_AI_SETTINGS, enabled: true, provider: 'local', ...overrides };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('normalizeLocalEndpoint', () => {
+  it('accepts loopback hosts and strips trailing slashes', () => {
+    expect(normalizeLocalEndpoint(' http://localhost:11434/v1/ ')).toBe('http://localhost:11434/v1');
+    expect(normalizeLocalEndpoint('http://127.0.0.1:8080/v1')).toBe('http://127.0.0.1:8080/v1');
+    expect(normalizeLocalEndpoint('http://[::1]:1234')).toBe('http://[::1]:1234');
+    expect(normalizeLocalEndpoint('http://llm.localhost/v1')).toBe('http://llm.localhost/v1');
+  });
+
+  it('rejects remote hosts and malformed addresses', () => {
+    expect(() => normalizeLocalEndpoint('https://api.example.com/v1')).toThrow('LOCAL_ENDPOINT_NOT_LOOPBACK');
+    expect(() => normalizeLocalEndpoint('localhost:11434')).toThrow('LOCAL_ENDPOINT_INVALID');
+    expect(() => normalizeLocalEndpoint('not a url')).toThrow('LOCAL_ENDPOINT_INVALID');
+  });
+});
+
+describe('localChatCompletion', () => {
+  it('posts to the local server with the optional bearer key', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({
+      choices: [{ message: { content: 'Hello from llama' } }],
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const reply = await localChatCompletion(
+      { messages: [{ role: 'user', content: 'Hi' }], model: 'llama3.1:8b', maxTokens: 64, temperature: 0.2 },
+      localSettings({ localApiKey: 'secret' }),
+    );
+
+    expect(reply).toBe('Hello from llama');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'llama3.1:8b', max_tokens: 64, stream: false });
+  });
+
+  it('streams tokens when a callback is given', async () => {
+    const sse = 'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n'
+      + 'data: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: [DONE]\n\n';
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(sse)));
+    const tokens: string[] = [];
+
+    const reply = await localChatCompletion(
+      { messages: [{ role: 'user', content: 'Hi' }], model: 'llama3.2:3b', onToken: token => tokens.push(token) },
+      localSettings(),
+    );
+
+    expect(reply).toBe('Hello');
+    expect(tokens).toEqual(['Hel', 'lo']);
+  });
+
+  it('reports an unreachable server and refuses remote endpoints', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    await expect(localChatCompletion(
+      { messages: [], model: 'm', language: 'en' },
+      localSettings(),
+    )).rejects.toThrow('Local model is unreachable at http://localhost:11434/v1');
+
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    await expect(localChatCompletion(
+      { messages: [], model: 'm', language: 'en' },
+      localSettings({ localEndpoint: 'https://example.com/v1' }),
+    )).rejects.toThrow('must point to localhost');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('local models', () => {
+  it('lists model ids and flags mapped models the server lacks', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => jsonResponse({
+      data: [{ id: 'llama3.2:3b' }, { id: 'llama3.1:8b' }],
+    })));
+
+    expect(await listLocalModels(localSettings())).toEqual(['llama3.1:8b', 'llama3.2:3b']);
+    expect((await testLocalConnection('en', localSettings())).success).toBe(true);
+
+    const result = await testLocalConnection('en', localSettings({
+      localModels: { ...DEFAULT_AI_SETTINGS.localModels, quality: 'qwen2.5:14b' },
+    }));
+    expect(result).toEqual({ success: false, message: 'Server does not have models: qwen2.5:14b' });
+  });
+});
+
+describe('extractJSONObject', () => {
+  it('reads JSON wrapped in fences or prose', () => {
+    expect(extractJSONObject('Sure!\n```json\n{"mood": 4}\n```')).toEqual({ mood: 4 });
+    expect(() => extractJSONObject('no json here')).toThrow('LOCAL_RESPONSE_INVALID');
+  });
+});
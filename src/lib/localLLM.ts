@@ -0,0 +1,191 @@
+import { loadAISettings, type AISettings } from './aiConfig';
+import { collectSSEStream, parseAIError } from './aiUtils';
+import type { ChatMessage } from './aiService';
+
+/**
+ * Client for the 'local' AI provider: an OpenAI-compatible server the user runs on this
+ * device (Ollama, llama.cpp server, LM Studio). Requests go straight from the app to the
+ * loopback endpoint and never pass through the edge functions, so they also work offline.
+ */
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Validate the configured endpoint and strip trailing slashes.
+ * Only loopback hosts are accepted so diary text cannot be pointed at a remote machine
+ * by mistake.
+ * @throws Error('LOCAL_ENDPOINT_INVALID' | 'LOCAL_ENDPOINT_NOT_LOOPBACK')
+ */
+export function normalizeLocalEndpoint(endpoint: string): string {
+  let url: URL;
+  try {
+    url = new URL(endpoint.trim());
+  } catch {
+    throw new Error('LOCAL_ENDPOINT_INVALID');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('LOCAL_ENDPOINT_INVALID');
+  }
+
+  const host = url.hostname.toLowerCase();
+  if (!LOOPBACK_HOSTS.includes(host) && !host.endsWith('.localhost')) {
+    throw new Error('LOCAL_ENDPOINT_NOT_LOOPBACK');
+  }
+
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+function getLocalHeaders(settings: AISettings): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.localApiKey.trim()) {
+    headers['Authorization'] = `Bearer ${settings.localApiKey.trim()}`;
+  }
+  return headers;
+}
+
+function getEndpointErrorMessage(code: string, language: 'ru' | 'en'): string {
+  if (code === 'LOCAL_ENDPOINT_NOT_LOOPBACK') {
+    return language === 'ru'
+      ? 'Адрес локальной модели должен указывать на localhost'
+      : 'The local model address must point to localhost';
+  }
+  return language === 'ru' ? 'Некорректный адрес локальной модели' : 'Invalid local model address';
+}
+
+async function localFetch(
+  path: string,
+  init: RequestInit,
+  settings: AISettings,
+  language: 'ru' | 'en',
+): Promise<Response> {
+  let base: string;
+  try {
+    base = normalizeLocalEndpoint(settings.localEndpoint);
+  } catch (error) {
+    throw new Error(getEndpointErrorMessage((error as Error).message, language));
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${base}${path}`, {
+      ...init,
+      headers: getLocalHeaders(settings),
+    });
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw error;
+    throw new Error(language === 'ru'
+      ? `Локальная модель недоступна по адресу ${base}. Сервер запущен?`
+      : `Local model is unreachable at ${base}. Is the server running?`);
+  }
+
+  if (!response.ok) {
+    throw new Error(parseAIError(response.status, language));
+  }
+  return response;
+}
+
+export interface LocalCompletionOptions {
+  messages: ChatMessage[];
+  model: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Streams the reply when set; otherwise the server is asked for a single response */
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+  language?: 'ru' | 'en';
+}
+
+/**
+ * Run a chat completion against the local server and return the full reply text.
+ */
+export async function localChatCompletion(
+  options: LocalCompletionOptions,
+  settings: AISettings = loadAISettings(),
+): Promise<string> {
+  const { messages, model, maxTokens, temperature, onToken, signal, language = 'ru' } = options;
+  const stream = Boolean(onToken);
+
+  const response = await localFetch('/chat/completions', {
+    method: 'POST',
+    body: JSON.stringify({
+      model,
+      messages,
+      max_tokens: maxTokens,
+      temperature,
+      stream,
+    }),
+    signal,
+  }, settings, language);
+
+  if (stream) {
+    return await collectSSEStream(response, onToken);
+  }
+
+  const data = await response.json();
+  return data.choices?.[0]?.message?.content || '';
+}
+
+/**
+ * Model ids the local server reports (GET /models). Ollama, llama.cpp and LM Studio all
+ * implement it.
+ */
+export async function listLocalModels(
+  settings: AISettings = loadAISettings(),
+  language: 'ru' | 'en' = 'ru',
+): Promise<string[]> {
+  const response = await localFetch('/models', { method: 'GET' }, settings, language);
+  const data = await response.json();
+  const models: unknown[] = Array.isArray(data?.data) ? data.data : [];
+  return models
+    .map(model => (model as { id?: unknown })?.id)
+    .filter((id): id is string => typeof id === 'string' && id.length > 0)
+    .sort();
+}
+
+/**
+ * Check that the local server answers and has the models the profiles are mapped to.
+ */
+export async function testLocalConnection(
+  language: 'ru' | 'en' = 'ru',
+  settings: AISettings = loadAISettings(),
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const available = await listLocalModels(settings, language);
+    const missing = [...new Set(Object.values(settings.localModels))]
+      .filter(model => model.trim() && !available.includes(model.trim()));
+
+    if (available.length > 0 && missing.length > 0) {
+      return {
+        success: false,
+        message: language === 'ru'
+          ? `Сервер не знает модели: ${missing.join(', ')}`
+          : `Server does not have models: ${missing.join(', ')}`,
+      };
+    }
+    return {
+      success: true,
+      message: language === 'ru' ? 'Локальная модель доступна' : 'Local model is reachable',
+    };
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Pull the first JSON object out of a model reply. Small local models often wrap JSON in
+ * code fences or add a sentence before it.
+ * @throws Error('LOCAL_RESPONSE_INVALID')
+ */
+export function extractJSONObject<T = Record<string, unknown>>(content: string): T {
+  const unfenced = content.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('LOCAL_RESPONSE_INVALID');
+  }
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1)) as T;
+  } catch {
+    throw new Error('LOCAL_RESPONSE_INVALID');
+  }
+}
@@ -0,0 +1,110 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import type { DiaryEntry } from './db';
+import {
+  buildMoodAnalytics,
+  calculateTagCorrelations,
+  calculateTagMoodShift,
+  findLongestStreak,
+  getCurrentStreak,
+  getDailyMoods,
+  getTimeOfDaySlot,
+} from './moodAnalyticsService';
+
+let nextId = 1;
+
+function entry(date: string, mood: number, tags: string[] = [], hour = 21): DiaryEntry {
+  const [year, month, day] = date.split('-').map(Number);
+  const createdAt = new Date(year, month - 1, day, hour).getTime();
+  return { id: nextId++, date, text: '', mood, tags, isPrivate: false, aiAllowed: true, createdAt, updatedAt: createdAt };
+}
+
+const range = (start: string, end: string) => ({
+  start: new Date(`${start}T00:00:00`),
+  end: new Date(`${end}T23:59:59`),
+});
+
+describe('mood analytics', () => {
+  it('averages days first, then rolls the daily averages', () => {
+    const entries = [
+      entry('2026-10-01', 5),
+      entry('2026-10-01', 1),
+      entry('2026-10-02', 4),
+      entry('2026-10-05', 2),
+    ];
+    const analytics = buildMoodAnalytics(entries, range('2026-10-01', '2026-10-05'), new Date(2026, 9, 5));
+
+    expect(analytics.daily.map(day => day.avgMood)).toEqual([3, 4, null, null, 2]);
+    expect(analytics.daily.map(day => day.entryCount)).toEqual([2, 1, 0, 0, 1]);
+    expect(analytics.daily[4].rolling7).toBe(3);
+    expect(analytics.summary).toEqual({ entryCount: 4, avgMood: 3, activeDays: 3, dayCount: 5 });
+  });
+
+  it('looks back before the range for rolling averages and ignores unrated entries', () => {
+    const unrated = { ...entry('2026-10-10', 0), mood: null as unknown as number };
+    const entries = [entry('2026-09-20', 1), entry('2026-10-09', 5), unrated];
+    const [first, second] = buildMoodAnalytics(entries, range('2026-10-09', '2026-10-10'), new Date(2026, 9, 10)).daily;
+
+    expect(first).toMatchObject({ avgMood: 5, rolling7: 5, rolling30: 3 });
+    expect(second).toMatchObject({ avgMood: null, entryCount: 1, rolling7: 5 });
+  });
+
+  it('groups by weekday from the entry date and by time of day from createdAt', () => {
+    // 2026-10-19 is a Monday, 2026-10-25 a Sunday
+    const entries = [
+      entry('2026-10-19', 4, [], 8),
+      entry('2026-10-19', 2, [], 23),
+      entry('2026-10-25', 5, [], 3),
+    ];
+    const analytics = buildMoodAnalytics(entries, range('2026-10-19', '2026-10-25'), new Date(2026, 9, 25));
+
+    expect(analytics.byWeekday[0]).toEqual({ key: 1, avgMood: 3, entryCount: 2 });
+    expect(analytics.byWeekday[6]).toEqual({ key: 0, avgMood: 5, entryCount: 1 });
+    expect(analytics.byTimeOfDay.map(slot => [slot.key, slot.avgMood])).toEqual([
+      ['night', 5], ['morning', 4], ['afternoon', null], ['evening', 2],
+    ]);
+    expect(analytics.weekdayHourCounts[0][8]).toBe(1);
+    expect(analytics.weekdayHourCounts[6][3]).toBe(1);
+    expect(getTimeOfDaySlot(17)).toBe('afternoon');
+  });
+
+  it('compares tagged entries with the rest once a tag is common enough', () => {
+    const entries = [
+      entry('2026-10-01', 5, ['sport']),
+      entry('2026-10-02', 4, ['sport', 'work']),
+      entry('2026-10-03', 5, ['sport']),
+      entry('2026-10-04', 2, ['work']),
+      entry('2026-10-05', 2),
+      entry('2026-10-06', 2),
+    ];
+    const [sport] = calculateTagCorrelations(entries);
+
+    expect(sport.tag).toBe('sport');
+    expect(sport.avgWith).toBeCloseTo(14 / 3);
+    expect(sport.delta).toBeCloseTo(14 / 3 - 2);
+    expect(calculateTagCorrelations(entries).map(c => c.tag)).not.toContain('work');
+  });
+
+  it('measures mood in the days around a tag, skipping other tagged days', () => {
+    const entries = [
+      entry('2026-10-01', 2),
+      entry('2026-10-02', 3),
+      entry('2026-10-03', 1, ['argument']),
+      entry('2026-10-04', 1, ['argument']),
+      entry('2026-10-05', 4),
+    ];
+    const shift = calculateTagMoodShift('argument', ['2026-10-03', '2026-10-04'], getDailyMoods(entries));
+
+    expect(shift).toEqual({ tag: 'argument', occurrences: 2, before: 2.5, on: 1, after: 4 });
+  });
+
+  it('finds the longest and current streaks', () => {
+    const dates = ['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-07', '2026-10-08', '2026-09-30'];
+
+    expect(findLongestStreak(dates)).toEqual({ length: 4, start: '2026-09-30', end: '2026-10-03' });
+    expect(findLongestStreak([])).toBeNull();
+    expect(getCurrentStreak(new Set(dates), new Date(2026, 9, 9))).toBe(2);
+    expect(getCurrentStreak(new Set(dates), new Date(2026, 9, 8))).toBe(2);
+    expect(getCurrentStreak(new Set(dates), new Date(2026, 9, 10))).toBe(0);
+  });
+});
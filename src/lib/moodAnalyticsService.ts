@@ -0,0 +1,280 @@
+import { db, type DiaryEntry } from "./db";
+import { addDays, differenceInCalendarDays, eachDayOfInterval, format, getDay, parseISO, subDays } from "date-fns";
+import type { DateRange } from "./receiptAnalyticsService";
+
+/**
+ * Mood and habit analytics, computed locally from diary entries.
+ *
+ * Days are keyed by entry.date (the day the entry is about); time of day comes from
+ * createdAt (when it was written). Averages over several days are means of daily
+ * averages, so a day with many entries counts once.
+ */
+
+// Weekdays in display order, Monday first (values are Date.getDay())
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export type TimeOfDaySlot = "night" | "morning" | "afternoon" | "evening";
+
+const TIME_OF_DAY_SLOTS: { slot: TimeOfDaySlot; fromHour: number }[] = [
+  { slot: "night", fromHour: 0 },
+  { slot: "morning", fromHour: 6 },
+  { slot: "afternoon", fromHour: 12 },
+  { slot: "evening", fromHour: 18 },
+];
+
+// Tags need this many entries (and as many without them) before they are compared
+const MIN_TAG_ENTRIES = 3;
+const TAG_SHIFT_WINDOW_DAYS = 3;
+
+export interface MoodDay {
+  date: string; // YYYY-MM-DD
+  avgMood: number | null;
+  entryCount: number;
+  rolling7: number | null;
+  rolling30: number | null;
+}
+
+export interface MoodBucket<K> {
+  key: K;
+  avgMood: number | null;
+  entryCount: number;
+}
+
+export interface TagMoodCorrelation {
+  tag: string;
+  entryCount: number;
+  avgWith: number;
+  avgWithout: number;
+  delta: number; // avgWith - avgWithout
+}
+
+export interface TagMoodShift {
+  tag: string;
+  occurrences: number;
+  before: number | null; // Days before a tagged day
+  on: number | null;
+  after: number | null;
+}
+
+export interface Streak {
+  length: number;
+  start: string;
+  end: string;
+}
+
+export interface MoodAnalytics {
+  summary: {
+    entryCount: number;
+    avgMood: number | null;
+    activeDays: number;
+    dayCount: number;
+  };
+  daily: MoodDay[];
+  byWeekday: MoodBucket<number>[];
+  byTimeOfDay: MoodBucket<TimeOfDaySlot>[];
+  weekdayHourCounts: number[][]; // [WEEKDAY_ORDER index][hour]
+  tagCorrelations: TagMoodCorrelation[];
+  tagShifts: TagMoodShift[];
+  streaks: {
+    current: number;
+    longest: Streak | null;
+  };
+}
+
+function hasMood(entry: DiaryEntry): boolean {
+  return typeof entry.mood === "number" && entry.mood >= 1 && entry.mood <= 5;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function toDateString(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function bucket<K>(key: K, entries: DiaryEntry[]): MoodBucket<K> {
+  return {
+    key,
+    avgMood: mean(entries.filter(hasMood).map(e => e.mood)),
+    entryCount: entries.length,
+  };
+}
+
+export function getTimeOfDaySlot(hour: number): TimeOfDaySlot {
+  let current: TimeOfDaySlot = "night";
+  for (const { slot, fromHour } of TIME_OF_DAY_SLOTS) {
+    if (hour >= fromHour) current = slot;
+  }
+  return current;
+}
+
+// Daily average mood for every day that has rated entries
+export function getDailyMoods(entries: DiaryEntry[]): Map<string, number> {
+  const moodsByDate = new Map<string, number[]>();
+  entries.filter(hasMood).forEach(entry => {
+    moodsByDate.set(entry.date, [...(moodsByDate.get(entry.date) ?? []), entry.mood]);
+  });
+  return new Map([...moodsByDate].map(([date, moods]) => [date, mean(moods)!]));
+}
+
+function rollingAverage(dailyMoods: Map<string, number>, day: Date, windowDays: number): number | null {
+  const values: number[] = [];
+  for (let offset = 0; offset < windowDays; offset++) {
+    const mood = dailyMoods.get(toDateString(subDays(day, offset)));
+    if (mood !== undefined) values.push(mood);
+  }
+  return mean(values);
+}
+
+/**
+ * Longest run of consecutive days with at least one entry.
+ */
+export function findLongestStreak(dates: Iterable<string>): Streak | null {
+  const sorted = [...new Set(dates)].sort();
+  let longest: Streak | null = null;
+  let runStart = 0;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const continues = i > 0 && differenceInCalendarDays(parseISO(sorted[i]), parseISO(sorted[i - 1])) === 1;
+    if (!continues) runStart = i;
+    const length = i - runStart + 1;
+    if (!longest || length > longest.length) {
+      longest = { length, start: sorted[runStart], end: sorted[i] };
+    }
+  }
+
+  return longest;
+}
+
+/**
+ * Run of consecutive days ending today, or yesterday if today has no entry yet.
+ */
+export function getCurrentStreak(dates: Set<string>, today: Date): number {
+  let day = dates.has(toDateString(today)) ? today : subDays(today, 1);
+  let streak = 0;
+  while (dates.has(toDateString(day))) {
+    streak++;
+    day = subDays(day, 1);
+  }
+  return streak;
+}
+
+export function calculateTagCorrelations(entries: DiaryEntry[]): TagMoodCorrelation[] {
+  const rated = entries.filter(hasMood);
+  const tags = new Set(rated.flatMap(e => e.tags));
+  const correlations: TagMoodCorrelation[] = [];
+
+  tags.forEach(tag => {
+    const withTag = rated.filter(e => e.tags.includes(tag));
+    const withoutTag = rated.filter(e => !e.tags.includes(tag));
+    if (withTag.length < MIN_TAG_ENTRIES || withoutTag.length < MIN_TAG_ENTRIES) return;
+
+    const avgWith = mean(withTag.map(e => e.mood))!;
+    const avgWithout = mean(withoutTag.map(e => e.mood))!;
+    correlations.push({ tag, entryCount: withTag.length, avgWith, avgWithout, delta: avgWith - avgWithout });
+  });
+
+  return correlations.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || b.entryCount - a.entryCount);
+}
+
+/**
+ * Mood in the days around a tag: the few days before each tagged day, the day itself and the days after.
+ * Days that carry the tag themselves are left out of the before/after windows.
+ */
+export function calculateTagMoodShift(
+  tag: string,
+  taggedDates: string[],
+  dailyMoods: Map<string, number>,
+  windowDays = TAG_SHIFT_WINDOW_DAYS
+): TagMoodShift {
+  const tagged = new Set(taggedDates);
+  const collect = (direction: -1 | 1) => [...tagged].flatMap(date => {
+    const values: number[] = [];
+    for (let offset = 1; offset <= windowDays; offset++) {
+      const day = toDateString(addDays(parseISO(date), direction * offset));
+      const mood = dailyMoods.get(day);
+      if (mood !== undefined && !tagged.has(day)) values.push(mood);
+    }
+    return values;
+  });
+
+  return {
+    tag,
+    occurrences: tagged.size,
+    before: mean(collect(-1)),
+    on: mean([...tagged].map(date => dailyMoods.get(date)).filter((m): m is number => m !== undefined)),
+    after: mean(collect(1)),
+  };
+}
+
+/**
+ * Pure part of calculateMoodAnalytics.
+ * allEntries may reach before the range: rolling averages, shifts and the current streak look back.
+ */
+export function buildMoodAnalytics(allEntries: DiaryEntry[], range: DateRange, today: Date = new Date()): MoodAnalytics {
+  const startStr = toDateString(range.start);
+  const endStr = toDateString(range.end);
+  const entries = allEntries.filter(e => e.date >= startStr && e.date <= endStr);
+  const allDailyMoods = getDailyMoods(allEntries);
+
+  const countsByDate = new Map<string, number>();
+  entries.forEach(e => countsByDate.set(e.date, (countsByDate.get(e.date) ?? 0) + 1));
+
+  const days = range.start <= range.end ? eachDayOfInterval({ start: range.start, end: range.end }) : [];
+  const daily: MoodDay[] = days.map(day => {
+    const date = toDateString(day);
+    return {
+      date,
+      avgMood: allDailyMoods.get(date) ?? null,
+      entryCount: countsByDate.get(date) ?? 0,
+      rolling7: rollingAverage(allDailyMoods, day, 7),
+      rolling30: rollingAverage(allDailyMoods, day, 30),
+    };
+  });
+
+  const weekdayOf = (e: DiaryEntry) => getDay(parseISO(e.date));
+  const byWeekday = WEEKDAY_ORDER.map(weekday => bucket(weekday, entries.filter(e => weekdayOf(e) === weekday)));
+  const byTimeOfDay = TIME_OF_DAY_SLOTS.map(({ slot }) =>
+    bucket(slot, entries.filter(e => getTimeOfDaySlot(new Date(e.createdAt).getHours()) === slot))
+  );
+
+  const weekdayHourCounts = WEEKDAY_ORDER.map(() => new Array<number>(24).fill(0));
+  entries.forEach(e => {
+    const written = new Date(e.createdAt);
+    weekdayHourCounts[WEEKDAY_ORDER.indexOf(written.getDay())][written.getHours()]++;
+  });
+
+  const tagCorrelations = calculateTagCorrelations(entries);
+  const tagShifts = tagCorrelations.map(({ tag }) =>
+    calculateTagMoodShift(tag, entries.filter(e => e.tags.includes(tag)).map(e => e.date), allDailyMoods)
+  );
+
+  const rangeMoods = [...countsByDate.keys()]
+    .map(date => allDailyMoods.get(date))
+    .filter((m): m is number => m !== undefined);
+
+  return {
+    summary: {
+      entryCount: entries.length,
+      avgMood: mean(rangeMoods),
+      activeDays: countsByDate.size,
+      dayCount: days.length,
+    },
+    daily,
+    byWeekday,
+    byTimeOfDay,
+    weekdayHourCounts,
+    tagCorrelations,
+    tagShifts,
+    streaks: {
+      current: getCurrentStreak(new Set(allEntries.map(e => e.date).filter(Boolean)), today),
+      longest: findLongestStreak(countsByDate.keys()),
+    },
+  };
+}
+
+export async function calculateMoodAnalytics(range: DateRange): Promise<MoodAnalytics> {
+  const allEntries = await db.entries.toArray();
+  return buildMoodAnalytics(allEntries, range);
+}
@@ -0,0 +1,122 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { addDiscussionMessage, createDiscussionSession, createEntry, db } from './db';
+import { buildPlanReminderDrafts, createRemindersFromPlan } from './planReminders';
+import { parseDueHint } from './reminderUtils';
+
+// Monday
+const NOW = new Date(2026, 9, 19, 12, 0);
+
+function at(year: number, month: number, day: number, hours = 9, minutes = 0): number {
+  return new Date(year, month, day, hours, minutes).getTime();
+}
+
+describe('parseDueHint', () => {
+  it.each([
+    ['завтра вечером', at(2026, 9, 20, 19)],
+    ['by Friday', at(2026, 9, 23)],
+    ['в понедельник', at(2026, 9, 26)],
+    ['через 2 недели', at(2026, 10, 2)],
+    ['in 3 hours', at(2026, 9, 19, 15)],
+    ['5 марта в 10:00', at(2027, 2, 5, 10)],
+    ['March 5th', at(2027, 2, 5)],
+    ['2026-11-01', at(2026, 10, 1)],
+    ['at 6pm', at(2026, 9, 19, 18)],
+    ['сегодня', at(2026, 9, 19, 18)],
+    ['end of month', at(2026, 9, 31)],
+    ['this weekend', at(2026, 9, 24, 10)],
+  ])('reads "%s"', (hint, expected) => {
+    expect(parseDueHint(hint, NOW)).toEqual({ dueAt: expected, matched: true });
+  });
+
+  it('falls back to tomorrow morning for hints it does not understand', () => {
+    expect(parseDueHint('когда будет настроение', NOW)).toEqual({ dueAt: at(2026, 9, 20), matched: false });
+    expect(parseDueHint('', NOW).matched).toBe(false);
+  });
+});
+
+describe('plan reminders', () => {
+  async function clearTables() {
+    await db.transaction('rw', db.tables, async () => {
+      for (const table of db.tables) {
+        await table.clear();
+      }
+    });
+  }
+
+  beforeEach(clearTables);
+  afterEach(clearTables);
+
+  async function addPlanMessage() {
+    const entryId = await createEntry({ date: '2026-10-18', text: 'Переезд', mood: 3, tags: [], isPrivate: false });
+    const sessionId = await createDiscussionSession({
+      title: 'Moving',
+      scope: { entryIds: [entryId], docIds: [] },
+      modeDefault: 'plan',
+    });
+    const messageId = await addDiscussionMessage({
+      sessionId,
+      role: 'assistant',
+      content: 'Plan',
+      meta: {
+        planArtifact: {
+          type: 'plan',
+          title: 'Move out',
+          items: [
+            { text: 'Book a van', dueHint: 'tomorrow' },
+            { text: 'Pack books', priority: 'low' },
+            { text: 'Return keys', dueHint: 'by Friday', reminderId: 99 },
+          ],
+        },
+      },
+    });
+    return { entryId, messageId };
+  }
+
+  it('drafts only items that are not reminders yet', async () => {
+    const { messageId } = await addPlanMessage();
+    const plan = (await db.discussionMessages.get(messageId))!.meta!.planArtifact!;
+
+    const drafts = buildPlanReminderDrafts(plan, NOW);
+    expect(drafts.map(draft => [draft.itemIndex, draft.dueHintMatched])).toEqual([[0, true], [1, false]]);
+    expect(drafts[0].dueAt).toBe(at(2026, 9, 20));
+  });
+
+  it('links the reminders to the discussion and marks items converted once', async () => {
+    const { messageId } = await addPlanMessage();
+    const message = (await db.discussionMessages.get(messageId))!;
+    const drafts = buildPlanReminderDrafts(message.meta!.planArtifact!, NOW);
+
+    const ids = await createRemindersFromPlan({ messageId, drafts });
+    expect(ids).toHaveLength(2);
+
+    const reminders = await db.reminders.bulkGet(ids);
+    for (const reminder of reminders) {
+      expect(reminder).toMatchObject({ sessionId: message.sessionId, messageId });
+      expect(reminder?.entryId).toBeUndefined();
+    }
+    // No diary note is added as the source
+    expect(await db.entries.count()).toBe(1);
+
+    const items = (await db.discussionMessages.get(messageId))!.meta!.planArtifact!.items;
+    expect(items.map(item => item.reminderId)).toEqual([ids[0], ids[1], 99]);
+
+    expect(await createRemindersFromPlan({ messageId, drafts })).toEqual([]);
+    expect(await db.reminders.count()).toBe(2);
+  });
+
+  it('links to a chosen entry without adding a note', async () => {
+    const { entryId, messageId } = await addPlanMessage();
+    const plan = (await db.discussionMessages.get(messageId))!.meta!.planArtifact!;
+    const [first] = buildPlanReminderDrafts(plan, NOW);
+
+    const [id] = await createRemindersFromPlan({
+      messageId,
+      drafts: [{ ...first, actionText: 'Book a small van' }],
+      sourceEntryId: entryId,
+    });
+
+    expect(await db.reminders.get(id)).toMatchObject({ entryId, actionText: 'Book a small van', sourceText: 'Book a van' });
+    expect(await db.entries.count()).toBe(1);
+  });
+});
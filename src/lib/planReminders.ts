@@ -0,0 +1,95 @@
+/**
+ * Turn plan artifacts from discussions into reminders.
+ *
+ * Each plan item becomes one reminder, linked either to an entry the user picks or to the
+ * discussion message holding the plan (sessionId/messageId), so no diary note is needed.
+ */
+
+import { db, type DiscussionMessage, type ReminderRepeat } from './db';
+import { parseDueHint } from './reminderUtils';
+
+type PlanArtifact = NonNullable<NonNullable<DiscussionMessage['meta']>['planArtifact']>;
+
+export interface PlanReminderDraft {
+  itemIndex: number;
+  actionText: string;
+  dueHint?: string;
+  dueAt: number;
+  dueHintMatched: boolean;      // false: the hint was not understood, dueAt is a default
+  repeat: ReminderRepeat;
+}
+
+/**
+ * Drafts for the plan items that are not reminders yet.
+ */
+export function buildPlanReminderDrafts(plan: PlanArtifact, now: Date = new Date()): PlanReminderDraft[] {
+  return plan.items.flatMap((item, itemIndex) => {
+    if (item.reminderId !== undefined) return [];
+    const parsed = parseDueHint(item.dueHint ?? '', now);
+    return [{
+      itemIndex,
+      actionText: item.text.trim(),
+      dueHint: item.dueHint,
+      dueAt: parsed.dueAt,
+      dueHintMatched: parsed.matched,
+      repeat: 'none' as const,
+    }];
+  });
+}
+
+/**
+ * Save the drafts as reminders and mark their plan items as converted.
+ * Items converted in the meantime are skipped, so a repeated tap adds nothing.
+ * @returns ids of the created reminders
+ * @throws Error('PLAN_NOT_FOUND') if the message has no plan
+ */
+export async function createRemindersFromPlan(options: {
+  messageId: number;
+  drafts: PlanReminderDraft[];
+  sourceEntryId?: number;       // Without one, the discussion message is the source
+}): Promise<number[]> {
+  const message = await db.discussionMessages.get(options.messageId);
+  const plan = message?.meta?.planArtifact;
+  if (!message || !plan) {
+    throw new Error('PLAN_NOT_FOUND');
+  }
+
+  const drafts = options.drafts.filter(draft =>
+    plan.items[draft.itemIndex] && plan.items[draft.itemIndex].reminderId === undefined && draft.actionText.trim()
+  );
+  if (drafts.length === 0) return [];
+
+  const source = options.sourceEntryId !== undefined
+    ? { entryId: options.sourceEntryId }
+    : { sessionId: message.sessionId, messageId: options.messageId };
+
+  return db.transaction('rw', db.reminders, db.discussionMessages, async () => {
+    const current = await db.discussionMessages.get(options.messageId);
+    const items = [...(current?.meta?.planArtifact?.items ?? plan.items)];
+    const now = Date.now();
+    const reminderIds: number[] = [];
+
+    for (const draft of drafts) {
+      const item = items[draft.itemIndex];
+      if (!item || item.reminderId !== undefined) continue;
+
+      const reminderId = await db.reminders.add({
+        ...source,
+        sourceText: item.text,
+        actionText: draft.actionText.trim(),
+        dueAt: draft.dueAt,
+        status: 'pending',
+        repeat: draft.repeat,
+        createdAt: now,
+        updatedAt: now,
+      });
+      items[draft.itemIndex] = { ...item, reminderId };
+      reminderIds.push(reminderId);
+    }
+
+    await db.discussionMessages.update(options.messageId, {
+      meta: { ...current?.meta, planArtifact: { ...plan, ...current?.meta?.planArtifact, items } },
+    });
+    return reminderIds;
+  });
+}
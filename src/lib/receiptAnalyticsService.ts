@@ -1,8 +1,8 @@
 import { db, type Receipt, type ReceiptItem } from "./db";
-import { startOfDay, endOfDay, subDays, startOfMonth, endOfMonth, subMonths, format, parseISO, isValid } from "date-fns";
+import { startOfDay, endOfDay, subDays, startOfMonth, endOfMonth, subMonths, startOfYear, format, parseISO, isValid } from "date-fns";
 
 // Date range presets
-export type DateRangePreset = "7d" | "30d" | "thisMonth" | "lastMonth" | "custom";
+export type DateRangePreset = "7d" | "30d" | "90d" | "thisMonth" | "lastMonth" | "thisYear" | "custom";
 
 export interface DateRange {
   start: Date;
@@ -17,12 +17,16 @@ export function getDateRangeFromPreset(preset: DateRangePreset, customRange?: Da
       return { start: startOfDay(subDays(now, 6)), end: endOfDay(now) };
     case "30d":
       return { start: startOfDay(subDays(now, 29)), end: endOfDay(now) };
+    case "90d":
+      return { start: startOfDay(subDays(now, 89)), end: endOfDay(now) };
     case "thisMonth":
       return { start: startOfMonth(now), end: endOfDay(now) };
     case "lastMonth": {
       const lastMonth = subMonths(now, 1);
       return { start: startOfMonth(lastMonth), end: endOfMonth(lastMonth) };
     }
+    case "thisYear":
+      return { start: startOfYear(now), end: endOfDay(now) };
     case "custom":
       return customRange || { start: startOfDay(subDays(now, 29)), end: endOfDay(now) };
     default:
@@ -1,8 +1,9 @@
 import { supabase } from "@/integrations/supabase/client";
 import { db, Receipt, ReceiptItem, addAttachment } from "./db";
 import { compressImage } from "./mediaUtils";
-import { loadAISettings } from "./aiConfig";
+import { getEdgeProvider, loadAISettings } from "./aiConfig";
 import { getProviderKeyHeader } from "./aiUtils";
+import { ensureAIBudget, estimateImageTokens, isAIBudgetError, recordAIUsage } from "./aiUsage";
 import { Language, getBaseLanguage } from "./i18n";
 
 // Receipt scanning limits (optimized for mobile + OCR)
@@ -41,7 +42,7 @@ export interface ReceiptScanResult {
 }
 
 export interface ReceiptScanError {
-  error: "unreadable" | "not_receipt" | "invalid_json" | "validation_error" | "service_error";
+  error: "unreadable" | "not_receipt" | "invalid_json" | "validation_error" | "service_error" | "budget_exceeded";
   hint: string;
   requestId: string;
 }
@@ -200,8 +201,16 @@ export async function scanReceipt(
   const model = SCAN_MODELS[mode];
   const baseLang = getBaseLanguage(language);
   
+  try {
+    await ensureAIBudget(baseLang === "ru" ? "ru" : "en");
+  } catch (budgetError) {
+    if (!isAIBudgetError(budgetError)) throw budgetError;
+    return { error: "budget_exceeded", hint: budgetError.message, requestId };
+  }
+
   // Get provider key header
   const settings = loadAISettings();
+  const provider = getEdgeProvider(settings);
   const providerHeaders = getProviderKeyHeader(settings);
 
   const { data, error } = await supabase.functions.invoke<ReceiptScanResponse>("ai-receipt", {
@@ -211,7 +220,7 @@ export async function scanReceipt(
       timezone: options?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
       currencyHint: options?.currencyHint,
       model,
-      provider: settings.provider,
+      provider,
     },
     headers: {
       "X-Request-Id": requestId,
@@ -238,6 +247,13 @@ export async function scanReceipt(
     };
   }
 
+  await recordAIUsage({
+    feature: "receipt",
+    provider,
+    model,
+    extraPromptTokens: estimateImageTokens(),
+    completionText: JSON.stringify(data),
+  });
 
   // Attach model info for diagnostics
   return { ...data, model };
@@ -86,6 +86,14 @@ export function detectActionableText(text: string): DetectionResult {
   };
 }
 
+/**
+ * Suggest a reminder time from time words alone (no action verb needed).
+ * Used for short hints like "tomorrow" or "на выходных".
+ */
+export function detectSuggestedTime(text: string): SuggestedTime | undefined {
+  return detectTimeReference(text.toLowerCase(), []).suggestedTime;
+}
+
 /**
  * Check if text contains any keywords from the given category.
  */
@@ -3,8 +3,8 @@
  * MVP: Smart defaults for time chip presets and snooze options.
  */
 
-import { format, addDays, addHours, addMonths, setHours, setMinutes, nextSaturday, nextMonday, startOfDay, endOfDay, getDate, getDaysInMonth, setDate } from 'date-fns';
-import type { SuggestedTime } from './reminderDetection';
+import { format, addDays, addHours, addMinutes, addMonths, addWeeks, addYears, setHours, setMinutes, nextSaturday, nextMonday, startOfDay, endOfDay, endOfMonth, getDate, getDaysInMonth, setDate } from 'date-fns';
+import { detectSuggestedTime, type SuggestedTime } from './reminderDetection';
 import type { ReminderRepeat } from './db';
 
 /**
@@ -53,8 +53,7 @@ export function getLabel(
 /**
  * Get timestamp for "Later today" - 18:00 or +3h if after 15:00.
  */
-function getLaterTodayTimestamp(): number {
-  const now = new Date();
+function getLaterTodayTimestamp(now: Date = new Date()): number {
   const hours = now.getHours();
   
   if (hours >= 15) {
@@ -67,16 +66,15 @@ function getLaterTodayTimestamp(): number {
 /**
  * Get timestamp for "Tomorrow morning" - 09:00 tomorrow.
  */
-function getTomorrowMorningTimestamp(): number {
-  const tomorrow = addDays(new Date(), 1);
+function getTomorrowMorningTimestamp(now: Date = new Date()): number {
+  const tomorrow = addDays(now, 1);
   return setMinutes(setHours(tomorrow, 9), 0).getTime();
 }
 
 /**
  * Get timestamp for "Weekend" - Saturday 10:00.
  */
-function getWeekendTimestamp(): number {
-  const now = new Date();
+function getWeekendTimestamp(now: Date = new Date()): number {
   const saturday = nextSaturday(now);
   return setMinutes(setHours(saturday, 10), 0).getTime();
 }
@@ -84,8 +82,7 @@ function getWeekendTimestamp(): number {
 /**
  * Get timestamp for "Next week" - Monday 09:00.
  */
-function getNextWeekTimestamp(): number {
-  const now = new Date();
+function getNextWeekTimestamp(now: Date = new Date()): number {
   const monday = nextMonday(now);
   return setMinutes(setHours(monday, 9), 0).getTime();
 }
@@ -149,9 +146,13 @@ export function getTimeChip(id: SuggestedTime): TimeChip | undefined {
 /**
  * Get timestamp for a suggested time preset.
  */
-export function getTimestampForPreset(preset: SuggestedTime): number {
-  const chip = getTimeChip(preset);
-  return chip ? chip.getTimestamp() : getTomorrowMorningTimestamp();
+export function getTimestampForPreset(preset: SuggestedTime, now: Date = new Date()): number {
+  switch (preset) {
+    case 'later_today': return getLaterTodayTimestamp(now);
+    case 'weekend': return getWeekendTimestamp(now);
+    case 'next_week': return getNextWeekTimestamp(now);
+    default: return getTomorrowMorningTimestamp(now);
+  }
 }
 
 // ============================================
@@ -196,6 +197,162 @@ export function getSnoozeTimestamp(presetId: string): number {
   return preset ? preset.getTimestamp() : getOneHourTimestamp();
 }
 
+// ============================================
+// DUE HINT PARSING (plan items from discussions)
+// ============================================
+
+export interface ParsedDueHint {
+  dueAt: number;
+  matched: boolean;             // false: nothing recognized, dueAt is the tomorrow-morning default
+}
+
+const DEFAULT_DUE_HOUR = 9;
+
+// Index = month number; RU stems cover every case form ("марта", "мае")
+const MONTH_STEMS: string[][] = [
+  ['январ', 'jan'], ['феврал', 'feb'], ['март', 'mar'], ['апрел', 'apr'], ['мая', 'май', 'мае', 'may'], ['июн', 'jun'],
+  ['июл', 'jul'], ['август', 'aug'], ['сентябр', 'sep'], ['октябр', 'oct'], ['ноябр', 'nov'], ['декабр', 'dec'],
+];
+
+// Index = day of week, Sunday first (as Date.getDay)
+const WEEKDAY_STEMS: string[][] = [
+  ['воскресен', 'sunday'], ['понедельник', 'monday'], ['вторник', 'tuesday'], ['сред', 'wednesday'],
+  ['четверг', 'thursday'], ['пятниц', 'friday'], ['суббот', 'saturday'],
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  один: 1, одну: 1, два: 2, две: 2, три: 3, пару: 2, a: 1, an: 1, one: 1, two: 2, three: 3, couple: 2,
+};
+
+function findStem(word: string, stems: string[][]): number {
+  return stems.findIndex(variants => variants.some(stem => word.startsWith(stem)));
+}
+
+function parseClockTime(text: string): { hours: number; minutes: number } | null {
+  const clock = text.match(/(\d{1,2}):(\d{2})/);
+  if (clock) {
+    const hours = Number(clock[1]);
+    const minutes = Number(clock[2]);
+    return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+  }
+  const meridiem = text.match(/\b(\d{1,2})\s*(am|pm)\b/);
+  if (meridiem) {
+    const hours = Number(meridiem[1]) % 12 + (meridiem[2] === 'pm' ? 12 : 0);
+    return hours < 24 ? { hours, minutes: 0 } : null;
+  }
+  if (/утр|morning/.test(text)) return { hours: 9, minutes: 0 };
+  if (/днём|днем|afternoon/.test(text)) return { hours: 14, minutes: 0 };
+  if (/вечер|evening|tonight/.test(text)) return { hours: 19, minutes: 0 };
+  return null;
+}
+
+function parseCalendarDay(text: string, words: string[], now: Date): Date | null {
+  const iso = text.match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  const dotted = text.match(/\b(\d{1,2})[./](\d{1,2})(?:[./](\d{2,4}))?\b/);
+  if (dotted && Number(dotted[2]) >= 1 && Number(dotted[2]) <= 12) {
+    const year = dotted[3] ? Number(dotted[3].length === 2 ? `20${dotted[3]}` : dotted[3]) : now.getFullYear();
+    return new Date(year, Number(dotted[2]) - 1, Number(dotted[1]));
+  }
+
+  // "5 марта", "March 5", "5th of May"
+  for (let i = 0; i < words.length; i++) {
+    const month = findStem(words[i], MONTH_STEMS);
+    if (month === -1) continue;
+    const day = [words[i - 1], words[i - 2], words[i + 1]]
+      .map(word => parseInt(word ?? '', 10))
+      .find(value => value >= 1 && value <= 31);
+    if (day !== undefined) return new Date(now.getFullYear(), month, day);
+  }
+  return null;
+}
+
+function parseRelativeOffset(text: string, now: Date): { date: Date; exact: boolean } | null {
+  const match = text.match(/(?:через|in)\s+(?:(\d+|[a-zа-яё]+)\s+)?(минут|minute|час|hour|дн|день|day|недел|week|месяц|month)/);
+  if (!match) return null;
+  const count = match[1] === undefined
+    ? 1
+    : /^\d+$/.test(match[1]) ? Number(match[1]) : NUMBER_WORDS[match[1]];
+  if (!count) return null;
+
+  const unit = match[2];
+  if (unit === 'минут' || unit === 'minute') return { date: addMinutes(now, count), exact: true };
+  if (unit === 'час' || unit === 'hour') return { date: addHours(now, count), exact: true };
+  if (unit === 'недел' || unit === 'week') return { date: addWeeks(now, count), exact: false };
+  if (unit === 'месяц' || unit === 'month') return { date: addMonths(now, count), exact: false };
+  return { date: addDays(now, count), exact: false };
+}
+
+/**
+ * Turn a free-form due hint from an AI plan ("завтра вечером", "by Friday",
+ * "через 2 недели", "5 марта в 10:00") into a timestamp. Falls back to the
+ * reminder presets when only a vague time word is present.
+ */
+export function parseDueHint(hint: string, now: Date = new Date()): ParsedDueHint {
+  const text = hint.toLowerCase().replace(/ё/g, 'е').trim();
+  const words = text.match(/[a-zа-я0-9]+/g) ?? [];
+  const time = parseClockTime(text);
+
+  const relative = parseRelativeOffset(text, now);
+  if (relative?.exact) {
+    return { dueAt: relative.date.getTime(), matched: true };
+  }
+
+  // How to move a day that has already passed: a year for dates without one,
+  // a week for weekdays, a day for a bare clock time
+  let day: Date | null = relative?.date ?? null;
+  let rollBy: 'year' | 'week' | 'day' | null = null;
+
+  if (!day) {
+    const calendarDay = parseCalendarDay(text, words, now);
+    if (calendarDay) {
+      day = calendarDay;
+      rollBy = /\d{4}|\d{1,2}[./]\d{1,2}[./]\d{2}/.test(text) ? null : 'year';
+    } else if (/послезавтра|day after tomorrow/.test(text)) {
+      day = addDays(now, 2);
+    } else if (/завтра|tomorrow/.test(text)) {
+      day = addDays(now, 1);
+    } else if (/сегодня|today|tonight/.test(text)) {
+      day = now;
+    } else if (/конц\S* месяца|end of (the )?month/.test(text)) {
+      day = endOfMonth(now);
+    } else if (/конц\S* недели|end of (the )?week/.test(text)) {
+      day = addDays(now, (5 - now.getDay() + 7) % 7);
+      rollBy = 'week';
+    } else {
+      const weekday = words.map(word => findStem(word, WEEKDAY_STEMS)).find(index => index !== -1);
+      if (weekday !== undefined) {
+        day = addDays(now, (weekday - now.getDay() + 7) % 7);
+        rollBy = 'week';
+      } else if (time) {
+        day = now;
+        rollBy = 'day';
+      }
+    }
+  }
+
+  if (!day) {
+    const preset = detectSuggestedTime(text);
+    return preset
+      ? { dueAt: getTimestampForPreset(preset, now), matched: true }
+      : { dueAt: getTimestampForPreset('tomorrow_morning', now), matched: false };
+  }
+
+  // "Today" without a time means later today, not this morning
+  if (!time && !rollBy && startOfDay(day).getTime() === startOfDay(now).getTime()) {
+    return { dueAt: getLaterTodayTimestamp(now), matched: true };
+  }
+
+  let due = setMinutes(setHours(startOfDay(day), time?.hours ?? DEFAULT_DUE_HOUR), time?.minutes ?? 0);
+  if (due.getTime() <= now.getTime()) {
+    if (rollBy === 'year') due = addYears(due, 1);
+    else if (rollBy === 'week') due = addWeeks(due, 1);
+    else if (rollBy === 'day') due = addDays(due, 1);
+  }
+  return { dueAt: due.getTime(), matched: true };
+}
+
 // ============================================
 // DATE/TIME HELPERS
 // ============================================
@@ -22,8 +22,13 @@ export const RESET_CRITICAL_LOCAL_STORAGE_KEYS = [
 export const RESET_NON_CRITICAL_LOCAL_STORAGE_KEYS = [
   'daybook-last-backup',
   'daybook-backup-reminder-dismissed',
+  'daybook-auto-backup',
+  'daybook-auto-backup-status',
   'daybook-bio-settings',
   'daybook-attachment-counts-backfill-done',
+  'daybook-backup-chain',
+  'daybook-search-index-ready',
+  'daybook-ai-budget-warned',
   'ethereal-device-id',
 ] as const;
 
@@ -176,6 +176,15 @@ export const ROUTE_SURFACE_REGISTRY: RouteSurfaceSpec[] = [
     showFeedbackTrigger: true,
     centerActionPolicy: 'new-entry-default',
   },
+  {
+    id: 'mood-analytics',
+    path: '/calendar/analytics',
+    surfaceClass: 'secondary',
+    showBottomNav: false,
+    showFloatingChatButton: true,
+    showFeedbackTrigger: true,
+    centerActionPolicy: 'new-entry-default',
+  },
   {
     id: 'receipt-analytics',
     path: '/receipts/analytics',
@@ -212,6 +221,24 @@ export const ROUTE_SURFACE_REGISTRY: RouteSurfaceSpec[] = [
     showFeedbackTrigger: false,
     centerActionPolicy: 'new-entry-default',
   },
+  {
+    id: 'document-detail',
+    path: '/documents/:id',
+    surfaceClass: 'secondary',
+    showBottomNav: false,
+    showFloatingChatButton: false,
+    showFeedbackTrigger: true,
+    centerActionPolicy: 'new-entry-default',
+  },
+  {
+    id: 'documents',
+    path: '/documents',
+    surfaceClass: 'secondary',
+    showBottomNav: true,
+    showFloatingChatButton: false,
+    showFeedbackTrigger: true,
+    centerActionPolicy: 'new-entry-default',
+  },
   {
     id: 'entry-edit',
     path: '/entry/:id',
@@ -221,6 +248,24 @@ export const ROUTE_SURFACE_REGISTRY: RouteSurfaceSpec[] = [
     showFeedbackTrigger: false,
     centerActionPolicy: 'new-entry-default',
   },
+  {
+    id: 'ai-usage',
+    path: '/settings/ai-usage',
+    surfaceClass: 'secondary',
+    showBottomNav: false,
+    showFloatingChatButton: false,
+    showFeedbackTrigger: true,
+    centerActionPolicy: 'new-entry-default',
+  },
+  {
+    id: 'sync-conflicts',
+    path: '/sync/conflicts',
+    surfaceClass: 'secondary',
+    showBottomNav: false,
+    showFloatingChatButton: false,
+    showFeedbackTrigger: true,
+    centerActionPolicy: 'new-entry-default',
+  },
   {
     id: 'reminder-detail',
     path: '/reminder/:id',
@@ -0,0 +1,110 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createEntry, createSavedSearch, db, getPinnedSavedSearches, toggleSavedSearchPin } from '../db';
+import { parseSearchQuery, runSearchQuery } from './queryLanguage';
+
+async function clearTables() {
+  await db.transaction('rw', db.tables, async () => {
+    for (const table of db.tables) {
+      await table.clear();
+    }
+  });
+  localStorage.clear();
+}
+
+function makeEntry(text: string, overrides: Partial<Parameters<typeof createEntry>[0]> = {}) {
+  return createEntry({ date: '2026-03-01', text, mood: 3, tags: [], isPrivate: false, ...overrides });
+}
+
+describe('parseSearchQuery', () => {
+  it('parses filters, negation and phrases into a typed AST', () => {
+    const ast = parseSearchQuery('mood:<=2 tag:Работа after:2026-01-01 has:audio is:private -tag:Семья "exact phrase" кот');
+
+    expect(ast.filters).toEqual([
+      { type: 'mood', op: '<=', value: 2, negated: false },
+      { type: 'tag', value: 'Работа', negated: false },
+      { type: 'date', op: '>=', value: '2026-01-01', negated: false },
+      { type: 'has', value: 'audio', negated: false },
+      { type: 'is', value: 'private', negated: false },
+      { type: 'tag', value: 'Семья', negated: true },
+    ]);
+    expect(ast.text).toBe('"exact phrase" кот');
+    expect(ast.issues).toEqual([]);
+  });
+
+  it('supports quoted filter values and aliases', () => {
+    const ast = parseSearchQuery('tag:"Два слова" has:photo before:2026-02-01');
+    expect(ast.filters).toEqual([
+      { type: 'tag', value: 'Два слова', negated: false },
+      { type: 'has', value: 'image', negated: false },
+      { type: 'date', op: '<=', value: '2026-02-01', negated: false },
+    ]);
+  });
+
+  it('reports malformed filters and keeps unknown keys as text', () => {
+    const ast = parseSearchQuery('mood:9 after:yesterday has:smell встреча в 10:30');
+
+    expect(ast.issues.map(issue => issue.reason)).toEqual(['invalid_mood', 'invalid_date', 'unknown_has']);
+    expect(ast.filters).toHaveLength(0);
+    expect(ast.text).toBe('встреча в 10:30');
+  });
+
+  it('collects negated free text separately', () => {
+    const ast = parseSearchQuery('прогулка -дождь -"плохая погода"');
+    expect(ast.text).toBe('прогулка');
+    expect(ast.excludedText).toEqual(['дождь', '"плохая погода"']);
+  });
+});
+
+describe('runSearchQuery', () => {
+  beforeEach(clearTables);
+  afterEach(clearTables);
+
+  it('combines indexed filters, negation and full-text', async () => {
+    const match = await makeEntry('Тяжёлый день на работе', { mood: 2, tags: ['Работа'], date: '2026-02-10' });
+    await makeEntry('Тяжёлый день с семьёй', { mood: 2, tags: ['Работа', 'Семья'], date: '2026-02-11' });
+    await makeEntry('Тяжёлый день, но всё хорошо', { mood: 4, tags: ['Работа'], date: '2026-02-12' });
+    await makeEntry('Тяжёлый день давно', { mood: 1, tags: ['Работа'], date: '2025-12-01' });
+
+    const { results } = await runSearchQuery('mood:<=2 tag:работа after:2026-01-01 -tag:Семья тяжелый');
+
+    expect(results.map(result => result.entry.id)).toEqual([match]);
+  });
+
+  it('filters by attachment counts and privacy without text', async () => {
+    const withAudio = await makeEntry('Голосовая заметка', {
+      isPrivate: true,
+      attachmentCounts: { image: 0, video: 0, audio: 1 },
+    });
+    await makeEntry('Публичная с аудио', { attachmentCounts: { image: 0, video: 0, audio: 2 } });
+    await makeEntry('Приватная без вложений', { isPrivate: true });
+
+    const { results } = await runSearchQuery('has:audio is:private');
+
+    expect(results.map(result => result.entry.id)).toEqual([withAudio]);
+  });
+
+  it('excludes entries matching negated words', async () => {
+    const keep = await makeEntry('Прогулка по парку');
+    await makeEntry('Прогулка под дождём');
+
+    const { results } = await runSearchQuery('прогулка -дождь');
+
+    expect(results.map(result => result.entry.id)).toEqual([keep]);
+  });
+});
+
+describe('saved searches', () => {
+  beforeEach(clearTables);
+  afterEach(clearTables);
+
+  it('lists only pinned searches for Today', async () => {
+    const pinned = await createSavedSearch('mood:<=2', 'Плохие дни');
+    await createSavedSearch('has:audio');
+
+    await toggleSavedSearchPin(pinned);
+
+    const result = await getPinnedSavedSearches();
+    expect(result.map(search => search.name)).toEqual(['Плохие дни']);
+  });
+});
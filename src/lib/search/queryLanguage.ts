@@ -0,0 +1,296 @@
+/**
+ * Structured search query language.
+ *
+ * Grammar (space-separated clauses, all must match):
+ *   mood:3 | mood:<=2 | mood:>3     mood comparison (1-5)
+ *   tag:Работа | tag:"Два слова"    entry tag (case-insensitive)
+ *   after:2026-01-01                date on or after (inclusive)
+ *   before:2026-02-01               date on or before (inclusive)
+ *   date:2026-01-15                 exact date
+ *   has:audio | has:image | has:video | has:photo | has:media
+ *   is:private | is:public | is:titled
+ *   -<clause>                       negation (e.g. -tag:Семья, -word)
+ *   "exact phrase", word, word*     full-text (see searchIndex)
+ *
+ * Filters run against Dexie indexes; free text runs through the full-text index.
+ */
+
+import { db, type AttachmentCounts, type DiaryEntry } from '../db';
+import { searchFullText, type FullTextSearchResult } from './searchIndex';
+
+export type ComparisonOp = '=' | '<' | '<=' | '>' | '>=';
+export type HasValue = keyof AttachmentCounts | 'media';
+export type IsValue = 'private' | 'public' | 'titled';
+
+export type SearchFilter =
+  | { type: 'mood'; op: ComparisonOp; value: number; negated: boolean }
+  | { type: 'tag'; value: string; negated: boolean }
+  | { type: 'date'; op: '>=' | '<=' | '='; value: string; negated: boolean }
+  | { type: 'has'; value: HasValue; negated: boolean }
+  | { type: 'is'; value: IsValue; negated: boolean };
+
+export interface SearchQueryIssue {
+  token: string;
+  reason: 'invalid_mood' | 'invalid_date' | 'unknown_has' | 'unknown_is' | 'empty_value';
+}
+
+export interface SearchQueryAst {
+  filters: SearchFilter[];
+  text: string;          // Positive free text and phrases, passed to the full-text index
+  excludedText: string[]; // Negated words/phrases
+  issues: SearchQueryIssue[];
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const HAS_VALUES: Record<string, HasValue> = {
+  audio: 'audio',
+  image: 'image',
+  photo: 'image',
+  video: 'video',
+  media: 'media',
+};
+const IS_VALUES: Record<string, IsValue> = {
+  private: 'private',
+  public: 'public',
+  titled: 'titled',
+};
+
+// A clause: optional "-", optional "key:", then a quoted or bare value
+const CLAUSE_REGEX = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/giu;
+
+function isValidDate(value: string): boolean {
+  return DATE_REGEX.test(value) && !Number.isNaN(new Date(value).getTime());
+}
+
+function parseMood(value: string): { op: ComparisonOp; value: number } | null {
+  const match = value.match(/^(<=|>=|<|>|=)?([1-5])$/);
+  if (!match) return null;
+  return { op: (match[1] as ComparisonOp) || '=', value: Number(match[2]) };
+}
+
+/**
+ * Parse a query string into a typed AST. Never throws: malformed
+ * filters are reported in `issues` and otherwise ignored.
+ */
+export function parseSearchQuery(input: string): SearchQueryAst {
+  const ast: SearchQueryAst = { filters: [], text: '', excludedText: [], issues: [] };
+  const textParts: string[] = [];
+
+  for (const match of input.matchAll(CLAUSE_REGEX)) {
+    const [token, dash, rawKey, quoted, bare] = match;
+    const negated = dash === '-';
+    const key = rawKey?.toLowerCase();
+    const value = quoted ?? bare ?? '';
+    const isQuoted = quoted !== undefined;
+
+    if (!key) {
+      const textClause = isQuoted ? `"${value}"` : value;
+      if (!value.trim()) continue;
+      if (negated) ast.excludedText.push(textClause);
+      else textParts.push(textClause);
+      continue;
+    }
+
+    if (!value.trim()) {
+      ast.issues.push({ token, reason: 'empty_value' });
+      continue;
+    }
+
+    switch (key) {
+      case 'mood': {
+        const mood = parseMood(value);
+        if (mood) ast.filters.push({ type: 'mood', ...mood, negated });
+        else ast.issues.push({ token, reason: 'invalid_mood' });
+        break;
+      }
+      case 'tag':
+        ast.filters.push({ type: 'tag', value, negated });
+        break;
+      case 'after':
+      case 'before':
+      case 'date': {
+        if (!isValidDate(value)) {
+          ast.issues.push({ token, reason: 'invalid_date' });
+          break;
+        }
+        const op = key === 'after' ? '>=' : key === 'before' ? '<=' : '=';
+        ast.filters.push({ type: 'date', op, value, negated });
+        break;
+      }
+      case 'has': {
+        const has = HAS_VALUES[value.toLowerCase()];
+        if (has) ast.filters.push({ type: 'has', value: has, negated });
+        else ast.issues.push({ token, reason: 'unknown_has' });
+        break;
+      }
+      case 'is': {
+        const is = IS_VALUES[value.toLowerCase()];
+        if (is) ast.filters.push({ type: 'is', value: is, negated });
+        else ast.issues.push({ token, reason: 'unknown_is' });
+        break;
+      }
+      default: {
+        // Unknown key: it was probably just text with a colon ("note:", "10:30")
+        const textClause = isQuoted ? `${rawKey}:"${value}"` : `${rawKey}:${value}`;
+        if (negated) ast.excludedText.push(textClause);
+        else textParts.push(textClause);
+      }
+    }
+  }
+
+  ast.text = textParts.join(' ');
+  return ast;
+}
+
+export function hasSearchCriteria(ast: SearchQueryAst): boolean {
+  return ast.filters.length > 0 || ast.text.trim().length > 0 || ast.excludedText.length > 0;
+}
+
+function compare(left: number | string, op: ComparisonOp, right: number | string): boolean {
+  switch (op) {
+    case '=': return left === right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+  }
+}
+
+function countAttachments(entry: DiaryEntry, kind: HasValue): number {
+  const counts = entry.attachmentCounts;
+  if (!counts) return 0;
+  if (kind === 'media') return (counts.image || 0) + (counts.video || 0) + (counts.audio || 0);
+  return counts[kind] || 0;
+}
+
+/**
+ * Check a single filter against an entry (negation applied).
+ */
+export function matchesFilter(entry: DiaryEntry, filter: SearchFilter): boolean {
+  let matches: boolean;
+  switch (filter.type) {
+    case 'mood':
+      matches = compare(entry.mood, filter.op, filter.value);
+      break;
+    case 'tag': {
+      const wanted = filter.value.toLowerCase();
+      matches = entry.tags.some(tag => tag.toLowerCase() === wanted);
+      break;
+    }
+    case 'date':
+      matches = compare(entry.date, filter.op, filter.value);
+      break;
+    case 'has':
+      matches = countAttachments(entry, filter.value) > 0;
+      break;
+    case 'is':
+      matches = filter.value === 'private'
+        ? entry.isPrivate
+        : filter.value === 'public'
+          ? !entry.isPrivate
+          : Boolean(entry.title);
+      break;
+  }
+  return filter.negated ? !matches : matches;
+}
+
+/**
+ * Start from the most selective positive indexed filter.
+ * isPrivate is a boolean, which IndexedDB cannot key on, so is: filters always run in memory.
+ */
+function buildIndexedCollection(filters: SearchFilter[]) {
+  const positive = filters.filter(filter => !filter.negated);
+
+  // 1. Date range (after/before/date combined into one between())
+  const dateFilters = positive.filter((f): f is Extract<SearchFilter, { type: 'date' }> => f.type === 'date');
+  if (dateFilters.length > 0) {
+    let lower = '0000-00-00';
+    let upper = '9999-99-99';
+    for (const filter of dateFilters) {
+      if (filter.op !== '<=' && filter.value > lower) lower = filter.value;
+      if (filter.op !== '>=' && filter.value < upper) upper = filter.value;
+    }
+    return db.entries.where('date').between(lower, upper, true, true);
+  }
+
+  // 2. Tag (multi-entry index)
+  const tagFilter = positive.find((f): f is Extract<SearchFilter, { type: 'tag' }> => f.type === 'tag');
+  if (tagFilter) {
+    return db.entries.where('tags').equalsIgnoreCase(tagFilter.value);
+  }
+
+  // 3. Mood
+  const moodFilter = positive.find((f): f is Extract<SearchFilter, { type: 'mood' }> => f.type === 'mood');
+  if (moodFilter) {
+    const where = db.entries.where('mood');
+    switch (moodFilter.op) {
+      case '=': return where.equals(moodFilter.value);
+      case '<': return where.below(moodFilter.value);
+      case '<=': return where.belowOrEqual(moodFilter.value);
+      case '>': return where.above(moodFilter.value);
+      case '>=': return where.aboveOrEqual(moodFilter.value);
+    }
+  }
+
+  // 4. Attachment counts (nested key path indexes, v18)
+  const hasFilter = positive.find((f): f is Extract<SearchFilter, { type: 'has' }> => f.type === 'has' && f.value !== 'media');
+  if (hasFilter) {
+    return db.entries.where(`attachmentCounts.${hasFilter.value}`).above(0);
+  }
+
+  return db.entries.toCollection();
+}
+
+/**
+ * Resolve filters to entries (newest first).
+ */
+export async function findEntriesByFilters(filters: SearchFilter[]): Promise<DiaryEntry[]> {
+  const entries = await buildIndexedCollection(filters)
+    .filter(entry => filters.every(filter => matchesFilter(entry, filter)))
+    .toArray();
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Execute a parsed query: indexed filters first, then full-text ranking within the matches.
+ */
+export async function executeSearchQuery(
+  ast: SearchQueryAst,
+  options: { prefixLastTerm?: boolean } = {}
+): Promise<FullTextSearchResult[]> {
+  const filtered = ast.filters.length > 0 ? await findEntriesByFilters(ast.filters) : null;
+
+  let results: FullTextSearchResult[];
+  if (ast.text.trim()) {
+    results = await searchFullText(ast.text, {
+      prefixLastTerm: options.prefixLastTerm,
+      candidateEntryIds: filtered ? new Set(filtered.map(entry => entry.id!)) : undefined,
+    });
+  } else {
+    const entries = filtered ?? await db.entries.orderBy('createdAt').reverse().toArray();
+    results = entries.map(entry => ({ entry, score: 0, matchedField: null, snippet: null }));
+  }
+
+  if (ast.excludedText.length > 0) {
+    const excludedIds = new Set<number>();
+    for (const excluded of ast.excludedText) {
+      const hits = await searchFullText(excluded);
+      hits.forEach(hit => excludedIds.add(hit.entry.id!));
+    }
+    results = results.filter(result => !excludedIds.has(result.entry.id!));
+  }
+
+  return results;
+}
+
+/**
+ * Parse and run a query string in one step.
+ */
+export async function runSearchQuery(
+  query: string,
+  options: { prefixLastTerm?: boolean } = {}
+): Promise<{ ast: SearchQueryAst; results: FullTextSearchResult[] }> {
+  const ast = parseSearchQuery(query);
+  const results = await executeSearchQuery(ast, options);
+  return { ast, results };
+}
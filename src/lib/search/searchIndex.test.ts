@@ -0,0 +1,165 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { addAttachment, createEntry, db, deleteEntry, searchEntries, updateEntry } from '../db';
+import {
+  buildHighlightedSnippet,
+  ensureSearchIndex,
+  invalidateSearchIndex,
+  parseFullTextQuery,
+  reindexEntryForAttachment,
+  searchFullText,
+} from './searchIndex';
+import { analyzeText } from './textAnalysis';
+
+async function clearTables() {
+  await db.transaction('rw', db.tables, async () => {
+    for (const table of db.tables) {
+      await table.clear();
+    }
+  });
+  localStorage.clear();
+}
+
+function makeEntry(text: string, overrides: Partial<Parameters<typeof createEntry>[0]> = {}) {
+  return createEntry({ date: '2026-03-01', text, mood: 3, tags: [], isPrivate: false, ...overrides });
+}
+
+describe('parseFullTextQuery', () => {
+  it('parses words, phrases and explicit prefixes', () => {
+    const { clauses } = parseFullTextQuery('усталость "долгий рабочий день" трен*');
+
+    expect(clauses).toHaveLength(3);
+    expect(clauses[0]).toMatchObject({ kind: 'term', term: 'устал', prefix: false });
+    expect(clauses[1]).toMatchObject({ kind: 'phrase', tokens: [
+      { term: 'долг', offset: 0 },
+      { term: 'рабоч', offset: 1 },
+      { term: 'ден', offset: 2 },
+    ] });
+    expect(clauses[2]).toMatchObject({ kind: 'term', raw: 'трен', prefix: true });
+  });
+
+  it('turns the last bare word into a prefix for search-as-you-type', () => {
+    const { clauses } = parseFullTextQuery('вечер прог', { prefixLastTerm: true });
+    expect(clauses.map(clause => clause.kind === 'term' && clause.prefix)).toEqual([false, true]);
+  });
+});
+
+describe('buildHighlightedSnippet', () => {
+  it('marks matching word forms and trims long text around the first hit', () => {
+    const text = `${'Утро было обычным. '.repeat(12)}Вечером я чувствовал себя выжатым полностью.`;
+    const snippet = buildHighlightedSnippet(text, token => token.term === 'выжат', 80)!;
+
+    expect(snippet[0]).toEqual({ text: '...', highlight: false });
+    expect(snippet.filter(segment => segment.highlight).map(segment => segment.text)).toEqual(['выжатым']);
+    expect(snippet.map(segment => segment.text).join('').length).toBeLessThanOrEqual(90);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(buildHighlightedSnippet('Nothing here', () => false)).toBeNull();
+  });
+});
+
+describe('full-text search index', () => {
+  beforeEach(clearTables);
+  afterEach(clearTables);
+
+  it('indexes entries on create and finds other word forms', async () => {
+    const id = await makeEntry('Сегодня я был совершенно выжат после работы');
+    await makeEntry('Прогулка в парке');
+
+    const results = await searchFullText('выжатый');
+
+    expect(results.map(result => result.entry.id)).toEqual([id]);
+    expect(results[0].matchedField).toBe('text');
+    expect(results[0].snippet?.find(segment => segment.highlight)?.text).toBe('выжат');
+  });
+
+  it('requires every term and ranks title matches above text matches', async () => {
+    const textMatch = await makeEntry('Утренняя пробежка по набережной');
+    const titleMatch = await makeEntry('Пробежка вышла короткой', { title: 'Пробежка' });
+    await makeEntry('Набережная вечером');
+
+    const results = await searchFullText('пробежка');
+    expect(results.map(result => result.entry.id)).toEqual([titleMatch, textMatch]);
+
+    const both = await searchFullText('пробежка набережная');
+    expect(both.map(result => result.entry.id)).toEqual([textMatch]);
+  });
+
+  it('matches phrases only when words are adjacent', async () => {
+    const adjacent = await makeEntry('It was a long working day');
+    await makeEntry('A long walk after the working hours');
+
+    const results = await searchFullText('"long working day"');
+
+    expect(results.map(result => result.entry.id)).toEqual([adjacent]);
+  });
+
+  it('supports prefix matching', async () => {
+    const id = await makeEntry('Тренировка в зале');
+
+    expect((await searchFullText('трен')).length).toBe(0);
+    expect((await searchFullText('трен*')).map(result => result.entry.id)).toEqual([id]);
+    expect((await searchEntries('трен')).map(entry => entry.id)).toEqual([id]);
+  });
+
+  it('keeps the index in sync on update and delete', async () => {
+    const id = await makeEntry('Старый текст про кошку');
+
+    await updateEntry(id, { text: 'Новый текст про собаку' });
+    expect(await searchFullText('кошка')).toHaveLength(0);
+    expect((await searchFullText('собака')).map(result => result.entry.id)).toEqual([id]);
+
+    await deleteEntry(id);
+    expect(await searchFullText('собака')).toHaveLength(0);
+    expect(await db.searchPostings.where('entryId').equals(id).count()).toBe(0);
+  });
+
+  it('indexes audio transcripts and photo insights of the entry', async () => {
+    const id = await makeEntry('Запись без слов');
+    const audioId = await addAttachment({
+      entryId: id, kind: 'audio', mimeType: 'audio/webm', size: 1, blob: new Blob(['a']),
+    });
+    const imageId = await addAttachment({
+      entryId: id, kind: 'image', mimeType: 'image/jpeg', size: 1, blob: new Blob(['i']),
+    });
+    const now = Date.now();
+    await db.audioTranscripts.put({
+      attachmentId: audioId, createdAt: now, updatedAt: now, status: 'done', model: 'm',
+      text: 'Надиктовал мысли про отпуск', language: 'ru', durationSec: null, errorCode: null,
+    });
+    await reindexEntryForAttachment(audioId);
+    await db.attachmentInsights.put({
+      attachmentId: imageId, createdAt: now, model: 'm', promptVersion: 'v1',
+      result: { description: 'Sunset over the sea', emotions: [], tags: ['beach'], reflection: '' },
+    });
+    await reindexEntryForAttachment(imageId);
+
+    const transcriptHit = await searchFullText('отпуске');
+    expect(transcriptHit[0]).toMatchObject({ matchedField: 'transcript' });
+
+    const insightHit = await searchFullText('sunsets');
+    expect(insightHit[0]).toMatchObject({ matchedField: 'insight' });
+  });
+
+  it('rebuilds from entries when the index was invalidated', async () => {
+    const id = await makeEntry('Восстановленная запись');
+    await db.searchPostings.clear();
+    await db.searchDocs.clear();
+    invalidateSearchIndex();
+
+    await ensureSearchIndex();
+
+    expect(await db.searchDocs.count()).toBe(1);
+    expect((await searchFullText('восстановленная')).map(result => result.entry.id)).toEqual([id]);
+  });
+
+  it('stores one posting per term and entry', async () => {
+    const id = await makeEntry('день за днем, день и снова день, и опять день');
+    const dayTerm = analyzeText('день')[0].term;
+
+    const posting = await db.searchPostings.get([dayTerm, id]);
+
+    expect(posting?.positions.text).toHaveLength(4);
+  });
+});
@@ -0,0 +1,572 @@
+/**
+ * Local inverted index for diary full-text search.
+ *
+ * Postings live in db.searchPostings (one row per term+entry with token positions per field),
+ * per-entry lengths in db.searchDocs. The index is written inside createEntry/updateEntry/deleteEntry
+ * and refreshed when transcripts or photo insights change. Ranking is BM25 over weighted fields.
+ */
+
+import {
+  db,
+  type DiaryEntry,
+  type SearchDocStats,
+  type SearchField,
+  type SearchPosting,
+} from '../db';
+import { analyzeText, normalizeText, stemWord, type AnalyzedToken } from './textAnalysis';
+import { logger } from '../logger';
+
+// Relative weight of a match in each field
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 2,
+  tags: 1.5,
+  text: 1,
+  transcript: 0.8,
+  insight: 0.5,
+};
+
+// Snippet source preference when several fields match
+const SNIPPET_FIELD_ORDER: SearchField[] = ['text', 'title', 'transcript', 'insight', 'tags'];
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_MAX_CHARS = 180;
+const REBUILD_BATCH_SIZE = 100;
+const INDEX_READY_KEY = 'daybook-search-index-ready';
+
+export type EntrySearchFields = Record<SearchField, string>;
+
+export type FullTextClause =
+  | { kind: 'term'; raw: string; term: string; prefix: boolean }
+  | { kind: 'phrase'; raw: string; tokens: Array<{ term: string; offset: number }> };
+
+export interface FullTextQuery {
+  clauses: FullTextClause[];
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface FullTextHit {
+  entryId: number;
+  score: number;
+  matchedFields: SearchField[];
+}
+
+export interface FullTextSearchResult {
+  entry: DiaryEntry;
+  score: number;
+  matchedField: SearchField | null;
+  snippet: SnippetSegment[] | null;
+}
+
+export interface FullTextSearchOptions {
+  limit?: number;
+  prefixLastTerm?: boolean;        // Search-as-you-type: treat the last bare word as a prefix
+  candidateEntryIds?: Set<number>; // Restrict results (e.g. to a structured filter's matches)
+}
+
+// ============= Document building =============
+
+/**
+ * Gather every searchable text of an entry: its own fields plus
+ * transcripts of its audio and insights of its photos.
+ */
+export async function collectEntrySearchFields(entry: DiaryEntry): Promise<EntrySearchFields> {
+  const transcripts: string[] = [];
+  const insights: string[] = [];
+
+  if (entry.id) {
+    const attachments = await db.attachments.where('entryId').equals(entry.id).toArray();
+    for (const attachment of attachments) {
+      if (!attachment.id) continue;
+      if (attachment.kind === 'audio') {
+        const transcript = await db.audioTranscripts.get(attachment.id);
+        if (transcript?.status === 'done' && transcript.text) {
+          transcripts.push(transcript.text);
+        }
+      } else if (attachment.kind === 'image') {
+        const insight = await db.attachmentInsights.get(attachment.id);
+        if (insight) {
+          insights.push([insight.result.description, ...insight.result.tags].join(' '));
+        }
+      }
+    }
+  }
+
+  return {
+    title: entry.title || '',
+    text: entry.text || '',
+    tags: (entry.tags || []).join(' '),
+    transcript: transcripts.join('\n'),
+    insight: insights.join('\n'),
+  };
+}
+
+/**
+ * Build postings and length stats for one entry (pure).
+ */
+export function buildEntryPostings(
+  entryId: number,
+  fields: EntrySearchFields
+): { postings: SearchPosting[]; stats: SearchDocStats } {
+  const byTerm = new Map<string, SearchPosting>();
+  const fieldLengths: Partial<Record<SearchField, number>> = {};
+  let length = 0;
+
+  for (const field of Object.keys(fields) as SearchField[]) {
+    const tokens = analyzeText(fields[field]);
+    if (tokens.length === 0) continue;
+    fieldLengths[field] = tokens.length;
+    length += tokens.length;
+
+    for (const token of tokens) {
+      let posting = byTerm.get(token.term);
+      if (!posting) {
+        posting = { term: token.term, entryId, positions: {} };
+        byTerm.set(token.term, posting);
+      }
+      (posting.positions[field] ??= []).push(token.position);
+    }
+  }
+
+  return {
+    postings: Array.from(byTerm.values()),
+    stats: { entryId, length, fieldLengths, indexedAt: Date.now() },
+  };
+}
+
+// ============= Index maintenance =============
+
+/**
+ * Tables touched by index writes. Pass these to db.transaction when
+ * calling the *InTransaction helpers.
+ */
+export function getSearchIndexTables() {
+  return [
+    db.entries,
+    db.attachments,
+    db.audioTranscripts,
+    db.attachmentInsights,
+    db.searchPostings,
+    db.searchDocs,
+  ];
+}
+
+/**
+ * Remove an entry from the index.
+ * MUST be called within a transaction that includes the search tables.
+ */
+export async function removeEntryFromIndexInTransaction(entryId: number): Promise<void> {
+  await db.searchPostings.where('entryId').equals(entryId).delete();
+  await db.searchDocs.delete(entryId);
+}
+
+/**
+ * (Re)index a single entry. Removes it from the index if the entry no longer exists.
+ * MUST be called within a transaction that includes getSearchIndexTables().
+ */
+export async function indexEntryInTransaction(entryId: number): Promise<void> {
+  const entry = await db.entries.get(entryId);
+  await removeEntryFromIndexInTransaction(entryId);
+  if (!entry) return;
+
+  const fields = await collectEntrySearchFields(entry);
+  const { postings, stats } = buildEntryPostings(entryId, fields);
+  if (postings.length > 0) {
+    await db.searchPostings.bulkPut(postings);
+  }
+  await db.searchDocs.put(stats);
+}
+
+/**
+ * (Re)index a single entry - standalone with own transaction.
+ */
+export async function indexEntry(entryId: number): Promise<void> {
+  await db.transaction('rw', getSearchIndexTables(), async () => {
+    await indexEntryInTransaction(entryId);
+  });
+}
+
+/**
+ * Refresh the owning entry after an attachment's transcript or insight changed.
+ * Standalone attachments (entryId <= 0, e.g. receipts) are not indexed.
+ */
+export async function reindexEntryForAttachment(attachmentId: number): Promise<void> {
+  const attachment = await db.attachments.get(attachmentId);
+  if (!attachment || attachment.entryId <= 0) return;
+  await indexEntry(attachment.entryId);
+}
+
+export function isSearchIndexReady(): boolean {
+  try {
+    return localStorage.getItem(INDEX_READY_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Mark the index as stale so the next ensureSearchIndex() rebuilds it.
+ * Use after bulk writes that bypass the entry CRUD helpers (restore, sync import).
+ */
+export function invalidateSearchIndex(): void {
+  try {
+    localStorage.removeItem(INDEX_READY_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+function markSearchIndexReady(): void {
+  try {
+    localStorage.setItem(INDEX_READY_KEY, 'true');
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Rebuild the whole index from db.entries in batches.
+ * @returns Number of indexed entries
+ */
+export async function rebuildSearchIndex(
+  onProgress?: (done: number, total: number) => void
+): Promise<number> {
+  const startTime = Date.now();
+  await db.transaction('rw', [db.searchPostings, db.searchDocs], async () => {
+    await db.searchPostings.clear();
+    await db.searchDocs.clear();
+  });
+
+  const entryIds = (await db.entries.toCollection().primaryKeys()) as number[];
+
+  for (let i = 0; i < entryIds.length; i += REBUILD_BATCH_SIZE) {
+    const batch = entryIds.slice(i, i + REBUILD_BATCH_SIZE);
+    await db.transaction('rw', getSearchIndexTables(), async () => {
+      for (const entryId of batch) {
+        await indexEntryInTransaction(entryId);
+      }
+    });
+    onProgress?.(Math.min(i + REBUILD_BATCH_SIZE, entryIds.length), entryIds.length);
+  }
+
+  markSearchIndexReady();
+  logger.debug('SearchIndex', `Rebuilt ${entryIds.length} entries in ${Date.now() - startTime}ms`);
+  return entryIds.length;
+}
+
+let ensurePromise: Promise<void> | null = null;
+
+/**
+ * Make sure the index exists and covers every entry. Cheap when it does:
+ * only compares counts. Concurrent callers share one rebuild.
+ */
+export function ensureSearchIndex(): Promise<void> {
+  if (ensurePromise) return ensurePromise;
+
+  ensurePromise = (async () => {
+    const [entryCount, docCount] = await Promise.all([db.entries.count(), db.searchDocs.count()]);
+    if (isSearchIndexReady() && entryCount === docCount) return;
+    await rebuildSearchIndex();
+  })().finally(() => {
+    ensurePromise = null;
+  });
+
+  return ensurePromise;
+}
+
+// ============= Query parsing =============
+
+/**
+ * Parse free text into clauses: bare words, "quoted phrases" and prefix* words.
+ * Every clause must match (AND).
+ */
+export function parseFullTextQuery(
+  query: string,
+  options: { prefixLastTerm?: boolean } = {}
+): FullTextQuery {
+  const clauses: FullTextClause[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let lastBareIndex = -1;
+
+  for (const match of query.matchAll(pattern)) {
+    if (match[1] !== undefined) {
+      const tokens = analyzeText(match[1]);
+      if (tokens.length === 0) continue;
+      if (tokens.length === 1) {
+        clauses.push({ kind: 'term', raw: tokens[0].raw, term: tokens[0].term, prefix: false });
+        continue;
+      }
+      const base = tokens[0].position;
+      clauses.push({
+        kind: 'phrase',
+        raw: match[1],
+        tokens: tokens.map(token => ({ term: token.term, offset: token.position - base })),
+      });
+      continue;
+    }
+
+    const word = match[2];
+    const explicitPrefix = word.endsWith('*');
+    const tokens = analyzeText(explicitPrefix ? word.slice(0, -1) : word);
+    tokens.forEach((token, i) => {
+      const isLast = i === tokens.length - 1;
+      clauses.push({ kind: 'term', raw: token.raw, term: token.term, prefix: explicitPrefix && isLast });
+      if (!explicitPrefix && isLast) lastBareIndex = clauses.length - 1;
+    });
+  }
+
+  if (options.prefixLastTerm && lastBareIndex >= 0 && lastBareIndex === clauses.length - 1) {
+    const last = clauses[lastBareIndex];
+    if (last.kind === 'term') clauses[lastBareIndex] = { ...last, prefix: true };
+  }
+
+  return { clauses };
+}
+
+/**
+ * Key for prefix lookups: the common prefix of the typed word and its stem
+ * (stems are not always prefixes of the word, e.g. "happy" → "happi").
+ */
+function prefixKey(clause: Extract<FullTextClause, { kind: 'term' }>): string {
+  const stem = stemWord(clause.raw);
+  let i = 0;
+  while (i < stem.length && i < clause.raw.length && stem[i] === clause.raw[i]) i++;
+  return clause.raw.slice(0, Math.max(i, 1));
+}
+
+// ============= Matching & ranking =============
+
+interface ClauseMatch {
+  // entryId -> weighted term frequency
+  weightedTf: Map<number, number>;
+  // entryId -> fields where the clause matched
+  fields: Map<number, Set<SearchField>>;
+  // Terms that produced the match (for highlighting)
+  terms: Set<string>;
+}
+
+function addFieldCount(match: ClauseMatch, entryId: number, field: SearchField, count: number): void {
+  if (count <= 0) return;
+  match.weightedTf.set(entryId, (match.weightedTf.get(entryId) || 0) + SEARCH_FIELD_WEIGHTS[field] * count);
+  let fields = match.fields.get(entryId);
+  if (!fields) {
+    fields = new Set();
+    match.fields.set(entryId, fields);
+  }
+  fields.add(field);
+}
+
+async function matchClause(clause: FullTextClause): Promise<ClauseMatch> {
+  const match: ClauseMatch = { weightedTf: new Map(), fields: new Map(), terms: new Set() };
+
+  if (clause.kind === 'term') {
+    const postings = clause.prefix
+      ? await db.searchPostings.where('term').startsWith(prefixKey(clause)).toArray()
+      : await db.searchPostings.where('term').equals(clause.term).toArray();
+
+    for (const posting of postings) {
+      match.terms.add(posting.term);
+      for (const [field, positions] of Object.entries(posting.positions) as Array<[SearchField, number[]]>) {
+        addFieldCount(match, posting.entryId, field, positions.length);
+      }
+    }
+    return match;
+  }
+
+  // Phrase: every token must occur at base + offset within the same field
+  const perToken = await Promise.all(
+    clause.tokens.map(token => db.searchPostings.where('term').equals(token.term).toArray())
+  );
+  const byEntry = perToken.map(postings => new Map(postings.map(p => [p.entryId, p])));
+  const [first, ...rest] = byEntry;
+
+  for (const [entryId, head] of first) {
+    if (!rest.every(map => map.has(entryId))) continue;
+
+    for (const [field, headPositions] of Object.entries(head.positions) as Array<[SearchField, number[]]>) {
+      let occurrences = 0;
+      for (const base of headPositions) {
+        const complete = clause.tokens.every((token, i) => {
+          if (i === 0) return true;
+          const positions = byEntry[i].get(entryId)!.positions[field];
+          return positions?.includes(base + token.offset) ?? false;
+        });
+        if (complete) occurrences++;
+      }
+      addFieldCount(match, entryId, field, occurrences);
+    }
+  }
+
+  if (match.weightedTf.size > 0) {
+    clause.tokens.forEach(token => match.terms.add(token.term));
+  }
+  return match;
+}
+
+/**
+ * Run a parsed query against the index and return ranked entry ids.
+ * Assumes the index is current (see ensureSearchIndex).
+ */
+export async function searchIndex(
+  query: FullTextQuery,
+  options: Pick<FullTextSearchOptions, 'candidateEntryIds'> = {}
+): Promise<{ hits: FullTextHit[]; matchedTerms: Set<string> }> {
+  const matchedTerms = new Set<string>();
+  if (query.clauses.length === 0) return { hits: [], matchedTerms };
+
+  const clauseMatches = await Promise.all(query.clauses.map(matchClause));
+
+  // AND: intersect entry sets, smallest first
+  const ordered = [...clauseMatches].sort((a, b) => a.weightedTf.size - b.weightedTf.size);
+  let candidates = Array.from(ordered[0].weightedTf.keys());
+  for (const clauseMatch of ordered.slice(1)) {
+    candidates = candidates.filter(id => clauseMatch.weightedTf.has(id));
+  }
+  if (options.candidateEntryIds) {
+    candidates = candidates.filter(id => options.candidateEntryIds!.has(id));
+  }
+  if (candidates.length === 0) return { hits: [], matchedTerms };
+
+  // Corpus stats for BM25
+  let totalDocs = 0;
+  let totalLength = 0;
+  await db.searchDocs.each(doc => {
+    totalDocs++;
+    totalLength += doc.length;
+  });
+  const avgLength = totalDocs > 0 ? totalLength / totalDocs : 1;
+  const docs = await db.searchDocs.bulkGet(candidates);
+
+  const hits: FullTextHit[] = candidates.map((entryId, i) => {
+    const docLength = docs[i]?.length || avgLength;
+    const norm = 1 - BM25_B + BM25_B * (docLength / avgLength);
+    let score = 0;
+    const fields = new Set<SearchField>();
+
+    for (const clauseMatch of clauseMatches) {
+      const df = clauseMatch.weightedTf.size;
+      const idf = Math.log(1 + (totalDocs - df + 0.5) / (df + 0.5));
+      const tf = clauseMatch.weightedTf.get(entryId) || 0;
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+      clauseMatch.fields.get(entryId)?.forEach(field => fields.add(field));
+    }
+
+    return {
+      entryId,
+      score,
+      matchedFields: SNIPPET_FIELD_ORDER.filter(field => fields.has(field)),
+    };
+  });
+
+  for (const clauseMatch of clauseMatches) {
+    clauseMatch.terms.forEach(term => matchedTerms.add(term));
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  return { hits, matchedTerms };
+}
+
+// ============= Snippets =============
+
+/**
+ * Cut a window of text around the first highlighted token and split it into segments.
+ * Returns null when nothing in the text matches.
+ */
+export function buildHighlightedSnippet(
+  text: string,
+  isHighlighted: (token: AnalyzedToken) => boolean,
+  maxChars: number = SNIPPET_MAX_CHARS
+): SnippetSegment[] | null {
+  if (!text) return null;
+  const hits = analyzeText(text).filter(isHighlighted);
+  if (hits.length === 0) return null;
+
+  // Center the window on the first hit, then snap to whitespace
+  let start = Math.max(0, hits[0].start - Math.floor(maxChars / 3));
+  let end = Math.min(text.length, start + maxChars);
+  start = Math.max(0, end - maxChars);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < hits[0].start) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > hits[0].end) end = space;
+  }
+
+  const segments: SnippetSegment[] = [];
+  let cursor = start;
+  for (const hit of hits) {
+    if (hit.start < start || hit.end > end) continue;
+    if (hit.start > cursor) segments.push({ text: text.slice(cursor, hit.start), highlight: false });
+    segments.push({ text: text.slice(hit.start, hit.end), highlight: true });
+    cursor = hit.end;
+  }
+  if (cursor < end) segments.push({ text: text.slice(cursor, end), highlight: false });
+
+  const compact = segments.map(segment => ({ ...segment, text: segment.text.replace(/\s+/g, ' ') }));
+  if (start > 0) compact.unshift({ text: '...', highlight: false });
+  if (end < text.length) compact.push({ text: '...', highlight: false });
+  return compact;
+}
+
+function createTokenMatcher(query: FullTextQuery, matchedTerms: Set<string>) {
+  const prefixes = query.clauses
+    .filter((clause): clause is Extract<FullTextClause, { kind: 'term' }> => clause.kind === 'term' && clause.prefix)
+    .map(prefixKey);
+  return (token: AnalyzedToken) =>
+    matchedTerms.has(token.term) || prefixes.some(prefix => token.term.startsWith(prefix));
+}
+
+// ============= Public search =============
+
+/**
+ * Full-text search over diary entries with ranking and highlighted snippets.
+ */
+export async function searchFullText(
+  query: string,
+  options: FullTextSearchOptions = {}
+): Promise<FullTextSearchResult[]> {
+  const parsed = parseFullTextQuery(normalizeText(query), { prefixLastTerm: options.prefixLastTerm });
+  if (parsed.clauses.length === 0) return [];
+
+  await ensureSearchIndex();
+  const { hits, matchedTerms } = await searchIndex(parsed, { candidateEntryIds: options.candidateEntryIds });
+  const limited = options.limit ? hits.slice(0, options.limit) : hits;
+  const entries = await db.entries.bulkGet(limited.map(hit => hit.entryId));
+  const isHighlighted = createTokenMatcher(parsed, matchedTerms);
+
+  const results: FullTextSearchResult[] = [];
+  for (let i = 0; i < limited.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+
+    const hit = limited[i];
+    let snippet: SnippetSegment[] | null = null;
+    let matchedField: SearchField | null = null;
+
+    // Only load attachment-derived text when the match actually came from it
+    const needsAttachments = hit.matchedFields.some(field => field === 'transcript' || field === 'insight');
+    const fields = needsAttachments
+      ? await collectEntrySearchFields(entry)
+      : { title: entry.title || '', text: entry.text, tags: entry.tags.join(' '), transcript: '', insight: '' };
+
+    for (const field of hit.matchedFields) {
+      snippet = buildHighlightedSnippet(fields[field], isHighlighted);
+      if (snippet) {
+        matchedField = field;
+        break;
+      }
+    }
+
+    results.push({ entry, score: hit.score, matchedField, snippet });
+  }
+
+  // Equal scores: newer first
+  results.sort((a, b) => (b.score - a.score) || (b.entry.createdAt - a.entry.createdAt));
+  return results;
+}
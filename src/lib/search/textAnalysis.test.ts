@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeText, extractTerms, stemEnglish, stemRussian, stemWord } from './textAnalysis';
+
+describe('stemRussian', () => {
+  it('reduces adjective and participle forms to one stem', () => {
+    expect(stemRussian('выжатый')).toBe('выжат');
+    expect(stemRussian('выжатая')).toBe('выжат');
+    expect(stemRussian('выжатыми')).toBe('выжат');
+  });
+
+  it('reduces noun cases to one stem', () => {
+    expect(stemRussian('работа')).toBe('работ');
+    expect(stemRussian('работы')).toBe('работ');
+    expect(stemRussian('книгой')).toBe('книг');
+  });
+
+  it('strips derivational -ость only in R2', () => {
+    expect(stemRussian('усталость')).toBe('устал');
+  });
+});
+
+describe('stemEnglish', () => {
+  it('joins inflected forms', () => {
+    expect(stemEnglish('exhausted')).toBe('exhaust');
+    expect(stemEnglish('exhausting')).toBe('exhaust');
+    expect(stemEnglish('running')).toBe('run');
+    expect(stemEnglish('ponies')).toBe('poni');
+  });
+});
+
+describe('analyzeText', () => {
+  it('skips stop words but keeps their position slots', () => {
+    const tokens = analyzeText('Я был выжат как лимон');
+    expect(tokens.map(token => token.term)).toEqual(['выжат', 'лимон']);
+    expect(tokens.map(token => token.position)).toEqual([2, 4]);
+  });
+
+  it('reports char offsets into the source text', () => {
+    const text = 'Long day. Exhausted!';
+    const token = analyzeText(text).find(t => t.term === 'exhaust')!;
+    expect(text.slice(token.start, token.end)).toBe('Exhausted');
+  });
+
+  it('folds ё and picks the stemmer by script', () => {
+    expect(extractTerms('Ёлка')).toEqual(extractTerms('елка'));
+    expect(stemWord('2026')).toBe('2026');
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Text analysis for local full-text search.
+ * Tokenizes Russian/English text and reduces words to stems so that
+ * "выжат", "выжатый" and "выжатая" (or "exhausted"/"exhausting") meet at one term.
+ *
+ * Pure module: no Dexie access, safe to use from scoring code and tests.
+ */
+
+export interface AnalyzedToken {
+  term: string;      // Stemmed, normalized term
+  raw: string;       // Normalized (lowercased) source word
+  position: number;  // Token ordinal within the analyzed text
+  start: number;     // Char offset in the source text
+  end: number;       // Char offset (exclusive)
+}
+
+// Words that carry no search signal on their own
+const STOP_WORDS = new Set([
+  // ru
+  'и', 'в', 'во', 'не', 'что', 'он', 'на', 'я', 'с', 'со', 'как', 'а', 'то', 'все', 'она',
+  'так', 'его', 'но', 'да', 'ты', 'к', 'у', 'же', 'вы', 'за', 'бы', 'по', 'только', 'ее',
+  'мне', 'было', 'вот', 'от', 'меня', 'еще', 'нет', 'о', 'из', 'ему', 'ли', 'если', 'или',
+  'ни', 'быть', 'был', 'до', 'вас', 'нибудь', 'уж', 'вам', 'ведь', 'там', 'потом', 'себя',
+  'ничего', 'ей', 'может', 'они', 'тут', 'где', 'есть', 'надо', 'ней', 'для', 'мы', 'тебя',
+  'их', 'чем', 'была', 'сам', 'чтоб', 'без', 'будто', 'чего', 'раз', 'тоже', 'себе', 'под',
+  'это', 'этот', 'эта', 'эти', 'при', 'об',
+  // en
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by',
+  'is', 'are', 'was', 'were', 'be', 'been', 'am', 'it', 'its', 'this', 'that', 'these',
+  'those', 'as', 'from', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'he', 'she', 'they',
+  'them', 'his', 'her', 'do', 'did', 'does', 'so', 'if', 'than', 'then', 'there', 'not',
+]);
+
+const WORD_REGEX = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+const CYRILLIC_REGEX = /[Ѐ-ӿ]/;
+
+/**
+ * Lowercase and fold letters that users type interchangeably (ё → е, curly apostrophes).
+ */
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/ё/g, 'е').replace(/’/g, "'");
+}
+
+export function isStopWord(word: string): boolean {
+  return STOP_WORDS.has(word);
+}
+
+// ============= Russian (Snowball) stemmer =============
+
+const RU_VOWELS = 'аеиоуыэюя';
+
+const RU_PERFECTIVE_GERUND_1 = ['вшись', 'вши', 'в'];
+const RU_PERFECTIVE_GERUND_2 = ['ившись', 'ывшись', 'ивши', 'ывши', 'ив', 'ыв'];
+const RU_ADJECTIVE = [
+  'ими', 'ыми', 'его', 'ого', 'ему', 'ому', 'ее', 'ие', 'ые', 'ое', 'ей', 'ий', 'ый', 'ой',
+  'ем', 'им', 'ым', 'ом', 'их', 'ых', 'ую', 'юю', 'ая', 'яя', 'ою', 'ею',
+];
+const RU_PARTICIPLE_1 = ['ем', 'нн', 'вш', 'ющ', 'щ'];
+const RU_PARTICIPLE_2 = ['ивш', 'ывш', 'ующ'];
+const RU_REFLEXIVE = ['ся', 'сь'];
+const RU_VERB_1 = [
+  'ете', 'йте', 'ешь', 'нно', 'ла', 'на', 'ли', 'ем', 'ло', 'но', 'ет', 'ют', 'ны', 'ть', 'й', 'л', 'н',
+];
+const RU_VERB_2 = [
+  'ейте', 'уйте', 'ила', 'ыла', 'ена', 'ите', 'или', 'ыли', 'ило', 'ыло', 'ено', 'ует', 'уют',
+  'ены', 'ить', 'ыть', 'ишь', 'ей', 'уй', 'ил', 'ыл', 'им', 'ым', 'ен', 'ят', 'ит', 'ыт', 'ую', 'ю',
+];
+const RU_NOUN = [
+  'иями', 'ями', 'ами', 'ией', 'иям', 'ием', 'иях', 'ев', 'ов', 'ие', 'ье', 'еи', 'ии', 'ей',
+  'ой', 'ий', 'ям', 'ем', 'ам', 'ом', 'ах', 'ях', 'ию', 'ью', 'ия', 'ья', 'а', 'е', 'и', 'й',
+  'о', 'у', 'ы', 'ь', 'ю', 'я',
+];
+const RU_SUPERLATIVE = ['ейше', 'ейш'];
+const RU_DERIVATIONAL = ['ость', 'ост'];
+
+function isRuVowel(ch: string): boolean {
+  return RU_VOWELS.includes(ch);
+}
+
+function longestSuffix(word: string, suffixes: string[]): string | null {
+  let best: string | null = null;
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && (!best || suffix.length > best.length)) {
+      best = suffix;
+    }
+  }
+  return best;
+}
+
+/**
+ * Remove the longest matching suffix. Group-1 suffixes must follow "а" or "я".
+ */
+function removeRuSuffix(rv: string, group1: string[], group2: string[] = []): string | null {
+  const s1 = longestSuffix(rv, group1);
+  const s2 = longestSuffix(rv, group2);
+  const s1Valid = s1 !== null && /[ая]$/.test(rv.slice(0, rv.length - s1.length));
+
+  if (s2 && (!s1Valid || s2.length >= s1!.length)) {
+    return rv.slice(0, rv.length - s2.length);
+  }
+  if (s1Valid) {
+    return rv.slice(0, rv.length - s1!.length);
+  }
+  return null;
+}
+
+function findRegionStart(word: string, from: number): number {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!isRuVowel(word[i]) && isRuVowel(word[i - 1])) return i + 1;
+  }
+  return word.length;
+}
+
+export function stemRussian(input: string): string {
+  const word = input.replace(/ё/g, 'е');
+  let rvStart = word.length;
+  for (let i = 0; i < word.length; i++) {
+    if (isRuVowel(word[i])) {
+      rvStart = i + 1;
+      break;
+    }
+  }
+  if (rvStart >= word.length) return word;
+
+  const prefix = word.slice(0, rvStart);
+  let rv = word.slice(rvStart);
+
+  // Step 1
+  const withoutGerund = removeRuSuffix(rv, RU_PERFECTIVE_GERUND_1, RU_PERFECTIVE_GERUND_2);
+  if (withoutGerund !== null) {
+    rv = withoutGerund;
+  } else {
+    const reflexive = longestSuffix(rv, RU_REFLEXIVE);
+    if (reflexive) rv = rv.slice(0, rv.length - reflexive.length);
+
+    const adjective = longestSuffix(rv, RU_ADJECTIVE);
+    if (adjective) {
+      rv = rv.slice(0, rv.length - adjective.length);
+      const withoutParticiple = removeRuSuffix(rv, RU_PARTICIPLE_1, RU_PARTICIPLE_2);
+      if (withoutParticiple !== null) rv = withoutParticiple;
+    } else {
+      const withoutVerb = removeRuSuffix(rv, RU_VERB_1, RU_VERB_2);
+      if (withoutVerb !== null) {
+        rv = withoutVerb;
+      } else {
+        const noun = longestSuffix(rv, RU_NOUN);
+        if (noun) rv = rv.slice(0, rv.length - noun.length);
+      }
+    }
+  }
+
+  // Step 2
+  if (rv.endsWith('и')) rv = rv.slice(0, -1);
+
+  // Step 3: derivational suffix must lie in R2
+  const full = prefix + rv;
+  const r1 = findRegionStart(full, 0);
+  const r2 = findRegionStart(full, r1);
+  const derivational = longestSuffix(rv, RU_DERIVATIONAL);
+  if (derivational && full.length - derivational.length >= r2) {
+    rv = rv.slice(0, rv.length - derivational.length);
+  }
+
+  // Step 4
+  if (rv.endsWith('нн')) {
+    rv = rv.slice(0, -1);
+  } else {
+    const superlative = longestSuffix(rv, RU_SUPERLATIVE);
+    if (superlative) {
+      rv = rv.slice(0, rv.length - superlative.length);
+      if (rv.endsWith('нн')) rv = rv.slice(0, -1);
+    } else if (rv.endsWith('ь')) {
+      rv = rv.slice(0, -1);
+    }
+  }
+
+  return prefix + rv;
+}
+
+// ============= English (Porter) stemmer =============
+
+function isEnConsonant(word: string, i: number): boolean {
+  const ch = word[i];
+  if ('aeiou'.includes(ch)) return false;
+  if (ch === 'y') return i === 0 ? true : !isEnConsonant(word, i - 1);
+  return true;
+}
+
+/** Porter "m": number of VC sequences in the stem. */
+function enMeasure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  const n = stem.length;
+  while (i < n && isEnConsonant(stem, i)) i++;
+  while (i < n) {
+    while (i < n && !isEnConsonant(stem, i)) i++;
+    if (i >= n) break;
+    while (i < n && isEnConsonant(stem, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function enHasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isEnConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function enEndsDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isEnConsonant(word, n - 1);
+}
+
+/** Porter *o: stem ends cvc where the last c is not w, x or y. */
+function enEndsCvc(word: string): boolean {
+  const n = word.length;
+  if (n < 3) return false;
+  return isEnConsonant(word, n - 3) && !isEnConsonant(word, n - 2) && isEnConsonant(word, n - 1)
+    && !'wxy'.includes(word[n - 1]);
+}
+
+function replaceEnSuffix(
+  word: string,
+  rules: Array<[string, string]>,
+  minMeasure: number
+): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, word.length - suffix.length);
+      return enMeasure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+const EN_STEP2: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['abli', 'able'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+];
+const EN_STEP3: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+const EN_STEP4 = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion', 'ou',
+  'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+];
+
+export function stemEnglish(input: string): string {
+  let word = input.replace(/'s$/, '').replace(/'/g, '');
+  if (word.length <= 2) return word;
+
+  // Step 1a
+  if (word.endsWith('sses')) word = word.slice(0, -2);
+  else if (word.endsWith('ies')) word = word.slice(0, -2);
+  else if (!word.endsWith('ss') && word.endsWith('s')) word = word.slice(0, -1);
+
+  // Step 1b
+  let step1bCleanup = false;
+  if (word.endsWith('eed')) {
+    if (enMeasure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else if (word.endsWith('ed') && enHasVowel(word.slice(0, -2))) {
+    word = word.slice(0, -2);
+    step1bCleanup = true;
+  } else if (word.endsWith('ing') && enHasVowel(word.slice(0, -3))) {
+    word = word.slice(0, -3);
+    step1bCleanup = true;
+  }
+  if (step1bCleanup) {
+    if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+      word += 'e';
+    } else if (enEndsDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) {
+      word = word.slice(0, -1);
+    } else if (enMeasure(word) === 1 && enEndsCvc(word)) {
+      word += 'e';
+    }
+  }
+
+  // Step 1c
+  if (word.endsWith('y') && enHasVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + 'i';
+  }
+
+  // Steps 2-3
+  word = replaceEnSuffix(word, EN_STEP2, 0);
+  word = replaceEnSuffix(word, EN_STEP3, 0);
+
+  // Step 4
+  for (const suffix of EN_STEP4) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, word.length - suffix.length);
+      if (enMeasure(stem) > 1 && (suffix !== 'ion' || /[st]$/.test(stem))) {
+        word = stem;
+      }
+      break;
+    }
+  }
+
+  // Step 5
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = enMeasure(stem);
+    if (m > 1 || (m === 1 && !enEndsCvc(stem))) word = stem;
+  }
+  if (enMeasure(word) > 1 && enEndsDoubleConsonant(word) && word.endsWith('l')) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+}
+
+/**
+ * Stem a normalized word with the stemmer that matches its script.
+ */
+export function stemWord(word: string): string {
+  if (word.length <= 2 || /^\d+$/.test(word)) return word;
+  if (CYRILLIC_REGEX.test(word)) return stemRussian(word);
+  if (/^[a-z']+$/.test(word)) return stemEnglish(word);
+  return word;
+}
+
+/**
+ * Split text into stemmed tokens with positions and char offsets.
+ * Stop words keep their position slot (so phrase distances stay honest) but are not emitted.
+ */
+export function analyzeText(text: string): AnalyzedToken[] {
+  if (!text) return [];
+  const normalized = normalizeText(text);
+  const tokens: AnalyzedToken[] = [];
+  let position = 0;
+
+  for (const match of normalized.matchAll(WORD_REGEX)) {
+    const raw = match[0];
+    const start = match.index ?? 0;
+    const current = position++;
+    if (isStopWord(raw)) continue;
+    tokens.push({
+      term: stemWord(raw),
+      raw,
+      position: current,
+      start,
+      end: start + raw.length,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Unique stemmed terms of a text (order of first appearance).
+ */
+export function extractTerms(text: string): string[] {
+  return Array.from(new Set(analyzeText(text).map(token => token.term)));
+}
@@ -0,0 +1,18 @@
+// PostgREST returns at most this many rows per request (project max-rows setting)
+export const SERVER_PAGE_SIZE = 1000;
+
+/**
+ * Fetch every row a query matches, one page at a time. `page` builds the query for
+ * rows from..to (inclusive); it must order by a unique column so pages don't overlap.
+ */
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += SERVER_PAGE_SIZE) {
+    const { data, error } = await page(from, from + SERVER_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < SERVER_PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,81 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createEntry, db } from './db';
+import { getConflictCount, resolveSyncConflict } from './syncConflicts';
+import { searchFullText } from './search/searchIndex';
+
+async function clearTables() {
+  await db.transaction('rw', db.tables, async () => {
+    for (const table of db.tables) {
+      await table.clear();
+    }
+  });
+  localStorage.clear();
+}
+
+async function makeConflict() {
+  const id = await createEntry({ date: '2026-03-01', text: 'Моя версия', mood: 2, tags: ['дом'], isPrivate: false });
+  await db.entries.update(id, {
+    syncStatus: 'conflict',
+    lastSyncedAt: 100,
+    conflictServerVersion: {
+      date: '2026-03-01',
+      text: 'Версия с ноутбука',
+      mood: 4,
+      tags: ['работа'],
+      isPrivate: false,
+      title: 'С ноутбука',
+      titleSource: 'ai',
+      moodSource: 'ai',
+      semanticTags: ['work'],
+      updatedAt: 5_000,
+    },
+  });
+  return id;
+}
+
+describe('resolveSyncConflict', () => {
+  beforeEach(clearTables);
+  afterEach(clearTables);
+
+  it('keep-server adopts the server copy and reindexes it', async () => {
+    const id = await makeConflict();
+    expect(await getConflictCount()).toBe(1);
+
+    await resolveSyncConflict(id, { kind: 'keep-server' });
+
+    const entry = await db.entries.get(id);
+    expect(entry).toMatchObject({ text: 'Версия с ноутбука', mood: 4, syncStatus: 'synced', updatedAt: 5_000, lastSyncedAt: 5_000 });
+    expect(entry).toMatchObject({ title: 'С ноутбука', titleSource: 'ai', moodSource: 'ai', semanticTags: ['work'] });
+    expect(entry?.conflictServerVersion).toBeUndefined();
+    expect(await getConflictCount()).toBe(0);
+    expect((await searchFullText('ноутбук')).map(result => result.entry.id)).toEqual([id]);
+  });
+
+  it('keep-local produces a version newer than the server copy', async () => {
+    const id = await makeConflict();
+
+    await resolveSyncConflict(id, { kind: 'keep-local' });
+
+    const entry = await db.entries.get(id);
+    expect(entry).toMatchObject({ text: 'Моя версия', syncStatus: 'pending', lastSyncedAt: 5_000 });
+    expect(entry!.updatedAt).toBeGreaterThan(5_000);
+  });
+
+  it('merge stores the edited text and the union of tags', async () => {
+    const id = await makeConflict();
+
+    await resolveSyncConflict(id, { kind: 'merge', text: 'Обе версии' });
+
+    expect(await db.entries.get(id)).toMatchObject({
+      text: 'Обе версии',
+      tags: ['дом', 'работа'],
+      syncStatus: 'pending',
+    });
+  });
+
+  it('rejects entries without a conflict', async () => {
+    const id = await createEntry({ date: '2026-03-01', text: 'Ok', mood: 3, tags: [], isPrivate: false });
+    await expect(resolveSyncConflict(id, { kind: 'keep-local' })).rejects.toThrow('has no sync conflict');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Sync conflict resolution.
+ *
+ * syncEntries marks an entry 'conflict' when both the local and the server copy
+ * changed since lastSyncedAt, keeping the server copy in conflictServerVersion.
+ * Resolving moves the sync base (lastSyncedAt) to the server version, so the
+ * next sync either uploads the result or finds nothing to do.
+ */
+
+import { db, type DiaryEntry } from './db';
+import { getSearchIndexTables, indexEntryInTransaction } from './search/searchIndex';
+
+export type ConflictResolution =
+  | { kind: 'keep-local' }
+  | { kind: 'keep-server' }
+  | { kind: 'merge'; text: string };
+
+export async function getConflictedEntries(): Promise<DiaryEntry[]> {
+  const entries = await db.entries.where('syncStatus').equals('conflict').toArray();
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getConflictCount(): Promise<number> {
+  return await db.entries.where('syncStatus').equals('conflict').count();
+}
+
+/**
+ * Resolve a conflicted entry. Keep-local and merge produce a new local version
+ * that wins on the next sync; keep-server adopts the server copy as-is.
+ */
+export async function resolveSyncConflict(entryId: number, resolution: ConflictResolution): Promise<void> {
+  await db.transaction('rw', getSearchIndexTables(), async () => {
+    const entry = await db.entries.get(entryId);
+    const server = entry?.conflictServerVersion;
+    if (!entry || entry.syncStatus !== 'conflict' || !server) {
+      throw new Error(`Entry ${entryId} has no sync conflict`);
+    }
+
+    // Strictly newer than the server copy, so LWW picks the resolved version
+    const resolvedAt = Math.max(Date.now(), server.updatedAt + 1);
+    let updates: Partial<DiaryEntry>;
+
+    switch (resolution.kind) {
+      case 'keep-local':
+        updates = { updatedAt: resolvedAt, syncStatus: 'pending' };
+        break;
+      case 'keep-server':
+        updates = {
+          date: server.date,
+          text: server.text,
+          mood: server.mood,
+          tags: server.tags,
+          isPrivate: server.isPrivate,
+          aiAllowed: !server.isPrivate,
+          title: server.title,
+          titleSource: server.titleSource,
+          moodSource: server.moodSource,
+          semanticTags: server.semanticTags ?? entry.semanticTags,
+          updatedAt: server.updatedAt,
+          syncStatus: 'synced',
+        };
+        break;
+      case 'merge':
+        updates = {
+          text: resolution.text,
+          tags: Array.from(new Set([...entry.tags, ...server.tags])),
+          updatedAt: resolvedAt,
+          syncStatus: 'pending',
+        };
+        break;
+    }
+
+    await db.entries.update(entryId, {
+      ...updates,
+      lastSyncedAt: server.updatedAt,
+      conflictServerVersion: undefined,
+    });
+    await indexEntryInTransaction(entryId);
+  });
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SYNC_DECRYPT_FAILED,
+  SYNC_KEY_LOCKED,
+  WRONG_PASSPHRASE,
+  decryptBlob,
+  decryptEntryPayload,
+  deriveWrappingKey,
+  encryptBlob,
+  encryptEntryPayload,
+  generateDataKey,
+  generateRecoveryCode,
+  generateSalt,
+  isEncryptedEnvelope,
+  normalizeRecoveryCode,
+  unwrapDataKey,
+  wrapDataKey,
+  type SyncKeyring,
+} from './syncCrypto';
+
+// Real iteration counts are slow under test; the KDF itself is WebCrypto's
+const TEST_ITERATIONS = 1_000;
+
+const payload = { text: 'Secret day', title: 'Title', tags: ['Работа'], semanticTags: ['work'] };
+
+async function makeKeyring(keyId = 'key-1'): Promise<SyncKeyring> {
+  return { keyId, key: await generateDataKey() };
+}
+
+describe('syncCrypto', () => {
+  it('round-trips entry payloads bound to their row id', async () => {
+    const keyring = await makeKeyring();
+    const envelope = await encryptEntryPayload(keyring, 'cloud-1', payload);
+
+    expect(isEncryptedEnvelope(envelope)).toBe(true);
+    expect(envelope).not.toContain('Secret');
+    await expect(decryptEntryPayload(keyring, 'key-1', 'cloud-1', envelope)).resolves.toEqual(payload);
+    // Moved to another row by the server: authentication fails
+    await expect(decryptEntryPayload(keyring, 'key-1', 'cloud-2', envelope)).rejects.toThrow(SYNC_DECRYPT_FAILED);
+  });
+
+  it('reads rows under the previous key and reports unknown keys as locked', async () => {
+    const old = await makeKeyring('key-old');
+    const envelope = await encryptEntryPayload(old, 'cloud-1', payload);
+    const rotated: SyncKeyring = { ...(await makeKeyring('key-new')), previous: { keyId: old.keyId, key: old.key } };
+
+    await expect(decryptEntryPayload(rotated, 'key-old', 'cloud-1', envelope)).resolves.toEqual(payload);
+    await expect(decryptEntryPayload(await makeKeyring('key-new'), 'key-old', 'cloud-1', envelope))
+      .rejects.toThrow(SYNC_KEY_LOCKED);
+  });
+
+  it('wraps the data key so only the right passphrase unwraps it', async () => {
+    const dataKey = await generateDataKey();
+    const salt = generateSalt();
+    const wrapped = await wrapDataKey(dataKey, await deriveWrappingKey('correct horse', salt, TEST_ITERATIONS));
+
+    const unwrapped = await unwrapDataKey(wrapped, await deriveWrappingKey('correct horse', salt, TEST_ITERATIONS));
+    const envelope = await encryptEntryPayload({ keyId: 'k', key: dataKey }, 'cloud-1', payload);
+    await expect(decryptEntryPayload({ keyId: 'k', key: unwrapped }, 'k', 'cloud-1', envelope)).resolves.toEqual(payload);
+    expect(unwrapped.extractable).toBe(false);
+
+    await expect(unwrapDataKey(wrapped, await deriveWrappingKey('wrong horse', salt, TEST_ITERATIONS)))
+      .rejects.toThrow(WRONG_PASSPHRASE);
+  });
+
+  it('generates readable recovery codes and normalizes typed input', () => {
+    const code = generateRecoveryCode();
+    expect(code).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}(-[0-9A-HJKMNP-TV-Z]{4}){5}$/);
+    expect(generateRecoveryCode()).not.toBe(code);
+
+    expect(normalizeRecoveryCode(code.toLowerCase().replace(/-/g, ' '))).toBe(code);
+    expect(normalizeRecoveryCode('abcd-efgo-hijl')).toBe('ABCD-EFG0-H1J1');
+  });
+
+  it('round-trips attachment blobs bound to their storage path', async () => {
+    const keyring = await makeKeyring();
+    const original = new Blob([new Uint8Array([1, 2, 3, 250])], { type: 'image/png' });
+
+    const encrypted = await encryptBlob(keyring, original, 'user/cloud-1/1_image.png');
+    expect(encrypted.type).toBe('application/octet-stream');
+
+    const decrypted = await decryptBlob(keyring, 'key-1', encrypted, 'user/cloud-1/1_image.png', 'image/png');
+    expect(decrypted.type).toBe('image/png');
+    const bytes = await new Promise<ArrayBuffer>((resolve) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as ArrayBuffer);
+      reader.readAsArrayBuffer(decrypted);
+    });
+    expect(Array.from(new Uint8Array(bytes))).toEqual([1, 2, 3, 250]);
+
+    await expect(decryptBlob(keyring, 'key-1', encrypted, 'user/cloud-1/2_image.png', 'image/png'))
+      .rejects.toThrow(SYNC_DECRYPT_FAILED);
+  });
+});
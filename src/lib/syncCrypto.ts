@@ -0,0 +1,247 @@
+/**
+ * Client-side encryption for cloud sync (WebCrypto).
+ *
+ * One random AES-GCM data key encrypts entry content and attachment blobs. The data key
+ * never leaves the device unwrapped: the server stores it wrapped twice, once with a
+ * PBKDF2 key derived from the user's passphrase and once with a key derived from a
+ * recovery code. Ciphertexts carry their row id (or storage path) as associated data,
+ * so the server cannot swap them between rows.
+ */
+
+export const SYNC_KEY_LOCKED = 'sync_key_locked';
+export const WRONG_PASSPHRASE = 'wrong_passphrase';
+export const SYNC_DECRYPT_FAILED = 'sync_decrypt_failed';
+
+export const SYNC_KDF_ITERATIONS = 310_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const ENVELOPE_PREFIX = 'e2ee:v1:';
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+const RECOVERY_CODE_BYTES = 15; // 120 bits → 24 base32 characters
+const RECOVERY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'; // Crockford base32
+
+/** Keys able to read this account's synced data; `previous` covers an unfinished rotation. */
+export interface SyncKeyring {
+  keyId: string;
+  key: CryptoKey;
+  previous?: { keyId: string; key: CryptoKey };
+}
+
+/** Entry fields that only ever reach the server encrypted. */
+export interface EncryptedEntryPayload {
+  text: string;
+  title: string | null;
+  tags: string[];
+  semanticTags: string[];
+}
+
+// ============= ENCODING =============
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+function readBlobBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = reject;
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ============= KEYS =============
+
+export function generateSalt(): string {
+  return bytesToBase64(randomBytes(SALT_BYTES));
+}
+
+/** New random data key. Extractable so it can be wrapped; store it via a non-extractable copy. */
+export async function generateDataKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Derive the key that wraps the data key from a passphrase or recovery code.
+ */
+export async function deriveWrappingKey(secret: string, salt: string, iterations = SYNC_KDF_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(secret.normalize('NFKC')), 'PBKDF2', false, ['deriveKey']);
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToBytes(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+export async function wrapDataKey(dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<string> {
+  const iv = randomBytes(IV_BYTES);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return bytesToBase64(concatBytes(iv, new Uint8Array(wrapped)));
+}
+
+/**
+ * Unwrap a data key. GCM authenticates the wrapped bytes, so a wrong passphrase
+ * fails here with WRONG_PASSPHRASE rather than producing a bad key.
+ */
+export async function unwrapDataKey(wrapped: string, wrappingKey: CryptoKey, extractable = false): Promise<CryptoKey> {
+  const bytes = base64ToBytes(wrapped);
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      bytes.subarray(IV_BYTES),
+      wrappingKey,
+      { name: 'AES-GCM', iv: bytes.subarray(0, IV_BYTES) },
+      { name: 'AES-GCM', length: 256 },
+      extractable,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    throw new Error(WRONG_PASSPHRASE);
+  }
+}
+
+/**
+ * Random recovery code, shown once: "XXXX-XXXX-XXXX-XXXX-XXXX-XXXX".
+ */
+export function generateRecoveryCode(): string {
+  const bytes = randomBytes(RECOVERY_CODE_BYTES);
+  let bits = 0;
+  let value = 0;
+  let code = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      code += RECOVERY_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  return code.match(/.{4}/g)!.join('-');
+}
+
+/** Accept lower case, missing dashes and the usual O/I/L look-alikes. */
+export function normalizeRecoveryCode(input: string): string {
+  const chars = input.toUpperCase().replace(/[^0-9A-Z]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+  return chars.match(/.{1,4}/g)?.join('-') ?? '';
+}
+
+// ============= DATA =============
+
+function keyFor(keyring: SyncKeyring, keyId: string): CryptoKey {
+  if (keyId === keyring.keyId) return keyring.key;
+  if (keyId === keyring.previous?.keyId) return keyring.previous.key;
+  throw new Error(SYNC_KEY_LOCKED);
+}
+
+export function isEncryptedEnvelope(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX);
+}
+
+export async function encryptString(key: CryptoKey, plaintext: string, associatedData: string): Promise<string> {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(associatedData) },
+    key,
+    encoder.encode(plaintext)
+  );
+  return ENVELOPE_PREFIX + bytesToBase64(concatBytes(iv, new Uint8Array(ciphertext)));
+}
+
+export async function decryptString(key: CryptoKey, envelope: string, associatedData: string): Promise<string> {
+  if (!isEncryptedEnvelope(envelope)) throw new Error(SYNC_DECRYPT_FAILED);
+  const bytes = base64ToBytes(envelope.slice(ENVELOPE_PREFIX.length));
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.subarray(0, IV_BYTES), additionalData: encoder.encode(associatedData) },
+      key,
+      bytes.subarray(IV_BYTES)
+    );
+    return decoder.decode(plaintext);
+  } catch {
+    throw new Error(SYNC_DECRYPT_FAILED);
+  }
+}
+
+/**
+ * Encrypt the content fields of an entry, bound to its cloud row id.
+ */
+export async function encryptEntryPayload(keyring: SyncKeyring, cloudId: string, payload: EncryptedEntryPayload): Promise<string> {
+  return await encryptString(keyring.key, JSON.stringify(payload), cloudId);
+}
+
+export async function decryptEntryPayload(
+  keyring: SyncKeyring,
+  keyId: string,
+  cloudId: string,
+  envelope: string
+): Promise<EncryptedEntryPayload> {
+  const payload = JSON.parse(await decryptString(keyFor(keyring, keyId), envelope, cloudId)) as Partial<EncryptedEntryPayload>;
+  return {
+    text: payload.text ?? '',
+    title: payload.title ?? null,
+    tags: payload.tags ?? [],
+    semanticTags: payload.semanticTags ?? [],
+  };
+}
+
+/**
+ * Encrypt an attachment blob, bound to its storage path. Output is iv || ciphertext.
+ */
+export async function encryptBlob(keyring: SyncKeyring, blob: Blob, storagePath: string): Promise<Blob> {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(storagePath) },
+    keyring.key,
+    await readBlobBytes(blob)
+  );
+  return new Blob([iv, new Uint8Array(ciphertext)], { type: 'application/octet-stream' });
+}
+
+export async function decryptBlob(
+  keyring: SyncKeyring,
+  keyId: string,
+  blob: Blob,
+  storagePath: string,
+  mimeType: string
+): Promise<Blob> {
+  const bytes = await readBlobBytes(blob);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.subarray(0, IV_BYTES), additionalData: encoder.encode(storagePath) },
+      keyFor(keyring, keyId),
+      bytes.subarray(IV_BYTES)
+    );
+    return new Blob([plaintext], { type: mimeType });
+  } catch (error) {
+    if (error instanceof Error && error.message === SYNC_KEY_LOCKED) throw error;
+    throw new Error(SYNC_DECRYPT_FAILED);
+  }
+}
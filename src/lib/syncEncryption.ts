@@ -0,0 +1,433 @@
+/**
+ * End-to-end encrypted sync: key setup, unlock, passphrase change and recovery.
+ *
+ * The wrapped data key lives in sync_encryption_keys (one row per user). Each device
+ * unlocks it once with the passphrase and keeps a non-extractable copy in db.syncKeys.
+ * Changing the passphrase also rotates the data key and re-encrypts everything on the
+ * server; the previous key stays available until that finishes.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { db } from './db';
+import { logger } from './logger';
+import { fetchAllPages } from './supabasePaging';
+import {
+  MIN_PASSPHRASE_LENGTH,
+  SYNC_KDF_ITERATIONS,
+  SYNC_KEY_LOCKED,
+  decryptBlob,
+  decryptEntryPayload,
+  deriveWrappingKey,
+  encryptBlob,
+  encryptEntryPayload,
+  generateDataKey,
+  generateRecoveryCode,
+  generateSalt,
+  normalizeRecoveryCode,
+  unwrapDataKey,
+  wrapDataKey,
+  type SyncKeyring,
+} from './syncCrypto';
+
+export const SYNC_ENCRYPTION_ALREADY_ENABLED = 'sync_encryption_already_enabled';
+export const SYNC_ENCRYPTION_NOT_ENABLED = 'sync_encryption_not_enabled';
+export const SYNC_KEY_CHANGED = 'sync_key_changed';
+export const PASSPHRASE_TOO_SHORT = 'passphrase_too_short';
+
+type SyncKeyParams = Tables<'sync_encryption_keys'>;
+
+export type SyncEncryptionState = 'disabled' | 'locked' | 'unlocked';
+
+export interface SyncEncryptionStatus {
+  state: SyncEncryptionState;
+  keyId: string | null;
+  needsReencryption: boolean; // Server rows still plaintext or under the previous key
+}
+
+export interface ReencryptResult {
+  entries: number;
+  attachments: number;
+  errors: string[];
+}
+
+async function requireUserId(): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const userId = session?.user?.id;
+  if (!userId) throw new Error('Not authenticated');
+  return userId;
+}
+
+async function fetchKeyParams(userId: string): Promise<SyncKeyParams | null> {
+  const { data, error } = await supabase
+    .from('sync_encryption_keys')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+function assertPassphrase(passphrase: string): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(PASSPHRASE_TOO_SHORT);
+}
+
+/**
+ * Keep a non-extractable copy of a data key on this device.
+ */
+async function storeLocalKey(userId: string, keyId: string, key: CryptoKey): Promise<CryptoKey> {
+  const localKey = key.extractable
+    ? await crypto.subtle.importKey('raw', await crypto.subtle.exportKey('raw', key), 'AES-GCM', false, ['encrypt', 'decrypt'])
+    : key;
+  await db.syncKeys.put({ keyId, userId, key: localKey, storedAt: Date.now() });
+  return localKey;
+}
+
+async function dropOtherLocalKeys(userId: string, keepKeyIds: (string | null)[]): Promise<void> {
+  const keep = new Set(keepKeyIds.filter(Boolean));
+  const stale = await db.syncKeys.where('userId').equals(userId).filter(record => !keep.has(record.keyId)).primaryKeys();
+  await db.syncKeys.bulkDelete(stale);
+}
+
+/**
+ * Wrap a new data key for the server: under the passphrase and under a fresh recovery code.
+ */
+async function buildKeyParams(
+  dataKey: CryptoKey,
+  keyId: string,
+  passphrase: string,
+  previous?: { keyId: string; key: CryptoKey }
+) {
+  const recoveryCode = generateRecoveryCode();
+  const passphraseSalt = generateSalt();
+  const recoverySalt = generateSalt();
+  const passphraseKey = await deriveWrappingKey(passphrase, passphraseSalt);
+  const recoveryKey = await deriveWrappingKey(recoveryCode, recoverySalt);
+
+  const params = {
+    key_id: keyId,
+    kdf_iterations: SYNC_KDF_ITERATIONS,
+    passphrase_salt: passphraseSalt,
+    wrapped_key: await wrapDataKey(dataKey, passphraseKey),
+    recovery_salt: recoverySalt,
+    recovery_wrapped_key: await wrapDataKey(dataKey, recoveryKey),
+    previous_key_id: previous?.keyId ?? null,
+    previous_wrapped_key: previous ? await wrapDataKey(previous.key, passphraseKey) : null,
+    updated_at: new Date().toISOString(),
+  };
+  return { params, recoveryCode };
+}
+
+/**
+ * Keys for sync on this device. Null when the account does not use encryption.
+ * Throws SYNC_KEY_LOCKED when it does but this device has not unlocked the current key
+ * (never unlocked, or the passphrase was changed on another device).
+ */
+export async function loadSyncKeyring(userId: string): Promise<SyncKeyring | null> {
+  const params = await fetchKeyParams(userId);
+  if (!params) return null;
+
+  const current = await db.syncKeys.get(params.key_id);
+  if (!current || current.userId !== userId) throw new Error(SYNC_KEY_LOCKED);
+
+  const previous = params.previous_key_id ? await db.syncKeys.get(params.previous_key_id) : undefined;
+  return {
+    keyId: current.keyId,
+    key: current.key,
+    previous: previous ? { keyId: previous.keyId, key: previous.key } : undefined,
+  };
+}
+
+export async function getSyncEncryptionStatus(): Promise<SyncEncryptionStatus> {
+  const userId = await requireUserId();
+  const params = await fetchKeyParams(userId);
+  if (!params) return { state: 'disabled', keyId: null, needsReencryption: false };
+
+  const local = await db.syncKeys.get(params.key_id);
+  return {
+    state: local?.userId === userId ? 'unlocked' : 'locked',
+    keyId: params.key_id,
+    needsReencryption: (await countRowsOutsideKey(userId, params.key_id)) > 0,
+  };
+}
+
+/** Live server rows (entries and attachments) not yet encrypted under keyId. */
+async function countRowsOutsideKey(userId: string, keyId: string): Promise<number> {
+  const notCurrent = `encryption_key_id.is.null,encryption_key_id.neq.${keyId}`;
+  const [entries, attachments] = await Promise.all([
+    supabase.from('diary_entries').select('id', { count: 'exact', head: true })
+      .eq('user_id', userId).is('deleted_at', null).or(notCurrent),
+    supabase.from('diary_attachments').select('id', { count: 'exact', head: true })
+      .eq('user_id', userId).is('deleted_at', null).or(notCurrent),
+  ]);
+  if (entries.error) throw entries.error;
+  if (attachments.error) throw attachments.error;
+  return (entries.count ?? 0) + (attachments.count ?? 0);
+}
+
+/**
+ * Turn on encryption for this account and encrypt what is already on the server.
+ * Returns the recovery code; it is not stored anywhere and must be shown to the user.
+ */
+export async function enableSyncEncryption(passphrase: string): Promise<{ recoveryCode: string; reencrypted: ReencryptResult }> {
+  assertPassphrase(passphrase);
+  const userId = await requireUserId();
+  if (await fetchKeyParams(userId)) throw new Error(SYNC_ENCRYPTION_ALREADY_ENABLED);
+
+  const dataKey = await generateDataKey();
+  const keyId = crypto.randomUUID();
+  const { params, recoveryCode } = await buildKeyParams(dataKey, keyId, passphrase);
+
+  const { error } = await supabase.from('sync_encryption_keys').insert({ ...params, user_id: userId });
+  if (error) throw error;
+
+  const key = await storeLocalKey(userId, keyId, dataKey);
+  logger.info('[SyncEncryption]', 'Encryption enabled');
+
+  const reencrypted = await reencryptServerRows(userId, { keyId, key });
+  return { recoveryCode, reencrypted };
+}
+
+/**
+ * Unlock the account key on this device. A wrong passphrase fails with WRONG_PASSPHRASE.
+ */
+export async function unlockSyncEncryption(passphrase: string): Promise<void> {
+  const userId = await requireUserId();
+  const params = await fetchKeyParams(userId);
+  if (!params) throw new Error(SYNC_ENCRYPTION_NOT_ENABLED);
+
+  const passphraseKey = await deriveWrappingKey(passphrase, params.passphrase_salt, params.kdf_iterations);
+  await storeLocalKey(userId, params.key_id, await unwrapDataKey(params.wrapped_key, passphraseKey));
+
+  if (params.previous_key_id && params.previous_wrapped_key) {
+    await storeLocalKey(userId, params.previous_key_id, await unwrapDataKey(params.previous_wrapped_key, passphraseKey));
+  }
+  await dropOtherLocalKeys(userId, [params.key_id, params.previous_key_id]);
+}
+
+/**
+ * Check a passphrase against the account key without changing anything.
+ */
+export async function verifySyncPassphrase(passphrase: string): Promise<boolean> {
+  const userId = await requireUserId();
+  const params = await fetchKeyParams(userId);
+  if (!params) throw new Error(SYNC_ENCRYPTION_NOT_ENABLED);
+
+  try {
+    const passphraseKey = await deriveWrappingKey(passphrase, params.passphrase_salt, params.kdf_iterations);
+    await unwrapDataKey(params.wrapped_key, passphraseKey);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Set a new passphrase using the recovery code. The data key and recovery code stay the
+ * same, so nothing needs re-encrypting. Rows still under a previous key (an interrupted
+ * rotation) become unreadable, since that key was wrapped with the forgotten passphrase.
+ */
+export async function recoverSyncEncryption(recoveryCode: string, newPassphrase: string): Promise<void> {
+  assertPassphrase(newPassphrase);
+  const userId = await requireUserId();
+  const params = await fetchKeyParams(userId);
+  if (!params) throw new Error(SYNC_ENCRYPTION_NOT_ENABLED);
+
+  const recoveryKey = await deriveWrappingKey(normalizeRecoveryCode(recoveryCode), params.recovery_salt, params.kdf_iterations);
+  const dataKey = await unwrapDataKey(params.recovery_wrapped_key, recoveryKey, true);
+
+  const passphraseSalt = generateSalt();
+  const passphraseKey = await deriveWrappingKey(newPassphrase, passphraseSalt);
+  const update: TablesUpdate<'sync_encryption_keys'> = {
+    kdf_iterations: SYNC_KDF_ITERATIONS,
+    passphrase_salt: passphraseSalt,
+    wrapped_key: await wrapDataKey(dataKey, passphraseKey),
+    previous_key_id: null,
+    previous_wrapped_key: null,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = await supabase
+    .from('sync_encryption_keys')
+    .update(update)
+    .eq('user_id', userId)
+    .eq('key_id', params.key_id);
+  if (error) throw error;
+
+  await storeLocalKey(userId, params.key_id, dataKey);
+  await dropOtherLocalKeys(userId, [params.key_id]);
+  logger.info('[SyncEncryption]', 'Passphrase reset with recovery code');
+}
+
+/**
+ * Change the passphrase. Rotates the data key, issues a new recovery code and
+ * re-encrypts all server data under the new key.
+ */
+export async function changeSyncPassphrase(
+  currentPassphrase: string,
+  newPassphrase: string
+): Promise<{ recoveryCode: string; reencrypted: ReencryptResult }> {
+  assertPassphrase(newPassphrase);
+  const userId = await requireUserId();
+  const params = await fetchKeyParams(userId);
+  if (!params) throw new Error(SYNC_ENCRYPTION_NOT_ENABLED);
+
+  const currentKey = await deriveWrappingKey(currentPassphrase, params.passphrase_salt, params.kdf_iterations);
+  const oldDataKey = await unwrapDataKey(params.wrapped_key, currentKey, true);
+
+  const dataKey = await generateDataKey();
+  const keyId = crypto.randomUUID();
+  const { params: next, recoveryCode } = await buildKeyParams(dataKey, keyId, newPassphrase, {
+    keyId: params.key_id,
+    key: oldDataKey,
+  });
+
+  // Guard on the old key_id: another device rotating at the same time must not be overwritten
+  const { data: updated, error } = await supabase
+    .from('sync_encryption_keys')
+    .update(next)
+    .eq('user_id', userId)
+    .eq('key_id', params.key_id)
+    .select('key_id');
+  if (error) throw error;
+  if (!updated?.length) throw new Error(SYNC_KEY_CHANGED);
+
+  const key = await storeLocalKey(userId, keyId, dataKey);
+  const previousKey = await storeLocalKey(userId, params.key_id, oldDataKey);
+  logger.info('[SyncEncryption]', 'Passphrase changed, data key rotated');
+
+  const reencrypted = await reencryptServerRows(userId, { keyId, key, previous: { keyId: params.key_id, key: previousKey } });
+  return { recoveryCode, reencrypted };
+}
+
+/**
+ * Finish encrypting server data after an interrupted enable or passphrase change.
+ */
+export async function reencryptSyncData(): Promise<ReencryptResult> {
+  const userId = await requireUserId();
+  const keyring = await loadSyncKeyring(userId);
+  if (!keyring) throw new Error(SYNC_ENCRYPTION_NOT_ENABLED);
+  return await reencryptServerRows(userId, keyring);
+}
+
+/**
+ * Storage path for a blob encrypted under keyId: the original path plus a key suffix
+ * (replacing the one from an earlier rotation).
+ */
+function keyedPath(path: string, keyId: string): string {
+  return `${path.replace(/\.key-[0-9a-f-]+$/i, '')}.key-${keyId}`;
+}
+
+/**
+ * Bring every server row and blob under the current key. Content is unchanged, so
+ * updated_at is left alone and other devices have nothing to download.
+ */
+async function reencryptServerRows(userId: string, keyring: SyncKeyring): Promise<ReencryptResult> {
+  const result: ReencryptResult = { entries: 0, attachments: 0, errors: [] };
+
+  const entries = await fetchAllPages((from, to) => supabase
+    .from('diary_entries')
+    .select('*')
+    .eq('user_id', userId)
+    .order('id')
+    .range(from, to));
+
+  for (const row of entries) {
+    if (row.encryption_key_id === keyring.keyId) continue;
+    try {
+      const payload = row.encryption_key_id
+        ? await decryptEntryPayload(keyring, row.encryption_key_id, row.id, row.text)
+        : { text: row.text, title: row.title, tags: row.tags || [], semanticTags: row.semantic_tags || [] };
+
+      const { error } = await supabase
+        .from('diary_entries')
+        .update({
+          text: await encryptEntryPayload(keyring, row.id, payload),
+          title: null,
+          tags: [],
+          semantic_tags: [],
+          encryption_key_id: keyring.keyId,
+        })
+        .eq('user_id', userId)
+        .eq('id', row.id);
+      if (error) throw error;
+      result.entries++;
+    } catch (err) {
+      result.errors.push(`Entry ${row.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const attachments = await fetchAllPages((from, to) => supabase
+    .from('diary_attachments')
+    .select('*')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .order('id')
+    .range(from, to));
+
+  for (const row of attachments) {
+    if (row.encryption_key_id === keyring.keyId) continue;
+    try {
+      // Re-encrypted copies go to new paths and the row switches to them in one update,
+      // so a failure halfway leaves the row pointing at blobs its key can still read
+      const blobs = [
+        { path: row.storage_path, mimeType: row.mime_type },
+        { path: row.thumbnail_path, mimeType: 'image/jpeg' },
+      ];
+      const moved: { from: string; to: string }[] = [];
+      for (const { path, mimeType } of blobs) {
+        if (!path) continue;
+        const { data: stored, error: downloadError } = await supabase.storage.from('diary-media').download(path);
+        if (downloadError) throw downloadError;
+
+        const plain = row.encryption_key_id
+          ? await decryptBlob(keyring, row.encryption_key_id, stored, path, mimeType)
+          : stored;
+        const target = keyedPath(path, keyring.keyId);
+        const { error: uploadError } = await supabase.storage
+          .from('diary-media')
+          .upload(target, await encryptBlob(keyring, plain, target), {
+            contentType: 'application/octet-stream',
+            upsert: true,
+          });
+        if (uploadError) throw uploadError;
+        moved.push({ from: path, to: target });
+      }
+
+      const pathFor = (path: string | null) => moved.find(m => m.from === path)?.to ?? path;
+      const { error } = await supabase
+        .from('diary_attachments')
+        .update({
+          storage_path: pathFor(row.storage_path)!,
+          thumbnail_path: pathFor(row.thumbnail_path),
+          encryption_key_id: keyring.keyId,
+        })
+        .eq('user_id', userId)
+        .eq('id', row.id);
+      if (error) throw error;
+      result.attachments++;
+
+      // Old copies are unreferenced now; a failed cleanup only leaves orphaned objects
+      if (moved.length > 0) {
+        const { error: removeError } = await supabase.storage.from('diary-media').remove(moved.map(m => m.from));
+        if (removeError) logger.warn('[SyncEncryption]', `Could not remove old blobs of attachment ${row.id}`);
+      }
+    } catch (err) {
+      result.errors.push(`Attachment ${row.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  // Everything is under the current key: the previous one is no longer needed. The count
+  // also catches rows written under the old key by another device meanwhile.
+  if (result.errors.length === 0 && keyring.previous && (await countRowsOutsideKey(userId, keyring.keyId)) === 0) {
+    const { error } = await supabase
+      .from('sync_encryption_keys')
+      .update({ previous_key_id: null, previous_wrapped_key: null })
+      .eq('user_id', userId)
+      .eq('key_id', keyring.keyId);
+    if (!error) await dropOtherLocalKeys(userId, [keyring.keyId]);
+  }
+
+  logger.info('[SyncEncryption]', `Re-encrypted ${result.entries} entries, ${result.attachments} attachments, errors=${result.errors.length}`);
+  return result;
+}
@@ -1,5 +1,8 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { ACCOUNT_SWITCH_BLOCKED, loadSyncMeta, syncEntries } from './syncService';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ACCOUNT_SWITCH_BLOCKED, loadSyncMeta, syncEntries, TOMBSTONE_RETENTION_DAYS } from './syncService';
+import type { DiaryEntry, SyncTombstone } from './db';
+import { SERVER_PAGE_SIZE } from './supabasePaging';
+import { SYNC_KEY_LOCKED, decryptEntryPayload, encryptEntryPayload, generateDataKey, type SyncKeyring } from './syncCrypto';
 
 const {
   mockGetSession,
@@ -8,6 +11,11 @@ const {
   mockEntriesUpdate,
   mockEntriesAdd,
   mockAttachmentsToArray,
+  mockTombstonesToArray,
+  mockTombstonesUpdate,
+  mockTombstonesBulkDelete,
+  mockDeleteEntry,
+  mockLoadSyncKeyring,
 } = vi.hoisted(() => ({
   mockGetSession: vi.fn(),
   mockFrom: vi.fn(),
@@ -15,6 +23,11 @@ const {
   mockEntriesUpdate: vi.fn(),
   mockEntriesAdd: vi.fn(),
   mockAttachmentsToArray: vi.fn(),
+  mockTombstonesToArray: vi.fn(),
+  mockTombstonesUpdate: vi.fn(),
+  mockTombstonesBulkDelete: vi.fn(),
+  mockDeleteEntry: vi.fn(),
+  mockLoadSyncKeyring: vi.fn(),
 }));
 
 vi.mock('@/integrations/supabase/client', () => ({
@@ -35,7 +48,17 @@ vi.mock('./db', () => ({
     attachments: {
       toArray: mockAttachmentsToArray,
     },
+    syncTombstones: {
+      toArray: mockTombstonesToArray,
+      update: mockTombstonesUpdate,
+      bulkDelete: mockTombstonesBulkDelete,
+    },
   },
+  deleteEntry: mockDeleteEntry,
+}));
+
+vi.mock('./syncEncryption', () => ({
+  loadSyncKeyring: mockLoadSyncKeyring,
 }));
 
 function makeQuery(data: unknown[] = []) {
@@ -43,6 +66,8 @@ function makeQuery(data: unknown[] = []) {
     eq: vi.fn().mockReturnThis(),
     gte: vi.fn().mockReturnThis(),
     is: vi.fn().mockReturnThis(),
+    order: vi.fn().mockReturnThis(),
+    range: vi.fn().mockReturnThis(),
     then: (onFulfilled: (value: any) => any, onRejected?: (reason: any) => any) =>
       Promise.resolve({ data, error: null }).then(onFulfilled, onRejected),
   };
@@ -60,6 +85,11 @@ describe('syncService', () => {
     mockEntriesUpdate.mockReset();
     mockEntriesAdd.mockReset();
     mockAttachmentsToArray.mockReset();
+    mockTombstonesToArray.mockReset().mockResolvedValue([]);
+    mockTombstonesUpdate.mockReset();
+    mockTombstonesBulkDelete.mockReset();
+    mockDeleteEntry.mockReset();
+    mockLoadSyncKeyring.mockReset().mockResolvedValue(null);
 
     mockUpsert = vi.fn().mockResolvedValue({ error: null });
     mockSelect = vi.fn(() => makeQuery([]));
@@ -144,6 +174,7 @@ describe('syncService', () => {
     });
     mockSelect.mockImplementation(() => makeQuery([
       {
+        id: 'cloud-1',
         local_id: 1,
         updated_at: new Date(2).toISOString(),
       },
@@ -151,6 +182,7 @@ describe('syncService', () => {
     mockEntriesToArray.mockResolvedValue([
       {
         id: 1,
+        cloudId: 'cloud-1',
         date: '2026-02-07',
         text: 'Verified entry',
         mood: 3,
@@ -206,4 +238,544 @@ describe('syncService', () => {
     expect(mockUpsert.mock.calls[0][0]).toEqual(expect.objectContaining({ local_id: 1 }));
     expect(localStorage.getItem('daybook-sync-owner-user-id')).toBe('user-123');
   });
+
+  it('keys uploads by cloudId so equal local ids from two devices do not collide', async () => {
+    mockGetSession.mockResolvedValue({
+      data: { session: { user: { id: 'user-123' } } },
+    });
+    mockSelect.mockImplementation(() => makeQuery([
+      {
+        id: 'laptop-uuid',
+        local_id: 5,
+        date: '2026-02-07',
+        text: 'Written on the laptop',
+        mood: 3,
+        tags: [],
+        is_private: false,
+        title: null,
+        title_source: null,
+        mood_source: 'user',
+        semantic_tags: [],
+        attachment_counts: null,
+        created_at: new Date(100).toISOString(),
+        updated_at: new Date(200).toISOString(),
+        deleted_at: null,
+      },
+    ]));
+    mockEntriesToArray.mockResolvedValue([
+      {
+        id: 5,
+        cloudId: 'phone-uuid',
+        date: '2026-02-07',
+        text: 'Written on the phone',
+        mood: 3,
+        tags: [],
+        isPrivate: false,
+        aiAllowed: true,
+        createdAt: 1,
+        updatedAt: 2,
+      },
+    ]);
+
+    const result = await syncEntries();
+
+    expect(result).toEqual({ uploaded: 1, downloaded: 1, conflicts: 0, errors: [] });
+    expect(mockUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'phone-uuid', local_id: 5, text: 'Written on the phone' }),
+      { onConflict: 'id' }
+    );
+    expect(mockEntriesAdd).toHaveBeenCalledWith(
+      expect.objectContaining({ cloudId: 'laptop-uuid', text: 'Written on the laptop' })
+    );
+    expect(mockEntriesUpdate).not.toHaveBeenCalledWith(5, expect.objectContaining({ text: 'Written on the laptop' }));
+  });
+
+  it('links legacy local_id rows from this device to their server UUID once', async () => {
+    mockGetSession.mockResolvedValue({
+      data: { session: { user: { id: 'user-123' } } },
+    });
+    mockSelect.mockImplementation(() => makeQuery([
+      {
+        id: 'server-uuid',
+        local_id: 1,
+        created_at: new Date(1).toISOString(),
+        updated_at: new Date(2).toISOString(),
+        deleted_at: null,
+      },
+    ]));
+    mockEntriesToArray.mockResolvedValue([
+      {
+        id: 1,
+        cloudId: 'backfilled-uuid',
+        date: '2026-02-07',
+        text: 'Synced before the migration',
+        mood: 3,
+        tags: [],
+        isPrivate: false,
+        aiAllowed: true,
+        createdAt: 1,
+        updatedAt: 2,
+      },
+    ]);
+
+    const result = await syncEntries();
+
+    expect(result).toEqual({ uploaded: 0, downloaded: 0, conflicts: 0, errors: [] });
+    expect(mockEntriesUpdate).toHaveBeenCalledWith(1, { cloudId: 'server-uuid' });
+    expect(mockUpsert).not.toHaveBeenCalled();
+    expect(mockEntriesAdd).not.toHaveBeenCalled();
+    expect(loadSyncMeta('user-123').cloudIdsLinked).toBe(true);
+  });
+
+  it('assigns a cloudId to entries that lack one before uploading', async () => {
+    mockGetSession.mockResolvedValue({
+      data: { session: { user: { id: 'user-123' } } },
+    });
+    mockEntriesToArray.mockResolvedValue([
+      {
+        id: 3,
+        date: '2026-02-07',
+        text: 'Restored from an old backup',
+        mood: 3,
+        tags: [],
+        isPrivate: false,
+        aiAllowed: true,
+        createdAt: 1,
+        updatedAt: 2,
+      },
+    ]);
+
+    await syncEntries();
+
+    const cloudId = mockEntriesUpdate.mock.calls[0][1].cloudId;
+    expect(cloudId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(mockUpsert.mock.calls[0][0]).toEqual(expect.objectContaining({ id: cloudId, local_id: 3 }));
+  });
+
+  describe('conflict detection', () => {
+    const serverRow = (overrides: Record<string, unknown> = {}) => ({
+      id: 'cloud-1',
+      local_id: 1,
+      date: '2026-02-07',
+      text: 'Edited on the laptop',
+      mood: 3,
+      tags: [],
+      is_private: false,
+      title: null,
+      title_source: null,
+      mood_source: 'user',
+      semantic_tags: [],
+      attachment_counts: null,
+      created_at: new Date(1).toISOString(),
+      updated_at: new Date(300).toISOString(),
+      deleted_at: null,
+      ...overrides,
+    });
+    const localEntry = (overrides: Record<string, unknown> = {}) => ({
+      id: 1,
+      cloudId: 'cloud-1',
+      date: '2026-02-07',
+      text: 'Edited on the phone',
+      mood: 3,
+      tags: [],
+      isPrivate: false,
+      aiAllowed: true,
+      createdAt: 1,
+      updatedAt: 250,
+      lastSyncedAt: 200,
+      syncStatus: 'synced',
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      localStorage.setItem('daybook-sync-meta:user-123', JSON.stringify({
+        lastSyncedAt: new Date(200).toISOString(), pendingCount: 0, cloudIdsLinked: true,
+      }));
+      mockGetSession.mockResolvedValue({
+        data: { session: { user: { id: 'user-123' } } },
+      });
+    });
+
+    it('marks the entry as conflicted and keeps the server copy when both sides changed', async () => {
+      mockSelect.mockImplementation(() => makeQuery([serverRow()]));
+      mockEntriesToArray.mockResolvedValue([localEntry()]);
+
+      const result = await syncEntries();
+
+      expect(result).toEqual({ uploaded: 0, downloaded: 0, conflicts: 1, errors: [] });
+      expect(mockEntriesUpdate).toHaveBeenCalledWith(1, {
+        syncStatus: 'conflict',
+        conflictServerVersion: expect.objectContaining({ text: 'Edited on the laptop', updatedAt: 300 }),
+      });
+      expect(mockFrom.mock.results[0].value.update).not.toHaveBeenCalled();
+    });
+
+    it('falls back to last-write-wins when only one side changed', async () => {
+      mockSelect.mockImplementation(() => makeQuery([serverRow()]));
+      mockEntriesToArray.mockResolvedValue([localEntry({ updatedAt: 150, text: 'Old text' })]);
+
+      const result = await syncEntries();
+
+      expect(result).toEqual({ uploaded: 0, downloaded: 1, conflicts: 0, errors: [] });
+      expect(mockEntriesUpdate).toHaveBeenCalledWith(1, expect.objectContaining({
+        text: 'Edited on the laptop', syncStatus: 'synced',
+      }));
+    });
+
+    it('does not report a conflict when both sides made the same edit', async () => {
+      mockSelect.mockImplementation(() => makeQuery([serverRow({ text: 'Same edit' })]));
+      mockEntriesToArray.mockResolvedValue([localEntry({ text: 'Same edit' })]);
+
+      const result = await syncEntries();
+
+      expect(result.conflicts).toBe(0);
+      expect(mockEntriesUpdate).not.toHaveBeenCalledWith(1, expect.objectContaining({ syncStatus: 'conflict' }));
+    });
+
+    it('leaves an unresolved conflict untouched on both sides', async () => {
+      mockSelect.mockImplementation(() => makeQuery([]));
+      mockEntriesToArray.mockResolvedValue([localEntry({ syncStatus: 'conflict', updatedAt: 999 })]);
+
+      const result = await syncEntries();
+
+      expect(result.conflicts).toBe(1);
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deletions across two clients', () => {
+    const USER_ID = 'user-123';
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    interface FakeClient {
+      entries: DiaryEntry[];
+      tombstones: SyncTombstone[];
+      storage: Record<string, string>;
+      nextId: number;
+    }
+
+    type Row = Record<string, unknown>;
+
+    // In-memory diary_entries/diary_attachments with the query-builder subset sync uses
+    function createFakeServer() {
+      const tables: Record<string, Row[]> = { diary_entries: [], diary_attachments: [] };
+
+      const query = (table: string, run: (rows: Row[]) => unknown) => {
+        const filters: Array<(row: Row) => boolean> = [];
+        let orderBy: string | null = null;
+        let window: [number, number] | null = null;
+        const matching = () => {
+          const rows = tables[table].filter(row => filters.every(filter => filter(row)));
+          if (orderBy) rows.sort((a, b) => String(a[orderBy!]).localeCompare(String(b[orderBy!])));
+          // Like PostgREST, never more than one page per response
+          return window ? rows.slice(window[0], window[1] + 1) : rows.slice(0, SERVER_PAGE_SIZE);
+        };
+        const builder = {
+          eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+          gte: (column: string, value: string) => { filters.push(row => String(row[column]) >= value); return builder; },
+          is: (column: string, value: unknown) => { filters.push(row => (row[column] ?? null) === value); return builder; },
+          order: (column: string) => { orderBy = column; return builder; },
+          range: (from: number, to: number) => { window = [from, to]; return builder; },
+          maybeSingle: () => builder,
+          then: (onFulfilled: (value: unknown) => unknown, onRejected?: (reason: unknown) => unknown) =>
+            Promise.resolve(run(matching()))
+              .then(onFulfilled, onRejected),
+        };
+        return builder;
+      };
+
+      return {
+        tables,
+        from: (table: string) => ({
+          select: () => query(table, rows => ({ data: rows.map(row => ({ ...row })), error: null })),
+          update: (values: Row) => query(table, rows => {
+            rows.forEach(row => Object.assign(row, values));
+            return { error: null };
+          }),
+          upsert: async (values: Row) => {
+            const existing = tables[table].find(row => row.id === values.id);
+            if (existing) Object.assign(existing, values);
+            else tables[table].push({ deleted_at: null, ...values });
+            return { error: null };
+          },
+        }),
+      };
+    }
+
+    function createClient(): FakeClient {
+      return { entries: [], tombstones: [], storage: {}, nextId: 1 };
+    }
+
+    // Point the mocked db/localStorage at one client, sync, then save its storage
+    async function syncAs(client: FakeClient, at: number) {
+      vi.setSystemTime(at);
+      localStorage.clear();
+      Object.entries(client.storage).forEach(([key, value]) => localStorage.setItem(key, value));
+
+      mockEntriesToArray.mockImplementation(async () => client.entries.map(entry => ({ ...entry })));
+      mockEntriesUpdate.mockImplementation(async (id: number, changes: Partial<DiaryEntry>) => {
+        const entry = client.entries.find(e => e.id === id);
+        if (entry) Object.assign(entry, changes);
+      });
+      mockEntriesAdd.mockImplementation(async (entry: DiaryEntry) => {
+        client.entries.push({ ...entry, id: client.nextId });
+        return client.nextId++;
+      });
+      mockDeleteEntry.mockImplementation((id: number, options?: { tombstone?: boolean }) =>
+        deleteLocally(client, id, options?.tombstone ?? true));
+      mockAttachmentsToArray.mockResolvedValue([]);
+      mockTombstonesToArray.mockImplementation(async () => client.tombstones.map(t => ({ ...t })));
+      mockTombstonesUpdate.mockImplementation(async (id: number, changes: Partial<SyncTombstone>) => {
+        const tombstone = client.tombstones.find(t => t.id === id);
+        if (tombstone) Object.assign(tombstone, changes);
+      });
+      mockTombstonesBulkDelete.mockImplementation(async (ids: number[]) => {
+        client.tombstones = client.tombstones.filter(t => !ids.includes(t.id!));
+      });
+
+      const result = await syncEntries();
+
+      client.storage = { ...localStorage };
+      return result;
+    }
+
+    // Mirrors db.deleteEntry: synced entries leave a tombstone
+    async function deleteLocally(client: FakeClient, id: number, tombstone = true) {
+      const entry = client.entries.find(e => e.id === id);
+      if (tombstone && entry?.cloudId && entry.lastSyncedAt) {
+        client.tombstones.push({ id: client.tombstones.length + 1, kind: 'entry', cloudId: entry.cloudId, deletedAt: Date.now() });
+      }
+      client.entries = client.entries.filter(e => e.id !== id);
+    }
+
+    function addEntry(client: FakeClient, text: string, at: number): DiaryEntry {
+      const entry: DiaryEntry = {
+        id: client.nextId++, cloudId: `cloud-${text}`, date: '2026-02-07', text, mood: 3, tags: [],
+        isPrivate: false, aiAllowed: true, createdAt: at, updatedAt: at,
+      };
+      client.entries.push(entry);
+      return entry;
+    }
+
+    let server: ReturnType<typeof createFakeServer>;
+    let phone: FakeClient;
+    let laptop: FakeClient;
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      server = createFakeServer();
+      mockFrom.mockImplementation(server.from);
+      mockGetSession.mockResolvedValue({ data: { session: { user: { id: USER_ID } } } });
+      phone = createClient();
+      laptop = createClient();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('deletes on the other client instead of resurrecting the entry', async () => {
+      const entry = addEntry(phone, 'shared', 1_000);
+      await syncAs(phone, 2_000);
+      await syncAs(laptop, 3_000);
+      expect(laptop.entries.map(e => e.cloudId)).toEqual([entry.cloudId]);
+
+      await deleteLocally(phone, entry.id!);
+      expect(phone.tombstones).toHaveLength(1);
+      await syncAs(phone, 5_000);
+
+      expect(server.tables.diary_entries[0].deleted_at).toBe(new Date(5_000).toISOString());
+      expect(phone.tombstones[0].syncedAt).toBe(5_000);
+
+      await syncAs(laptop, 6_000);
+      expect(laptop.entries).toEqual([]);
+      expect(laptop.tombstones).toEqual([]);
+
+      await syncAs(phone, 7_000);
+      expect(phone.entries).toEqual([]);
+    });
+
+    it('does not re-download an entry while its tombstone is being pushed', async () => {
+      const entry = addEntry(phone, 'short-lived', 1_000);
+      await syncAs(phone, 2_000);
+      await syncAs(laptop, 3_000);
+
+      await deleteLocally(laptop, laptop.entries[0].id!);
+      const result = await syncAs(laptop, 4_000);
+
+      expect(result.downloaded).toBe(0);
+      expect(laptop.entries).toEqual([]);
+
+      await syncAs(phone, 5_000);
+      expect(phone.entries.find(e => e.cloudId === entry.cloudId)).toBeUndefined();
+    });
+
+    it('keeps an entry edited on the other client after the deletion', async () => {
+      addEntry(phone, 'contested', 1_000);
+      await syncAs(phone, 2_000);
+      await syncAs(laptop, 3_000);
+
+      await deleteLocally(phone, phone.entries[0].id!);
+      await syncAs(phone, 5_000);
+
+      Object.assign(laptop.entries[0], { text: 'edited later', updatedAt: 5_500 });
+      await syncAs(laptop, 6_000);
+
+      expect(laptop.entries.map(e => e.text)).toEqual(['edited later']);
+      expect(server.tables.diary_entries[0]).toMatchObject({ text: 'edited later', deleted_at: null });
+
+      await syncAs(phone, 7_000);
+      expect(phone.entries.map(e => e.text)).toEqual(['edited later']);
+    });
+
+    it('drops unchanged synced entries missing from the server after a long absence', async () => {
+      addEntry(phone, 'purged', 1_000);
+      await syncAs(phone, 2_000);
+      await syncAs(laptop, 3_000);
+      const edited = addEntry(laptop, 'offline edit', 4_000);
+
+      // Deleted elsewhere and hard-deleted by cleanup-revisions after the retention period
+      server.tables.diary_entries = [];
+      const later = 3_000 + (TOMBSTONE_RETENTION_DAYS + 1) * DAY_MS;
+      await syncAs(laptop, later);
+
+      expect(laptop.entries.map(e => e.cloudId)).toEqual([edited.cloudId]);
+      expect(server.tables.diary_entries.map(row => row.id)).toEqual([edited.cloudId]);
+    });
+
+    it('keeps synced entries that are beyond the first page of a full fetch', async () => {
+      const kept = addEntry(laptop, 'zz-kept', 1_000);
+      await syncAs(laptop, 2_000);
+
+      // Enough other rows that the laptop's entry sorts onto the second page
+      for (let i = 0; i < SERVER_PAGE_SIZE; i++) {
+        server.tables.diary_entries.push({
+          id: `cloud-${String(i).padStart(4, '0')}`, user_id: USER_ID, local_id: null, date: '2026-02-07',
+          text: `other ${i}`, mood: 3, tags: [], is_private: false, deleted_at: null,
+          created_at: new Date(1_500).toISOString(), updated_at: new Date(1_500).toISOString(),
+        });
+      }
+      const later = 2_000 + (TOMBSTONE_RETENTION_DAYS + 1) * DAY_MS;
+      await syncAs(laptop, later);
+
+      expect(laptop.entries.map(e => e.cloudId)).toContain(kept.cloudId);
+      expect(laptop.entries).toHaveLength(SERVER_PAGE_SIZE + 1);
+    });
+  });
+
+  describe('encrypted sync', () => {
+    let keyring: SyncKeyring;
+
+    const privateEntry: DiaryEntry = {
+      id: 1,
+      cloudId: 'cloud-1',
+      date: '2026-02-07',
+      text: 'Only for me',
+      title: 'Secret',
+      mood: 2,
+      tags: ['Семья'],
+      semanticTags: ['family'],
+      isPrivate: true,
+      aiAllowed: false,
+      createdAt: 1,
+      updatedAt: 2,
+    };
+
+    beforeEach(async () => {
+      keyring = { keyId: 'key-1', key: await generateDataKey() };
+      mockLoadSyncKeyring.mockResolvedValue(keyring);
+      mockGetSession.mockResolvedValue({ data: { session: { user: { id: 'user-123' } } } });
+    });
+
+    it('uploads content encrypted and includes private entries', async () => {
+      mockEntriesToArray.mockResolvedValue([privateEntry]);
+
+      const result = await syncEntries();
+
+      expect(result.errors).toEqual([]);
+      const row = mockUpsert.mock.calls[0][0];
+      expect(row).toEqual(expect.objectContaining({
+        id: 'cloud-1',
+        title: null,
+        tags: [],
+        semantic_tags: [],
+        mood: 2,
+        encryption_key_id: 'key-1',
+      }));
+      expect(row.text).not.toContain('Only for me');
+      await expect(decryptEntryPayload(keyring, 'key-1', 'cloud-1', row.text)).resolves.toEqual({
+        text: 'Only for me',
+        title: 'Secret',
+        tags: ['Семья'],
+        semanticTags: ['family'],
+      });
+    });
+
+    it('decrypts downloaded rows before storing them locally', async () => {
+      const text = await encryptEntryPayload(keyring, 'cloud-9', {
+        text: 'From the laptop',
+        title: 'Evening',
+        tags: ['Работа'],
+        semanticTags: [],
+      });
+      mockSelect.mockImplementation(() => makeQuery([
+        {
+          id: 'cloud-9',
+          local_id: 9,
+          date: '2026-02-07',
+          text,
+          mood: 4,
+          tags: [],
+          is_private: false,
+          title: null,
+          title_source: null,
+          mood_source: 'user',
+          semantic_tags: [],
+          attachment_counts: null,
+          created_at: new Date(100).toISOString(),
+          updated_at: new Date(200).toISOString(),
+          deleted_at: null,
+          encryption_key_id: 'key-1',
+        },
+      ]));
+
+      const result = await syncEntries();
+
+      expect(result).toEqual({ uploaded: 0, downloaded: 1, conflicts: 0, errors: [] });
+      expect(mockEntriesAdd).toHaveBeenCalledWith(expect.objectContaining({
+        cloudId: 'cloud-9',
+        text: 'From the laptop',
+        title: 'Evening',
+        tags: ['Работа'],
+      }));
+    });
+
+    it('skips rows it cannot decrypt without overwriting them', async () => {
+      const foreignKeyring = { keyId: 'key-1', key: await generateDataKey() };
+      const text = await encryptEntryPayload(foreignKeyring, 'cloud-1', {
+        text: 'Tampered', title: null, tags: [], semanticTags: [],
+      });
+      mockSelect.mockImplementation(() => makeQuery([
+        { id: 'cloud-1', local_id: 1, text, updated_at: new Date(5).toISOString(), deleted_at: null, encryption_key_id: 'key-1' },
+      ]));
+      mockEntriesToArray.mockResolvedValue([{ ...privateEntry, updatedAt: 10 }]);
+
+      const result = await syncEntries();
+
+      expect(result.errors).toEqual([expect.stringContaining('Decrypt entry cloud-1')]);
+      expect(mockUpsert).not.toHaveBeenCalled();
+      expect(mockEntriesUpdate).not.toHaveBeenCalledWith(1, expect.objectContaining({ text: 'Tampered' }));
+    });
+
+    it('does not upload anything while the key is locked on this device', async () => {
+      mockLoadSyncKeyring.mockRejectedValue(new Error(SYNC_KEY_LOCKED));
+      mockEntriesToArray.mockResolvedValue([privateEntry]);
+
+      const result = await syncEntries();
+
+      expect(result.errors).toEqual([SYNC_KEY_LOCKED]);
+      expect(mockUpsert).not.toHaveBeenCalled();
+      expect(loadSyncMeta('user-123').lastSyncedAt).toBeNull();
+    });
+  });
 });
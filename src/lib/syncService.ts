@@ -1,7 +1,11 @@
 import { supabase } from '@/integrations/supabase/client';
-import type { Json } from '@/integrations/supabase/types';
-import { db, type DiaryEntry, type Attachment } from './db';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { db, deleteEntry, type AttachmentCounts, type DiaryEntry, type EntrySyncVersion, type SyncTombstone } from './db';
 import { logger } from './logger';
+import { invalidateSearchIndex } from './search/searchIndex';
+import { fetchAllPages } from './supabasePaging';
+import { SYNC_KEY_LOCKED, decryptEntryPayload, encryptBlob, encryptEntryPayload, type SyncKeyring } from './syncCrypto';
+import { loadSyncKeyring } from './syncEncryption';
 
 // Sync status types
 export type SyncStatus = 'idle' | 'syncing' | 'error';
@@ -9,6 +13,7 @@ export type SyncStatus = 'idle' | 'syncing' | 'error';
 interface SyncMeta {
   lastSyncedAt: string | null; // ISO timestamp
   pendingCount: number;
+  cloudIdsLinked?: boolean;    // Legacy local_id-keyed server rows linked to cloudIds (v19)
 }
 
 const SYNC_META_KEY = 'daybook-sync-meta';
@@ -17,6 +22,9 @@ const SYNC_OWNER_USER_ID_KEY = 'daybook-sync-owner-user-id';
 export const ACCOUNT_SWITCH_BLOCKED = 'account_switch_blocked';
 const SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
 const SYNC_IDLE_POLL_MS = 50;
+// Deleted rows are hard-deleted by cleanup-revisions after this long (keep in sync)
+export const TOMBSTONE_RETENTION_DAYS = 90;
+const TOMBSTONE_RETENTION_MS = TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
 
 let inFlightSyncOperations = 0;
 
@@ -102,118 +110,407 @@ async function getUserId(): Promise<string | null> {
   return session?.user?.id ?? null;
 }
 
+type ServerEntry = Tables<'diary_entries'>;
+
+/**
+ * Map a local entry to a diary_entries row. The row id is the entry's cloudId,
+ * so devices never collide on their auto-increment local ids.
+ */
+function toServerEntry(local: DiaryEntry & { cloudId: string }, userId: string): TablesInsert<'diary_entries'> {
+  return {
+    id: local.cloudId,
+    user_id: userId,
+    local_id: local.id!,
+    date: local.date,
+    text: local.text,
+    mood: local.mood,
+    tags: local.tags,
+    is_private: local.isPrivate,
+    title: local.title || null,
+    title_source: local.titleSource || null,
+    mood_source: local.moodSource || 'user',
+    semantic_tags: local.semanticTags || [],
+    attachment_counts: (local.attachmentCounts || { image: 0, video: 0, audio: 0 }) as unknown as Json,
+    created_at: new Date(local.createdAt).toISOString(),
+    updated_at: new Date(local.updatedAt).toISOString(),
+  };
+}
+
+/**
+ * With encryption on, content fields travel as one ciphertext in `text`; date, mood,
+ * privacy flag and timestamps stay readable because sync needs them.
+ */
+async function encodeServerEntry(
+  local: DiaryEntry & { cloudId: string },
+  userId: string,
+  keyring: SyncKeyring | null
+): Promise<TablesInsert<'diary_entries'>> {
+  const row = toServerEntry(local, userId);
+  if (!keyring) return row;
+
+  return {
+    ...row,
+    text: await encryptEntryPayload(keyring, local.cloudId, {
+      text: local.text,
+      title: local.title || null,
+      tags: local.tags,
+      semanticTags: local.semanticTags || [],
+    }),
+    title: null,
+    tags: [],
+    semantic_tags: [],
+    encryption_key_id: keyring.keyId,
+  };
+}
+
+async function decodeServerEntry(server: ServerEntry, keyring: SyncKeyring | null): Promise<ServerEntry> {
+  if (!server.encryption_key_id) return server;
+  if (!keyring) throw new Error(SYNC_KEY_LOCKED);
+
+  const payload = await decryptEntryPayload(keyring, server.encryption_key_id, server.id, server.text);
+  return { ...server, text: payload.text, title: payload.title, tags: payload.tags, semantic_tags: payload.semanticTags };
+}
+
+function fromServerEntry(server: ServerEntry): Omit<DiaryEntry, 'id'> {
+  return {
+    cloudId: server.id,
+    date: server.date,
+    text: server.text,
+    mood: server.mood,
+    tags: server.tags || [],
+    isPrivate: server.is_private,
+    aiAllowed: !server.is_private,
+    title: server.title ?? undefined,
+    titleSource: (server.title_source as 'ai' | 'user' | null) ?? undefined,
+    moodSource: (server.mood_source as 'user' | 'ai' | null) ?? undefined,
+    semanticTags: server.semantic_tags || [],
+    attachmentCounts: (server.attachment_counts as unknown as AttachmentCounts) || { image: 0, video: 0, audio: 0 },
+    createdAt: new Date(server.created_at).getTime(),
+    updatedAt: new Date(server.updated_at).getTime(),
+  };
+}
+
+function toSyncVersion(server: ServerEntry): EntrySyncVersion {
+  return {
+    date: server.date,
+    text: server.text,
+    mood: server.mood,
+    tags: server.tags || [],
+    isPrivate: server.is_private,
+    title: server.title ?? undefined,
+    titleSource: (server.title_source as 'ai' | 'user' | null) ?? undefined,
+    moodSource: (server.mood_source as 'user' | 'ai' | null) ?? undefined,
+    semanticTags: server.semantic_tags || [],
+    updatedAt: new Date(server.updated_at).getTime(),
+  };
+}
+
+function hasContentChanges(local: DiaryEntry, server: ServerEntry): boolean {
+  return (
+    local.text !== server.text ||
+    local.date !== server.date ||
+    local.mood !== server.mood ||
+    local.isPrivate !== server.is_private ||
+    (local.title || null) !== (server.title || null) ||
+    [...local.tags].sort().join('\n') !== [...(server.tags || [])].sort().join('\n')
+  );
+}
+
+/**
+ * Give every local entry a cloudId (entries restored from old backups may lack one).
+ */
+async function assignMissingCloudIds(entries: DiaryEntry[]): Promise<void> {
+  for (const entry of entries) {
+    if (entry.id && !entry.cloudId) {
+      entry.cloudId = crypto.randomUUID();
+      await db.entries.update(entry.id, { cloudId: entry.cloudId });
+    }
+  }
+}
+
+/**
+ * Rows uploaded before cloudIds existed are keyed by local_id. The same local id AND
+ * the same creation time means the row came from this device: adopt its UUID
+ * instead of uploading a duplicate. Other devices' rows stay unmatched.
+ */
+async function linkLegacyServerEntries(
+  serverEntries: Pick<ServerEntry, 'id' | 'local_id' | 'created_at'>[],
+  localEntries: DiaryEntry[]
+): Promise<void> {
+  const localCloudIds = new Set(localEntries.map(entry => entry.cloudId));
+  const serverIds = new Set(serverEntries.map(server => server.id));
+  const localById = new Map<number, DiaryEntry>();
+  localEntries.forEach(entry => { if (entry.id) localById.set(entry.id, entry); });
+
+  for (const server of serverEntries) {
+    if (localCloudIds.has(server.id)) continue;
+
+    const candidate = localById.get(server.local_id);
+    if (
+      !candidate?.id ||
+      serverIds.has(candidate.cloudId!) ||
+      new Date(server.created_at).getTime() !== candidate.createdAt
+    ) {
+      continue;
+    }
+
+    candidate.cloudId = server.id;
+    localCloudIds.add(server.id);
+    await db.entries.update(candidate.id, { cloudId: server.id });
+  }
+}
+
+/**
+ * Upload local deletions as deleted_at. Attachment tombstones are dropped when an
+ * identical attachment exists again (the entry editor rewrites attachments on save).
+ */
+async function pushTombstones(
+  tombstones: SyncTombstone[],
+  localEntries: DiaryEntry[],
+  userId: string,
+  syncStartedAt: number,
+  result: SyncEntriesResult
+): Promise<void> {
+  if (tombstones.length === 0) return;
+
+  const deletedAtIso = new Date(syncStartedAt).toISOString();
+  const entryIdByCloudId = new Map(localEntries.map(entry => [entry.cloudId, entry.id]));
+  const hasAttachmentTombstones = tombstones.some(t => t.kind === 'attachment');
+  const localAttachments = hasAttachmentTombstones ? await db.attachments.toArray() : [];
+
+  for (const tombstone of tombstones) {
+    let error: { message: string } | null = null;
+
+    if (tombstone.kind === 'entry') {
+      // updated_at moves too, so other devices pick the deletion up in their incremental fetch
+      ({ error } = await supabase
+        .from('diary_entries')
+        .update({ deleted_at: deletedAtIso, updated_at: deletedAtIso })
+        .eq('user_id', userId)
+        .eq('id', tombstone.cloudId));
+    } else {
+      const entryId = entryIdByCloudId.get(tombstone.cloudId);
+      const readded = localAttachments.some(att =>
+        att.entryId === entryId && att.kind === tombstone.attachmentKind && att.size === tombstone.attachmentSize
+      );
+      if (!readded) {
+        ({ error } = await supabase
+          .from('diary_attachments')
+          .update({ deleted_at: deletedAtIso })
+          .eq('user_id', userId)
+          .eq('entry_id', tombstone.cloudId)
+          .eq('kind', tombstone.attachmentKind!)
+          .eq('size', tombstone.attachmentSize!)
+          .is('deleted_at', null));
+      }
+    }
+
+    if (error) {
+      result.errors.push(`Delete ${tombstone.kind} ${tombstone.cloudId}: ${error.message}`);
+    } else {
+      await db.syncTombstones.update(tombstone.id!, { syncedAt: syncStartedAt });
+    }
+  }
+}
+
+/**
+ * Drop uploaded tombstones once the server has purged the rows they refer to.
+ */
+async function purgeExpiredTombstones(tombstones: SyncTombstone[], now: number): Promise<void> {
+  const expiredIds = tombstones
+    .filter(t => t.syncedAt && now - t.syncedAt > TOMBSTONE_RETENTION_MS)
+    .map(t => t.id!);
+  if (expiredIds.length > 0) {
+    await db.syncTombstones.bulkDelete(expiredIds);
+  }
+}
+
+export interface SyncEntriesResult {
+  uploaded: number;
+  downloaded: number;
+  conflicts: number; // Entries waiting for manual resolution
+  errors: string[];
+}
+
 /**
- * Sync entries: bidirectional with Last-Write-Wins strategy
+ * Sync entries: bidirectional, matched by cloudId. Last-Write-Wins unless both
+ * sides changed since lastSyncedAt, in which case the entry is marked 'conflict'.
  */
-export async function syncEntries(): Promise<{ uploaded: number; downloaded: number; errors: string[] }> {
+export async function syncEntries(): Promise<SyncEntriesResult> {
   return withTrackedSyncOperation(async () => {
   const userId = await getUserId();
   if (!userId) throw new Error('Not authenticated');
   assertSyncOwnershipCompatible(userId);
 
-  const result = { uploaded: 0, downloaded: 0, errors: [] as string[] };
+  const result: SyncEntriesResult = { uploaded: 0, downloaded: 0, conflicts: 0, errors: [] };
   const meta = loadSyncMeta(userId);
+  const syncStartedAt = Date.now();
+  let removed = 0; // Local entries deleted because they were deleted on another device
+  const undecryptableCloudIds = new Set<string>();
 
   try {
+    // Never fall back to plaintext: a locked or unreadable key aborts the sync
+    const keyring = await loadSyncKeyring(userId);
+
     // 1. Get all local entries
     const localEntries = await db.entries.toArray();
-    const syncPrivate = localStorage.getItem('daybook-sync-private') === 'true';
-    const eligibleLocalEntries = localEntries.filter((entry) => {
-      if (!entry.id) return false;
-      if (entry.isPrivate && !syncPrivate) return false;
-      return true;
+    await assignMissingCloudIds(localEntries);
+    // Encrypted sync is unreadable to the server, so private entries go too
+    const syncPrivate = localStorage.getItem('daybook-sync-private') === 'true' || keyring !== null;
+    const isEligible = (entry: DiaryEntry) => Boolean(entry.id) && (!entry.isPrivate || syncPrivate);
+    const eligibleLocalEntries = localEntries.filter(isEligible);
+
+    // 2. Get server entries updated since last sync. Until legacy rows (keyed by local_id)
+    // have been linked to local cloudIds, fetch everything. A device offline for longer than
+    // the tombstone retention also fetches everything: tombstones it missed may be purged.
+    const needsLegacyLink = !meta.cloudIdsLinked;
+    const isStaleDevice = Boolean(meta.lastSyncedAt) &&
+      syncStartedAt - new Date(meta.lastSyncedAt!).getTime() > TOMBSTONE_RETENTION_MS;
+    // Every page is needed: an entry missing from a full fetch is treated as deleted
+    const fetchedEntries = await fetchAllPages<ServerEntry>((from, to) => {
+      let query = supabase
+        .from('diary_entries')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (meta.lastSyncedAt && !needsLegacyLink && !isStaleDevice) {
+        query = query.gte('updated_at', meta.lastSyncedAt);
+      }
+      return query.order('id').range(from, to);
     });
 
-    // 2. Get server entries updated since last sync (or all if first sync)
-    let query = supabase
-      .from('diary_entries')
-      .select('*')
-      .eq('user_id', userId);
+    if (needsLegacyLink) {
+      await linkLegacyServerEntries(fetchedEntries, localEntries);
+    }
 
-    if (meta.lastSyncedAt) {
-      query = query.gte('updated_at', meta.lastSyncedAt);
+    // Rows that cannot be decrypted are left alone on both sides
+    const serverEntries: ServerEntry[] = [];
+    for (const server of fetchedEntries) {
+      try {
+        serverEntries.push(await decodeServerEntry(server, keyring));
+      } catch (err) {
+        result.errors.push(`Decrypt entry ${server.id}: ${err instanceof Error ? err.message : String(err)}`);
+        undecryptableCloudIds.add(server.id);
+      }
     }
 
-    const { data: serverEntries, error: fetchError } = await query;
-    if (fetchError) throw fetchError;
+    // 2b. Push local deletions before anything can re-upload or re-download them
+    const tombstones = await db.syncTombstones.toArray();
+    const pendingTombstones = tombstones.filter(t => !t.syncedAt);
+    const deletedCloudIds = new Set(pendingTombstones.filter(t => t.kind === 'entry').map(t => t.cloudId));
+    await pushTombstones(pendingTombstones, localEntries, userId, syncStartedAt, result);
+    await purgeExpiredTombstones(tombstones, syncStartedAt);
 
     // Build lookup maps
-    const serverByLocalId = new Map<number, any>();
-    (serverEntries || []).forEach(se => serverByLocalId.set(se.local_id, se));
-
-    const localById = new Map<number, DiaryEntry>();
-    localEntries.forEach(le => { if (le.id) localById.set(le.id, le); });
+    const localCloudIds = new Set(localEntries.map(le => le.cloudId));
+    const serverByCloudId = new Map<string, ServerEntry>();
+    const remoteOnly: ServerEntry[] = [];
+    for (const server of serverEntries) {
+      if (localCloudIds.has(server.id)) {
+        serverByCloudId.set(server.id, server);
+      } else {
+        remoteOnly.push(server);
+      }
+    }
 
     // 3. Upload local entries that are newer or don't exist on server
     for (const local of eligibleLocalEntries) {
-      const server = serverByLocalId.get(local.id);
+      if (undecryptableCloudIds.has(local.cloudId!)) continue;
+      const server = serverByCloudId.get(local.cloudId!);
 
       if (!server) {
-        // Entry doesn't exist on server — upload
-        const upsertData = {
-          user_id: userId,
-          local_id: local.id,
-          date: local.date,
-          text: local.text,
-          mood: local.mood,
-          tags: local.tags,
-          is_private: local.isPrivate,
-          title: local.title || null,
-          title_source: local.titleSource || null,
-          mood_source: local.moodSource || 'user',
-          semantic_tags: local.semanticTags || [],
-          attachment_counts: (local.attachmentCounts || { image: 0, video: 0, audio: 0 }) as unknown as Json,
-          created_at: new Date(local.createdAt).toISOString(),
-          updated_at: new Date(local.updatedAt).toISOString(),
-        };
-        const { error } = await supabase.from('diary_entries').upsert(upsertData, { onConflict: 'user_id,local_id' });
+        if (local.syncStatus === 'conflict') {
+          result.conflicts++;
+          continue;
+        }
+
+        // Not in this fetch: skip if unchanged since our last upload
+        if (local.lastSyncedAt && local.updatedAt <= local.lastSyncedAt) {
+          // Full fetch after a long absence: a synced entry missing on the server was
+          // deleted elsewhere and its tombstone already purged
+          if (isStaleDevice) {
+            await deleteEntry(local.id!, { tombstone: false });
+            removed++;
+          }
+          continue;
+        }
+
+        const { error } = await supabase
+          .from('diary_entries')
+          .upsert(await encodeServerEntry(local as DiaryEntry & { cloudId: string }, userId, keyring), { onConflict: 'id' });
 
         if (error) {
           result.errors.push(`Upload entry ${local.id}: ${error.message}`);
         } else {
+          await db.entries.update(local.id!, { syncStatus: 'synced', lastSyncedAt: syncStartedAt });
           result.uploaded++;
         }
       } else {
-        // Both exist — Last Write Wins
         const localTime = local.updatedAt;
         const serverTime = new Date(server.updated_at).getTime();
 
+        // Deleted on another device: apply locally, unless this device edited it afterwards
+        if (server.deleted_at) {
+          if (localTime > new Date(server.deleted_at).getTime()) {
+            const { error } = await supabase
+              .from('diary_entries')
+              .upsert({ ...await encodeServerEntry(local as DiaryEntry & { cloudId: string }, userId, keyring), deleted_at: null }, { onConflict: 'id' });
+            if (error) {
+              result.errors.push(`Restore entry ${local.id}: ${error.message}`);
+            } else {
+              await db.entries.update(local.id!, { syncStatus: 'synced', lastSyncedAt: syncStartedAt });
+              result.uploaded++;
+            }
+          } else {
+            await deleteEntry(local.id!, { tombstone: false });
+            removed++;
+          }
+          continue;
+        }
+
+        // Unresolved conflict: keep both copies, only refresh the stored server copy
+        if (local.syncStatus === 'conflict') {
+          if (local.conflictServerVersion?.updatedAt !== serverTime) {
+            await db.entries.update(local.id!, { conflictServerVersion: toSyncVersion(server) });
+          }
+          result.conflicts++;
+          continue;
+        }
+
+        // Both sides changed since the last sync with different content — let the user merge
+        const base = local.lastSyncedAt;
+        if (base && localTime > base && serverTime > base && hasContentChanges(local, server)) {
+          await db.entries.update(local.id!, {
+            syncStatus: 'conflict',
+            conflictServerVersion: toSyncVersion(server),
+          });
+          result.conflicts++;
+          logger.warn('[Sync]', `Conflict on entry ${local.id}`);
+          continue;
+        }
+
+        // Otherwise — Last Write Wins
         if (localTime > serverTime) {
           // Local is newer — push to server
+          const { id: _id, user_id: _userId, created_at: _createdAt, ...updates } =
+            await encodeServerEntry(local as DiaryEntry & { cloudId: string }, userId, keyring);
           const { error } = await supabase.from('diary_entries')
-            .update({
-              text: local.text,
-              mood: local.mood,
-              tags: local.tags,
-              is_private: local.isPrivate,
-              title: local.title || null,
-              title_source: local.titleSource || null,
-              mood_source: local.moodSource || 'user',
-              semantic_tags: local.semanticTags || [],
-              attachment_counts: (local.attachmentCounts || { image: 0, video: 0, audio: 0 }) as unknown as Json,
-              updated_at: new Date(local.updatedAt).toISOString(),
-            })
+            .update(updates)
             .eq('id', server.id);
 
           if (error) {
             result.errors.push(`Update server entry ${local.id}: ${error.message}`);
           } else {
+            await db.entries.update(local.id!, { syncStatus: 'synced', lastSyncedAt: syncStartedAt });
             result.uploaded++;
           }
         } else if (serverTime > localTime) {
           // Server is newer — pull to local
-          await db.entries.update(local.id, {
-            text: server.text,
-            mood: server.mood,
-            tags: server.tags,
-            isPrivate: server.is_private,
-            aiAllowed: !server.is_private,
-            title: server.title,
-            titleSource: server.title_source,
-            moodSource: server.mood_source,
-            semanticTags: server.semantic_tags || [],
-            attachmentCounts: server.attachment_counts || { image: 0, video: 0, audio: 0 },
-            updatedAt: serverTime,
+          const { createdAt: _createdAt, ...updates } = fromServerEntry(server);
+          await db.entries.update(local.id!, {
+            ...updates,
+            syncStatus: 'synced',
+            lastSyncedAt: syncStartedAt,
           });
           result.downloaded++;
         }
@@ -221,64 +518,36 @@ export async function syncEntries(): Promise<{ uploaded: number; downloaded: num
       }
     }
 
-    // 4. Download server entries that don't exist locally
-    for (const server of (serverEntries || [])) {
+    // 4. Download server entries created on other devices
+    for (const server of remoteOnly) {
       if (server.deleted_at) continue; // Skip soft-deleted
-
-      const localExists = localById.has(server.local_id);
-      if (!localExists && !serverByLocalId.has(server.local_id)) {
-        // This shouldn't happen normally (server has local_id that doesn't exist locally)
-        // This means it was created on another device — create locally
-        // Note: we can't easily assign the exact local_id, so we create a new entry
-      }
+      if (deletedCloudIds.has(server.id)) continue; // Deleted here, tombstone just pushed
+
+      await db.entries.add({
+        ...fromServerEntry(server),
+        syncStatus: 'synced',
+        lastSyncedAt: syncStartedAt,
+      });
+      result.downloaded++;
     }
 
-    // Also download entries from other devices (entries on server with local_ids not in our local DB)
-    if (!meta.lastSyncedAt) {
-      // First sync: get ALL server entries
-      const { data: allServerEntries, error: allError } = await supabase
-        .from('diary_entries')
-        .select('*')
-        .eq('user_id', userId)
-        .is('deleted_at', null);
-
-      if (!allError && allServerEntries) {
-        for (const se of allServerEntries) {
-          const existsLocally = localById.has(se.local_id);
-          if (!existsLocally) {
-            // Entry from another device — create locally
-            await db.entries.add({
-              date: se.date,
-              text: se.text,
-              mood: se.mood,
-              tags: se.tags || [],
-              isPrivate: se.is_private,
-              aiAllowed: !se.is_private,
-              title: se.title,
-              titleSource: se.title_source as 'ai' | 'user' | undefined,
-              moodSource: se.mood_source as 'user' | 'ai' | undefined,
-              semanticTags: se.semantic_tags || [],
-              attachmentCounts: se.attachment_counts as any,
-              createdAt: new Date(se.created_at).getTime(),
-              updatedAt: new Date(se.updated_at).getTime(),
-            });
-            result.downloaded++;
-          }
-        }
-      }
+    // Downloaded rows bypass createEntry/updateEntry, so let search rebuild lazily
+    if (result.downloaded > 0) {
+      invalidateSearchIndex();
     }
 
     // 5. Update sync metadata
     saveSyncMeta({
-      lastSyncedAt: new Date().toISOString(),
+      lastSyncedAt: new Date(syncStartedAt).toISOString(),
       pendingCount: 0,
+      ...(result.errors.length === 0 ? { cloudIdsLinked: true } : {}),
     }, userId);
 
     if (result.errors.length === 0 && (eligibleLocalEntries.length > 0 || result.downloaded > 0)) {
       bindSyncOwnershipIfUnbound(userId);
     }
 
-    logger.info('[Sync]', `Completed: ↑${result.uploaded} ↓${result.downloaded} errors=${result.errors.length}`);
+    logger.info('[Sync]', `Completed: ↑${result.uploaded} ↓${result.downloaded} ✕${removed} conflicts=${result.conflicts} errors=${result.errors.length}`);
   } catch (err: any) {
     result.errors.push(err.message || 'Unknown sync error');
     logger.error('[Sync] Failed', err);
@@ -300,31 +569,42 @@ export async function syncAttachments(): Promise<{ uploaded: number; errors: str
   const result = { uploaded: 0, errors: [] as string[] };
 
   try {
+    const keyring = await loadSyncKeyring(userId);
+
     // Get all local attachments
     const localAttachments = await db.attachments.toArray();
+    const cloudIdByEntryId = new Map<number, string>();
+    (await db.entries.toArray()).forEach(entry => {
+      if (entry.id && entry.cloudId) cloudIdByEntryId.set(entry.id, entry.cloudId);
+    });
 
     for (const att of localAttachments) {
       if (!att.id || !att.entryId) continue;
 
+      // Entries without a cloudId haven't been through syncEntries yet
+      const entryCloudId = cloudIdByEntryId.get(att.entryId);
+      if (!entryCloudId) continue;
+
       // Check if already uploaded (by checking if diary_attachments record exists)
       const { data: existing } = await supabase
         .from('diary_attachments')
         .select('id')
         .eq('user_id', userId)
-        .eq('local_entry_id', att.entryId)
+        .eq('entry_id', entryCloudId)
         .eq('kind', att.kind)
         .eq('size', att.size)
+        .is('deleted_at', null)
         .maybeSingle();
 
       if (existing) continue; // Already synced
 
       // Upload blob to storage
-      const storagePath = `${userId}/${att.entryId}/${att.id}_${att.kind}.${att.mimeType.split('/')[1] || 'bin'}`;
+      const storagePath = `${userId}/${entryCloudId}/${att.id}_${att.kind}.${att.mimeType.split('/')[1] || 'bin'}`;
 
       const { error: uploadError } = await supabase.storage
         .from('diary-media')
-        .upload(storagePath, att.blob, {
-          contentType: att.mimeType,
+        .upload(storagePath, keyring ? await encryptBlob(keyring, att.blob, storagePath) : att.blob, {
+          contentType: keyring ? 'application/octet-stream' : att.mimeType,
           upsert: true,
         });
 
@@ -333,22 +613,22 @@ export async function syncAttachments(): Promise<{ uploaded: number; errors: str
         continue;
       }
 
-      // Get the entry's cloud id
+      // Private entries may not be on the server (entry_id must reference an existing row)
       const { data: cloudEntry } = await supabase
         .from('diary_entries')
         .select('id')
         .eq('user_id', userId)
-        .eq('local_id', att.entryId)
+        .eq('id', entryCloudId)
         .maybeSingle();
 
       // Upload thumbnail if exists
       let thumbnailPath: string | null = null;
       if (att.thumbnail) {
-        thumbnailPath = `${userId}/${att.entryId}/${att.id}_thumb.jpg`;
+        thumbnailPath = `${userId}/${entryCloudId}/${att.id}_thumb.jpg`;
         await supabase.storage
           .from('diary-media')
-          .upload(thumbnailPath, att.thumbnail, {
-            contentType: 'image/jpeg',
+          .upload(thumbnailPath, keyring ? await encryptBlob(keyring, att.thumbnail, thumbnailPath) : att.thumbnail, {
+            contentType: keyring ? 'application/octet-stream' : 'image/jpeg',
             upsert: true,
           });
       }
@@ -366,6 +646,7 @@ export async function syncAttachments(): Promise<{ uploaded: number; errors: str
           duration: att.duration || null,
           storage_path: storagePath,
           thumbnail_path: thumbnailPath,
+          encryption_key_id: keyring?.keyId ?? null,
         });
 
       if (insertError) {
@@ -386,7 +667,7 @@ export async function syncAttachments(): Promise<{ uploaded: number; errors: str
  * Full sync: entries + attachments
  */
 export async function fullSync(): Promise<{
-  entries: { uploaded: number; downloaded: number; errors: string[] };
+  entries: SyncEntriesResult;
   attachments: { uploaded: number; errors: string[] };
 }> {
   const entries = await syncEntries();
@@ -407,8 +688,20 @@ export async function migrateLegacyData(
 
   const result = { entries: 0, attachments: 0, errors: [] as string[] };
 
+  const keyring = await loadSyncKeyring(userId);
   const allEntries = await db.entries.toArray();
-  const syncPrivate = localStorage.getItem('daybook-sync-private') === 'true';
+  await assignMissingCloudIds(allEntries);
+
+  if (!loadSyncMeta(userId).cloudIdsLinked) {
+    const serverEntries = await fetchAllPages((from, to) => supabase
+      .from('diary_entries')
+      .select('id, local_id, created_at')
+      .eq('user_id', userId)
+      .order('id')
+      .range(from, to));
+    await linkLegacyServerEntries(serverEntries, allEntries);
+  }
+  const syncPrivate = localStorage.getItem('daybook-sync-private') === 'true' || keyring !== null;
   const entriesToSync = syncPrivate ? allEntries : allEntries.filter(e => !e.isPrivate);
   const total = entriesToSync.length;
 
@@ -419,27 +712,14 @@ export async function migrateLegacyData(
     onProgress?.(i + 1, total);
 
     try {
-      const upsertData = {
-        user_id: userId,
-        local_id: entry.id,
-        date: entry.date,
-        text: entry.text,
-        mood: entry.mood,
-        tags: entry.tags,
-        is_private: entry.isPrivate,
-        title: entry.title || null,
-        title_source: entry.titleSource || null,
-        mood_source: entry.moodSource || 'user',
-        semantic_tags: entry.semanticTags || [],
-        attachment_counts: (entry.attachmentCounts || { image: 0, video: 0, audio: 0 }) as unknown as Json,
-        created_at: new Date(entry.createdAt).toISOString(),
-        updated_at: new Date(entry.updatedAt).toISOString(),
-      };
-      const { error } = await supabase.from('diary_entries').upsert(upsertData, { onConflict: 'user_id,local_id' });
+      const { error } = await supabase
+        .from('diary_entries')
+        .upsert(await encodeServerEntry(entry as DiaryEntry & { cloudId: string }, userId, keyring), { onConflict: 'id' });
 
       if (error) {
         result.errors.push(`Entry ${entry.id}: ${error.message}`);
       } else {
+        await db.entries.update(entry.id, { syncStatus: 'synced', lastSyncedAt: Date.now() });
         result.entries++;
       }
     } catch (err: any) {
@@ -456,6 +736,7 @@ export async function migrateLegacyData(
   saveSyncMeta({
     lastSyncedAt: new Date().toISOString(),
     pendingCount: 0,
+    cloudIdsLinked: true,
   }, userId);
   if (result.errors.length === 0 && entriesToSync.length > 0) {
     bindSyncOwnershipIfUnbound(userId);
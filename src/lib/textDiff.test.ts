@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { diffText, splitDiffSides } from './textDiff';
+
+describe('diffText', () => {
+  it('marks changed words and keeps the rest equal', () => {
+    const parts = diffText('Утром была пробежка в парке', 'Утром была долгая прогулка в парке');
+
+    expect(parts).toEqual([
+      { op: 'equal', text: 'Утром была ' },
+      { op: 'delete', text: 'пробежка' },
+      { op: 'insert', text: 'долгая прогулка' },
+      { op: 'equal', text: ' в парке' },
+    ]);
+  });
+
+  it('reproduces both inputs from the two sides', () => {
+    const before = 'line one\nline two\n\nline three';
+    const after = 'line one\nline 2\n\nline three\nline four';
+
+    const { before: left, after: right } = splitDiffSides(diffText(before, after));
+
+    expect(left.map(part => part.text).join('')).toBe(before);
+    expect(right.map(part => part.text).join('')).toBe(after);
+  });
+
+  it('handles empty inputs', () => {
+    expect(diffText('', 'new')).toEqual([{ op: 'insert', text: 'new' }]);
+    expect(diffText('same', 'same')).toEqual([{ op: 'equal', text: 'same' }]);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Word-level text diff (LCS) for side-by-side comparison views.
+ * Whitespace is kept as separate tokens so joined parts reproduce the inputs exactly.
+ */
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+// Above this many LCS cells, diff whole lines instead of words
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+function tokenizeWords(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+}
+
+function tokenizeLines(text: string): string[] {
+  return text.split(/(?<=\n)/).filter(token => token.length > 0);
+}
+
+function pushPart(parts: DiffPart[], op: DiffOp, text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    parts.push({ op, text });
+  }
+}
+
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+  // Trim common prefix/suffix to keep the table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) pushPart(parts, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..], flattened
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      pushPart(parts, 'equal', midA[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushPart(parts, 'delete', midA[i++]);
+    } else {
+      pushPart(parts, 'insert', midB[j++]);
+    }
+  }
+  while (i < n) pushPart(parts, 'delete', midA[i++]);
+  while (j < m) pushPart(parts, 'insert', midB[j++]);
+
+  if (endA < a.length) pushPart(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
+
+/**
+ * Diff `before` against `after`. Deleted parts exist only in `before`,
+ * inserted parts only in `after`.
+ */
+export function diffText(before: string, after: string): DiffPart[] {
+  const wordsA = tokenizeWords(before);
+  const wordsB = tokenizeWords(after);
+  if (wordsA.length * wordsB.length <= MAX_WORD_DIFF_CELLS) {
+    return diffTokens(wordsA, wordsB);
+  }
+  return diffTokens(tokenizeLines(before), tokenizeLines(after));
+}
+
+/**
+ * Split a diff into the two sides of a side-by-side view.
+ */
+export function splitDiffSides(parts: DiffPart[]): { before: DiffPart[]; after: DiffPart[] } {
+  return {
+    before: parts.filter(part => part.op !== 'insert'),
+    after: parts.filter(part => part.op !== 'delete'),
+  };
+}
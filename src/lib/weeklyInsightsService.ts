@@ -5,8 +5,10 @@ import { db, DiaryEntry } from './db';
 import { startOfWeek, subDays, format } from 'date-fns';
 import { Language, getBaseLanguage } from './i18n';
 import { logger } from './logger';
-import { loadAISettings, getModelForProfile } from './aiConfig';
+import { loadAISettings, getModelForProfile, type AISettings } from './aiConfig';
 import { getAITokenHeader } from './aiUtils';
+import { extractJSONObject, localChatCompletion } from './localLLM';
+import { ensureAIBudget, isAIBudgetError, recordAIUsage } from './aiUsage';
 
 export interface WeeklyInsight {
   weekStart: string;
@@ -69,6 +71,90 @@ async function saveWeeklyInsight(insight: WeeklyInsight): Promise<void> {
   }
 }
 
+type WeeklyInsightResult = Pick<WeeklyInsight, 'summary' | 'dominantThemes' | 'moodPattern' | 'insight' | 'suggestion'>;
+
+// Prompts mirror the ai-weekly-insights edge function, for the local provider
+const LOCAL_SYSTEM_PROMPTS: Record<'ru' | 'en', string> = {
+  ru: `Ты — аналитик личного дневника «Магический блокнот».
+Проанализируй недельные данные и выяви паттерны настроения и активности.
+
+СТИЛЬ ОТВЕТА:
+- Используй метафоры "контуров", "резонансов", "сигналов", "энергетических потоков"
+- Будь конкретен, но не цитируй записи дословно
+- Фокус на паттернах, инсайтах и практических рекомендациях
+- Пиши на русском языке
+
+ФОРМАТ ОТВЕТА (только JSON):
+{
+  "summary": "2-3 предложения об общем характере недели",
+  "dominantThemes": ["тема1", "тема2", "тема3", "тема4", "тема5"],
+  "moodPattern": "описание динамики настроения за неделю (тренды, пики, спады)",
+  "insight": "ключевое наблюдение о паттернах или корреляциях",
+  "suggestion": "конкретная практическая рекомендация на следующую неделю"
+}`,
+  en: `You are a personal diary analyst in the "cyber-grimoire" style.
+Analyze the weekly data and identify mood and activity patterns.
+
+RESPONSE STYLE:
+- Use metaphors of "circuits", "resonances", "signals", "energy flows"
+- Be specific but don't quote entries verbatim
+- Focus on patterns, insights, and practical recommendations
+- Write in English
+
+RESPONSE FORMAT (JSON only):
+{
+  "summary": "2-3 sentences about the overall character of the week",
+  "dominantThemes": ["theme1", "theme2", "theme3", "theme4", "theme5"],
+  "moodPattern": "description of mood dynamics over the week (trends, peaks, dips)",
+  "insight": "key observation about patterns or correlations",
+  "suggestion": "specific practical recommendation for next week"
+}`,
+};
+
+async function generateWeeklyInsightLocally(
+  entries: DiaryEntry[],
+  language: 'ru' | 'en',
+  settings: AISettings,
+): Promise<WeeklyInsightResult> {
+  const header = language === 'ru'
+    ? `Данные за последние 7 дней (${entries.length} записей):`
+    : `Data from the last 7 days (${entries.length} entries):`;
+  const lines = entries.map(e => `${e.date} [Mood: ${e.mood}/5] ${e.title ? `"${e.title}"` : ''}`.trim());
+
+  const userPrompt = `${header}\n\n${lines.join('\n')}`;
+  const model = getModelForProfile('balanced', 'local');
+  const content = await localChatCompletion({
+    messages: [
+      { role: 'system', content: LOCAL_SYSTEM_PROMPTS[language] },
+      { role: 'user', content: userPrompt },
+    ],
+    model,
+    maxTokens: 1024,
+    temperature: 0.7,
+    language,
+  }, settings);
+  await recordAIUsage({
+    feature: 'insights',
+    provider: 'local',
+    model,
+    profile: 'balanced',
+    promptText: LOCAL_SYSTEM_PROMPTS[language] + userPrompt,
+    completionText: content,
+  });
+
+  const result = extractJSONObject<WeeklyInsightResult>(content);
+  if (!result.summary || !Array.isArray(result.dominantThemes) || !result.moodPattern || !result.insight || !result.suggestion) {
+    throw new Error('LOCAL_RESPONSE_INVALID');
+  }
+  return {
+    summary: result.summary,
+    dominantThemes: result.dominantThemes,
+    moodPattern: result.moodPattern,
+    insight: result.insight,
+    suggestion: result.suggestion,
+  };
+}
+
 export async function generateWeeklyInsight(
   language: Language
 ): Promise<{ success: true; insight: WeeklyInsight } | { success: false; error: string }> {
@@ -94,6 +180,30 @@ export async function generateWeeklyInsight(
     return base;
   });
 
+  try {
+    await ensureAIBudget(baseLang);
+  } catch (e) {
+    if (isAIBudgetError(e)) return { success: false, error: 'budget_exceeded' };
+    throw e;
+  }
+
+  if (aiSettings.provider === 'local') {
+    try {
+      const result = await generateWeeklyInsightLocally(entries, baseLang, aiSettings);
+      const insight: WeeklyInsight = {
+        weekStart: getCurrentWeekStart(),
+        generatedAt: Date.now(),
+        ...result,
+        sourceEntryCount: entries.length,
+      };
+      await saveWeeklyInsight(insight);
+      return { success: true, insight };
+    } catch (e) {
+      logger.error('WeeklyInsights', 'Local generation failed', e as Error);
+      return { success: false, error: 'local_model_error' };
+    }
+  }
+
   try {
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
     const model = getModelForProfile('balanced');
@@ -119,6 +229,14 @@ export async function generateWeeklyInsight(
     }
 
     const result = await response.json();
+    await recordAIUsage({
+      feature: 'insights',
+      provider: aiSettings.provider,
+      model,
+      profile: 'balanced',
+      promptText: JSON.stringify(entryData),
+      completionText: JSON.stringify(result),
+    });
 
     const insight: WeeklyInsight = {
       weekStart: getCurrentWeekStart(),
@@ -0,0 +1,356 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { startOfDay, startOfMonth } from 'date-fns';
+import { AlertTriangle, ArrowLeft, Coins, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { loadAISettings, saveAISettings, type AIProfile, type AISettings } from '@/lib/aiConfig';
+import {
+  clearAIUsage,
+  getAIBudgetStates,
+  getAIUsageSince,
+  summarizeAIUsage,
+  type AIBudgetState,
+  type AIUsageFeature,
+  type AIUsageTotals,
+} from '@/lib/aiUsage';
+import { useI18n } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// ============================================
+// LOCALIZED TEXTS
+// ============================================
+
+const texts = {
+  title: { ru: 'Расход AI', en: 'AI usage', he: 'שימוש ב-AI', ar: 'استخدام الذكاء الاصطناعي' },
+  today: { ru: 'Сегодня', en: 'Today', he: 'היום', ar: 'اليوم' },
+  month: { ru: 'Этот месяц', en: 'This month', he: 'החודש', ar: 'هذا الشهر' },
+  calls: { ru: 'Запросов', en: 'Calls', he: 'קריאות', ar: 'الطلبات' },
+  tokens: { ru: 'Токенов', en: 'Tokens', he: 'טוקנים', ar: 'الرموز' },
+  cost: { ru: 'Оценка', en: 'Estimate', he: 'הערכה', ar: 'التقدير' },
+  estimateHint: { ru: 'Стоимость рассчитана по прайсу моделей и может отличаться от счёта провайдера. Локальная модель бесплатна.', en: 'Costs use model list prices and may differ from your provider bill. The local model is free.', he: 'העלויות מחושבות לפי מחירון הדגמים ועשויות להיות שונות מהחשבון. המודל המקומי חינמי.', ar: 'تُحسب التكاليف وفق أسعار النماذج وقد تختلف عن فاتورة المزوّد. النموذج المحلي مجاني.' },
+  byFeature: { ru: 'По функциям', en: 'By feature', he: 'לפי תכונה', ar: 'حسب الميزة' },
+  byModel: { ru: 'По моделям', en: 'By model', he: 'לפי מודל', ar: 'حسب النموذج' },
+  byProfile: { ru: 'По профилям', en: 'By profile', he: 'לפי פרופיל', ar: 'حسب الملف' },
+  empty: { ru: 'Запросов к AI пока не было', en: 'No AI calls yet', he: 'עדיין אין קריאות AI', ar: 'لا توجد طلبات بعد' },
+  budgets: { ru: 'Бюджеты', en: 'Budgets', he: 'תקציבים', ar: 'الميزانيات' },
+  dailyBudget: { ru: 'В день, $', en: 'Per day, $', he: 'ליום, $', ar: 'يومياً، $' },
+  monthlyBudget: { ru: 'В месяц, $', en: 'Per month, $', he: 'לחודש, $', ar: 'شهرياً، $' },
+  budgetHint: { ru: '0 — без ограничения. Предупреждение появится на 80%.', en: '0 means no limit. A warning appears at 80%.', he: '0 — ללא הגבלה. אזהרה תופיע ב-80%.', ar: '0 يعني بلا حد. يظهر تحذير عند 80%.' },
+  hardStop: { ru: 'Останавливать AI при превышении', en: 'Stop AI when a budget is used up', he: 'עצור AI כשהתקציב נגמר', ar: 'أوقف الذكاء الاصطناعي عند نفاد الميزانية' },
+  hardStopHint: { ru: 'Иначе только предупреждать', en: 'Otherwise only warn', he: 'אחרת רק להזהיר', ar: 'وإلا فالتحذير فقط' },
+  daily: { ru: 'День', en: 'Day', he: 'יום', ar: 'اليوم' },
+  monthly: { ru: 'Месяц', en: 'Month', he: 'חודש', ar: 'الشهر' },
+  clear: { ru: 'Очистить журнал', en: 'Clear ledger', he: 'נקה יומן', ar: 'مسح السجل' },
+  clearConfirm: { ru: 'Очистить журнал расхода?', en: 'Clear the usage ledger?', he: 'לנקות את יומן השימוש?', ar: 'مسح سجل الاستخدام؟' },
+  clearDesc: { ru: 'История запросов удалится, и бюджеты начнут считаться с нуля.', en: 'Call history is deleted and budgets start counting from zero.', he: 'היסטוריית הקריאות תימחק והתקציבים יתחילו מאפס.', ar: 'سيُحذف سجل الطلبات وتبدأ الميزانيات من الصفر.' },
+  cleared: { ru: 'Журнал очищен', en: 'Ledger cleared', he: 'היומן נוקה', ar: 'تم مسح السجل' },
+  cancel: { ru: 'Отмена', en: 'Cancel', he: 'ביטול', ar: 'إلغاء' },
+  'feature.chat': { ru: 'Чат', en: 'Chat', he: "צ'אט", ar: 'الدردشة' },
+  'feature.discussion': { ru: 'Обсуждения', en: 'Discussions', he: 'דיונים', ar: 'النقاشات' },
+  'feature.receipt': { ru: 'Чеки', en: 'Receipts', he: 'קבלות', ar: 'الإيصالات' },
+  'feature.transcription': { ru: 'Расшифровка', en: 'Transcription', he: 'תמלול', ar: 'التفريغ' },
+  'feature.biography': { ru: 'Хроника', en: 'Chronicle', he: 'כרוניקה', ar: 'السجل' },
+  'feature.insights': { ru: 'Инсайты', en: 'Insights', he: 'תובנות', ar: 'الرؤى' },
+  'feature.entryAnalysis': { ru: 'Анализ записей', en: 'Entry analysis', he: 'ניתוח רשומות', ar: 'تحليل المدخلات' },
+  'feature.imageAnalysis': { ru: 'Анализ фото', en: 'Photo analysis', he: 'ניתוח תמונות', ar: 'تحليل الصور' },
+  'profile.economy': { ru: 'Эконом', en: 'Economy', he: 'חסכוני', ar: 'اقتصادي' },
+  'profile.fast': { ru: 'Быстро', en: 'Fast', he: 'מהיר', ar: 'سريع' },
+  'profile.balanced': { ru: 'Баланс', en: 'Balance', he: 'מאוזן', ar: 'متوازن' },
+  'profile.quality': { ru: 'Качество', en: 'Quality', he: 'איכות', ar: 'جودة' },
+  'profile.biography': { ru: 'Хроника', en: 'Chronicle', he: 'כרוניקה', ar: 'سجل' },
+};
+
+type TextKey = keyof typeof texts;
+type Period = 'today' | 'month';
+
+function formatUsd(value: number): string {
+  if (value === 0) return '$0';
+  return value < 0.01 ? '<$0.01' : `$${value.toFixed(2)}`;
+}
+
+function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}k`;
+  return String(value);
+}
+
+interface BreakdownCardProps {
+  title: string;
+  rows: Array<{ key: string; label: string; totals: AIUsageTotals }>;
+}
+
+function BreakdownCard({ title, rows }: BreakdownCardProps) {
+  if (rows.length === 0) return null;
+  const maxCost = Math.max(...rows.map(row => row.totals.costUsd), 0);
+
+  return (
+    <Card className="panel-glass border-cyber-glow/20">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rows.map(row => (
+          <div key={row.key} className="space-y-1">
+            <div className="flex items-baseline justify-between gap-2 text-sm">
+              <span className="truncate">{row.label}</span>
+              <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                {row.totals.calls} · {formatTokens(row.totals.tokens)} · {formatUsd(row.totals.costUsd)}
+              </span>
+            </div>
+            <div className="h-1 overflow-hidden rounded-full bg-muted/50">
+              <div
+                className="h-full rounded-full bg-cyber-glow/60"
+                style={{ width: `${maxCost > 0 ? (row.totals.costUsd / maxCost) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BudgetMeter({ state, t }: { state: AIBudgetState; t: (key: TextKey) => string }) {
+  if (state.limitUsd === 0) return null;
+  const ratio = Math.min(state.spentUsd / state.limitUsd, 1);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="flex items-center gap-1">
+          {state.level !== 'ok' && <AlertTriangle className="h-3 w-3 text-amber-500" />}
+          {t(state.period)}
+        </span>
+        <span className="font-mono text-muted-foreground">
+          {formatUsd(state.spentUsd)} / {formatUsd(state.limitUsd)}
+        </span>
+      </div>
+      <div className="h-1.5 overflow-hidden rounded-full bg-muted/50">
+        <div
+          className={cn(
+            'h-full rounded-full',
+            state.level === 'exceeded' ? 'bg-destructive' : state.level === 'warning' ? 'bg-amber-500' : 'bg-cyber-sigil'
+          )}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+function AIUsageContent() {
+  const navigate = useNavigate();
+  const { language } = useI18n();
+  const [period, setPeriod] = useState<Period>('today');
+  const [settings, setSettings] = useState<AISettings>(loadAISettings);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const t = (key: TextKey): string =>
+    texts[key][language as keyof typeof texts[TextKey]] || texts[key].en;
+
+  const since = (period === 'today' ? startOfDay(new Date()) : startOfMonth(new Date())).getTime();
+  const records = useLiveQuery(() => getAIUsageSince(since), [since]);
+  // Re-read on every ledger change and on budget edits
+  const budgets = useLiveQuery(
+    () => getAIBudgetStates(),
+    [records?.length, settings.budgetDailyUsd, settings.budgetMonthlyUsd]
+  );
+
+  const summary = records ? summarizeAIUsage(records) : null;
+
+  const updateSettings = (updates: Partial<AISettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    saveAISettings(next);
+  };
+
+  const updateBudget = (key: 'budgetDailyUsd' | 'budgetMonthlyUsd', value: string) => {
+    const parsed = Number.parseFloat(value.replace(',', '.'));
+    updateSettings({ [key]: Number.isFinite(parsed) && parsed > 0 ? parsed : 0 });
+  };
+
+  const handleClear = async () => {
+    await clearAIUsage();
+    setConfirmClear(false);
+    toast.success(t('cleared'));
+  };
+
+  const featureRows = summary
+    ? (Object.entries(summary.byFeature) as Array<[AIUsageFeature, AIUsageTotals]>)
+      .map(([feature, totals]) => ({ key: feature, label: t(`feature.${feature}` as TextKey), totals }))
+      .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.calls - a.totals.calls)
+    : [];
+  const modelRows = summary
+    ? Object.entries(summary.byModel)
+      .map(([key, totals]) => ({ key, label: `${totals.model} · ${totals.provider}`, totals }))
+      .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.calls - a.totals.calls)
+    : [];
+  const profileRows = summary
+    ? (Object.entries(summary.byProfile) as Array<[AIProfile, AIUsageTotals]>)
+      .map(([profile, totals]) => ({ key: profile, label: t(`profile.${profile}` as TextKey), totals }))
+      .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.calls - a.totals.calls)
+    : [];
+
+  return (
+    <div className="min-h-screen pb-24 cyber-noise rune-grid">
+      <header className="sticky top-0 z-40 panel-glass border-b border-border/50 backdrop-blur-md">
+        <div className="flex items-center gap-2 p-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">{t('title')}</h1>
+        </div>
+      </header>
+
+      <main className="space-y-4 px-4 pt-4">
+        {/* Period switch */}
+        <div className="grid grid-cols-2 gap-2">
+          {(['today', 'month'] as const).map(value => (
+            <Button
+              key={value}
+              variant="outline"
+              size="sm"
+              onClick={() => setPeriod(value)}
+              className={cn('profile-btn-cyber', period === value && 'active')}
+            >
+              {t(value)}
+            </Button>
+          ))}
+        </div>
+
+        {/* Totals */}
+        <Card className="panel-glass border-cyber-glow/20">
+          <CardContent className="grid grid-cols-3 gap-2 pt-6 text-center">
+            {[
+              { key: 'calls' as const, value: summary ? String(summary.calls) : '—' },
+              { key: 'tokens' as const, value: summary ? formatTokens(summary.tokens) : '—' },
+              { key: 'cost' as const, value: summary ? formatUsd(summary.costUsd) : '—' },
+            ].map(item => (
+              <div key={item.key}>
+                <div className="font-mono text-lg text-cyber-glow">{item.value}</div>
+                <div className="text-xs text-muted-foreground">{t(item.key)}</div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+        <p className="text-xs text-muted-foreground">{t('estimateHint')}</p>
+
+        {summary && summary.calls === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10 text-center">
+            <div className="mb-4 p-6 panel-glass">
+              <Coins className="h-10 w-10 text-cyber-sigil" />
+            </div>
+            <p className="max-w-xs text-sm text-muted-foreground">{t('empty')}</p>
+          </div>
+        ) : (
+          <>
+            <BreakdownCard title={t('byFeature')} rows={featureRows} />
+            <BreakdownCard title={t('byModel')} rows={modelRows} />
+            <BreakdownCard title={t('byProfile')} rows={profileRows} />
+          </>
+        )}
+
+        {/* Budgets */}
+        <Card className="panel-glass border-cyber-glow/20">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{t('budgets')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="budget-daily" className="text-xs">{t('dailyBudget')}</Label>
+                <Input
+                  id="budget-daily"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step={0.1}
+                  defaultValue={settings.budgetDailyUsd || ''}
+                  placeholder="0"
+                  onBlur={(e) => updateBudget('budgetDailyUsd', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="budget-monthly" className="text-xs">{t('monthlyBudget')}</Label>
+                <Input
+                  id="budget-monthly"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step={1}
+                  defaultValue={settings.budgetMonthlyUsd || ''}
+                  placeholder="0"
+                  onBlur={(e) => updateBudget('budgetMonthlyUsd', e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">{t('budgetHint')}</p>
+
+            {budgets?.map(state => <BudgetMeter key={state.period} state={state} t={t} />)}
+
+            <div className="flex items-center justify-between gap-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="budget-block" className="text-sm">{t('hardStop')}</Label>
+                <p className="text-xs text-muted-foreground">{t('hardStopHint')}</p>
+              </div>
+              <Switch
+                id="budget-block"
+                checked={settings.budgetMode === 'block'}
+                onCheckedChange={(checked) => updateSettings({ budgetMode: checked ? 'block' : 'warn' })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Button
+          variant="outline"
+          className="w-full gap-2 text-destructive"
+          onClick={() => setConfirmClear(true)}
+        >
+          <Trash2 className="h-4 w-4" />
+          {t('clear')}
+        </Button>
+      </main>
+
+      <AlertDialog open={confirmClear} onOpenChange={setConfirmClear}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('clearConfirm')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('clearDesc')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleClear} className="bg-destructive text-destructive-foreground">
+              {t('clear')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default function AIUsagePage() {
+  return (
+    <ErrorBoundary>
+      <AIUsageContent />
+    </ErrorBoundary>
+  );
+}
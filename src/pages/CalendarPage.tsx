@@ -3,7 +3,7 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { useNavigate } from 'react-router-dom';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isToday } from 'date-fns';
 import { ru, enUS } from 'date-fns/locale';
-import { ChevronLeft, ChevronRight, Calendar, Camera, Mic, Video } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Calendar, Camera, Mic, Video, BarChart3 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { db, isBackfillDone, backfillAttachmentCounts, type AttachmentCounts } from '@/lib/db';
 import { Button } from '@/components/ui/button';
@@ -152,7 +152,15 @@ function CalendarContent() {
               {t('app.subtitle')}
             </p>
           </div>
-          <div className="shrink-0 w-8" />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/calendar/analytics')}
+            className="shrink-0 h-8 w-8 hover:bg-cyber-glow/10"
+            aria-label={t('calendar.analytics')}
+          >
+            <BarChart3 className="h-5 w-5 text-cyber-sigil" />
+          </Button>
         </div>
 
         {/* Month navigation - icon swap for RTL */}
@@ -1,8 +1,15 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Send, User, Loader2, AlertCircle, Settings, X } from 'lucide-react';
+import { Send, User, Loader2, AlertCircle, Settings, X, History } from 'lucide-react';
 import { Link, useSearchParams } from 'react-router-dom';
 import { loadAISettings } from '@/lib/aiConfig';
 import { streamChatCompletion, ChatMessage, MessageContentPart } from '@/lib/aiService';
+import {
+  addChatThreadMessage,
+  createChatThread,
+  getChatThreadById,
+  getChatThreadMessages,
+  type ChatThreadMessage,
+} from '@/lib/db';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
@@ -15,11 +22,13 @@ import { ChatImageCapture } from '@/components/chat/ChatImageCapture';
 import { ChatImageConsent } from '@/components/chat/ChatImageConsent';
 import { DiaryImagePicker } from '@/components/chat/DiaryImagePicker';
 import { AutoScreenshotPreview } from '@/components/chat/AutoScreenshotPreview';
+import { ChatThreadsSheet } from '@/components/chat/ChatThreadsSheet';
 import { isAutoScreenshotMessage, AutoScreenshotPayload } from '@/lib/screenshotService';
 
 interface ConfirmedImage {
   blob: Blob;
   base64DataUrl: string;
+  attachmentId?: number; // Set when picked from the diary
 }
 
 interface DisplayMessage {
@@ -29,17 +38,53 @@ interface DisplayMessage {
   imageUrl?: string;
   imageUrls?: string[]; // Multiple images support
   isStreaming?: boolean;
+  failed?: boolean;
+}
+
+function toDisplayMessage(message: ChatThreadMessage): DisplayMessage {
+  return {
+    id: `stored-${message.id}`,
+    role: message.role,
+    content: message.content,
+    imageUrls: message.imageUrls,
+    failed: message.status === 'error',
+  };
+}
+
+// Conversation history for the model; failed replies are left out
+function toApiMessages(messages: DisplayMessage[]): ChatMessage[] {
+  return messages.filter(m => !m.failed).map(m => {
+    if ((m.imageUrl || m.imageUrls) && m.role === 'user') {
+      const parts: MessageContentPart[] = [];
+      if (m.content && m.content !== '[Фото]' && m.content !== '[Photo]') {
+        parts.push({ type: 'text', text: m.content });
+      }
+      // Handle both single and multiple images
+      const urls = m.imageUrls ?? (m.imageUrl ? [m.imageUrl] : []);
+      urls.forEach(url => {
+        parts.push({ type: 'image_url', image_url: { url } });
+      });
+      return { role: 'user' as const, content: parts };
+    }
+    return { role: m.role as 'user' | 'assistant', content: m.content };
+  });
 }
 
 function ChatContent() {
   const { t, language } = useI18n();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const isHelperSurface = searchParams.get('surface') === 'helper';
+  // The helper surface is a one-off support conversation: it is not kept in chat history
+  const persistThreads = !isHelperSurface;
+  const threadParam = Number(searchParams.get('thread')) || null;
   
   const [messages, setMessages] = useState<DisplayMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [settings, setSettings] = useState(() => loadAISettings());
+  const [showThreads, setShowThreads] = useState(false);
+  // Thread whose messages are on screen (null: a new, not yet saved chat)
+  const loadedThreadRef = useRef<number | null>(null);
   
   // Image attachment state - now supports multiple
   const [pendingImages, setPendingImages] = useState<ConfirmedImage[]>([]);
@@ -55,6 +100,48 @@ function ChatContent() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  const setThreadParam = useCallback((threadId: number | null, replace = false) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (threadId === null) next.delete('thread');
+      else next.set('thread', String(threadId));
+      return next;
+    }, { replace });
+  }, [setSearchParams]);
+
+  // Load the thread named in the URL (?thread=<id>) to continue it
+  useEffect(() => {
+    if (!persistThreads || threadParam === loadedThreadRef.current) return;
+    loadedThreadRef.current = threadParam;
+    setConfirmedImages([]);
+
+    if (threadParam === null) {
+      setMessages([]);
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      const thread = await getChatThreadById(threadParam);
+      if (cancelled) return;
+      if (!thread) {
+        toast.error(t('chat.threadNotFound'));
+        loadedThreadRef.current = null;
+        setMessages([]);
+        setThreadParam(null, true);
+        return;
+      }
+      const stored = await getChatThreadMessages(threadParam);
+      if (!cancelled) setMessages(stored.map(toDisplayMessage));
+    })().catch((error) => {
+      console.error('[ChatPage] Failed to load chat thread:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [persistThreads, threadParam, setThreadParam, t]);
+
   // Reload settings when page is focused
   useEffect(() => {
     const handleFocus = () => setSettings(loadAISettings());
@@ -133,57 +220,52 @@ function ChatContent() {
     setConfirmedImages([]);
   };
 
-  // Handle auto-screenshot send
-  const handleAutoScreenshotSend = async (prompt: string, imageUrl: string) => {
-    if (isLoading) return;
-    
-    // Build display message for user
-    const userDisplayMessage: DisplayMessage = {
-      id: `user-${Date.now()}`,
-      role: 'user',
-      content: prompt,
-      imageUrls: [imageUrl],
-    };
+  const handleSelectThread = (threadId: number) => {
+    setShowThreads(false);
+    if (threadId !== threadParam) setThreadParam(threadId);
+  };
 
-    const assistantMessage: DisplayMessage = {
-      id: `assistant-${Date.now()}`,
-      role: 'assistant',
-      content: '',
-      isStreaming: true,
-    };
+  const handleNewChat = () => {
+    setShowThreads(false);
+    if (threadParam !== null) setThreadParam(null);
+    else setMessages([]);
+  };
 
-    setMessages(prev => [...prev, userDisplayMessage, assistantMessage]);
-    setPendingAutoScreenshot(null);
-    setIsLoading(true);
+  const handleThreadDeleted = (threadId: number) => {
+    if (threadId === threadParam) handleNewChat();
+  };
 
-    // Build API messages
-    const apiMessages: ChatMessage[] = messages.map(m => {
-      if ((m.imageUrl || m.imageUrls) && m.role === 'user') {
-        const parts: MessageContentPart[] = [];
-        if (m.content && m.content !== '[Фото]' && m.content !== '[Photo]') {
-          parts.push({ type: 'text', text: m.content });
-        }
-        const urls = m.imageUrls ?? (m.imageUrl ? [m.imageUrl] : []);
-        urls.forEach(url => {
-          parts.push({ type: 'image_url', image_url: { url } });
-        });
-        return { role: 'user' as const, content: parts };
-      }
-      return { role: m.role as 'user' | 'assistant', content: m.content };
-    });
+  /**
+   * Thread the next message belongs to; the first message of a new chat creates it.
+   */
+  const ensureThread = async (): Promise<number | null> => {
+    if (!persistThreads) return null;
+    if (threadParam !== null) return threadParam;
+
+    const threadId = await createChatThread();
+    loadedThreadRef.current = threadId;
+    setThreadParam(threadId, true);
+    return threadId;
+  };
 
-    // Add current message with screenshot
-    const parts: MessageContentPart[] = [
-      { type: 'text', text: prompt },
-      { type: 'image_url', image_url: { url: imageUrl } },
-    ];
-    apiMessages.push({ role: 'user' as const, content: parts });
+  // History is best-effort: a storage failure must not break the conversation
+  const saveMessage = async (message: Omit<ChatThreadMessage, 'id' | 'createdAt'>) => {
+    try {
+      await addChatThreadMessage(message);
+    } catch (error) {
+      console.error('[ChatPage] Failed to save chat message:', error);
+    }
+  };
+
+  const streamReply = async (apiMessages: ChatMessage[], threadId: number | null) => {
+    let reply = '';
 
     await streamChatCompletion(
       apiMessages,
       settings.chatProfile,
       {
         onToken: (token) => {
+          reply += token;
           setMessages(prev => {
             const newMessages = [...prev];
             const lastMessage = newMessages[newMessages.length - 1];
@@ -204,6 +286,9 @@ function ChatContent() {
           });
           setIsLoading(false);
           trackUsageEvent('aiChatMessages');
+          if (threadId !== null) {
+            void saveMessage({ threadId, role: 'assistant', content: reply, status: 'ok' });
+          }
         },
         onError: (error) => {
           toast.error(error.message);
@@ -213,15 +298,60 @@ function ChatContent() {
             if (lastMessage && lastMessage.role === 'assistant') {
               lastMessage.content = t('common.error');
               lastMessage.isStreaming = false;
+              lastMessage.failed = true;
             }
             return newMessages;
           });
           setIsLoading(false);
+          if (threadId !== null) {
+            void saveMessage({ threadId, role: 'assistant', content: t('common.error'), status: 'error' });
+          }
         },
       }
     );
   };
 
+  // Handle auto-screenshot send
+  const handleAutoScreenshotSend = async (prompt: string, imageUrl: string) => {
+    if (isLoading) return;
+    
+    // Build display message for user
+    const userDisplayMessage: DisplayMessage = {
+      id: `user-${Date.now()}`,
+      role: 'user',
+      content: prompt,
+      imageUrls: [imageUrl],
+    };
+
+    const assistantMessage: DisplayMessage = {
+      id: `assistant-${Date.now()}`,
+      role: 'assistant',
+      content: '',
+      isStreaming: true,
+    };
+
+    setMessages(prev => [...prev, userDisplayMessage, assistantMessage]);
+    setPendingAutoScreenshot(null);
+    setIsLoading(true);
+
+    // Build API messages
+    const apiMessages = toApiMessages(messages);
+
+    // Add current message with screenshot
+    const parts: MessageContentPart[] = [
+      { type: 'text', text: prompt },
+      { type: 'image_url', image_url: { url: imageUrl } },
+    ];
+    apiMessages.push({ role: 'user' as const, content: parts });
+
+    const threadId = await ensureThread();
+    if (threadId !== null) {
+      await saveMessage({ threadId, role: 'user', content: prompt, imageUrls: [imageUrl] });
+    }
+
+    await streamReply(apiMessages, threadId);
+  };
+
   const handleSend = async () => {
     const trimmedInput = input.trim();
     if ((!trimmedInput && confirmedImages.length === 0) || isLoading) return;
@@ -253,21 +383,7 @@ function ChatContent() {
     setIsLoading(true);
 
     // Build API messages
-    const apiMessages: ChatMessage[] = messages.map(m => {
-      if ((m.imageUrl || m.imageUrls) && m.role === 'user') {
-        const parts: MessageContentPart[] = [];
-        if (m.content && m.content !== '[Фото]' && m.content !== '[Photo]') {
-          parts.push({ type: 'text', text: m.content });
-        }
-        // Handle both single and multiple images
-        const urls = m.imageUrls ?? (m.imageUrl ? [m.imageUrl] : []);
-        urls.forEach(url => {
-          parts.push({ type: 'image_url', image_url: { url } });
-        });
-        return { role: 'user' as const, content: parts };
-      }
-      return { role: m.role as 'user' | 'assistant', content: m.content };
-    });
+    const apiMessages = toApiMessages(messages);
 
     // Add current message
     if (imagesToSend.length > 0) {
@@ -283,47 +399,19 @@ function ChatContent() {
       apiMessages.push({ role: 'user' as const, content: trimmedInput });
     }
 
-    await streamChatCompletion(
-      apiMessages,
-      settings.chatProfile,
-      {
-        onToken: (token) => {
-          setMessages(prev => {
-            const newMessages = [...prev];
-            const lastMessage = newMessages[newMessages.length - 1];
-            if (lastMessage && lastMessage.role === 'assistant') {
-              lastMessage.content += token;
-            }
-            return newMessages;
-          });
-        },
-        onComplete: () => {
-          setMessages(prev => {
-            const newMessages = [...prev];
-            const lastMessage = newMessages[newMessages.length - 1];
-            if (lastMessage) {
-              lastMessage.isStreaming = false;
-            }
-            return newMessages;
-          });
-          setIsLoading(false);
-          trackUsageEvent('aiChatMessages');
-        },
-        onError: (error) => {
-          toast.error(error.message);
-          setMessages(prev => {
-            const newMessages = [...prev];
-            const lastMessage = newMessages[newMessages.length - 1];
-            if (lastMessage && lastMessage.role === 'assistant') {
-              lastMessage.content = t('common.error');
-              lastMessage.isStreaming = false;
-            }
-            return newMessages;
-          });
-          setIsLoading(false);
-        },
-      }
-    );
+    const threadId = await ensureThread();
+    if (threadId !== null) {
+      const diaryAttachmentIds = imagesToSend.flatMap(img => (img.attachmentId !== undefined ? [img.attachmentId] : []));
+      await saveMessage({
+        threadId,
+        role: 'user',
+        content: userDisplayMessage.content,
+        imageUrls: userDisplayMessage.imageUrls,
+        ...(diaryAttachmentIds.length > 0 ? { diaryAttachmentIds } : {}),
+      });
+    }
+
+    await streamReply(apiMessages, threadId);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -389,6 +477,16 @@ function ChatContent() {
           
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="hover:bg-cyber-glow/10"
+                onClick={() => setShowThreads(true)}
+                disabled={isLoading}
+                aria-label={t('chat.history')}
+              >
+                <History className="h-5 w-5" />
+              </Button>
               <div className="relative">
                 <SigilIcon className="h-6 w-6 text-cyber-sigil" animated />
                 <div className="absolute -bottom-1 -right-1 w-2 h-2 rounded-full bg-cyber-glow animate-pulse-glow" />
@@ -603,6 +701,17 @@ function ChatContent() {
         imagePreviewUrls={pendingImages.map(img => img.base64DataUrl)}
       />
 
+      {persistThreads && (
+        <ChatThreadsSheet
+          open={showThreads}
+          onOpenChange={setShowThreads}
+          activeThreadId={threadParam}
+          onSelect={handleSelectThread}
+          onNewChat={handleNewChat}
+          onDeleted={handleThreadDeleted}
+        />
+      )}
+
       {/* Diary image picker with multi-select */}
       <DiaryImagePicker
         open={showDiaryPicker}
@@ -37,11 +37,13 @@ vi.mock('@/lib/db', () => ({
   addDiscussionMessage: mocks.addDiscussionMessage,
   updateDiscussionSession: mocks.updateDiscussionSession,
   deleteDiscussionSession: mocks.deleteDiscussionSession,
-  hasLiveDiscussionAuthority: (scope: { entryIds: number[] }) => scope.entryIds.length > 0,
+  hasLiveDiscussionAuthority: (scope: { entryIds: number[]; docIds: number[] }) =>
+    scope.entryIds.length > 0 || scope.docIds.length > 0,
 }));
 
 vi.mock('@/lib/librarian/contextPack', () => ({
   buildContextPack: mocks.buildContextPack,
+  getScopeCountText: (entryIds: number[], docIds: number[]) => `${entryIds.length} entries, ${docIds.length} documents`,
 }));
 
 vi.mock('@/lib/ai/discussions', () => ({
@@ -141,13 +143,13 @@ describe('DiscussionChatPage live authority gating', () => {
 
     mocks.session = {
       id: 42,
-      title: 'Docs-only discussion',
+      title: 'Sourceless discussion',
       createdAt: 1,
       updatedAt: 1,
       lastMessageAt: 1,
       scope: {
         entryIds: [],
-        docIds: [9],
+        docIds: [],
       },
       modeDefault: 'discuss',
     };
@@ -177,7 +179,7 @@ describe('DiscussionChatPage live authority gating', () => {
 
     expect(await screen.findByText('Discussion unavailable')).toBeTruthy();
     expect(
-      screen.getByText('This discussion has no entry-backed authority and is no longer supported.')
+      screen.getByText('This discussion has no entries or documents to ground it and is no longer supported.')
     ).toBeTruthy();
     expect(screen.getByRole('button', { name: 'Back to discussions' })).toBeTruthy();
     expect(screen.queryByText('Add entries to begin this discussion')).toBeNull();
@@ -216,6 +218,23 @@ describe('DiscussionChatPage live authority gating', () => {
     });
   });
 
+  it('treats a documents-only discussion as live', async () => {
+    mocks.session = {
+      ...mocks.session,
+      title: 'Docs-only discussion',
+      scope: {
+        entryIds: [],
+        docIds: [9],
+      },
+    };
+
+    render(<DiscussionChatPage />);
+
+    expect(await screen.findByText('discussion.placeholder')).toBeTruthy();
+    expect(screen.getByText('0 entries, 1 documents')).toBeTruthy();
+    expect(screen.queryByText('Discussion unavailable')).toBeNull();
+  });
+
   it('cleans up an empty invalid legacy discussion on unmount', async () => {
     const { unmount } = render(<DiscussionChatPage />);
 
@@ -1,7 +1,7 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { ArrowLeft, FolderOpen, Send, Search, Loader2, User, Bot, AlertCircle } from 'lucide-react';
+import { ArrowLeft, FolderOpen, Send, Search, Loader2, User, Bot, AlertCircle, Pencil, FileDown } from 'lucide-react';
 import { 
   getDiscussionSessionById, 
   getMessagesBySessionId, 
@@ -9,20 +9,27 @@ import {
   updateDiscussionSession,
   deleteDiscussionSession,
   hasLiveDiscussionAuthority,
+  setDiscussionActiveLeaf,
   DiscussionMessage,
   DiscussionMode
 } from '@/lib/db';
-import { buildContextPack, ContextPackResult } from '@/lib/librarian/contextPack';
+import { buildContextPack, ContextPackResult, getScopeCountText } from '@/lib/librarian/contextPack';
 import { sendDiscussionMessage } from '@/lib/ai/discussions';
+import { findLatestLeaf, getBranchPath, groupSiblings, resolveParentIds } from '@/lib/ai/discussionBranches';
+import type { AIProfile } from '@/lib/aiConfig';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { ModeSelector, ModePill } from '@/components/discussions/ModeSelector';
 import { EvidenceList } from '@/components/discussions/EvidenceCard';
 import { ContextDrawer } from '@/components/discussions/ContextDrawer';
 import { DraftArtifact } from '@/components/discussions/DraftArtifact';
 import { PlanArtifact } from '@/components/discussions/PlanArtifact';
+import { PlanRemindersSheet } from '@/components/discussions/PlanRemindersSheet';
 import { AnalysisArtifact } from '@/components/discussions/AnalysisArtifact';
 import { ComputeArtifact } from '@/components/discussions/ComputeArtifact';
 import { FollowUpQuestions } from '@/components/discussions/FollowUpQuestions';
+import { ToolTrace } from '@/components/discussions/ToolTrace';
+import { ExportDiscussionSheet } from '@/components/discussions/ExportDiscussionSheet';
+import { BranchSwitcher, RegenerateMenu, type RegenerateOptions } from '@/components/discussions/TurnActions';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Toggle } from '@/components/ui/toggle';
@@ -90,9 +97,16 @@ function DiscussionChatContent() {
   const [mode, setMode] = useState<DiscussionMode>('discuss');
   const [findMode, setFindMode] = useState(false);
   const [sending, setSending] = useState(false);
+  const [toolStatus, setToolStatus] = useState<string | null>(null);
   const [contextOpen, setContextOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const hasLiveAuthority = session ? hasLiveDiscussionAuthority(session.scope) : false;
   const isLegacyInvalidSession = session !== undefined && !hasLiveAuthority;
+  const activePath = useMemo(
+    () => getBranchPath(messages ?? [], session?.activeLeafId),
+    [messages, session?.activeLeafId]
+  );
+  const siblingsById = useMemo(() => groupSiblings(messages ?? []), [messages]);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -139,38 +153,24 @@ function DiscussionChatContent() {
     };
   }, [session, sessionId]);
   
-  const handleSend = async () => {
-    if (!inputText.trim() || sending || !session) return;
+  // Answer a saved question; a failure stays in the thread as an error turn under it
+  const answerQuestion = async (turn: {
+    questionId: number;
+    question: string;
+    historyParentId: number | null;
+    mode: DiscussionMode;
+    profile?: AIProfile;
+  }): Promise<boolean> => {
+    if (!session) return false;
 
-    if (!hasLiveAuthority) {
-      toast.error(
-        language === 'ru'
-          ? 'Это обсуждение больше не поддерживается.'
-          : 'This discussion is no longer supported.'
-      );
-      return;
-    }
-    
-    const userText = inputText.trim();
-    setInputText('');
-    setSending(true);
-    
     try {
-      // Save user message
-      await addDiscussionMessage({
-        sessionId,
-        role: 'user',
-        content: userText,
-        status: 'ok',
-        meta: { mode },
-      });
-      
       // Build context pack
       const contextPack = await buildContextPack({
         sessionScope: session.scope,
-        userQuery: userText,
-        mode,
+        userQuery: turn.question,
+        mode: turn.mode,
         findMode,
+        language,
       });
       
       // Show warning if no context was found
@@ -184,39 +184,43 @@ function DiscussionChatContent() {
       // Call AI
       const response = await sendDiscussionMessage({
         sessionId,
-        userText,
-        mode,
+        userText: turn.question,
+        mode: turn.mode,
         contextPack,
         history: messages || [],
+        parentId: turn.historyParentId,
+        profile: turn.profile,
         language: language as 'ru' | 'en',
+        tools: { entryIds: session.scope.entryIds, searchAll: findMode },
+        onToolStep: (step) => setToolStatus(step.summary),
       });
       
-      // Filter evidence to used ones
-      const usedEvidence = buildPersistedEvidenceRefs(contextPack, response.usedEvidenceIds);
+      // Filter evidence to used ones; tool results can be cited like the context pack
+      const usedEvidence = buildPersistedEvidenceRefs(
+        { ...contextPack, evidence: [...contextPack.evidence, ...(response.toolEvidence ?? [])] },
+        response.usedEvidenceIds
+      );
       
       // Save assistant message
       await addDiscussionMessage({
         sessionId,
+        parentId: turn.questionId,
         role: 'assistant',
         content: response.answer,
         evidenceRefs: usedEvidence,
         status: 'ok',
         meta: {
-          mode,
+          mode: turn.mode,
+          profile: turn.profile,
           draftArtifact: response.draftArtifact,
           analysisArtifact: response.analysisArtifact,
           computeArtifact: response.computeArtifact,
           planArtifact: response.planArtifact,
           questions: response.questions,
+          toolTrace: response.toolTrace,
         },
       });
-      
-      // Update session title if it's still default
-      if (session.title === (language === 'ru' ? 'Новое обсуждение' : 'New discussion')) {
-        const newTitle = userText.slice(0, 50) + (userText.length > 50 ? '...' : '');
-        await updateDiscussionSession(sessionId, { title: newTitle });
-      }
-      
+      return true;
     } catch (error) {
       console.error('[DiscussionChat] Send failed:', error);
       toast.error(t('discussion.error'));
@@ -224,16 +228,115 @@ function DiscussionChatContent() {
       // Save error message
       await addDiscussionMessage({
         sessionId,
+        parentId: turn.questionId,
         role: 'assistant',
         content: language === 'ru' 
           ? 'Произошла ошибка при обработке запроса. Попробуйте ещё раз.'
           : 'An error occurred while processing your request. Please try again.',
         status: 'error',
+        meta: { mode: turn.mode },
+      });
+      return false;
+    }
+  };
+
+  const handleSend = async () => {
+    if (!inputText.trim() || sending || !session) return;
+
+    if (!hasLiveAuthority) {
+      toast.error(
+        language === 'ru'
+          ? 'Это обсуждение больше не поддерживается.'
+          : 'This discussion is no longer supported.'
+      );
+      return;
+    }
+    
+    const userText = inputText.trim();
+    const parentId = activePath.at(-1)?.id ?? null;
+    setInputText('');
+    setSending(true);
+    
+    try {
+      // Save user message at the end of the branch on screen
+      const questionId = await addDiscussionMessage({
+        sessionId,
+        parentId,
+        role: 'user',
+        content: userText,
+        status: 'ok',
+        meta: { mode },
+      });
+      
+      const answered = await answerQuestion({ questionId, question: userText, historyParentId: parentId, mode });
+      
+      // Update session title if it's still default
+      if (answered && session.title === (language === 'ru' ? 'Новое обсуждение' : 'New discussion')) {
+        const newTitle = userText.slice(0, 50) + (userText.length > 50 ? '...' : '');
+        await updateDiscussionSession(sessionId, { title: newTitle });
+      }
+    } catch (error) {
+      console.error('[DiscussionChat] Send failed:', error);
+      toast.error(t('discussion.error'));
+    } finally {
+      setSending(false);
+      setToolStatus(null);
+    }
+  };
+
+  // A new answer to the same question becomes a sibling of the old one
+  const handleRegenerate = async (answer: DiscussionMessage, options: RegenerateOptions) => {
+    if (sending || !messages || answer.id === undefined) return;
+    const parents = resolveParentIds(messages);
+    const questionId = parents.get(answer.id);
+    const question = messages.find(message => message.id === questionId);
+    if (questionId == null || !question || question.role !== 'user') return;
+
+    setSending(true);
+    try {
+      await answerQuestion({
+        questionId,
+        question: question.content,
+        historyParentId: parents.get(questionId) ?? null,
+        mode: options.mode ?? answer.meta?.mode ?? question.meta?.mode ?? mode,
+        profile: options.profile ?? answer.meta?.profile,
       });
     } finally {
       setSending(false);
+      setToolStatus(null);
     }
   };
+
+  // An edited question forks the thread at the original question's parent
+  const handleEditQuestion = async (question: DiscussionMessage, text: string) => {
+    if (sending || !messages || question.id === undefined || !text.trim()) return;
+    const historyParentId = resolveParentIds(messages).get(question.id) ?? null;
+    const questionMode = question.meta?.mode ?? mode;
+
+    setSending(true);
+    try {
+      const questionId = await addDiscussionMessage({
+        sessionId,
+        parentId: historyParentId,
+        role: 'user',
+        content: text.trim(),
+        status: 'ok',
+        meta: { mode: questionMode },
+      });
+      await answerQuestion({ questionId, question: text.trim(), historyParentId, mode: questionMode });
+    } catch (error) {
+      console.error('[DiscussionChat] Edit failed:', error);
+      toast.error(t('discussion.error'));
+    } finally {
+      setSending(false);
+      setToolStatus(null);
+    }
+  };
+
+  const handleSelectBranch = async (messageId: number) => {
+    if (!messages) return;
+    await setDiscussionActiveLeaf(sessionId, findLatestLeaf(messages, messageId));
+  };
   
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -263,8 +366,8 @@ function DiscussionChatContent() {
             </h1>
             <p className="text-sm text-muted-foreground">
               {language === 'ru'
-                ? 'У этого обсуждения нет опоры на выбранные записи, и такой формат больше не поддерживается.'
-                : 'This discussion has no entry-backed authority and is no longer supported.'}
+                ? 'У этого обсуждения нет опоры на записи или документы, и такой формат больше не поддерживается.'
+                : 'This discussion has no entries or documents to ground it and is no longer supported.'}
             </p>
           </div>
           <Button onClick={() => navigate('/discussions')}>
@@ -292,10 +395,20 @@ function DiscussionChatContent() {
           <div className="flex-1 min-w-0">
             <h1 className="text-base font-medium truncate">{session.title}</h1>
             <p className="text-xs text-muted-foreground">
-              {session.scope.entryIds.length} {language === 'ru' ? 'записей' : 'entries'}
+              {getScopeCountText(session.scope.entryIds, session.scope.docIds, language)}
             </p>
           </div>
           
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setExportOpen(true)}
+            className="shrink-0"
+            aria-label={t('discussion.export')}
+          >
+            <FileDown className="h-5 w-5" />
+          </Button>
+          
           <Button
             variant="outline"
             size="sm"
@@ -338,12 +451,17 @@ function DiscussionChatContent() {
             </div>
           )}
           
-          {messages?.map((message) => (
+          {activePath.map((message) => (
             <MessageBubble 
               key={message.id} 
               message={message} 
               language={language}
+              siblings={siblingsById.get(message.id!) ?? [message]}
+              busy={sending}
               onSelectQuestion={setInputText}
+              onSelectBranch={handleSelectBranch}
+              onRegenerate={(options) => handleRegenerate(message, options)}
+              onEditQuestion={(text) => handleEditQuestion(message, text)}
             />
           ))}
           
@@ -355,7 +473,7 @@ function DiscussionChatContent() {
               <div className="flex-1 p-3 rounded-lg bg-muted/50">
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  {t('discussion.sending')}
+                  {toolStatus ?? t('discussion.sending')}
                 </div>
               </div>
             </div>
@@ -426,9 +544,18 @@ function DiscussionChatContent() {
         open={contextOpen}
         onOpenChange={setContextOpen}
         entryIds={session.scope.entryIds}
+        docIds={session.scope.docIds}
         onAddFromToday={() => {
           navigate(`/?selectMode=true&discussionId=${sessionId}`);
         }}
+        onAddDocuments={() => {
+          navigate(`/documents?discussionId=${sessionId}`);
+        }}
+      />
+      
+      <ExportDiscussionSheet
+        sessionId={exportOpen ? sessionId : null}
+        onOpenChange={setExportOpen}
       />
     </div>
   );
@@ -437,12 +564,40 @@ function DiscussionChatContent() {
 interface MessageBubbleProps {
   message: DiscussionMessage;
   language: string;
+  siblings: DiscussionMessage[];
+  busy: boolean;
   onSelectQuestion?: (question: string) => void;
+  onSelectBranch: (messageId: number) => void;
+  onRegenerate: (options: RegenerateOptions) => void;
+  onEditQuestion: (text: string) => void;
 }
 
-function MessageBubble({ message, language, onSelectQuestion }: MessageBubbleProps) {
+function MessageBubble({
+  message,
+  language,
+  siblings,
+  busy,
+  onSelectQuestion,
+  onSelectBranch,
+  onRegenerate,
+  onEditQuestion,
+}: MessageBubbleProps) {
+  const { t } = useI18n();
   const isUser = message.role === 'user';
   const isError = message.status === 'error';
+  const [remindersOpen, setRemindersOpen] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [editText, setEditText] = useState(message.content);
+  const siblingIndex = siblings.findIndex(sibling => sibling.id === message.id);
+
+  const submitEdit = () => {
+    if (!editText.trim() || editText.trim() === message.content) {
+      setEditing(false);
+      return;
+    }
+    setEditing(false);
+    onEditQuestion(editText);
+  };
   
   return (
     <div className={cn(
@@ -480,9 +635,64 @@ function MessageBubble({ message, language, onSelectQuestion }: MessageBubblePro
               </span>
             </div>
           )}
-          <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+          {editing ? (
+            <div className="space-y-2 min-w-[240px]">
+              <Textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                className="min-h-[60px] bg-background text-foreground"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>
+                  {t('discussion.cancelEdit')}
+                </Button>
+                <Button variant="secondary" size="sm" onClick={submitEdit} disabled={!editText.trim()}>
+                  {t('discussion.saveEdit')}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+          )}
         </div>
         
+        {/* Branch switcher and turn actions */}
+        {!editing && (
+          <div className={cn("mt-1 flex items-center gap-1", isUser && "flex-row-reverse")}>
+            <BranchSwitcher
+              index={siblingIndex}
+              total={siblings.length}
+              onSelect={(index) => siblings[index]?.id !== undefined && onSelectBranch(siblings[index].id!)}
+              disabled={busy}
+            />
+            {isUser ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 gap-1 px-2 text-xs text-muted-foreground"
+                onClick={() => {
+                  setEditText(message.content);
+                  setEditing(true);
+                }}
+                disabled={busy}
+              >
+                <Pencil className="h-3 w-3" />
+                {t('discussion.editQuestion')}
+              </Button>
+            ) : (
+              <RegenerateMenu onRegenerate={onRegenerate} disabled={busy} />
+            )}
+          </div>
+        )}
+        
+        {/* Tool Trace */}
+        {message.meta?.toolTrace && message.meta.toolTrace.length > 0 && (
+          <div className="mt-3 w-full">
+            <ToolTrace steps={message.meta.toolTrace} />
+          </div>
+        )}
+        
         {/* Draft Artifact */}
         {message.meta?.draftArtifact && (
           <div className="mt-3 w-full">
@@ -507,7 +717,19 @@ function MessageBubble({ message, language, onSelectQuestion }: MessageBubblePro
         {/* Plan Artifact */}
         {message.meta?.planArtifact && (
           <div className="mt-3 w-full">
-            <PlanArtifact artifact={message.meta.planArtifact} />
+            <PlanArtifact
+              artifact={message.meta.planArtifact}
+              onCreateReminders={message.id ? () => setRemindersOpen(true) : undefined}
+            />
+            {message.id && (
+              <PlanRemindersSheet
+                open={remindersOpen}
+                onOpenChange={setRemindersOpen}
+                messageId={message.id}
+                plan={message.meta.planArtifact}
+                sourceEntries={(message.evidenceRefs ?? []).filter(ref => ref.type === 'entry')}
+              />
+            )}
           </div>
         )}
         
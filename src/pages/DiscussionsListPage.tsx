@@ -1,10 +1,11 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { MessageSquare, Plus } from 'lucide-react';
+import { Library, MessageSquare, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { getAllDiscussionSessions, toggleDiscussionSessionPin, deleteDiscussionSession } from '@/lib/db';
 import { SessionCard } from '@/components/discussions/SessionCard';
+import { ExportDiscussionSheet } from '@/components/discussions/ExportDiscussionSheet';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { useI18n } from '@/lib/i18n';
 import { SealGlyph } from '@/components/icons/SigilIcon';
@@ -25,6 +26,7 @@ function DiscussionsListContent() {
   
   const sessions = useLiveQuery(() => getAllDiscussionSessions(), []);
   const [deleteId, setDeleteId] = useState<number | null>(null);
+  const [exportId, setExportId] = useState<number | null>(null);
   
   const handlePin = async (id: number) => {
     await toggleDiscussionSessionPin(id);
@@ -55,8 +57,16 @@ function DiscussionsListContent() {
     <div className="min-h-screen pb-24 cyber-noise rune-grid">
       <header className="sticky top-0 z-40 bg-background/80 backdrop-blur-xl px-4 py-6 border-b border-border/50">
         <div className="flex items-center justify-between">
-          {/* Spacer for balance */}
-          <div className="w-20" />
+          {/* Document library */}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/documents')}
+            className="gap-1.5 w-20 justify-start"
+          >
+            <Library className="h-4 w-4" />
+            <span className="sr-only">{t('documents.title')}</span>
+          </Button>
           
           {/* Centered title */}
           <div className="text-center flex-1">
@@ -120,6 +130,7 @@ function DiscussionsListContent() {
                   session={session}
                   onPin={handlePin}
                   onDelete={(id) => setDeleteId(id)}
+                  onExport={(id) => setExportId(id)}
                 />
               </div>
             ))}
@@ -127,6 +138,11 @@ function DiscussionsListContent() {
         )}
       </main>
       
+      <ExportDiscussionSheet
+        sessionId={exportId}
+        onOpenChange={(open) => !open && setExportId(null)}
+      />
+      
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteId !== null} onOpenChange={(open) => !open && setDeleteId(null)}>
         <AlertDialogContent>
@@ -0,0 +1,295 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ArrowLeft, ChevronLeft, ChevronRight, Loader2, MessageSquare, Pencil } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  createDiscussionSession,
+  getDocumentById,
+  getDocumentPages,
+  renameDocument,
+  updateDocumentPageText,
+  type StoredDocument,
+} from '@/lib/db';
+import type { PDFDocumentProxy } from '@/lib/documents/pdf';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useI18n } from '@/lib/i18n';
+
+const PAGE_MAX_WIDTH = 640;
+
+/**
+ * Renders the current page of a PDF. The parsed document is kept while paging.
+ */
+function PdfPage({ document, pageNumber }: { document: StoredDocument; pageNumber: number }) {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    import('@/lib/documents/pdf')
+      .then(({ loadPdf }) => loadPdf(document.blob))
+      .then((result) => {
+        loaded = result;
+        if (cancelled) {
+          result.destroy();
+        } else {
+          setPdf(result);
+        }
+      })
+      .catch((error) => {
+        console.error('[Documents] Failed to open PDF:', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [document.blob]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+    const width = Math.min(containerRef.current?.clientWidth || PAGE_MAX_WIDTH, PAGE_MAX_WIDTH);
+    import('@/lib/documents/pdf')
+      .then(({ renderPdfPage }) => renderPdfPage(pdf, pageNumber, canvasRef.current!, width))
+      .catch((error) => {
+        console.error('[Documents] Failed to render page:', error);
+        setFailed(true);
+      });
+  }, [pdf, pageNumber]);
+
+  if (failed) {
+    return <p className="text-sm text-muted-foreground text-center py-8">{t('documents.renderFailed')}</p>;
+  }
+
+  return (
+    <div ref={containerRef} className="flex justify-center">
+      {!pdf && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground my-8" />}
+      <canvas ref={canvasRef} className="rounded-md border border-border/50 bg-white max-w-full" />
+    </div>
+  );
+}
+
+function ImagePage({ document }: { document: StoredDocument }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(document.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [document.blob]);
+
+  if (!url) return null;
+  return (
+    <img
+      src={url}
+      alt={document.title}
+      className="mx-auto max-h-[70vh] max-w-full rounded-md border border-border/50 object-contain"
+    />
+  );
+}
+
+function DocumentViewerContent() {
+  const { id } = useParams<{ id: string }>();
+  const docId = parseInt(id || '0', 10);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { t } = useI18n();
+
+  // null once loaded and missing, undefined while loading
+  const document = useLiveQuery(async () => (await getDocumentById(docId)) ?? null, [docId]);
+  const pages = useLiveQuery(() => getDocumentPages(docId), [docId]);
+
+  const [editingText, setEditingText] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [startingDiscussion, setStartingDiscussion] = useState(false);
+
+  if (document === undefined || pages === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (document === null) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 px-4">
+        <p className="text-muted-foreground">{t('documents.notFound')}</p>
+        <Button onClick={() => navigate('/documents')}>{t('documents.title')}</Button>
+      </div>
+    );
+  }
+
+  const pageCount = Math.max(pages.length, 1);
+  // The page query parameter is 1-based, like citation deep links
+  const requestedPage = parseInt(searchParams.get('page') || '1', 10);
+  const pageNumber = Math.min(Math.max(Number.isFinite(requestedPage) ? requestedPage : 1, 1), pageCount);
+  const page = pages[pageNumber - 1];
+
+  const goToPage = (next: number) => {
+    setSearchParams({ page: String(next) }, { replace: true });
+  };
+
+  const handleSaveText = async () => {
+    if (editingText === null) return;
+    await updateDocumentPageText(docId, pageNumber - 1, editingText.trim());
+    setEditingText(null);
+  };
+
+  const handleRename = async () => {
+    if (renaming === null || !renaming.trim()) return;
+    await renameDocument(docId, renaming);
+    setRenaming(null);
+  };
+
+  const handleDiscuss = async () => {
+    setStartingDiscussion(true);
+    try {
+      const sessionId = await createDiscussionSession({
+        title: document.title,
+        scope: { entryIds: [], docIds: [docId] },
+        modeDefault: 'discuss',
+      });
+      navigate(`/discussions/${sessionId}`);
+    } catch (error) {
+      console.error('[Documents] Failed to start discussion:', error);
+      toast.error(t('discussion.error'));
+    } finally {
+      setStartingDiscussion(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="sticky top-0 z-40 bg-background/80 backdrop-blur-xl border-b border-border/50">
+        <div className="flex items-center gap-3 px-4 py-3 rtl:flex-row-reverse">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/documents')} className="shrink-0">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <button
+              type="button"
+              onClick={() => setRenaming(document.title)}
+              className="flex items-center gap-1.5 max-w-full text-start"
+              aria-label={t('documents.rename')}
+            >
+              <h1 className="text-base font-medium truncate">{document.title}</h1>
+              <Pencil className="h-3 w-3 shrink-0 text-muted-foreground" />
+            </button>
+            <p className="text-xs text-muted-foreground">
+              {t('documents.page')} {pageNumber} / {pageCount}
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDiscuss}
+            disabled={startingDiscussion}
+            className="shrink-0 gap-1.5"
+          >
+            <MessageSquare className="h-4 w-4" />
+            {t('documents.discuss')}
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 px-4 py-4 pb-28 space-y-4 max-w-2xl w-full mx-auto">
+        {document.kind === 'pdf' && <PdfPage document={document} pageNumber={pageNumber} />}
+        {document.kind === 'image' && <ImagePage document={document} />}
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+              {t('documents.pageText')}
+            </h2>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs gap-1"
+              onClick={() => setEditingText(page?.text ?? '')}
+              disabled={!page}
+            >
+              <Pencil className="h-3 w-3" />
+              {t('documents.editText')}
+            </Button>
+          </div>
+          {page?.text ? (
+            <p className="text-sm whitespace-pre-wrap leading-relaxed rounded-lg bg-muted/40 p-3">{page.text}</p>
+          ) : (
+            <p className="text-sm text-muted-foreground rounded-lg border border-dashed border-border p-3">
+              {t('documents.noPageText')}
+            </p>
+          )}
+        </section>
+      </main>
+
+      {pageCount > 1 && (
+        <div className="fixed bottom-0 inset-x-0 bg-background/80 backdrop-blur-xl border-t border-border/50 p-3 safe-bottom">
+          <div className="flex items-center justify-between max-w-2xl mx-auto">
+            <Button variant="ghost" size="icon" onClick={() => goToPage(pageNumber - 1)} disabled={pageNumber <= 1}>
+              <ChevronLeft className="h-5 w-5 rtl:rotate-180" />
+            </Button>
+            <span className="text-sm font-mono text-muted-foreground">
+              {pageNumber} / {pageCount}
+            </span>
+            <Button variant="ghost" size="icon" onClick={() => goToPage(pageNumber + 1)} disabled={pageNumber >= pageCount}>
+              <ChevronRight className="h-5 w-5 rtl:rotate-180" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={editingText !== null} onOpenChange={(open) => !open && setEditingText(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('documents.pageText')} · {pageNumber}</DialogTitle>
+          </DialogHeader>
+          <Textarea
+            value={editingText ?? ''}
+            onChange={(e) => setEditingText(e.target.value)}
+            rows={10}
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setEditingText(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSaveText}>{t('common.save')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('documents.rename')}</DialogTitle>
+          </DialogHeader>
+          <Input value={renaming ?? ''} onChange={(e) => setRenaming(e.target.value)} />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setRenaming(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleRename} disabled={!renaming?.trim()}>{t('common.save')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function DocumentViewerPage() {
+  return (
+    <ErrorBoundary>
+      <DocumentViewerContent />
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,253 @@
+import { useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format } from 'date-fns';
+import { ArrowLeft, FileText, Image as ImageIcon, FileType, Library, Loader2, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  deleteDocument,
+  getAllDocuments,
+  getDiscussionSessionById,
+  updateDiscussionSession,
+  type StoredDocument,
+} from '@/lib/db';
+import { DOCUMENT_ACCEPT, importDocument } from '@/lib/documents/documentImport';
+import { formatFileSize } from '@/lib/mediaUtils';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { useI18n, type TranslationKey } from '@/lib/i18n';
+import { SealGlyph } from '@/components/icons/SigilIcon';
+import { cn } from '@/lib/utils';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+const IMPORT_ERRORS: Record<string, TranslationKey> = {
+  DOCUMENT_TOO_LARGE: 'documents.tooLarge',
+  DOCUMENT_UNSUPPORTED: 'documents.unsupported',
+  DOCUMENT_UNREADABLE: 'documents.unreadable',
+};
+
+function getKindIcon(kind: StoredDocument['kind']) {
+  switch (kind) {
+    case 'pdf':
+      return FileType;
+    case 'image':
+      return ImageIcon;
+    case 'text':
+    default:
+      return FileText;
+  }
+}
+
+function DocumentsContent() {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Set when the discussion context drawer sent us here to pick a document
+  const discussionId = Number(searchParams.get('discussionId')) || null;
+
+  const documents = useLiveQuery(() => getAllDocuments(), []);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setImporting(true);
+    try {
+      for (const file of Array.from(files)) {
+        try {
+          await importDocument(file);
+          toast.success(`${t('documents.imported')}: ${file.name}`);
+        } catch (error) {
+          const code = error instanceof Error ? error.message : '';
+          toast.error(`${file.name}: ${t(IMPORT_ERRORS[code] ?? 'documents.unreadable')}`);
+        }
+      }
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleOpen = async (document: StoredDocument) => {
+    if (!discussionId) {
+      navigate(`/documents/${document.id}`);
+      return;
+    }
+
+    const session = await getDiscussionSessionById(discussionId);
+    if (!session) {
+      toast.error(t('discussion.error'));
+      return;
+    }
+    if (!session.scope.docIds.includes(document.id!)) {
+      await updateDiscussionSession(discussionId, {
+        scope: {
+          entryIds: session.scope.entryIds,
+          docIds: [...session.scope.docIds, document.id!],
+        },
+      });
+    }
+    navigate(`/discussions/${discussionId}`);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (deleteId) {
+      await deleteDocument(deleteId);
+      setDeleteId(null);
+    }
+  };
+
+  if (!documents) {
+    return (
+      <div className="space-y-4 px-4 pt-24">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="h-20 animate-pulse rounded-lg bg-muted grimoire-shadow" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pb-24 cyber-noise rune-grid">
+      <header className="sticky top-0 z-40 bg-background/80 backdrop-blur-xl px-4 py-6 border-b border-border/50">
+        <div className="flex items-center justify-between">
+          <div className="w-20">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate(discussionId ? `/discussions/${discussionId}` : '/discussions')}
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </div>
+
+          <div className="text-center flex-1">
+            <h1 className="text-xl font-serif font-medium text-foreground tracking-wide">
+              {t('documents.title')}
+            </h1>
+            <p className="text-xs text-cyber-sigil/60 tracking-widest uppercase">
+              {discussionId ? t('documents.pickHint') : t('documents.subtitle')}
+            </p>
+          </div>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            className="gap-1.5 w-20 justify-end"
+          >
+            {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            <span>{importing ? t('documents.importing') : t('documents.import')}</span>
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={DOCUMENT_ACCEPT}
+            multiple
+            className="hidden"
+            data-testid="document-file-input"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+        </div>
+
+        <div className="mt-4 rune-divider">
+          <span className="sigil-separator">◆</span>
+        </div>
+      </header>
+
+      <main className="px-4 pt-4">
+        {documents.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <div className="mb-6 p-8 panel-glass relative">
+              <Library className="h-12 w-12 text-muted-foreground" />
+              <div className="absolute top-3 end-3 text-cyber-sigil/40">
+                <SealGlyph size={12} />
+              </div>
+            </div>
+            <h3 className="mb-2 text-xl font-serif font-medium">{t('documents.empty')}</h3>
+            <p className="max-w-xs text-sm text-muted-foreground leading-relaxed">
+              {t('documents.emptyHint')}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {documents.map((document) => {
+              const Icon = getKindIcon(document.kind);
+              return (
+                <div
+                  key={document.id}
+                  className={cn(
+                    "flex items-center gap-3 p-3 rounded-lg border border-border/50 bg-card/60 group",
+                    "hover:border-cyber-sigil/40 transition-colors"
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => handleOpen(document)}
+                    className="flex flex-1 min-w-0 items-center gap-3 text-start"
+                  >
+                    <Icon className="h-5 w-5 text-cyber-sigil shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{document.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {document.pageCount} {t('documents.pages')} · {formatFileSize(document.size)} · {format(document.createdAt, 'dd.MM.yyyy')}
+                        {document.textChars === 0 && ` · ${t('documents.noText')}`}
+                      </p>
+                    </div>
+                  </button>
+                  {!discussionId && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      aria-label={t('documents.delete')}
+                      onClick={() => setDeleteId(document.id!)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <AlertDialog open={deleteId !== null} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('documents.deleteConfirm')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('documents.deleteDesc')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteConfirm} className="bg-destructive text-destructive-foreground">
+              {t('documents.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default function DocumentsPage() {
+  return (
+    <ErrorBoundary>
+      <DocumentsContent />
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,535 @@
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { useLiveQuery } from "dexie-react-hooks";
+import { ArrowLeft, TrendingUp, CalendarDays, Clock, Tag, Flame, Activity, Calendar, Grid3x3 } from "lucide-react";
+import { format, parseISO, getDay } from "date-fns";
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { db } from "@/lib/db";
+import { useI18n } from "@/lib/i18n";
+import { type DateRangePreset, type DateRange, getDateRangeFromPreset } from "@/lib/receiptAnalyticsService";
+import {
+  type MoodAnalytics,
+  type TimeOfDaySlot,
+  WEEKDAY_ORDER,
+  buildMoodAnalytics,
+} from "@/lib/moodAnalyticsService";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { cn } from "@/lib/utils";
+
+const texts = {
+  title: { ru: "Аналитика настроения", en: "Mood Analytics" },
+  from: { ru: "От", en: "From" },
+  to: { ru: "До", en: "To" },
+  avgMood: { ru: "Среднее настроение", en: "Average mood" },
+  entries: { ru: "Записей", en: "Entries" },
+  activeDays: { ru: "дней с записями", en: "days with entries" },
+  currentStreak: { ru: "Текущая серия", en: "Current streak" },
+  longestStreak: { ru: "Лучшая серия", en: "Longest streak" },
+  days: { ru: "дн.", en: "days" },
+  moodOverTime: { ru: "Настроение во времени", en: "Mood over time" },
+  daily: { ru: "За день", en: "Daily" },
+  rolling7: { ru: "Среднее за 7 дней", en: "7-day average" },
+  rolling30: { ru: "Среднее за 30 дней", en: "30-day average" },
+  byWeekday: { ru: "По дням недели", en: "By weekday" },
+  byTimeOfDay: { ru: "По времени суток", en: "By time of day" },
+  timeOfDayHint: { ru: "По времени написания записи", en: "By when the entry was written" },
+  frequency: { ru: "Частота записей", en: "Entry frequency" },
+  writingHours: { ru: "Когда вы пишете", en: "When you write" },
+  tagCorrelations: { ru: "Теги и настроение", en: "Tags and mood" },
+  tagCorrelationsHint: {
+    ru: "Среднее настроение с тегом по сравнению с записями без него",
+    en: "Average mood with the tag compared to entries without it",
+  },
+  tagShift: { ru: "До и после тега", en: "Before and after a tag" },
+  tagShiftHint: {
+    ru: "Среднее настроение за 3 дня до, в день и 3 дня после",
+    en: "Average mood over the 3 days before, the day itself and the 3 days after",
+  },
+  before: { ru: "До", en: "Before" },
+  on: { ru: "В день", en: "On the day" },
+  after: { ru: "После", en: "After" },
+  times: { ru: "раз", en: "times" },
+  noTags: { ru: "Нужно хотя бы 3 записи с тегом и 3 без него", en: "Needs at least 3 entries with a tag and 3 without" },
+  noData: { ru: "Нет записей за выбранный период", en: "No entries for the selected period" },
+  mood: { ru: "Настроение", en: "Mood" },
+};
+
+type TextKey = keyof typeof texts;
+
+const PRESET_OPTIONS: { value: DateRangePreset; label: { ru: string; en: string } }[] = [
+  { value: "30d", label: { ru: "30 дней", en: "30 days" } },
+  { value: "90d", label: { ru: "90 дней", en: "90 days" } },
+  { value: "thisMonth", label: { ru: "Этот месяц", en: "This month" } },
+  { value: "lastMonth", label: { ru: "Прошлый месяц", en: "Last month" } },
+  { value: "thisYear", label: { ru: "Этот год", en: "This year" } },
+  { value: "custom", label: { ru: "Выбрать даты", en: "Custom" } },
+];
+
+const WEEKDAY_LABELS = {
+  ru: ["Вс", "Пн", "Вт", "Ср", "Чт", "Пт", "Сб"],
+  en: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+};
+
+const TIME_OF_DAY_LABELS: Record<TimeOfDaySlot, { ru: string; en: string }> = {
+  night: { ru: "Ночь", en: "Night" },
+  morning: { ru: "Утро", en: "Morning" },
+  afternoon: { ru: "День", en: "Afternoon" },
+  evening: { ru: "Вечер", en: "Evening" },
+};
+
+// Mood scale colors, index = rounded mood - 1
+const MOOD_COLORS = [1, 2, 3, 4, 5].map((mood) => `hsl(var(--mood-${mood}))`);
+
+const CHART_TOOLTIP_STYLE = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "8px",
+  fontSize: "12px",
+};
+const AXIS_TICK = { fontSize: 10, fill: "hsl(var(--muted-foreground))" };
+
+function moodColor(mood: number | null): string {
+  if (mood === null) return "hsl(var(--muted))";
+  return MOOD_COLORS[Math.min(5, Math.max(1, Math.round(mood))) - 1];
+}
+
+// Heatmap intensity buckets relative to the busiest cell
+function heatLevel(count: number, max: number): string {
+  if (count === 0 || max === 0) return "bg-muted/40";
+  const ratio = count / max;
+  if (ratio > 0.75) return "bg-cyber-sigil";
+  if (ratio > 0.5) return "bg-cyber-sigil/70";
+  if (ratio > 0.25) return "bg-cyber-sigil/45";
+  return "bg-cyber-sigil/25";
+}
+
+function formatMood(mood: number | null): string {
+  return mood === null ? "—" : mood.toFixed(1);
+}
+
+function MoodAnalyticsContent() {
+  const navigate = useNavigate();
+  const { language } = useI18n();
+  const lang = language === "ru" ? "ru" : "en";
+  const t = (key: TextKey): string => texts[key][lang];
+
+  const [preset, setPreset] = useState<DateRangePreset>("30d");
+  const [customStart, setCustomStart] = useState("");
+  const [customEnd, setCustomEnd] = useState("");
+  const [shiftTag, setShiftTag] = useState<string>("");
+
+  const dateRange = useMemo<DateRange>(() => {
+    if (preset === "custom" && customStart && customEnd) {
+      return {
+        start: new Date(`${customStart}T00:00:00`),
+        end: new Date(`${customEnd}T23:59:59`),
+      };
+    }
+    return getDateRangeFromPreset(preset);
+  }, [preset, customStart, customEnd]);
+
+  // Rolling averages and streaks look back past the range, so all entries are loaded
+  const entries = useLiveQuery(() => db.entries.toArray(), []);
+  const analytics = useMemo<MoodAnalytics | null>(
+    () => (entries ? buildMoodAnalytics(entries, dateRange) : null),
+    [entries, dateRange]
+  );
+
+  // Keep the before/after selection on a tag that still qualifies
+  useEffect(() => {
+    if (!analytics) return;
+    const tags = analytics.tagShifts.map((shift) => shift.tag);
+    if (!tags.includes(shiftTag)) setShiftTag(tags[0] ?? "");
+  }, [analytics, shiftTag]);
+
+  const timelineData = useMemo(() => {
+    if (!analytics) return [];
+    return analytics.daily.map((day) => ({
+      date: format(parseISO(day.date), "dd.MM"),
+      daily: day.avgMood,
+      rolling7: day.rolling7,
+      rolling30: day.rolling30,
+    }));
+  }, [analytics]);
+
+  // Calendar heatmap: one column per week, Monday on top
+  const heatmapWeeks = useMemo(() => {
+    if (!analytics) return [];
+    const weeks: ({ date: string; count: number } | null)[][] = [];
+    analytics.daily.forEach((day, index) => {
+      const row = WEEKDAY_ORDER.indexOf(getDay(parseISO(day.date)));
+      if (index === 0 || row === 0) weeks.push(new Array(7).fill(null));
+      weeks[weeks.length - 1][row] = { date: day.date, count: day.entryCount };
+    });
+    return weeks;
+  }, [analytics]);
+
+  const maxDayCount = analytics ? Math.max(0, ...analytics.daily.map((day) => day.entryCount)) : 0;
+  const maxHourCount = analytics ? Math.max(0, ...analytics.weekdayHourCounts.flat()) : 0;
+  const selectedShift = analytics?.tagShifts.find((shift) => shift.tag === shiftTag);
+
+  return (
+    <div className="min-h-screen pb-24 cyber-noise rune-grid">
+      <header className="sticky top-0 z-40 bg-background/80 backdrop-blur-xl px-4 py-4 border-b border-border/50">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/calendar")} className="shrink-0">
+            <ArrowLeft className="h-5 w-5 rtl:rotate-180" />
+          </Button>
+          <div>
+            <h1 className="text-lg font-serif font-medium text-foreground">{t("title")}</h1>
+            <p className="text-xs text-muted-foreground" dir="ltr">
+              {format(dateRange.start, "dd.MM.yy")} — {format(dateRange.end, "dd.MM.yy")}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 pt-4 space-y-4">
+        {/* Filters */}
+        <Card className="panel-glass border-cyber-glow/20">
+          <CardContent className="py-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <Calendar className="h-4 w-4 text-cyber-sigil flex-shrink-0" />
+              <Select value={preset} onValueChange={(v) => setPreset(v as DateRangePreset)}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRESET_OPTIONS.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label[lang]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {preset === "custom" && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="text-xs text-muted-foreground">{t("from")}</Label>
+                  <Input type="date" value={customStart} onChange={(e) => setCustomStart(e.target.value)} className="mt-1" />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">{t("to")}</Label>
+                  <Input type="date" value={customEnd} onChange={(e) => setCustomEnd(e.target.value)} className="mt-1" />
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {!analytics ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+          </div>
+        ) : analytics.summary.entryCount === 0 ? (
+          <Card className="panel-glass border-cyber-glow/20">
+            <CardContent className="py-12 text-center">
+              <TrendingUp className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+              <p className="text-muted-foreground">{t("noData")}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Summary Cards */}
+            <div className="grid grid-cols-2 gap-3">
+              <Card className="panel-glass border-cyber-glow/20">
+                <CardContent className="py-4">
+                  <p className="text-xs text-muted-foreground">{t("avgMood")}</p>
+                  <p className="text-2xl font-bold font-mono mt-1" style={{ color: moodColor(analytics.summary.avgMood) }}>
+                    {formatMood(analytics.summary.avgMood)}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card className="panel-glass border-cyber-glow/20">
+                <CardContent className="py-4">
+                  <p className="text-xs text-muted-foreground">{t("entries")}</p>
+                  <p className="text-2xl font-bold font-mono mt-1">{analytics.summary.entryCount}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {analytics.summary.activeDays}/{analytics.summary.dayCount} {t("activeDays")}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card className="panel-glass border-cyber-glow/20">
+                <CardContent className="py-4">
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Flame className="h-3 w-3 text-cyber-sigil" />
+                    {t("currentStreak")}
+                  </p>
+                  <p className="text-2xl font-bold font-mono mt-1">
+                    {analytics.streaks.current} <span className="text-sm font-normal text-muted-foreground">{t("days")}</span>
+                  </p>
+                </CardContent>
+              </Card>
+              <Card className="panel-glass border-cyber-glow/20">
+                <CardContent className="py-4">
+                  <p className="text-xs text-muted-foreground">{t("longestStreak")}</p>
+                  <p className="text-2xl font-bold font-mono mt-1">
+                    {analytics.streaks.longest?.length ?? 0} <span className="text-sm font-normal text-muted-foreground">{t("days")}</span>
+                  </p>
+                  {analytics.streaks.longest && (
+                    <p className="text-xs text-muted-foreground mt-1" dir="ltr">
+                      {format(parseISO(analytics.streaks.longest.start), "dd.MM")} — {format(parseISO(analytics.streaks.longest.end), "dd.MM")}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Mood over time */}
+            <Card className="panel-glass border-cyber-glow/20">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <TrendingUp className="h-4 w-4 text-cyber-sigil" />
+                  {t("moodOverTime")}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="h-52" dir="ltr">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={timelineData} margin={{ top: 10, right: 10, left: -25, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                      <XAxis dataKey="date" tick={AXIS_TICK} axisLine={{ stroke: "hsl(var(--border))" }} tickLine={false} minTickGap={16} />
+                      <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                      <Tooltip
+                        contentStyle={CHART_TOOLTIP_STYLE}
+                        labelStyle={{ color: "hsl(var(--foreground))" }}
+                        formatter={(value: number | null) => formatMood(value)}
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="daily"
+                        name={t("daily")}
+                        stroke="hsl(var(--muted-foreground))"
+                        strokeOpacity={0}
+                        dot={{ r: 2, fill: "hsl(var(--muted-foreground))" }}
+                        connectNulls={false}
+                      />
+                      <Line type="monotone" dataKey="rolling7" name={t("rolling7")} stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                      <Line type="monotone" dataKey="rolling30" name={t("rolling30")} stroke="hsl(var(--chart-2))" strokeWidth={2} strokeDasharray="4 3" dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="flex flex-wrap gap-3 mt-2 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1"><span className="h-1.5 w-1.5 rounded-full bg-muted-foreground" />{t("daily")}</span>
+                  <span className="flex items-center gap-1"><span className="h-0.5 w-3 bg-primary" />{t("rolling7")}</span>
+                  <span className="flex items-center gap-1"><span className="h-0.5 w-3" style={{ backgroundColor: "hsl(var(--chart-2))" }} />{t("rolling30")}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* By weekday */}
+            <Card className="panel-glass border-cyber-glow/20">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <CalendarDays className="h-4 w-4 text-cyber-sigil" />
+                  {t("byWeekday")}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="h-40" dir="ltr">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart
+                      data={analytics.byWeekday.map((bucket) => ({
+                        label: WEEKDAY_LABELS[lang][bucket.key],
+                        mood: bucket.avgMood,
+                        count: bucket.entryCount,
+                      }))}
+                      margin={{ top: 10, right: 10, left: -25, bottom: 0 }}
+                    >
+                      <XAxis dataKey="label" tick={AXIS_TICK} axisLine={{ stroke: "hsl(var(--border))" }} tickLine={false} />
+                      <YAxis domain={[0, 5]} ticks={[1, 3, 5]} tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                      <Tooltip contentStyle={CHART_TOOLTIP_STYLE} formatter={(value: number | null) => formatMood(value)} />
+                      <Bar dataKey="mood" name={t("mood")} radius={[4, 4, 0, 0]}>
+                        {analytics.byWeekday.map((bucket) => (
+                          <Cell key={bucket.key} fill={moodColor(bucket.avgMood)} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* By time of day */}
+            <Card className="panel-glass border-cyber-glow/20">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Clock className="h-4 w-4 text-cyber-sigil" />
+                  {t("byTimeOfDay")}
+                </CardTitle>
+                <CardDescription className="text-xs">{t("timeOfDayHint")}</CardDescription>
+              </CardHeader>
+              <CardContent className="pt-0 grid grid-cols-4 gap-2 text-center">
+                {analytics.byTimeOfDay.map((bucket) => (
+                  <div key={bucket.key} className="rounded-lg border border-border/50 py-2">
+                    <p className="text-xs text-muted-foreground">{TIME_OF_DAY_LABELS[bucket.key][lang]}</p>
+                    <p className="text-lg font-mono font-bold" style={{ color: moodColor(bucket.avgMood) }}>
+                      {formatMood(bucket.avgMood)}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">{bucket.entryCount}</p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Entry frequency heatmap */}
+            <Card className="panel-glass border-cyber-glow/20">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Grid3x3 className="h-4 w-4 text-cyber-sigil" />
+                  {t("frequency")}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="flex gap-[3px] overflow-x-auto pb-1" dir="ltr">
+                  {heatmapWeeks.map((week, weekIndex) => (
+                    <div key={weekIndex} className="flex flex-col gap-[3px]">
+                      {week.map((day, row) => (
+                        <button
+                          key={row}
+                          type="button"
+                          disabled={!day}
+                          title={day ? `${day.date}: ${day.count}` : undefined}
+                          onClick={() => day && day.count > 0 && navigate(`/day/${day.date}`)}
+                          className={cn("h-3 w-3 rounded-sm", day ? heatLevel(day.count, maxDayCount) : "bg-transparent")}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Weekday × hour heatmap */}
+            <Card className="panel-glass border-cyber-glow/20">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Activity className="h-4 w-4 text-cyber-sigil" />
+                  {t("writingHours")}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-[3px]" dir="ltr">
+                {analytics.weekdayHourCounts.map((hours, row) => (
+                  <div key={row} className="flex items-center gap-[3px]">
+                    <span className="w-7 text-[10px] text-muted-foreground">{WEEKDAY_LABELS[lang][WEEKDAY_ORDER[row]]}</span>
+                    {hours.map((count, hour) => (
+                      <div
+                        key={hour}
+                        title={`${String(hour).padStart(2, "0")}:00 — ${count}`}
+                        className={cn("h-2.5 flex-1 rounded-[2px]", heatLevel(count, maxHourCount))}
+                      />
+                    ))}
+                  </div>
+                ))}
+                <div className="flex justify-between ps-8 text-[10px] text-muted-foreground">
+                  <span>0</span><span>6</span><span>12</span><span>18</span><span>23</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Tag correlations */}
+            <Card className="panel-glass border-cyber-glow/20">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Tag className="h-4 w-4 text-cyber-sigil" />
+                  {t("tagCorrelations")}
+                </CardTitle>
+                <CardDescription className="text-xs">{t("tagCorrelationsHint")}</CardDescription>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-2">
+                {analytics.tagCorrelations.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">{t("noTags")}</p>
+                ) : (
+                  analytics.tagCorrelations.slice(0, 8).map((correlation) => (
+                    <div key={correlation.tag} className="flex items-center justify-between gap-2">
+                      <span className="text-sm truncate">#{correlation.tag}</span>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className="text-xs text-muted-foreground">
+                          {formatMood(correlation.avgWith)} / {formatMood(correlation.avgWithout)} · {correlation.entryCount}
+                        </span>
+                        <span
+                          className={cn(
+                            "font-mono text-sm w-12 text-end",
+                            correlation.delta > 0 ? "text-mood-5" : correlation.delta < 0 ? "text-mood-1" : "text-muted-foreground"
+                          )}
+                          dir="ltr"
+                        >
+                          {correlation.delta > 0 ? "+" : ""}{correlation.delta.toFixed(1)}
+                        </span>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Before / after a tag */}
+            {analytics.tagShifts.length > 0 && (
+              <Card className="panel-glass border-cyber-glow/20">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <Activity className="h-4 w-4 text-cyber-sigil" />
+                    {t("tagShift")}
+                  </CardTitle>
+                  <CardDescription className="text-xs">{t("tagShiftHint")}</CardDescription>
+                </CardHeader>
+                <CardContent className="pt-0 space-y-3">
+                  <Select value={shiftTag} onValueChange={setShiftTag}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {analytics.tagShifts.map((shift) => (
+                        <SelectItem key={shift.tag} value={shift.tag}>
+                          #{shift.tag} ({shift.occurrences} {t("times")})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedShift && (
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                      {(["before", "on", "after"] as const).map((key) => (
+                        <div key={key} className="rounded-lg border border-border/50 py-2">
+                          <p className="text-xs text-muted-foreground">{t(key)}</p>
+                          <p className="text-lg font-mono font-bold" style={{ color: moodColor(selectedShift[key]) }}>
+                            {formatMood(selectedShift[key])}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function MoodAnalyticsPage() {
+  return (
+    <ErrorBoundary>
+      <MoodAnalyticsContent />
+    </ErrorBoundary>
+  );
+}
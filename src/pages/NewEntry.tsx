@@ -265,10 +265,13 @@ function EntryEditorContent() {
       let insertedCount = 0;
 
       const { db } = await import('@/lib/db');
+      const { getSearchIndexTables } = await import('@/lib/search/searchIndex');
       
       log('TX_BEGIN');
       
-      await db.transaction('rw', [db.entries, db.attachments, db.attachmentInsights], async () => {
+      // Search tables are included because createEntry/updateEntry index inside this transaction;
+      // syncTombstones because replacing attachments records their deletion for sync
+      await db.transaction('rw', [...getSearchIndexTables(), db.syncTombstones], async () => {
         if (isEditing && id) {
           entryId = Number(id);
           await updateEntry(entryId, {
@@ -35,7 +35,7 @@ type ScanState = "idle" | "consent" | "processing" | "error";
 type ScanStep = "SELECT_IMAGE" | "CONSENT_ACCEPTED" | "COMPRESS_OK" | "API_REQUEST" | "API_RESPONSE_OK" | "API_RESPONSE_ERROR" | "NAVIGATE_REVIEW";
 
 interface ScanError {
-  type: "unreadable" | "not_receipt" | "invalid_json" | "validation_error" | "service_error" | "image_too_large" | "unknown";
+  type: "unreadable" | "not_receipt" | "invalid_json" | "validation_error" | "service_error" | "budget_exceeded" | "image_too_large" | "unknown";
   hint: string;
   requestId?: string;
 }
@@ -512,6 +512,7 @@ function getErrorTitle(type: ScanError["type"], language: string): string {
     invalid_json: { ru: "Ошибка распознавания", en: "Recognition error" },
     validation_error: { ru: "Ошибка валидации", en: "Validation error" },
     service_error: { ru: "Ошибка сервиса", en: "Service error" },
+    budget_exceeded: { ru: "Бюджет AI исчерпан", en: "AI budget used up" },
     image_too_large: { ru: "Файл слишком большой", en: "File too large" },
     unknown: { ru: "Неизвестная ошибка", en: "Unknown error" },
   };
@@ -541,6 +542,10 @@ function getErrorHint(type: ReceiptScanError["error"], language: string): string
       ru: "Сервис временно недоступен. Попробуйте позже.",
       en: "Service temporarily unavailable. Please try later.",
     },
+    budget_exceeded: {
+      ru: "Лимит расходов на AI достигнут. Его можно изменить в Настройки → Расход AI.",
+      en: "The AI spending limit is reached. You can change it in Settings → AI usage.",
+    },
   };
   return hints[type][baseLang];
 }
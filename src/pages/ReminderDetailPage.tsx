@@ -101,6 +101,8 @@ const texts = {
   source: { ru: 'Источник', en: 'Source', he: 'מקור', ar: 'المصدر' },
   sourceNotFound: { ru: 'Источник не найден', en: 'Source not found', he: 'המקור לא נמצא', ar: 'المصدر غير موجود' },
   openEntry: { ru: 'Открыть запись', en: 'Open entry', he: 'פתח רשומה', ar: 'فتح المدخل' },
+  fromDiscussion: { ru: 'Создано из плана в обсуждении', en: 'Created from a discussion plan', he: 'נוצר מתוכנית בדיון', ar: 'أُنشئ من خطة في نقاش' },
+  openDiscussion: { ru: 'Открыть обсуждение', en: 'Open discussion', he: 'פתח דיון', ar: 'فتح النقاش' },
   
   // Actions
   done: { ru: 'Готово', en: 'Done', he: 'בוצע', ar: 'تم' },
@@ -619,7 +621,20 @@ export default function ReminderDetailPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="pt-0">
-            {sourceEntry === undefined ? (
+            {reminder.entryId === undefined && reminder.sessionId !== undefined ? (
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">{t('fromDiscussion')}</p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate(`/discussions/${reminder.sessionId}`)}
+                  className="w-full"
+                >
+                  <ExternalLink className="h-4 w-4 me-2" />
+                  {t('openDiscussion')}
+                </Button>
+              </div>
+            ) : sourceEntry === undefined ? (
               <div className="h-12 animate-pulse rounded bg-muted" />
             ) : sourceEntry === null ? (
               <p className="text-sm text-muted-foreground italic">
@@ -1,7 +1,18 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { Search as SearchIcon, Filter, X } from 'lucide-react';
-import { db, getAllTags } from '@/lib/db';
+import { Search as SearchIcon, Filter, X, Bookmark, Pin, PinOff } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  db,
+  getAllTags,
+  getAllSavedSearches,
+  createSavedSearch,
+  toggleSavedSearchPin,
+  deleteSavedSearch,
+} from '@/lib/db';
+import type { FullTextSearchResult } from '@/lib/search/searchIndex';
+import { executeSearchQuery, hasSearchCriteria, parseSearchQuery } from '@/lib/search/queryLanguage';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { EntryCard } from '@/components/EntryCard';
@@ -9,38 +20,74 @@ import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { cn } from '@/lib/utils';
 import { useI18n } from '@/lib/i18n';
 
+const SEARCH_DEBOUNCE_MS = 200;
+
 function SearchContent() {
   const { t } = useI18n();
-  const [query, setQuery] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [query, setQuery] = useState(() => searchParams.get('q') ?? '');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [showFilters, setShowFilters] = useState(false);
+  const [queryResults, setQueryResults] = useState<FullTextSearchResult[] | null>(null);
 
   const allTags = useLiveQuery(() => getAllTags(), []);
   const allEntries = useLiveQuery(() => db.entries.orderBy('createdAt').reverse().toArray());
+  const savedSearches = useLiveQuery(() => getAllSavedSearches(), []);
+
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query]);
 
-  const filteredEntries = useMemo(() => {
+  // Opening a saved search from Today navigates here with ?q=
+  useEffect(() => {
+    const urlQuery = searchParams.get('q');
+    if (urlQuery !== null) setQuery(urlQuery);
+  }, [searchParams]);
+
+  const tagFilteredEntries = useMemo(() => {
     if (!allEntries) return [];
-    
-    let results = allEntries;
-
-    // Filter by search query
-    if (query.trim()) {
-      const lowerQuery = query.toLowerCase();
-      results = results.filter(entry => 
-        entry.text.toLowerCase().includes(lowerQuery) ||
-        entry.tags.some(tag => tag.toLowerCase().includes(lowerQuery))
-      );
+    if (selectedTags.length === 0) return allEntries;
+    return allEntries.filter(entry =>
+      selectedTags.some(tag => entry.tags.includes(tag))
+    );
+  }, [allEntries, selectedTags]);
+
+  // Structured query (filters + full-text); re-runs when entries change
+  useEffect(() => {
+    if (!hasSearchCriteria(parsedQuery) || !allEntries) {
+      setQueryResults(null);
+      return;
     }
 
-    // Filter by selected tags
-    if (selectedTags.length > 0) {
-      results = results.filter(entry =>
-        selectedTags.some(tag => entry.tags.includes(tag))
-      );
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      executeSearchQuery(parsedQuery, { prefixLastTerm: true })
+        .then(results => {
+          if (!cancelled) setQueryResults(results);
+        })
+        .catch(error => {
+          console.error('[Search] Query failed:', error);
+          if (!cancelled) setQueryResults([]);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [parsedQuery, allEntries]);
+
+  const results = useMemo<FullTextSearchResult[]>(() => {
+    if (!queryResults) {
+      return tagFilteredEntries.map(entry => ({ entry, score: 0, matchedField: null, snippet: null }));
     }
+    if (selectedTags.length === 0) return queryResults;
+    return queryResults.filter(result => selectedTags.some(tag => result.entry.tags.includes(tag)));
+  }, [queryResults, tagFilteredEntries, selectedTags]);
 
-    return results;
-  }, [allEntries, query, selectedTags]);
+  const getSnippetLabel = (result: FullTextSearchResult): string | undefined => {
+    if (result.matchedField === 'transcript') return t('search.matchedTranscript');
+    if (result.matchedField === 'insight') return t('search.matchedInsight');
+    return undefined;
+  };
 
   const toggleTag = (tag: string) => {
     setSelectedTags(prev =>
@@ -48,11 +95,28 @@ function SearchContent() {
     );
   };
 
+  const updateQuery = (value: string) => {
+    setQuery(value);
+    if (searchParams.has('q')) {
+      setSearchParams({}, { replace: true });
+    }
+  };
+
   const clearFilters = () => {
-    setQuery('');
+    updateQuery('');
     setSelectedTags([]);
   };
 
+  const handleSaveSearch = async () => {
+    if (!query.trim()) return;
+    try {
+      await createSavedSearch(query);
+      toast.success(t('search.saved'));
+    } catch (error) {
+      console.error('[Search] Failed to save search:', error);
+    }
+  };
+
   const hasFilters = query.trim() || selectedTags.length > 0;
 
   return (
@@ -80,11 +144,23 @@ function SearchContent() {
             <SearchIcon className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
             <Input
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
+              onChange={(e) => updateQuery(e.target.value)}
               placeholder={t('search.placeholder')}
               className="pl-10 bg-muted/50 border-border/50"
             />
           </div>
+          {query.trim() && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleSaveSearch}
+              className="hover:bg-cyber-glow/10"
+              aria-label={t('search.save')}
+              title={t('search.save')}
+            >
+              <Bookmark className="h-4 w-4" />
+            </Button>
+          )}
           <Button
             variant={showFilters ? 'secondary' : 'outline'}
             size="icon"
@@ -95,6 +171,61 @@ function SearchContent() {
           </Button>
         </div>
 
+        {parsedQuery.issues.length > 0 && (
+          <p className="text-xs text-destructive">
+            {t('search.invalidFilter')}: {parsedQuery.issues.map(issue => issue.token).join(', ')}
+          </p>
+        )}
+
+        {showFilters && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p>{t('search.syntaxHint')}</p>
+            <p className="font-mono">{t('search.filterSyntaxHint')}</p>
+          </div>
+        )}
+
+        {/* Saved searches */}
+        {savedSearches && savedSearches.length > 0 && (
+          <div className="space-y-2">
+            <span className="text-sm font-medium">{t('search.savedSearches')}</span>
+            <div className="flex flex-wrap gap-2">
+              {savedSearches.map((saved) => (
+                <div
+                  key={saved.id}
+                  className={cn(
+                    'flex items-center gap-1 rounded-full border px-3 py-1 text-sm',
+                    saved.query === query.trim()
+                      ? 'border-cyber-glow/50 bg-cyber-glow/10'
+                      : 'border-border/50 bg-muted/50'
+                  )}
+                >
+                  <button onClick={() => updateQuery(saved.query)} className="max-w-[12rem] truncate">
+                    {saved.name}
+                  </button>
+                  <button
+                    onClick={() => toggleSavedSearchPin(saved.id!)}
+                    aria-label={saved.pinned ? t('search.unpin') : t('search.pinToToday')}
+                    title={saved.pinned ? t('search.unpin') : t('search.pinToToday')}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    {saved.pinned
+                      ? <PinOff className="h-3 w-3" />
+                      : <Pin className="h-3 w-3" />}
+                  </button>
+                  <button
+                    onClick={() => deleteSavedSearch(saved.id!)}
+                    aria-label={t('search.deleteSaved')}
+                    title={t('search.deleteSaved')}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Filters panel */}
         {showFilters && allTags && allTags.length > 0 && (
           <div className="animate-fade-in space-y-2 pt-2">
@@ -139,7 +270,7 @@ function SearchContent() {
               <div key={i} className="h-24 animate-pulse rounded-lg bg-muted/50" />
             ))}
           </div>
-        ) : filteredEntries.length === 0 ? (
+        ) : results.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-16 text-center">
             <div className="mb-4 p-6 panel-glass">
               <SearchIcon className="h-10 w-10 text-muted-foreground" />
@@ -156,10 +287,16 @@ function SearchContent() {
         ) : (
           <div className="space-y-3">
             <p className="text-sm text-muted-foreground">
-              {t('search.found')}: {filteredEntries.length}
+              {t('search.found')}: {results.length}
             </p>
-            {filteredEntries.map((entry) => (
-              <EntryCard key={entry.id} entry={entry} showDate />
+            {results.map((result) => (
+              <EntryCard
+                key={result.entry.id}
+                entry={result.entry}
+                showDate
+                snippet={result.snippet}
+                snippetLabel={getSnippetLabel(result)}
+              />
             ))}
           </div>
         )}
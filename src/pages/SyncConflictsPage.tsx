@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ArrowLeft, CheckCircle2, Cloud, GitMerge, Smartphone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { type DiaryEntry } from '@/lib/db';
+import { getConflictedEntries, resolveSyncConflict, type ConflictResolution } from '@/lib/syncConflicts';
+import { diffText, splitDiffSides, type DiffPart } from '@/lib/textDiff';
+import { useI18n } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// ============================================
+// LOCALIZED TEXTS
+// ============================================
+
+const texts = {
+  title: { ru: 'Конфликты синхронизации', en: 'Sync conflicts', he: 'התנגשויות סנכרון', ar: 'تعارضات المزامنة' },
+  empty: { ru: 'Конфликтов нет', en: 'No conflicts', he: 'אין התנגשויות', ar: 'لا توجد تعارضات' },
+  emptyHint: { ru: 'Все записи совпадают на ваших устройствах.', en: 'All entries match across your devices.', he: 'כל הרשומות תואמות בין המכשירים.', ar: 'جميع المدخلات متطابقة عبر أجهزتك.' },
+  hint: { ru: 'Запись изменили на двух устройствах. Выберите, какую версию оставить.', en: 'This entry was edited on two devices. Choose which version to keep.', he: 'הרשומה נערכה בשני מכשירים. בחר איזו גרסה לשמור.', ar: 'تم تعديل هذا المدخل على جهازين. اختر النسخة التي تريد الاحتفاظ بها.' },
+  mine: { ru: 'Это устройство', en: 'This device', he: 'מכשיר זה', ar: 'هذا الجهاز' },
+  theirs: { ru: 'Облако', en: 'Cloud', he: 'ענן', ar: 'السحابة' },
+  keepMine: { ru: 'Оставить мою', en: 'Keep mine', he: 'השאר שלי', ar: 'احتفظ بنسختي' },
+  keepTheirs: { ru: 'Оставить из облака', en: 'Keep theirs', he: 'השאר מהענן', ar: 'احتفظ بنسخة السحابة' },
+  merge: { ru: 'Объединить вручную', en: 'Merge manually', he: 'מזג ידנית', ar: 'دمج يدوي' },
+  saveMerge: { ru: 'Сохранить объединение', en: 'Save merge', he: 'שמור מיזוג', ar: 'حفظ الدمج' },
+  cancel: { ru: 'Отмена', en: 'Cancel', he: 'ביטול', ar: 'إلغاء' },
+  resolved: { ru: 'Конфликт решён', en: 'Conflict resolved', he: 'ההתנגשות נפתרה', ar: 'تم حل التعارض' },
+  resolveFailed: { ru: 'Не удалось решить конфликт', en: 'Failed to resolve conflict', he: 'פתרון ההתנגשות נכשל', ar: 'فشل حل التعارض' },
+  mood: { ru: 'Настроение', en: 'Mood', he: 'מצב רוח', ar: 'المزاج' },
+  tags: { ru: 'Метки', en: 'Tags', he: 'תגיות', ar: 'الوسوم' },
+  untitled: { ru: 'Без названия', en: 'Untitled', he: 'ללא כותרת', ar: 'بدون عنوان' },
+};
+
+type TextKey = keyof typeof texts;
+
+function DiffSide({ parts }: { parts: DiffPart[] }) {
+  return (
+    <p className="whitespace-pre-wrap break-words text-sm leading-relaxed">
+      {parts.map((part, i) =>
+        part.op === 'equal' ? (
+          <span key={i}>{part.text}</span>
+        ) : (
+          <mark
+            key={i}
+            className={cn(
+              'rounded-sm px-0.5 text-foreground',
+              part.op === 'delete' ? 'bg-destructive/20' : 'bg-cyber-glow/25'
+            )}
+          >
+            {part.text}
+          </mark>
+        )
+      )}
+    </p>
+  );
+}
+
+interface ConflictCardProps {
+  entry: DiaryEntry;
+  t: (key: TextKey) => string;
+}
+
+function ConflictCard({ entry, t }: ConflictCardProps) {
+  const server = entry.conflictServerVersion!;
+  const [merging, setMerging] = useState(false);
+  const [mergedText, setMergedText] = useState(entry.text);
+  const [busy, setBusy] = useState(false);
+
+  const { before, after } = splitDiffSides(diffText(entry.text, server.text));
+  const metaDiffers = entry.mood !== server.mood || entry.tags.join(',') !== server.tags.join(',');
+
+  const resolve = async (resolution: ConflictResolution) => {
+    setBusy(true);
+    try {
+      await resolveSyncConflict(entry.id!, resolution);
+      toast.success(t('resolved'));
+    } catch (error) {
+      console.error('[SyncConflicts] Resolve failed:', error);
+      toast.error(t('resolveFailed'));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card className="panel-glass border-cyber-glow/20">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base font-serif">
+          {entry.title || server.title || t('untitled')}
+          <span className="ms-2 font-mono text-xs font-normal text-muted-foreground">{entry.date}</span>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">{t('hint')}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Side-by-side diff */}
+        <div className="grid grid-cols-2 gap-3">
+          {[
+            { key: 'mine' as const, icon: Smartphone, parts: before, mood: entry.mood, tags: entry.tags },
+            { key: 'theirs' as const, icon: Cloud, parts: after, mood: server.mood, tags: server.tags },
+          ].map(side => (
+            <div key={side.key} className="space-y-2 rounded-lg border border-border/50 bg-muted/30 p-3">
+              <div className="flex items-center gap-1.5 text-xs font-medium text-cyber-sigil">
+                <side.icon className="h-3.5 w-3.5" />
+                {t(side.key)}
+              </div>
+              <DiffSide parts={side.parts} />
+              {metaDiffers && (
+                <div className="space-y-0.5 border-t border-border/50 pt-2 text-xs text-muted-foreground">
+                  <div>{t('mood')}: {side.mood}</div>
+                  {side.tags.length > 0 && <div>{t('tags')}: {side.tags.join(', ')}</div>}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {merging ? (
+          <div className="space-y-2">
+            <Textarea
+              value={mergedText}
+              onChange={(e) => setMergedText(e.target.value)}
+              className="min-h-[160px] bg-muted/50"
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1 gap-1"
+                disabled={busy}
+                onClick={() => resolve({ kind: 'merge', text: mergedText })}
+              >
+                <CheckCircle2 className="h-3.5 w-3.5" />
+                {t('saveMerge')}
+              </Button>
+              <Button size="sm" variant="outline" className="flex-1" disabled={busy} onClick={() => setMerging(false)}>
+                {t('cancel')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => resolve({ kind: 'keep-local' })}>
+              {t('keepMine')}
+            </Button>
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => resolve({ kind: 'keep-server' })}>
+              {t('keepTheirs')}
+            </Button>
+            <Button size="sm" variant="secondary" className="gap-1" disabled={busy} onClick={() => setMerging(true)}>
+              <GitMerge className="h-3.5 w-3.5" />
+              {t('merge')}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SyncConflictsContent() {
+  const navigate = useNavigate();
+  const { language } = useI18n();
+
+  const t = (key: TextKey): string =>
+    texts[key][language as keyof typeof texts[TextKey]] || texts[key].en;
+
+  const conflicts = useLiveQuery(() => getConflictedEntries(), []);
+
+  return (
+    <div className="min-h-screen pb-24 cyber-noise rune-grid">
+      <header className="sticky top-0 z-40 panel-glass border-b border-border/50 backdrop-blur-md">
+        <div className="flex items-center gap-2 p-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-lg font-semibold">{t('title')}</h1>
+        </div>
+      </header>
+
+      <main className="space-y-4 px-4 pt-4">
+        {!conflicts ? (
+          <div className="h-40 animate-pulse rounded-lg bg-muted/50" />
+        ) : conflicts.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <div className="mb-4 p-6 panel-glass">
+              <CheckCircle2 className="h-10 w-10 text-cyber-sigil" />
+            </div>
+            <h3 className="mb-2 text-lg font-serif font-medium">{t('empty')}</h3>
+            <p className="max-w-xs text-sm text-muted-foreground">{t('emptyHint')}</p>
+          </div>
+        ) : (
+          conflicts
+            .filter(entry => entry.conflictServerVersion)
+            .map(entry => <ConflictCard key={entry.id} entry={entry} t={t} />)
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function SyncConflictsPage() {
+  return (
+    <ErrorBoundary>
+      <SyncConflictsContent />
+    </ErrorBoundary>
+  );
+}
@@ -94,6 +94,10 @@ vi.mock('@/components/WeeklyInsightsWidget', () => ({
   WeeklyInsightsWidget: () => null,
 }));
 
+vi.mock('@/components/search/PinnedSearches', () => ({
+  PinnedSearches: () => null,
+}));
+
 vi.mock('@/components/icons/BreathingSigil', () => ({
   BreathingSigil: () => null,
 }));
@@ -12,6 +12,8 @@ import { BiographyPromptDialog } from '@/components/BiographyPromptDialog';
 import { RemindersSection } from '@/components/reminders/RemindersSection';
 import { QuickReminderSheet } from '@/components/reminders/QuickReminderSheet';
 import { WeeklyInsightsWidget } from '@/components/WeeklyInsightsWidget';
+import { PinnedSearches } from '@/components/search/PinnedSearches';
+import { SyncConflictsBadge } from '@/components/SyncConflictsBadge';
 import { useBiographyPrompts } from '@/hooks/useBiographyPrompts';
 import { getBiography, StoredBiography, getTodayDate } from '@/lib/biographyService';
 import { loadAISettings } from '@/lib/aiConfig';
@@ -200,6 +202,9 @@ function TodayContent() {
           </div>
         </div>
         
+        {/* Unresolved sync conflicts - positioned absolute start for RTL */}
+        <SyncConflictsBadge className="absolute top-7 start-4" />
+
         {/* Select button - positioned absolute end for RTL */}
         {entries.length > 0 && !selectionMode && (
           <div className="absolute top-6 end-4">
@@ -247,6 +252,9 @@ function TodayContent() {
       <main className="px-4 pt-4">
         {/* Weekly Insights Widget */}
         <WeeklyInsightsWidget />
+
+        {/* Pinned saved searches */}
+        <PinnedSearches />
         
         {/* Gentle Nudges: Reminders Section */}
         <div id="reminders-section">
@@ -1,41 +1,358 @@
+import { useMemo, useState } from 'react';
 import { Navigate } from 'react-router-dom';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfDay,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+} from 'date-fns';
+import { ru, enUS } from 'date-fns/locale';
+import { Anchor, CheckCircle2, ChevronLeft, ChevronRight, Circle, Map, Plus, Repeat } from 'lucide-react';
 import { isEtherealSessionValid } from '@/lib/etherealTokenService';
 import { EtherealHeader } from '@/components/ethereal/EtherealHeader';
-import { Map } from 'lucide-react';
+import { EtherealBottomTabs } from '@/components/ethereal/EtherealBottomTabs';
+import { EventEditor } from '@/components/ethereal/EventEditor';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useEtherealEvents, type EventInput } from '@/hooks/useEtherealEvents';
+import {
+  buildCalendarItems,
+  getMonthGrid,
+  getWeekDays,
+  itemsOnDay,
+  type CalendarItem,
+} from '@/lib/etherealCalendar';
+import type { EtherealEvent } from '@/lib/etherealDb';
+import { cn } from '@/lib/utils';
 import { useI18n, getBaseLanguage } from '@/lib/i18n';
 
 const texts = {
   navigatorMap: { ru: 'Штурманская карта', en: 'Navigator Map' },
   calendar: { ru: 'Календарь', en: 'Calendar' },
-  planEvents: { ru: 'Планируйте события и важные даты. Никогда не пропустите встречу.', en: 'Plan events and important dates. Never miss a meeting.' },
-  comingSoon: { ru: 'Скоро откроется', en: 'Coming soon' },
+  month: { ru: 'Месяц', en: 'Month' },
+  week: { ru: 'Неделя', en: 'Week' },
+  agenda: { ru: 'Список', en: 'Agenda' },
+  today: { ru: 'Сегодня', en: 'Today' },
+  newEvent: { ru: 'Событие', en: 'Event' },
+  allDay: { ru: 'Весь день', en: 'All day' },
+  task: { ru: 'Задача', en: 'Task' },
+  loading: { ru: 'Загрузка...', en: 'Loading...' },
+  nothingPlanned: { ru: 'Ничего не запланировано', en: 'Nothing planned' },
+  calmWaters: { ru: 'Спокойные воды впереди', en: 'Calm waters ahead' },
+  planEvents: { ru: 'Добавьте событие — его увидят все в комнате.', en: 'Add an event — everyone in the room will see it.' },
+  error: { ru: 'Ошибка', en: 'Error' },
+  saveFailed: { ru: 'Не удалось сохранить событие', en: 'Failed to save event' },
+  deleteFailed: { ru: 'Не удалось удалить событие', en: 'Failed to delete event' },
+  updateFailed: { ru: 'Не удалось обновить задачу', en: 'Failed to update task' },
 } as const;
 
+type CalendarView = 'month' | 'week' | 'agenda';
+
+const AGENDA_DAYS = 30;
+
 export default function EtherealCalendar() {
   const { language } = useI18n();
   const lang = getBaseLanguage(language);
   const t = (key: keyof typeof texts) => texts[key][lang];
+  const locale = lang === 'ru' ? ru : enUS;
+  const { toast } = useToast();
+
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+  const [selectedDay, setSelectedDay] = useState(() => startOfDay(new Date()));
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<EtherealEvent | undefined>();
+
+  const monthGrid = useMemo(() => getMonthGrid(cursor), [cursor]);
+  const weekDays = useMemo(() => getWeekDays(cursor), [cursor]);
+
+  // Days the current view covers
+  const visibleDays = useMemo(() => {
+    if (view === 'month') return monthGrid.flat();
+    if (view === 'week') return weekDays;
+    return Array.from({ length: AGENDA_DAYS }, (_, i) => addDays(cursor, i));
+  }, [view, monthGrid, weekDays, cursor]);
+
+  const fromMs = startOfDay(visibleDays[0]).getTime();
+  const toMs = endOfDay(visibleDays[visibleDays.length - 1]).getTime();
+  const { events, tasks, isLoading, error, saveEvent, deleteEvent, toggleTask } = useEtherealEvents(fromMs, toMs);
+
+  const items = useMemo(
+    () => buildCalendarItems(events, tasks, fromMs, toMs),
+    [events, tasks, fromMs, toMs]
+  );
 
   if (!isEtherealSessionValid()) {
     return <Navigate to="/e/home" replace />;
   }
 
+  const shift = (direction: -1 | 1) => {
+    const next = view === 'month'
+      ? addMonths(cursor, direction)
+      : view === 'week'
+        ? addWeeks(cursor, direction)
+        : addDays(cursor, direction * AGENDA_DAYS);
+    setCursor(next);
+    setSelectedDay(next);
+  };
+
+  const goToday = () => {
+    const today = startOfDay(new Date());
+    setCursor(today);
+    setSelectedDay(today);
+  };
+
+  const openEditor = (event?: EtherealEvent) => {
+    setEditingEvent(event);
+    setEditorOpen(true);
+  };
+
+  const closeEditor = () => {
+    setEditorOpen(false);
+    setEditingEvent(undefined);
+  };
+
+  const handleSave = async (input: EventInput) => {
+    const result = await saveEvent(input, editingEvent?.serverId);
+    if (!result.success) {
+      toast({ title: t('error'), description: t('saveFailed'), variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingEvent) return;
+    const result = await deleteEvent(editingEvent.serverId);
+    if (!result.success) {
+      toast({ title: t('error'), description: t('deleteFailed'), variant: 'destructive' });
+    }
+  };
+
+  const handleItemClick = async (item: CalendarItem) => {
+    if (item.kind === 'event') {
+      openEditor(item.event);
+      return;
+    }
+    const result = await toggleTask(item.task.serverId);
+    if (!result.success) {
+      toast({ title: t('error'), description: t('updateFailed'), variant: 'destructive' });
+    }
+  };
+
+  const periodLabel = view === 'month'
+    ? format(cursor, 'LLLL yyyy', { locale })
+    : `${format(visibleDays[0], 'd MMM', { locale })} – ${format(visibleDays[visibleDays.length - 1], 'd MMM yyyy', { locale })}`;
+
+  const renderItem = (item: CalendarItem, day: Date) => (
+    <CalendarItemRow
+      key={`${item.key}-${day.getTime()}`}
+      item={item}
+      day={day}
+      locale={locale}
+      allDayLabel={t('allDay')}
+      taskLabel={t('task')}
+      onClick={() => handleItemClick(item)}
+    />
+  );
+
+  const renderDaySection = (day: Date, dayItems: CalendarItem[]) => (
+    <section key={day.getTime()}>
+      <h3
+        className={cn(
+          'text-sm font-semibold mb-2 px-1 capitalize',
+          isToday(day) ? 'text-primary' : 'text-muted-foreground'
+        )}
+      >
+        {format(day, 'EEEE, d MMMM', { locale })}
+      </h3>
+      {dayItems.length === 0 ? (
+        <p className="text-xs text-muted-foreground/70 px-1">{t('nothingPlanned')}</p>
+      ) : (
+        <div className="space-y-2">{dayItems.map((item) => renderItem(item, day))}</div>
+      )}
+    </section>
+  );
+
+  const agendaDays = visibleDays
+    .map((day) => ({ day, dayItems: itemsOnDay(items, day) }))
+    .filter(({ dayItems }) => dayItems.length > 0);
+
   return (
     <div className="flex flex-col min-h-screen yacht-gradient">
       <EtherealHeader title={t('navigatorMap')} subtitle={t('calendar')} />
-      
-      <div className="flex-1 flex flex-col items-center justify-center p-6 text-center">
-        <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
-          <Map className="w-8 h-8 text-muted-foreground" />
+
+      <div className="flex-1 pt-4 pb-24">
+        {/* View switcher */}
+        <div className="px-4 flex gap-2">
+          {(['month', 'week', 'agenda'] as const).map((option) => (
+            <Button
+              key={option}
+              variant={view === option ? 'default' : 'outline'}
+              size="sm"
+              className="flex-1"
+              onClick={() => setView(option)}
+            >
+              {t(option)}
+            </Button>
+          ))}
+        </div>
+
+        {/* Period navigation */}
+        <div className="px-4 py-3 flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => shift(-1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="flex-1 text-center font-medium capitalize">{periodLabel}</span>
+          <Button variant="ghost" size="icon" onClick={() => shift(1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={goToday}>
+            {t('today')}
+          </Button>
+          <Button size="sm" onClick={() => openEditor()}>
+            <Plus className="w-4 h-4 mr-1" />
+            {t('newEvent')}
+          </Button>
         </div>
-        <h2 className="text-lg font-medium mb-2">{t('navigatorMap')}</h2>
-        <p className="text-muted-foreground text-sm max-w-sm">
-          {t('planEvents')}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-pulse text-muted-foreground">{t('loading')}</div>
+          </div>
+        ) : (
+          <div className="px-4 space-y-4">
+            {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+            {view === 'month' && (
+              <>
+                <div className="grid grid-cols-7 gap-1 text-center">
+                  {monthGrid[0].map((day) => (
+                    <div key={day.getTime()} className="text-xs text-muted-foreground py-1">
+                      {format(day, 'EEEEEE', { locale })}
+                    </div>
+                  ))}
+                  {monthGrid.flat().map((day) => {
+                    const dayItems = itemsOnDay(items, day);
+                    return (
+                      <button
+                        key={day.getTime()}
+                        onClick={() => setSelectedDay(day)}
+                        className={cn(
+                          'aspect-square rounded-lg flex flex-col items-center justify-center gap-0.5 text-sm transition-colors',
+                          !isSameMonth(day, cursor) && 'text-muted-foreground/50',
+                          isToday(day) && 'font-bold text-primary',
+                          isSameDay(day, selectedDay) ? 'bg-primary/15 ring-1 ring-primary' : 'hover:bg-muted'
+                        )}
+                      >
+                        {format(day, 'd')}
+                        <span className="flex gap-0.5 h-1.5">
+                          {dayItems.slice(0, 3).map((item) => (
+                            <span
+                              key={item.key}
+                              className={cn(
+                                'w-1.5 h-1.5 rounded-full',
+                                item.kind === 'task' ? 'bg-muted-foreground' : 'bg-primary'
+                              )}
+                            />
+                          ))}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+                {renderDaySection(selectedDay, itemsOnDay(items, selectedDay))}
+              </>
+            )}
+
+            {view === 'week' && weekDays.map((day) => renderDaySection(day, itemsOnDay(items, day)))}
+
+            {view === 'agenda' && (
+              agendaDays.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-16 text-center">
+                  <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mb-4">
+                    <Map className="w-8 h-8 text-muted-foreground" />
+                  </div>
+                  <h3 className="text-lg font-medium mb-2">{t('calmWaters')}</h3>
+                  <p className="text-sm text-muted-foreground max-w-sm">{t('planEvents')}</p>
+                </div>
+              ) : (
+                agendaDays.map(({ day, dayItems }) => renderDaySection(day, dayItems))
+              )
+            )}
+          </div>
+        )}
+      </div>
+
+      <EventEditor
+        open={editorOpen}
+        onClose={closeEditor}
+        onSave={handleSave}
+        onDelete={editingEvent ? handleDelete : undefined}
+        event={editingEvent}
+        defaultDate={selectedDay}
+      />
+
+      <EtherealBottomTabs />
+    </div>
+  );
+}
+
+interface CalendarItemRowProps {
+  item: CalendarItem;
+  day: Date;
+  locale: typeof ru;
+  allDayLabel: string;
+  taskLabel: string;
+  onClick: () => void;
+}
+
+function CalendarItemRow({ item, day, locale, allDayLabel, taskLabel, onClick }: CalendarItemRowProps) {
+  const isTask = item.kind === 'task';
+  const isDone = isTask && item.task.status === 'done';
+
+  // Timed events spanning midnight show their clock time only on the day they start
+  const timeLabel = item.allDay || !isSameDay(item.startMs, day)
+    ? allDayLabel
+    : item.endMs > item.startMs
+      ? `${format(item.startMs, 'p', { locale })} – ${format(item.endMs, 'p', { locale })}`
+      : format(item.startMs, 'p', { locale });
+
+  return (
+    <button
+      onClick={onClick}
+      className="w-full flex items-center gap-3 rounded-lg border border-border bg-card p-3 text-left hover:bg-muted/50 transition-colors"
+    >
+      {isTask ? (
+        isDone
+          ? <CheckCircle2 className="w-5 h-5 text-primary shrink-0" />
+          : <Circle className="w-5 h-5 text-muted-foreground shrink-0" />
+      ) : (
+        <span className="w-1 self-stretch rounded-full bg-primary shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        <p className={cn('font-medium truncate', isDone && 'line-through text-muted-foreground')}>
+          {item.title}
         </p>
-        <p className="text-muted-foreground/60 text-xs mt-4">
-          {t('comingSoon')}
+        <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+          {isTask ? (
+            <>
+              <Anchor className="w-3 h-3" />
+              {taskLabel}
+              {item.task.assigneeName && ` · ${item.task.assigneeName}`}
+            </>
+          ) : (
+            <>
+              {timeLabel}
+              {item.event.recurrence !== 'none' && <Repeat className="w-3 h-3" />}
+              {` · ${item.event.creatorName}`}
+            </>
+          )}
         </p>
       </div>
-    </div>
+    </button>
   );
 }
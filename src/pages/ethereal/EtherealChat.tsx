@@ -1,16 +1,31 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useLayoutEffect, useMemo } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { Navigate, useNavigate } from 'react-router-dom';
 import { isEtherealSessionValid, getEtherealSession } from '@/lib/etherealTokenService';
 import { EtherealHeader } from '@/components/ethereal/EtherealHeader';
 import { EtherealMediaButton } from '@/components/ethereal/EtherealMediaButton';
 import { useEtherealRealtime } from '@/hooks/useEtherealRealtime';
+import { useEtherealOutbox } from '@/hooks/useEtherealOutbox';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Send, Loader2, X } from 'lucide-react';
-import { cn } from '@/lib/utils';
-import { format } from 'date-fns';
+import { ChatMessage } from '@/components/ethereal/ChatMessage';
+import { ChatSearchSheet } from '@/components/ethereal/ChatSearchSheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Send, Loader2, X, Reply, Pencil, Search } from 'lucide-react';
 import { toast } from 'sonner';
 import { useI18n, getBaseLanguage } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+import { MAX_MESSAGE_LENGTH } from '@/lib/etherealChat';
+import type { EtherealMessage } from '@/lib/etherealDb';
 
 const texts = {
   bar: { ru: 'Бар', en: 'Bar' },
@@ -22,8 +37,29 @@ const texts = {
   inPort: { ru: 'В порту...', en: 'In port...' },
   kicked: { ru: 'Вас удалили из комнаты', en: 'You have been removed from the room' },
   sessionExpired: { ru: 'Сессия истекла', en: 'Session expired' },
+  sendFailed: { ru: 'Не удалось отправить сообщение', en: 'Failed to send message' },
+  replyingTo: { ru: 'Ответ для', en: 'Replying to' },
+  editing: { ru: 'Редактирование', en: 'Editing' },
+  photo: { ru: 'Фото', en: 'Photo' },
+  editFailed: { ru: 'Не удалось изменить сообщение', en: 'Failed to edit message' },
+  deleteFailed: { ru: 'Не удалось удалить сообщение', en: 'Failed to delete message' },
+  reactFailed: { ru: 'Не удалось поставить реакцию', en: 'Failed to react' },
+  deleteTitle: { ru: 'Удалить у всех?', en: 'Delete for everyone?' },
+  deleteHint: { ru: 'Сообщение исчезнет у всех участников комнаты.', en: 'The message will be removed for everyone in the room.' },
+  cancel: { ru: 'Отмена', en: 'Cancel' },
+  delete: { ru: 'Удалить', en: 'Delete' },
+  historyStart: { ru: 'Начало разговора', en: 'Start of the conversation' },
+  messageNotFound: { ru: 'Сообщение слишком далеко в истории', en: 'That message is too far back in the history' },
 } as const;
 
+const ESTIMATED_MESSAGE_HEIGHT = 72;
+// Start fetching older messages this close to the top of the list
+const LOAD_OLDER_THRESHOLD_PX = 200;
+const HIGHLIGHT_MS = 2000;
+// Room above the first message for the "loading older" / "start" line
+const LIST_PADDING_TOP = 40;
+const LIST_PADDING_BOTTOM = 16;
+
 export default function EtherealChat() {
   const navigate = useNavigate();
   const { language } = useI18n();
@@ -31,14 +67,53 @@ export default function EtherealChat() {
   const t = (key: keyof typeof texts) => texts[key][lang];
 
   // 1. ALL HOOKS MUST BE CALLED FIRST - before any conditional returns
-  const { messages, typingMembers, sendTyping, sendMessage, isConnected } = useEtherealRealtime();
+  const {
+    messages,
+    typingMembers,
+    sendTyping,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    loadOlder,
+    loadOlderUntil,
+    hasOlder,
+    isLoadingOlder,
+    isConnected,
+  } = useEtherealRealtime();
+  const { items: outboxItems, retry, discard } = useEtherealOutbox('ethereal_messages');
   const [input, setInput] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [pendingImage, setPendingImage] = useState<{
     blob: Blob;
     preview: string;
   } | null>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [replyTo, setReplyTo] = useState<EtherealMessage | null>(null);
+  const [editing, setEditing] = useState<EtherealMessage | null>(null);
+  const [deleting, setDeleting] = useState<EtherealMessage | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // First visible message before older ones were prepended, and how far it was scrolled past
+  const anchorRef = useRef<{ serverId: string; offset: number } | null>(null);
+
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_MESSAGE_HEIGHT,
+    getItemKey: (index) => messages[index].serverId,
+    overscan: 8,
+    paddingStart: LIST_PADDING_TOP,
+    paddingEnd: LIST_PADDING_BOTTOM,
+  });
+  const virtualItems = virtualizer.getVirtualItems();
+
+  // Outbox entry behind each unsent message
+  const outboxByLocalId = useMemo(
+    () => new Map(outboxItems.filter((item) => item.localId).map((item) => [item.localId!, item])),
+    [outboxItems]
+  );
 
   // Handle kicked/expired events
   useEffect(() => {
@@ -61,10 +136,42 @@ export default function EtherealChat() {
     };
   }, [navigate, lang]);
 
-  // Scroll to bottom on new messages
+  // Scroll to bottom on new messages (not on edits, reactions or older pages)
+  const lastMessageId = messages[messages.length - 1]?.serverId;
+  const scrolledToIdRef = useRef<string>();
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    if (!lastMessageId || lastMessageId === scrolledToIdRef.current) return;
+    scrolledToIdRef.current = lastMessageId;
+    virtualizer.scrollToIndex(messages.length - 1, { align: 'end' });
+  }, [lastMessageId, messages.length, virtualizer]);
+
+  // Keep the anchored message in place once older messages are prepended above it
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    if (!anchor) return;
+    const index = messages.findIndex((m) => m.serverId === anchor.serverId);
+    const offset = index >= 0 ? virtualizer.getOffsetForIndex(index, 'start') : undefined;
+    if (offset) {
+      anchorRef.current = null;
+      virtualizer.scrollToOffset(offset[0] + anchor.offset);
+    }
+  }, [messages, virtualizer]);
+
+  // Jump to a search result or quoted message once it is in the list
+  useEffect(() => {
+    if (!jumpTarget) return;
+    const index = messages.findIndex((m) => m.serverId === jumpTarget);
+    if (index < 0) return;
+    virtualizer.scrollToIndex(index, { align: 'center' });
+    setHighlightedId(jumpTarget);
+    setJumpTarget(null);
+  }, [jumpTarget, messages, virtualizer]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
 
   // Handler functions
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -84,16 +191,105 @@ export default function EtherealChat() {
     }
   };
 
+  const startReply = (msg: EtherealMessage) => {
+    setEditing(null);
+    setReplyTo(msg);
+  };
+
+  const startEdit = (msg: EtherealMessage) => {
+    setReplyTo(null);
+    clearPendingImage();
+    setEditing(msg);
+    setInput(msg.content);
+  };
+
+  const cancelContext = () => {
+    if (editing) setInput('');
+    setEditing(null);
+    setReplyTo(null);
+  };
+
+  const handleScroll = async () => {
+    const el = scrollRef.current;
+    if (!el || el.scrollTop > LOAD_OLDER_THRESHOLD_PX || !hasOlder || isLoadingOlder) return;
+    if (anchorRef.current) return;
+
+    const first = virtualItems.find((item) => item.end > el.scrollTop);
+    const older = first && messages[first.index];
+    if (!older) return;
+    anchorRef.current = { serverId: older.serverId, offset: el.scrollTop - first.start };
+    if (!(await loadOlder())) anchorRef.current = null;
+  };
+
+  // Messages that aren't loaded yet are paged in first (a quote can point far back)
+  const jumpToMessage = async (serverId: string) => {
+    setShowSearch(false);
+    if (messages.some((m) => m.serverId === serverId)) {
+      setJumpTarget(serverId);
+      return;
+    }
+    if (hasOlder && (await loadOlderUntil(serverId))) {
+      setJumpTarget(serverId);
+    } else {
+      toast.error(t('messageNotFound'));
+    }
+  };
+
+  const handleReact = async (msg: EtherealMessage, emoji: string) => {
+    const result = await toggleReaction(msg.serverId, emoji);
+    if (!result.success && result.error !== 'session_expired') {
+      toast.error(t('reactFailed'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const result = await deleteMessage(deleting.serverId);
+    setDeleting(null);
+    if (!result.success && result.error !== 'session_expired') {
+      toast.error(t('deleteFailed'));
+    }
+  };
+
+  const handleEditSave = async (target: EtherealMessage) => {
+    const content = input.trim();
+    if (!content && !target.imagePath) return;
+    if (content === target.content) {
+      cancelContext();
+      return;
+    }
+
+    setIsSending(true);
+    const result = await editMessage(target.serverId, content);
+    if (result.success) {
+      setEditing(null);
+      setInput('');
+    } else if (result.error !== 'session_expired') {
+      toast.error(t('editFailed'));
+    }
+    setIsSending(false);
+  };
+
   const handleSend = async () => {
-    if (!input.trim() && !pendingImage) return;
     if (isSending) return;
+    if (editing) {
+      await handleEditSave(editing);
+      return;
+    }
+    if (!input.trim() && !pendingImage) return;
 
     setIsSending(true);
     const content = input.trim();
     setInput('');
+    const quoted = replyTo ?? undefined;
+    setReplyTo(null);
+
+    // Unreachable server is fine (the message is queued); a refusal is not
+    const result = await sendMessage(content, pendingImage?.blob, quoted);
+    if (!result.success && result.error !== 'session_expired') {
+      toast.error(t('sendFailed'));
+    }
 
-    await sendMessage(content, pendingImage?.blob);
-    
     clearPendingImage();
     setIsSending(false);
   };
@@ -102,6 +298,8 @@ export default function EtherealChat() {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === 'Escape' && (replyTo || editing)) {
+      cancelContext();
     }
   };
 
@@ -115,69 +313,100 @@ export default function EtherealChat() {
 
   return (
     <div className="flex flex-col h-screen yacht-gradient">
-      <EtherealHeader title={t('bar')} subtitle={t('chat')} isConnected={isConnected} />
+      <EtherealHeader
+        title={t('bar')}
+        subtitle={t('chat')}
+        isConnected={isConnected}
+        actions={
+          <Button variant="ghost" size="icon" onClick={() => setShowSearch(true)} className="h-9 w-9">
+            <Search className="h-4 w-4" />
+          </Button>
+        }
+      />
 
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto">
         {messages.length === 0 ? (
           <div className="text-center text-muted-foreground py-12">
             <p>{t('emptyChat')}</p>
           </div>
         ) : (
-          messages.map((msg) => {
-            const isOwn = msg.senderId === session?.memberId;
-            return (
-              <div
-                key={msg.serverId}
-                className={cn('flex flex-col max-w-[80%]', isOwn ? 'ml-auto items-end' : 'items-start')}
-              >
-                {!isOwn && (
-                  <span className="text-xs text-muted-foreground mb-1">{msg.senderName}</span>
-                )}
+          // Only the visible window of messages is rendered
+          <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+            <div className="absolute inset-x-0 top-3 flex justify-center text-xs text-muted-foreground">
+              {isLoadingOlder ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                !hasOlder && <span>{t('historyStart')}</span>
+              )}
+            </div>
+
+            {virtualItems.map((item) => {
+              const msg = messages[item.index];
+              return (
                 <div
+                  key={item.key}
+                  data-index={item.index}
+                  ref={virtualizer.measureElement}
                   className={cn(
-                    'px-4 py-2 rounded-2xl',
-                    isOwn
-                      ? 'msg-outgoing rounded-br-md'
-                      : 'msg-incoming rounded-bl-md'
+                    'absolute left-0 top-0 w-full px-4 pb-3 transition-colors',
+                    highlightedId === msg.serverId && 'bg-primary/10'
                   )}
+                  style={{ transform: `translateY(${item.start}px)` }}
                 >
-                  {/* Image (if present) */}
-                  {msg.imageUrl && (
-                    <img
-                      src={msg.imageUrl}
-                      alt=""
-                      className="max-w-[200px] max-h-[200px] rounded-lg cursor-pointer mb-2"
-                      onClick={() => window.open(msg.imageUrl, '_blank')}
-                    />
-                  )}
-                  {/* Text (only if not empty) */}
-                  {msg.content && (
-                    <p className="text-sm whitespace-pre-wrap break-words">{msg.content}</p>
-                  )}
+                  <ChatMessage
+                    message={msg}
+                    isOwn={msg.senderId === session?.memberId}
+                    currentMemberId={session?.memberId}
+                    queued={outboxByLocalId.get(msg.serverId)}
+                    onReply={() => startReply(msg)}
+                    onEdit={() => startEdit(msg)}
+                    onDelete={() => setDeleting(msg)}
+                    onReact={(emoji) => handleReact(msg, emoji)}
+                    onQuoteClick={jumpToMessage}
+                    onRetry={retry}
+                    onDiscard={discard}
+                  />
                 </div>
-                <span className="text-[10px] text-muted-foreground mt-1">
-                  <span dir="ltr">{format(new Date(msg.createdAtMs), 'HH:mm')}</span>
-                </span>
-              </div>
-            );
-          })
+              );
+            })}
+          </div>
         )}
 
         {/* Typing indicator */}
         {typingMembers.length > 0 && (
-          <div className="text-xs text-muted-foreground animate-pulse">
+          <div className="px-4 text-xs text-muted-foreground animate-pulse">
             {typingMembers.length === 1
               ? t('typingOne')
               : `${typingMembers.length}${t('typingMany')}`}
           </div>
         )}
-
-        <div ref={messagesEndRef} />
       </div>
 
       {/* Input */}
       <div className="sticky bottom-16 bg-card border-t border-border p-3">
+        {/* Reply / edit context */}
+        {(replyTo || editing) && (
+          <div className="mb-2 flex items-center gap-2 border-l-2 border-primary pl-2">
+            {editing ? (
+              <Pencil className="h-4 w-4 text-primary shrink-0" />
+            ) : (
+              <Reply className="h-4 w-4 text-primary shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-primary">
+                {editing ? t('editing') : `${t('replyingTo')} ${replyTo!.senderName}`}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {(editing ?? replyTo)!.content || t('photo')}
+              </p>
+            </div>
+            <button onClick={cancelContext} className="p-1 text-muted-foreground">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
         {/* Pending image preview */}
         {pendingImage && (
           <div className="mb-2 relative inline-block">
@@ -198,19 +427,20 @@ export default function EtherealChat() {
         <div className="flex rtl:flex-row-reverse gap-2">
           <EtherealMediaButton
             onImageSelect={handleImageSelect}
-            disabled={!isConnected || isSending}
+            disabled={isSending || !!editing}
           />
           <Input
             value={input}
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
             placeholder={isConnected ? t('placeholder') : t('inPort')}
-            disabled={!isConnected || isSending}
+            maxLength={MAX_MESSAGE_LENGTH}
+            disabled={isSending}
             className="flex-1"
           />
           <Button
             onClick={handleSend}
-            disabled={(!input.trim() && !pendingImage) || !isConnected || isSending}
+            disabled={(!input.trim() && !pendingImage && !editing?.imagePath) || isSending}
             size="icon"
             className="bg-primary hover:bg-primary/90"
           >
@@ -222,6 +452,29 @@ export default function EtherealChat() {
           </Button>
         </div>
       </div>
+
+      {session && (
+        <ChatSearchSheet
+          open={showSearch}
+          onOpenChange={setShowSearch}
+          roomId={session.roomId}
+          onSelect={(msg) => jumpToMessage(msg.serverId)}
+        />
+      )}
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('deleteTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('deleteHint')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>{t('delete')}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { Navigate } from 'react-router-dom';
 import { isEtherealSessionValid } from '@/lib/etherealTokenService';
 import { EtherealHeader } from '@/components/ethereal/EtherealHeader';
@@ -8,6 +8,9 @@ import { ChronicleView } from '@/components/ethereal/ChronicleView';
 import { ChronicleEditor } from '@/components/ethereal/ChronicleEditor';
 import { useEtherealChronicles } from '@/hooks/useEtherealChronicles';
 import { EtherealChronicle } from '@/lib/etherealDb';
+import type { EtherealChronicleRevision } from '@/hooks/useEtherealChronicles';
+import { useEtherealOutbox } from '@/hooks/useEtherealOutbox';
+import { OUTBOX_SYNCED_EVENT, type OutboxSyncedDetail } from '@/lib/etherealOutbox';
 import { toast } from 'sonner';
 import { useI18n, getBaseLanguage } from '@/lib/i18n';
 
@@ -23,6 +26,8 @@ const texts = {
   lockFailed: { ru: 'Не удалось взять запись в редактирование', en: 'Failed to lock entry for editing' },
   lockedBy: { ru: 'уже редактирует эту запись', en: 'is already editing this entry' },
   someone: { ru: 'Кто-то', en: 'Someone' },
+  restored: { ru: 'Версия восстановлена', en: 'Version restored' },
+  restoreFailed: { ru: 'Не удалось восстановить версию', en: 'Failed to restore version' },
 } as const;
 
 type ViewMode = 'list' | 'view' | 'edit' | 'create';
@@ -30,11 +35,7 @@ type ViewMode = 'list' | 'view' | 'edit' | 'create';
 export default function EtherealChronicles() {
   const { language } = useI18n();
   const lang = getBaseLanguage(language);
-  const t = (key: keyof typeof texts) => texts[key][lang];
-
-  if (!isEtherealSessionValid()) {
-    return <Navigate to="/e/home" replace />;
-  }
+  const t = useCallback((key: keyof typeof texts) => texts[key][lang], [lang]);
 
   const {
     chronicles,
@@ -46,7 +47,9 @@ export default function EtherealChronicles() {
     lockChronicle,
     unlockChronicle,
     getChronicle,
+    getRevisions,
   } = useEtherealChronicles();
+  const outbox = useEtherealOutbox('ethereal_chronicles');
 
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [selectedChronicle, setSelectedChronicle] = useState<EtherealChronicle | null>(null);
@@ -55,6 +58,22 @@ export default function EtherealChronicles() {
     lockedByName?: string;
   }>({ isLocked: false });
 
+  // An entry created offline gets its server id once the outbox replays it
+  useEffect(() => {
+    const handleSynced = (e: Event) => {
+      const { item, record } = (e as CustomEvent<OutboxSyncedDetail>).detail;
+      if (item.fn !== 'ethereal_chronicles' || !record) return;
+      setSelectedChronicle((prev) =>
+        prev && (prev.serverId === item.localId || prev.serverId === record.serverId)
+          ? (record as EtherealChronicle)
+          : prev
+      );
+    };
+
+    window.addEventListener(OUTBOX_SYNCED_EVENT, handleSynced);
+    return () => window.removeEventListener(OUTBOX_SYNCED_EVENT, handleSynced);
+  }, []);
+
   const handleSelect = useCallback(async (chronicle: EtherealChronicle) => {
     // Fetch fresh data
     const fresh = await getChronicle(chronicle.serverId);
@@ -85,7 +104,7 @@ export default function EtherealChronicles() {
     }
 
     setViewMode('edit');
-  }, [selectedChronicle, lockChronicle, lang]);
+  }, [selectedChronicle, lockChronicle, t]);
 
   const handleBack = useCallback(async () => {
     // If editing, release lock
@@ -124,14 +143,50 @@ export default function EtherealChronicles() {
         toast.error(t('saveFailed'));
       }
     }
-  }, [viewMode, selectedChronicle, createChronicle, updateChronicle, lang]);
+  }, [viewMode, selectedChronicle, createChronicle, updateChronicle, t]);
 
   const handleTogglePin = useCallback(async () => {
     if (!selectedChronicle) return;
     const newPinned = await togglePin(selectedChronicle.serverId);
     setSelectedChronicle({ ...selectedChronicle, pinned: newPinned });
     toast.success(newPinned ? t('pinned') : t('unpinned'));
-  }, [selectedChronicle, togglePin, lang]);
+  }, [selectedChronicle, togglePin, t]);
+
+  // Keyed on the id alone: the history sheet reloads whenever this function changes
+  const selectedServerId = selectedChronicle?.serverId;
+  const loadRevisions = useCallback(async () => {
+    if (!selectedServerId) return null;
+    return getRevisions(selectedServerId);
+  }, [selectedServerId, getRevisions]);
+
+  // Restoring is an ordinary edit: take the lock first, the save releases it
+  const handleRestore = useCallback(async (revision: EtherealChronicleRevision): Promise<boolean> => {
+    if (!selectedChronicle) return false;
+
+    const lock = await lockChronicle(selectedChronicle.serverId);
+    if (!lock) {
+      toast.error(t('lockFailed'));
+      return false;
+    }
+    if (!lock.locked) {
+      toast.warning(`${lock.lockedByName || t('someone')} ${t('lockedBy')}`);
+      return false;
+    }
+
+    const updated = await updateChronicle(selectedChronicle.serverId, {
+      title: revision.title,
+      content: revision.content,
+    });
+    if (!updated) {
+      await unlockChronicle(selectedChronicle.serverId);
+      toast.error(t('restoreFailed'));
+      return false;
+    }
+
+    setSelectedChronicle(updated);
+    toast.success(t('restored'));
+    return true;
+  }, [selectedChronicle, lockChronicle, updateChronicle, unlockChronicle, t]);
 
   const handleLockRefresh = useCallback(async (): Promise<boolean> => {
     if (!selectedChronicle) return false;
@@ -145,6 +200,10 @@ export default function EtherealChronicles() {
     return true;
   }, [selectedChronicle, lockChronicle]);
 
+  if (!isEtherealSessionValid()) {
+    return <Navigate to="/e/home" replace />;
+  }
+
   return (
     <div className="flex flex-col min-h-screen yacht-gradient">
       {viewMode === 'list' && (
@@ -159,6 +218,9 @@ export default function EtherealChronicles() {
             onSelect={handleSelect}
             onCreate={handleCreate}
             onRefresh={refresh}
+            outboxItems={outbox.items}
+            onRetryOutbox={outbox.retry}
+            onDiscardOutbox={outbox.discard}
           />
         )}
 
@@ -168,6 +230,8 @@ export default function EtherealChronicles() {
             onBack={handleBack}
             onEdit={handleEdit}
             onTogglePin={handleTogglePin}
+            loadRevisions={loadRevisions}
+            onRestore={handleRestore}
           />
         )}
 
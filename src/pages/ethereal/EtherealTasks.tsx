@@ -4,6 +4,7 @@ import { EtherealHeader } from '@/components/ethereal/EtherealHeader';
 import { EtherealBottomTabs } from '@/components/ethereal/EtherealBottomTabs';
 import { TasksList } from '@/components/ethereal/TasksList';
 import { useEtherealTasks } from '@/hooks/useEtherealTasks';
+import { useEtherealOutbox } from '@/hooks/useEtherealOutbox';
 import { useState, useEffect } from 'react';
 import { useI18n, getBaseLanguage } from '@/lib/i18n';
 
@@ -30,6 +31,7 @@ export default function EtherealTasks() {
     toggleTask,
     deleteTask,
   } = useEtherealTasks();
+  const outbox = useEtherealOutbox('ethereal_tasks');
 
   // Load members for assignee selection
   useEffect(() => {
@@ -77,6 +79,9 @@ export default function EtherealTasks() {
           onDelete={deleteTask}
           members={members}
           currentMemberId={session?.memberId}
+          outboxItems={outbox.items}
+          onRetryOutbox={outbox.retry}
+          onDiscardOutbox={outbox.discard}
         />
       </div>
 
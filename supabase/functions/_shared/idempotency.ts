@@ -0,0 +1,152 @@
+/**
+ * Idempotent replays for Ethereal mutations (client outbox).
+ *
+ * A mutating request may carry x-idempotency-key. The key is reserved first by inserting a
+ * pending row into ethereal_idempotency_keys (ON CONFLICT DO NOTHING): only the request that
+ * inserted it runs the mutation, then stores its response on the row. A retry with the same
+ * key gets the stored response; one that arrives while the first is still running is told
+ * to come back later. Failed runs release the key so the retry can apply the change.
+ */
+
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Stored responses are kept this long; outbox items older than that are not expected
+const IDEMPOTENCY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A reservation without a response after this long belongs to a run that died midway
+const PENDING_TIMEOUT_MS = 60 * 1000;
+
+export interface IdempotencyOptions {
+  corsHeaders: Record<string, string>;
+  /** Prefix for log lines, e.g. "[ethereal_tasks]" */
+  logTag: string;
+  /** Refresh a stored response body before it is sent again, e.g. re-sign expired URLs */
+  replay?: (body: unknown) => Promise<unknown>;
+}
+
+function jsonResponse(body: unknown, status: number, corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** Insert the pending row; true when this request owns the key. */
+async function reserveKey(
+  supabase: SupabaseClient,
+  roomId: string,
+  key: string,
+  memberId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("ethereal_idempotency_keys")
+    .upsert(
+      { room_id: roomId, key, member_id: memberId },
+      { onConflict: "room_id,key", ignoreDuplicates: true }
+    )
+    .select("key");
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+/** Drop a pending reservation; with reservedBefore, only one made before that time. */
+async function releaseKey(
+  supabase: SupabaseClient,
+  roomId: string,
+  key: string,
+  reservedBefore?: string
+): Promise<void> {
+  let query = supabase
+    .from("ethereal_idempotency_keys")
+    .delete()
+    .eq("room_id", roomId)
+    .eq("key", key)
+    .is("status", null);
+  if (reservedBefore) query = query.lt("created_at", reservedBefore);
+  const { error } = await query;
+  if (error) throw error;
+}
+
+/**
+ * Run a mutation once per room and key. Requests without a key (and GETs) run as is.
+ */
+export async function withIdempotency(
+  req: Request,
+  supabase: SupabaseClient,
+  roomId: string,
+  memberId: string,
+  handle: () => Promise<Response>,
+  options: IdempotencyOptions
+): Promise<Response> {
+  const { corsHeaders, logTag } = options;
+  const key = req.method === "GET" ? null : req.headers.get("x-idempotency-key");
+  if (!key) return handle();
+
+  try {
+    if (!(await reserveKey(supabase, roomId, key, memberId))) {
+      const { data: stored, error } = await supabase
+        .from("ethereal_idempotency_keys")
+        .select("member_id, status, response, created_at")
+        .eq("room_id", roomId)
+        .eq("key", key)
+        .maybeSingle();
+      if (error) throw error;
+
+      if (stored && stored.member_id !== memberId) {
+        return jsonResponse({ error: "idempotency_key_conflict" }, 409, corsHeaders);
+      }
+
+      if (stored && stored.status !== null) {
+        console.log(`${logTag} Replayed idempotent request:`, key);
+        const body = options.replay ? await options.replay(stored.response) : stored.response;
+        return jsonResponse(body, stored.status, corsHeaders);
+      }
+
+      // Still pending: wait for the first run, unless it was abandoned
+      const cutoff = new Date(Date.now() - PENDING_TIMEOUT_MS).toISOString();
+      const abandoned = stored && Date.parse(stored.created_at) < Date.parse(cutoff);
+      if (abandoned) await releaseKey(supabase, roomId, key, cutoff);
+      if (!abandoned || !(await reserveKey(supabase, roomId, key, memberId))) {
+        return jsonResponse({ error: "idempotency_key_in_progress" }, 503, {
+          ...corsHeaders,
+          "Retry-After": "1",
+        });
+      }
+    }
+  } catch (error) {
+    // Running unguarded could apply the change twice; the outbox retries server errors
+    console.error(`${logTag} Idempotency key unavailable:`, error);
+    return jsonResponse({ error: "idempotency_unavailable" }, 503, corsHeaders);
+  }
+
+  let stored = false;
+  try {
+    const response = await handle();
+    const body = response.ok ? await response.clone().json().catch(() => null) : null;
+    if (body !== null) {
+      const { error } = await supabase
+        .from("ethereal_idempotency_keys")
+        .update({ status: response.status, response: body })
+        .eq("room_id", roomId)
+        .eq("key", key);
+      if (error) console.error(`${logTag} Failed to store idempotency key:`, error);
+      stored = !error;
+
+      await supabase
+        .from("ethereal_idempotency_keys")
+        .delete()
+        .eq("room_id", roomId)
+        .lt("created_at", new Date(Date.now() - IDEMPOTENCY_TTL_MS).toISOString());
+    }
+    return response;
+  } finally {
+    // Nothing stored (failure or exception): let the retry run the mutation again
+    if (!stored) {
+      await releaseKey(supabase, roomId, key).catch((error) => {
+        console.error(`${logTag} Failed to release idempotency key:`, error);
+      });
+    }
+  }
+}
@@ -383,6 +383,8 @@ serve(async (req) => {
       max_tokens: maxTokensValidation.value,
       temperature: temperatureValidation.value,
       stream: true,
+      // Final chunk carries token counts for the client's usage ledger
+      stream_options: { include_usage: true },
     };
 
     const response = await fetch(providerConfig.apiUrl, {
@@ -0,0 +1,113 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+// CORS configuration - allow known origins (matches ai-chat)
+const ALLOWED_ORIGINS = [
+  "https://local-heart-diary.lovable.app",
+  "https://daybookai.lovable.app",
+  "http://localhost:5173",
+  "http://localhost:8080",
+  "http://127.0.0.1:5173",
+];
+const LOVABLE_PREVIEW_PATTERN = /^https:\/\/[a-z0-9-]+\.lovable\.app$/;
+const LOVABLE_PROJECT_PATTERN = /^https:\/\/[a-z0-9-]+\.lovableproject\.com$/;
+
+function isAllowedOrigin(origin: string | null): boolean {
+  if (!origin) return true;
+  if (ALLOWED_ORIGINS.includes(origin)) return true;
+  if (LOVABLE_PREVIEW_PATTERN.test(origin)) return true;
+  if (LOVABLE_PROJECT_PATTERN.test(origin)) return true;
+  return false;
+}
+
+function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigin = origin && isAllowedOrigin(origin) ? origin : ALLOWED_ORIGINS[0];
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-provider-key, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Vary": "Origin",
+  };
+}
+
+
+// Limits mirror the client: chunks of up to 500 chars, batches of up to 32
+const MAX_TEXTS = 32;
+const MAX_TEXT_CHARS = 2000;
+const EMBEDDING_MODEL = 'openai/text-embedding-3-small';
+
+function jsonResponse(body: unknown, status: number, corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  const requestId = crypto.randomUUID().slice(0, 8);
+  const origin = req.headers.get("Origin");
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { texts } = await req.json();
+
+    if (
+      !Array.isArray(texts) ||
+      texts.length === 0 ||
+      texts.length > MAX_TEXTS ||
+      !texts.every((text) => typeof text === 'string' && text.trim().length > 0 && text.length <= MAX_TEXT_CHARS)
+    ) {
+      return jsonResponse({ error: 'Invalid texts' }, 400, corsHeaders);
+    }
+
+    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+    if (!LOVABLE_API_KEY) {
+      throw new Error('LOVABLE_API_KEY is not configured');
+    }
+
+    const response = await fetch('https://ai.gateway.lovable.dev/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: EMBEDDING_MODEL, input: texts }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[${requestId}] AI Gateway error:`, response.status, errorText);
+
+      if (response.status === 429) {
+        return jsonResponse({ error: 'Rate limited' }, 429, corsHeaders);
+      }
+
+      throw new Error(`AI Gateway error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    // The gateway may return items out of order; "index" ties them back to the input
+    const items = [...(data.data ?? [])].sort((a, b) => a.index - b.index);
+    const embeddings = items.map((item: { embedding: number[] }) => item.embedding);
+
+    if (embeddings.length !== texts.length) {
+      throw new Error('Embedding count mismatch');
+    }
+
+    // Text is never logged, only sizes
+    console.log(`[${requestId}] Embedded ${texts.length} texts`);
+
+    return jsonResponse({ embeddings }, 200, corsHeaders);
+  } catch (error) {
+    console.error(`[${requestId}] Embed error:`, error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      500,
+      corsHeaders
+    );
+  }
+});
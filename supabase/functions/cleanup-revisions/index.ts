@@ -3,6 +3,8 @@
  * 
  * Automatically deletes chronicle revisions older than 30 days
  * while preserving the 3 most recent revisions per chronicle.
+ * Also purges diary sync tombstones (soft-deleted entries/attachments)
+ * older than TOMBSTONE_RETENTION_DAYS, including their stored media.
  * 
  * Triggered via cron job (daily at 03:00 UTC)
  * Authorization: Bearer CRON_SECRET
@@ -10,6 +12,46 @@
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1';
 
+// Must match TOMBSTONE_RETENTION_DAYS in src/lib/syncService.ts
+const TOMBSTONE_RETENTION_DAYS = 90;
+
+// Tombstone ids per request
+const PURGE_BATCH_SIZE = 200;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface AttachmentTombstone {
+  id: string;
+  storage_path: string | null;
+  thumbnail_path: string | null;
+}
+
+/** Remove attachment rows and their media in batches; returns how many rows were deleted. */
+async function purgeAttachments(supabase: SupabaseClient, attachments: AttachmentTombstone[]): Promise<number> {
+  let purged = 0;
+  for (let i = 0; i < attachments.length; i += PURGE_BATCH_SIZE) {
+    const batch = attachments.slice(i, i + PURGE_BATCH_SIZE);
+    const mediaPaths = batch
+      .flatMap(a => [a.storage_path, a.thumbnail_path])
+      .filter((path): path is string => Boolean(path));
+
+    if (mediaPaths.length > 0) {
+      const { error: storageError } = await supabase.storage.from('diary-media').remove(mediaPaths);
+      if (storageError) {
+        console.error(`[cleanup-revisions] Error removing diary media:`, storageError);
+      }
+    }
+
+    const { error } = await supabase.from('diary_attachments').delete().in('id', batch.map(a => a.id));
+    if (error) {
+      console.error(`[cleanup-revisions] Error purging attachment tombstones:`, error);
+      continue;
+    }
+    purged += batch.length;
+  }
+  return purged;
+}
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -112,6 +154,76 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Step 3: Purge diary tombstones past retention. Devices that synced within the
+    // window have applied the deletion; older devices do a full fetch and drop missing rows.
+    const tombstoneCutoff = new Date();
+    tombstoneCutoff.setDate(tombstoneCutoff.getDate() - TOMBSTONE_RETENTION_DAYS);
+    const tombstoneCutoffISO = tombstoneCutoff.toISOString();
+
+    // Ids go in batches: one in(...) list with every expired tombstone can exceed URL limits.
+    // Attachments of purged entries go with them (FK cascade), so their media is removed first.
+    let purgedEntryCount = 0;
+    let purgedAttachmentCount = 0;
+    while (true) {
+      const { data: deletedEntries, error: deletedEntriesError } = await supabase
+        .from('diary_entries')
+        .select('id')
+        .lt('deleted_at', tombstoneCutoffISO)
+        .order('id')
+        .limit(PURGE_BATCH_SIZE);
+
+      if (deletedEntriesError) {
+        console.error(`[cleanup-revisions] Error fetching diary tombstones:`, deletedEntriesError);
+        throw deletedEntriesError;
+      }
+
+      const entryIds = (deletedEntries || []).map(e => e.id);
+      if (entryIds.length === 0) break;
+
+      const { data: entryAttachments, error: attachmentsError } = await supabase
+        .from('diary_attachments')
+        .select('id, storage_path, thumbnail_path')
+        .in('entry_id', entryIds);
+
+      if (attachmentsError) {
+        console.error(`[cleanup-revisions] Error fetching attachment tombstones:`, attachmentsError);
+        throw attachmentsError;
+      }
+
+      purgedAttachmentCount += await purgeAttachments(supabase, entryAttachments || []);
+
+      const { error } = await supabase.from('diary_entries').delete().in('id', entryIds);
+      if (error) {
+        // Stop here: the same batch would come back on the next pass
+        console.error(`[cleanup-revisions] Error purging entry tombstones:`, error);
+        break;
+      }
+      purgedEntryCount += entryIds.length;
+      if (entryIds.length < PURGE_BATCH_SIZE) break;
+    }
+
+    // Attachments deleted on their own, while the entry stayed
+    while (true) {
+      const { data: attachments, error: attachmentsError } = await supabase
+        .from('diary_attachments')
+        .select('id, storage_path, thumbnail_path')
+        .lt('deleted_at', tombstoneCutoffISO)
+        .order('id')
+        .limit(PURGE_BATCH_SIZE);
+
+      if (attachmentsError) {
+        console.error(`[cleanup-revisions] Error fetching attachment tombstones:`, attachmentsError);
+        throw attachmentsError;
+      }
+
+      const batch = attachments || [];
+      const purged = await purgeAttachments(supabase, batch);
+      purgedAttachmentCount += purged;
+      if (batch.length < PURGE_BATCH_SIZE || purged < batch.length) break;
+    }
+
+    console.log(`[cleanup-revisions] Purged ${purgedEntryCount} entry and ${purgedAttachmentCount} attachment tombstones`);
+
     console.log(`[cleanup-revisions] Completed. Total deleted: ${totalDeleted}`);
 
     return new Response(
@@ -120,6 +232,7 @@ Deno.serve(async (req) => {
         deleted: totalDeleted,
         cutoff: cutoffISO,
         chroniclesProcessed: uniqueChronicleIds.length,
+        tombstonesPurged: { entries: purgedEntryCount, attachments: purgedAttachmentCount },
         requestId,
       }),
       {
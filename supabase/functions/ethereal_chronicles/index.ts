@@ -21,7 +21,8 @@
  *
  * ADDITIONAL FEATURES:
  * - Collaborative editing with lock mechanism (editing_by, editing_expires_at)
- * - Revision history for audit trail (ethereal_chronicle_revisions table)
+ * - Revision history for audit trail (ethereal_chronicle_revisions table),
+ *   readable via GET /:id/revisions. Restoring a revision is a regular locked PUT.
  * - Media attachments with signed URLs (30-min TTL)
  * - Pin support for important chronicles
  *
@@ -33,10 +34,11 @@
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.4';
+import { withIdempotency } from '../_shared/idempotency.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-ethereal-token',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-ethereal-token, x-idempotency-key',
 };
 
 interface TokenPayload {
@@ -62,6 +64,18 @@ interface ChronicleRow {
   updated_at: string;
 }
 
+interface RevisionRow {
+  id: string;
+  chronicle_id: string;
+  editor_id: string;
+  title_snapshot: string;
+  content_snapshot: string;
+  created_at: string;
+}
+
+// Revisions returned per request; older ones are not listed
+const REVISIONS_LIMIT = 50;
+
 interface MemberRow {
   id: string;
   display_name: string;
@@ -225,7 +239,7 @@ async function generateSignedUrls(
   return result;
 }
 
-Deno.serve(async (req) => {
+async function handleRequest(req: Request): Promise<Response> {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
   }
@@ -478,6 +492,64 @@ Deno.serve(async (req) => {
       });
     }
 
+    // ========== GET /:id/revisions — Revision history ==========
+    if (req.method === 'GET' && chronicleId && action === 'revisions') {
+      const { data: chronicle, error: fetchError } = await supabase
+        .from('ethereal_chronicles')
+        .select('id, author_id, created_at')
+        .eq('id', chronicleId)
+        .eq('room_id', payload.roomId)
+        .maybeSingle();
+
+      if (fetchError || !chronicle) {
+        return new Response(JSON.stringify({ error: 'Chronicle not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // One extra row tells who wrote the oldest listed snapshot
+      const { data: rows, error } = await supabase
+        .from('ethereal_chronicle_revisions')
+        .select('*')
+        .eq('chronicle_id', chronicleId)
+        .order('created_at', { ascending: false })
+        .limit(REVISIONS_LIMIT + 1);
+
+      if (error) {
+        console.error('[ethereal_chronicles] Revisions error:', error);
+        return new Response(JSON.stringify({ error: 'Failed to fetch revisions' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const revisions = (rows || []) as RevisionRow[];
+      const namesMap = await getMemberNames(supabase, [chronicle.author_id, ...revisions.map((r) => r.editor_id)]);
+
+      // A row snapshots the state that editor_id replaced. That state was written by the
+      // previous row's editor, or by the author when it is the first revision.
+      const formatted = revisions.slice(0, REVISIONS_LIMIT).map((r, i) => {
+        const previous = revisions[i + 1];
+        const authorId = previous ? previous.editor_id : chronicle.author_id;
+        return {
+          id: r.id,
+          title: r.title_snapshot,
+          content: r.content_snapshot,
+          authorId,
+          authorName: namesMap.get(authorId) || 'Unknown',
+          savedAtMs: new Date(previous ? previous.created_at : chronicle.created_at).getTime(),
+          replacedById: r.editor_id,
+          replacedByName: namesMap.get(r.editor_id) || 'Unknown',
+          replacedAtMs: new Date(r.created_at).getTime(),
+        };
+      });
+
+      return new Response(JSON.stringify({ revisions: formatted }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // ========== POST /:id/pin — Toggle pin ==========
     if (req.method === 'POST' && chronicleId && action === 'pin') {
       const { data: current, error: fetchError } = await supabase
@@ -627,4 +699,23 @@ Deno.serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
+}
+
+Deno.serve(async (req) => {
+  const token = req.headers.get('x-ethereal-token');
+  const payload = token && req.headers.get('x-idempotency-key') ? await verifyToken(token) : null;
+  if (!payload) return handleRequest(req);
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  // Revoked sessions fall through to handleRequest, which rejects them
+  if (!(await validateSession(supabase, payload))) return handleRequest(req);
+
+  return withIdempotency(req, supabase, payload.roomId, payload.memberId, () => handleRequest(req), {
+    corsHeaders,
+    logTag: '[ethereal_chronicles]',
+  });
 });
@@ -0,0 +1,448 @@
+/**
+ * ETHEREAL LAYER SECURITY MODEL - Calendar Events Module
+ * =======================================================
+ *
+ * ARCHITECTURE: "Full Isolation" (Deny All Direct Access)
+ *
+ * This function manages the shared calendar of an Ethereal room.
+ * It follows the same security model as all Ethereal functions:
+ *
+ * SECURITY LAYERS:
+ * 1. DATABASE RLS: ethereal_calendar_events has RESTRICTIVE policy USING(false)
+ *    blocking 100% of direct client queries.
+ *
+ * 2. EDGE FUNCTION PROXY: All CRUD operations are proxied through this function
+ *    using service_role which bypasses RLS by design.
+ *
+ * 3. HMAC TOKEN VALIDATION: x-ethereal-token header required with signed payload.
+ *
+ * 4. SESSION REVOCATION: validateSession() checks ethereal_sessions table to ensure
+ *    the session hasn't been revoked (kicked by room owner).
+ *
+ * EVENT FEATURES:
+ * - Timed or all-day events, optional end
+ * - Recurrence: 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly', optional end date.
+ *   A recurring row is the whole series; clients expand occurrences and edits apply to the series.
+ *
+ * ROUTES:
+ * - GET    /ethereal_events?from=ISO&to=ISO   (range optional; recurring series always included if not ended)
+ * - POST   /ethereal_events
+ * - PUT    /ethereal_events/:id
+ * - DELETE /ethereal_events/:id
+ *
+ * @see supabase/functions/ethereal_tasks/index.ts - Same structure
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-ethereal-token',
+};
+
+const RECURRENCES = ['none', 'daily', 'weekly', 'monthly', 'yearly'];
+
+const EVENT_SELECT = `
+  id,
+  room_id,
+  creator_id,
+  title,
+  description,
+  start_at,
+  end_at,
+  all_day,
+  recurrence,
+  recurrence_until,
+  created_at,
+  updated_at,
+  creator:ethereal_room_members!ethereal_calendar_events_creator_id_fkey(display_name)
+`;
+
+// ============ Token Verification (same pattern as other ethereal functions) ============
+
+interface TokenPayload {
+  sessionId: string;
+  memberId: string;
+  roomId: string;
+  exp: number;
+}
+
+async function verifyToken(token: string): Promise<TokenPayload | null> {
+  const secret = Deno.env.get('ETHEREAL_TOKEN_SECRET');
+  if (!secret) {
+    console.error('[ethereal_events] ETHEREAL_TOKEN_SECRET not set');
+    return null;
+  }
+
+  try {
+    const [payloadB64, signatureB64] = token.split('.');
+    if (!payloadB64 || !signatureB64) return null;
+
+    // Decode payload
+    const payloadJson = atob(payloadB64);
+    const payload = JSON.parse(payloadJson) as TokenPayload;
+
+    // Check expiration
+    if (payload.exp < Date.now()) {
+      console.log('[ethereal_events] Token expired');
+      return null;
+    }
+
+    // Verify signature using Web Crypto API
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+
+    const expectedSignature = await crypto.subtle.sign(
+      'HMAC',
+      key,
+      encoder.encode(payloadB64)
+    );
+
+    const expectedB64 = btoa(String.fromCharCode(...new Uint8Array(expectedSignature)));
+
+    if (signatureB64 !== expectedB64) {
+      console.log('[ethereal_events] Signature mismatch');
+      return null;
+    }
+
+    return payload;
+  } catch (e) {
+    console.error('[ethereal_events] Token verification failed:', e);
+    return null;
+  }
+}
+
+// Validate session exists in database (for kick support)
+async function validateSession(
+  supabase: ReturnType<typeof createClient>,
+  payload: TokenPayload
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('ethereal_sessions')
+    .select('id, expires_at')
+    .eq('id', payload.sessionId)
+    .eq('room_id', payload.roomId)
+    .eq('member_id', payload.memberId)
+    .maybeSingle();
+
+  if (error || !data) {
+    console.log('[ethereal_events] Session not found or revoked');
+    return false;
+  }
+
+  if (new Date(data.expires_at as string) < new Date()) {
+    console.log('[ethereal_events] Session expired in DB');
+    return false;
+  }
+
+  return true;
+}
+
+// ============ Helpers ============
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function toMs(value: string | null | undefined): number | null {
+  return value ? new Date(value).getTime() : null;
+}
+
+// Parse an optional ISO timestamp from the body; undefined = not sent, null = cleared
+function parseTimestamp(value: unknown): string | null | undefined | false {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  if (typeof value !== 'string') return false;
+  const ms = new Date(value).getTime();
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : false;
+}
+
+interface EventRow {
+  id: string;
+  room_id: string;
+  creator_id: string;
+  title: string;
+  description: string | null;
+  start_at: string;
+  end_at: string | null;
+  all_day: boolean;
+  recurrence: string;
+  recurrence_until: string | null;
+  created_at: string;
+  updated_at: string;
+  creator: { display_name: string }[] | { display_name: string } | null;
+}
+
+type EventFields = Partial<Pick<
+  EventRow,
+  'title' | 'description' | 'start_at' | 'end_at' | 'all_day' | 'recurrence' | 'recurrence_until'
+>>;
+
+function toClientEvent(e: EventRow) {
+  const creator = Array.isArray(e.creator) ? e.creator[0] : e.creator;
+
+  return {
+    serverId: e.id,
+    roomId: e.room_id,
+    creatorId: e.creator_id,
+    creatorName: creator?.display_name || 'Unknown',
+    title: e.title,
+    description: e.description,
+    startAtMs: toMs(e.start_at),
+    endAtMs: toMs(e.end_at),
+    allDay: !!e.all_day,
+    recurrence: e.recurrence || 'none',
+    recurrenceUntilMs: toMs(e.recurrence_until),
+    createdAtMs: toMs(e.created_at),
+    updatedAtMs: toMs(e.updated_at),
+  };
+}
+
+// Validate the fields shared by create and update; returns an error message or the column values
+function readEventFields(body: Record<string, unknown>): { error: string } | { fields: EventFields } {
+  const fields: EventFields = {};
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string' || !body.title.trim()) return { error: 'Title required' };
+    fields.title = body.title.trim().slice(0, 200);
+  }
+  if (body.description !== undefined) {
+    fields.description = typeof body.description === 'string' && body.description.trim()
+      ? body.description.trim().slice(0, 2000)
+      : null;
+  }
+
+  const startAt = parseTimestamp(body.startAt);
+  const endAt = parseTimestamp(body.endAt);
+  const until = parseTimestamp(body.recurrenceUntil);
+  if (startAt === false || startAt === null) return { error: 'Invalid start' };
+  if (endAt === false) return { error: 'Invalid end' };
+  if (until === false) return { error: 'Invalid recurrence end' };
+  if (startAt !== undefined) fields.start_at = startAt;
+  if (endAt !== undefined) fields.end_at = endAt;
+  if (until !== undefined) fields.recurrence_until = until;
+
+  if (body.allDay !== undefined) fields.all_day = body.allDay === true;
+  if (body.recurrence !== undefined) {
+    if (typeof body.recurrence !== 'string' || !RECURRENCES.includes(body.recurrence)) {
+      return { error: 'Invalid recurrence' };
+    }
+    fields.recurrence = body.recurrence;
+  }
+
+  return { fields };
+}
+
+// End and series end must not come before the start (checked on the merged row)
+function checkOrder(row: EventFields): string | null {
+  const start = new Date(row.start_at ?? 0).getTime();
+  if (row.end_at && new Date(row.end_at).getTime() < start) return 'End before start';
+  if (row.recurrence_until && new Date(row.recurrence_until).getTime() < start) return 'Recurrence ends before start';
+  return null;
+}
+
+// ============ Main Handler ============
+
+Deno.serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const token = req.headers.get('x-ethereal-token');
+  if (!token) {
+    return json({ error: 'Missing token' }, 401);
+  }
+
+  const payload = await verifyToken(token);
+  if (!payload) {
+    return json({ error: 'Invalid token' }, 401);
+  }
+
+  // Create Supabase client with service role
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  // Validate session exists in database (for kick/revoke support)
+  const sessionValid = await validateSession(supabase, payload);
+  if (!sessionValid) {
+    return json({ error: 'Session revoked' }, 401);
+  }
+
+  const { roomId, memberId } = payload;
+
+  // Parse URL for routing
+  const url = new URL(req.url);
+  const pathParts = url.pathname.split('/').filter(Boolean);
+  // pathParts: ['ethereal_events'] or ['ethereal_events', 'uuid']
+  const eventId = pathParts[1];
+
+  try {
+    // ============ GET /ethereal_events ============
+    if (req.method === 'GET' && !eventId) {
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '500'), 1000);
+      const from = parseTimestamp(url.searchParams.get('from') ?? undefined);
+      const to = parseTimestamp(url.searchParams.get('to') ?? undefined);
+      if (from === false || to === false) {
+        return json({ error: 'Invalid range' }, 400);
+      }
+
+      let query = supabase
+        .from('ethereal_calendar_events')
+        .select(EVENT_SELECT)
+        .eq('room_id', roomId)
+        .order('start_at', { ascending: true })
+        .limit(limit);
+
+      if (to) query = query.lte('start_at', to);
+      if (from) {
+        // One-off events that touch the range, or series that have not ended before it
+        query = query.or(
+          `start_at.gte.${from},end_at.gte.${from},and(recurrence.neq.none,recurrence_until.is.null),and(recurrence.neq.none,recurrence_until.gte.${from})`
+        );
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('[ethereal_events] GET error:', error);
+        return json({ error: error.message }, 500);
+      }
+
+      return json({ success: true, events: (data || []).map(toClientEvent) });
+    }
+
+    // ============ POST /ethereal_events (create) ============
+    if (req.method === 'POST' && !eventId) {
+      const body = await req.json();
+      if (typeof body.title !== 'string' || !body.title.trim()) {
+        return json({ error: 'Title required' }, 400);
+      }
+      if (!body.startAt) {
+        return json({ error: 'Start required' }, 400);
+      }
+
+      const parsed = readEventFields(body);
+      if ('error' in parsed) {
+        return json({ error: parsed.error }, 400);
+      }
+
+      const insertData = {
+        recurrence: 'none',
+        all_day: false,
+        ...parsed.fields,
+        room_id: roomId,
+        creator_id: memberId,
+      };
+
+      const orderError = checkOrder(insertData);
+      if (orderError) {
+        return json({ error: orderError }, 400);
+      }
+
+      const { data, error } = await supabase
+        .from('ethereal_calendar_events')
+        .insert(insertData)
+        .select(EVENT_SELECT)
+        .single();
+
+      if (error) {
+        console.error('[ethereal_events] POST error:', error);
+        return json({ error: error.message }, 500);
+      }
+
+      const event = toClientEvent(data);
+      console.log('[ethereal_events] Created:', event.serverId);
+      return json({ success: true, event });
+    }
+
+    // ============ PUT /ethereal_events/:id (update) ============
+    if (req.method === 'PUT' && eventId) {
+      const body = await req.json();
+
+      // Verify event belongs to room
+      const { data: existing } = await supabase
+        .from('ethereal_calendar_events')
+        .select('id, start_at, end_at, recurrence_until')
+        .eq('id', eventId)
+        .eq('room_id', roomId)
+        .maybeSingle();
+
+      if (!existing) {
+        return json({ error: 'Event not found' }, 404);
+      }
+
+      const parsed = readEventFields(body);
+      if ('error' in parsed) {
+        return json({ error: parsed.error }, 400);
+      }
+
+      const orderError = checkOrder({ ...existing, ...parsed.fields });
+      if (orderError) {
+        return json({ error: orderError }, 400);
+      }
+
+      const { data, error } = await supabase
+        .from('ethereal_calendar_events')
+        .update({ ...parsed.fields, updated_at: new Date().toISOString() })
+        .eq('id', eventId)
+        .select(EVENT_SELECT)
+        .single();
+
+      if (error) {
+        console.error('[ethereal_events] PUT error:', error);
+        return json({ error: error.message }, 500);
+      }
+
+      const event = toClientEvent(data);
+      console.log('[ethereal_events] Updated:', event.serverId);
+      return json({ success: true, event });
+    }
+
+    // ============ DELETE /ethereal_events/:id ============
+    if (req.method === 'DELETE' && eventId) {
+      // Verify event belongs to room
+      const { data: existing } = await supabase
+        .from('ethereal_calendar_events')
+        .select('id')
+        .eq('id', eventId)
+        .eq('room_id', roomId)
+        .maybeSingle();
+
+      if (!existing) {
+        return json({ error: 'Event not found' }, 404);
+      }
+
+      const { error } = await supabase
+        .from('ethereal_calendar_events')
+        .delete()
+        .eq('id', eventId);
+
+      if (error) {
+        console.error('[ethereal_events] DELETE error:', error);
+        return json({ error: error.message }, 500);
+      }
+
+      console.log('[ethereal_events] Deleted:', eventId);
+      return json({ success: true, eventId });
+    }
+
+    // ============ Method Not Allowed ============
+    return json({ error: 'Method not allowed' }, 405);
+
+  } catch (e) {
+    console.error('[ethereal_events] Unhandled error:', e);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
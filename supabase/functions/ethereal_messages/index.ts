@@ -36,14 +36,17 @@
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { withIdempotency } from "../_shared/idempotency.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-ethereal-token",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-ethereal-token, x-idempotency-key",
 };
 
 const ALLOWED_MIME_TYPES = ["image/jpeg", "image/webp", "image/png"];
 const MAX_IMAGE_SIZE = 2 * 1024 * 1024; // 2MB
+const MAX_MESSAGE_LENGTH = 4000; // matches MAX_MESSAGE_LENGTH in src/lib/etherealChat.ts
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 function getExtensionFromMime(mime: string): string {
   switch (mime) {
@@ -130,7 +133,124 @@ async function validateEtherealToken(
   }
 }
 
-Deno.serve(async (req) => {
+// ============ Replies & Reactions ============
+
+const REPLY_PREVIEW_LENGTH = 120;
+const MAX_EMOJI_LENGTH = 16; // matches the CHECK on ethereal_message_reactions.emoji
+
+// Quoted original shown above a reply
+interface ReplyPreview {
+  serverId: string;
+  senderName: string;
+  content: string;
+  hasImage: boolean;
+  deleted: boolean;
+}
+
+interface ReactionGroup {
+  emoji: string;
+  memberIds: string[];
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function loadReplyPreviews(
+  supabase: ReturnType<typeof createClient>,
+  roomId: string,
+  ids: string[]
+): Promise<Map<string, ReplyPreview>> {
+  const previews = new Map<string, ReplyPreview>();
+  if (ids.length === 0) return previews;
+
+  const { data, error } = await supabase
+    .from("ethereal_messages")
+    .select("id, content, image_path, deleted_at, sender:ethereal_room_members!sender_id(display_name)")
+    .eq("room_id", roomId)
+    .in("id", ids);
+
+  if (error) {
+    console.error("Reply preview error:", error);
+    return previews;
+  }
+
+  const rows = data as Array<{
+    id: string;
+    content: string;
+    image_path: string | null;
+    deleted_at: string | null;
+    sender: { display_name: string } | null;
+  }>;
+  for (const m of rows) {
+    previews.set(m.id, {
+      serverId: m.id,
+      senderName: m.sender?.display_name || "Unknown",
+      content: (m.content || "").slice(0, REPLY_PREVIEW_LENGTH),
+      hasImage: !!m.image_path,
+      deleted: !!m.deleted_at,
+    });
+  }
+  return previews;
+}
+
+// Reactions per message, grouped by emoji in order of first use
+async function loadReactions(
+  supabase: ReturnType<typeof createClient>,
+  messageIds: string[]
+): Promise<Map<string, ReactionGroup[]>> {
+  const byMessage = new Map<string, ReactionGroup[]>();
+  if (messageIds.length === 0) return byMessage;
+
+  const { data, error } = await supabase
+    .from("ethereal_message_reactions")
+    .select("message_id, member_id, emoji")
+    .in("message_id", messageIds)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Reactions error:", error);
+    return byMessage;
+  }
+
+  for (const r of data as Array<{ message_id: string; member_id: string; emoji: string }>) {
+    const groups = byMessage.get(r.message_id) ?? [];
+    const group = groups.find((g) => g.emoji === r.emoji);
+    if (group) {
+      group.memberIds.push(r.member_id);
+    } else {
+      groups.push({ emoji: r.emoji, memberIds: [r.member_id] });
+    }
+    byMessage.set(r.message_id, groups);
+  }
+  return byMessage;
+}
+
+function toMs(value: string | null): number | null {
+  return value ? Date.parse(value) : null;
+}
+
+interface HistoryCursor {
+  createdAtMs: number;
+  serverId: string | null;
+}
+
+// before=<createdAtMs,serverId> points at the oldest message the client already has.
+// A bare timestamp is still accepted from older clients. Returns null when there is
+// no cursor and undefined when it is malformed.
+function parseCursor(raw: string | null): HistoryCursor | null | undefined {
+  if (!raw) return null;
+  const [msPart, serverId] = raw.split(",", 2);
+  const createdAtMs = Number(msPart);
+  if (!Number.isSafeInteger(createdAtMs) || createdAtMs < 0) return undefined;
+  if (serverId === undefined) return { createdAtMs, serverId: null };
+  return UUID_RE.test(serverId) ? { createdAtMs, serverId } : undefined;
+}
+
+async function handleRequest(req: Request): Promise<Response> {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
   }
@@ -151,23 +271,36 @@ Deno.serve(async (req) => {
 
     const { roomId, memberId } = validation.session;
 
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/").filter(Boolean);
+    // pathParts: ['ethereal_messages'] or ['ethereal_messages', 'uuid'] or ['ethereal_messages', 'uuid', 'reactions']
+    const messageId = pathParts[1];
+    const action = pathParts[2];
+
+    if (messageId) {
+      return await handleMessageAction(req, supabase, roomId, memberId, messageId, action);
+    }
+
     if (req.method === "POST") {
       // Parse FormData or JSON
       const contentType = req.headers.get("content-type") || "";
       let content = "";
+      let replyToId: string | null = null;
       let imageFile: File | null = null;
 
       if (contentType.includes("multipart/form-data")) {
         const formData = await req.formData();
         content = (formData.get("content") ?? "").toString();
+        replyToId = formData.get("replyToId")?.toString() || null;
         const imageEntry = formData.get("image");
         if (imageEntry instanceof File) {
           imageFile = imageEntry;
         }
       } else {
         // Fallback to JSON for backward compatibility
-        const json = await req.json();
-        content = json.content || "";
+        const body = await req.json();
+        content = body.content || "";
+        replyToId = body.replyToId || null;
       }
 
       // At least one of content or image required
@@ -178,6 +311,10 @@ Deno.serve(async (req) => {
         );
       }
 
+      if (content.length > MAX_MESSAGE_LENGTH) {
+        return json({ success: false, error: "message_too_long" }, 400);
+      }
+
       // Validate image if present
       if (imageFile) {
         if (!ALLOWED_MIME_TYPES.includes(imageFile.type)) {
@@ -194,6 +331,13 @@ Deno.serve(async (req) => {
         }
       }
 
+      // The quoted message must be in this room
+      let replyPreview: ReplyPreview | null = null;
+      if (replyToId) {
+        replyPreview = (await loadReplyPreviews(supabase, roomId, [replyToId])).get(replyToId) ?? null;
+        if (!replyPreview) return json({ success: false, error: "invalid_reply" }, 400);
+      }
+
       // Get sender's display name
       const { data: member } = await supabase
         .from("ethereal_room_members")
@@ -208,8 +352,9 @@ Deno.serve(async (req) => {
           room_id: roomId,
           sender_id: memberId,
           content: content.trim() || "",
+          reply_to_id: replyToId,
         })
-        .select("id, created_at")
+        .select("id, content, created_at, updated_at")
         .single();
 
       if (insertError) {
@@ -298,9 +443,13 @@ Deno.serve(async (req) => {
           success: true,
           id: msg.id,
           createdAtMs: Date.parse(msg.created_at),
+          content: msg.content,
           senderName: member?.display_name || "Unknown",
           imagePath,
           imageUrl,
+          replyToId,
+          replyPreview,
+          updatedAtMs: Date.parse(msg.updated_at),
         }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
@@ -310,7 +459,8 @@ Deno.serve(async (req) => {
       // List messages
       const url = new URL(req.url);
       const limit = Math.min(parseInt(url.searchParams.get("limit") || "50"), 100);
-      const before = url.searchParams.get("before");
+      const before = parseCursor(url.searchParams.get("before"));
+      if (before === undefined) return json({ success: false, error: "invalid_cursor" }, 400);
 
       // B.7: Correct alias for foreign table + image fields
       let query = supabase
@@ -320,18 +470,30 @@ Deno.serve(async (req) => {
           sender_id,
           content,
           created_at,
+          created_at_ms,
           image_path,
           image_mime,
           image_w,
           image_h,
+          reply_to_id,
+          edited_at,
+          deleted_at,
+          updated_at,
           sender:ethereal_room_members!sender_id(display_name)
         `)
         .eq("room_id", roomId)
-        .order("created_at", { ascending: false })
-        .limit(limit);
-
-      if (before) {
-        query = query.lt("created_at", new Date(parseInt(before)).toISOString());
+        // Same order as the client's stableMsgSort, newest first. One extra row tells
+        // us whether anything older remains.
+        .order("created_at_ms", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(limit + 1);
+
+      if (before?.serverId) {
+        query = query.or(
+          `created_at_ms.lt.${before.createdAtMs},and(created_at_ms.eq.${before.createdAtMs},id.lt.${before.serverId})`
+        );
+      } else if (before) {
+        query = query.lt("created_at_ms", before.createdAtMs);
       }
 
       const { data, error } = await query;
@@ -344,9 +506,18 @@ Deno.serve(async (req) => {
         );
       }
 
+      const hasMore = data.length > limit;
+      const page = data.slice(0, limit);
+      const rows = page as Array<{ id: string; reply_to_id: string | null }>;
+      const replyIds = [...new Set(rows.map((m) => m.reply_to_id).filter((id): id is string => !!id))];
+      const [replyPreviews, reactions] = await Promise.all([
+        loadReplyPreviews(supabase, roomId, replyIds),
+        loadReactions(supabase, rows.map((m) => m.id)),
+      ]);
+
       // Generate signed URLs for messages with images (parallel)
       const messagesWithUrls = await Promise.all(
-        data.map(async (m: any) => {
+        page.map(async (m: any) => {
           let imageUrl: string | null = null;
           if (m.image_path) {
             const { data: signedData } = await supabase.storage
@@ -359,12 +530,18 @@ Deno.serve(async (req) => {
             senderId: m.sender_id,
             senderName: m.sender?.display_name || "Unknown",
             content: m.content,
-            createdAtMs: Date.parse(m.created_at),
+            createdAtMs: m.created_at_ms ?? Date.parse(m.created_at),
             imagePath: m.image_path || null,
             imageUrl,
             imageMime: m.image_mime || null,
             imageW: m.image_w || null,
             imageH: m.image_h || null,
+            replyToId: m.reply_to_id || null,
+            replyPreview: m.reply_to_id ? replyPreviews.get(m.reply_to_id) ?? null : null,
+            reactions: reactions.get(m.id) ?? [],
+            editedAtMs: toMs(m.edited_at),
+            deletedAtMs: toMs(m.deleted_at),
+            updatedAtMs: toMs(m.updated_at) ?? Date.parse(m.created_at),
           };
         })
       );
@@ -373,6 +550,7 @@ Deno.serve(async (req) => {
         JSON.stringify({
           success: true,
           messages: messagesWithUrls,
+          hasMore,
         }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
@@ -389,4 +567,182 @@ Deno.serve(async (req) => {
       { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
+}
+
+/**
+ * Changes to an existing message:
+ * - PUT    /:id            edit text (sender only)
+ * - DELETE /:id            delete for everyone (sender only); the row stays as a tombstone
+ * - POST   /:id/reactions  toggle the caller's reaction { emoji }
+ */
+async function handleMessageAction(
+  req: Request,
+  supabase: ReturnType<typeof createClient>,
+  roomId: string,
+  memberId: string,
+  messageId: string,
+  action: string | undefined
+): Promise<Response> {
+  const { data: message } = await supabase
+    .from("ethereal_messages")
+    .select("id, sender_id, content, image_path, deleted_at")
+    .eq("id", messageId)
+    .eq("room_id", roomId)
+    .maybeSingle();
+
+  if (!message) return json({ success: false, error: "not_found" }, 404);
+
+  const now = new Date().toISOString();
+
+  if (req.method === "PUT" && !action) {
+    if (message.sender_id !== memberId) return json({ success: false, error: "not_sender" }, 403);
+    if (message.deleted_at) return json({ success: false, error: "message_deleted" }, 409);
+
+    const body = await req.json();
+    const content = typeof body.content === "string" ? body.content.trim() : "";
+    // Image messages may drop their caption; text messages may not become empty
+    if (!content && !message.image_path) return json({ success: false, error: "empty_message" }, 400);
+    if (content.length > MAX_MESSAGE_LENGTH) return json({ success: false, error: "message_too_long" }, 400);
+
+    const { error } = await supabase
+      .from("ethereal_messages")
+      .update({ content, edited_at: now, updated_at: now })
+      .eq("id", messageId);
+
+    if (error) {
+      console.error("Edit error:", error);
+      return json({ success: false, error: "update_error" }, 500);
+    }
+
+    return json({
+      success: true,
+      serverId: messageId,
+      content,
+      editedAtMs: Date.parse(now),
+      updatedAtMs: Date.parse(now),
+    });
+  }
+
+  if (req.method === "DELETE" && !action) {
+    if (message.sender_id !== memberId) return json({ success: false, error: "not_sender" }, 403);
+
+    // Already gone: report the existing tombstone
+    if (message.deleted_at) {
+      return json({
+        success: true,
+        serverId: messageId,
+        deletedAtMs: Date.parse(message.deleted_at),
+        updatedAtMs: Date.parse(message.deleted_at),
+      });
+    }
+
+    if (message.image_path) {
+      const { error: removeError } = await supabase.storage.from("ethereal-media").remove([message.image_path]);
+      if (removeError) console.error("Remove image error:", removeError);
+    }
+
+    const { error } = await supabase
+      .from("ethereal_messages")
+      .update({
+        content: "",
+        image_path: null,
+        image_mime: null,
+        image_w: null,
+        image_h: null,
+        deleted_at: now,
+        updated_at: now,
+      })
+      .eq("id", messageId);
+
+    if (error) {
+      console.error("Delete error:", error);
+      return json({ success: false, error: "delete_error" }, 500);
+    }
+
+    await supabase.from("ethereal_message_reactions").delete().eq("message_id", messageId);
+
+    return json({
+      success: true,
+      serverId: messageId,
+      deletedAtMs: Date.parse(now),
+      updatedAtMs: Date.parse(now),
+    });
+  }
+
+  if (req.method === "POST" && action === "reactions") {
+    if (message.deleted_at) return json({ success: false, error: "message_deleted" }, 409);
+
+    const body = await req.json();
+    const emoji = typeof body.emoji === "string" ? body.emoji.trim() : "";
+    if (!emoji || emoji.length > MAX_EMOJI_LENGTH) {
+      return json({ success: false, error: "invalid_emoji" }, 400);
+    }
+
+    const { data: existing } = await supabase
+      .from("ethereal_message_reactions")
+      .select("emoji")
+      .eq("message_id", messageId)
+      .eq("member_id", memberId)
+      .eq("emoji", emoji)
+      .maybeSingle();
+
+    const { error } = existing
+      ? await supabase
+          .from("ethereal_message_reactions")
+          .delete()
+          .eq("message_id", messageId)
+          .eq("member_id", memberId)
+          .eq("emoji", emoji)
+      : await supabase
+          .from("ethereal_message_reactions")
+          .insert({ message_id: messageId, member_id: memberId, emoji });
+
+    if (error) {
+      console.error("Reaction error:", error);
+      return json({ success: false, error: "reaction_error" }, 500);
+    }
+
+    await supabase.from("ethereal_messages").update({ updated_at: now }).eq("id", messageId);
+    const reactions = await loadReactions(supabase, [messageId]);
+
+    return json({
+      success: true,
+      serverId: messageId,
+      reactions: reactions.get(messageId) ?? [],
+      updatedAtMs: Date.parse(now),
+    });
+  }
+
+  return json({ success: false, error: "method_not_allowed" }, 405);
+}
+
+// A stored send response carries a signed URL that may have expired by the time it is replayed
+async function resignImageUrl(supabase: ReturnType<typeof createClient>, body: unknown): Promise<unknown> {
+  const imagePath = (body as { imagePath?: unknown } | null)?.imagePath;
+  if (typeof imagePath !== "string" || !imagePath) return body;
+
+  const { data: signedData } = await supabase.storage
+    .from("ethereal-media")
+    .createSignedUrl(imagePath, 1800); // 30 minutes
+  return { ...(body as Record<string, unknown>), imageUrl: signedData?.signedUrl || null };
+}
+
+Deno.serve(async (req) => {
+  if (!req.headers.get("x-idempotency-key")) return handleRequest(req);
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  // Invalid sessions fall through to handleRequest, which rejects them
+  const validation = await validateEtherealToken(req, supabase);
+  if (!validation.valid) return handleRequest(req);
+
+  const { roomId, memberId } = validation.session;
+  return withIdempotency(req, supabase, roomId, memberId, () => handleRequest(req), {
+    corsHeaders,
+    logTag: "[ethereal_messages]",
+    replay: (body) => resignImageUrl(supabase, body),
+  });
 });
@@ -33,10 +33,11 @@
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { withIdempotency } from '../_shared/idempotency.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-ethereal-token',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-ethereal-token, x-idempotency-key',
 };
 
 // ============ Token Verification (same pattern as other ethereal functions) ============
@@ -127,7 +128,7 @@ async function validateSession(
 
 // ============ Main Handler ============
 
-Deno.serve(async (req) => {
+async function handleRequest(req: Request): Promise<Response> {
   // CORS preflight
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -538,4 +539,23 @@ Deno.serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
+}
+
+Deno.serve(async (req) => {
+  const token = req.headers.get('x-ethereal-token');
+  const payload = token && req.headers.get('x-idempotency-key') ? await verifyToken(token) : null;
+  if (!payload) return handleRequest(req);
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  // Revoked sessions fall through to handleRequest, which rejects them
+  if (!(await validateSession(supabase, payload))) return handleRequest(req);
+
+  return withIdempotency(req, supabase, payload.roomId, payload.memberId, () => handleRequest(req), {
+    corsHeaders,
+    logTag: '[ethereal_tasks]',
+  });
 });
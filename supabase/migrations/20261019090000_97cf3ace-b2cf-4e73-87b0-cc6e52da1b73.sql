@@ -0,0 +1,4 @@
+-- Entries are keyed by the client-generated UUID (diary_entries.id).
+-- local_id is a per-device autoincrement and collides across devices, so it is no longer unique.
+DROP INDEX IF EXISTS public.idx_diary_entries_user_local;
+CREATE INDEX IF NOT EXISTS idx_diary_entries_user_local ON public.diary_entries(user_id, local_id);
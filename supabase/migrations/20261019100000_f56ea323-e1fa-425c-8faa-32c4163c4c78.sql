@@ -0,0 +1,8 @@
+-- Deletion tombstones for cloud sync: clients soft-delete with deleted_at,
+-- cleanup-revisions hard-deletes tombstones after the retention period.
+ALTER TABLE public.diary_attachments ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_diary_entries_deleted
+  ON public.diary_entries(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_diary_attachments_deleted
+  ON public.diary_attachments(deleted_at) WHERE deleted_at IS NOT NULL;
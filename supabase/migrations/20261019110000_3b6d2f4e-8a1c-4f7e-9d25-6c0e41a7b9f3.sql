@@ -0,0 +1,34 @@
+-- End-to-end encrypted sync. The server only ever sees the data key wrapped by a
+-- passphrase-derived key and by a recovery-code-derived key.
+CREATE TABLE public.sync_encryption_keys (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  key_id UUID NOT NULL,
+  kdf_iterations INTEGER NOT NULL,
+  passphrase_salt TEXT NOT NULL,
+  wrapped_key TEXT NOT NULL,
+  recovery_salt TEXT NOT NULL,
+  recovery_wrapped_key TEXT NOT NULL,
+  -- Key being rotated away from; rows may still reference it until re-encrypted
+  previous_key_id UUID,
+  previous_wrapped_key TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sync_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sync key"
+  ON public.sync_encryption_keys FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own sync key"
+  ON public.sync_encryption_keys FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own sync key"
+  ON public.sync_encryption_keys FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Rows encrypted client-side record which data key they need (NULL = plaintext)
+ALTER TABLE public.diary_entries ADD COLUMN IF NOT EXISTS encryption_key_id UUID;
+ALTER TABLE public.diary_attachments ADD COLUMN IF NOT EXISTS encryption_key_id UUID;
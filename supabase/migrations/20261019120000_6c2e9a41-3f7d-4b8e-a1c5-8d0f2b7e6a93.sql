@@ -0,0 +1,9 @@
+-- Recurring events for the Ethereal shared calendar. A recurring row is the whole series:
+-- occurrences are expanded on the client from start_at until recurrence_until (open-ended when NULL).
+ALTER TABLE public.ethereal_calendar_events
+  ADD COLUMN IF NOT EXISTS recurrence TEXT NOT NULL DEFAULT 'none'
+    CHECK (recurrence IN ('none', 'daily', 'weekly', 'monthly', 'yearly')),
+  ADD COLUMN IF NOT EXISTS recurrence_until TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_ethereal_events_room_updated
+  ON public.ethereal_calendar_events(room_id, updated_at DESC);
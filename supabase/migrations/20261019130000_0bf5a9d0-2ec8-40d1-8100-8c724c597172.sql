@@ -0,0 +1,26 @@
+-- Idempotency keys for Ethereal mutations replayed from the client outbox.
+-- A mutating request may carry x-idempotency-key; the first response is stored and
+-- returned again for any retry with the same key, so a replay never applies twice.
+CREATE TABLE IF NOT EXISTS public.ethereal_idempotency_keys (
+  room_id UUID NOT NULL REFERENCES public.ethereal_rooms(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  member_id UUID NOT NULL REFERENCES public.ethereal_room_members(id) ON DELETE CASCADE,
+  status INTEGER NOT NULL,
+  response JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ethereal_idempotency_keys_created
+  ON public.ethereal_idempotency_keys(created_at);
+
+ALTER TABLE public.ethereal_idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Deny all direct access" ON public.ethereal_idempotency_keys;
+CREATE POLICY "Deny all direct access"
+  ON public.ethereal_idempotency_keys
+  AS RESTRICTIVE
+  FOR ALL
+  TO anon, authenticated
+  USING (false)
+  WITH CHECK (false);
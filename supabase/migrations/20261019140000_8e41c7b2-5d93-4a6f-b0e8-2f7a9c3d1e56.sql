@@ -0,0 +1,33 @@
+-- Replies, edits, deletes and reactions for Ethereal chat messages.
+-- Deleting is "for everyone" and soft: the row stays as a tombstone (deleted_at set,
+-- content and image cleared) so replies quoting it and other clients' caches can show it
+-- as deleted. updated_at is bumped by every change and lets clients drop stale updates.
+ALTER TABLE public.ethereal_messages
+  ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES public.ethereal_messages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+UPDATE public.ethereal_messages SET updated_at = created_at WHERE created_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.ethereal_message_reactions (
+  message_id UUID NOT NULL REFERENCES public.ethereal_messages(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.ethereal_room_members(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, member_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ethereal_message_reactions_message
+  ON public.ethereal_message_reactions(message_id);
+
+ALTER TABLE public.ethereal_message_reactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Deny all direct access" ON public.ethereal_message_reactions;
+CREATE POLICY "Deny all direct access"
+  ON public.ethereal_message_reactions
+  AS RESTRICTIVE
+  FOR ALL
+  TO anon, authenticated
+  USING (false)
+  WITH CHECK (false);
@@ -0,0 +1,28 @@
+-- Keyset pagination for Ethereal chat history.
+-- Clients sort messages by (createdAtMs, serverId) and page backwards with
+-- before=<createdAtMs,serverId>. created_at has microsecond precision, so paging on it
+-- directly would split rows that clients treat as equal; created_at_ms stores the same
+-- millisecond value the client sees and is kept in sync by a trigger.
+ALTER TABLE public.ethereal_messages
+  ADD COLUMN IF NOT EXISTS created_at_ms BIGINT;
+
+UPDATE public.ethereal_messages
+  SET created_at_ms = floor(extract(epoch FROM created_at) * 1000)
+  WHERE created_at_ms IS NULL AND created_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.ethereal_messages_set_created_at_ms()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.created_at_ms = floor(extract(epoch FROM NEW.created_at) * 1000);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS ethereal_messages_created_at_ms ON public.ethereal_messages;
+CREATE TRIGGER ethereal_messages_created_at_ms
+  BEFORE INSERT OR UPDATE OF created_at ON public.ethereal_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ethereal_messages_set_created_at_ms();
+
+CREATE INDEX IF NOT EXISTS idx_ethereal_messages_room_cursor
+  ON public.ethereal_messages(room_id, created_at_ms DESC, id DESC);
@@ -0,0 +1,7 @@
+-- Reserve Ethereal idempotency keys before the mutation runs.
+-- The edge function inserts the key first (ON CONFLICT DO NOTHING) and only the request
+-- that inserted it applies the change; status and response are filled in afterwards.
+-- A row without a status is a reservation whose first run has not finished yet.
+ALTER TABLE public.ethereal_idempotency_keys
+  ALTER COLUMN status DROP NOT NULL,
+  ALTER COLUMN response DROP NOT NULL;